@@ -20,6 +20,7 @@ import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Progress } from '@/components/ui/progress'
 import { HealthScoreGauge } from '@/components/domains/HealthScoreGauge'
+import { ShareButton } from '@/components/share'
 import { formatDistanceToNow } from 'date-fns'
 
 interface PlatformScore {
@@ -201,12 +202,17 @@ export default function AISeoRunDetailPage() {
             <p className="text-muted-foreground mt-1">{run.businessName}</p>
           </div>
         </div>
-        <Badge 
-          variant={run.status === 'COMPLETED' ? 'default' : 'secondary'}
-          className={run.status === 'COMPLETED' ? 'bg-emerald-600' : ''}
-        >
-          {run.status.toLowerCase()}
-        </Badge>
+        <div className="flex items-center gap-3">
+          {run.status === 'COMPLETED' && (
+            <ShareButton domainId={domainId} resourceType="AI_SEO_RUN" resourceId={run.id} />
+          )}
+          <Badge 
+            variant={run.status === 'COMPLETED' ? 'default' : 'secondary'}
+            className={run.status === 'COMPLETED' ? 'bg-emerald-600' : ''}
+          >
+            {run.status.toLowerCase()}
+          </Badge>
+        </div>
       </div>
 
       {/* Status Message */}
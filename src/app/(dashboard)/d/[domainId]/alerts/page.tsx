@@ -0,0 +1,235 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import { Bell, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useDomain } from '@/contexts/DomainContext';
+import {
+  AlertEventList,
+  AlertRuleForm,
+  type AlertEventData,
+  type AlertRuleData,
+} from '@/components/alerts';
+import { ALERT_RULE_TYPES } from '@/lib/alerts/rules';
+
+type EventFilter = 'active' | 'all';
+
+export default function AlertsPage(): React.ReactElement {
+  const params = useParams();
+  const domainId = params.domainId as string;
+  const { selectedDomain } = useDomain();
+
+  const [filter, setFilter] = useState<EventFilter>('active');
+  const [events, setEvents] = useState<AlertEventData[]>([]);
+  const [activeCount, setActiveCount] = useState(0);
+  const [rules, setRules] = useState<AlertRuleData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingRuleId, setEditingRuleId] = useState<string | 'new' | null>(null);
+  const [deletingRuleId, setDeletingRuleId] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async (): Promise<void> => {
+    if (!domainId) return;
+
+    try {
+      const response = await fetch(`/api/alerts/events?domainId=${domainId}&filter=${filter}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setEvents(data.data.events);
+        setActiveCount(data.data.activeCount);
+      } else {
+        setError(data.error || 'Failed to load alerts');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    }
+  }, [domainId, filter]);
+
+  const fetchRules = useCallback(async (): Promise<void> => {
+    if (!domainId) return;
+
+    try {
+      const response = await fetch(`/api/alerts/rules?domainId=${domainId}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setRules(data.data);
+      } else {
+        setError(data.error || 'Failed to load alert rules');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    }
+  }, [domainId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    Promise.all([fetchEvents(), fetchRules()]).finally(() => setLoading(false));
+  }, [fetchEvents, fetchRules]);
+
+  const handleRuleSaved = (): void => {
+    setEditingRuleId(null);
+    fetchRules();
+  };
+
+  const handleDeleteRule = async (ruleId: string): Promise<void> => {
+    if (!confirm('Delete this alert rule and its alert history?')) return;
+
+    setDeletingRuleId(ruleId);
+    try {
+      const response = await fetch(`/api/alerts/rules/${ruleId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        await Promise.all([fetchRules(), fetchEvents()]);
+      } else {
+        setError(data.error || 'Failed to delete alert rule');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setDeletingRuleId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+          <Bell className="h-6 w-6" />
+          Alerts
+          {activeCount > 0 && <Badge variant="destructive">{activeCount}</Badge>}
+        </h1>
+        <p className="text-muted-foreground">
+          {selectedDomain?.name || 'Loading...'} - Get notified when rankings drop, local pack
+          visibility falls or a crawl finds new problems
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="text-lg">Alert History</CardTitle>
+              <Tabs value={filter} onValueChange={(value) => setFilter(value as EventFilter)}>
+                <TabsList>
+                  <TabsTrigger value="active" className="cursor-pointer">
+                    Active
+                  </TabsTrigger>
+                  <TabsTrigger value="all" className="cursor-pointer">
+                    All
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </CardHeader>
+            <CardContent>
+              <AlertEventList events={events} onChange={fetchEvents} />
+            </CardContent>
+          </Card>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold">Rules</h2>
+              {editingRuleId !== 'new' && (
+                <Button onClick={() => setEditingRuleId('new')} className="cursor-pointer">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Rule
+                </Button>
+              )}
+            </div>
+
+            {editingRuleId === 'new' && (
+              <AlertRuleForm
+                domainId={domainId}
+                onSave={handleRuleSaved}
+                onCancel={() => setEditingRuleId(null)}
+              />
+            )}
+
+            {rules.length === 0 && editingRuleId !== 'new' && (
+              <p className="text-sm text-muted-foreground">
+                No alert rules yet. Rules are checked whenever keyword tracking, a grid scan or a
+                site audit finishes.
+              </p>
+            )}
+
+            {rules.map((rule) =>
+              editingRuleId === rule.id ? (
+                <AlertRuleForm
+                  key={rule.id}
+                  domainId={domainId}
+                  rule={rule}
+                  onSave={handleRuleSaved}
+                  onCancel={() => setEditingRuleId(null)}
+                />
+              ) : (
+                <div
+                  key={rule.id}
+                  className="rounded-lg border p-4 flex items-center justify-between gap-4"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{rule.name}</span>
+                      {!rule.isEnabled && <Badge variant="secondary">Disabled</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {ALERT_RULE_TYPES[rule.type].label} &middot;{' '}
+                      {ALERT_RULE_TYPES[rule.type].thresholdLabel}: {rule.threshold}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        rule.emailRecipients.length > 0
+                          ? `Email: ${rule.emailRecipients.join(', ')}`
+                          : null,
+                        rule.webhookUrl ? 'Webhook' : null,
+                      ]
+                        .filter(Boolean)
+                        .join(' · ') || 'In-app only'}
+                      {rule.lastTriggeredAt &&
+                        ` · Last triggered ${new Date(rule.lastTriggeredAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="cursor-pointer"
+                      onClick={() => setEditingRuleId(rule.id)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="cursor-pointer"
+                      disabled={deletingRuleId === rule.id}
+                      onClick={() => handleDeleteRule(rule.id)}
+                    >
+                      {deletingRuleId === rule.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
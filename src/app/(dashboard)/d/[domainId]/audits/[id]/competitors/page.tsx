@@ -41,7 +41,7 @@ export default function CompetitorPage(): React.ReactElement {
       </div>
 
       {/* Competitor Dashboard */}
-      <CompetitorDashboard auditId={auditId} />
+      <CompetitorDashboard auditId={auditId} domainId={domainId} />
     </div>
   )
 }
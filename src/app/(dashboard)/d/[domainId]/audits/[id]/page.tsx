@@ -37,6 +37,7 @@ import {
   AuditStatus,
 } from '@/types/audit';
 import { formatDateTime, formatRelativeTime } from '@/lib/utils';
+import type { ThresholdProfileConfig } from '@/lib/seo/threshold-profiles';
 import {
   transformKeywords,
   generateGBPFields,
@@ -77,6 +78,7 @@ interface AuditDetailsResponse {
       competitors: CompetitorStepResult | null;
       business: BusinessStepResult | null;
     };
+    thresholdProfile: ThresholdProfileConfig;
     error: string | null;
     startedAt: string | null;
     completedAt: string | null;
@@ -293,7 +295,7 @@ export default function AuditDetailPage(): React.ReactElement {
 
           {/* Tab 0: Action Plan - Local SEO Recommendations */}
           <TabsContent value="action-plan" className="mt-6">
-            <ActionPlanTab auditData={audit} />
+            <ActionPlanTab auditData={audit} profile={audit.thresholdProfile} />
           </TabsContent>
 
           {/* Tab 1: Overview - Placeholder for future content */}
@@ -310,7 +312,10 @@ export default function AuditDetailPage(): React.ReactElement {
           {/* Tab 2: Technical SEO - Now with 3 sub-tabs (Content, Issues, Performance) */}
           <TabsContent value="technical" className="mt-6">
             {audit.stepResults.onPage ? (
-              <OnPageTabsContainer data={audit.stepResults.onPage} />
+              <OnPageTabsContainer
+                data={audit.stepResults.onPage}
+                profile={audit.thresholdProfile}
+              />
             ) : (
               <EmptyState
                 icon={Settings}
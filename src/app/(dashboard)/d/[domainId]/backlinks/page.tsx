@@ -31,9 +31,14 @@ import {
 import { useDomain } from '@/contexts/DomainContext'
 import { BacklinkQualityChart } from '@/components/backlinks/BacklinkQualityChart'
 import { LinkVelocityChart } from '@/components/backlinks/LinkVelocityChart'
+import { BacklinkTrendChart } from '@/components/backlinks/BacklinkTrendChart'
+import { LostBacklinksPanel } from '@/components/backlinks/LostBacklinksPanel'
+import { DisavowPanel } from '@/components/backlinks/DisavowPanel'
+import { LinkProspectPipeline } from '@/components/backlinks/LinkProspectPipeline'
 import { AnchorTextCloud } from '@/components/backlinks/AnchorTextCloud'
 import { SpamScoreIndicator } from '@/components/backlinks/SpamScoreIndicator'
 import { DomainRankBadge } from '@/components/backlinks/DomainRankBadge'
+import type { BacklinkTrendPoint } from '@/lib/seo/backlink-history'
 
 interface BacklinkProfile {
   id: string
@@ -67,6 +72,21 @@ interface BacklinkProfile {
   }>
 }
 
+interface SnapshotDiffDomain {
+  id: string
+  domain: string
+  domainRank: number
+  backlinks: number
+}
+
+interface BacklinkSnapshotDiff {
+  from: { fetchedAt: string }
+  to: { fetchedAt: string }
+  newDomains: SnapshotDiffDomain[]
+  lostDomains: SnapshotDiffDomain[]
+  partial: boolean
+}
+
 export default function BacklinksPage() {
   const params = useParams()
   const domainId = params.domainId as string
@@ -75,6 +95,8 @@ export default function BacklinksPage() {
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [trend, setTrend] = useState<BacklinkTrendPoint[]>([])
+  const [snapshotDiff, setSnapshotDiff] = useState<BacklinkSnapshotDiff | null>(null)
 
   const domainUrl = (path: string): string => `/d/${domainId}${path}`
 
@@ -98,6 +120,7 @@ export default function BacklinksPage() {
 
       if (data.success) {
         setProfile(data.data)
+        await fetchHistory()
       } else {
         setError(data.error || 'Failed to load backlink profile')
       }
@@ -108,6 +131,23 @@ export default function BacklinksPage() {
     }
   }
 
+  const fetchHistory = async () => {
+    try {
+      const [trendResponse, diffResponse] = await Promise.all([
+        fetch(`/api/backlinks/trends?domainId=${domainId}`),
+        fetch(`/api/backlinks/diff?domainId=${domainId}`),
+      ])
+      const [trendData, diffData] = await Promise.all([trendResponse.json(), diffResponse.json()])
+
+      setTrend(trendData.success ? trendData.data : [])
+      setSnapshotDiff(diffData.success ? diffData.data : null)
+    } catch {
+      // History is supplementary; the profile still renders without it
+      setTrend([])
+      setSnapshotDiff(null)
+    }
+  }
+
   const handleRefresh = async () => {
     setRefreshing(true)
     setError(null)
@@ -337,6 +377,9 @@ export default function BacklinksPage() {
               <TabsTrigger value="velocity">Link Velocity</TabsTrigger>
               <TabsTrigger value="anchors">Anchor Texts</TabsTrigger>
               <TabsTrigger value="domains">Top Domains</TabsTrigger>
+              <TabsTrigger value="lost">Lost Links</TabsTrigger>
+              <TabsTrigger value="disavow">Disavow</TabsTrigger>
+              <TabsTrigger value="outreach">Outreach</TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-4">
@@ -429,21 +472,16 @@ export default function BacklinksPage() {
               </div>
             </TabsContent>
 
-            <TabsContent value="velocity">
+            <TabsContent value="velocity" className="space-y-4">
               <Card>
                 <CardHeader>
-                  <CardTitle>Link Velocity (Last 30 Days)</CardTitle>
+                  <CardTitle>Link Velocity</CardTitle>
                   <CardDescription>
-                    Track new and lost backlinks over time
+                    New and lost referring domains between backlink refreshes
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <LinkVelocityChart
-                    newBacklinks30d={profile.newBacklinks30d}
-                    lostBacklinks30d={profile.lostBacklinks30d}
-                    newReferring30d={profile.newReferring30d}
-                    lostReferring30d={profile.lostReferring30d}
-                  />
+                  <LinkVelocityChart points={trend} />
                   
                   {/* Summary Stats */}
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6 pt-6 border-t">
@@ -486,6 +524,37 @@ export default function BacklinksPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Profile Trends</CardTitle>
+                  <CardDescription>
+                    Backlink profile metrics across refreshes (last 180 days)
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <BacklinkTrendChart points={trend} />
+                </CardContent>
+              </Card>
+
+              {snapshotDiff && (
+                <div className="grid gap-4 lg:grid-cols-2">
+                  <SnapshotDiffCard
+                    title="New Referring Domains"
+                    domains={snapshotDiff.newDomains}
+                    since={snapshotDiff.from.fetchedAt}
+                    partial={snapshotDiff.partial}
+                    variant="new"
+                  />
+                  <SnapshotDiffCard
+                    title="Lost Referring Domains"
+                    domains={snapshotDiff.lostDomains}
+                    since={snapshotDiff.from.fetchedAt}
+                    partial={snapshotDiff.partial}
+                    variant="lost"
+                  />
+                </div>
+              )}
             </TabsContent>
 
             <TabsContent value="anchors">
@@ -604,6 +673,18 @@ export default function BacklinksPage() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="lost">
+              <LostBacklinksPanel key={profile?.id} domainId={domainId} />
+            </TabsContent>
+
+            <TabsContent value="disavow">
+              <DisavowPanel domainId={domainId} />
+            </TabsContent>
+
+            <TabsContent value="outreach">
+              <LinkProspectPipeline domainId={domainId} />
+            </TabsContent>
           </Tabs>
 
           {/* Data Freshness */}
@@ -620,3 +701,49 @@ export default function BacklinksPage() {
     </div>
   )
 }
+
+interface SnapshotDiffCardProps {
+  title: string
+  domains: SnapshotDiffDomain[]
+  since: string
+  partial: boolean
+  variant: 'new' | 'lost'
+}
+
+function SnapshotDiffCard({ title, domains, since, partial, variant }: SnapshotDiffCardProps) {
+  const Icon = variant === 'new' ? ArrowUpRight : ArrowDownRight
+  const iconClass =
+    variant === 'new'
+      ? 'text-emerald-600 dark:text-emerald-400'
+      : 'text-red-600 dark:text-red-400'
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Icon className={`h-4 w-4 ${iconClass}`} />
+          {title}
+          <Badge variant="secondary">{domains.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Since the refresh on {new Date(since).toLocaleDateString()}
+          {partial && ' (top referring domains only)'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {domains.length > 0 ? (
+          <ul className="space-y-2 max-h-[300px] overflow-y-auto">
+            {domains.map((rd) => (
+              <li key={rd.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate font-medium">{rd.domain}</span>
+                <DomainRankBadge rank={rd.domainRank} size="sm" />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-muted-foreground text-sm py-4 text-center">No changes</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
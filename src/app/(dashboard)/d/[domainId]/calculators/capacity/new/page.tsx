@@ -9,6 +9,7 @@ import {
   CapacityCalculatorForm,
   type CapacityFormData,
 } from '@/components/calculators/capacity/CapacityCalculatorForm'
+import { getVerticalPack } from '@/lib/verticals'
 import { Building2, ArrowLeft } from 'lucide-react'
 import { toast } from 'sonner'
 
@@ -65,14 +66,21 @@ export default function NewCapacityCalculationPage() {
             New Capacity Calculation
           </h1>
           <p className="text-muted-foreground">
-            Analyze capacity for <span className="font-medium">{selectedDomain?.name || 'Loading...'}</span>
+            Analyze capacity for{' '}
+            <span className="font-medium">{selectedDomain?.name || 'Loading...'}</span>
           </p>
         </div>
       </div>
 
       <CapacityCalculatorForm
+        // Remount once the domain loads so its vertical's value defaults apply
+        key={selectedDomain?.vertical ?? 'default'}
         domainId={domainId}
         onSubmit={handleSubmit}
+        initialData={{
+          avgShortTermValue: getVerticalPack(selectedDomain?.vertical).funnel.avgShortTermValue,
+          avgLifetimeValue: getVerticalPack(selectedDomain?.vertical).funnel.avgLifetimeValue,
+        }}
         isLoading={isLoading}
       />
     </div>
@@ -9,6 +9,7 @@ import {
   GoogleAdsCalculatorForm,
   type GoogleAdsFormData,
 } from '@/components/calculators/google-ads/GoogleAdsCalculatorForm'
+import { getVerticalPack } from '@/lib/verticals'
 import { DollarSign, ArrowLeft } from 'lucide-react'
 import { toast } from 'sonner'
 
@@ -65,14 +66,18 @@ export default function NewGoogleAdsCalculationPage() {
             New Google Ads Calculation
           </h1>
           <p className="text-muted-foreground">
-            Project ROI for <span className="font-medium">{selectedDomain?.name || 'Loading...'}</span>
+            Project ROI for{' '}
+            <span className="font-medium">{selectedDomain?.name || 'Loading...'}</span>
           </p>
         </div>
       </div>
 
       <GoogleAdsCalculatorForm
+        // Remount once the domain loads so its vertical's funnel defaults apply
+        key={selectedDomain?.vertical ?? 'default'}
         domainId={domainId}
         onSubmit={handleSubmit}
+        initialData={getVerticalPack(selectedDomain?.vertical).funnel}
         isLoading={isLoading}
       />
     </div>
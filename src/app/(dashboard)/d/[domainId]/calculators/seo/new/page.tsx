@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { useDomain } from '@/contexts/DomainContext'
 import { SEOCalculatorForm } from '@/components/calculators/seo'
+import { getVerticalPack } from '@/lib/verticals'
 import { TrendingUp, ArrowLeft } from 'lucide-react'
 
 export default function NewSEOCalculationPage() {
@@ -29,14 +30,18 @@ export default function NewSEOCalculationPage() {
             New SEO Calculation
           </h1>
           <p className="text-muted-foreground">
-            Create ROI projection for <span className="font-medium">{selectedDomain?.name || 'Loading...'}</span>
+            Create ROI projection for{' '}
+            <span className="font-medium">{selectedDomain?.name || 'Loading...'}</span>
           </p>
         </div>
       </div>
 
       <SEOCalculatorForm
+        // Remount once the domain loads so its vertical's funnel defaults apply
+        key={selectedDomain?.vertical ?? 'default'}
         domainId={domainId}
         domainName={selectedDomain?.name || ''}
+        funnelDefaults={getVerticalPack(selectedDomain?.vertical).funnel}
         mode="create"
       />
     </div>
@@ -23,6 +23,7 @@ import {
   ResultsTable,
   RunProgress,
 } from '@/components/keyword-tracking'
+import { ShareButton } from '@/components/share'
 
 interface RunDetail {
   id: string
@@ -262,6 +263,7 @@ export default function RunDetailPage({
             {selectedDomain?.name || 'Loading...'} - {format(new Date(run.createdAt), 'PPp')}
           </p>
         </div>
+        <ShareButton domainId={run.domainId} resourceType="KEYWORD_RUN" resourceId={run.id} />
         <Button
           variant="outline"
           onClick={handleDelete}
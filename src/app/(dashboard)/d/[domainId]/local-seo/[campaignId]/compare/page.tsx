@@ -0,0 +1,340 @@
+'use client'
+
+import { useState, useEffect, useMemo, use } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { GridDeltaMap, GridMap, ScanComparisonSummary } from '@/components/local-seo'
+import { ArrowLeft, Columns2, GitCompare, Layers } from 'lucide-react'
+import type { GridShape, ServiceArea } from '@/lib/local-seo/grid-calculator'
+import type { ScanComparison } from '@/lib/local-seo/scan-comparison'
+
+interface CampaignInfo {
+  businessName: string
+  gridSize: number
+  gridRadiusMiles: number
+  gridShape: GridShape
+  serviceArea: ServiceArea | null
+  centerLat: number
+  centerLng: number
+  keywords: string[]
+}
+
+interface ScanOption {
+  id: string
+  status: string
+  avgRank: number | null
+  completedAt: string | null
+  createdAt: string
+}
+
+interface ComparedScan {
+  id: string
+  completedAt: string | null
+  avgRank: number | null
+  shareOfVoice: number | null
+}
+
+interface ComparisonData extends ScanComparison {
+  baseScan: ComparedScan
+  compareScan: ComparedScan
+}
+
+function formatScanDate(scan: { completedAt: string | null; createdAt?: string }): string {
+  const date = scan.completedAt ?? scan.createdAt
+  return date ? new Date(date).toLocaleString() : 'Unknown date'
+}
+
+export default function CompareScansPage({
+  params: promiseParams,
+}: {
+  params: Promise<{ domainId: string; campaignId: string }>
+}): React.ReactElement {
+  const { domainId, campaignId } = use(promiseParams)
+
+  // Helper to build domain-scoped URLs
+  const domainUrl = (path: string): string => `/d/${domainId}${path}`
+
+  const [campaign, setCampaign] = useState<CampaignInfo | null>(null)
+  const [scans, setScans] = useState<ScanOption[]>([])
+  const [baseScanId, setBaseScanId] = useState<string | null>(null)
+  const [compareScanId, setCompareScanId] = useState<string | null>(null)
+  const [comparison, setComparison] = useState<ComparisonData | null>(null)
+  const [selectedKeyword, setSelectedKeyword] = useState<string | null>(null)
+  const [viewMode, setViewMode] = useState<'difference' | 'side-by-side'>('difference')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isComparing, setIsComparing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchData = async (): Promise<void> => {
+      try {
+        const [campaignRes, scansRes] = await Promise.all([
+          fetch(`/api/local-seo/campaigns/${campaignId}`),
+          fetch(`/api/local-seo/campaigns/${campaignId}/scans?limit=50`),
+        ])
+        const campaignResult = await campaignRes.json()
+        const scansResult = await scansRes.json()
+
+        if (!campaignResult.success || !scansResult.success) {
+          setError(campaignResult.error || scansResult.error || 'Failed to load scans')
+          return
+        }
+
+        const completed = (scansResult.data.scans as ScanOption[]).filter(
+          (scan) => scan.status === 'COMPLETED'
+        )
+        setCampaign(campaignResult.data)
+        setScans(completed)
+        setSelectedKeyword(campaignResult.data.keywords[0] ?? null)
+
+        // Default to the latest scan against the one before it
+        if (completed.length >= 2) {
+          setCompareScanId(completed[0]!.id)
+          setBaseScanId(completed[1]!.id)
+        }
+      } catch {
+        setError('Failed to load scans')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [campaignId])
+
+  useEffect(() => {
+    if (!baseScanId || !compareScanId || baseScanId === compareScanId) return
+
+    const fetchComparison = async (): Promise<void> => {
+      setIsComparing(true)
+      try {
+        const query = new URLSearchParams({ base: baseScanId, compare: compareScanId })
+        const response = await fetch(`/api/local-seo/campaigns/${campaignId}/compare?${query}`)
+        const result = await response.json()
+
+        if (result.success) {
+          setComparison(result.data)
+          setError(null)
+        } else {
+          setError(result.error || 'Failed to compare scans')
+        }
+      } catch {
+        setError('Failed to compare scans')
+      } finally {
+        setIsComparing(false)
+      }
+    }
+
+    fetchComparison()
+  }, [campaignId, baseScanId, compareScanId])
+
+  const keywordPoints = useMemo(
+    () => comparison?.points.filter((point) => point.keyword === selectedKeyword) ?? [],
+    [comparison, selectedKeyword]
+  )
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-10 w-1/3" />
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-[400px] w-full" />
+      </div>
+    )
+  }
+
+  if (!campaign) {
+    return (
+      <div className="py-12 text-center">
+        <p className="text-destructive">{error || 'Campaign not found'}</p>
+        <Link href={domainUrl(`/local-seo/${campaignId}`)}>
+          <Button variant="outline" className="mt-4 cursor-pointer">
+            Back to Campaign
+          </Button>
+        </Link>
+      </div>
+    )
+  }
+
+  const scanSelect = (
+    id: string,
+    label: string,
+    value: string | null,
+    onChange: (value: string) => void
+  ): React.ReactElement => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value ?? undefined} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select a scan" />
+        </SelectTrigger>
+        <SelectContent>
+          {scans.map((scan) => (
+            <SelectItem key={scan.id} value={scan.id}>
+              {formatScanDate(scan)}
+              {scan.avgRank !== null && ` • avg #${scan.avgRank.toFixed(1)}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  const sideBySidePoints = (rank: 'baseRank' | 'compareRank') =>
+    keywordPoints.map((point) => ({
+      row: point.row,
+      col: point.col,
+      lat: point.lat,
+      lng: point.lng,
+      rank: point[rank],
+    }))
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href={domainUrl(`/local-seo/${campaignId}`)}>
+          <Button variant="ghost" size="icon" className="cursor-pointer">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-bold">
+            <GitCompare className="h-6 w-6" />
+            Compare Scans
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {campaign.businessName} • Per-point rank changes between two scans
+          </p>
+        </div>
+      </div>
+
+      {scans.length < 2 ? (
+        <div className="text-muted-foreground py-12 text-center">
+          <GitCompare className="mx-auto mb-4 h-12 w-12 opacity-50" />
+          <p>At least two completed scans are needed for a comparison.</p>
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid gap-4 md:grid-cols-3">
+                {scanSelect('baseScan', 'Base scan', baseScanId, setBaseScanId)}
+                {scanSelect('compareScan', 'Compared scan', compareScanId, setCompareScanId)}
+                <div className="space-y-2">
+                  <Label htmlFor="keyword">Keyword</Label>
+                  <Select value={selectedKeyword ?? undefined} onValueChange={setSelectedKeyword}>
+                    <SelectTrigger id="keyword">
+                      <SelectValue placeholder="Select a keyword" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {campaign.keywords.map((keyword) => (
+                        <SelectItem key={keyword} value={keyword}>
+                          {keyword}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {baseScanId === compareScanId && (
+                <p className="text-destructive mt-4 text-sm">Select two different scans.</p>
+              )}
+              {error && <p className="text-destructive mt-4 text-sm">{error}</p>}
+            </CardContent>
+          </Card>
+
+          {isComparing && <Skeleton className="h-[400px] w-full" />}
+
+          {comparison && !isComparing && (
+            <>
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>{selectedKeyword}</CardTitle>
+                      <CardDescription>
+                        {formatScanDate(comparison.baseScan)} →{' '}
+                        {formatScanDate(comparison.compareScan)}
+                      </CardDescription>
+                    </div>
+                    <div className="flex rounded-lg border p-0.5">
+                      <Button
+                        variant={viewMode === 'difference' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => setViewMode('difference')}
+                      >
+                        <Layers className="mr-1 h-4 w-4" />
+                        Difference
+                      </Button>
+                      <Button
+                        variant={viewMode === 'side-by-side' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => setViewMode('side-by-side')}
+                      >
+                        <Columns2 className="mr-1 h-4 w-4" />
+                        Side by side
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {keywordPoints.length === 0 ? (
+                    <p className="text-muted-foreground py-8 text-center">
+                      This keyword wasn&apos;t scanned in both scans.
+                    </p>
+                  ) : viewMode === 'difference' ? (
+                    <GridDeltaMap
+                      points={keywordPoints}
+                      gridSize={campaign.gridSize}
+                      gridShape={campaign.gridShape}
+                      serviceArea={campaign.serviceArea}
+                    />
+                  ) : (
+                    <div className="grid gap-4 lg:grid-cols-2">
+                      {(['baseRank', 'compareRank'] as const).map((rank) => (
+                        <div key={rank} className="space-y-2">
+                          <p className="text-center text-sm font-medium">
+                            {formatScanDate(
+                              rank === 'baseRank' ? comparison.baseScan : comparison.compareScan
+                            )}
+                          </p>
+                          <GridMap
+                            points={sideBySidePoints(rank)}
+                            gridSize={campaign.gridSize}
+                            centerLat={campaign.centerLat}
+                            centerLng={campaign.centerLng}
+                            targetBusinessName={campaign.businessName}
+                            keyword={selectedKeyword ?? undefined}
+                            radiusMiles={campaign.gridRadiusMiles}
+                            gridShape={campaign.gridShape}
+                            serviceArea={campaign.serviceArea}
+                            defaultView="grid"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <ScanComparisonSummary comparison={comparison} />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
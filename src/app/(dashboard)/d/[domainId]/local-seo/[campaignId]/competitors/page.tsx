@@ -4,7 +4,14 @@ import { useState, useEffect, use } from 'react'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
-import { CompetitorTable, CompetitorShareChart, type CompetitorData } from '@/components/local-seo'
+import {
+  CompetitorTable,
+  CompetitorShareChart,
+  CompetitorTrajectoryChart,
+  CompetitorMovements,
+  type CompetitorData,
+} from '@/components/local-seo'
+import type { CompetitorHistory } from '@/lib/local-seo/competitor-history'
 import { ArrowLeft, Users, RefreshCw } from 'lucide-react'
 
 interface CompetitorPageData {
@@ -26,13 +33,22 @@ export default function CompetitorsPage({
   const domainUrl = (path: string): string => `/d/${domainId}${path}`
 
   const [data, setData] = useState<CompetitorPageData | null>(null)
+  const [history, setHistory] = useState<CompetitorHistory | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   const fetchData = async (): Promise<void> => {
     try {
-      const response = await fetch(`/api/local-seo/campaigns/${campaignId}/competitors?limit=100`)
+      const [response, historyResponse] = await Promise.all([
+        fetch(`/api/local-seo/campaigns/${campaignId}/competitors?limit=100`),
+        fetch(`/api/local-seo/campaigns/${campaignId}/competitors/history?top=5`),
+      ])
       const result = await response.json()
+      const historyResult = await historyResponse.json()
+
+      if (historyResult.success) {
+        setHistory(historyResult.data)
+      }
 
       if (result.success) {
         setData(result.data)
@@ -135,6 +151,14 @@ export default function CompetitorsPage({
             </div>
           )}
 
+          {/* Competitor History */}
+          {history && (
+            <div className="grid gap-6 lg:grid-cols-2">
+              <CompetitorTrajectoryChart competitors={history.competitors} />
+              <CompetitorMovements movements={history.movements} />
+            </div>
+          )}
+
           {/* Full Competitor Table */}
           <CompetitorTable
             competitors={data.competitors}
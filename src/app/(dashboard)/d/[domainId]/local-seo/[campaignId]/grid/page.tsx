@@ -4,8 +4,16 @@ import { useState, useEffect, use } from 'react'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { GridMap, KeywordGridSelector } from '@/components/local-seo'
-import { ArrowLeft, LayoutGrid, Maximize2, Minimize2 } from 'lucide-react'
+import { ArrowLeft, Download, LayoutGrid, Maximize2, Minimize2 } from 'lucide-react'
+import type { GridShape, ServiceArea } from '@/lib/local-seo/grid-calculator'
 
 interface GridPointData {
   row: number
@@ -29,6 +37,9 @@ interface GridPointData {
 interface CampaignInfo {
   businessName: string
   gridSize: number
+  gridRadiusMiles: number
+  gridShape: GridShape
+  serviceArea: ServiceArea | null
   centerLat: number
   centerLng: number
   keywords: string[]
@@ -135,6 +146,13 @@ export default function GridPage({
     )
   }
 
+  // Interpolated heatmap downloads are per keyword
+  const heatmapUrl = (format: 'geojson' | 'kml' | 'png'): string =>
+    `/api/local-seo/campaigns/${campaignId}/scans/${latestScan?.id}/heatmap?${new URLSearchParams({
+      keyword: selectedKeyword ?? '',
+      format,
+    }).toString()}`
+
   const aggregates = latestScan
     ? {
         avgRank: latestScan.avgRank,
@@ -165,19 +183,51 @@ export default function GridPage({
             </p>
           </div>
         </div>
-        <Button variant="outline" onClick={toggleFullscreen} className="cursor-pointer">
-          {isFullscreen ? (
-            <>
-              <Minimize2 className="h-4 w-4 mr-2" />
-              Exit Fullscreen
-            </>
-          ) : (
-            <>
-              <Maximize2 className="h-4 w-4 mr-2" />
-              Fullscreen
-            </>
+        <div className="flex items-center gap-2">
+          {latestScan && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="cursor-pointer">
+                  <Download className="h-4 w-4 mr-2" />
+                  Export Heatmap
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {selectedKeyword ? (
+                  <>
+                    <DropdownMenuLabel>{selectedKeyword}</DropdownMenuLabel>
+                    <DropdownMenuItem asChild className="cursor-pointer">
+                      <a href={heatmapUrl('geojson')}>GeoJSON</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild className="cursor-pointer">
+                      <a href={heatmapUrl('kml')}>KML (Google Earth)</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild className="cursor-pointer">
+                      <a href={heatmapUrl('png')}>PNG overlay</a>
+                    </DropdownMenuItem>
+                  </>
+                ) : (
+                  <DropdownMenuLabel className="font-normal text-muted-foreground">
+                    Select a keyword to export its heatmap
+                  </DropdownMenuLabel>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
           )}
-        </Button>
+          <Button variant="outline" onClick={toggleFullscreen} className="cursor-pointer">
+            {isFullscreen ? (
+              <>
+                <Minimize2 className="h-4 w-4 mr-2" />
+                Exit Fullscreen
+              </>
+            ) : (
+              <>
+                <Maximize2 className="h-4 w-4 mr-2" />
+                Fullscreen
+              </>
+            )}
+          </Button>
+        </div>
       </div>
 
       {/* Keyword Selector */}
@@ -198,6 +248,9 @@ export default function GridPage({
           centerLng={campaign.centerLng}
           targetBusinessName={campaign.businessName}
           keyword={selectedKeyword ?? undefined}
+          radiusMiles={campaign.gridRadiusMiles}
+          gridShape={campaign.gridShape}
+          serviceArea={campaign.serviceArea}
           aggregates={aggregates}
           showDetails
         />
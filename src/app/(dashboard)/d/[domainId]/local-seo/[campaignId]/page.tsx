@@ -12,6 +12,7 @@ import {
   CompetitorShareChart,
   ScanProgressIndicator,
 } from '@/components/local-seo'
+import { ShareButton } from '@/components/share'
 import {
   MapPin,
   ArrowLeft,
@@ -21,7 +22,9 @@ import {
   Users,
   LayoutGrid,
   Scale,
+  GitCompare,
 } from 'lucide-react'
+import type { GridShape, ServiceArea } from '@/lib/local-seo/grid-calculator'
 
 interface CampaignData {
   id: string
@@ -30,6 +33,9 @@ interface CampaignData {
   keywords: string[]
   gridSize: number
   gridRadiusMiles: number
+  gridShape: GridShape
+  serviceArea: ServiceArea | null
+  gridPointCount: number
   centerLat: number
   centerLng: number
   scanFrequency: string
@@ -217,7 +223,8 @@ export default function CampaignDashboardPage({
             <div className="flex items-center gap-2 mt-1">
               <Badge>{campaign.status}</Badge>
               <span className="text-sm text-muted-foreground">
-                {campaign.gridSize}×{campaign.gridSize} grid • {campaign.gridRadiusMiles}mi radius
+                {campaign.gridSize}×{campaign.gridSize} {campaign.gridShape} grid (
+                {campaign.gridPointCount} points) • {campaign.gridRadiusMiles}mi radius
               </span>
             </div>
           </div>
@@ -247,6 +254,20 @@ export default function CampaignDashboardPage({
               History
             </Button>
           </Link>
+          <Link href={domainUrl(`/local-seo/${campaignId}/compare`)}>
+            <Button variant="outline" size="sm" className="cursor-pointer">
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare
+            </Button>
+          </Link>
+          {latestScan?.status === 'COMPLETED' && (
+            <ShareButton
+              domainId={domainId}
+              resourceType="GRID_SCAN"
+              resourceId={latestScan.id}
+              size="sm"
+            />
+          )}
           <Button onClick={handleTriggerScan} disabled={latestScan?.status === 'SCANNING'} className="cursor-pointer">
             <Play className="h-4 w-4 mr-2" />
             Run Scan
@@ -288,6 +309,8 @@ export default function CampaignDashboardPage({
             targetBusinessName={campaign.businessName}
             keyword={selectedKeyword ?? undefined}
             radiusMiles={campaign.gridRadiusMiles}
+            gridShape={campaign.gridShape}
+            serviceArea={campaign.serviceArea}
             aggregates={aggregates}
             showDetails
           />
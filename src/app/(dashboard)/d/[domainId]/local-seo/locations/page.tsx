@@ -0,0 +1,137 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  LocationManager,
+  LocationRollupView,
+  type LocationData,
+  type LocationFormValues,
+} from '@/components/local-seo'
+import type { LocationRollup } from '@/lib/local-seo/multi-location'
+import { ArrowLeft, Building2, RefreshCw } from 'lucide-react'
+import { useDomain } from '@/contexts/DomainContext'
+
+export default function LocationsPage(): React.ReactElement {
+  const params = useParams()
+  const domainId = params.domainId as string
+  const { selectedDomain } = useDomain()
+  const [locations, setLocations] = useState<LocationData[]>([])
+  const [rollup, setRollup] = useState<LocationRollup | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Helper to build domain-scoped URLs
+  const domainUrl = (path: string): string => `/d/${domainId}${path}`
+
+  const fetchData = useCallback(async (): Promise<void> => {
+    try {
+      const [locationsResponse, rollupResponse] = await Promise.all([
+        fetch(`/api/local-seo/locations?domainId=${domainId}`),
+        fetch(`/api/local-seo/locations/rollup?domainId=${domainId}`),
+      ])
+      const [locationsResult, rollupResult] = await Promise.all([
+        locationsResponse.json(),
+        rollupResponse.json(),
+      ])
+
+      if (locationsResult.success && rollupResult.success) {
+        setLocations(locationsResult.data)
+        setRollup(rollupResult.data)
+        setError(null)
+      } else {
+        setError(locationsResult.error || rollupResult.error || 'Failed to load locations')
+      }
+    } catch {
+      setError('Failed to load locations')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [domainId])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const handleCreate = async (values: LocationFormValues): Promise<void> => {
+    const response = await fetch('/api/local-seo/locations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...values, domainId }),
+    })
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to add location')
+    }
+    fetchData()
+  }
+
+  const handleDelete = async (id: string): Promise<void> => {
+    if (!confirm('Delete this location? Its campaigns are kept but no longer roll up.')) return
+
+    try {
+      await fetch(`/api/local-seo/locations/${id}`, { method: 'DELETE' })
+      fetchData()
+    } catch (err) {
+      console.error('Failed to delete location:', err)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href={domainUrl('/local-seo')}>
+            <Button variant="ghost" size="icon" className="cursor-pointer">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="flex items-center gap-2 text-2xl font-bold">
+              <Building2 className="h-6 w-6" />
+              Locations
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              {selectedDomain?.name || 'Loading...'} - Roll up rankings across every office
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" size="icon" onClick={fetchData} className="cursor-pointer">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="space-y-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <Card className="border-destructive">
+          <CardContent className="text-destructive pt-6 text-center">
+            <p>{error}</p>
+            <Button variant="outline" className="mt-4 cursor-pointer" onClick={fetchData}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && !error && (
+        <>
+          {rollup && <LocationRollupView rollup={rollup} basePath={domainUrl('/local-seo')} />}
+          <LocationManager locations={locations} onCreate={handleCreate} onDelete={handleDelete} />
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,8 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useParams, useRouter } from 'next/navigation'
-import { CampaignForm } from '@/components/local-seo'
+import { CampaignForm, type CampaignLocationOption } from '@/components/local-seo'
 import { MapPin, ArrowLeft, AlertCircle } from 'lucide-react'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
@@ -15,11 +15,22 @@ export default function NewCampaignPage(): React.ReactElement {
   const domainId = params.domainId as string
   const { selectedDomain } = useDomain()
   const [error, setError] = useState<string | null>(null)
+  const [locations, setLocations] = useState<CampaignLocationOption[]>([])
 
   // Helper to build domain-scoped URLs
   const domainUrl = (path: string): string => `/d/${domainId}${path}`
 
+  useEffect(() => {
+    fetch(`/api/local-seo/locations?domainId=${domainId}`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) setLocations(result.data)
+      })
+      .catch((err) => console.error('Failed to load locations:', err))
+  }, [domainId])
+
   const handleSubmit = async (data: {
+    locationId?: string
     businessName: string
     gmbPlaceId?: string
     gmbCid?: string
@@ -83,7 +94,7 @@ export default function NewCampaignPage(): React.ReactElement {
       )}
 
       {/* Form */}
-      <CampaignForm onSubmit={handleSubmit} onCancel={() => router.back()} />
+      <CampaignForm locations={locations} onSubmit={handleSubmit} onCancel={() => router.back()} />
     </div>
   )
 }
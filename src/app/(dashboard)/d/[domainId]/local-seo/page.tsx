@@ -7,7 +7,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 import { CampaignCard, type CampaignCardData } from '@/components/local-seo'
-import { MapPin, Plus, RefreshCw } from 'lucide-react'
+import { Building2, MapPin, Plus, RefreshCw } from 'lucide-react'
 import { useDomain } from '@/contexts/DomainContext'
 
 interface CampaignWithScan extends CampaignCardData {
@@ -117,6 +117,12 @@ export default function LocalSeoPage(): React.ReactElement {
           <Button variant="outline" size="icon" onClick={fetchCampaigns} className="cursor-pointer">
             <RefreshCw className="h-4 w-4" />
           </Button>
+          <Link href={domainUrl('/local-seo/locations')}>
+            <Button variant="outline" className="cursor-pointer">
+              <Building2 className="h-4 w-4 mr-2" />
+              Locations
+            </Button>
+          </Link>
           <Link href={domainUrl('/local-seo/new')}>
             <Button className="cursor-pointer">
               <Plus className="h-4 w-4 mr-2" />
@@ -34,6 +34,7 @@ import { useDomain } from '@/contexts/DomainContext';
 import { HealthScoreGauge } from '@/components/domains/HealthScoreGauge';
 import { QuickStatCard } from '@/components/domains/QuickStatCard';
 import { ActionItemCard } from '@/components/domains/ActionItemCard';
+import { ShareButton } from '@/components/share';
 
 interface DashboardStats {
   totalAudits: number;
@@ -85,6 +86,7 @@ export default function DomainDashboardPage(): React.ReactElement {
   const [siteScans, setSiteScans] = useState<SiteScan[]>([]);
   const [localCampaigns, setLocalCampaigns] = useState<LocalCampaign[]>([]);
   const [toolCounts, setToolCounts] = useState<ToolCounts | null>(null);
+  const [openLostBacklinks, setOpenLostBacklinks] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -100,19 +102,21 @@ export default function DomainDashboardPage(): React.ReactElement {
 
       try {
         // Fetch all data in parallel, using domain-scoped API routes
-        const [statsRes, scansRes, campaignsRes, countsRes] = await Promise.all([
+        const [statsRes, scansRes, campaignsRes, countsRes, lostLinksRes] = await Promise.all([
           fetch(
             `/api/dashboard/stats?userId=${encodeURIComponent(session.user.id)}&domainId=${domainId}`
           ),
           fetch(`/api/site-audit?domainId=${domainId}`),
           fetch(`/api/local-seo/campaigns?domainId=${domainId}`),
           fetch(`/api/domains/${domainId}/tool-counts`),
+          fetch(`/api/backlinks/lost-links?domainId=${domainId}&status=OPEN`),
         ]);
 
         const statsData = await statsRes.json();
         const scansData = await scansRes.json();
         const campaignsData = await campaignsRes.json();
         const countsData = await countsRes.json();
+        const lostLinksData = await lostLinksRes.json();
 
         if (statsRes.ok && statsData.success) {
           setStats(statsData.data);
@@ -130,6 +134,10 @@ export default function DomainDashboardPage(): React.ReactElement {
           setToolCounts(countsData.data);
         }
 
+        if (lostLinksRes.ok && lostLinksData.success) {
+          setOpenLostBacklinks(lostLinksData.data.length);
+        }
+
         setError(null);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred');
@@ -158,6 +166,17 @@ export default function DomainDashboardPage(): React.ReactElement {
   // Generate action items based on data
   const getActionItems = () => {
     const items = [];
+
+    if (openLostBacklinks > 0) {
+      items.push({
+        id: 'lost-backlinks',
+        title: 'High-rank backlinks lost',
+        description: 'Referring domains dropped out since the last backlink refresh',
+        severity: 'critical' as const,
+        href: domainUrl('/backlinks'),
+        count: openLostBacklinks,
+      });
+    }
     
     if (!toolCounts?.siteScans) {
       items.push({
@@ -222,6 +241,7 @@ export default function DomainDashboardPage(): React.ReactElement {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <ShareButton domainId={domainId} resourceType="DASHBOARD" />
           <Button variant="outline" asChild>
             <a 
               href={`https://${selectedDomain?.domain}`} 
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useDomain } from '@/contexts/DomainContext';
+import {
+  DigestHistory,
+  ReportBuilder,
+  ReportScheduleForm,
+  type DigestSummaryData,
+  type ReportScheduleData,
+} from '@/components/reports';
+import { ShareButton, ShareLinkList, type ShareLinkData } from '@/components/share';
+
+export default function ReportsPage(): React.ReactElement {
+  const params = useParams();
+  const domainId = params.domainId as string;
+  const { selectedDomain } = useDomain();
+  const [schedule, setSchedule] = useState<ReportScheduleData | null>(null);
+  const [digests, setDigests] = useState<DigestSummaryData[]>([]);
+  const [shareLinks, setShareLinks] = useState<ShareLinkData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDelivery = useCallback(async (): Promise<void> => {
+    if (!domainId) return;
+
+    setError(null);
+
+    try {
+      const [scheduleResponse, digestsResponse, shareLinksResponse] = await Promise.all([
+        fetch(`/api/reports/schedule?domainId=${domainId}`),
+        fetch(`/api/reports/digests?domainId=${domainId}`),
+        fetch(`/api/share-links?domainId=${domainId}`),
+      ]);
+      const [scheduleData, digestsData, shareLinksData] = await Promise.all([
+        scheduleResponse.json(),
+        digestsResponse.json(),
+        shareLinksResponse.json(),
+      ]);
+
+      if (scheduleData.success && digestsData.success && shareLinksData.success) {
+        setSchedule(scheduleData.data);
+        setDigests(digestsData.data);
+        setShareLinks(shareLinksData.data);
+      } else {
+        setError(
+          scheduleData.error ||
+            digestsData.error ||
+            shareLinksData.error ||
+            'Failed to load scheduled reports'
+        );
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, [domainId]);
+
+  useEffect(() => {
+    fetchDelivery();
+  }, [fetchDelivery]);
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Reports</h1>
+        <p className="text-muted-foreground">
+          {selectedDomain?.name || 'Loading...'} - Export a white-label PDF or email a report
+          to your client on a schedule
+        </p>
+      </div>
+
+      <ReportBuilder domainId={domainId} />
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <p className="text-destructive">{error}</p>
+          <Button variant="outline" className="mt-4 cursor-pointer" onClick={fetchDelivery}>
+            Retry
+          </Button>
+        </div>
+      ) : (
+        <>
+          <ReportScheduleForm
+            key={schedule?.id ?? 'new'}
+            domainId={domainId}
+            schedule={schedule}
+            onSave={fetchDelivery}
+          />
+          <DigestHistory digests={digests} onChange={fetchDelivery} />
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Share Links</CardTitle>
+                <CardDescription>
+                  Live, read-only links to this domain&apos;s dashboard and results. Create links
+                  for a single run or scan from its page.
+                </CardDescription>
+              </div>
+              <ShareButton
+                domainId={domainId}
+                resourceType="DASHBOARD"
+                size="sm"
+                onChange={fetchDelivery}
+              />
+            </CardHeader>
+            <CardContent>
+              <ShareLinkList links={shareLinks} onChange={fetchDelivery} showResource />
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        Reports use the branding of the workspace this domain is shared with. Set the logo and
+        colors under{' '}
+        <Link href="/settings/workspaces" className="underline">
+          Settings &rarr; Workspaces
+        </Link>
+        .
+      </p>
+    </div>
+  );
+}
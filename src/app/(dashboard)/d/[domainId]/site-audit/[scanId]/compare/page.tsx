@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ScanComparison, type ScanCardData } from '@/components/site-audit';
+import { ArrowLeft, GitCompare, Loader2 } from 'lucide-react';
+import { useDomain } from '@/contexts/DomainContext';
+import type { SiteAuditDiff } from '@/lib/seo/site-audit-diff';
+
+interface ComparisonData {
+  base: { id: string; createdAt: string; completedAt: string | null };
+  target: { id: string; createdAt: string; completedAt: string | null };
+  diff: SiteAuditDiff;
+}
+
+function formatDate(date: Date | string | null): string {
+  if (!date) return 'N/A';
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function SiteAuditComparePage(): React.ReactElement {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const domainId = params.domainId as string;
+  const scanId = params.scanId as string;
+  const baseScanId = searchParams.get('base');
+  const { selectedDomain } = useDomain();
+
+  const [scans, setScans] = useState<ScanCardData[]>([]);
+  const [comparison, setComparison] = useState<ComparisonData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper to build domain-scoped URLs
+  const domainUrl = (path: string): string => `/d/${domainId}${path}`;
+
+  const fetchComparison = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const query = baseScanId ? `?baseScanId=${baseScanId}` : '';
+      const [comparisonRes, scansRes] = await Promise.all([
+        fetch(`/api/site-audit/scans/${scanId}/compare${query}`),
+        fetch(`/api/site-audit?${new URLSearchParams({ domainId }).toString()}`),
+      ]);
+      const [comparisonData, scansData] = await Promise.all([
+        comparisonRes.json(),
+        scansRes.json(),
+      ]);
+
+      if (scansRes.ok) {
+        setScans(
+          (scansData.data as ScanCardData[]).filter(
+            (s) => s.status === 'COMPLETED' && s.id !== scanId
+          )
+        );
+      }
+
+      if (!comparisonRes.ok) {
+        throw new Error(comparisonData.error || 'Failed to compare scans');
+      }
+
+      setComparison(comparisonData.data);
+    } catch (err) {
+      setComparison(null);
+      setError(err instanceof Error ? err.message : 'Failed to compare scans');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [scanId, baseScanId, domainId]);
+
+  useEffect(() => {
+    fetchComparison();
+  }, [fetchComparison]);
+
+  const handleBaseChange = (value: string): void => {
+    router.replace(domainUrl(`/site-audit/${scanId}/compare?base=${value}`));
+  };
+
+  const selectedBase =
+    baseScanId ??
+    (comparison ? (comparison.base.id === scanId ? comparison.target.id : comparison.base.id) : '');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href={domainUrl(`/site-audit/${scanId}`)}>
+          <Button variant="ghost" size="icon" className="cursor-pointer">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <GitCompare className="h-6 w-6" />
+            Compare Crawls
+          </h1>
+          <p className="text-muted-foreground">
+            {selectedDomain?.name || 'Loading...'} - Changes between two site audits
+          </p>
+        </div>
+      </div>
+
+      {/* Base Scan Selector */}
+      {scans.length > 0 && (
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-muted-foreground">Compare with</span>
+          <Select value={selectedBase} onValueChange={handleBaseChange}>
+            <SelectTrigger className="w-[280px]">
+              <SelectValue placeholder="Select a scan" />
+            </SelectTrigger>
+            <SelectContent>
+              {scans.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {formatDate(s.completedAt ?? s.createdAt)}
+                  {s.triggeredBy === 'scheduled' ? ' (scheduled)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {comparison && !isLoading && (
+        <p className="text-sm text-muted-foreground">
+          {formatDate(comparison.base.completedAt ?? comparison.base.createdAt)} &rarr;{' '}
+          {formatDate(comparison.target.completedAt ?? comparison.target.createdAt)}
+        </p>
+      )}
+
+      {/* Error */}
+      {error && !isLoading && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Loading */}
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {comparison && !isLoading && <ScanComparison diff={comparison.diff} />}
+    </div>
+  );
+}
@@ -15,8 +15,17 @@ import {
   PageDetailDrawer,
   type PageFilterState,
 } from '@/components/site-audit';
-import { ArrowLeft, Globe, Loader2, FileText, AlertTriangle, Download } from 'lucide-react';
+import {
+  ArrowLeft,
+  Globe,
+  Loader2,
+  FileText,
+  AlertTriangle,
+  Download,
+  GitCompare,
+} from 'lucide-react';
 import { useDomain } from '@/contexts/DomainContext';
+import type { SiteAuditRuleSnapshot } from '@/lib/seo/site-audit-rules';
 
 interface ScanData {
   id: string;
@@ -28,6 +37,8 @@ interface ScanData {
   startedAt: Date | null;
   completedAt: Date | null;
   errorMessage: string | null;
+  customRules?: SiteAuditRuleSnapshot[];
+  issueTypes?: Record<string, number>;
   summary?: {
     totalPages: number;
     crawledPages: number;
@@ -265,6 +276,14 @@ export default function ScanDetailPage(): React.ReactElement {
             {selectedDomain?.name || 'Loading...'} - Site Audit Results
           </p>
         </div>
+        {isComplete && (
+          <Link href={domainUrl(`/site-audit/${scanId}/compare`)} className="ml-auto">
+            <Button variant="outline" className="cursor-pointer">
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare
+            </Button>
+          </Link>
+        )}
       </div>
 
       {/* Progress (when in progress) */}
@@ -306,6 +325,8 @@ export default function ScanDetailPage(): React.ReactElement {
                 duplicateContent: 0,
                 nonIndexable: scan.summary.nonIndexable,
               }}
+              issueTypes={scan.issueTypes}
+              customRules={scan.customRules}
             />
           </TabsContent>
 
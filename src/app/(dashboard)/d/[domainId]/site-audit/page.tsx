@@ -6,7 +6,7 @@ import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { ScanCard, type ScanCardData } from '@/components/site-audit';
-import { Plus, Globe, Loader2 } from 'lucide-react';
+import { Plus, Globe, Loader2, CalendarClock, ListChecks } from 'lucide-react';
 import { useDomain } from '@/contexts/DomainContext';
 
 export default function SiteAuditPage(): React.ReactElement {
@@ -81,12 +81,26 @@ export default function SiteAuditPage(): React.ReactElement {
             {selectedDomain?.name || 'Loading...'} - Full website crawl and technical SEO analysis
           </p>
         </div>
-        <Link href={domainUrl('/site-audit/new')}>
-          <Button className="cursor-pointer">
-            <Plus className="h-4 w-4 mr-2" />
-            New Scan
-          </Button>
-        </Link>
+        <div className="flex items-center gap-2">
+          <Link href={domainUrl('/site-audit/schedule')}>
+            <Button variant="outline" className="cursor-pointer">
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Schedule
+            </Button>
+          </Link>
+          <Link href={domainUrl('/site-audit/rules')}>
+            <Button variant="outline" className="cursor-pointer">
+              <ListChecks className="h-4 w-4 mr-2" />
+              Custom Rules
+            </Button>
+          </Link>
+          <Link href={domainUrl('/site-audit/new')}>
+            <Button className="cursor-pointer">
+              <Plus className="h-4 w-4 mr-2" />
+              New Scan
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Error */}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, ListChecks, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useDomain } from '@/contexts/DomainContext';
+import { SiteAuditRuleForm, type SiteAuditRuleData } from '@/components/site-audit';
+import { describeCondition } from '@/lib/seo/site-audit-rules';
+
+const SEVERITY_VARIANTS = {
+  error: 'destructive',
+  warning: 'default',
+  notice: 'secondary',
+} as const;
+
+export default function SiteAuditRulesPage(): React.ReactElement {
+  const params = useParams();
+  const domainId = params.domainId as string;
+  const { selectedDomain } = useDomain();
+
+  const [rules, setRules] = useState<SiteAuditRuleData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingRuleId, setEditingRuleId] = useState<string | 'new' | null>(null);
+  const [deletingRuleId, setDeletingRuleId] = useState<string | null>(null);
+
+  // Helper to build domain-scoped URLs
+  const domainUrl = (path: string): string => `/d/${domainId}${path}`;
+
+  const fetchRules = useCallback(async (): Promise<void> => {
+    if (!domainId) return;
+
+    try {
+      const response = await fetch(`/api/site-audit/rules?domainId=${domainId}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setRules(data.data);
+      } else {
+        setError(data.error || 'Failed to load rules');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, [domainId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleRuleSaved = (): void => {
+    setEditingRuleId(null);
+    fetchRules();
+  };
+
+  const handleDeleteRule = async (ruleId: string): Promise<void> => {
+    if (!confirm('Delete this rule? Past crawls keep their matches.')) return;
+
+    setDeletingRuleId(ruleId);
+    try {
+      const response = await fetch(`/api/site-audit/rules/${ruleId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchRules();
+      } else {
+        setError(data.error || 'Failed to delete rule');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setDeletingRuleId(null);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href={domainUrl('/site-audit')}>
+          <Button variant="ghost" size="icon" className="cursor-pointer">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div className="flex-1">
+          <h1 className="flex items-center gap-2 text-2xl font-bold tracking-tight">
+            <ListChecks className="h-6 w-6" />
+            Custom Rules
+          </h1>
+          <p className="text-muted-foreground">
+            {selectedDomain?.name || 'Loading...'} - Your own checks, reported next to the built-in
+            issues from the next crawl on
+          </p>
+        </div>
+        {editingRuleId !== 'new' && (
+          <Button onClick={() => setEditingRuleId('new')} className="cursor-pointer">
+            <Plus className="mr-2 h-4 w-4" />
+            New Rule
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {editingRuleId === 'new' && (
+        <SiteAuditRuleForm
+          domainId={domainId}
+          onSave={handleRuleSaved}
+          onCancel={() => setEditingRuleId(null)}
+        />
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="text-muted-foreground h-8 w-8 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {rules.length === 0 && editingRuleId !== 'new' && (
+            <p className="text-muted-foreground text-sm">
+              No custom rules yet. Rules are checked against every page when a crawl finishes.
+            </p>
+          )}
+
+          {rules.map((rule) =>
+            editingRuleId === rule.id ? (
+              <SiteAuditRuleForm
+                key={rule.id}
+                domainId={domainId}
+                rule={rule}
+                onSave={handleRuleSaved}
+                onCancel={() => setEditingRuleId(null)}
+              />
+            ) : (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-4 rounded-lg border p-4"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{rule.message}</span>
+                    <Badge variant={SEVERITY_VARIANTS[rule.severity]} className="capitalize">
+                      {rule.severity}
+                    </Badge>
+                    {!rule.isEnabled && <Badge variant="secondary">Disabled</Badge>}
+                  </div>
+                  <p className="text-muted-foreground text-sm break-all">
+                    {rule.conditions.map(describeCondition).join(' and ')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="cursor-pointer"
+                    onClick={() => setEditingRuleId(rule.id)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="cursor-pointer"
+                    disabled={deletingRuleId === rule.id}
+                    onClick={() => handleDeleteRule(rule.id)}
+                  >
+                    {deletingRuleId === rule.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
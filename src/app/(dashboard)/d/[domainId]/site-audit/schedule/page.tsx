@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, CalendarClock, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useDomain } from '@/contexts/DomainContext';
+import { ScheduleForm } from '@/components/keyword-tracking';
+
+interface Schedule {
+  id: string;
+  domainId: string;
+  isEnabled: boolean;
+  frequency: string;
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  timeOfDay: string;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastScanId: string | null;
+}
+
+export default function SiteAuditSchedulePage(): React.ReactElement {
+  const params = useParams();
+  const domainId = params.domainId as string;
+  const { selectedDomain } = useDomain();
+  const [schedule, setSchedule] = useState<Schedule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper to build domain-scoped URLs
+  const domainUrl = (path: string): string => `/d/${domainId}${path}`;
+
+  const fetchSchedule = useCallback(async (): Promise<void> => {
+    if (!domainId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/site-audit/schedule?domainId=${domainId}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setSchedule(data.data);
+      } else {
+        setError(data.error || 'Failed to load schedule');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, [domainId]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href={domainUrl('/site-audit')}>
+          <Button variant="ghost" size="icon" className="cursor-pointer">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+            <CalendarClock className="h-6 w-6" />
+            Audit Schedule
+          </h1>
+          <p className="text-muted-foreground">
+            {selectedDomain?.name || 'Loading...'} - Recrawl the site automatically and compare
+            each crawl with the previous one
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <p className="text-destructive">{error}</p>
+          <Button variant="outline" className="mt-4 cursor-pointer" onClick={fetchSchedule}>
+            Retry
+          </Button>
+        </div>
+      ) : (
+        <>
+          <ScheduleForm
+            domainId={domainId}
+            schedule={schedule}
+            onSave={fetchSchedule}
+            apiPath="/api/site-audit/schedule"
+            enableLabel="Enable Scheduled Audits"
+          />
+
+          {schedule && (
+            <div className="text-sm text-muted-foreground space-y-1">
+              {schedule.isEnabled && schedule.nextRunAt && (
+                <p>Next crawl: {new Date(schedule.nextRunAt).toLocaleString()}</p>
+              )}
+              {schedule.lastRunAt && (
+                <p>
+                  Last crawl: {new Date(schedule.lastRunAt).toLocaleString()}
+                  {schedule.lastScanId && (
+                    <>
+                      {' '}
+                      &middot;{' '}
+                      <Link
+                        href={domainUrl(`/site-audit/${schedule.lastScanId}`)}
+                        className="underline"
+                      >
+                        View results
+                      </Link>
+                    </>
+                  )}
+                </p>
+              )}
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            Scheduled crawls use the page limit and JavaScript rendering from this domain&apos;s
+            settings.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
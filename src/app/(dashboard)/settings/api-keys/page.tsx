@@ -0,0 +1,368 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { format, formatDistanceToNow } from 'date-fns'
+import { ArrowLeft, Ban, Copy, FileJson, KeyRound, Loader2, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { API_KEY_SCOPES } from '@/lib/public-api/keys'
+
+type ApiKeyScope = keyof typeof API_KEY_SCOPES
+
+interface ApiKey {
+  id: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  workspaceName: string | null
+  rateLimit: number
+  lastUsedAt: string | null
+  expiresAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+interface Workspace {
+  id: string
+  name: string
+}
+
+const ALL_WORKSPACES = 'all'
+const NEVER = 'never'
+const EXPIRY_OPTIONS = ['30', '90', '365', NEVER]
+
+function isActive(key: ApiKey): boolean {
+  return !key.revokedAt && (!key.expiresAt || new Date(key.expiresAt) > new Date())
+}
+
+export default function ApiKeysPage(): React.ReactElement {
+  const [keys, setKeys] = useState<ApiKey[]>([])
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+
+  // Form state
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['READ'])
+  const [workspaceId, setWorkspaceId] = useState(ALL_WORKSPACES)
+  const [expiresInDays, setExpiresInDays] = useState('365')
+
+  const fetchKeys = useCallback(async (): Promise<void> => {
+    try {
+      const [keysResponse, workspacesResponse] = await Promise.all([
+        fetch('/api/api-keys'),
+        fetch('/api/workspaces'),
+      ])
+      const [keysData, workspacesData] = await Promise.all([
+        keysResponse.json(),
+        workspacesResponse.json(),
+      ])
+
+      if (keysData.success) {
+        setKeys(keysData.data)
+      } else {
+        toast.error(keysData.error || 'Failed to load API keys')
+      }
+      if (workspacesData.success) setWorkspaces(workspacesData.data)
+    } catch {
+      toast.error('Failed to load API keys')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchKeys()
+  }, [fetchKeys])
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean): void => {
+    setScopes((current) =>
+      checked ? [...current, scope] : current.filter((existing) => existing !== scope)
+    )
+  }
+
+  const handleCreate = async (): Promise<void> => {
+    if (!name.trim() || scopes.length === 0) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          scopes,
+          workspaceId: workspaceId === ALL_WORKSPACES ? null : workspaceId,
+          expiresInDays: expiresInDays === NEVER ? null : Number(expiresInDays),
+        }),
+      })
+      const data = await response.json()
+      if (data.success) {
+        setCreatedKey(data.data.key)
+        setName('')
+        await fetchKeys()
+      } else {
+        toast.error(data.error || 'Failed to create API key')
+      }
+    } catch {
+      toast.error('Failed to create API key')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRevoke = async (key: ApiKey): Promise<void> => {
+    if (!confirm(`Revoke "${key.name}"? Scripts using it will stop working immediately.`)) return
+
+    const response = await fetch(`/api/api-keys/${key.id}`, { method: 'DELETE' })
+    const data = await response.json()
+    if (data.success) {
+      toast.success('API key revoked')
+      await fetchKeys()
+    } else {
+      toast.error(data.error || 'Failed to revoke API key')
+    }
+  }
+
+  const copyCreatedKey = async (): Promise<void> => {
+    if (!createdKey) return
+    await navigator.clipboard?.writeText(createdKey).catch(() => undefined)
+    toast.success('API key copied to clipboard')
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center gap-4">
+        <Button asChild variant="ghost" size="icon">
+          <Link href="/settings">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-2xl font-semibold tracking-tight">API Keys</h1>
+          <p className="text-muted-foreground text-sm">
+            Pull data and trigger scans from scripts and automations through the /api/v1 REST API
+          </p>
+        </div>
+        <Button asChild variant="outline">
+          <a href="/api/v1/openapi.json" target="_blank" rel="noopener noreferrer">
+            <FileJson className="mr-2 h-4 w-4" />
+            OpenAPI spec
+          </a>
+        </Button>
+      </div>
+
+      {createdKey && (
+        <Card className="border-primary/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-medium">Copy your new API key</CardTitle>
+            <CardDescription>
+              This is the only time the key is shown. Store it somewhere safe.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Input readOnly value={createdKey} className="font-mono text-xs" />
+            <Button variant="outline" onClick={copyCreatedKey}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+            <Button variant="ghost" onClick={() => setCreatedKey(null)}>
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        {/* Create Key */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base font-medium">
+              <KeyRound className="h-4 w-4" />
+              New API Key
+            </CardTitle>
+            <CardDescription>
+              Keys act as you and never exceed your own access to a domain
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                placeholder="BI export"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {(Object.keys(API_KEY_SCOPES) as ApiKeyScope[]).map((scope) => (
+                <label key={scope} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="font-medium">{API_KEY_SCOPES[scope].label}</span>
+                    <span className="text-muted-foreground block text-xs">
+                      {API_KEY_SCOPES[scope].description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Domains</Label>
+              <Select value={workspaceId} onValueChange={setWorkspaceId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_WORKSPACES}>All domains I can access</SelectItem>
+                  {workspaces.map((workspace) => (
+                    <SelectItem key={workspace.id} value={workspace.id}>
+                      Only {workspace.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Expires after</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option === NEVER ? 'Never' : option === '365' ? '1 year' : `${option} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button
+              className="w-full"
+              onClick={handleCreate}
+              disabled={isSubmitting || !name.trim() || scopes.length === 0}
+            >
+              {isSubmitting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Create Key
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Key List */}
+        <Card className="lg:col-span-2">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-medium">Your Keys</CardTitle>
+            <CardDescription>
+              Send a key as <code>Authorization: Bearer &lt;key&gt;</code>. Each key is limited to
+              its rate limit in requests per minute.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <Loader2 className="text-muted-foreground h-4 w-4 animate-spin" />
+            ) : keys.length === 0 ? (
+              <p className="text-muted-foreground text-sm">You haven&apos;t created any keys.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Last used</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead className="w-[60px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {keys.map((key) => (
+                    <TableRow key={key.id} className={isActive(key) ? '' : 'opacity-60'}>
+                      <TableCell>
+                        <div className="font-medium">{key.name}</div>
+                        <div className="text-muted-foreground font-mono text-xs">
+                          {key.prefix}…{key.workspaceName && ` · ${key.workspaceName}`}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {key.scopes.map((scope) => (
+                            <Badge key={scope} variant="secondary">
+                              {API_KEY_SCOPES[scope].label}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {key.lastUsedAt
+                          ? formatDistanceToNow(new Date(key.lastUsedAt), { addSuffix: true })
+                          : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {key.revokedAt ? (
+                          <Badge variant="outline">Revoked</Badge>
+                        ) : key.expiresAt ? (
+                          format(new Date(key.expiresAt), 'PP')
+                        ) : (
+                          'Never'
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {isActive(key) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive"
+                            onClick={() => handleRevoke(key)}
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
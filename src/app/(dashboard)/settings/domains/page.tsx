@@ -16,6 +16,9 @@ import {
   Loader2,
   AlertCircle,
   FolderOpen,
+  Wallet,
+  Briefcase,
+  Gauge,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -48,14 +51,28 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { formatDistanceToNow } from 'date-fns'
 import { useDomain } from '@/contexts/DomainContext'
+import {
+  DEFAULT_VERTICAL_ID,
+  VERTICAL_OPTIONS,
+  getVerticalPack,
+  type VerticalId,
+} from '@/lib/verticals'
 
 interface Domain {
   id: string
   name: string
   domain: string
   isPinned: boolean
+  vertical: string
   createdAt: string
   _count?: {
     audits: number
@@ -75,12 +92,16 @@ export default function DomainManagementPage() {
   // Dialog states
   const [showAddDialog, setShowAddDialog] = useState(false)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [budgetDomain, setBudgetDomain] = useState<Domain | null>(null)
+  const [verticalDomain, setVerticalDomain] = useState<Domain | null>(null)
+  const [thresholdDomain, setThresholdDomain] = useState<Domain | null>(null)
   const [selectedDomain, setSelectedDomain] = useState<Domain | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   
   // Form state
   const [newDomainName, setNewDomainName] = useState('')
   const [newDomainUrl, setNewDomainUrl] = useState('')
+  const [newDomainVertical, setNewDomainVertical] = useState<VerticalId>(DEFAULT_VERTICAL_ID)
 
   useEffect(() => {
     fetchDomains()
@@ -115,6 +136,7 @@ export default function DomainManagementPage() {
         body: JSON.stringify({
           name: newDomainName.trim(),
           domain: newDomainUrl.trim().replace(/^https?:\/\//, '').replace(/\/$/, ''),
+          vertical: newDomainVertical,
         }),
       })
       const data = await response.json()
@@ -125,6 +147,7 @@ export default function DomainManagementPage() {
         setShowAddDialog(false)
         setNewDomainName('')
         setNewDomainUrl('')
+        setNewDomainVertical(DEFAULT_VERTICAL_ID)
       } else {
         setError(data.error || 'Failed to add domain')
       }
@@ -285,6 +308,9 @@ export default function DomainManagementPage() {
                       setSelectedDomain(domain)
                       setShowDeleteDialog(true)
                     }}
+                    onBudget={() => setBudgetDomain(domain)}
+                    onVertical={() => setVerticalDomain(domain)}
+                    onThresholds={() => setThresholdDomain(domain)}
                     onSelect={() => router.push(`/d/${domain.id}`)}
                   />
                 ))}
@@ -309,6 +335,9 @@ export default function DomainManagementPage() {
                       setSelectedDomain(domain)
                       setShowDeleteDialog(true)
                     }}
+                    onBudget={() => setBudgetDomain(domain)}
+                    onVertical={() => setVerticalDomain(domain)}
+                    onThresholds={() => setThresholdDomain(domain)}
                     onSelect={() => router.push(`/d/${domain.id}`)}
                   />
                 ))}
@@ -358,6 +387,24 @@ export default function DomainManagementPage() {
                 Enter the domain without http:// or https://
               </p>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="vertical">Industry</Label>
+              <Select
+                value={newDomainVertical}
+                onValueChange={(value) => setNewDomainVertical(value as VerticalId)}
+              >
+                <SelectTrigger id="vertical">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VERTICAL_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowAddDialog(false)}>
@@ -375,6 +422,22 @@ export default function DomainManagementPage() {
         </DialogContent>
       </Dialog>
 
+      {/* API Budget Dialog */}
+      <BudgetDialog domain={budgetDomain} onClose={() => setBudgetDomain(null)} />
+
+      {/* Industry Dialog */}
+      <VerticalDialog
+        domain={verticalDomain}
+        onClose={() => setVerticalDomain(null)}
+        onSaved={async () => {
+          await fetchDomains()
+          await refreshDomains()
+        }}
+      />
+
+      {/* Threshold Profile Dialog */}
+      <ThresholdProfileDialog domain={thresholdDomain} onClose={() => setThresholdDomain(null)} />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
@@ -407,10 +470,21 @@ interface DomainCardProps {
   domain: Domain
   onPin: () => void
   onDelete: () => void
+  onBudget: () => void
+  onVertical: () => void
+  onThresholds: () => void
   onSelect: () => void
 }
 
-function DomainCard({ domain, onPin, onDelete, onSelect }: DomainCardProps) {
+function DomainCard({
+  domain,
+  onPin,
+  onDelete,
+  onBudget,
+  onVertical,
+  onThresholds,
+  onSelect,
+}: DomainCardProps) {
   const totalItems = 
     (domain._count?.audits || 0) +
     (domain._count?.siteAuditScans || 0) +
@@ -451,6 +525,7 @@ function DomainCard({ domain, onPin, onDelete, onSelect }: DomainCardProps) {
         <div className="flex items-center justify-between mt-2">
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Badge variant="secondary">{totalItems} items</Badge>
+            <Badge variant="outline">{getVerticalPack(domain.vertical).label}</Badge>
             <span>•</span>
             <span>
               Added {formatDistanceToNow(new Date(domain.createdAt), { addSuffix: true })}
@@ -481,6 +556,18 @@ function DomainCard({ domain, onPin, onDelete, onSelect }: DomainCardProps) {
                 <Settings className="mr-2 h-4 w-4" />
                 View Dashboard
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={onBudget}>
+                <Wallet className="mr-2 h-4 w-4" />
+                API Budget
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={onVertical}>
+                <Briefcase className="mr-2 h-4 w-4" />
+                Industry
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={onThresholds}>
+                <Gauge className="mr-2 h-4 w-4" />
+                SEO Thresholds
+              </DropdownMenuItem>
               <DropdownMenuSeparator />
               <DropdownMenuItem 
                 onClick={onDelete}
@@ -497,3 +584,370 @@ function DomainCard({ domain, onPin, onDelete, onSelect }: DomainCardProps) {
   )
 }
 
+
+// API Budget Dialog Component
+interface SpendSummary {
+  budget: number | null
+  spent: number
+  remaining: number | null
+  byTool: Array<{ tool: string; cost: number; requests: number }>
+}
+
+interface BudgetDialogProps {
+  domain: Domain | null
+  onClose: () => void
+}
+
+function BudgetDialog({ domain, onClose }: BudgetDialogProps) {
+  const [spend, setSpend] = useState<SpendSummary | null>(null)
+  const [budgetInput, setBudgetInput] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!domain) return
+
+    setSpend(null)
+    setError(null)
+    setLoading(true)
+    fetch(`/api/domains/${domain.id}/spend`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setSpend(data.data)
+          setBudgetInput(data.data.budget !== null ? String(data.data.budget) : '')
+        } else {
+          setError(data.error || 'Failed to load spend')
+        }
+      })
+      .catch(() => setError('Failed to connect to server'))
+      .finally(() => setLoading(false))
+  }, [domain])
+
+  const handleSave = async () => {
+    if (!domain) return
+
+    const trimmed = budgetInput.trim()
+    const monthlyApiBudget = trimmed === '' ? null : Number(trimmed)
+    if (monthlyApiBudget !== null && (isNaN(monthlyApiBudget) || monthlyApiBudget < 0)) {
+      setError('Budget must be a positive number, or empty for no limit')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/domains/${domain.id}/settings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ monthlyApiBudget }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        onClose()
+      } else {
+        setError(data.error || 'Failed to save budget')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={domain !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>API Budget</DialogTitle>
+          <DialogDescription>
+            DataForSEO spend for {domain?.name} this month. Background jobs won&apos;t start once
+            the budget is reached.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {loading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : (
+            spend && (
+              <div className="space-y-2">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-2xl font-bold">${spend.spent.toFixed(2)}</span>
+                  <span className="text-sm text-muted-foreground">
+                    {spend.budget !== null ? `of $${spend.budget.toFixed(2)}` : 'No limit'}
+                  </span>
+                </div>
+                {spend.byTool.length > 0 && (
+                  <div className="space-y-1 text-sm">
+                    {spend.byTool.map((t) => (
+                      <div key={t.tool} className="flex justify-between text-muted-foreground">
+                        <span className="capitalize">
+                          {t.tool.replace(/_/g, ' ')} ({t.requests})
+                        </span>
+                        <span>${t.cost.toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="monthly-budget">Monthly budget (USD)</Label>
+            <Input
+              id="monthly-budget"
+              type="number"
+              min="0"
+              step="1"
+              placeholder="No limit"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Leave empty for no limit</p>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="bg-[#FF6B35] hover:bg-[#E85A2A]"
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Budget
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Industry Dialog Component
+interface VerticalDialogProps {
+  domain: Domain | null
+  onClose: () => void
+  onSaved: () => Promise<void>
+}
+
+function VerticalDialog({ domain, onClose, onSaved }: VerticalDialogProps) {
+  const [vertical, setVertical] = useState<VerticalId>(DEFAULT_VERTICAL_ID)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!domain) return
+
+    setError(null)
+    setVertical(getVerticalPack(domain.vertical).id)
+  }, [domain])
+
+  const handleSave = async () => {
+    if (!domain) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/domains/${domain.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ vertical }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        await onSaved()
+        onClose()
+      } else {
+        setError(data.error || 'Failed to save industry')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={domain !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Industry</DialogTitle>
+          <DialogDescription>
+            The vertical pack for {domain?.name} sets its keyword templates, GBP checks and
+            calculator defaults. Changing it resets the calculator defaults to the new
+            industry&apos;s.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="domain-vertical">Industry</Label>
+            <Select value={vertical} onValueChange={(value) => setVertical(value as VerticalId)}>
+              <SelectTrigger id="domain-vertical">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VERTICAL_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-[#FF6B35] hover:bg-[#E85A2A]"
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Industry
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Threshold Profile Dialog Component
+interface ThresholdProfileOption {
+  id: string
+  name: string
+  description: string | null
+}
+
+interface ThresholdProfileDialogProps {
+  domain: Domain | null
+  onClose: () => void
+}
+
+const BASELINE_PROFILE = 'baseline'
+
+function ThresholdProfileDialog({ domain, onClose }: ThresholdProfileDialogProps) {
+  const [profiles, setProfiles] = useState<ThresholdProfileOption[]>([])
+  const [profileId, setProfileId] = useState(BASELINE_PROFILE)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!domain) return
+
+    setError(null)
+    setLoading(true)
+    Promise.all([
+      fetch(`/api/threshold-profiles?domainId=${domain.id}`),
+      fetch(`/api/domains/${domain.id}/settings`),
+    ])
+      .then(([profilesResponse, settingsResponse]) =>
+        Promise.all([profilesResponse.json(), settingsResponse.json()])
+      )
+      .then(([profilesData, settingsData]) => {
+        if (profilesData.success) {
+          setProfiles(profilesData.data)
+        } else {
+          setError(profilesData.error || 'Failed to load threshold profiles')
+        }
+        setProfileId(settingsData.data?.thresholdProfileId ?? BASELINE_PROFILE)
+      })
+      .catch(() => setError('Failed to connect to server'))
+      .finally(() => setLoading(false))
+  }, [domain])
+
+  const handleSave = async () => {
+    if (!domain) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/domains/${domain.id}/settings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          thresholdProfileId: profileId === BASELINE_PROFILE ? null : profileId,
+        }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        onClose()
+      } else {
+        setError(data.error || 'Failed to save threshold profile')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const selected = profiles.find((p) => p.id === profileId)
+  const assignedElsewhere =
+    !loading && profileId !== BASELINE_PROFILE && selected === undefined
+
+  return (
+    <Dialog open={domain !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>SEO Thresholds</DialogTitle>
+          <DialogDescription>
+            The threshold profile {domain?.name}&apos;s site audits are classified and scored
+            with. Workspace domains use the workspace&apos;s profiles, personal domains your
+            own. Manage profiles under Settings → SEO Thresholds.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {loading ? (
+            <Skeleton className="h-10 w-full" />
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="threshold-profile">Profile</Label>
+              <Select value={profileId} onValueChange={setProfileId}>
+                <SelectTrigger id="threshold-profile">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BASELINE_PROFILE}>Baseline thresholds</SelectItem>
+                  {assignedElsewhere && (
+                    <SelectItem value={profileId}>
+                      A profile this domain can no longer use
+                    </SelectItem>
+                  )}
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selected?.description && (
+                <p className="text-xs text-muted-foreground">{selected.description}</p>
+              )}
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || loading || assignedElsewhere}
+            className="bg-[#FF6B35] hover:bg-[#E85A2A]"
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Profile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,7 +1,7 @@
 import Link from 'next/link'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Settings, Archive, ChevronRight } from 'lucide-react'
+import { Settings, Archive, ChevronRight, Gauge, KeyRound, Users, Webhook } from 'lucide-react'
 
 export default function SettingsPage(): React.ReactElement {
   return (
@@ -35,6 +35,90 @@ export default function SettingsPage(): React.ReactElement {
           </CardContent>
         </Card>
 
+        {/* Workspaces */}
+        <Card className="hover:border-primary/50 transition-colors">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-medium flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              Workspaces
+            </CardTitle>
+            <CardDescription>
+              Invite team members and share domains with role-based access
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="w-full justify-between">
+              <Link href="/settings/workspaces">
+                Manage Workspaces
+                <ChevronRight className="h-4 w-4" />
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* API Keys */}
+        <Card className="hover:border-primary/50 transition-colors">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-medium flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              API Keys
+            </CardTitle>
+            <CardDescription>
+              Create scoped keys for the REST API to pull data and trigger scans
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="w-full justify-between">
+              <Link href="/settings/api-keys">
+                Manage API Keys
+                <ChevronRight className="h-4 w-4" />
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Webhooks */}
+        <Card className="hover:border-primary/50 transition-colors">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-medium flex items-center gap-2">
+              <Webhook className="h-4 w-4" />
+              Webhooks
+            </CardTitle>
+            <CardDescription>
+              Send signed job notifications to your own endpoints
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="w-full justify-between">
+              <Link href="/settings/webhooks">
+                Manage Webhooks
+                <ChevronRight className="h-4 w-4" />
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* SEO Thresholds */}
+        <Card className="hover:border-primary/50 transition-colors">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-medium flex items-center gap-2">
+              <Gauge className="h-4 w-4" />
+              SEO Thresholds
+            </CardTitle>
+            <CardDescription>
+              Named threshold profiles for audit checks, action plans and report scores
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="w-full justify-between">
+              <Link href="/settings/threshold-profiles">
+                Manage Profiles
+                <ChevronRight className="h-4 w-4" />
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Coming Soon Card */}
         <Card className="opacity-60">
           <CardHeader className="pb-2">
@@ -0,0 +1,122 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Gauge, Loader2, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  ThresholdProfileCard,
+  ThresholdProfileForm,
+  type ThresholdProfileData,
+  type ThresholdProfileWorkspaceOption,
+} from '@/components/threshold-profiles'
+
+interface WorkspaceOption extends ThresholdProfileWorkspaceOption {
+  role: 'OWNER' | 'ADMIN' | 'ANALYST' | 'READ_ONLY'
+}
+
+export default function ThresholdProfilesPage(): React.ReactElement {
+  const [profiles, setProfiles] = useState<ThresholdProfileData[]>([])
+  const [workspaces, setWorkspaces] = useState<ThresholdProfileWorkspaceOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<ThresholdProfileData | 'new' | null>(null)
+
+  const fetchProfiles = useCallback(async (): Promise<void> => {
+    try {
+      const response = await fetch('/api/threshold-profiles')
+      const data = await response.json()
+      if (data.success) {
+        setProfiles(data.data)
+      } else {
+        toast.error(data.error || 'Failed to load threshold profiles')
+      }
+    } catch {
+      toast.error('Failed to load threshold profiles')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchProfiles()
+
+    fetch('/api/workspaces')
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) {
+          setWorkspaces(
+            (data.data as WorkspaceOption[]).filter(
+              (workspace) => workspace.role === 'OWNER' || workspace.role === 'ADMIN'
+            )
+          )
+        }
+      })
+      .catch(() => undefined)
+  }, [fetchProfiles])
+
+  const handleSaved = async (): Promise<void> => {
+    setEditing(null)
+    await fetchProfiles()
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center gap-4">
+        <Button asChild variant="ghost" size="icon">
+          <Link href="/settings">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-2xl font-semibold tracking-tight">SEO Thresholds</h1>
+          <p className="text-muted-foreground text-sm">
+            Named threshold profiles for site audits, action plans and report scores. Personal
+            profiles apply to your own domains, workspace profiles to the workspace&apos;s domains.
+            Assign them from Domain Settings; unassigned domains use the baseline.
+          </p>
+        </div>
+        {editing === null && (
+          <Button onClick={() => setEditing('new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Profile
+          </Button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <ThresholdProfileForm
+          key={editing === 'new' ? 'new' : editing.id}
+          workspaces={workspaces}
+          profile={editing === 'new' ? undefined : editing}
+          onSave={handleSaved}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {loading ? (
+        <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+      ) : profiles.length === 0 ? (
+        <Card>
+          <CardContent className="text-muted-foreground py-10 text-center">
+            <Gauge className="mx-auto mb-2 h-8 w-8" />
+            <p>No threshold profiles yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {profiles.map((profile) => (
+            <ThresholdProfileCard
+              key={profile.id}
+              profile={profile}
+              onEdit={() => setEditing(profile)}
+              onChange={fetchProfiles}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
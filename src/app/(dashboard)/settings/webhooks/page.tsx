@@ -0,0 +1,147 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Loader2, Plus, Webhook } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  WebhookEndpointCard,
+  WebhookEndpointForm,
+  type WebhookEndpointData,
+  type WebhookTargetOption,
+} from '@/components/webhooks'
+
+interface WorkspaceOption extends WebhookTargetOption {
+  role: 'OWNER' | 'ADMIN' | 'ANALYST' | 'READ_ONLY'
+}
+
+export default function WebhooksPage(): React.ReactElement {
+  const [endpoints, setEndpoints] = useState<WebhookEndpointData[]>([])
+  const [domains, setDomains] = useState<WebhookTargetOption[]>([])
+  const [workspaces, setWorkspaces] = useState<WebhookTargetOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<WebhookEndpointData | 'new' | null>(null)
+
+  const fetchEndpoints = useCallback(async (): Promise<void> => {
+    try {
+      const response = await fetch('/api/webhooks')
+      const data = await response.json()
+      if (data.success) {
+        setEndpoints(data.data)
+      } else {
+        toast.error(data.error || 'Failed to load webhooks')
+      }
+    } catch {
+      toast.error('Failed to load webhooks')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchEndpoints()
+
+    Promise.all([fetch('/api/domains'), fetch('/api/workspaces')])
+      .then(([domainsResponse, workspacesResponse]) =>
+        Promise.all([domainsResponse.json(), workspacesResponse.json()])
+      )
+      .then(([domainsData, workspacesData]) => {
+        if (domainsData.success) setDomains(domainsData.data)
+        if (workspacesData.success) {
+          setWorkspaces(
+            (workspacesData.data as WorkspaceOption[]).filter(
+              (workspace) => workspace.role === 'OWNER' || workspace.role === 'ADMIN'
+            )
+          )
+        }
+      })
+      .catch(() => undefined)
+  }, [fetchEndpoints])
+
+  const handleSaved = async (): Promise<void> => {
+    setEditing(null)
+    await fetchEndpoints()
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center gap-4">
+        <Button asChild variant="ghost" size="icon">
+          <Link href="/settings">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-2xl font-semibold tracking-tight">Webhooks</h1>
+          <p className="text-muted-foreground text-sm">
+            Notify your own systems when audits, scans and tracking runs start, finish or fail
+          </p>
+        </div>
+        {editing === null && (
+          <Button onClick={() => setEditing('new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Webhook
+          </Button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <WebhookEndpointForm
+          key={editing === 'new' ? 'new' : editing.id}
+          domains={domains}
+          workspaces={workspaces}
+          endpoint={editing === 'new' ? undefined : editing}
+          onSave={handleSaved}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {loading ? (
+        <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+      ) : endpoints.length === 0 ? (
+        <Card>
+          <CardContent className="text-muted-foreground py-10 text-center">
+            <Webhook className="mx-auto mb-2 h-8 w-8" />
+            <p>No webhooks yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {endpoints.map((endpoint) => (
+            <WebhookEndpointCard
+              key={endpoint.id}
+              endpoint={endpoint}
+              onEdit={() => setEditing(endpoint)}
+              onChange={fetchEndpoints}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Signature docs */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-medium">Verifying deliveries</CardTitle>
+          <CardDescription>
+            Each request is a JSON POST with an <code>X-Webhook-Signature</code> header of the form{' '}
+            <code>t=&lt;unix seconds&gt;,v1=&lt;hex&gt;</code>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-muted-foreground space-y-2 text-sm">
+          <p>
+            Compute HMAC-SHA256 of <code>{'${t}.${raw request body}'}</code> with the
+            endpoint&apos;s signing secret and compare it to <code>v1</code>. Reject requests whose
+            timestamp is more than five minutes old.
+          </p>
+          <p>
+            <code>X-Webhook-Id</code> is unique per delivery and stays the same across retries.
+            Failed deliveries are retried with backoff; respond with any 2xx status to acknowledge.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,571 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Users, Plus, Loader2, Trash2, Mail, Globe, Check } from 'lucide-react'
+import { toast } from 'sonner'
+import { useSession } from 'next-auth/react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useDomain } from '@/contexts/DomainContext'
+import { BrandingForm } from '@/components/reports'
+
+type WorkspaceRole = 'OWNER' | 'ADMIN' | 'ANALYST' | 'READ_ONLY'
+
+interface Workspace {
+  id: string
+  name: string
+  role: WorkspaceRole
+  memberCount: number
+  domainCount: number
+}
+
+interface Member {
+  id: string
+  userId: string
+  email: string
+  name: string | null
+  role: WorkspaceRole
+}
+
+interface Invitation {
+  id: string
+  email: string
+  role: WorkspaceRole
+  expiresAt: string
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  ANALYST: 'Analyst',
+  READ_ONLY: 'Read-only',
+}
+
+const PRIVATE_VALUE = 'private'
+
+function canManage(role: WorkspaceRole | undefined): boolean {
+  return role === 'OWNER' || role === 'ADMIN'
+}
+
+export default function WorkspacesPage(): React.ReactElement {
+  const { data: session } = useSession()
+  const { domains, refreshDomains } = useDomain()
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [members, setMembers] = useState<Member[]>([])
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [pendingInvite, setPendingInvite] = useState<string | null>(null)
+
+  // Form state
+  const [newWorkspaceName, setNewWorkspaceName] = useState('')
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('ANALYST')
+
+  const selected = workspaces.find((w) => w.id === selectedId)
+
+  const fetchWorkspaces = useCallback(async (): Promise<void> => {
+    try {
+      const response = await fetch('/api/workspaces')
+      const data = await response.json()
+      if (data.success) {
+        setWorkspaces(data.data)
+        setSelectedId((current) => current ?? data.data[0]?.id ?? null)
+      } else {
+        toast.error(data.error || 'Failed to load workspaces')
+      }
+    } catch {
+      toast.error('Failed to load workspaces')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchWorkspaceDetails = useCallback(async (workspace: Workspace): Promise<void> => {
+    try {
+      const membersResponse = await fetch(`/api/workspaces/${workspace.id}/members`)
+      const membersData = await membersResponse.json()
+      setMembers(membersData.success ? membersData.data : [])
+
+      if (canManage(workspace.role)) {
+        const invitationsResponse = await fetch(`/api/workspaces/${workspace.id}/invitations`)
+        const invitationsData = await invitationsResponse.json()
+        setInvitations(invitationsData.success ? invitationsData.data : [])
+      } else {
+        setInvitations([])
+      }
+    } catch {
+      toast.error('Failed to load workspace details')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchWorkspaces()
+    setPendingInvite(new URLSearchParams(window.location.search).get('invite'))
+  }, [fetchWorkspaces])
+
+  useEffect(() => {
+    if (selected) {
+      fetchWorkspaceDetails(selected)
+    }
+  }, [selected, fetchWorkspaceDetails])
+
+  const handleAcceptInvite = async (): Promise<void> => {
+    if (!pendingInvite) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch('/api/workspaces/invitations/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: pendingInvite }),
+      })
+      const data = await response.json()
+      if (data.success) {
+        toast.success('Invitation accepted')
+        setPendingInvite(null)
+        setSelectedId(data.data.workspaceId)
+        window.history.replaceState(null, '', '/settings/workspaces')
+        await Promise.all([fetchWorkspaces(), refreshDomains()])
+      } else {
+        toast.error(data.error || 'Failed to accept invitation')
+      }
+    } catch {
+      toast.error('Failed to accept invitation')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleCreateWorkspace = async (): Promise<void> => {
+    if (!newWorkspaceName.trim()) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch('/api/workspaces', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newWorkspaceName.trim() }),
+      })
+      const data = await response.json()
+      if (data.success) {
+        setNewWorkspaceName('')
+        setSelectedId(data.data.id)
+        await fetchWorkspaces()
+      } else {
+        toast.error(data.error || 'Failed to create workspace')
+      }
+    } catch {
+      toast.error('Failed to create workspace')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleInvite = async (): Promise<void> => {
+    if (!selected || !inviteEmail.trim()) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/workspaces/${selected.id}/invitations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail.trim(), role: inviteRole }),
+      })
+      const data = await response.json()
+      if (data.success) {
+        await navigator.clipboard
+          ?.writeText(`${window.location.origin}${data.data.acceptUrl}`)
+          .catch(() => undefined)
+        toast.success('Invitation created - link copied to clipboard')
+        setInviteEmail('')
+        await fetchWorkspaceDetails(selected)
+      } else {
+        toast.error(data.error || 'Failed to invite member')
+      }
+    } catch {
+      toast.error('Failed to invite member')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRevokeInvitation = async (invitationId: string): Promise<void> => {
+    if (!selected) return
+
+    const response = await fetch(
+      `/api/workspaces/${selected.id}/invitations?invitationId=${invitationId}`,
+      { method: 'DELETE' }
+    )
+    const data = await response.json()
+    if (data.success) {
+      await fetchWorkspaceDetails(selected)
+    } else {
+      toast.error(data.error || 'Failed to revoke invitation')
+    }
+  }
+
+  const handleRoleChange = async (userId: string, role: WorkspaceRole): Promise<void> => {
+    if (!selected) return
+
+    const response = await fetch(`/api/workspaces/${selected.id}/members`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId, role }),
+    })
+    const data = await response.json()
+    if (data.success) {
+      await fetchWorkspaceDetails(selected)
+    } else {
+      toast.error(data.error || 'Failed to update role')
+    }
+  }
+
+  const handleRemoveMember = async (userId: string): Promise<void> => {
+    if (!selected) return
+
+    const response = await fetch(`/api/workspaces/${selected.id}/members?userId=${userId}`, {
+      method: 'DELETE',
+    })
+    const data = await response.json()
+    if (data.success) {
+      if (userId === session?.user?.id) {
+        setSelectedId(null)
+        await Promise.all([fetchWorkspaces(), refreshDomains()])
+      } else {
+        await fetchWorkspaceDetails(selected)
+      }
+    } else {
+      toast.error(data.error || 'Failed to remove member')
+    }
+  }
+
+  const handleAssignDomain = async (domainId: string, value: string): Promise<void> => {
+    const response = await fetch(`/api/domains/${domainId}/workspace`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workspaceId: value === PRIVATE_VALUE ? null : value }),
+    })
+    const data = await response.json()
+    if (data.success) {
+      await Promise.all([refreshDomains(), fetchWorkspaces()])
+    } else {
+      toast.error(data.error || 'Failed to update domain')
+    }
+  }
+
+  const manageableWorkspaces = workspaces.filter((w) => canManage(w.role))
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center gap-4">
+        <Button asChild variant="ghost" size="icon">
+          <Link href="/settings">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Workspaces</h1>
+          <p className="text-muted-foreground text-sm">
+            Share domains with your team and control what each member can do
+          </p>
+        </div>
+      </div>
+
+      {pendingInvite && (
+        <Card className="border-primary/50">
+          <CardContent className="flex items-center justify-between gap-4 pt-6">
+            <div className="flex items-center gap-2 text-sm">
+              <Mail className="h-4 w-4" />
+              You have been invited to join a workspace
+            </div>
+            <Button onClick={handleAcceptInvite} disabled={isSubmitting}>
+              {isSubmitting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Check className="mr-2 h-4 w-4" />
+              )}
+              Accept Invitation
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        {/* Workspace List */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base font-medium">
+              <Users className="h-4 w-4" />
+              Your Workspaces
+            </CardTitle>
+            <CardDescription>Select a workspace to manage its members</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {loading ? (
+              <Loader2 className="text-muted-foreground h-4 w-4 animate-spin" />
+            ) : workspaces.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                You are not part of any workspace yet.
+              </p>
+            ) : (
+              workspaces.map((workspace) => (
+                <button
+                  key={workspace.id}
+                  type="button"
+                  onClick={() => setSelectedId(workspace.id)}
+                  className={`w-full rounded-md border p-3 text-left transition-colors ${
+                    workspace.id === selectedId ? 'border-primary' : 'hover:border-primary/50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{workspace.name}</span>
+                    <Badge variant="secondary">{ROLE_LABELS[workspace.role]}</Badge>
+                  </div>
+                  <p className="text-muted-foreground mt-1 text-xs">
+                    {workspace.memberCount} members · {workspace.domainCount} domains
+                  </p>
+                </button>
+              ))
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <Input
+                placeholder="New workspace name"
+                value={newWorkspaceName}
+                onChange={(e) => setNewWorkspaceName(e.target.value)}
+              />
+              <Button
+                size="icon"
+                onClick={handleCreateWorkspace}
+                disabled={isSubmitting || !newWorkspaceName.trim()}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Members */}
+        <Card className="lg:col-span-2">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-medium">
+              {selected ? `${selected.name} Members` : 'Members'}
+            </CardTitle>
+            <CardDescription>
+              Admins manage domains and invitations, analysts run tools, read-only members view
+              results
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {selected && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead className="w-[60px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <div className="font-medium">{member.name || member.email}</div>
+                        {member.name && (
+                          <div className="text-muted-foreground text-xs">{member.email}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {canManage(selected.role) ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) =>
+                              handleRoleChange(member.userId, role as WorkspaceRole)
+                            }
+                          >
+                            <SelectTrigger className="w-[140px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {ROLE_LABELS[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {(canManage(selected.role) || member.userId === session?.user?.id) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRemoveMember(member.userId)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {selected && canManage(selected.role) && (
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <Input
+                    type="email"
+                    placeholder="colleague@agency.com"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                  />
+                  <Select
+                    value={inviteRole}
+                    onValueChange={(role) => setInviteRole(role as WorkspaceRole)}
+                  >
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleInvite} disabled={isSubmitting || !inviteEmail.trim()}>
+                    <Mail className="mr-2 h-4 w-4" />
+                    Invite
+                  </Button>
+                </div>
+
+                {invitations.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-muted-foreground text-xs font-medium uppercase">
+                      Pending Invitations
+                    </p>
+                    {invitations.map((invitation) => (
+                      <div
+                        key={invitation.id}
+                        className="flex items-center justify-between rounded-md border px-3 py-2 text-sm"
+                      >
+                        <span>
+                          {invitation.email}{' '}
+                          <Badge variant="outline">{ROLE_LABELS[invitation.role]}</Badge>
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevokeInvitation(invitation.id)}
+                        >
+                          Revoke
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {selected && (
+        <BrandingForm
+          key={selected.id}
+          workspaceId={selected.id}
+          workspaceName={selected.name}
+          canEdit={canManage(selected.role)}
+        />
+      )}
+
+      {/* Domain Sharing */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-base font-medium">
+            <Globe className="h-4 w-4" />
+            Domain Sharing
+          </CardTitle>
+          <CardDescription>
+            Domains shared with a workspace are visible to all of its members
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Domain</TableHead>
+                <TableHead>Workspace</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {domains.map((domain) => {
+                const isCreator = domain.userId === session?.user?.id
+                const current = workspaces.find((w) => w.id === domain.workspaceId)
+                const editable = isCreator || canManage(current?.role)
+
+                return (
+                  <TableRow key={domain.id}>
+                    <TableCell>
+                      <div className="font-medium">{domain.name}</div>
+                      <div className="text-muted-foreground text-xs">{domain.domain}</div>
+                    </TableCell>
+                    <TableCell>
+                      {editable ? (
+                        <Select
+                          value={domain.workspaceId ?? PRIVATE_VALUE}
+                          onValueChange={(value) => handleAssignDomain(domain.id, value)}
+                        >
+                          <SelectTrigger className="w-[220px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={PRIVATE_VALUE}>Private</SelectItem>
+                            {manageableWorkspaces.map((workspace) => (
+                              <SelectItem key={workspace.id} value={workspace.id}>
+                                {workspace.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline">{current?.name ?? 'Shared'}</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
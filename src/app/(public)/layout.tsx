@@ -0,0 +1,13 @@
+import React, { ReactNode } from 'react'
+
+interface PublicLayoutProps {
+  children: ReactNode
+}
+
+/**
+ * Layout for pages reachable without signing in (share links). Nothing here
+ * may read the session or render dashboard navigation.
+ */
+export default function PublicLayout({ children }: PublicLayoutProps): React.ReactElement {
+  return <div className="bg-background min-h-screen">{children}</div>
+}
@@ -0,0 +1,28 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { SharedResourceView } from '@/components/share'
+import { resolveShareLink } from '@/lib/db/share-link-operations'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Shared report',
+  robots: { index: false, follow: false },
+}
+
+interface SharePageProps {
+  params: Promise<{ token: string }>
+}
+
+/**
+ * Public share page. The signed token is the only credential: it selects a
+ * single resource, and revoked or expired links render a 404.
+ */
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params
+  const view = await resolveShareLink(token)
+
+  if (!view) notFound()
+
+  return <SharedResourceView view={view} />
+}
@@ -12,7 +12,7 @@ import {
   getPlatformScores,
   type AISeoResult,
 } from '@/lib/db/ai-seo-operations'
-import { prisma } from '@/lib/prisma'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
 
 export async function GET(
   _request: NextRequest,
@@ -46,13 +46,8 @@ export async function GET(
       )
     }
 
-    // Verify ownership by checking if domain belongs to user
-    const domain = await prisma.domains.findFirst({
-      where: {
-        id: run.domainId,
-        user_id: session.user.id,
-      },
-    })
+    // Verify access by checking if the user can access the run's domain
+    const domain = await findAccessibleDomain(run.domainId, session.user.id)
 
     if (!domain) {
       return NextResponse.json(
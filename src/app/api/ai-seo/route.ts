@@ -14,7 +14,7 @@ import {
   getLatestVisibilityScore,
 } from '@/lib/db/ai-seo-operations'
 import { inngest } from '@/lib/inngest'
-import { prisma } from '@/lib/prisma'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
@@ -36,6 +36,15 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       )
     }
 
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+    if (!domain) {
+      return NextResponse.json(
+        { success: false, error: 'Domain not found' },
+        { status: 404 }
+      )
+    }
+
     // Get runs for the domain
     const runs = await getAISeoRunsForDomain(domainId, 10)
 
@@ -134,14 +143,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     // Get domain info for the analysis (including location)
-    const domainRecord = await prisma.domains.findUnique({
-      where: { id: domainId },
-      select: { 
-        domain: true,
-        city: true,
-        state: true,
-      },
-    })
+    const domainRecord = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
 
     if (!domainRecord) {
       return NextResponse.json(
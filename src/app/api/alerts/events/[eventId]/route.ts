@@ -0,0 +1,79 @@
+/**
+ * Alert Event API
+ *
+ * PATCH - Acknowledge, snooze or reopen an alert event
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import {
+  getAlertEventForUser,
+  acknowledgeAlertEvent,
+  snoozeAlertEvent,
+  reopenAlertEvent,
+} from '@/lib/db/alert-operations'
+
+interface RouteParams {
+  params: Promise<{ eventId: string }>
+}
+
+const MAX_SNOOZE_HOURS = 24 * 30
+
+const updateEventSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('acknowledge') }),
+  z.object({
+    action: z.literal('snooze'),
+    hours: z.number().int().min(1).max(MAX_SNOOZE_HOURS),
+  }),
+  z.object({ action: z.literal('reopen') }),
+])
+
+/**
+ * PATCH /api/alerts/events/[eventId]
+ * Body: { action: 'acknowledge' } | { action: 'snooze', hours } | { action: 'reopen' }
+ */
+export async function PATCH(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { eventId } = await params
+    const body = await request.json()
+    const parseResult = updateEventSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const existing = await getAlertEventForUser(eventId, session.user.id, 'ANALYST')
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Alert not found' }, { status: 404 })
+    }
+
+    const input = parseResult.data
+    const event =
+      input.action === 'acknowledge'
+        ? await acknowledgeAlertEvent(eventId, session.user.id)
+        : input.action === 'snooze'
+          ? await snoozeAlertEvent(eventId, new Date(Date.now() + input.hours * 60 * 60 * 1000))
+          : await reopenAlertEvent(eventId)
+
+    return NextResponse.json({ success: true, data: event })
+  } catch (error) {
+    console.error('Error updating alert event:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update alert' },
+      { status: 500 }
+    )
+  }
+}
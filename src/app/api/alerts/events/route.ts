@@ -0,0 +1,66 @@
+/**
+ * Alert Events API
+ *
+ * GET - List alert events for a domain
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { listAlertEvents, countActiveAlertEvents } from '@/lib/db/alert-operations'
+
+const querySchema = z.object({
+  domainId: z.string().min(1, 'Domain ID is required'),
+  filter: z.enum(['active', 'all', 'OPEN', 'ACKNOWLEDGED', 'SNOOZED']).default('active'),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+/**
+ * GET /api/alerts/events?domainId=X&filter=active|all|OPEN|ACKNOWLEDGED|SNOOZED
+ * List alert events for a domain, newest first.
+ * "active" (default) returns open events and snoozed events whose snooze has expired.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const parseResult = querySchema.safeParse(Object.fromEntries(searchParams))
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, filter, limit, offset } = parseResult.data
+
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const [events, activeCount] = await Promise.all([
+      listAlertEvents(domainId, { filter, limit, offset }),
+      countActiveAlertEvents(domainId),
+    ])
+
+    return NextResponse.json({ success: true, data: { events, activeCount } })
+  } catch (error) {
+    console.error('Error listing alert events:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list alert events' },
+      { status: 500 }
+    )
+  }
+}
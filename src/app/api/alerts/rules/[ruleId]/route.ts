@@ -0,0 +1,109 @@
+/**
+ * Alert Rule API
+ *
+ * PATCH - Update an alert rule
+ * DELETE - Delete an alert rule and its events
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import {
+  getAlertRuleForUser,
+  updateAlertRule,
+  deleteAlertRule,
+  AlertRuleError,
+} from '@/lib/db/alert-operations'
+
+interface RouteParams {
+  params: Promise<{ ruleId: string }>
+}
+
+const updateRuleSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  type: z.enum(['RANK_DROP', 'SHARE_OF_VOICE_DROP', 'NEW_4XX_PAGES', 'NEW_SITE_ERRORS']).optional(),
+  threshold: z.number().positive().max(10000).optional(),
+  isEnabled: z.boolean().optional(),
+  emailRecipients: z.array(z.string().email()).max(20).optional(),
+  webhookUrl: z
+    .url({ protocol: /^https?$/ })
+    .max(2000)
+    .nullable()
+    .optional(),
+})
+
+/**
+ * PATCH /api/alerts/rules/[ruleId]
+ * Update an alert rule
+ */
+export async function PATCH(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { ruleId } = await params
+    const body = await request.json()
+    const parseResult = updateRuleSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const existing = await getAlertRuleForUser(ruleId, session.user.id, 'ANALYST')
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Alert rule not found' }, { status: 404 })
+    }
+
+    const rule = await updateAlertRule(ruleId, parseResult.data)
+
+    return NextResponse.json({ success: true, data: rule })
+  } catch (error) {
+    if (error instanceof AlertRuleError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+    console.error('Error updating alert rule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update alert rule' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/alerts/rules/[ruleId]
+ * Delete an alert rule
+ */
+export async function DELETE(_request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { ruleId } = await params
+
+    const existing = await getAlertRuleForUser(ruleId, session.user.id, 'ANALYST')
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Alert rule not found' }, { status: 404 })
+    }
+
+    await deleteAlertRule(ruleId)
+
+    return NextResponse.json({ success: true, message: 'Alert rule deleted' })
+  } catch (error) {
+    console.error('Error deleting alert rule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete alert rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Alert Rules API
+ *
+ * GET - List alert rules for a domain
+ * POST - Create an alert rule
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { listAlertRules, createAlertRule, AlertRuleError } from '@/lib/db/alert-operations'
+
+const createRuleSchema = z.object({
+  domainId: z.string().min(1, 'Domain ID is required'),
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  type: z.enum(['RANK_DROP', 'SHARE_OF_VOICE_DROP', 'NEW_4XX_PAGES', 'NEW_SITE_ERRORS']),
+  threshold: z.number().positive().max(10000),
+  isEnabled: z.boolean().optional(),
+  emailRecipients: z.array(z.string().email()).max(20).optional(),
+  webhookUrl: z
+    .url({ protocol: /^https?$/ })
+    .max(2000)
+    .nullable()
+    .optional(),
+})
+
+/**
+ * GET /api/alerts/rules?domainId=X
+ * List alert rules for a domain
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const domainId = new URL(request.url).searchParams.get('domainId')
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'Domain ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const rules = await listAlertRules(domainId)
+
+    return NextResponse.json({ success: true, data: rules })
+  } catch (error) {
+    console.error('Error listing alert rules:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list alert rules' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/alerts/rules
+ * Create an alert rule for a domain
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = createRuleSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, ...input } = parseResult.data
+
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const rule = await createAlertRule(domainId, session.user.id, input)
+
+    return NextResponse.json({ success: true, data: rule }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AlertRuleError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+    console.error('Error creating alert rule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create alert rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * API Key
+ *
+ * DELETE /api/api-keys/[keyId] - Revoke one of the current user's API keys
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { ApiKeyError, revokeApiKey } from '@/lib/db/api-key-operations'
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ keyId: string }> }
+): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { keyId } = await params
+    await revokeApiKey(keyId, session.user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error revoking API key:', error)
+    return NextResponse.json({ success: false, error: 'Failed to revoke API key' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * API Keys
+ *
+ * GET /api/api-keys - List the current user's API keys
+ * POST /api/api-keys - Create a key; the plaintext key is returned only once
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { ApiKeyError, createApiKey, listApiKeys } from '@/lib/db/api-key-operations'
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z
+    .array(z.enum(['READ', 'TRIGGER_SCANS', 'MANAGE_KEYWORDS']))
+    .min(1, 'Pick at least one scope'),
+  workspaceId: z.string().min(1).nullable().optional(),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+})
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const keys = await listApiKeys(session.user.id)
+
+    return NextResponse.json({ success: true, data: keys })
+  } catch (error) {
+    console.error('Error listing API keys:', error)
+    return NextResponse.json({ success: false, error: 'Failed to list API keys' }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = createApiKeySchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { apiKey, key } = await createApiKey(session.user.id, parseResult.data)
+
+    return NextResponse.json({ success: true, data: { ...apiKey, key } }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error creating API key:', error)
+    return NextResponse.json({ success: false, error: 'Failed to create API key' }, { status: 500 })
+  }
+}
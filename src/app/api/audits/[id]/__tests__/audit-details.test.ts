@@ -27,6 +27,21 @@ vi.mock('@/lib/db/audit-operations', () => ({
   deleteAudit: vi.fn(),
 }))
 
+// Mock workspace access - unassigned audits are only accessible to their creator
+vi.mock('@/lib/db/workspace-operations', () => ({
+  canAccessResource: vi.fn((resource: { userId: string }, userId: string) =>
+    Promise.resolve(resource.userId === userId)
+  ),
+}))
+
+// Mock threshold profile lookup - domains without a profile use the baseline
+vi.mock('@/lib/db/threshold-profile-operations', async () => {
+  const { DEFAULT_THRESHOLD_PROFILE } = await import('@/lib/seo/threshold-profiles')
+  return {
+    getDomainThresholdProfile: vi.fn(() => Promise.resolve(DEFAULT_THRESHOLD_PROFILE)),
+  }
+})
+
 import { getFullAuditResult, deleteAudit } from '@/lib/db/audit-operations'
 
 // Helper types
@@ -90,6 +105,7 @@ describe('GET /api/audits/[id]', () => {
     expect(data.data.domain).toBe('example-dental.com')
     expect(data.data.scores).toBeDefined()
     expect(data.data.stepResults).toBeDefined()
+    expect(data.data.thresholdProfile).toBeDefined()
   })
 
   it('returns 400 for invalid UUID format', async () => {
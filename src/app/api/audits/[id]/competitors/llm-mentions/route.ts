@@ -3,6 +3,7 @@
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { canAccessResource } from '@/lib/db/workspace-operations'
 import type { CompetitorStepResult } from '@/types/audit'
 
 interface StepResults {
@@ -79,6 +80,7 @@ export async function GET(
         id: true,
         domain: true,
         userId: true,
+        domain_id: true,
         step_results: true,
         competitor_domains: true,
         city: true,
@@ -90,7 +92,7 @@ export async function GET(
       return NextResponse.json({ success: false, error: 'Audit not found' }, { status: 404 })
     }
 
-    if (audit.userId !== session.user.id) {
+    if (!(await canAccessResource({ userId: audit.userId, domainId: audit.domain_id }, session.user.id))) {
       return NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 })
     }
 
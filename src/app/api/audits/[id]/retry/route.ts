@@ -6,6 +6,7 @@ import { AuditStatus, Prisma } from '@prisma/client'
 import { auth } from '@/lib/auth'
 import { inngest } from '@/lib/inngest'
 import { getAudit } from '@/lib/db/audit-operations'
+import { canAccessResource } from '@/lib/db/workspace-operations'
 import { prisma } from '@/lib/prisma'
 
 /**
@@ -61,8 +62,14 @@ export async function POST(_request: Request, context: RouteContext): Promise<Ne
       )
     }
 
-    // Verify ownership
-    if (audit.userId !== session.user.id) {
+    // Verify access
+    if (
+      !(await canAccessResource(
+        { userId: audit.userId, domainId: audit.domain_id },
+        session.user.id,
+        'ANALYST'
+      ))
+    ) {
       return NextResponse.json(
         {
           success: false,
@@ -5,6 +5,8 @@ import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { auth } from '@/lib/auth'
 import { getFullAuditResult, deleteAudit } from '@/lib/db/audit-operations'
+import { canAccessResource } from '@/lib/db/workspace-operations'
+import { getDomainThresholdProfile } from '@/lib/db/threshold-profile-operations'
 
 /**
  * Path params validation
@@ -20,7 +22,8 @@ interface RouteContext {
 
 /**
  * GET /api/audits/[id]
- * Get full audit details including step results and scores
+ * Get full audit details including step results and scores, plus the
+ * domain's threshold profile the report is classified and scored with
  */
 export async function GET(_request: Request, context: RouteContext): Promise<NextResponse> {
   try {
@@ -59,8 +62,8 @@ export async function GET(_request: Request, context: RouteContext): Promise<Nex
       )
     }
 
-    // Verify ownership
-    if (audit.userId !== session.user.id) {
+    // Verify access
+    if (!(await canAccessResource(audit, session.user.id))) {
       return NextResponse.json(
         {
           success: false,
@@ -70,9 +73,11 @@ export async function GET(_request: Request, context: RouteContext): Promise<Nex
       )
     }
 
+    const thresholdProfile = await getDomainThresholdProfile(audit.domainId)
+
     return NextResponse.json({
       success: true,
-      data: audit,
+      data: { ...audit, thresholdProfile },
     })
   } catch (error) {
     console.error('Error fetching audit:', error)
@@ -120,8 +125,8 @@ export async function DELETE(_request: Request, context: RouteContext): Promise<
       )
     }
 
-    // Verify ownership
-    if (audit.userId !== session.user.id) {
+    // Verify access
+    if (!(await canAccessResource(audit, session.user.id, 'ANALYST'))) {
       return NextResponse.json(
         {
           success: false,
@@ -8,6 +8,7 @@ import { inngest } from '@/lib/inngest'
 import { createAudit, getUserAudits, wasRecentlyAudited } from '@/lib/db/audit-operations'
 import { generateKeywordsForLocation } from '@/lib/keywords/preset-keywords'
 import { addTrackedKeywords } from '@/lib/db/keyword-operations'
+import { getVerticalPackForDomainName } from '@/lib/db/domain-operations'
 
 /**
  * Request validation schema for creating an audit
@@ -106,7 +107,8 @@ export async function POST(request: Request): Promise<NextResponse> {
 
     // Generate preset keywords if city/state provided
     if (city && state) {
-      const presetKeywords = generateKeywordsForLocation(city, state)
+      const vertical = await getVerticalPackForDomainName(domain, userId)
+      const presetKeywords = generateKeywordsForLocation(city, state, vertical)
       console.log(
         `[Audit API] Generated ${presetKeywords.length} preset keywords for ${city}, ${state}`
       )
@@ -0,0 +1,52 @@
+/**
+ * GET /api/backlinks/diff
+ * Referring domains gained and lost between two backlink snapshots.
+ * Defaults to the latest snapshot compared with the one before it.
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { getBacklinkSnapshotDiff } from '@/lib/db/backlinks-operations'
+
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const url = new URL(request.url)
+    const domainId = url.searchParams.get('domainId')
+    const fromId = url.searchParams.get('from') ?? undefined
+    const toId = url.searchParams.get('to') ?? undefined
+
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'domainId is required' },
+        { status: 400 }
+      )
+    }
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    // Null when there's no earlier snapshot or one side has no stored domains
+    const diff = await getBacklinkSnapshotDiff(domainId, { fromId, toId })
+
+    return NextResponse.json({
+      success: true,
+      data: diff,
+    })
+  } catch (error) {
+    console.error('[Backlinks Diff API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch backlink diff' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * PATCH /api/backlinks/disavow/[entryId]
+ * Mark a toxic domain/URL to disavow or keep, with a reason
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { updateDisavowDecision } from '@/lib/db/disavow-operations'
+
+interface RouteParams {
+  params: Promise<{ entryId: string }>
+}
+
+const updateDecisionSchema = z.object({
+  domainId: z.string().min(1),
+  decision: z.enum(['PENDING', 'DISAVOW', 'KEEP']),
+  reason: z.string().max(500).nullable().optional(),
+})
+
+export async function PATCH(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { entryId } = await params
+    const body = await request.json()
+    const parseResult = updateDecisionSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, decision, reason } = parseResult.data
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const entry = await updateDisavowDecision(domainId, entryId, session.user.id, {
+      decision,
+      reason,
+    })
+
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: 'Disavow entry not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: entry })
+  } catch (error) {
+    console.error('[Backlinks Disavow API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update disavow entry' },
+      { status: 500 }
+    )
+  }
+}
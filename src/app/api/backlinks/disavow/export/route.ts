@@ -0,0 +1,55 @@
+/**
+ * GET /api/backlinks/disavow/export?domainId=
+ * Download the domain's disavow file in Google's format
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { exportDisavowFile } from '@/lib/db/disavow-operations'
+
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const url = new URL(request.url)
+    const domainId = url.searchParams.get('domainId')
+
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'domainId is required' },
+        { status: 400 }
+      )
+    }
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const content = await exportDisavowFile(domainId, domain.domain)
+
+    const site = domain.domain.replace(/[^a-zA-Z0-9]/g, '-')
+    const date = new Date().toISOString().split('T')[0]
+    const filename = `disavow-${site}-${date}.txt`
+
+    return new NextResponse(content, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('[Backlinks Disavow Export API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to export disavow file' },
+      { status: 500 }
+    )
+  }
+}
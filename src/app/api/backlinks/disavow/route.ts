@@ -0,0 +1,124 @@
+/**
+ * Backlink Disavow API
+ *
+ * GET - List toxic referring domains/URLs and their review decisions
+ * POST - Scan the domain's backlinks for toxic domains/URLs
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { listDisavowEntries, scanToxicBacklinks } from '@/lib/db/disavow-operations'
+import { runWithSpendContext } from '@/lib/dataforseo/spend-tracking'
+
+const decisionSchema = z.enum(['PENDING', 'DISAVOW', 'KEEP'])
+
+const scanSchema = z.object({
+  domainId: z.string().min(1),
+  threshold: z.number().int().min(1).max(100).optional(),
+})
+
+/**
+ * GET /api/backlinks/disavow?domainId=&decision=
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const url = new URL(request.url)
+    const domainId = url.searchParams.get('domainId')
+    const decisionParam = url.searchParams.get('decision')
+
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'domainId is required' },
+        { status: 400 }
+      )
+    }
+
+    const decision = decisionParam ? decisionSchema.safeParse(decisionParam) : null
+    if (decision && !decision.success) {
+      return NextResponse.json(
+        { success: false, error: 'decision must be PENDING, DISAVOW or KEEP' },
+        { status: 400 }
+      )
+    }
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const entries = await listDisavowEntries(domainId, { decision: decision?.data })
+
+    return NextResponse.json({
+      success: true,
+      data: entries,
+    })
+  } catch (error) {
+    console.error('[Backlinks Disavow API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch disavow entries' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/backlinks/disavow
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = scanSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, threshold } = parseResult.data
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    console.log(`[Backlinks Disavow] Scanning toxic backlinks for ${domain.domain}`)
+
+    const result = await runWithSpendContext(
+      { tool: 'backlinks', domainId, userId: session.user.id },
+      () => scanToxicBacklinks(domainId, domain.domain, threshold)
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    })
+  } catch (error) {
+    console.error('[Backlinks Disavow API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to scan toxic backlinks' },
+      { status: 500 }
+    )
+  }
+}
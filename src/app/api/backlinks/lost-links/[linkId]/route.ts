@@ -0,0 +1,66 @@
+/**
+ * PATCH /api/backlinks/lost-links/[linkId]
+ * Dismiss, reopen or mark a lost backlink as reclaimed
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { updateLostBacklinkStatus } from '@/lib/db/backlinks-operations'
+
+interface RouteParams {
+  params: Promise<{ linkId: string }>
+}
+
+const updateLostLinkSchema = z.object({
+  domainId: z.string().min(1),
+  status: z.enum(['OPEN', 'RECLAIMED', 'DISMISSED']),
+})
+
+export async function PATCH(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { linkId } = await params
+    const body = await request.json()
+    const parseResult = updateLostLinkSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, status } = parseResult.data
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const link = await updateLostBacklinkStatus(domainId, linkId, status)
+
+    if (!link) {
+      return NextResponse.json({ success: false, error: 'Lost link not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: link })
+  } catch (error) {
+    console.error('[Backlinks Lost Links API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update lost backlink' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * GET /api/backlinks/lost-links
+ * High-rank referring domains lost since an earlier snapshot, found by
+ * scheduled backlink monitoring
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { getLostBacklinks } from '@/lib/db/backlinks-operations'
+
+const statusSchema = z.enum(['OPEN', 'RECLAIMED', 'DISMISSED'])
+
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const url = new URL(request.url)
+    const domainId = url.searchParams.get('domainId')
+    const statusParam = url.searchParams.get('status')
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '100', 10) || 100, 500)
+
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'domainId is required' },
+        { status: 400 }
+      )
+    }
+
+    const status = statusParam ? statusSchema.safeParse(statusParam) : null
+    if (status && !status.success) {
+      return NextResponse.json(
+        { success: false, error: 'status must be OPEN, RECLAIMED or DISMISSED' },
+        { status: 400 }
+      )
+    }
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const links = await getLostBacklinks(domainId, { status: status?.data, limit })
+
+    return NextResponse.json({
+      success: true,
+      data: links,
+    })
+  } catch (error) {
+    console.error('[Backlinks Lost Links API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch lost backlinks' },
+      { status: 500 }
+    )
+  }
+}
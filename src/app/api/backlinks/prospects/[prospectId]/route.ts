@@ -0,0 +1,118 @@
+/**
+ * Link Prospect API
+ *
+ * PATCH - Move a prospect to another stage or edit its outreach plan
+ * DELETE - Remove a prospect from the pipeline
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { deleteLinkProspect, updateLinkProspect } from '@/lib/db/link-prospect-operations'
+import { LINK_PROSPECT_STAGES } from '@/lib/seo/link-prospects'
+
+interface RouteParams {
+  params: Promise<{ prospectId: string }>
+}
+
+const updateProspectSchema = z.object({
+  domainId: z.string().min(1),
+  stage: z.enum(LINK_PROSPECT_STAGES).optional(),
+  targetUrl: z.url({ protocol: /^https?$/ }).max(2048).nullable().optional(),
+  anchorPlan: z.string().max(500).nullable().optional(),
+  notes: z.string().max(5000).nullable().optional(),
+})
+
+/**
+ * PATCH /api/backlinks/prospects/[prospectId]
+ */
+export async function PATCH(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { prospectId } = await params
+    const body = await request.json()
+    const parseResult = updateProspectSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, ...update } = parseResult.data
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const prospect = await updateLinkProspect(domainId, prospectId, update)
+
+    if (!prospect) {
+      return NextResponse.json({ success: false, error: 'Prospect not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: prospect })
+  } catch (error) {
+    console.error('[Link Prospects API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update link prospect' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/backlinks/prospects/[prospectId]?domainId=
+ */
+export async function DELETE(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { prospectId } = await params
+    const domainId = new URL(request.url).searchParams.get('domainId')
+
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'domainId is required' },
+        { status: 400 }
+      )
+    }
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const deleted = await deleteLinkProspect(domainId, prospectId)
+
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Prospect not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Link Prospects API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete link prospect' },
+      { status: 500 }
+    )
+  }
+}
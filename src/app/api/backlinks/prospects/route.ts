@@ -0,0 +1,131 @@
+/**
+ * Link Prospect Pipeline API
+ *
+ * GET - List a domain's link-building prospects
+ * POST - Add prospects, e.g. gap domains promoted from a backlink gap analysis
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { addLinkProspects, listLinkProspects } from '@/lib/db/link-prospect-operations'
+import { domainSchema } from '@/lib/dataforseo/schemas'
+import { LINK_PROSPECT_STAGES, normalizeProspectDomain } from '@/lib/seo/link-prospects'
+
+const addProspectsSchema = z.object({
+  domainId: z.string().min(1),
+  source: z.enum(['backlink_gap', 'manual']).default('manual'),
+  sourceAuditId: z.string().min(1).nullable().optional(),
+  prospects: z
+    .array(
+      z.object({
+        // URLs are reduced to their host; anything else that isn't a hostname is rejected
+        domain: z.string().max(2000).transform(normalizeProspectDomain).pipe(domainSchema),
+        domainRank: z.number().int().min(0).max(1000).nullable().optional(),
+        spamScore: z.number().int().min(0).max(100).nullable().optional(),
+        linksToCompetitors: z.array(z.string().max(255)).max(20).optional(),
+      })
+    )
+    .min(1)
+    .max(200),
+})
+
+/**
+ * GET /api/backlinks/prospects?domainId=&stage=
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const url = new URL(request.url)
+    const domainId = url.searchParams.get('domainId')
+    const stageParam = url.searchParams.get('stage')
+
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'domainId is required' },
+        { status: 400 }
+      )
+    }
+
+    const stage = stageParam ? z.enum(LINK_PROSPECT_STAGES).safeParse(stageParam) : null
+    if (stage && !stage.success) {
+      return NextResponse.json(
+        { success: false, error: `stage must be one of ${LINK_PROSPECT_STAGES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const prospects = await listLinkProspects(domainId, { stage: stage?.data })
+
+    return NextResponse.json({
+      success: true,
+      data: prospects,
+    })
+  } catch (error) {
+    console.error('[Link Prospects API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch link prospects' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/backlinks/prospects
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = addProspectsSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, source, sourceAuditId, prospects } = parseResult.data
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const result = await addLinkProspects(domainId, session.user.id, prospects, {
+      type: source,
+      auditId: sourceAuditId,
+    })
+
+    return NextResponse.json({ success: true, data: result }, { status: 201 })
+  } catch (error) {
+    console.error('[Link Prospects API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to add link prospects' },
+      { status: 500 }
+    )
+  }
+}
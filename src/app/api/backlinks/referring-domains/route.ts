@@ -5,7 +5,7 @@
 
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
-import { prisma } from '@/lib/prisma'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
 import { getReferringDomains } from '@/lib/db/backlinks-operations'
 
 export async function GET(request: Request): Promise<NextResponse> {
@@ -29,13 +29,8 @@ export async function GET(request: Request): Promise<NextResponse> {
       )
     }
 
-    // Verify domain ownership
-    const domain = await prisma.domains.findFirst({
-      where: {
-        id: domainId,
-        user_id: session.user.id,
-      },
-    })
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id)
 
     if (!domain) {
       return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
@@ -5,8 +5,9 @@
 
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
-import { prisma } from '@/lib/prisma'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
 import { refreshBacklinkProfile } from '@/lib/db/backlinks-operations'
+import { runWithSpendContext } from '@/lib/dataforseo/spend-tracking'
 
 export async function POST(request: Request): Promise<NextResponse> {
   try {
@@ -25,13 +26,8 @@ export async function POST(request: Request): Promise<NextResponse> {
       )
     }
 
-    // Verify domain ownership and get domain name
-    const domain = await prisma.domains.findFirst({
-      where: {
-        id: domainId,
-        user_id: session.user.id,
-      },
-    })
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
 
     if (!domain) {
       return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
@@ -39,7 +35,10 @@ export async function POST(request: Request): Promise<NextResponse> {
 
     console.log(`[Backlinks Refresh] Fetching data for ${domain.domain}`)
 
-    const profile = await refreshBacklinkProfile(domainId, domain.domain)
+    const { profile } = await runWithSpendContext(
+      { tool: 'backlinks', domainId, userId: session.user.id },
+      () => refreshBacklinkProfile(domainId, domain.domain)
+    )
 
     return NextResponse.json({
       success: true,
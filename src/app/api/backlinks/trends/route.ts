@@ -0,0 +1,61 @@
+/**
+ * GET /api/backlinks/trends
+ * Backlink profile history: total backlinks, referring domains, domain rank,
+ * spam score and new/lost referring domains per snapshot
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { getBacklinkTrends } from '@/lib/db/backlinks-operations'
+
+const DEFAULT_DAYS = 180
+const MAX_DAYS = 730
+
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const url = new URL(request.url)
+    const domainId = url.searchParams.get('domainId')
+    const daysParam = url.searchParams.get('days')
+    const days = daysParam ? Number(daysParam) : DEFAULT_DAYS
+
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'domainId is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const trend = await getBacklinkTrends(domainId, days)
+
+    return NextResponse.json({
+      success: true,
+      data: trend,
+    })
+  } catch (error) {
+    console.error('[Backlinks Trends API] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch backlink trends' },
+      { status: 500 }
+    )
+  }
+}
@@ -5,6 +5,7 @@ import {
   createCapacityCalculation,
   getCapacityCalculations,
 } from '@/lib/db/calculator-operations'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
 
 const createCapacitySchema = z.object({
   domainId: z.string().min(1),
@@ -69,6 +70,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const body = await request.json()
     const data = createCapacitySchema.parse(body)
 
+    // Verify the user can add calculations to this domain
+    const domain = await findAccessibleDomain(data.domainId, session.user.id, 'ANALYST')
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
     const id = await createCapacityCalculation({
       ...data,
       userId: session.user.id,
@@ -8,6 +8,7 @@ import {
   createGoogleAdsCalculation,
   getGoogleAdsCalculations,
 } from '@/lib/db/calculator-operations'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
 
 /**
  * Create validation schema
@@ -106,6 +107,12 @@ export async function POST(request: Request): Promise<NextResponse> {
 
     const data = parseResult.data
 
+    // Verify the user can add calculations to this domain
+    const domain = await findAccessibleDomain(data.domainId, session.user.id, 'ANALYST')
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
     const id = await createGoogleAdsCalculation({
       domainId: data.domainId,
       userId: session.user.id,
@@ -5,6 +5,7 @@ import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { auth } from '@/lib/auth'
 import { createSEOCalculation, getSEOCalculations } from '@/lib/db/calculator-operations'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
 import { CTR_PRESETS } from '@/lib/calculators/seo-calculator'
 
 /**
@@ -150,6 +151,12 @@ export async function POST(request: Request): Promise<NextResponse> {
 
     const data = parseResult.data
 
+    // Verify the user can add calculations to this domain
+    const domain = await findAccessibleDomain(data.domainId, session.user.id, 'ANALYST')
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
     // Resolve CTR percentage from scenario if not explicitly provided
     let ctrPercentage = data.ctrPercentage
     if (ctrPercentage === undefined) {
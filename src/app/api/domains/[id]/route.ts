@@ -12,6 +12,7 @@ import {
   updateDomain,
   archiveDomain,
 } from '@/lib/db/domain-operations';
+import { VERTICAL_IDS } from '@/lib/verticals';
 import { z } from 'zod';
 
 const updateDomainSchema = z.object({
@@ -19,6 +20,7 @@ const updateDomainSchema = z.object({
   businessName: z.string().max(200).optional(),
   city: z.string().max(100).optional(),
   state: z.string().length(2).optional(),
+  vertical: z.enum(VERTICAL_IDS).optional(),
   status: z.enum(['ACTIVE', 'ARCHIVED']).optional(),
   isPinned: z.boolean().optional(),
 });
@@ -100,6 +102,13 @@ export async function PATCH(
       );
     }
 
+    if (error instanceof Error && error.message === 'Domain not found') {
+      return NextResponse.json(
+        { success: false, error: 'Domain not found' },
+        { status: 404 }
+      );
+    }
+
     console.error('Error updating domain:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to update domain' },
@@ -133,6 +142,13 @@ export async function DELETE(
       success: true,
     });
   } catch (error) {
+    if (error instanceof Error && error.message === 'Domain not found') {
+      return NextResponse.json(
+        { success: false, error: 'Domain not found' },
+        { status: 404 }
+      );
+    }
+
     console.error('Error archiving domain:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to archive domain' },
@@ -10,6 +10,7 @@ import {
   getDomainById,
   updateDomainSettings,
 } from '@/lib/db/domain-operations';
+import { ThresholdProfileError } from '@/lib/db/threshold-profile-operations';
 import { z } from 'zod';
 
 const updateSettingsSchema = z.object({
@@ -17,6 +18,11 @@ const updateSettingsSchema = z.object({
   siteAuditEnableJavascript: z.boolean().optional(),
   localSeoGridSize: z.number().int().min(3).max(15).optional(),
   localSeoRadiusMiles: z.number().positive().optional(),
+  monthlyApiBudget: z.number().nonnegative().max(100000).nullable().optional(),
+  backlinkMonitorEnabled: z.boolean().optional(),
+  backlinkMonitorIntervalDays: z.number().int().min(1).max(90).optional(),
+  backlinkLostLinkMinRank: z.number().int().min(0).max(1000).optional(),
+  thresholdProfileId: z.string().min(1).nullable().optional(),
 });
 
 /**
@@ -99,6 +105,20 @@ export async function PATCH(
       );
     }
 
+    if (error instanceof ThresholdProfileError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Domain not found') {
+      return NextResponse.json(
+        { success: false, error: 'Domain not found' },
+        { status: 404 }
+      );
+    }
+
     console.error('Error updating domain settings:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to update settings' },
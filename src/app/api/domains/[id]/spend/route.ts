@@ -0,0 +1,49 @@
+/**
+ * Domain DataForSEO Spend API Route
+ * GET /api/domains/[id]/spend - Current month's spend, budget and per-tool breakdown
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getDomainSpendSummary } from '@/lib/db/spend-ledger-operations';
+
+/**
+ * GET /api/domains/[id]/spend
+ * Get this month's DataForSEO spend for a domain
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const summary = await getDomainSpendSummary(id, session.user.id);
+
+    if (!summary) {
+      return NextResponse.json(
+        { success: false, error: 'Domain not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    console.error('Error fetching domain spend:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch spend' },
+      { status: 500 }
+    );
+  }
+}
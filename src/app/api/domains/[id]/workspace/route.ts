@@ -0,0 +1,63 @@
+/**
+ * Domain Workspace API Route
+ * PUT /api/domains/[id]/workspace - Share a domain with a workspace (or make it private with null)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { assignDomainToWorkspace, WorkspaceError } from '@/lib/db/workspace-operations';
+import { z } from 'zod';
+
+const assignWorkspaceSchema = z.object({
+  workspaceId: z.string().min(1).nullable(),
+});
+
+/**
+ * PUT /api/domains/[id]/workspace
+ * Assign domain to a workspace
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const validated = assignWorkspaceSchema.parse(body);
+
+    await assignDomainToWorkspace(id, session.user.id, validated.workspaceId);
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error assigning domain workspace:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update domain workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { getUserDomains, createDomain } from '@/lib/db/domain-operations';
+import { VERTICAL_IDS } from '@/lib/verticals';
 import { z } from 'zod';
 
 const createDomainSchema = z.object({
@@ -15,6 +16,7 @@ const createDomainSchema = z.object({
   businessName: z.string().max(200).optional(),
   city: z.string().max(100).optional(),
   state: z.string().length(2).optional(),
+  vertical: z.enum(VERTICAL_IDS).optional(),
 });
 
 /**
@@ -72,6 +74,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       businessName: validated.businessName,
       city: validated.city,
       state: validated.state,
+      vertical: validated.vertical,
     });
 
     return NextResponse.json({
@@ -5,6 +5,7 @@ import { Prisma } from '@prisma/client'
 import { createId } from '@paralleldrive/cuid2'
 import { BusinessModule } from '@/lib/dataforseo/modules/business'
 import { getDataForSEOClient } from '@/lib/dataforseo'
+import { runWithSpendContext } from '@/lib/dataforseo/spend-tracking'
 import {
   calculateCompletenessWithBreakdown,
   getCompletenessLabel,
@@ -15,6 +16,7 @@ import {
   updateGBPQADataByDomain,
   updateGBPReviewsDataByDomain,
 } from '@/lib/db/gbp-detailed-operations'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
 
 /**
  * POST /api/gbp/fetch
@@ -47,10 +49,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       )
     }
 
-    // Get domain info
-    const domain = await prisma.domains.findUnique({
-      where: { id: domainId },
-    })
+    // Get domain info (fetching spends API credits, so require analyst access)
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
 
     if (!domain) {
       return NextResponse.json(
@@ -79,11 +79,14 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     // Initialize DataForSEO client and fetch business info
     const businessModule = new BusinessModule(getDataForSEOClient())
-    const businessResults = await businessModule.getBusinessInfo({
-      keyword: searchQuery,
-      locationCode: 2840, // US
-      depth: 1, // Just need the top result
-    })
+    const spendContext = { tool: 'gbp' as const, domainId, userId: session.user.id }
+    const businessResults = await runWithSpendContext(spendContext, () =>
+      businessModule.getBusinessInfo({
+        keyword: searchQuery,
+        locationCode: 2840, // US
+        depth: 1, // Just need the top result
+      })
+    )
 
     const businessInfo = businessResults?.[0]
 
@@ -256,10 +259,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       // Fetch Posts (reduced timeout for serverless)
       try {
         console.log(`[GBP Fetch] Fetching posts for ${businessInfo.title} (cid:${gmbCid})...`)
-        const postsResult = await businessModule.fetchBusinessPosts({
+        const postsResult = await runWithSpendContext(spendContext, () => businessModule.fetchBusinessPosts({
           keyword: `cid:${gmbCid}`,
           depth: 10,
-        }, 60000) // 60 second timeout
+        }, 60000)) // 60 second timeout
 
         if (postsResult) {
           await updateGBPPostsDataByDomain(domainId, gmbCid, postsResult)
@@ -281,10 +284,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       // Fetch Q&A (reduced timeout for serverless)
       try {
         console.log(`[GBP Fetch] Fetching Q&A for ${businessInfo.title} (cid:${gmbCid})...`)
-        const qaResult = await businessModule.fetchBusinessQA({
+        const qaResult = await runWithSpendContext(spendContext, () => businessModule.fetchBusinessQA({
           keyword: `cid:${gmbCid}`,
           depth: 20,
-        }, 60000) // 60 second timeout
+        }, 60000)) // 60 second timeout
 
         if (qaResult) {
           await updateGBPQADataByDomain(domainId, gmbCid, qaResult)
@@ -306,11 +309,11 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       // Fetch Reviews (reduced timeout for serverless)
       try {
         console.log(`[GBP Fetch] Fetching reviews for ${businessInfo.title} (cid:${gmbCid})...`)
-        const reviewsResult = await businessModule.fetchBusinessReviews({
+        const reviewsResult = await runWithSpendContext(spendContext, () => businessModule.fetchBusinessReviews({
           keyword: `cid:${gmbCid}`,
           depth: 20,
           sortBy: 'newest',
-        }, 60000) // 60 second timeout
+        }, 60000)) // 60 second timeout
 
         if (reviewsResult) {
           await updateGBPReviewsDataByDomain(domainId, gmbCid, reviewsResult)
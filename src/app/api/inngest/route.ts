@@ -5,9 +5,13 @@ import { localSeoFunctions } from '@/lib/inngest/local-seo-functions'
 import { siteAuditFunctions } from '@/lib/inngest/site-audit-functions'
 import { keywordTrackingFunctions } from '@/lib/inngest/keyword-tracking-functions'
 import { aiSeoFunctions } from '@/lib/inngest/functions/ai-seo'
+import { alertFunctions } from '@/lib/inngest/alert-functions'
+import { reportFunctions } from '@/lib/inngest/report-functions'
+import { webhookFunctions } from '@/lib/inngest/webhook-functions'
+import { backlinkFunctions } from '@/lib/inngest/backlink-functions'
 
 // Inngest webhook handler for Next.js App Router
-// Registers all audit, local SEO, site audit, keyword tracking, and AI SEO functions for background processing
+// Registers all audit, local SEO, site audit, keyword tracking, AI SEO, alerting, report delivery, outbound webhook and backlink monitoring functions for background processing
 export const { GET, POST, PUT } = serve({
   client: inngest,
   functions: [
@@ -16,5 +20,9 @@ export const { GET, POST, PUT } = serve({
     ...siteAuditFunctions,
     ...keywordTrackingFunctions,
     ...aiSeoFunctions,
+    ...alertFunctions,
+    ...reportFunctions,
+    ...webhookFunctions,
+    ...backlinkFunctions,
   ],
 })
@@ -8,6 +8,7 @@
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
 import { inngest } from '@/lib/inngest'
 import {
   createKeywordTrackingRun,
@@ -58,13 +59,8 @@ export async function POST(request: Request): Promise<NextResponse> {
     const { domainId, locationName, languageCode } = parseResult.data
     const userId = session.user.id
 
-    // Verify domain ownership
-    const domain = await prisma.domains.findFirst({
-      where: {
-        id: domainId,
-        user_id: userId,
-      },
-    })
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, userId, 'ANALYST')
 
     if (!domain) {
       return NextResponse.json(
@@ -171,13 +167,8 @@ export async function GET(request: Request): Promise<NextResponse> {
 
     const { domainId, limit, offset } = parseResult.data
 
-    // Verify domain ownership
-    const domain = await prisma.domains.findFirst({
-      where: {
-        id: domainId,
-        user_id: session.user.id,
-      },
-    })
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id)
 
     if (!domain) {
       return NextResponse.json(
@@ -111,7 +111,7 @@ export async function DELETE(
     const { runId } = parseResult.data
 
     // Verify ownership
-    const run = await getRunForUser(runId, session.user.id)
+    const run = await getRunForUser(runId, session.user.id, 'ANALYST')
     if (!run) {
       return NextResponse.json(
         { success: false, error: 'Run not found' },
@@ -10,7 +10,7 @@
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { auth } from '@/lib/auth'
-import { prisma } from '@/lib/prisma'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
 import {
   getScheduleForDomain,
   createSchedule,
@@ -71,13 +71,8 @@ export async function GET(request: Request): Promise<NextResponse> {
       )
     }
 
-    // Verify domain ownership
-    const domain = await prisma.domains.findFirst({
-      where: {
-        id: domainId,
-        user_id: session.user.id,
-      },
-    })
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id)
 
     if (!domain) {
       return NextResponse.json(
@@ -139,13 +134,8 @@ export async function POST(request: Request): Promise<NextResponse> {
       languageCode,
     } = parseResult.data
 
-    // Verify domain ownership
-    const domain = await prisma.domains.findFirst({
-      where: {
-        id: domainId,
-        user_id: session.user.id,
-      },
-    })
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
 
     if (!domain) {
       return NextResponse.json(
@@ -242,13 +232,8 @@ export async function PATCH(request: Request): Promise<NextResponse> {
 
     const { domainId, ...updates } = parseResult.data
 
-    // Verify domain ownership
-    const domain = await prisma.domains.findFirst({
-      where: {
-        id: domainId,
-        user_id: session.user.id,
-      },
-    })
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
 
     if (!domain) {
       return NextResponse.json(
@@ -308,13 +293,8 @@ export async function DELETE(request: Request): Promise<NextResponse> {
       )
     }
 
-    // Verify domain ownership
-    const domain = await prisma.domains.findFirst({
-      where: {
-        id: domainId,
-        user_id: session.user.id,
-      },
-    })
+    // Verify domain access
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
 
     if (!domain) {
       return NextResponse.json(
@@ -0,0 +1,107 @@
+/**
+ * Scan Comparison API
+ *
+ * GET /api/local-seo/campaigns/[id]/compare - Per-point rank deltas between two scans
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { GridScanStatus } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import {
+  getCampaignForUser,
+  getGridScan,
+  getAllGridPoints,
+} from '@/lib/db/local-campaign-operations'
+import { compareGridScans, type ComparisonPoint } from '@/lib/local-seo/scan-comparison'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/local-seo/campaigns/[id]/compare
+ * Compare two completed scans of a campaign cell by cell
+ *
+ * Query params:
+ * - base, compare: Scan IDs (required). They're ordered by completion time,
+ *   so "improved" always means better in the later scan.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const { searchParams } = new URL(request.url)
+    const baseId = searchParams.get('base')
+    const compareId = searchParams.get('compare')
+    if (!baseId || !compareId || baseId === compareId) {
+      return NextResponse.json(
+        { success: false, error: 'Two different scan IDs are required' },
+        { status: 400 }
+      )
+    }
+
+    // Validate ownership
+    const ownership = await getCampaignForUser(id, session.user.id)
+    if (!ownership) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+    }
+
+    const [first, second] = await Promise.all([getGridScan(baseId), getGridScan(compareId)])
+    if (!first || !second || first.campaign_id !== id || second.campaign_id !== id) {
+      return NextResponse.json({ success: false, error: 'Scan not found' }, { status: 404 })
+    }
+    if (first.status !== GridScanStatus.COMPLETED || second.status !== GridScanStatus.COMPLETED) {
+      return NextResponse.json(
+        { success: false, error: 'Only completed scans can be compared' },
+        { status: 400 }
+      )
+    }
+
+    const scanTime = (scan: typeof first): number =>
+      (scan.completed_at ?? scan.created_at).getTime()
+    const [earlier, later] = scanTime(first) <= scanTime(second) ? [first, second] : [second, first]
+
+    const [earlierPoints, laterPoints] = await Promise.all([
+      getAllGridPoints(earlier.id),
+      getAllGridPoints(later.id),
+    ])
+    const toComparisonPoint = (point: (typeof earlierPoints)[number]): ComparisonPoint => ({
+      keyword: point.keyword,
+      row: point.grid_row,
+      col: point.grid_col,
+      lat: Number(point.lat),
+      lng: Number(point.lng),
+      rank: point.rank,
+    })
+
+    const comparison = compareGridScans(
+      earlierPoints.map(toComparisonPoint),
+      laterPoints.map(toComparisonPoint),
+      earlier.local_campaigns.grid_size
+    )
+
+    const formatScan = (scan: typeof earlier) => ({
+      id: scan.id,
+      completedAt: scan.completed_at,
+      avgRank: scan.avg_rank !== null ? Number(scan.avg_rank) : null,
+      shareOfVoice: scan.share_of_voice !== null ? Number(scan.share_of_voice) : null,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        baseScan: formatScan(earlier),
+        compareScan: formatScan(later),
+        ...comparison,
+      },
+    })
+  } catch (error) {
+    console.error('Error comparing scans:', error)
+    return NextResponse.json({ success: false, error: 'Failed to compare scans' }, { status: 500 })
+  }
+}
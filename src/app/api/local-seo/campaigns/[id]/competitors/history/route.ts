@@ -0,0 +1,58 @@
+/**
+ * Competitor History API
+ *
+ * GET /api/local-seo/campaigns/[id]/competitors/history - Competitor trajectories across scans
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getCampaignForUser, getCompetitorHistory } from '@/lib/db/local-campaign-operations'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+function clampParam(value: string | null, fallback: number, max: number): number {
+  const parsed = parseInt(value ?? '', 10)
+  return Number.isNaN(parsed) ? fallback : Math.min(Math.max(parsed, 1), max)
+}
+
+/**
+ * GET /api/local-seo/campaigns/[id]/competitors/history
+ * Get the top competitors' share of voice over recent scans, plus new
+ * entrants to the top 3 and competitors that dropped out of the results
+ *
+ * Query params:
+ * - top: Competitors to return trajectories for (default 5, max 20)
+ * - scans: Most recent completed scans to include (default 20, max 100)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    // Validate ownership
+    const ownership = await getCampaignForUser(id, session.user.id)
+    if (!ownership) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const history = await getCompetitorHistory(id, {
+      top: clampParam(searchParams.get('top'), 5, 20),
+      scanLimit: clampParam(searchParams.get('scans'), 20, 100),
+    })
+
+    return NextResponse.json({ success: true, data: history })
+  } catch (error) {
+    console.error('Error getting competitor history:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to get competitor history' },
+      { status: 500 }
+    )
+  }
+}
@@ -60,7 +60,7 @@ export async function POST(
     const { id } = await params
 
     // Validate ownership
-    const ownership = await getCampaignForUser(id, session.user.id)
+    const ownership = await getCampaignForUser(id, session.user.id, 'ANALYST')
     if (!ownership) {
       return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
     }
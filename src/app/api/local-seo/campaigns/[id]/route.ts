@@ -14,7 +14,9 @@ import {
   getCampaignForUser,
   updateLocalCampaign,
   deleteLocalCampaign,
+  campaignGridConfig,
 } from '@/lib/db/local-campaign-operations'
+import { countGridPoints, GRID_SHAPES, serviceAreaSchema } from '@/lib/local-seo'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -27,6 +29,8 @@ const updateCampaignSchema = z.object({
   status: z.enum(['ACTIVE', 'PAUSED', 'ARCHIVED']).optional(),
   scanFrequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
   gridRadiusMiles: z.number().min(1).max(25).optional(),
+  gridShape: z.enum(GRID_SHAPES).optional(),
+  serviceArea: serviceAreaSchema.nullable().optional(),
 })
 
 /**
@@ -72,6 +76,9 @@ export async function GET(
         centerLng: Number(campaign.center_lng),
         gridSize: campaign.grid_size,
         gridRadiusMiles: Number(campaign.grid_radius_miles),
+        gridShape: campaign.grid_shape,
+        serviceArea: campaign.service_area,
+        gridPointCount: countGridPoints(campaignGridConfig(campaign)),
         keywords: campaign.keywords,
         status: campaign.status,
         scanFrequency: campaign.scan_frequency,
@@ -130,7 +137,7 @@ export async function PUT(
     const { id } = await params
 
     // Validate ownership
-    const ownership = await getCampaignForUser(id, session.user.id)
+    const ownership = await getCampaignForUser(id, session.user.id, 'ANALYST')
     if (!ownership) {
       return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
     }
@@ -149,7 +156,23 @@ export async function PUT(
       )
     }
 
-    await updateLocalCampaign(id, validationResult.data)
+    // Reject layouts whose service area leaves no points to scan
+    const input = validationResult.data
+    try {
+      countGridPoints({
+        ...campaignGridConfig(ownership),
+        ...(input.gridRadiusMiles && { radiusMiles: input.gridRadiusMiles }),
+        ...(input.gridShape && { shape: input.gridShape }),
+        ...(input.serviceArea !== undefined && { serviceArea: input.serviceArea }),
+      })
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid grid' },
+        { status: 400 }
+      )
+    }
+
+    await updateLocalCampaign(id, input)
 
     return NextResponse.json({
       success: true,
@@ -181,7 +204,7 @@ export async function DELETE(
     const { id } = await params
 
     // Validate ownership
-    const ownership = await getCampaignForUser(id, session.user.id)
+    const ownership = await getCampaignForUser(id, session.user.id, 'ANALYST')
     if (!ownership) {
       return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
     }
@@ -7,9 +7,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { z } from 'zod'
-import { getCampaignForUser } from '@/lib/db/local-campaign-operations'
+import { campaignGridConfig, getCampaignForUser } from '@/lib/db/local-campaign-operations'
 import { inngest } from '@/lib/inngest'
-import { estimateScanCost } from '@/lib/local-seo'
+import { countGridPoints, estimateScanCost } from '@/lib/local-seo'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -37,7 +37,7 @@ export async function POST(
     const { id } = await params
 
     // Validate ownership and get campaign
-    const campaign = await getCampaignForUser(id, session.user.id)
+    const campaign = await getCampaignForUser(id, session.user.id, 'ANALYST')
     if (!campaign) {
       return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
     }
@@ -75,7 +75,10 @@ export async function POST(
     }
 
     // Calculate cost estimate
-    const costEstimate = estimateScanCost(campaign.grid_size, keywords.length)
+    const costEstimate = estimateScanCost(
+      countGridPoints(campaignGridConfig(campaign)),
+      keywords.length
+    )
 
     // Trigger the scan via Inngest
     await inngest.send({
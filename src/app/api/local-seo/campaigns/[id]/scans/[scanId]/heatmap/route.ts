@@ -0,0 +1,143 @@
+/**
+ * Rank Heatmap Export API
+ *
+ * GET /api/local-seo/campaigns/[id]/scans/[scanId]/heatmap - Interpolated rank
+ * surface for one keyword as GeoJSON, KML or a PNG overlay
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import {
+  getCampaignForUser,
+  getGridScan,
+  getGridPointsForKeyword,
+} from '@/lib/db/local-campaign-operations'
+import { serviceAreaSchema } from '@/lib/local-seo/grid-calculator'
+import {
+  interpolateRankSurface,
+  renderSurfacePng,
+  surfaceToGeoJson,
+  surfaceToKml,
+  type HeatmapSample,
+} from '@/lib/local-seo/heatmap'
+
+interface RouteParams {
+  params: Promise<{ id: string; scanId: string }>
+}
+
+const querySchema = z.object({
+  keyword: z.string().min(1, 'Keyword is required'),
+  format: z.enum(['geojson', 'kml', 'png']).default('geojson'),
+})
+
+/**
+ * Vector formats get one feature per cell, so they use a coarser surface
+ */
+const RESOLUTION = { geojson: 48, kml: 48, png: 256 } as const
+
+/**
+ * GET /api/local-seo/campaigns/[id]/scans/[scanId]/heatmap
+ * Download the interpolated rank surface for a keyword
+ *
+ * Query params:
+ * - keyword: Keyword to render (required)
+ * - format: geojson (default), kml or png. PNG bounds are returned in the
+ *   X-Heatmap-Bounds header as north,south,east,west.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, scanId } = await params
+
+    const { searchParams } = new URL(request.url)
+    const parseResult = querySchema.safeParse({
+      keyword: searchParams.get('keyword') ?? undefined,
+      format: searchParams.get('format') ?? undefined,
+    })
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+    const { keyword, format } = parseResult.data
+
+    // Validate ownership
+    const ownership = await getCampaignForUser(id, session.user.id)
+    if (!ownership) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+    }
+
+    const scan = await getGridScan(scanId)
+    if (!scan || scan.campaign_id !== id) {
+      return NextResponse.json({ success: false, error: 'Scan not found' }, { status: 404 })
+    }
+
+    const gridPoints = await getGridPointsForKeyword(scanId, keyword)
+    if (gridPoints.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No grid points for this keyword' },
+        { status: 404 }
+      )
+    }
+
+    const samples: HeatmapSample[] = gridPoints.map((point) => ({
+      lat: Number(point.lat),
+      lng: Number(point.lng),
+      rank: point.rank,
+    }))
+    const serviceArea = serviceAreaSchema.safeParse(scan.local_campaigns.service_area)
+    const surface = interpolateRankSurface(samples, {
+      resolution: RESOLUTION[format],
+      serviceArea: serviceArea.success ? serviceArea.data : null,
+    })
+
+    // Generate filename with business, keyword and scan date
+    const slug = (value: string): string => value.replace(/[^a-zA-Z0-9]+/g, '-').toLowerCase()
+    const date = (scan.completed_at ?? scan.created_at).toISOString().split('T')[0]
+    const filename = `heatmap-${slug(scan.local_campaigns.business_name)}-${slug(keyword)}-${date}.${format}`
+    const disposition = `attachment; filename="${filename}"`
+
+    if (format === 'png') {
+      return new NextResponse(new Uint8Array(renderSurfacePng(surface)), {
+        status: 200,
+        headers: {
+          'Content-Type': 'image/png',
+          'Content-Disposition': disposition,
+          'X-Heatmap-Bounds': [surface.north, surface.south, surface.east, surface.west].join(','),
+        },
+      })
+    }
+
+    if (format === 'kml') {
+      const title = `${scan.local_campaigns.business_name} - ${keyword} (${date})`
+      return new NextResponse(surfaceToKml(surface, samples, title), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/vnd.google-earth.kml+xml; charset=utf-8',
+          'Content-Disposition': disposition,
+        },
+      })
+    }
+
+    return new NextResponse(JSON.stringify(surfaceToGeoJson(surface, samples, keyword)), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/geo+json; charset=utf-8',
+        'Content-Disposition': disposition,
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting heatmap:', error)
+    return NextResponse.json({ success: false, error: 'Failed to export heatmap' }, { status: 500 })
+  }
+}
@@ -13,22 +13,34 @@ import {
   listUserCampaigns,
   countUserCampaigns,
 } from '@/lib/db/local-campaign-operations'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { getBusinessLocationForUser } from '@/lib/db/business-location-operations'
 import { inngest } from '@/lib/inngest'
-import { estimateScanCost } from '@/lib/local-seo'
-
-// Validation schema for creating a campaign
-const createCampaignSchema = z.object({
-  businessName: z.string().min(1).max(200),
-  gmbPlaceId: z.string().max(100).optional(),
-  gmbCid: z.string().max(50).optional(),
-  centerLat: z.number().min(-90).max(90),
-  centerLng: z.number().min(-180).max(180),
-  gridSize: z.number().int().min(3).max(11).default(7),
-  gridRadiusMiles: z.number().min(1).max(25).default(5),
-  keywords: z.array(z.string().min(1).max(100)).min(1).max(10),
-  scanFrequency: z.enum(['daily', 'weekly', 'monthly']).default('weekly'),
-  triggerInitialScan: z.boolean().default(true),
-})
+import { estimateScanCost, countGridPoints, GRID_SHAPES, serviceAreaSchema } from '@/lib/local-seo'
+
+// Validation schema for creating a campaign. A location supplies the center
+// and GBP identifiers when they're not given explicitly.
+const createCampaignSchema = z
+  .object({
+    domainId: z.string().optional(),
+    locationId: z.string().optional(),
+    businessName: z.string().min(1).max(200),
+    gmbPlaceId: z.string().max(100).optional(),
+    gmbCid: z.string().max(50).optional(),
+    centerLat: z.number().min(-90).max(90).optional(),
+    centerLng: z.number().min(-180).max(180).optional(),
+    gridSize: z.number().int().min(3).max(11).default(7),
+    gridRadiusMiles: z.number().min(1).max(25).default(5),
+    gridShape: z.enum(GRID_SHAPES).default('square'),
+    serviceArea: serviceAreaSchema.nullable().optional(),
+    keywords: z.array(z.string().min(1).max(100)).min(1).max(10),
+    scanFrequency: z.enum(['daily', 'weekly', 'monthly']).default('weekly'),
+    triggerInitialScan: z.boolean().default(true),
+  })
+  .refine((data) => !data.locationId || data.domainId, {
+    message: 'A location requires a domain',
+    path: ['locationId'],
+  })
 
 /**
  * GET /api/local-seo/campaigns
@@ -103,18 +115,63 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     const input = validationResult.data
 
-    // Calculate cost estimate
-    const costEstimate = estimateScanCost(input.gridSize, input.keywords.length)
+    // Verify the user can create campaigns for this domain
+    if (input.domainId) {
+      const domain = await findAccessibleDomain(input.domainId, session.user.id, 'ANALYST')
+      if (!domain) {
+        return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+      }
+    }
+
+    // Campaigns for a location must stay within the location's domain
+    const location = input.locationId
+      ? await getBusinessLocationForUser(input.locationId, session.user.id, 'ANALYST')
+      : null
+    if (input.locationId && location?.domainId !== input.domainId) {
+      return NextResponse.json({ success: false, error: 'Location not found' }, { status: 404 })
+    }
+
+    const centerLat = input.centerLat ?? location?.lat
+    const centerLng = input.centerLng ?? location?.lng
+    if (centerLat === undefined || centerLng === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'Center coordinates are required without a location' },
+        { status: 400 }
+      )
+    }
+
+    // Calculate cost estimate from the points the shape and service area leave
+    let pointCount: number
+    try {
+      pointCount = countGridPoints({
+        centerLat,
+        centerLng,
+        gridSize: input.gridSize,
+        radiusMiles: input.gridRadiusMiles,
+        shape: input.gridShape,
+        serviceArea: input.serviceArea,
+      })
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid grid' },
+        { status: 400 }
+      )
+    }
+    const costEstimate = estimateScanCost(pointCount, input.keywords.length)
 
     // Create the campaign
     const campaignId = await createLocalCampaign(session.user.id, {
+      domainId: input.domainId,
+      locationId: location?.id,
       businessName: input.businessName,
-      gmbPlaceId: input.gmbPlaceId,
-      gmbCid: input.gmbCid,
-      centerLat: input.centerLat,
-      centerLng: input.centerLng,
+      gmbPlaceId: input.gmbPlaceId ?? location?.gmbPlaceId ?? undefined,
+      gmbCid: input.gmbCid ?? location?.gmbCid ?? undefined,
+      centerLat,
+      centerLng,
       gridSize: input.gridSize,
       gridRadiusMiles: input.gridRadiusMiles,
+      gridShape: input.gridShape,
+      serviceArea: input.serviceArea,
       keywords: input.keywords,
       scanFrequency: input.scanFrequency,
     })
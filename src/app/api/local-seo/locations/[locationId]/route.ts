@@ -0,0 +1,101 @@
+/**
+ * Business Location API
+ *
+ * PATCH - Update a location
+ * DELETE - Delete a location, unlinking its campaigns
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import {
+  getBusinessLocationForUser,
+  updateBusinessLocation,
+  deleteBusinessLocation,
+} from '@/lib/db/business-location-operations'
+
+interface RouteParams {
+  params: Promise<{ locationId: string }>
+}
+
+const updateLocationSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  address: z.string().trim().max(500).nullable().optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+  gmbCid: z.string().trim().max(50).nullable().optional(),
+  gmbPlaceId: z.string().trim().max(100).nullable().optional(),
+})
+
+/**
+ * PATCH /api/local-seo/locations/[locationId]
+ * Update a location
+ */
+export async function PATCH(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { locationId } = await params
+    const body = await request.json()
+    const parseResult = updateLocationSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const existing = await getBusinessLocationForUser(locationId, session.user.id, 'ANALYST')
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Location not found' }, { status: 404 })
+    }
+
+    const location = await updateBusinessLocation(locationId, parseResult.data)
+
+    return NextResponse.json({ success: true, data: location })
+  } catch (error) {
+    console.error('Error updating location:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update location' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/local-seo/locations/[locationId]
+ * Delete a location. Its campaigns are kept.
+ */
+export async function DELETE(_request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { locationId } = await params
+
+    const existing = await getBusinessLocationForUser(locationId, session.user.id, 'ANALYST')
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Location not found' }, { status: 404 })
+    }
+
+    await deleteBusinessLocation(locationId)
+
+    return NextResponse.json({ success: true, message: 'Location deleted' })
+  } catch (error) {
+    console.error('Error deleting location:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete location' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Multi-Location Roll-Up API
+ *
+ * GET - Combined metrics and cannibalisation across a domain's locations
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { getLocationRollup } from '@/lib/db/business-location-operations'
+
+/**
+ * GET /api/local-seo/locations/rollup?domainId=X
+ * Roll up the latest scan of every location campaign in a domain
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const domainId = new URL(request.url).searchParams.get('domainId')
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'Domain ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const rollup = await getLocationRollup(domainId)
+
+    return NextResponse.json({ success: true, data: rollup })
+  } catch (error) {
+    console.error('Error building location roll-up:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to build location roll-up' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Business Locations API
+ *
+ * GET - List a domain's locations
+ * POST - Add a location to a domain
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import {
+  listBusinessLocations,
+  createBusinessLocation,
+} from '@/lib/db/business-location-operations'
+
+const createLocationSchema = z.object({
+  domainId: z.string().min(1, 'Domain ID is required'),
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  address: z.string().trim().max(500).nullable().optional(),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  gmbCid: z.string().trim().max(50).nullable().optional(),
+  gmbPlaceId: z.string().trim().max(100).nullable().optional(),
+})
+
+/**
+ * GET /api/local-seo/locations?domainId=X
+ * List a domain's locations
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const domainId = new URL(request.url).searchParams.get('domainId')
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'Domain ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const locations = await listBusinessLocations(domainId)
+
+    return NextResponse.json({ success: true, data: locations })
+  } catch (error) {
+    console.error('Error listing locations:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list locations' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/local-seo/locations
+ * Add a location to a domain
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = createLocationSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, ...input } = parseResult.data
+
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const location = await createBusinessLocation(domainId, input)
+
+    return NextResponse.json({ success: true, data: location }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating location:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create location' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * POST /api/reports/digests/[digestId]/resend
+ * Send a stored digest again to its original recipients
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { inngest } from '@/lib/inngest'
+import { getReportDigestForUser, queueDigestResend } from '@/lib/db/report-operations'
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ digestId: string }> }
+): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { digestId } = await params
+    const digest = await getReportDigestForUser(digestId, session.user.id, 'ANALYST')
+    if (!digest) {
+      return NextResponse.json({ success: false, error: 'Digest not found' }, { status: 404 })
+    }
+
+    if (digest.status === 'PENDING') {
+      return NextResponse.json(
+        { success: false, error: 'Digest is already queued for delivery' },
+        { status: 409 }
+      )
+    }
+
+    const queued = await queueDigestResend(digestId)
+    await inngest.send({ name: 'reports/digest.send', data: { digestId } })
+
+    return NextResponse.json({ success: true, data: queued })
+  } catch (error) {
+    console.error('Error resending report digest:', error)
+    return NextResponse.json({ success: false, error: 'Failed to resend digest' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * GET /api/reports/digests/[digestId]
+ * Get a stored digest, including the email exactly as it was sent
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getReportDigestForUser } from '@/lib/db/report-operations'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ digestId: string }> }
+): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { digestId } = await params
+    const digest = await getReportDigestForUser(digestId, session.user.id)
+    if (!digest) {
+      return NextResponse.json({ success: false, error: 'Digest not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: digest })
+  } catch (error) {
+    console.error('Error fetching report digest:', error)
+    return NextResponse.json({ success: false, error: 'Failed to fetch digest' }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * GET /api/reports/digests?domainId=X
+ * List the email digests compiled for a domain, newest first
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { listReportDigests } from '@/lib/db/report-operations'
+
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const domainId = searchParams.get('domainId')
+
+    if (!domainId) {
+      return NextResponse.json({ success: false, error: 'Domain ID is required' }, { status: 400 })
+    }
+
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const digests = await listReportDigests(domainId)
+
+    return NextResponse.json({ success: true, data: digests })
+  } catch (error) {
+    console.error('Error listing report digests:', error)
+    return NextResponse.json({ success: false, error: 'Failed to list digests' }, { status: 500 })
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * GET /api/reports/pdf
+ * Download a white-label PDF report for a domain
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { collectReportData } from '@/lib/db/report-operations'
+import { renderReportPdf } from '@/lib/reports/pdf'
+import { REPORT_SECTIONS } from '@/lib/reports/types'
+
+const querySchema = z
+  .object({
+    domainId: z.string().min(1, 'Domain ID is required'),
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    sections: z
+      .string()
+      .optional()
+      .transform((value) => (value ? value.split(',') : [...REPORT_SECTIONS]))
+      .pipe(z.array(z.enum(REPORT_SECTIONS)).min(1, 'Select at least one section')),
+  })
+  .refine((query) => query.from <= query.to, {
+    message: 'Start date must be before end date',
+    path: ['from'],
+  })
+
+/**
+ * GET /api/reports/pdf?domainId=X&from=YYYY-MM-DD&to=YYYY-MM-DD&sections=audit,gbp
+ * `sections` defaults to every section, rendered in the standard order.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const parseResult = querySchema.safeParse(Object.fromEntries(searchParams))
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, from, sections } = parseResult.data
+    // Include the whole end day
+    const to = new Date(parseResult.data.to.getTime() + 24 * 60 * 60 * 1000 - 1)
+
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const data = await collectReportData(domainId, {
+      from,
+      to,
+      sections: REPORT_SECTIONS.filter((section) => sections.includes(section)),
+    })
+    if (!data) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const pdf = renderReportPdf(data)
+
+    const slug = data.domain.domain.replace(/[^a-zA-Z0-9]/g, '-')
+    const filename = `seo-report-${slug}-${parseResult.data.to.toISOString().split('T')[0]}.pdf`
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error generating report PDF:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate report' },
+      { status: 500 }
+    )
+  }
+}
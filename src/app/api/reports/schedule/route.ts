@@ -0,0 +1,241 @@
+/**
+ * Report Schedule API
+ *
+ * GET - Get the email digest schedule for a domain
+ * POST - Create a schedule
+ * PATCH - Update a schedule
+ * DELETE - Delete a schedule
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import {
+  createReportSchedule,
+  deleteReportSchedule,
+  getReportSchedule,
+  updateReportSchedule,
+} from '@/lib/db/report-operations'
+import { DIGEST_SECTIONS } from '@/lib/reports/types'
+
+const recipientsSchema = z
+  .array(z.string().email('Invalid email address'))
+  .min(1, 'Add at least one recipient')
+  .max(20)
+
+const sectionsSchema = z.array(z.enum(DIGEST_SECTIONS)).min(1, 'Select at least one section')
+
+const createScheduleSchema = z.object({
+  domainId: z.string().min(1, 'Domain ID is required'),
+  frequency: z.enum(['weekly', 'biweekly', 'monthly']).default('monthly'),
+  dayOfWeek: z.number().int().min(0).max(6).optional(), // 0 = Sunday
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  timeOfDay: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional()
+    .default('08:00'),
+  recipients: recipientsSchema,
+  sections: sectionsSchema.default([...DIGEST_SECTIONS]),
+})
+
+const updateScheduleSchema = z.object({
+  domainId: z.string().min(1, 'Domain ID is required'),
+  isEnabled: z.boolean().optional(),
+  frequency: z.enum(['weekly', 'biweekly', 'monthly']).optional(),
+  dayOfWeek: z.number().int().min(0).max(6).nullable().optional(),
+  dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+  timeOfDay: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional(),
+  recipients: recipientsSchema.optional(),
+  sections: sectionsSchema.optional(),
+})
+
+/**
+ * GET /api/reports/schedule?domainId=X
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const domainId = searchParams.get('domainId')
+
+    if (!domainId) {
+      return NextResponse.json({ success: false, error: 'Domain ID is required' }, { status: 400 })
+    }
+
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const schedule = await getReportSchedule(domainId)
+
+    return NextResponse.json({
+      success: true,
+      data: schedule, // null if no schedule exists
+    })
+  } catch (error) {
+    console.error('Error getting report schedule:', error)
+    return NextResponse.json({ success: false, error: 'Failed to get schedule' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/reports/schedule
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = createScheduleSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, ...input } = parseResult.data
+
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const existing = await getReportSchedule(domainId)
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule already exists. Use PATCH to update.' },
+        { status: 409 }
+      )
+    }
+
+    if (input.frequency !== 'monthly' && input.dayOfWeek === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'dayOfWeek is required for weekly/biweekly schedules' },
+        { status: 400 }
+      )
+    }
+
+    const schedule = await createReportSchedule(domainId, session.user.id, {
+      ...input,
+      // Monthly digests go out on the 1st unless a day is chosen
+      dayOfMonth: input.frequency === 'monthly' ? (input.dayOfMonth ?? 1) : input.dayOfMonth,
+    })
+
+    return NextResponse.json({ success: true, data: schedule }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating report schedule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/reports/schedule
+ */
+export async function PATCH(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = updateScheduleSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, ...updates } = parseResult.data
+
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const existing = await getReportSchedule(domainId)
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found. Use POST to create.' },
+        { status: 404 }
+      )
+    }
+
+    const schedule = await updateReportSchedule(domainId, updates)
+
+    return NextResponse.json({ success: true, data: schedule })
+  } catch (error) {
+    console.error('Error updating report schedule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/reports/schedule?domainId=X
+ */
+export async function DELETE(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const domainId = searchParams.get('domainId')
+
+    if (!domainId) {
+      return NextResponse.json({ success: false, error: 'Domain ID is required' }, { status: 400 })
+    }
+
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const existing = await getReportSchedule(domainId)
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Schedule not found' }, { status: 404 })
+    }
+
+    await deleteReportSchedule(domainId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting report schedule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete schedule' },
+      { status: 500 }
+    )
+  }
+}
@@ -14,6 +14,7 @@ import {
   getUserKeywordAudits,
 } from '@/lib/db/keyword-audit-operations'
 import { gatherKeywordOptimizationData } from '@/lib/seo/keyword-optimization-service'
+import { getDomainVerticalPack } from '@/lib/db/domain-operations'
 import { generateKeywordOptimizationReport } from '@/lib/seo/report-generator'
 
 /**
@@ -93,7 +94,8 @@ export async function POST(request: Request): Promise<NextResponse> {
     try {
       // Step 1: Gather data from DataForSEO
       console.log(`[SEO Audit] Gathering data for ${url} - "${targetKeyword}"`)
-      const data = await gatherKeywordOptimizationData(url, targetKeyword, locationName)
+      const vertical = await getDomainVerticalPack(domainId)
+      const data = await gatherKeywordOptimizationData(url, targetKeyword, locationName, vertical)
 
       // Save the raw data
       await saveKeywordAuditData(auditId, data)
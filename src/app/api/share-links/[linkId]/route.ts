@@ -0,0 +1,35 @@
+/**
+ * DELETE /api/share-links/[linkId]
+ * Revoke a share link. The link stays listed with its view count.
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { revokeShareLink, ShareLinkError } from '@/lib/db/share-link-operations'
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ linkId: string }> }
+): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { linkId } = await params
+    const link = await revokeShareLink(linkId, session.user.id)
+
+    return NextResponse.json({ success: true, data: link })
+  } catch (error) {
+    if (error instanceof ShareLinkError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error revoking share link:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke share link' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Share Links API
+ *
+ * GET /api/share-links?domainId=X[&resourceType=Y&resourceId=Z] - List share links
+ * POST /api/share-links - Create a public read-only link (ANALYST)
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { findAccessibleDomain } from '@/lib/db/workspace-operations'
+import { createShareLink, listShareLinks, ShareLinkError } from '@/lib/db/share-link-operations'
+
+const resourceTypeSchema = z.enum(['DASHBOARD', 'KEYWORD_RUN', 'GRID_SCAN', 'AI_SEO_RUN'])
+
+const listQuerySchema = z.object({
+  domainId: z.string().min(1, 'Domain ID is required'),
+  resourceType: resourceTypeSchema.optional(),
+  resourceId: z.string().min(1).optional(),
+})
+
+const createShareLinkSchema = z
+  .object({
+    domainId: z.string().min(1, 'Domain ID is required'),
+    resourceType: resourceTypeSchema,
+    resourceId: z.string().min(1).optional(),
+    label: z.string().trim().max(200).optional(),
+    expiresInDays: z.number().int().min(1).max(365),
+  })
+  .refine((input) => input.resourceType === 'DASHBOARD' || input.resourceId, {
+    message: 'Resource ID is required',
+    path: ['resourceId'],
+  })
+
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const parseResult = listQuerySchema.safeParse(Object.fromEntries(searchParams))
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, resourceType, resourceId } = parseResult.data
+
+    const domain = await findAccessibleDomain(domainId, session.user.id)
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const links = await listShareLinks(
+      domainId,
+      resourceType ? { type: resourceType, id: resourceId } : undefined
+    )
+
+    return NextResponse.json({ success: true, data: links })
+  } catch (error) {
+    console.error('Error listing share links:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list share links' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = createShareLinkSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, ...input } = parseResult.data
+
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST')
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 })
+    }
+
+    const link = await createShareLink(domainId, session.user.id, input)
+
+    return NextResponse.json({ success: true, data: link }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ShareLinkError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error creating share link:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create share link' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Custom Site Audit Rule API
+ *
+ * PATCH - Update a custom rule
+ * DELETE - Delete a custom rule
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import {
+  getSiteAuditRuleForUser,
+  updateSiteAuditRule,
+  deleteSiteAuditRule,
+} from '@/lib/db/site-audit-rule-operations';
+import { siteAuditRuleConditionsSchema } from '@/lib/seo/site-audit-rules';
+
+interface RouteParams {
+  params: Promise<{ ruleId: string }>;
+}
+
+const updateRuleSchema = z.object({
+  message: z.string().trim().min(1).max(500).optional(),
+  severity: z.enum(['error', 'warning', 'notice']).optional(),
+  conditions: siteAuditRuleConditionsSchema.optional(),
+  isEnabled: z.boolean().optional(),
+});
+
+/**
+ * PATCH /api/site-audit/rules/[ruleId]
+ * Update a custom rule
+ */
+export async function PATCH(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { ruleId } = await params;
+    const body = await request.json();
+    const parseResult = updateRuleSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getSiteAuditRuleForUser(ruleId, session.user.id, 'ANALYST');
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Rule not found' }, { status: 404 });
+    }
+
+    const rule = await updateSiteAuditRule(ruleId, parseResult.data);
+
+    return NextResponse.json({ success: true, data: rule });
+  } catch (error) {
+    console.error('Error updating site audit rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update site audit rule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/site-audit/rules/[ruleId]
+ * Delete a custom rule. Past crawls keep their matches.
+ */
+export async function DELETE(_request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { ruleId } = await params;
+
+    const existing = await getSiteAuditRuleForUser(ruleId, session.user.id, 'ANALYST');
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Rule not found' }, { status: 404 });
+    }
+
+    await deleteSiteAuditRule(ruleId);
+
+    return NextResponse.json({ success: true, message: 'Rule deleted' });
+  } catch (error) {
+    console.error('Error deleting site audit rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete site audit rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Custom Site Audit Rules API
+ *
+ * GET - List custom rules for a domain
+ * POST - Create a custom rule
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { findAccessibleDomain } from '@/lib/db/workspace-operations';
+import { listSiteAuditRules, createSiteAuditRule } from '@/lib/db/site-audit-rule-operations';
+import { siteAuditRuleConditionsSchema } from '@/lib/seo/site-audit-rules';
+
+const createRuleSchema = z.object({
+  domainId: z.string().min(1, 'Domain ID is required'),
+  message: z.string().trim().min(1, 'Message is required').max(500),
+  severity: z.enum(['error', 'warning', 'notice']),
+  conditions: siteAuditRuleConditionsSchema,
+  isEnabled: z.boolean().optional(),
+});
+
+/**
+ * GET /api/site-audit/rules?domainId=X
+ * List custom rules for a domain
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const domainId = new URL(request.url).searchParams.get('domainId');
+    if (!domainId) {
+      return NextResponse.json({ success: false, error: 'Domain ID is required' }, { status: 400 });
+    }
+
+    const domain = await findAccessibleDomain(domainId, session.user.id);
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 });
+    }
+
+    const rules = await listSiteAuditRules(domainId);
+
+    return NextResponse.json({ success: true, data: rules });
+  } catch (error) {
+    console.error('Error listing site audit rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list site audit rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/site-audit/rules
+ * Create a custom rule, applied from the domain's next crawl
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parseResult = createRuleSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { domainId, ...input } = parseResult.data;
+
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST');
+    if (!domain) {
+      return NextResponse.json({ success: false, error: 'Domain not found' }, { status: 404 });
+    }
+
+    const rule = await createSiteAuditRule(domainId, session.user.id, input);
+
+    return NextResponse.json({ success: true, data: rule }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating site audit rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create site audit rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+// GET /api/site-audit/scans/[scanId]/compare - Diff this scan against an earlier crawl
+
+import { NextResponse } from 'next/server';
+import { SiteAuditStatus } from '@prisma/client';
+import { auth } from '@/lib/auth';
+import {
+  getScanForUser,
+  getPreviousCompletedScan,
+  compareScans,
+} from '@/lib/db/site-audit-operations';
+
+interface RouteParams {
+  params: Promise<{ scanId: string }>;
+}
+
+/**
+ * GET /api/site-audit/scans/[scanId]/compare?baseScanId=X
+ * Compare a scan with a base scan. Without baseScanId, the previous
+ * completed scan of the same domain is used.
+ */
+export async function GET(
+  request: Request,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { scanId } = await params;
+    const userId = session.user.id;
+    const { searchParams } = new URL(request.url);
+
+    const target = await getScanForUser(scanId, userId);
+    if (!target) {
+      return NextResponse.json(
+        { success: false, error: 'Scan not found' },
+        { status: 404 }
+      );
+    }
+
+    let baseScanId = searchParams.get('baseScanId');
+    if (!baseScanId) {
+      const previous = await getPreviousCompletedScan(scanId);
+      if (!previous) {
+        return NextResponse.json(
+          { success: false, error: 'No earlier completed scan to compare with' },
+          { status: 404 }
+        );
+      }
+      baseScanId = previous.id;
+    }
+
+    if (baseScanId === scanId) {
+      return NextResponse.json(
+        { success: false, error: 'Choose a different scan to compare with' },
+        { status: 400 }
+      );
+    }
+
+    const base = await getScanForUser(baseScanId, userId);
+    if (!base) {
+      return NextResponse.json(
+        { success: false, error: 'Base scan not found' },
+        { status: 404 }
+      );
+    }
+
+    if (
+      base.status !== SiteAuditStatus.COMPLETED ||
+      target.status !== SiteAuditStatus.COMPLETED
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Both scans must be completed to compare' },
+        { status: 400 }
+      );
+    }
+
+    if (base.domain !== target.domain) {
+      return NextResponse.json(
+        { success: false, error: 'Scans must belong to the same domain' },
+        { status: 400 }
+      );
+    }
+
+    // Always diff older -> newer regardless of argument order
+    const [older, newer] =
+      base.created_at <= target.created_at ? [base, target] : [target, base];
+
+    const comparison = await compareScans(older, newer);
+
+    return NextResponse.json({
+      success: true,
+      data: comparison,
+    });
+  } catch (error) {
+    console.error('Error comparing site audit scans:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to compare scans' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+// GET /api/site-audit/scans/[scanId]/links - Get the internal link graph report
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getScanForUser } from '@/lib/db/site-audit-operations';
+import { getSiteAuditLinkGraph } from '@/lib/db/site-audit-link-operations';
+import { getDomainThresholdProfile } from '@/lib/db/threshold-profile-operations';
+
+interface RouteParams {
+  params: Promise<{ scanId: string }>;
+}
+
+/**
+ * GET /api/site-audit/scans/[scanId]/links
+ * Get link metrics per page, orphan and underlinked pages, click depth
+ * distribution and anchor text per target page
+ */
+export async function GET(_request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { scanId } = await params;
+    const userId = session.user.id;
+
+    // Verify user owns this scan
+    const scan = await getScanForUser(scanId, userId);
+    if (!scan) {
+      return NextResponse.json({ success: false, error: 'Scan not found' }, { status: 404 });
+    }
+
+    // Underlinked pages use the domain's threshold profile
+    const { thresholds } = await getDomainThresholdProfile(scan.domain_id);
+    const report = await getSiteAuditLinkGraph(scanId, thresholds.links.minInternalLinks);
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Error fetching link graph:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch link graph' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,7 @@ import {
   getScanForUser,
   deleteScan,
   getSiteAuditSummary,
+  getIssueDistribution,
 } from '@/lib/db/site-audit-operations';
 
 interface RouteParams {
@@ -53,8 +54,9 @@ export async function GET(
       );
     }
 
-    // Get summary if available
+    // Get summary and per-issue page counts if available
     const summary = await getSiteAuditSummary(scanId);
+    const distribution = summary ? await getIssueDistribution(scanId) : null;
 
     return NextResponse.json({
       success: true,
@@ -75,6 +77,8 @@ export async function GET(
         createdAt: fullScan.createdAt,
         updatedAt: fullScan.updatedAt,
         auditId: fullScan.auditId,
+        customRules: fullScan.customRules,
+        issueTypes: distribution?.issueTypes ?? {},
         summary: summary
           ? {
               totalPages: summary.totalPages,
@@ -133,8 +137,8 @@ export async function DELETE(
     const { scanId } = await params;
     const userId = session.user.id;
 
-    // Verify user owns this scan
-    const scan = await getScanForUser(scanId, userId);
+    // Verify user can modify this scan
+    const scan = await getScanForUser(scanId, userId, 'ANALYST');
     if (!scan) {
       return NextResponse.json(
         { success: false, error: 'Scan not found' },
@@ -0,0 +1,47 @@
+// GET /api/site-audit/scans/[scanId]/sitemap - Get the sitemap and robots.txt audit
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getScanForUser } from '@/lib/db/site-audit-operations';
+import { getSiteAuditSitemapReport } from '@/lib/db/site-audit-sitemap-operations';
+
+interface RouteParams {
+  params: Promise<{ scanId: string }>;
+}
+
+/**
+ * GET /api/site-audit/scans/[scanId]/sitemap
+ * Get sitemap URLs that redirect, error or aren't indexable, indexable pages
+ * missing from the sitemap and important URLs blocked by robots.txt
+ */
+export async function GET(_request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { scanId } = await params;
+    const userId = session.user.id;
+
+    // Verify user owns this scan
+    const scan = await getScanForUser(scanId, userId);
+    if (!scan) {
+      return NextResponse.json({ success: false, error: 'Scan not found' }, { status: 404 });
+    }
+
+    const report = await getSiteAuditSitemapReport(scanId);
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Error fetching sitemap audit:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch sitemap audit' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+// GET /api/site-audit/scans/[scanId]/structured-data - Validate structured data
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getScanForUser, getStructuredDataPages } from '@/lib/db/site-audit-operations';
+import { getGBPProfileForDomain } from '@/lib/db/gbp-operations';
+import { getDomainVerticalPack } from '@/lib/db/domain-operations';
+import { buildStructuredDataReport, type NapReference } from '@/lib/seo/structured-data';
+
+interface RouteParams {
+  params: Promise<{ scanId: string }>;
+}
+
+/**
+ * GET /api/site-audit/scans/[scanId]/structured-data
+ * Validate the crawl's schema.org markup, compare LocalBusiness NAP with the
+ * domain's GBP profile and list pages without LocalBusiness markup
+ */
+export async function GET(_request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { scanId } = await params;
+    const userId = session.user.id;
+
+    // Verify user owns this scan
+    const scan = await getScanForUser(scanId, userId);
+    if (!scan) {
+      return NextResponse.json({ success: false, error: 'Scan not found' }, { status: 404 });
+    }
+
+    const [pages, profile, pack] = await Promise.all([
+      getStructuredDataPages(scanId),
+      scan.domain_id ? getGBPProfileForDomain(scan.domain_id) : null,
+      getDomainVerticalPack(scan.domain_id),
+    ]);
+
+    const reference: NapReference | null = profile
+      ? { name: profile.businessName, address: profile.address, phone: profile.phone }
+      : null;
+
+    const report = buildStructuredDataReport(pages, reference, pack.businessName);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...report,
+        napReference: reference,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching structured data:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch structured data' },
+      { status: 500 }
+    );
+  }
+}
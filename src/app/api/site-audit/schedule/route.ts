@@ -0,0 +1,291 @@
+/**
+ * Site Audit Schedule API
+ *
+ * GET - Get schedule for a domain
+ * POST - Create a schedule
+ * PATCH - Update a schedule
+ * DELETE - Delete a schedule
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { findAccessibleDomain } from '@/lib/db/workspace-operations';
+import {
+  getSiteAuditSchedule,
+  createSiteAuditSchedule,
+  updateSiteAuditSchedule,
+  deleteSiteAuditSchedule,
+} from '@/lib/db/site-audit-operations';
+
+const createScheduleSchema = z.object({
+  domainId: z.string().min(1, 'Domain ID is required'),
+  frequency: z.enum(['weekly', 'biweekly', 'monthly']),
+  dayOfWeek: z.number().int().min(0).max(6).optional(), // 0 = Sunday
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  timeOfDay: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional()
+    .default('06:00'),
+});
+
+const updateScheduleSchema = z.object({
+  domainId: z.string().min(1, 'Domain ID is required'),
+  isEnabled: z.boolean().optional(),
+  frequency: z.enum(['weekly', 'biweekly', 'monthly']).optional(),
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  timeOfDay: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional(),
+});
+
+/**
+ * GET /api/site-audit/schedule?domainId=X
+ * Get the recurring audit schedule for a domain
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const domainId = searchParams.get('domainId');
+
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'Domain ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const domain = await findAccessibleDomain(domainId, session.user.id);
+    if (!domain) {
+      return NextResponse.json(
+        { success: false, error: 'Domain not found' },
+        { status: 404 }
+      );
+    }
+
+    const schedule = await getSiteAuditSchedule(domainId);
+
+    return NextResponse.json({
+      success: true,
+      data: schedule, // null if no schedule exists
+    });
+  } catch (error) {
+    console.error('Error getting site audit schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/site-audit/schedule
+ * Create a recurring audit schedule
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parseResult = createScheduleSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { domainId, frequency, dayOfWeek, dayOfMonth, timeOfDay } = parseResult.data;
+
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST');
+    if (!domain) {
+      return NextResponse.json(
+        { success: false, error: 'Domain not found' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await getSiteAuditSchedule(domainId);
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule already exists. Use PATCH to update.' },
+        { status: 409 }
+      );
+    }
+
+    if ((frequency === 'weekly' || frequency === 'biweekly') && dayOfWeek === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'dayOfWeek is required for weekly/biweekly schedules' },
+        { status: 400 }
+      );
+    }
+    if (frequency === 'monthly' && dayOfMonth === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'dayOfMonth is required for monthly schedules' },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await createSiteAuditSchedule(session.user.id, {
+      domainId,
+      frequency,
+      dayOfWeek,
+      dayOfMonth,
+      timeOfDay,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: schedule,
+        message: 'Schedule created successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating site audit schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/site-audit/schedule
+ * Update an existing schedule
+ */
+export async function PATCH(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parseResult = updateScheduleSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { domainId, ...updates } = parseResult.data;
+
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST');
+    if (!domain) {
+      return NextResponse.json(
+        { success: false, error: 'Domain not found' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await getSiteAuditSchedule(domainId);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found. Use POST to create.' },
+        { status: 404 }
+      );
+    }
+
+    const schedule = await updateSiteAuditSchedule(domainId, updates);
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+      message: 'Schedule updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating site audit schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/site-audit/schedule?domainId=X
+ * Delete a schedule
+ */
+export async function DELETE(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const domainId = searchParams.get('domainId');
+
+    if (!domainId) {
+      return NextResponse.json(
+        { success: false, error: 'Domain ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const domain = await findAccessibleDomain(domainId, session.user.id, 'ANALYST');
+    if (!domain) {
+      return NextResponse.json(
+        { success: false, error: 'Domain not found' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await getSiteAuditSchedule(domainId);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteSiteAuditSchedule(domainId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Schedule deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting site audit schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete schedule' },
+      { status: 500 }
+    );
+  }
+}
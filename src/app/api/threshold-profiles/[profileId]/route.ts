@@ -0,0 +1,88 @@
+/**
+ * SEO Threshold Profile
+ *
+ * PATCH /api/threshold-profiles/[profileId] - Rename a profile or replace its config
+ * DELETE /api/threshold-profiles/[profileId] - Delete a profile; its domains fall back to the baseline
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import {
+  deleteThresholdProfile,
+  ThresholdProfileError,
+  updateThresholdProfile,
+} from '@/lib/db/threshold-profile-operations'
+import { thresholdProfileConfigSchema } from '@/lib/seo/threshold-profiles'
+
+const updateProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  config: thresholdProfileConfigSchema.optional(),
+})
+
+interface RouteParams {
+  params: Promise<{ profileId: string }>
+}
+
+export async function PATCH(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = updateProfileSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { profileId } = await params
+    const profile = await updateThresholdProfile(profileId, session.user.id, parseResult.data)
+
+    return NextResponse.json({ success: true, data: profile })
+  } catch (error) {
+    if (error instanceof ThresholdProfileError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error updating threshold profile:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update threshold profile' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { profileId } = await params
+    await deleteThresholdProfile(profileId, session.user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ThresholdProfileError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error deleting threshold profile:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete threshold profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * SEO Threshold Profiles
+ *
+ * GET /api/threshold-profiles - List the profiles the current user can manage, or with
+ *   ?domainId= the profiles that can be assigned to that domain
+ * POST /api/threshold-profiles - Create a personal or workspace profile from the baseline, a
+ *   preset or a full config
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import {
+  createThresholdProfile,
+  listAssignableThresholdProfiles,
+  listThresholdProfiles,
+  ThresholdProfileError,
+} from '@/lib/db/threshold-profile-operations'
+import {
+  THRESHOLD_PROFILE_PRESETS,
+  thresholdProfileConfigSchema,
+  type ThresholdProfilePreset,
+} from '@/lib/seo/threshold-profiles'
+
+const createProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  workspaceId: z.string().min(1).nullable().optional(),
+  preset: z
+    .enum(
+      Object.keys(THRESHOLD_PROFILE_PRESETS) as [
+        ThresholdProfilePreset,
+        ...ThresholdProfilePreset[],
+      ]
+    )
+    .optional(),
+  config: thresholdProfileConfigSchema.optional(),
+})
+
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const domainId = searchParams.get('domainId')
+
+    const profiles = domainId
+      ? await listAssignableThresholdProfiles(domainId, session.user.id)
+      : await listThresholdProfiles(session.user.id)
+
+    return NextResponse.json({ success: true, data: profiles })
+  } catch (error) {
+    if (error instanceof ThresholdProfileError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error listing threshold profiles:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list threshold profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = createProfileSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const profile = await createThresholdProfile(session.user.id, parseResult.data)
+
+    return NextResponse.json({ success: true, data: profile }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ThresholdProfileError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error creating threshold profile:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create threshold profile' },
+      { status: 500 }
+    )
+  }
+}
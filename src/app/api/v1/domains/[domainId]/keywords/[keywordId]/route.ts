@@ -0,0 +1,27 @@
+/**
+ * Public API v1 - Domain Keyword
+ *
+ * DELETE /api/v1/domains/[domainId]/keywords/[keywordId] - Stop tracking a keyword
+ */
+
+import { findApiDomain } from '@/lib/db/api-key-operations'
+import { removeDomainKeyword } from '@/lib/db/keyword-operations'
+import { apiData, apiError, withApiKey } from '@/lib/public-api/handler'
+import { SCOPE_MIN_ROLE } from '@/lib/public-api/keys'
+
+export const DELETE = withApiKey<{ domainId: string; keywordId: string }>(
+  'MANAGE_KEYWORDS',
+  async (_request, ctx) => {
+    const domain = await findApiDomain(
+      ctx.principal,
+      ctx.params.domainId,
+      SCOPE_MIN_ROLE.MANAGE_KEYWORDS
+    )
+    if (!domain) return apiError('Domain not found', 404)
+
+    const removed = await removeDomainKeyword(domain.id, ctx.params.keywordId)
+    if (!removed) return apiError('Keyword not found', 404)
+
+    return apiData({ id: ctx.params.keywordId })
+  }
+)
@@ -0,0 +1,40 @@
+/**
+ * Public API v1 - Domain Keywords
+ *
+ * GET /api/v1/domains/[domainId]/keywords - List tracked keywords
+ * POST /api/v1/domains/[domainId]/keywords - Add tracked keywords (MANAGE_KEYWORDS)
+ */
+
+import { findApiDomain } from '@/lib/db/api-key-operations'
+import { addDomainKeywords, listDomainKeywords } from '@/lib/db/keyword-operations'
+import { apiData, apiError, parseBody, withApiKey } from '@/lib/public-api/handler'
+import { SCOPE_MIN_ROLE } from '@/lib/public-api/keys'
+import { addKeywordsBody } from '@/lib/public-api/schemas'
+import { serializeKeyword } from '@/lib/public-api/serializers'
+
+type Params = { domainId: string }
+
+export const GET = withApiKey<Params>('READ', async (_request, ctx) => {
+  const domain = await findApiDomain(ctx.principal, ctx.params.domainId)
+  if (!domain) return apiError('Domain not found', 404)
+
+  const keywords = await listDomainKeywords(domain.id)
+  return apiData({ keywords: keywords.map(serializeKeyword) })
+})
+
+export const POST = withApiKey<Params>('MANAGE_KEYWORDS', async (request, ctx) => {
+  const domain = await findApiDomain(
+    ctx.principal,
+    ctx.params.domainId,
+    SCOPE_MIN_ROLE.MANAGE_KEYWORDS
+  )
+  if (!domain) return apiError('Domain not found', 404)
+
+  const body = await parseBody(request, addKeywordsBody)
+  if (!body.success) return body.response
+
+  const { added } = await addDomainKeywords(domain.id, ctx.principal.userId, body.data.keywords)
+  const keywords = await listDomainKeywords(domain.id)
+
+  return apiData({ keywords: keywords.map(serializeKeyword), added })
+})
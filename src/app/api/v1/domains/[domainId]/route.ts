@@ -0,0 +1,16 @@
+/**
+ * Public API v1 - Domain
+ *
+ * GET /api/v1/domains/[domainId] - Get a single domain
+ */
+
+import { findApiDomain } from '@/lib/db/api-key-operations'
+import { apiData, apiError, withApiKey } from '@/lib/public-api/handler'
+import { serializeDomain } from '@/lib/public-api/serializers'
+
+export const GET = withApiKey<{ domainId: string }>('READ', async (_request, ctx) => {
+  const domain = await findApiDomain(ctx.principal, ctx.params.domainId)
+  if (!domain) return apiError('Domain not found', 404)
+
+  return apiData(serializeDomain(domain))
+})
@@ -0,0 +1,19 @@
+/**
+ * Public API v1 - Domains
+ *
+ * GET /api/v1/domains - List active domains the API key can access
+ */
+
+import { prisma } from '@/lib/prisma'
+import { apiDomainWhere } from '@/lib/db/api-key-operations'
+import { apiData, withApiKey } from '@/lib/public-api/handler'
+import { serializeDomain } from '@/lib/public-api/serializers'
+
+export const GET = withApiKey('READ', async (_request, { principal }) => {
+  const domains = await prisma.domains.findMany({
+    where: { status: 'ACTIVE', ...apiDomainWhere(principal) },
+    orderBy: { created_at: 'desc' },
+  })
+
+  return apiData({ domains: domains.map(serializeDomain) })
+})
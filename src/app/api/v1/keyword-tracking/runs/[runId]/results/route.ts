@@ -0,0 +1,30 @@
+/**
+ * Public API v1 - Keyword Tracking Results
+ *
+ * GET /api/v1/keyword-tracking/runs/[runId]/results - List per-keyword results
+ */
+
+import { findApiDomain } from '@/lib/db/api-key-operations'
+import { getKeywordTrackingRun, getRunResults } from '@/lib/db/keyword-tracking-operations'
+import { apiData, apiError, parseQuery, withApiKey } from '@/lib/public-api/handler'
+import { runResultsQuery } from '@/lib/public-api/schemas'
+
+export const GET = withApiKey<{ runId: string }>('READ', async (request, ctx) => {
+  const query = parseQuery(request, runResultsQuery)
+  if (!query.success) return query.response
+
+  const run = await getKeywordTrackingRun(ctx.params.runId)
+  if (!run || !(await findApiDomain(ctx.principal, run.domainId))) {
+    return apiError('Run not found', 404)
+  }
+
+  const { limit, offset, positionFilter } = query.data
+  const { results, total } = await getRunResults(run.id, {
+    limit,
+    offset,
+    positionFilter,
+    sortBy: 'keyword',
+  })
+
+  return apiData({ results, total, limit, offset, hasMore: offset + results.length < total })
+})
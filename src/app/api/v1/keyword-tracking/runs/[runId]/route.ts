@@ -0,0 +1,18 @@
+/**
+ * Public API v1 - Keyword Tracking Run
+ *
+ * GET /api/v1/keyword-tracking/runs/[runId] - Get a run's summary
+ */
+
+import { findApiDomain } from '@/lib/db/api-key-operations'
+import { getKeywordTrackingRun } from '@/lib/db/keyword-tracking-operations'
+import { apiData, apiError, withApiKey } from '@/lib/public-api/handler'
+
+export const GET = withApiKey<{ runId: string }>('READ', async (_request, ctx) => {
+  const run = await getKeywordTrackingRun(ctx.params.runId)
+  if (!run || !(await findApiDomain(ctx.principal, run.domainId))) {
+    return apiError('Run not found', 404)
+  }
+
+  return apiData(run)
+})
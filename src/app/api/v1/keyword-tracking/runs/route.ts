@@ -0,0 +1,64 @@
+/**
+ * Public API v1 - Keyword Tracking Runs
+ *
+ * GET /api/v1/keyword-tracking/runs?domainId=X - List a domain's runs
+ * POST /api/v1/keyword-tracking/runs - Start a run (TRIGGER_SCANS)
+ */
+
+import { prisma } from '@/lib/prisma'
+import { inngest } from '@/lib/inngest'
+import { findApiDomain } from '@/lib/db/api-key-operations'
+import { createKeywordTrackingRun, listDomainRuns } from '@/lib/db/keyword-tracking-operations'
+import { apiData, apiError, parseBody, parseQuery, withApiKey } from '@/lib/public-api/handler'
+import { SCOPE_MIN_ROLE } from '@/lib/public-api/keys'
+import { createKeywordRunBody, listByDomainQuery } from '@/lib/public-api/schemas'
+
+export const GET = withApiKey('READ', async (request, { principal }) => {
+  const query = parseQuery(request, listByDomainQuery)
+  if (!query.success) return query.response
+
+  const { domainId, limit, offset } = query.data
+
+  const domain = await findApiDomain(principal, domainId)
+  if (!domain) return apiError('Domain not found', 404)
+
+  const { runs, total } = await listDomainRuns(domain.id, { limit, offset })
+
+  return apiData({ runs, total, limit, offset, hasMore: offset + runs.length < total })
+})
+
+export const POST = withApiKey('TRIGGER_SCANS', async (request, { principal }) => {
+  const body = await parseBody(request, createKeywordRunBody)
+  if (!body.success) return body.response
+
+  const { domainId, locationName, languageCode } = body.data
+
+  const domain = await findApiDomain(principal, domainId, SCOPE_MIN_ROLE.TRIGGER_SCANS)
+  if (!domain) return apiError('Domain not found', 404)
+
+  const keywordCount = await prisma.tracked_keywords.count({
+    where: { domain_id: domain.id, is_active: true },
+  })
+  if (keywordCount === 0) {
+    return apiError('No tracked keywords found. Add keywords to the domain first.', 400)
+  }
+
+  const runId = await createKeywordTrackingRun(principal.userId, {
+    domainId: domain.id,
+    locationName,
+    languageCode,
+    triggeredBy: 'api',
+  })
+
+  await inngest.send({
+    name: 'keyword-tracking/run.requested',
+    data: {
+      runId,
+      domainId: domain.id,
+      userId: principal.userId,
+      config: { locationName, languageCode },
+    },
+  })
+
+  return apiData({ id: runId, status: 'PENDING' }, 201)
+})
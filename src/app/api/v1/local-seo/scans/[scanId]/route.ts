@@ -0,0 +1,47 @@
+/**
+ * Public API v1 - Local Grid Scan
+ *
+ * GET /api/v1/local-seo/scans/[scanId] - Get a scan with all grid point results
+ */
+
+import { findApiDomain } from '@/lib/db/api-key-operations'
+import { getAllGridPoints, getGridScan } from '@/lib/db/local-campaign-operations'
+import type { CompetitorRanking } from '@/lib/local-seo/types'
+import { apiData, apiError, withApiKey } from '@/lib/public-api/handler'
+
+export const GET = withApiKey<{ scanId: string }>('READ', async (_request, ctx) => {
+  const scan = await getGridScan(ctx.params.scanId)
+  const campaign = scan?.local_campaigns
+  if (!scan || !campaign?.domain_id || !(await findApiDomain(ctx.principal, campaign.domain_id))) {
+    return apiError('Scan not found', 404)
+  }
+
+  const points = await getAllGridPoints(scan.id)
+
+  return apiData({
+    id: scan.id,
+    campaignId: campaign.id,
+    campaignName: campaign.business_name,
+    status: scan.status,
+    avgRank: scan.avg_rank ? Number(scan.avg_rank) : null,
+    shareOfVoice: scan.share_of_voice ? Number(scan.share_of_voice) : null,
+    topCompetitor: scan.top_competitor,
+    startedAt: scan.started_at,
+    completedAt: scan.completed_at,
+    createdAt: scan.created_at,
+    keywords: campaign.keywords,
+    gridSize: campaign.grid_size,
+    radiusMiles: Number(campaign.grid_radius_miles),
+    centerLat: Number(campaign.center_lat),
+    centerLng: Number(campaign.center_lng),
+    points: points.map((point) => ({
+      row: point.grid_row,
+      col: point.grid_col,
+      lat: Number(point.lat),
+      lng: Number(point.lng),
+      keyword: point.keyword,
+      rank: point.rank,
+      topRankings: (point.top_rankings as unknown as CompetitorRanking[] | null) ?? [],
+    })),
+  })
+})
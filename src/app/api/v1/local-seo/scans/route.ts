@@ -0,0 +1,59 @@
+/**
+ * Public API v1 - Local Grid Scans
+ *
+ * GET /api/v1/local-seo/scans?domainId=X[&campaignId=Y] - List a domain's grid scans
+ * POST /api/v1/local-seo/scans - Queue a grid scan for a campaign (TRIGGER_SCANS)
+ */
+
+import { prisma } from '@/lib/prisma'
+import { inngest } from '@/lib/inngest'
+import { findApiDomain } from '@/lib/db/api-key-operations'
+import { listDomainGridScans } from '@/lib/db/local-campaign-operations'
+import { apiData, apiError, parseBody, parseQuery, withApiKey } from '@/lib/public-api/handler'
+import { SCOPE_MIN_ROLE } from '@/lib/public-api/keys'
+import { createGridScanBody, listGridScansQuery } from '@/lib/public-api/schemas'
+
+export const GET = withApiKey('READ', async (request, { principal }) => {
+  const query = parseQuery(request, listGridScansQuery)
+  if (!query.success) return query.response
+
+  const { domainId, campaignId, limit, offset } = query.data
+
+  const domain = await findApiDomain(principal, domainId)
+  if (!domain) return apiError('Domain not found', 404)
+
+  const { scans, total } = await listDomainGridScans(domain.id, { campaignId, limit, offset })
+
+  return apiData({ scans, total, limit, offset, hasMore: offset + scans.length < total })
+})
+
+export const POST = withApiKey('TRIGGER_SCANS', async (request, { principal }) => {
+  const body = await parseBody(request, createGridScanBody)
+  if (!body.success) return body.response
+
+  const { campaignId, keywords } = body.data
+
+  const campaign = await prisma.local_campaigns.findUnique({ where: { id: campaignId } })
+  if (
+    !campaign?.domain_id ||
+    !(await findApiDomain(principal, campaign.domain_id, SCOPE_MIN_ROLE.TRIGGER_SCANS))
+  ) {
+    return apiError('Campaign not found', 404)
+  }
+
+  if (campaign.status !== 'ACTIVE') {
+    return apiError('Campaign is not active', 400)
+  }
+
+  const keywordCount = (keywords ?? campaign.keywords).length
+  if (keywordCount === 0) {
+    return apiError('No keywords to scan', 400)
+  }
+
+  await inngest.send({
+    name: 'local-seo/scan.requested',
+    data: { campaignId, userId: principal.userId, keywords },
+  })
+
+  return apiData({ campaignId, keywordCount, status: 'QUEUED' }, 202)
+})
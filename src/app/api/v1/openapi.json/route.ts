@@ -0,0 +1,16 @@
+/**
+ * Public API v1 - OpenAPI Document
+ *
+ * GET /api/v1/openapi.json - Generated OpenAPI 3.1 description of /api/v1 (no key required)
+ */
+
+import { NextResponse } from 'next/server'
+import { buildOpenApiDocument } from '@/lib/public-api/openapi'
+
+export function GET(request: Request): NextResponse {
+  const { origin } = new URL(request.url)
+
+  return NextResponse.json(buildOpenApiDocument(`${origin}/api/v1`), {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  })
+}
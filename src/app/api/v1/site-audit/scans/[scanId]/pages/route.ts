@@ -0,0 +1,26 @@
+/**
+ * Public API v1 - Site Audit Pages
+ *
+ * GET /api/v1/site-audit/scans/[scanId]/pages - List crawled pages with their issues
+ */
+
+import { findApiDomain } from '@/lib/db/api-key-operations'
+import { getSiteAuditPages, getSiteAuditScan } from '@/lib/db/site-audit-operations'
+import { apiData, apiError, parseQuery, withApiKey } from '@/lib/public-api/handler'
+import { siteAuditPagesQuery } from '@/lib/public-api/schemas'
+
+export const GET = withApiKey<{ scanId: string }>('READ', async (request, ctx) => {
+  const query = parseQuery(request, siteAuditPagesQuery)
+  if (!query.success) return query.response
+
+  const scan = await getSiteAuditScan(ctx.params.scanId)
+  if (!scan?.domain_id || !(await findApiDomain(ctx.principal, scan.domain_id))) {
+    return apiError('Scan not found', 404)
+  }
+
+  const { limit, offset, filter } = query.data
+
+  return apiData(
+    await getSiteAuditPages(scan.id, { limit, offset, filter, sortBy: 'url', sortOrder: 'asc' })
+  )
+})
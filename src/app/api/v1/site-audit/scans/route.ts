@@ -0,0 +1,70 @@
+/**
+ * Public API v1 - Site Audits
+ *
+ * GET /api/v1/site-audit/scans?domainId=X - List a domain's site audit crawls
+ * POST /api/v1/site-audit/scans - Start a crawl (TRIGGER_SCANS)
+ */
+
+import { prisma } from '@/lib/prisma'
+import { inngest } from '@/lib/inngest'
+import { findApiDomain } from '@/lib/db/api-key-operations'
+import { createSiteAuditScan, listDomainSiteAuditScans } from '@/lib/db/site-audit-operations'
+import { apiData, apiError, parseBody, parseQuery, withApiKey } from '@/lib/public-api/handler'
+import { SCOPE_MIN_ROLE } from '@/lib/public-api/keys'
+import { createSiteAuditBody, listByDomainQuery } from '@/lib/public-api/schemas'
+
+export const GET = withApiKey('READ', async (request, { principal }) => {
+  const query = parseQuery(request, listByDomainQuery)
+  if (!query.success) return query.response
+
+  const { domainId, limit, offset } = query.data
+
+  const domain = await findApiDomain(principal, domainId)
+  if (!domain) return apiError('Domain not found', 404)
+
+  const { scans, total } = await listDomainSiteAuditScans(domain.id, { limit, offset })
+
+  return apiData({ scans, total, limit, offset, hasMore: offset + scans.length < total })
+})
+
+export const POST = withApiKey('TRIGGER_SCANS', async (request, { principal }) => {
+  const body = await parseBody(request, createSiteAuditBody)
+  if (!body.success) return body.response
+
+  const domain = await findApiDomain(principal, body.data.domainId, SCOPE_MIN_ROLE.TRIGGER_SCANS)
+  if (!domain) return apiError('Domain not found', 404)
+
+  const settings = await prisma.domain_settings.findUnique({
+    where: { domain_id: domain.id },
+    select: { site_audit_max_pages: true, site_audit_enable_javascript: true },
+  })
+  const maxCrawlPages = body.data.maxCrawlPages ?? settings?.site_audit_max_pages ?? 100
+  const enableJavascript = settings?.site_audit_enable_javascript ?? true
+
+  const scanId = await createSiteAuditScan(principal.userId, {
+    domain: domain.domain,
+    domainId: domain.id,
+    maxCrawlPages,
+    enableJavascript,
+    enableBrowserRendering: enableJavascript,
+    triggeredBy: 'api',
+  })
+
+  await inngest.send({
+    name: 'site-audit/scan.requested',
+    data: {
+      scanId,
+      domain: domain.domain,
+      userId: principal.userId,
+      config: {
+        maxCrawlPages,
+        enableJavascript,
+        enableBrowserRendering: enableJavascript,
+        storeRawHtml: false,
+        calculateKeywordDensity: false,
+      },
+    },
+  })
+
+  return apiData({ id: scanId, status: 'PENDING' }, 201)
+})
@@ -0,0 +1,39 @@
+/**
+ * Webhook Delivery Log API
+ *
+ * GET /api/webhooks/[endpointId]/deliveries - Most recent deliveries, newest first
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getWebhookEndpointForUser, listWebhookDeliveries } from '@/lib/db/webhook-operations'
+
+interface RouteParams {
+  params: Promise<{ endpointId: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { endpointId } = await params
+
+    const endpoint = await getWebhookEndpointForUser(endpointId, session.user.id)
+    if (!endpoint) {
+      return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const deliveries = await listWebhookDeliveries(endpointId)
+
+    return NextResponse.json({ success: true, data: deliveries })
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list deliveries' },
+      { status: 500 }
+    )
+  }
+}
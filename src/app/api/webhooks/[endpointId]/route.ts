@@ -0,0 +1,100 @@
+/**
+ * Webhook Endpoint API
+ *
+ * PATCH - Update an endpoint or rotate its signing secret
+ * DELETE - Delete an endpoint and its delivery log
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import {
+  deleteWebhookEndpoint,
+  getWebhookEndpointForUser,
+  updateWebhookEndpoint,
+  WebhookError,
+} from '@/lib/db/webhook-operations'
+import { WEBHOOK_EVENT_TYPES } from '@/lib/webhooks/events'
+
+interface RouteParams {
+  params: Promise<{ endpointId: string }>
+}
+
+const updateEndpointSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  url: z
+    .url({ protocol: /^https?$/ })
+    .max(2000)
+    .optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).optional(),
+  isEnabled: z.boolean().optional(),
+  rotateSecret: z.boolean().optional(),
+})
+
+/**
+ * PATCH /api/webhooks/[endpointId]
+ */
+export async function PATCH(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { endpointId } = await params
+    const body = await request.json()
+    const parseResult = updateEndpointSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const existing = await getWebhookEndpointForUser(endpointId, session.user.id)
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const endpoint = await updateWebhookEndpoint(endpointId, parseResult.data)
+
+    return NextResponse.json({ success: true, data: endpoint })
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+    console.error('Error updating webhook endpoint:', error)
+    return NextResponse.json({ success: false, error: 'Failed to update webhook' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/webhooks/[endpointId]
+ */
+export async function DELETE(_request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { endpointId } = await params
+
+    const existing = await getWebhookEndpointForUser(endpointId, session.user.id)
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 })
+    }
+
+    await deleteWebhookEndpoint(endpointId)
+
+    return NextResponse.json({ success: true, message: 'Webhook deleted' })
+  } catch (error) {
+    console.error('Error deleting webhook endpoint:', error)
+    return NextResponse.json({ success: false, error: 'Failed to delete webhook' }, { status: 500 })
+  }
+}
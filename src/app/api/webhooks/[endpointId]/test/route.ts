@@ -0,0 +1,52 @@
+/**
+ * Webhook Test API
+ *
+ * POST /api/webhooks/[endpointId]/test - Send a signed `webhook.test` event
+ * right away and return the logged delivery. Test sends are not retried.
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  createTestDelivery,
+  getSendableDelivery,
+  getWebhookEndpointForUser,
+  recordDeliveryAttempt,
+} from '@/lib/db/webhook-operations'
+import { sendWebhookRequest } from '@/lib/webhooks/delivery'
+
+interface RouteParams {
+  params: Promise<{ endpointId: string }>
+}
+
+export async function POST(_request: Request, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { endpointId } = await params
+
+    const endpoint = await getWebhookEndpointForUser(endpointId, session.user.id)
+    if (!endpoint) {
+      return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const deliveryId = await createTestDelivery(endpoint)
+    const request = await getSendableDelivery(deliveryId)
+    if (!request) {
+      return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const delivery = await recordDeliveryAttempt(deliveryId, await sendWebhookRequest(request))
+
+    return NextResponse.json({ success: true, data: delivery })
+  } catch (error) {
+    console.error('Error sending test webhook:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to send test webhook' },
+      { status: 500 }
+    )
+  }
+}
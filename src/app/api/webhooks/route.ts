@@ -0,0 +1,82 @@
+/**
+ * Webhook Endpoints API
+ *
+ * GET /api/webhooks - List endpoints the user can manage
+ * POST /api/webhooks - Add an endpoint to a domain or workspace
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  WebhookError,
+} from '@/lib/db/webhook-operations'
+import { WEBHOOK_EVENT_TYPES } from '@/lib/webhooks/events'
+
+const createEndpointSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    url: z.url({ protocol: /^https?$/ }).max(2000),
+    events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).default([]),
+    isEnabled: z.boolean().optional(),
+    domainId: z.string().min(1).optional(),
+    workspaceId: z.string().min(1).optional(),
+  })
+  .refine((data) => Boolean(data.domainId) !== Boolean(data.workspaceId), {
+    message: 'Choose either a domain or a workspace',
+    path: ['domainId'],
+  })
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const endpoints = await listWebhookEndpoints(session.user.id)
+
+    return NextResponse.json({ success: true, data: endpoints })
+  } catch (error) {
+    console.error('Error listing webhook endpoints:', error)
+    return NextResponse.json({ success: false, error: 'Failed to list webhooks' }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = createEndpointSchema.safeParse(body)
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domainId, workspaceId, ...input } = parseResult.data
+    const target = domainId ? { domainId } : { workspaceId: workspaceId! }
+
+    const endpoint = await createWebhookEndpoint(session.user.id, target, input)
+
+    return NextResponse.json({ success: true, data: endpoint }, { status: 201 })
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+    console.error('Error creating webhook endpoint:', error)
+    return NextResponse.json({ success: false, error: 'Failed to create webhook' }, { status: 500 })
+  }
+}
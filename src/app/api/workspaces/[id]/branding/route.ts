@@ -0,0 +1,98 @@
+/**
+ * Workspace Branding API
+ *
+ * GET /api/workspaces/[id]/branding - Get report branding (any member)
+ * PATCH /api/workspaces/[id]/branding - Update report branding (ADMIN)
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import {
+  getWorkspaceBranding,
+  updateWorkspaceBranding,
+  WorkspaceError,
+} from '@/lib/db/workspace-operations'
+
+/** Logos are embedded in every PDF, so keep them small (~500 KB decoded) */
+const MAX_LOGO_DATA_URL_LENGTH = 700_000
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Use a hex color like #1d4ed8')
+
+const updateBrandingSchema = z.object({
+  brandName: z.string().trim().max(200).nullable().optional(),
+  logo: z
+    .string()
+    .regex(/^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/, 'Logo must be a PNG or JPEG image')
+    .max(MAX_LOGO_DATA_URL_LENGTH, 'Logo must be smaller than 500 KB')
+    .nullable()
+    .optional(),
+  primaryColor: hexColor.nullable().optional(),
+  accentColor: hexColor.nullable().optional(),
+})
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const branding = await getWorkspaceBranding(id, session.user.id)
+
+    return NextResponse.json({ success: true, data: branding })
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error fetching workspace branding:', error)
+    return NextResponse.json({ success: false, error: 'Failed to fetch branding' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const body = await request.json()
+    const parseResult = updateBrandingSchema.safeParse(body)
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { brandName, ...rest } = parseResult.data
+    const branding = await updateWorkspaceBranding(id, session.user.id, {
+      ...rest,
+      ...(brandName !== undefined && { brandName: brandName || null }),
+    })
+
+    return NextResponse.json({ success: true, data: branding })
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error updating workspace branding:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update branding' },
+      { status: 500 }
+    )
+  }
+}
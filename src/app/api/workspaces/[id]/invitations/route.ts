@@ -0,0 +1,128 @@
+/**
+ * Workspace Invitations API
+ *
+ * GET /api/workspaces/[id]/invitations - List pending invitations (ADMIN)
+ * POST /api/workspaces/[id]/invitations - Invite a user by email (ADMIN)
+ * DELETE /api/workspaces/[id]/invitations?invitationId=xxx - Revoke an invitation (ADMIN)
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import {
+  createInvitation,
+  listPendingInvitations,
+  revokeInvitation,
+  WorkspaceError,
+} from '@/lib/db/workspace-operations'
+
+const createInvitationSchema = z.object({
+  email: z.string().email('Valid email is required'),
+  role: z.enum(['OWNER', 'ADMIN', 'ANALYST', 'READ_ONLY']).default('ANALYST'),
+})
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const invitations = await listPendingInvitations(id, session.user.id)
+
+    return NextResponse.json({ success: true, data: invitations })
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error listing invitations:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list invitations' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const body = await request.json()
+    const parseResult = createInvitationSchema.safeParse(body)
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const invitation = await createInvitation(id, session.user.id, parseResult.data)
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...invitation,
+          acceptUrl: `/settings/workspaces?invite=${invitation.token}`,
+        },
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error creating invitation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create invitation' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: Request, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const invitationId = new URL(request.url).searchParams.get('invitationId')
+    if (!invitationId) {
+      return NextResponse.json(
+        { success: false, error: 'invitationId is required' },
+        { status: 400 }
+      )
+    }
+
+    await revokeInvitation(id, session.user.id, invitationId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error revoking invitation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke invitation' },
+      { status: 500 }
+    )
+  }
+}
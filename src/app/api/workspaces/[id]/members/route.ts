@@ -0,0 +1,108 @@
+/**
+ * Workspace Members API
+ *
+ * GET /api/workspaces/[id]/members - List members (any member)
+ * PATCH /api/workspaces/[id]/members - Change a member's role (ADMIN)
+ * DELETE /api/workspaces/[id]/members?userId=xxx - Remove a member (ADMIN, or self)
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import {
+  listWorkspaceMembers,
+  updateMemberRole,
+  removeMember,
+  WorkspaceError,
+} from '@/lib/db/workspace-operations'
+
+const updateRoleSchema = z.object({
+  userId: z.string().min(1, 'User ID is required'),
+  role: z.enum(['OWNER', 'ADMIN', 'ANALYST', 'READ_ONLY']),
+})
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const members = await listWorkspaceMembers(id, session.user.id)
+
+    return NextResponse.json({ success: true, data: members })
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error listing workspace members:', error)
+    return NextResponse.json({ success: false, error: 'Failed to list members' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const body = await request.json()
+    const parseResult = updateRoleSchema.safeParse(body)
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { userId, role } = parseResult.data
+    await updateMemberRole(id, session.user.id, userId, role)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error updating member role:', error)
+    return NextResponse.json({ success: false, error: 'Failed to update member' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const userId = new URL(request.url).searchParams.get('userId')
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'userId is required' }, { status: 400 })
+    }
+
+    await removeMember(id, session.user.id, userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error removing workspace member:', error)
+    return NextResponse.json({ success: false, error: 'Failed to remove member' }, { status: 500 })
+  }
+}
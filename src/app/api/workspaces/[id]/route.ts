@@ -0,0 +1,80 @@
+/**
+ * Workspace Detail API
+ *
+ * PATCH /api/workspaces/[id] - Rename workspace (ADMIN)
+ * DELETE /api/workspaces/[id] - Delete workspace (OWNER)
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { renameWorkspace, deleteWorkspace, WorkspaceError } from '@/lib/db/workspace-operations'
+
+const renameWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, 'Workspace name is required').max(200),
+})
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function PATCH(request: Request, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const body = await request.json()
+    const parseResult = renameWorkspaceSchema.safeParse(body)
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    await renameWorkspace(id, session.user.id, parseResult.data.name)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error renaming workspace:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update workspace' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: Request, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    await deleteWorkspace(id, session.user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error deleting workspace:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete workspace' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * POST /api/workspaces/invitations/accept
+ * Accept a workspace invitation for the signed-in user
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { acceptInvitation, WorkspaceError } from '@/lib/db/workspace-operations'
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+})
+
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id || !session.user.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = acceptInvitationSchema.safeParse(body)
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await acceptInvitation(parseResult.data.token, {
+      id: session.user.id,
+      email: session.user.email,
+    })
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('Error accepting invitation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to accept invitation' },
+      { status: 500 }
+    )
+  }
+}
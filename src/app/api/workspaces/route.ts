@@ -0,0 +1,66 @@
+/**
+ * Workspaces API
+ *
+ * GET /api/workspaces - List workspaces the user belongs to
+ * POST /api/workspaces - Create a new workspace (creator becomes OWNER)
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { createWorkspace, getUserWorkspaces } from '@/lib/db/workspace-operations'
+
+const createWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, 'Workspace name is required').max(200),
+})
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const workspaces = await getUserWorkspaces(session.user.id)
+
+    return NextResponse.json({ success: true, data: workspaces })
+  } catch (error) {
+    console.error('Error listing workspaces:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list workspaces' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parseResult = createWorkspaceSchema.safeParse(body)
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const workspace = await createWorkspace(session.user.id, parseResult.data.name)
+
+    return NextResponse.json({ success: true, data: workspace }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating workspace:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create workspace' },
+      { status: 500 }
+    )
+  }
+}
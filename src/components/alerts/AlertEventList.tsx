@@ -0,0 +1,168 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { BellOff, Check, Clock, Loader2, RotateCcw } from 'lucide-react'
+import { ALERT_RULE_TYPES } from '@/lib/alerts/rules'
+import type { AlertEventStatus, AlertRuleType } from '@prisma/client'
+
+export interface AlertEventData {
+  id: string
+  ruleName: string
+  type: AlertRuleType
+  title: string
+  message: string
+  status: AlertEventStatus
+  snoozedUntil: string | null
+  acknowledgedAt: string | null
+  deliveredAt: string | null
+  deliveryError: string | null
+  createdAt: string
+}
+
+interface AlertEventListProps {
+  events: AlertEventData[]
+  onChange: () => void
+}
+
+const SNOOZE_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '1 week' },
+]
+
+function StatusBadge({ event }: { event: AlertEventData }) {
+  if (event.status === 'ACKNOWLEDGED') {
+    return <Badge variant="secondary">Acknowledged</Badge>
+  }
+  if (event.status === 'SNOOZED' && event.snoozedUntil) {
+    const until = new Date(event.snoozedUntil)
+    if (until > new Date()) {
+      return <Badge variant="outline">Snoozed until {until.toLocaleString()}</Badge>
+    }
+  }
+  return <Badge variant="destructive">Open</Badge>
+}
+
+export function AlertEventList({ events, onChange }: AlertEventListProps) {
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateEvent = async (eventId: string, body: Record<string, unknown>) => {
+    setPendingId(eventId)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/alerts/events/${eventId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        onChange()
+      } else {
+        setError(data.error || 'Failed to update alert')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <BellOff className="h-8 w-8 mx-auto mb-2" />
+        <p>No alerts</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {events.map((event) => {
+        const pending = pendingId === event.id
+        const isOpen = event.status !== 'ACKNOWLEDGED'
+
+        return (
+          <div key={event.id} className="rounded-lg border p-4 flex items-start justify-between gap-4">
+            <div className="space-y-1 min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-medium">{event.title}</span>
+                <StatusBadge event={event} />
+              </div>
+              <p className="text-sm text-muted-foreground">{event.message}</p>
+              <p className="text-xs text-muted-foreground">
+                {event.ruleName} &middot; {ALERT_RULE_TYPES[event.type].label} &middot;{' '}
+                {new Date(event.createdAt).toLocaleString()}
+                {event.deliveryError && (
+                  <span className="text-destructive"> &middot; {event.deliveryError}</span>
+                )}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2 shrink-0">
+              {pending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              {isOpen ? (
+                <>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" disabled={pending} className="cursor-pointer">
+                        <Clock className="h-4 w-4 mr-1" />
+                        Snooze
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {SNOOZE_OPTIONS.map((option) => (
+                        <DropdownMenuItem
+                          key={option.hours}
+                          className="cursor-pointer"
+                          onClick={() =>
+                            updateEvent(event.id, { action: 'snooze', hours: option.hours })
+                          }
+                        >
+                          {option.label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button
+                    size="sm"
+                    disabled={pending}
+                    className="cursor-pointer"
+                    onClick={() => updateEvent(event.id, { action: 'acknowledge' })}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Acknowledge
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={pending}
+                  className="cursor-pointer"
+                  onClick={() => updateEvent(event.id, { action: 'reopen' })}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Reopen
+                </Button>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Loader2, Save, X } from 'lucide-react'
+import { ALERT_RULE_TYPES } from '@/lib/alerts/rules'
+import type { AlertRuleType } from '@prisma/client'
+
+export interface AlertRuleData {
+  id: string
+  name: string
+  type: AlertRuleType
+  threshold: number
+  isEnabled: boolean
+  emailRecipients: string[]
+  webhookUrl: string | null
+  lastTriggeredAt: string | null
+}
+
+interface AlertRuleFormProps {
+  domainId: string
+  /** Rule to edit; omit to create a new rule */
+  rule?: AlertRuleData
+  onSave: () => void
+  onCancel?: () => void
+}
+
+export function AlertRuleForm({ domainId, rule, onSave, onCancel }: AlertRuleFormProps) {
+  const [name, setName] = useState(rule?.name ?? '')
+  const [type, setType] = useState<AlertRuleType>(rule?.type ?? 'RANK_DROP')
+  const [threshold, setThreshold] = useState(
+    (rule?.threshold ?? ALERT_RULE_TYPES.RANK_DROP.defaultThreshold).toString()
+  )
+  const [isEnabled, setIsEnabled] = useState(rule?.isEnabled ?? true)
+  const [recipients, setRecipients] = useState(rule?.emailRecipients.join(', ') ?? '')
+  const [webhookUrl, setWebhookUrl] = useState(rule?.webhookUrl ?? '')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleTypeChange = (value: string) => {
+    const nextType = value as AlertRuleType
+    setType(nextType)
+    if (!rule) {
+      setThreshold(ALERT_RULE_TYPES[nextType].defaultThreshold.toString())
+    }
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const body = {
+        ...(rule ? {} : { domainId }),
+        name,
+        type,
+        threshold: Number(threshold),
+        isEnabled,
+        emailRecipients: recipients
+          .split(/[,\s]+/)
+          .map((r) => r.trim())
+          .filter(Boolean),
+        webhookUrl: webhookUrl.trim() || null,
+      }
+
+      const response = await fetch(rule ? `/api/alerts/rules/${rule.id}` : '/api/alerts/rules', {
+        method: rule ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        onSave()
+      } else {
+        const fieldErrors = data.details ? Object.values(data.details).flat().join(', ') : ''
+        setError(fieldErrors || data.error || 'Failed to save alert rule')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{rule ? 'Edit Alert Rule' : 'New Alert Rule'}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="alert-enabled">Enabled</Label>
+          <Switch id="alert-enabled" checked={isEnabled} onCheckedChange={setIsEnabled} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="alert-name">Name</Label>
+          <Input
+            id="alert-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Money keywords dropped"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Trigger</Label>
+            <Select value={type} onValueChange={handleTypeChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ALERT_RULE_TYPES) as AlertRuleType[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {ALERT_RULE_TYPES[key].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="alert-threshold">{ALERT_RULE_TYPES[type].thresholdLabel}</Label>
+            <Input
+              id="alert-threshold"
+              type="number"
+              min={0.01}
+              step="any"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="alert-recipients">Email recipients</Label>
+          <Input
+            id="alert-recipients"
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+            placeholder="seo@example.com, client@example.com"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="alert-webhook">Webhook URL</Label>
+          <Input
+            id="alert-webhook"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            placeholder="https://hooks.example.com/alerts"
+          />
+          <p className="text-xs text-muted-foreground">
+            Receives a JSON POST for every alert. Slack and Teams incoming webhooks work too.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" onClick={onCancel} disabled={saving} className="cursor-pointer">
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+        )}
+        <Button onClick={handleSave} disabled={saving || !name.trim()} className="cursor-pointer">
+          {saving ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          {rule ? 'Save Rule' : 'Create Rule'}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,6 @@
+/**
+ * Alert Components
+ */
+
+export { AlertEventList, type AlertEventData } from './AlertEventList'
+export { AlertRuleForm, type AlertRuleData } from './AlertRuleForm'
@@ -7,26 +7,29 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { CheckCircle2, AlertCircle, AlertTriangle, TrendingUp } from 'lucide-react'
 import { generateActionPlan, getActionPlanSummary, type ActionItem } from '@/lib/seo/generate-action-plan'
+import type { ThresholdProfileConfig } from '@/lib/seo/threshold-profiles'
 
 interface ActionPlanTabProps {
   auditData: any
+  /** Domain's threshold profile; the baseline when omitted */
+  profile?: ThresholdProfileConfig
 }
 
-export function ActionPlanTab({ auditData }: ActionPlanTabProps): React.ReactElement {
+export function ActionPlanTab({ auditData, profile }: ActionPlanTabProps): React.ReactElement {
   const [actionPlan, setActionPlan] = useState<ActionItem[]>([])
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
     try {
       const stepResults = auditData.step_results || {}
-      const plan = generateActionPlan(stepResults)
+      const plan = generateActionPlan(stepResults, profile)
       setActionPlan(plan)
     } catch (error) {
       console.error('Error generating action plan:', error)
     } finally {
       setLoading(false)
     }
-  }, [auditData])
+  }, [auditData, profile])
 
   if (loading) {
     return (
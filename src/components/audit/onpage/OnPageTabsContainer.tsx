@@ -3,15 +3,18 @@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { FileText, AlertTriangle, Gauge } from 'lucide-react'
 import type { OnPageStepResult } from '@/types/audit'
+import type { ThresholdProfileConfig } from '@/lib/seo/threshold-profiles'
 import { OnPageContentTab } from './content-tab'
 import { TechnicalIssuesTab } from './issues-tab'
 import { PerformanceLighthouseTab } from './performance-tab'
 
 interface OnPageTabsContainerProps {
   data: OnPageStepResult
+  /** Domain's threshold profile; the baseline when omitted */
+  profile?: ThresholdProfileConfig
 }
 
-export function OnPageTabsContainer({ data }: OnPageTabsContainerProps): React.ReactElement {
+export function OnPageTabsContainer({ data, profile }: OnPageTabsContainerProps): React.ReactElement {
   return (
     <Tabs defaultValue="content" className="w-full">
       <TabsList className="grid w-full grid-cols-3">
@@ -33,15 +36,15 @@ export function OnPageTabsContainer({ data }: OnPageTabsContainerProps): React.R
       </TabsList>
 
       <TabsContent value="content" className="mt-6">
-        <OnPageContentTab data={data} />
+        <OnPageContentTab data={data} thresholds={profile?.thresholds} />
       </TabsContent>
 
       <TabsContent value="issues" className="mt-6">
-        <TechnicalIssuesTab data={data} />
+        <TechnicalIssuesTab data={data} profile={profile} />
       </TabsContent>
 
       <TabsContent value="performance" className="mt-6">
-        <PerformanceLighthouseTab data={data} />
+        <PerformanceLighthouseTab data={data} thresholds={profile?.thresholds} />
       </TabsContent>
     </Tabs>
   )
@@ -5,12 +5,13 @@ import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { BookOpen, FileText, BarChart3 } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { SEO_THRESHOLDS } from '@/lib/constants/seo-thresholds'
+import { SEO_THRESHOLDS, type SeoThresholds } from '@/lib/constants/seo-thresholds'
 import type { OnPageContent, OnPageMeta } from '@/types/audit'
 
 interface ContentAnalysisProps {
   content: OnPageContent | undefined
   meta: OnPageMeta | undefined
+  thresholds?: SeoThresholds
 }
 
 interface MetricCardProps {
@@ -52,9 +53,15 @@ interface ReadabilityScoreProps {
   label: string
   value: number | null | undefined
   description: string
+  thresholds: SeoThresholds['readability']
 }
 
-function ReadabilityScore({ label, value, description }: ReadabilityScoreProps): React.ReactElement {
+function ReadabilityScore({
+  label,
+  value,
+  description,
+  thresholds,
+}: ReadabilityScoreProps): React.ReactElement {
   if (value === null || value === undefined) {
     return (
       <div className="flex items-center justify-between py-2 border-b last:border-0">
@@ -68,7 +75,6 @@ function ReadabilityScore({ label, value, description }: ReadabilityScoreProps):
   }
 
   // Most readability indices are grade levels (lower = easier to read)
-  const thresholds = SEO_THRESHOLDS.readability
   let status: 'good' | 'moderate' | 'poor' = 'good'
   let statusLabel = 'Easy'
 
@@ -159,7 +165,11 @@ function ConsistencyScore({ label, value }: ConsistencyScoreProps): React.ReactE
   )
 }
 
-export function ContentAnalysis({ content, meta }: ContentAnalysisProps): React.ReactElement {
+export function ContentAnalysis({
+  content,
+  meta,
+  thresholds: profileThresholds = SEO_THRESHOLDS,
+}: ContentAnalysisProps): React.ReactElement {
   if (!content) {
     return (
       <Card>
@@ -179,7 +189,7 @@ export function ContentAnalysis({ content, meta }: ContentAnalysisProps): React.
     )
   }
 
-  const thresholds = SEO_THRESHOLDS.content
+  const thresholds = profileThresholds.content
   const wordCountStatus =
     content.plainTextWordCount >= thresholds.minWordCount
       ? content.plainTextWordCount <= thresholds.maxWordCount
@@ -241,26 +251,31 @@ export function ContentAnalysis({ content, meta }: ContentAnalysisProps): React.
           </div>
           <div className="bg-muted/30 rounded-lg p-4 space-y-0">
             <ReadabilityScore
+              thresholds={profileThresholds.readability}
               label="Flesch-Kincaid"
               value={content.fleschKincaidReadabilityIndex}
               description="Grade level (lower is easier)"
             />
             <ReadabilityScore
+              thresholds={profileThresholds.readability}
               label="Coleman-Liau"
               value={content.colemanLiauReadabilityIndex}
               description="Grade level estimate"
             />
             <ReadabilityScore
+              thresholds={profileThresholds.readability}
               label="Dale-Chall"
               value={content.daleChallReadabilityIndex}
               description="Vocabulary difficulty"
             />
             <ReadabilityScore
+              thresholds={profileThresholds.readability}
               label="SMOG"
               value={content.smogReadabilityIndex}
               description="Years of education needed"
             />
             <ReadabilityScore
+              thresholds={profileThresholds.readability}
               label="Automated Readability"
               value={content.automatedReadabilityIndex}
               description="Character-based grade level"
@@ -4,11 +4,12 @@ import { CheckCircle, XCircle, AlertTriangle, Link as LinkIcon, ImageIcon, Globe
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
-import { SEO_THRESHOLDS } from '@/lib/constants/seo-thresholds'
+import { SEO_THRESHOLDS, type SeoThresholds } from '@/lib/constants/seo-thresholds'
 import type { OnPageMeta } from '@/types/audit'
 
 interface MetaTagsSectionProps {
   meta: OnPageMeta | undefined
+  thresholds?: SeoThresholds
 }
 
 interface MetaFieldProps {
@@ -98,7 +99,10 @@ function SimpleField({
   )
 }
 
-export function MetaTagsSection({ meta }: MetaTagsSectionProps): React.ReactElement {
+export function MetaTagsSection({
+  meta,
+  thresholds = SEO_THRESHOLDS,
+}: MetaTagsSectionProps): React.ReactElement {
   if (!meta) {
     return (
       <Card>
@@ -110,8 +114,8 @@ export function MetaTagsSection({ meta }: MetaTagsSectionProps): React.ReactElem
     )
   }
 
-  const titleThresholds = SEO_THRESHOLDS.title
-  const descThresholds = SEO_THRESHOLDS.description
+  const titleThresholds = thresholds.title
+  const descThresholds = thresholds.description
 
   return (
     <Card>
@@ -1,6 +1,7 @@
 'use client'
 
 import type { OnPageStepResult } from '@/types/audit'
+import type { SeoThresholds } from '@/lib/constants/seo-thresholds'
 import { MetaTagsSection } from './MetaTagsSection'
 import { HeadingTree } from './HeadingTree'
 import { SocialTagsSection } from './SocialTagsSection'
@@ -8,13 +9,14 @@ import { ContentAnalysis } from './ContentAnalysis'
 
 interface OnPageContentTabProps {
   data: OnPageStepResult
+  thresholds?: SeoThresholds
 }
 
-export function OnPageContentTab({ data }: OnPageContentTabProps): React.ReactElement {
+export function OnPageContentTab({ data, thresholds }: OnPageContentTabProps): React.ReactElement {
   return (
     <div className="space-y-6">
       {/* Meta Tags - Title, Description, Canonical */}
-      <MetaTagsSection meta={data.meta} />
+      <MetaTagsSection meta={data.meta} thresholds={thresholds} />
 
       {/* Heading Structure - H1-H6 tree */}
       <HeadingTree htags={data.meta?.htags} />
@@ -23,7 +25,7 @@ export function OnPageContentTab({ data }: OnPageContentTabProps): React.ReactEl
       <SocialTagsSection socialTags={data.meta?.socialMediaTags} />
 
       {/* Content Analysis - Word count, Readability, Consistency */}
-      <ContentAnalysis content={data.content} meta={data.meta} />
+      <ContentAnalysis content={data.content} meta={data.meta} thresholds={thresholds} />
     </div>
   )
 }
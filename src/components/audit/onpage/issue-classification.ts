@@ -2,11 +2,12 @@
  * Issue Classification System
  *
  * Categorizes OnPage SEO checks into Errors, Warnings, and Notices.
- * Uses configurable severity from seo-thresholds.ts.
+ * Uses configurable severity from seo-thresholds.ts, or from the domain's
+ * threshold profile when one is passed.
  */
 
 import type { OnPageChecks } from '@/types/audit'
-import { ISSUE_SEVERITY_CONFIG } from '@/lib/constants/seo-thresholds'
+import { ISSUE_SEVERITY_CONFIG, type IssueSeverityConfig } from '@/lib/constants/seo-thresholds'
 import type { IssueDefinition, CategorizedIssues, IssueCounts } from './types'
 
 /**
@@ -150,11 +151,14 @@ export const ISSUE_DEFINITIONS: Record<keyof OnPageChecks, Omit<IssueDefinition,
 /**
  * Get the severity level for a check from config
  */
-function getSeverityForCheck(check: keyof OnPageChecks): 'error' | 'warning' | 'notice' | null {
+function getSeverityForCheck(
+  check: keyof OnPageChecks,
+  config: IssueSeverityConfig
+): 'error' | 'warning' | 'notice' | null {
   const checkStr = check as string
-  if ((ISSUE_SEVERITY_CONFIG.errors as readonly string[]).includes(checkStr)) return 'error'
-  if ((ISSUE_SEVERITY_CONFIG.warnings as readonly string[]).includes(checkStr)) return 'warning'
-  if ((ISSUE_SEVERITY_CONFIG.notices as readonly string[]).includes(checkStr)) return 'notice'
+  if (config.errors.includes(checkStr)) return 'error'
+  if (config.warnings.includes(checkStr)) return 'warning'
+  if (config.notices.includes(checkStr)) return 'notice'
   return null // Not configured - will be treated as passed or ignored
 }
 
@@ -168,7 +172,10 @@ function isCheckFailing(definition: Omit<IssueDefinition, 'severity'>, value: bo
 /**
  * Categorize all checks into errors, warnings, notices, and passed
  */
-export function categorizeIssues(checks: OnPageChecks | undefined): CategorizedIssues {
+export function categorizeIssues(
+  checks: OnPageChecks | undefined,
+  severityConfig: IssueSeverityConfig = ISSUE_SEVERITY_CONFIG
+): CategorizedIssues {
   const result: CategorizedIssues = {
     errors: [],
     warnings: [],
@@ -184,7 +191,7 @@ export function categorizeIssues(checks: OnPageChecks | undefined): CategorizedI
 
     if (!definition) continue
 
-    const severity = getSeverityForCheck(checkKey)
+    const severity = getSeverityForCheck(checkKey, severityConfig)
     const isFailing = isCheckFailing(definition, value)
 
     const fullDefinition: IssueDefinition = {
@@ -6,6 +6,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Badge } from '@/components/ui/badge'
 import { AlertCircle, AlertTriangle, Info, CheckCircle } from 'lucide-react'
 import type { OnPageStepResult } from '@/types/audit'
+import type { ThresholdProfileConfig } from '@/lib/seo/threshold-profiles'
 import { categorizeIssues, getIssueCounts } from '../issue-classification'
 import { calculateAllThematicReports } from '../thematic-reports'
 import { ThematicReportGrid } from './ThematicReportGrid'
@@ -14,16 +15,18 @@ import { IssueRow } from './IssueRow'
 
 interface TechnicalIssuesTabProps {
   data: OnPageStepResult
+  /** Domain's threshold profile; the baseline when omitted */
+  profile?: ThresholdProfileConfig
 }
 
-export function TechnicalIssuesTab({ data }: TechnicalIssuesTabProps): React.ReactElement {
+export function TechnicalIssuesTab({ data, profile }: TechnicalIssuesTabProps): React.ReactElement {
   const [issueFilter, setIssueFilter] = useState<'all' | 'errors' | 'warnings' | 'notices' | 'passed'>('all')
 
   // Calculate thematic reports
-  const thematicReports = calculateAllThematicReports(data)
+  const thematicReports = calculateAllThematicReports(data, profile)
 
   // Categorize issues
-  const categorizedIssues = categorizeIssues(data.checks)
+  const categorizedIssues = categorizeIssues(data.checks, profile?.severity)
   const issueCounts = getIssueCounts(categorizedIssues)
 
   // Filter issues based on selection
@@ -5,13 +5,14 @@ import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Gauge, Clock, Move, Pointer } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { SEO_THRESHOLDS } from '@/lib/constants/seo-thresholds'
+import { SEO_THRESHOLDS, type SeoThresholds } from '@/lib/constants/seo-thresholds'
 import type { OnPageTiming, OnPageMeta } from '@/types/audit'
 import type { CwvStatus } from '../types'
 
 interface CoreWebVitalsCardProps {
   timing: OnPageTiming | undefined
   meta: OnPageMeta | undefined
+  thresholds?: SeoThresholds
 }
 
 interface VitalMetricProps {
@@ -113,8 +114,12 @@ function VitalMetric({
   )
 }
 
-export function CoreWebVitalsCard({ timing, meta }: CoreWebVitalsCardProps): React.ReactElement {
-  const thresholds = SEO_THRESHOLDS.coreWebVitals
+export function CoreWebVitalsCard({
+  timing,
+  meta,
+  thresholds: profileThresholds = SEO_THRESHOLDS,
+}: CoreWebVitalsCardProps): React.ReactElement {
+  const thresholds = profileThresholds.coreWebVitals
 
   // Get CLS from meta (it's stored there in the current data structure)
   const cls = meta?.cumulativeLayoutShift
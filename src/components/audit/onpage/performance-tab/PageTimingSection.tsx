@@ -3,11 +3,12 @@
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Timer, Server, Download, Wifi } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { SEO_THRESHOLDS } from '@/lib/constants/seo-thresholds'
+import { SEO_THRESHOLDS, type SeoThresholds } from '@/lib/constants/seo-thresholds'
 import type { OnPageTiming } from '@/types/audit'
 
 interface PageTimingSectionProps {
   timing: OnPageTiming | undefined
+  thresholds?: SeoThresholds
 }
 
 interface TimingRowProps {
@@ -51,8 +52,11 @@ function TimingRow({ label, value, icon, threshold, description }: TimingRowProp
   )
 }
 
-export function PageTimingSection({ timing }: PageTimingSectionProps): React.ReactElement {
-  const thresholds = SEO_THRESHOLDS.performance
+export function PageTimingSection({
+  timing,
+  thresholds: profileThresholds = SEO_THRESHOLDS,
+}: PageTimingSectionProps): React.ReactElement {
+  const thresholds = profileThresholds.performance
 
   if (!timing) {
     return (
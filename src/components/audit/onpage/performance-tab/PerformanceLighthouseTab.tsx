@@ -1,6 +1,7 @@
 'use client'
 
 import type { OnPageStepResult } from '@/types/audit'
+import type { SeoThresholds } from '@/lib/constants/seo-thresholds'
 import { CoreWebVitalsCard } from './CoreWebVitalsCard'
 import { PageTimingSection } from './PageTimingSection'
 import { ResourcesSection } from './ResourcesSection'
@@ -8,19 +9,23 @@ import { LighthouseAudits } from './LighthouseAudits'
 
 interface PerformanceLighthouseTabProps {
   data: OnPageStepResult
+  thresholds?: SeoThresholds
 }
 
-export function PerformanceLighthouseTab({ data }: PerformanceLighthouseTabProps): React.ReactElement {
+export function PerformanceLighthouseTab({
+  data,
+  thresholds,
+}: PerformanceLighthouseTabProps): React.ReactElement {
   return (
     <div className="space-y-6">
       {/* Core Web Vitals - LCP, FID, CLS */}
-      <CoreWebVitalsCard timing={data.timing} meta={data.meta} />
+      <CoreWebVitalsCard timing={data.timing} meta={data.meta} thresholds={thresholds} />
 
       {/* Page Timing - Connection and render timing */}
-      <PageTimingSection timing={data.timing} />
+      <PageTimingSection timing={data.timing} thresholds={thresholds} />
 
       {/* Resources - Size and compression */}
-      <ResourcesSection resources={data.resources} />
+      <ResourcesSection resources={data.resources} thresholds={thresholds} />
 
       {/* Lighthouse Results - Category scores and individual audits */}
       <LighthouseAudits lighthouse={data.lighthouse} />
@@ -5,11 +5,12 @@ import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { HardDrive, FileCode, Server, AlertTriangle, CheckCircle } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { SEO_THRESHOLDS } from '@/lib/constants/seo-thresholds'
+import { SEO_THRESHOLDS, type SeoThresholds } from '@/lib/constants/seo-thresholds'
 import type { OnPageResources } from '@/types/audit'
 
 interface ResourcesSectionProps {
   resources: OnPageResources | undefined
+  thresholds?: SeoThresholds
 }
 
 function formatBytes(bytes: number): string {
@@ -25,10 +26,16 @@ interface SizeMetricProps {
   bytes: number
   maxBytes?: number
   description?: string
+  thresholds: SeoThresholds['pageSize']
 }
 
-function SizeMetric({ label, bytes, maxBytes, description }: SizeMetricProps): React.ReactElement {
-  const thresholds = SEO_THRESHOLDS.pageSize
+function SizeMetric({
+  label,
+  bytes,
+  maxBytes,
+  description,
+  thresholds,
+}: SizeMetricProps): React.ReactElement {
   const status =
     bytes >= thresholds.max
       ? 'poor'
@@ -82,8 +89,11 @@ function SizeMetric({ label, bytes, maxBytes, description }: SizeMetricProps): R
   )
 }
 
-export function ResourcesSection({ resources }: ResourcesSectionProps): React.ReactElement {
-  const thresholds = SEO_THRESHOLDS.pageSize
+export function ResourcesSection({
+  resources,
+  thresholds: profileThresholds = SEO_THRESHOLDS,
+}: ResourcesSectionProps): React.ReactElement {
+  const thresholds = profileThresholds.pageSize
 
   if (!resources) {
     return (
@@ -125,24 +135,28 @@ export function ResourcesSection({ resources }: ResourcesSectionProps): React.Re
         {/* Size metrics */}
         <div className="grid gap-4 md:grid-cols-4">
           <SizeMetric
+            thresholds={thresholds}
             label="Page Size"
             bytes={resources.size}
             maxBytes={thresholds.max}
             description="Total uncompressed size"
           />
           <SizeMetric
+            thresholds={thresholds}
             label="Encoded Size"
             bytes={resources.encodedSize}
             maxBytes={thresholds.max}
             description="Compressed size"
           />
           <SizeMetric
+            thresholds={thresholds}
             label="Transfer Size"
             bytes={resources.totalTransferSize}
             maxBytes={thresholds.max}
             description="Total transferred"
           />
           <SizeMetric
+            thresholds={thresholds}
             label="DOM Size"
             bytes={resources.totalDomSize}
             description="DOM tree size"
@@ -8,10 +8,16 @@
  * - Site Performance
  * - Internal Linking
  * - Markup
+ *
+ * Weights and thresholds come from the domain's threshold profile, or the
+ * baseline in seo-thresholds.ts when none is passed.
  */
 
 import type { OnPageStepResult, OnPageChecks, OnPageTiming, OnPageMeta } from '@/types/audit'
-import { THEMATIC_SCORE_WEIGHTS, SEO_THRESHOLDS } from '@/lib/constants/seo-thresholds'
+import {
+  DEFAULT_THRESHOLD_PROFILE,
+  type ThresholdProfileConfig,
+} from '@/lib/seo/threshold-profiles'
 import type { ThematicReport, ThematicReports } from './types'
 
 /**
@@ -47,12 +53,15 @@ function getStatus(score: number): 'good' | 'moderate' | 'poor' {
 /**
  * Calculate Crawlability score
  */
-export function calculateCrawlabilityScore(checks: OnPageChecks | undefined): ThematicReport {
+export function calculateCrawlabilityScore(
+  checks: OnPageChecks | undefined,
+  profile: ThresholdProfileConfig = DEFAULT_THRESHOLD_PROFILE
+): ThematicReport {
   if (!checks) {
     return { id: 'crawlability', title: 'Crawlability', score: 0, status: 'poor' }
   }
 
-  const weights = THEMATIC_SCORE_WEIGHTS.crawlability
+  const weights = profile.weights.crawlability
   const score = calculateWeightedScore([
     { value: !checks.isBroken, weight: weights.notBroken },
     { value: !checks.is4xxCode, weight: weights.no4xxCode },
@@ -75,13 +84,14 @@ export function calculateCrawlabilityScore(checks: OnPageChecks | undefined): Th
  */
 export function calculateHttpsScore(
   checks: OnPageChecks | undefined,
-  httpsVerified: boolean | undefined
+  httpsVerified: boolean | undefined,
+  profile: ThresholdProfileConfig = DEFAULT_THRESHOLD_PROFILE
 ): ThematicReport {
   if (!checks) {
     return { id: 'https', title: 'HTTPS', score: 0, status: 'poor' }
   }
 
-  const weights = THEMATIC_SCORE_WEIGHTS.https
+  const weights = profile.weights.https
   const score = calculateWeightedScore([
     { value: checks.isHttps, weight: weights.isHttps },
     { value: !checks.httpsToHttpLinks, weight: weights.noMixedContent },
@@ -101,14 +111,15 @@ export function calculateHttpsScore(
  */
 export function calculateCoreWebVitalsScore(
   timing: OnPageTiming | undefined,
-  meta: OnPageMeta | undefined
+  meta: OnPageMeta | undefined,
+  profile: ThresholdProfileConfig = DEFAULT_THRESHOLD_PROFILE
 ): ThematicReport {
   if (!timing) {
     return { id: 'coreWebVitals', title: 'Core Web Vitals', score: 0, status: 'poor' }
   }
 
-  const thresholds = SEO_THRESHOLDS.coreWebVitals
-  const weights = THEMATIC_SCORE_WEIGHTS.coreWebVitals
+  const thresholds = profile.thresholds.coreWebVitals
+  const weights = profile.weights.coreWebVitals
 
   let score = 0
   let totalWeight = 0
@@ -157,12 +168,15 @@ export function calculateCoreWebVitalsScore(
 /**
  * Calculate Site Performance score
  */
-export function calculatePerformanceScore(checks: OnPageChecks | undefined): ThematicReport {
+export function calculatePerformanceScore(
+  checks: OnPageChecks | undefined,
+  profile: ThresholdProfileConfig = DEFAULT_THRESHOLD_PROFILE
+): ThematicReport {
   if (!checks) {
     return { id: 'performance', title: 'Site Performance', score: 0, status: 'poor' }
   }
 
-  const weights = THEMATIC_SCORE_WEIGHTS.performance
+  const weights = profile.weights.performance
   const score = calculateWeightedScore([
     { value: !checks.highLoadingTime, weight: weights.noHighLoadTime },
     { value: !checks.highWaitingTime, weight: weights.noHighWaitTime },
@@ -184,14 +198,15 @@ export function calculatePerformanceScore(checks: OnPageChecks | undefined): The
  */
 export function calculateInternalLinkingScore(
   checks: OnPageChecks | undefined,
-  meta: OnPageMeta | undefined
+  meta: OnPageMeta | undefined,
+  profile: ThresholdProfileConfig = DEFAULT_THRESHOLD_PROFILE
 ): ThematicReport {
   if (!checks || !meta) {
     return { id: 'internalLinking', title: 'Internal Linking', score: 0, status: 'poor' }
   }
 
-  const weights = THEMATIC_SCORE_WEIGHTS.internalLinking
-  const thresholds = SEO_THRESHOLDS.links
+  const weights = profile.weights.internalLinking
+  const thresholds = profile.thresholds.links
 
   // Calculate if has enough internal links
   const hasInternalLinks = meta.internalLinksCount >= thresholds.minInternalLinks
@@ -218,12 +233,15 @@ export function calculateInternalLinkingScore(
 /**
  * Calculate Markup score
  */
-export function calculateMarkupScore(checks: OnPageChecks | undefined): ThematicReport {
+export function calculateMarkupScore(
+  checks: OnPageChecks | undefined,
+  profile: ThresholdProfileConfig = DEFAULT_THRESHOLD_PROFILE
+): ThematicReport {
   if (!checks) {
     return { id: 'markup', title: 'Markup', score: 0, status: 'poor' }
   }
 
-  const weights = THEMATIC_SCORE_WEIGHTS.markup
+  const weights = profile.weights.markup
   const score = calculateWeightedScore([
     { value: checks.hasHtmlDoctype, weight: weights.hasDoctype },
     { value: !checks.deprecatedHtmlTags, weight: weights.noDeprecatedTags },
@@ -244,14 +262,17 @@ export function calculateMarkupScore(checks: OnPageChecks | undefined): Thematic
 /**
  * Calculate all thematic reports
  */
-export function calculateAllThematicReports(data: OnPageStepResult): ThematicReports {
+export function calculateAllThematicReports(
+  data: OnPageStepResult,
+  profile: ThresholdProfileConfig = DEFAULT_THRESHOLD_PROFILE
+): ThematicReports {
   return {
-    crawlability: calculateCrawlabilityScore(data.checks),
-    https: calculateHttpsScore(data.checks, data.httpsVerified),
-    coreWebVitals: calculateCoreWebVitalsScore(data.timing, data.meta),
-    performance: calculatePerformanceScore(data.checks),
-    internalLinking: calculateInternalLinkingScore(data.checks, data.meta),
-    markup: calculateMarkupScore(data.checks),
+    crawlability: calculateCrawlabilityScore(data.checks, profile),
+    https: calculateHttpsScore(data.checks, data.httpsVerified, profile),
+    coreWebVitals: calculateCoreWebVitalsScore(data.timing, data.meta, profile),
+    performance: calculatePerformanceScore(data.checks, profile),
+    internalLinking: calculateInternalLinkingScore(data.checks, data.meta, profile),
+    markup: calculateMarkupScore(data.checks, profile),
   }
 }
 
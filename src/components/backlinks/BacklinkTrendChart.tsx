@@ -0,0 +1,101 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts'
+import { Button } from '@/components/ui/button'
+import type { BacklinkTrendPoint } from '@/lib/seo/backlink-history'
+
+type TrendMetric = 'totalBacklinks' | 'referringDomains' | 'domainRank' | 'spamScore'
+
+const METRICS: Array<{ key: TrendMetric; label: string; color: string }> = [
+  { key: 'totalBacklinks', label: 'Backlinks', color: '#2563EB' },
+  { key: 'referringDomains', label: 'Referring Domains', color: '#059669' },
+  { key: 'domainRank', label: 'Domain Rank', color: '#7C3AED' },
+  { key: 'spamScore', label: 'Spam Score', color: '#DC2626' },
+]
+
+interface BacklinkTrendChartProps {
+  points: BacklinkTrendPoint[]
+}
+
+/**
+ * One backlink profile metric across snapshots, switchable between metrics
+ */
+export function BacklinkTrendChart({ points }: BacklinkTrendChartProps) {
+  const [metric, setMetric] = useState<TrendMetric>('referringDomains')
+  const selected = METRICS.find((m) => m.key === metric) ?? METRICS[0]!
+
+  const data = points.map((point) => ({
+    date: new Date(point.fetchedAt).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+    }),
+    value: point[metric],
+  }))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {METRICS.map((m) => (
+          <Button
+            key={m.key}
+            size="sm"
+            variant={m.key === metric ? 'default' : 'outline'}
+            onClick={() => setMetric(m.key)}
+          >
+            {m.label}
+          </Button>
+        ))}
+      </div>
+
+      {data.length < 2 ? (
+        <div className="h-[250px] flex items-center justify-center text-sm text-muted-foreground text-center">
+          Trends appear after the second backlink refresh.
+        </div>
+      ) : (
+        <div className="h-[250px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
+              <XAxis
+                dataKey="date"
+                tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
+                axisLine={{ stroke: 'var(--border)' }}
+                tickLine={{ stroke: 'var(--border)' }}
+              />
+              <YAxis
+                allowDecimals={false}
+                tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
+                axisLine={{ stroke: 'var(--border)' }}
+                tickLine={{ stroke: 'var(--border)' }}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'var(--card)',
+                  border: '1px solid var(--border)',
+                  borderRadius: '8px',
+                }}
+                formatter={(value) => [value, selected.label]}
+              />
+              <Line
+                type="monotone"
+                dataKey="value"
+                stroke={selected.color}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, ShieldAlert, Download, Check, Ban } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { SpamScoreIndicator } from './SpamScoreIndicator'
+
+type DisavowDecision = 'PENDING' | 'DISAVOW' | 'KEEP'
+
+interface DisavowEntry {
+  id: string
+  type: 'DOMAIN' | 'URL'
+  value: string
+  referringDomain: string
+  spamScore: number
+  domainRank: number | null
+  backlinks: number
+  dofollowBacklinks: number
+  decision: DisavowDecision
+  reason: string | null
+}
+
+interface DisavowPanelProps {
+  domainId: string
+}
+
+/**
+ * Review toxic referring domains/URLs and export the disavow file
+ */
+export function DisavowPanel({ domainId }: DisavowPanelProps) {
+  const [entries, setEntries] = useState<DisavowEntry[]>([])
+  const [reasons, setReasons] = useState<Record<string, string>>({})
+  const [filter, setFilter] = useState<'ALL' | DisavowDecision>('ALL')
+  const [loading, setLoading] = useState(true)
+  const [scanning, setScanning] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Bumped to reload the entries after a scan
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/backlinks/disavow?domainId=${domainId}`)
+        const data = await response.json()
+
+        if (data.success) {
+          setEntries(data.data)
+          setReasons(
+            Object.fromEntries(
+              (data.data as DisavowEntry[]).map((entry) => [entry.id, entry.reason ?? ''])
+            )
+          )
+        } else {
+          setError(data.error || 'Failed to load disavow entries')
+        }
+      } catch {
+        setError('Failed to connect to server')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [domainId, reloadKey])
+
+  const handleScan = async () => {
+    setScanning(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/backlinks/disavow', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domainId }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setMessage(
+          `Scanned ${data.data.backlinksScanned} backlinks: ${data.data.candidates} toxic, ${data.data.newEntries} new`
+        )
+        setReloadKey((key) => key + 1)
+      } else {
+        setError(data.error || 'Failed to scan backlinks')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const updateEntry = async (entry: DisavowEntry, decision: DisavowDecision) => {
+    setUpdatingId(entry.id)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/backlinks/disavow/${entry.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domainId, decision, reason: reasons[entry.id] || null }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setEntries((prev) => prev.map((e) => (e.id === entry.id ? data.data : e)))
+      } else {
+        setError(data.error || 'Failed to update entry')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const visible = filter === 'ALL' ? entries : entries.filter((e) => e.decision === filter)
+  const disavowCount = entries.filter((e) => e.decision === 'DISAVOW').length
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Disavow Builder</CardTitle>
+          <CardDescription>
+            Toxic referring domains and pages by spam score. Decisions are kept across scans.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleScan} disabled={scanning}>
+            {scanning ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ShieldAlert className="mr-2 h-4 w-4" />
+            )}
+            Scan for Toxic Links
+          </Button>
+          <Button asChild disabled={disavowCount === 0}>
+            <a href={`/api/backlinks/disavow/export?domainId=${domainId}`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export ({disavowCount})
+            </a>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-end">
+          <Select value={filter} onValueChange={(value) => setFilter(value as typeof filter)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">All entries</SelectItem>
+              <SelectItem value="PENDING">Needs review</SelectItem>
+              <SelectItem value="DISAVOW">Disavow</SelectItem>
+              <SelectItem value="KEEP">Keep</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : visible.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Domain / URL</TableHead>
+                <TableHead>Spam Score</TableHead>
+                <TableHead className="text-right">Links</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="w-[180px]">Decision</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="max-w-[320px]">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{entry.type === 'DOMAIN' ? 'Domain' : 'URL'}</Badge>
+                      <span className="truncate font-medium" title={entry.value}>
+                        {entry.value}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <SpamScoreIndicator score={entry.spamScore} size="sm" />
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {entry.backlinks}
+                    <span className="text-muted-foreground"> ({entry.dofollowBacklinks} dofollow)</span>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={reasons[entry.id] ?? ''}
+                      placeholder="Why disavow?"
+                      className="h-8"
+                      onChange={(e) =>
+                        setReasons((prev) => ({ ...prev, [entry.id]: e.target.value }))
+                      }
+                      onBlur={() => {
+                        if ((reasons[entry.id] ?? '') !== (entry.reason ?? '')) {
+                          updateEntry(entry, entry.decision)
+                        }
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant={entry.decision === 'DISAVOW' ? 'destructive' : 'outline'}
+                        disabled={updatingId === entry.id}
+                        onClick={() =>
+                          updateEntry(entry, entry.decision === 'DISAVOW' ? 'PENDING' : 'DISAVOW')
+                        }
+                      >
+                        <Ban className="mr-1 h-3 w-3" />
+                        Disavow
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={entry.decision === 'KEEP' ? 'default' : 'outline'}
+                        disabled={updatingId === entry.id}
+                        onClick={() =>
+                          updateEntry(entry, entry.decision === 'KEEP' ? 'PENDING' : 'KEEP')
+                        }
+                      >
+                        <Check className="mr-1 h-3 w-3" />
+                        Keep
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-muted-foreground text-sm py-8 text-center">
+            {entries.length === 0
+              ? 'No toxic links found yet. Run a scan to check spam scores.'
+              : 'No entries match this filter'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,351 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Plus, Trash2, BadgeCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  LINK_PROSPECT_STAGES,
+  LINK_PROSPECT_STAGE_LABELS,
+  type LinkProspectStage,
+} from '@/lib/seo/link-prospects'
+import { DomainRankBadge } from './DomainRankBadge'
+
+interface LinkProspect {
+  id: string
+  prospectDomain: string
+  stage: LinkProspectStage
+  source: string
+  domainRank: number | null
+  spamScore: number | null
+  linksToCompetitors: string[]
+  targetUrl: string | null
+  anchorPlan: string | null
+  notes: string | null
+  verifiedAt: string | null
+}
+
+type EditableField = 'targetUrl' | 'anchorPlan' | 'notes'
+
+function toDraft(p: LinkProspect): Record<EditableField, string> {
+  return {
+    targetUrl: p.targetUrl ?? '',
+    anchorPlan: p.anchorPlan ?? '',
+    notes: p.notes ?? '',
+  }
+}
+
+interface LinkProspectPipelineProps {
+  domainId: string
+}
+
+/**
+ * Outreach pipeline for link-building prospects. Links are verified
+ * automatically when a backlink refresh finds the prospect referring to us.
+ */
+export function LinkProspectPipeline({ domainId }: LinkProspectPipelineProps) {
+  const [prospects, setProspects] = useState<LinkProspect[]>([])
+  const [drafts, setDrafts] = useState<Record<string, Record<EditableField, string>>>({})
+  const [filter, setFilter] = useState<'ALL' | LinkProspectStage>('ALL')
+  const [newDomain, setNewDomain] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [adding, setAdding] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchProspects = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/backlinks/prospects?domainId=${domainId}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setProspects(data.data)
+        setDrafts(
+          Object.fromEntries((data.data as LinkProspect[]).map((p) => [p.id, toDraft(p)]))
+        )
+      } else {
+        setError(data.error || 'Failed to load prospects')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setLoading(false)
+    }
+  }, [domainId])
+
+  useEffect(() => {
+    fetchProspects()
+  }, [fetchProspects])
+
+  const handleAdd = async () => {
+    if (!newDomain.trim()) return
+    setAdding(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/backlinks/prospects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domainId, source: 'manual', prospects: [{ domain: newDomain }] }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        if (data.data.added === 0) setError('That domain is already in the pipeline')
+        setNewDomain('')
+        await fetchProspects()
+      } else {
+        setError(data.error || 'Failed to add prospect')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const updateProspect = async (
+    prospect: LinkProspect,
+    update: Partial<Record<EditableField, string | null>> & { stage?: LinkProspectStage }
+  ) => {
+    setUpdatingId(prospect.id)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/backlinks/prospects/${prospect.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domainId, ...update }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setProspects((prev) => prev.map((p) => (p.id === prospect.id ? data.data : p)))
+        setDrafts((prev) => ({ ...prev, [prospect.id]: toDraft(data.data) }))
+      } else {
+        setError(data.error || 'Failed to update prospect')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const deleteProspect = async (prospect: LinkProspect) => {
+    setUpdatingId(prospect.id)
+    setError(null)
+
+    try {
+      const response = await fetch(
+        `/api/backlinks/prospects/${prospect.id}?domainId=${domainId}`,
+        { method: 'DELETE' }
+      )
+      const data = await response.json()
+
+      if (data.success) {
+        setProspects((prev) => prev.filter((p) => p.id !== prospect.id))
+      } else {
+        setError(data.error || 'Failed to delete prospect')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const saveField = (prospect: LinkProspect, field: EditableField) => {
+    const value = drafts[prospect.id]?.[field] ?? ''
+    if (value !== (prospect[field] ?? '')) {
+      updateProspect(prospect, { [field]: value || null })
+    }
+  }
+
+  const setDraft = (id: string, field: EditableField, value: string) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [id]: { ...(prev[id] ?? { targetUrl: '', anchorPlan: '', notes: '' }), [field]: value },
+    }))
+  }
+
+  const visible = filter === 'ALL' ? prospects : prospects.filter((p) => p.stage === filter)
+  const stageCounts = Object.fromEntries(
+    LINK_PROSPECT_STAGES.map((stage) => [stage, prospects.filter((p) => p.stage === stage).length])
+  ) as Record<LinkProspectStage, number>
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Outreach Pipeline</CardTitle>
+          <CardDescription>
+            Link prospects from backlink gap analysis. Links are verified on the next backlink
+            refresh.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            value={newDomain}
+            placeholder="example.com"
+            className="w-[200px]"
+            onChange={(e) => setNewDomain(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd()
+            }}
+          />
+          <Button variant="outline" onClick={handleAdd} disabled={adding || !newDomain.trim()}>
+            {adding ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Add
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant={filter === 'ALL' ? 'default' : 'outline'}
+            onClick={() => setFilter('ALL')}
+          >
+            All ({prospects.length})
+          </Button>
+          {LINK_PROSPECT_STAGES.map((stage) => (
+            <Button
+              key={stage}
+              size="sm"
+              variant={filter === stage ? 'default' : 'outline'}
+              onClick={() => setFilter(stage)}
+            >
+              {LINK_PROSPECT_STAGE_LABELS[stage]} ({stageCounts[stage]})
+            </Button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : visible.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Prospect</TableHead>
+                <TableHead className="w-[150px]">Stage</TableHead>
+                <TableHead>Target URL</TableHead>
+                <TableHead>Anchor Plan</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead className="w-[50px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((prospect) => (
+                <TableRow key={prospect.id}>
+                  <TableCell className="max-w-[240px]">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-medium" title={prospect.prospectDomain}>
+                        {prospect.prospectDomain}
+                      </span>
+                      {prospect.domainRank !== null && (
+                        <DomainRankBadge rank={prospect.domainRank} />
+                      )}
+                    </div>
+                    <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                      {prospect.verifiedAt ? (
+                        <Badge variant="secondary" className="bg-green-100 text-green-800">
+                          <BadgeCheck className="mr-1 h-3 w-3" />
+                          Verified {new Date(prospect.verifiedAt).toLocaleDateString()}
+                        </Badge>
+                      ) : (
+                        prospect.linksToCompetitors.length > 0 && (
+                          <span>Links to {prospect.linksToCompetitors.length} competitors</span>
+                        )
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={prospect.stage}
+                      disabled={updatingId === prospect.id}
+                      onValueChange={(value) =>
+                        updateProspect(prospect, { stage: value as LinkProspectStage })
+                      }
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LINK_PROSPECT_STAGES.map((stage) => (
+                          <SelectItem key={stage} value={stage}>
+                            {LINK_PROSPECT_STAGE_LABELS[stage]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  {(['targetUrl', 'anchorPlan', 'notes'] as const).map((field) => (
+                    <TableCell key={field}>
+                      <Input
+                        value={drafts[prospect.id]?.[field] ?? ''}
+                        placeholder={
+                          field === 'targetUrl'
+                            ? 'https://…'
+                            : field === 'anchorPlan'
+                              ? 'Anchor text'
+                              : 'Contact, status…'
+                        }
+                        className="h-8"
+                        onChange={(e) => setDraft(prospect.id, field, e.target.value)}
+                        onBlur={() => saveField(prospect, field)}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      disabled={updatingId === prospect.id}
+                      onClick={() => deleteProspect(prospect)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Remove prospect</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-muted-foreground text-sm py-8 text-center">
+            {prospects.length === 0
+              ? 'No prospects yet. Add gap domains from a competitor comparison, or add one above.'
+              : 'No prospects in this stage'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
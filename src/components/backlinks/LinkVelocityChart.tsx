@@ -10,40 +10,35 @@ import {
   ResponsiveContainer,
   Legend,
 } from 'recharts'
+import type { BacklinkTrendPoint } from '@/lib/seo/backlink-history'
 
 interface LinkVelocityChartProps {
-  newBacklinks30d: number | null
-  lostBacklinks30d: number | null
-  newReferring30d: number | null
-  lostReferring30d: number | null
+  points: BacklinkTrendPoint[]
 }
 
-export function LinkVelocityChart({
-  newBacklinks30d,
-  lostBacklinks30d,
-  // newReferring30d, lostReferring30d - reserved for future domain-level chart
-}: LinkVelocityChartProps) {
-  // Generate mock historical data based on available 30d data
-  const generateHistoricalData = () => {
-    const data = []
-    const baseNew = (newBacklinks30d || 0) / 30
-    const baseLost = (lostBacklinks30d || 0) / 30
-    
-    for (let i = 30; i >= 0; i -= 5) {
-      const dayLabel = i === 0 ? 'Today' : `${i}d ago`
-      const randomVariation = 0.7 + Math.random() * 0.6
-      
-      data.push({
-        day: dayLabel,
-        new: Math.round(baseNew * 5 * randomVariation),
-        lost: Math.round(baseLost * 5 * randomVariation),
-      })
-    }
-    
-    return data
-  }
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
 
-  const data = generateHistoricalData()
+/**
+ * New and lost referring domains between consecutive backlink snapshots
+ */
+export function LinkVelocityChart({ points }: LinkVelocityChartProps) {
+  const data = points
+    .filter((point) => point.newReferringDomains !== null)
+    .map((point) => ({
+      date: formatDate(point.fetchedAt),
+      new: point.newReferringDomains ?? 0,
+      lost: point.lostReferringDomains ?? 0,
+    }))
+
+  if (data.length === 0) {
+    return (
+      <div className="h-[250px] flex items-center justify-center text-sm text-muted-foreground text-center">
+        Link velocity appears after the second backlink refresh.
+      </div>
+    )
+  }
 
   return (
     <div className="h-[250px]">
@@ -64,12 +59,13 @@ export function LinkVelocityChart({
           </defs>
           <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
           <XAxis 
-            dataKey="day" 
+            dataKey="date" 
             tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
             axisLine={{ stroke: 'var(--border)' }}
             tickLine={{ stroke: 'var(--border)' }}
           />
           <YAxis 
+            allowDecimals={false}
             tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
             axisLine={{ stroke: 'var(--border)' }}
             tickLine={{ stroke: 'var(--border)' }}
@@ -85,7 +81,7 @@ export function LinkVelocityChart({
             verticalAlign="top"
             height={36}
             formatter={(value) => (
-              <span className="text-sm text-muted-foreground capitalize">{value} Links</span>
+              <span className="text-sm text-muted-foreground capitalize">{value} Domains</span>
             )}
           />
           <Area
@@ -109,4 +105,3 @@ export function LinkVelocityChart({
     </div>
   )
 }
-
@@ -0,0 +1,323 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, RotateCcw, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { DomainRankBadge } from './DomainRankBadge'
+
+type LostBacklinkStatus = 'OPEN' | 'RECLAIMED' | 'DISMISSED'
+
+interface LostBacklink {
+  id: string
+  referringDomain: string
+  domainRank: number
+  backlinks: number
+  dofollow: boolean
+  lastSeenAt: string
+  status: LostBacklinkStatus
+  detectedAt: string
+}
+
+interface MonitoringSettings {
+  backlinkMonitorEnabled: boolean
+  backlinkMonitorIntervalDays: number
+  backlinkLostLinkMinRank: number
+}
+
+const CADENCE_OPTIONS = [
+  { value: '7', label: 'Weekly' },
+  { value: '14', label: 'Every 2 weeks' },
+  { value: '30', label: 'Monthly' },
+]
+
+const STATUS_BADGES: Record<LostBacklinkStatus, { label: string; className: string }> = {
+  OPEN: {
+    label: 'Lost',
+    className: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300',
+  },
+  RECLAIMED: {
+    label: 'Reclaimed',
+    className: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300',
+  },
+  DISMISSED: {
+    label: 'Dismissed',
+    className: 'bg-muted text-muted-foreground',
+  },
+}
+
+interface LostBacklinksPanelProps {
+  domainId: string
+}
+
+/**
+ * Scheduled monitoring settings and the lost high-rank referring domains it found
+ */
+export function LostBacklinksPanel({ domainId }: LostBacklinksPanelProps) {
+  const [links, setLinks] = useState<LostBacklink[]>([])
+  const [settings, setSettings] = useState<MonitoringSettings | null>(null)
+  const [minRankInput, setMinRankInput] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true)
+      try {
+        const [linksResponse, settingsResponse] = await Promise.all([
+          fetch(`/api/backlinks/lost-links?domainId=${domainId}`),
+          fetch(`/api/domains/${domainId}/settings`),
+        ])
+        const [linksData, settingsData] = await Promise.all([
+          linksResponse.json(),
+          settingsResponse.json(),
+        ])
+
+        if (linksData.success) setLinks(linksData.data)
+        if (settingsData.success && settingsData.data) {
+          setSettings(settingsData.data)
+          setMinRankInput(String(settingsData.data.backlinkLostLinkMinRank))
+        }
+      } catch {
+        setError('Failed to load lost backlinks')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [domainId])
+
+  const saveSettings = async (update: Partial<MonitoringSettings>) => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/domains/${domainId}/settings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setSettings((prev) => (prev ? { ...prev, ...update } : prev))
+      } else {
+        setError(data.error || 'Failed to save monitoring settings')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleMinRankBlur = () => {
+    const minRank = Number(minRankInput)
+    if (!Number.isInteger(minRank) || minRank < 0 || minRank > 1000) {
+      setError('Minimum rank must be a whole number from 0 to 1000')
+      return
+    }
+    if (minRank !== settings?.backlinkLostLinkMinRank) {
+      saveSettings({ backlinkLostLinkMinRank: minRank })
+    }
+  }
+
+  const updateStatus = async (link: LostBacklink, status: LostBacklinkStatus) => {
+    setUpdatingId(link.id)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/backlinks/lost-links/${link.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domainId, status }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setLinks((prev) => prev.map((l) => (l.id === link.id ? { ...l, status } : l)))
+      } else {
+        setError(data.error || 'Failed to update lost link')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const openCount = links.filter((l) => l.status === 'OPEN').length
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Backlink Monitoring</CardTitle>
+          <CardDescription>
+            Refreshes the backlink profile on a schedule and records high-rank referring domains
+            that disappear
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading || !settings ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="grid gap-6 md:grid-cols-3">
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="backlink-monitor-enabled"
+                  checked={settings.backlinkMonitorEnabled}
+                  disabled={saving}
+                  onCheckedChange={(checked) => saveSettings({ backlinkMonitorEnabled: checked })}
+                />
+                <Label htmlFor="backlink-monitor-enabled">Scheduled monitoring</Label>
+              </div>
+              <div className="space-y-2">
+                <Label>Cadence</Label>
+                <Select
+                  value={String(settings.backlinkMonitorIntervalDays)}
+                  disabled={saving || !settings.backlinkMonitorEnabled}
+                  onValueChange={(value) =>
+                    saveSettings({ backlinkMonitorIntervalDays: Number(value) })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={`Every ${settings.backlinkMonitorIntervalDays} days`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CADENCE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="backlink-lost-min-rank">Track lost domains ranked at least</Label>
+                <Input
+                  id="backlink-lost-min-rank"
+                  type="number"
+                  min={0}
+                  max={1000}
+                  value={minRankInput}
+                  disabled={saving}
+                  onChange={(e) => setMinRankInput(e.target.value)}
+                  onBlur={handleMinRankBlur}
+                />
+              </div>
+            </div>
+          )}
+          {error && <p className="text-sm text-destructive mt-4">{error}</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Lost High-Rank Links
+            {openCount > 0 && <Badge variant="destructive">{openCount}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Referring domains that dropped out since the previous refresh, with the rank and link
+            type they had
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : links.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Domain</TableHead>
+                  <TableHead>Rank</TableHead>
+                  <TableHead className="text-right">Backlinks</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Last Seen</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {links.map((link) => (
+                  <TableRow key={link.id}>
+                    <TableCell className="font-medium">{link.referringDomain}</TableCell>
+                    <TableCell>
+                      <DomainRankBadge rank={link.domainRank} size="sm" />
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{link.backlinks}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{link.dofollow ? 'Dofollow' : 'Nofollow'}</Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {new Date(link.lastSeenAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={STATUS_BADGES[link.status].className}>
+                        {STATUS_BADGES[link.status].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {link.status === 'OPEN' ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Dismiss"
+                          disabled={updatingId === link.id}
+                          onClick={() => updateStatus(link, 'DISMISSED')}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      ) : link.status === 'DISMISSED' ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Reopen"
+                          disabled={updatingId === link.id}
+                          onClick={() => updateStatus(link, 'OPEN')}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-muted-foreground text-sm py-8 text-center">
+              No lost high-rank links detected
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
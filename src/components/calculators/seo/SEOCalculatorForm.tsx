@@ -23,6 +23,7 @@ import {
   type CTRScenario,
   type SEOCalculationResult,
 } from '@/lib/calculators/seo-calculator'
+import type { VerticalFunnelDefaults } from '@/lib/verticals'
 
 interface SEOCalculatorFormProps {
   domainId: string
@@ -48,6 +49,8 @@ interface SEOCalculatorFormProps {
     daysOpen?: number | null
     notes?: string | null
   }
+  /** Funnel defaults from the domain's vertical pack, used when creating */
+  funnelDefaults?: VerticalFunnelDefaults
   mode: 'create' | 'edit'
 }
 
@@ -56,6 +59,7 @@ export function SEOCalculatorForm({
   domainName,
   calculationId,
   initialData,
+  funnelDefaults,
   mode,
 }: SEOCalculatorFormProps) {
   const router = useRouter()
@@ -90,16 +94,16 @@ export function SEOCalculatorForm({
 
   // Funnel rates
   const [websiteConvRate, setWebsiteConvRate] = useState(
-    initialData?.websiteConvRate ?? DEFAULT_SEO_INPUTS.websiteConvRate
+    initialData?.websiteConvRate ?? funnelDefaults?.websiteConvRate ?? DEFAULT_SEO_INPUTS.websiteConvRate
   )
   const [receptionRate, setReceptionRate] = useState(
-    initialData?.receptionRate ?? DEFAULT_SEO_INPUTS.receptionRate
+    initialData?.receptionRate ?? funnelDefaults?.receptionRate ?? DEFAULT_SEO_INPUTS.receptionRate
   )
   const [attendanceRate, setAttendanceRate] = useState(
-    initialData?.attendanceRate ?? DEFAULT_SEO_INPUTS.attendanceRate
+    initialData?.attendanceRate ?? funnelDefaults?.attendanceRate ?? DEFAULT_SEO_INPUTS.attendanceRate
   )
   const [referralRate, setReferralRate] = useState(
-    initialData?.referralRate ?? DEFAULT_SEO_INPUTS.referralRate
+    initialData?.referralRate ?? funnelDefaults?.referralRate ?? DEFAULT_SEO_INPUTS.referralRate
   )
 
   // Business inputs
@@ -107,10 +111,10 @@ export function SEOCalculatorForm({
     initialData?.marketingInvestment ?? DEFAULT_SEO_INPUTS.marketingInvestment
   )
   const [avgShortTermValue, setAvgShortTermValue] = useState(
-    initialData?.avgShortTermValue ?? DEFAULT_SEO_INPUTS.avgShortTermValue
+    initialData?.avgShortTermValue ?? funnelDefaults?.avgShortTermValue ?? DEFAULT_SEO_INPUTS.avgShortTermValue
   )
   const [avgLifetimeValue, setAvgLifetimeValue] = useState(
-    initialData?.avgLifetimeValue ?? DEFAULT_SEO_INPUTS.avgLifetimeValue
+    initialData?.avgLifetimeValue ?? funnelDefaults?.avgLifetimeValue ?? DEFAULT_SEO_INPUTS.avgLifetimeValue
   )
   const [operatories, setOperatories] = useState<number | undefined>(
     initialData?.operatories ?? undefined
@@ -1,9 +1,11 @@
 'use client'
 
+import { useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
-import { Link2, ExternalLink, AlertCircle, Loader2, ArrowRight } from 'lucide-react'
+import { Link2, AlertCircle, Loader2, Plus, Check } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
 interface CompetitorBacklinks {
@@ -22,6 +24,7 @@ interface BacklinkGapCardProps {
     domain: string
     rank: number
     backlinks: number
+    spamScore?: number | null
     linksToCompetitors: string[]
   }>
   summary?: {
@@ -32,6 +35,9 @@ interface BacklinkGapCardProps {
     referringDomainGap: number
   }
   isLoading?: boolean
+  /** When set, gap domains can be added to the domain's outreach pipeline */
+  domainId?: string
+  auditId?: string
 }
 
 export function BacklinkGapCard({
@@ -42,7 +48,48 @@ export function BacklinkGapCard({
   gapDomains = [],
   summary,
   isLoading,
+  domainId,
+  auditId,
 }: BacklinkGapCardProps) {
+  const [addedDomains, setAddedDomains] = useState<Set<string>>(new Set())
+  const [addingDomain, setAddingDomain] = useState<string | null>(null)
+  const [pipelineError, setPipelineError] = useState<string | null>(null)
+
+  const addToPipeline = async (gaps: NonNullable<BacklinkGapCardProps['gapDomains']>) => {
+    if (!domainId || gaps.length === 0) return
+    setAddingDomain(gaps.length === 1 ? gaps[0]!.domain : 'all')
+    setPipelineError(null)
+
+    try {
+      const response = await fetch('/api/backlinks/prospects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          domainId,
+          source: 'backlink_gap',
+          sourceAuditId: auditId ?? null,
+          prospects: gaps.map((gap) => ({
+            domain: gap.domain,
+            domainRank: gap.rank,
+            spamScore: gap.spamScore ?? null,
+            linksToCompetitors: gap.linksToCompetitors,
+          })),
+        }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setAddedDomains((prev) => new Set([...prev, ...gaps.map((gap) => gap.domain)]))
+      } else {
+        setPipelineError(data.error || 'Failed to add to outreach pipeline')
+      }
+    } catch {
+      setPipelineError('Failed to connect to server')
+    } finally {
+      setAddingDomain(null)
+    }
+  }
+
   if (isLoading) {
     return (
       <Card>
@@ -171,13 +218,33 @@ export function BacklinkGapCard({
         {/* Gap opportunities */}
         {gapDomains.length > 0 && (
           <div className="rounded-lg border p-4">
-            <div className="mb-3 flex items-center gap-2">
-              <AlertCircle className="h-4 w-4 text-amber-500" />
-              <h4 className="font-medium">Link Opportunities</h4>
+            <div className="mb-3 flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="h-4 w-4 text-amber-500" />
+                <h4 className="font-medium">Link Opportunities</h4>
+              </div>
+              {domainId && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={addingDomain !== null}
+                  onClick={() =>
+                    addToPipeline(gapDomains.filter((gap) => !addedDomains.has(gap.domain)))
+                  }
+                >
+                  {addingDomain === 'all' ? (
+                    <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                  ) : (
+                    <Plus className="mr-1 h-3 w-3" />
+                  )}
+                  Add all to outreach
+                </Button>
+              )}
             </div>
             <p className="mb-3 text-sm text-muted-foreground">
               {gapDomains.length} domains link to your competitors but not to you:
             </p>
+            {pipelineError && <p className="mb-3 text-sm text-destructive">{pipelineError}</p>}
             <div className="space-y-2">
               {gapDomains.slice(0, 5).map((gap) => (
                 <div
@@ -192,8 +259,28 @@ export function BacklinkGapCard({
                   </div>
                   <div className="flex items-center gap-2 text-xs text-muted-foreground">
                     <span>Links to {gap.linksToCompetitors.length} competitors</span>
-                    <ArrowRight className="h-3 w-3" />
-                    <ExternalLink className="h-3 w-3" />
+                    {domainId &&
+                      (addedDomains.has(gap.domain) ? (
+                        <Badge variant="secondary" className="text-xs">
+                          <Check className="mr-1 h-3 w-3" />
+                          In pipeline
+                        </Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 px-2 text-xs"
+                          disabled={addingDomain !== null}
+                          onClick={() => addToPipeline([gap])}
+                        >
+                          {addingDomain === gap.domain ? (
+                            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                          ) : (
+                            <Plus className="mr-1 h-3 w-3" />
+                          )}
+                          Outreach
+                        </Button>
+                      ))}
                   </div>
                 </div>
               ))}
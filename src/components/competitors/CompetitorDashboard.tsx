@@ -18,6 +18,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 
 interface CompetitorDashboardProps {
   auditId: string
+  /** Enables promoting backlink gap domains into the domain's outreach pipeline */
+  domainId?: string
 }
 
 interface CompetitorData {
@@ -47,7 +49,7 @@ interface HistoricalTrendItem {
   keywordsRanking: number
 }
 
-export function CompetitorDashboard({ auditId }: CompetitorDashboardProps) {
+export function CompetitorDashboard({ auditId, domainId }: CompetitorDashboardProps) {
   const [activeTab, setActiveTab] = useState('overview')
   const [isLoading, setIsLoading] = useState(true)
   const [isLiveLoading, setIsLiveLoading] = useState(false)
@@ -419,8 +421,11 @@ export function CompetitorDashboard({ auditId }: CompetitorDashboardProps) {
             clientBacklinks={backlinkData?.clientBacklinks ?? 0}
             clientReferringDomains={backlinkData?.clientReferringDomains ?? 0}
             competitors={(backlinkData?.competitors as never[]) ?? []}
+            gapDomains={(backlinkData?.gapDomains as never[]) ?? []}
             summary={backlinkData?.summary as never}
             isLoading={anyLoading}
+            domainId={domainId}
+            auditId={auditId}
           />
         </TabsContent>
 
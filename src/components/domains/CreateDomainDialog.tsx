@@ -26,9 +26,17 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { useDomain } from '@/contexts/DomainContext';
 import { toast } from 'sonner';
+import { DEFAULT_VERTICAL_ID, VERTICAL_IDS, VERTICAL_OPTIONS } from '@/lib/verticals';
 
 const createDomainSchema = z.object({
   name: z.string().min(1, 'Project name is required').max(200),
@@ -43,6 +51,7 @@ const createDomainSchema = z.object({
   businessName: z.string().max(200).optional(),
   city: z.string().max(100).optional(),
   state: z.string().length(2).optional().or(z.literal('')),
+  vertical: z.enum(VERTICAL_IDS),
 });
 
 type CreateDomainFormData = z.infer<typeof createDomainSchema>;
@@ -67,6 +76,7 @@ export function CreateDomainDialog({
       businessName: '',
       city: '',
       state: '',
+      vertical: DEFAULT_VERTICAL_ID,
     },
   });
 
@@ -80,6 +90,7 @@ export function CreateDomainDialog({
         businessName: data.businessName || undefined,
         city: data.city || undefined,
         state: data.state || undefined,
+        vertical: data.vertical,
       });
 
       toast.success('Domain created successfully!');
@@ -154,6 +165,34 @@ export function CreateDomainDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="vertical"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Industry</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {VERTICAL_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Sets the keyword templates, GBP checks and calculator defaults
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="businessName"
@@ -27,8 +27,8 @@ interface RunDetail {
   unchangedCount: number
   newRankingsCount: number
   lostRankingsCount: number
-  apiCallsUsed: number
-  estimatedCost: number | null
+  apiCallsUsed?: number
+  estimatedCost?: number | null
   startedAt: string | Date | null
   completedAt: string | Date | null
   createdAt: string | Date
@@ -39,9 +39,11 @@ interface RunDetail {
 
 interface RunOverviewProps {
   run: RunDetail
+  /** Omit the API cost, e.g. on public share pages */
+  hideCost?: boolean
 }
 
-export function RunOverview({ run }: RunOverviewProps) {
+export function RunOverview({ run, hideCost = false }: RunOverviewProps) {
   const completedAt = run.completedAt ? new Date(run.completedAt) : null
   const startedAt = run.startedAt ? new Date(run.startedAt) : null
 
@@ -161,15 +163,17 @@ export function RunOverview({ run }: RunOverviewProps) {
                 <p className="text-xs text-muted-foreground">{run.locationName}</p>
               </div>
             </div>
-            <div className="flex items-center gap-2">
-              <DollarSign className="h-4 w-4 text-muted-foreground" />
-              <div>
-                <p className="text-sm font-medium">Est. Cost</p>
-                <p className="text-xs text-muted-foreground">
-                  ${run.estimatedCost?.toFixed(4) ?? '0.00'}
-                </p>
+            {!hideCost && (
+              <div className="flex items-center gap-2">
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <p className="text-sm font-medium">Est. Cost</p>
+                  <p className="text-xs text-muted-foreground">
+                    ${run.estimatedCost?.toFixed(4) ?? '0.00'}
+                  </p>
+                </div>
               </div>
-            </div>
+            )}
             <div className="flex items-center gap-2">
               <Clock className="h-4 w-4 text-muted-foreground" />
               <div>
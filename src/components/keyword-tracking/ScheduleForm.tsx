@@ -23,7 +23,7 @@ interface Schedule {
   dayOfWeek: number | null
   dayOfMonth: number | null
   timeOfDay: string
-  locationName: string
+  locationName?: string
   nextRunAt: string | null
   lastRunAt: string | null
 }
@@ -32,6 +32,9 @@ interface ScheduleFormProps {
   domainId: string
   schedule: Schedule | null
   onSave: () => void
+  /** Schedule endpoint, shared by tools with the same schedule shape */
+  apiPath?: string
+  enableLabel?: string
 }
 
 const DAYS_OF_WEEK = [
@@ -44,7 +47,13 @@ const DAYS_OF_WEEK = [
   { value: '6', label: 'Saturday' },
 ]
 
-export function ScheduleForm({ domainId, schedule, onSave }: ScheduleFormProps) {
+export function ScheduleForm({
+  domainId,
+  schedule,
+  onSave,
+  apiPath = '/api/keyword-tracking/schedule',
+  enableLabel = 'Enable Scheduled Tracking',
+}: ScheduleFormProps) {
   const [isEnabled, setIsEnabled] = useState(schedule?.isEnabled ?? true)
   const [frequency, setFrequency] = useState(schedule?.frequency ?? 'weekly')
   const [dayOfWeek, setDayOfWeek] = useState(
@@ -76,7 +85,7 @@ export function ScheduleForm({ domainId, schedule, onSave }: ScheduleFormProps)
         timeOfDay,
       }
 
-      const response = await fetch('/api/keyword-tracking/schedule', {
+      const response = await fetch(apiPath, {
         method,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
@@ -106,7 +115,7 @@ export function ScheduleForm({ domainId, schedule, onSave }: ScheduleFormProps)
 
     try {
       const response = await fetch(
-        `/api/keyword-tracking/schedule?domainId=${domainId}`,
+        `${apiPath}?domainId=${domainId}`,
         { method: 'DELETE' }
       )
 
@@ -140,7 +149,7 @@ export function ScheduleForm({ domainId, schedule, onSave }: ScheduleFormProps)
         )}
 
         <div className="flex items-center justify-between">
-          <Label htmlFor="enabled">Enable Scheduled Tracking</Label>
+          <Label htmlFor="enabled">{enableLabel}</Label>
           <Switch
             id="enabled"
             checked={isEnabled}
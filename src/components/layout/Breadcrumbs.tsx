@@ -30,6 +30,9 @@ const pathLabels: Record<string, string> = {
   gbp: 'GBP Dashboard',
   grid: 'Grid View',
   history: 'History',
+  compare: 'Compare',
+  alerts: 'Alerts',
+  reports: 'Reports',
 }
 
 export function Breadcrumbs(): React.ReactElement {
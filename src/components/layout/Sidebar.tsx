@@ -24,6 +24,8 @@ import {
   Grid3X3,
   Layers,
   FolderCog,
+  Bell,
+  FileText,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
@@ -77,6 +79,11 @@ function getNavSections(domainId: string | null): NavSection[] {
           href: domainId ? `${domainPrefix}` : '/',
           icon: <Home className="h-4 w-4" />,
         },
+        {
+          title: 'Alerts',
+          href: `${domainPrefix}/alerts`,
+          icon: <Bell className="h-4 w-4" />,
+        },
       ],
     },
     {
@@ -100,6 +107,7 @@ function getNavSections(domainId: string | null): NavSection[] {
           children: [
             { title: 'All Scans', href: `${domainPrefix}/site-audit` },
             { title: 'New Scan', href: `${domainPrefix}/site-audit/new` },
+            { title: 'Schedule', href: `${domainPrefix}/site-audit/schedule` },
           ],
         },
         {
@@ -197,6 +205,11 @@ function getNavSections(domainId: string | null): NavSection[] {
           icon: <Layers className="h-4 w-4" />,
           isNew: true,
         },
+        {
+          title: 'Client Reports',
+          href: `${domainPrefix}/reports`,
+          icon: <FileText className="h-4 w-4" />,
+        },
       ],
     },
     {
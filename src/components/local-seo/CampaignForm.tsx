@@ -1,6 +1,7 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
+import dynamic from 'next/dynamic'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -8,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
 import {
   Select,
@@ -17,8 +19,44 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { MapPin, Plus, X, Loader2 } from 'lucide-react'
+import {
+  countGridPoints,
+  GRID_SHAPES,
+  serviceAreaSchema,
+  type ServiceArea,
+} from '@/lib/local-seo/grid-calculator'
+
+// Dynamic import for MapWithGrid to avoid SSR issues with Leaflet
+const MapWithGrid = dynamic(
+  () => import('./MapWithGrid').then((mod) => ({ default: mod.MapWithGrid })),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="w-full h-[500px] bg-muted/30 rounded-lg flex items-center justify-center">
+        <span className="text-muted-foreground">Loading map...</span>
+      </div>
+    ),
+  }
+)
+
+const SHAPE_LABELS: Record<(typeof GRID_SHAPES)[number], string> = {
+  square: 'Square',
+  circle: 'Circle',
+  hexagon: 'Hexagon',
+}
+
+/**
+ * Parses pasted GeoJSON (a geometry or a Feature wrapping one)
+ */
+function parseServiceArea(text: string): ServiceArea | null {
+  const parsed: unknown = JSON.parse(text)
+  const geometry =
+    parsed && typeof parsed === 'object' && 'geometry' in parsed ? parsed.geometry : parsed
+  return serviceAreaSchema.parse(geometry)
+}
 
 const campaignSchema = z.object({
+  locationId: z.string().optional(),
   businessName: z.string().min(2, 'Business name must be at least 2 characters'),
   gmbPlaceId: z.string().optional(),
   gmbCid: z.string().optional(),
@@ -26,14 +64,29 @@ const campaignSchema = z.object({
   centerLng: z.number().min(-180).max(180, 'Invalid longitude'),
   gridSize: z.number().min(3).max(15),
   gridRadiusMiles: z.number().min(0.5).max(50),
+  gridShape: z.enum(GRID_SHAPES),
+  serviceArea: serviceAreaSchema.nullable().optional(),
   keywords: z.array(z.string()).min(1, 'At least one keyword is required'),
   scanFrequency: z.enum(['daily', 'weekly', 'biweekly', 'monthly']),
 })
 
 type CampaignFormData = z.infer<typeof campaignSchema>
 
+/**
+ * A business location the campaign can be created for
+ */
+export interface CampaignLocationOption {
+  id: string
+  name: string
+  lat: number
+  lng: number
+  gmbCid: string | null
+  gmbPlaceId: string | null
+}
+
 interface CampaignFormProps {
   initialData?: Partial<CampaignFormData>
+  locations?: CampaignLocationOption[]
   onSubmit: (data: CampaignFormData) => Promise<void>
   onCancel?: () => void
   isEditing?: boolean
@@ -41,12 +94,17 @@ interface CampaignFormProps {
 
 export function CampaignForm({
   initialData,
+  locations = [],
   onSubmit,
   onCancel,
   isEditing = false,
 }: CampaignFormProps): React.ReactElement {
   const [keywordInput, setKeywordInput] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [serviceAreaInput, setServiceAreaInput] = useState(
+    initialData?.serviceArea ? JSON.stringify(initialData.serviceArea) : ''
+  )
+  const [serviceAreaError, setServiceAreaError] = useState<string | null>(null)
 
   const {
     register,
@@ -57,6 +115,7 @@ export function CampaignForm({
   } = useForm<CampaignFormData>({
     resolver: zodResolver(campaignSchema),
     defaultValues: {
+      locationId: initialData?.locationId,
       businessName: initialData?.businessName ?? '',
       gmbPlaceId: initialData?.gmbPlaceId ?? '',
       gmbCid: initialData?.gmbCid ?? '',
@@ -64,6 +123,8 @@ export function CampaignForm({
       centerLng: initialData?.centerLng ?? 0,
       gridSize: initialData?.gridSize ?? 7,
       gridRadiusMiles: initialData?.gridRadiusMiles ?? 3,
+      gridShape: initialData?.gridShape ?? 'square',
+      serviceArea: initialData?.serviceArea ?? null,
       keywords: initialData?.keywords ?? [],
       scanFrequency: initialData?.scanFrequency ?? 'weekly',
     },
@@ -72,6 +133,25 @@ export function CampaignForm({
   const keywords = watch('keywords')
   const gridSize = watch('gridSize')
   const gridRadiusMiles = watch('gridRadiusMiles')
+  const gridShape = watch('gridShape')
+  const serviceArea = watch('serviceArea')
+  const centerLat = watch('centerLat')
+  const centerLng = watch('centerLng')
+  const locationId = watch('locationId')
+  const businessName = watch('businessName')
+  const hasCenter =
+    Number.isFinite(centerLat) && Number.isFinite(centerLng) && (centerLat !== 0 || centerLng !== 0)
+
+  // Picking a location fills in its center and GBP identifiers
+  const selectLocation = (id: string): void => {
+    const location = locations.find((l) => l.id === id)
+    setValue('locationId', location?.id)
+    if (!location) return
+    setValue('centerLat', location.lat)
+    setValue('centerLng', location.lng)
+    setValue('gmbCid', location.gmbCid ?? '')
+    setValue('gmbPlaceId', location.gmbPlaceId ?? '')
+  }
 
   const addKeyword = (): void => {
     const trimmed = keywordInput.trim().toLowerCase()
@@ -88,7 +168,30 @@ export function CampaignForm({
     )
   }
 
+  const updateServiceArea = (text: string): void => {
+    setServiceAreaInput(text)
+    if (!text.trim()) {
+      setServiceAreaError(null)
+      setValue('serviceArea', null)
+      return
+    }
+    try {
+      setValue('serviceArea', parseServiceArea(text))
+      setServiceAreaError(null)
+    } catch {
+      setServiceAreaError('Paste a GeoJSON Polygon or MultiPolygon')
+    }
+  }
+
+  // Drawing replaces whatever was pasted, and shows the result as GeoJSON
+  const drawServiceArea = (area: ServiceArea | null): void => {
+    setServiceAreaInput(area ? JSON.stringify(area) : '')
+    setServiceAreaError(null)
+    setValue('serviceArea', area)
+  }
+
   const handleFormSubmit = async (data: CampaignFormData): Promise<void> => {
+    if (serviceAreaError) return
     setIsSubmitting(true)
     try {
       await onSubmit(data)
@@ -97,8 +200,21 @@ export function CampaignForm({
     }
   }
 
-  // Calculate estimated cost
-  const pointsPerKeyword = gridSize * gridSize
+  // Calculate estimated cost from the points left after shape and service-area trimming
+  const pointsPerKeyword = useMemo(() => {
+    try {
+      return countGridPoints({
+        centerLat: Number.isFinite(centerLat) ? centerLat : 0,
+        centerLng: Number.isFinite(centerLng) ? centerLng : 0,
+        gridSize,
+        radiusMiles: gridRadiusMiles,
+        shape: gridShape,
+        serviceArea,
+      })
+    } catch {
+      return 0
+    }
+  }, [centerLat, centerLng, gridSize, gridRadiusMiles, gridShape, serviceArea])
   const totalApiCalls = pointsPerKeyword * keywords.length
   const estimatedCost = (totalApiCalls * 0.005).toFixed(2)
 
@@ -112,6 +228,29 @@ export function CampaignForm({
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          {locations.length > 0 && !isEditing && (
+            <div className="space-y-2">
+              <Label htmlFor="locationId">Location</Label>
+              <Select value={locationId ?? 'none'} onValueChange={selectLocation}>
+                <SelectTrigger id="locationId">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No location</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Scans for a location are matched by its Google CID and roll up into the
+                locations dashboard
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="businessName">Business Name *</Label>
             <Input
@@ -219,11 +358,64 @@ export function CampaignForm({
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="gridShape">Grid Shape</Label>
+            <Select
+              value={gridShape}
+              onValueChange={(val: (typeof GRID_SHAPES)[number]) => setValue('gridShape', val)}
+            >
+              <SelectTrigger id="gridShape">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GRID_SHAPES.map((shape) => (
+                  <SelectItem key={shape} value={shape}>
+                    {SHAPE_LABELS[shape]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="serviceArea">Service Area (optional)</Label>
+            {hasCenter ? (
+              <MapWithGrid
+                points={[]}
+                gridSize={gridSize}
+                centerLat={centerLat}
+                centerLng={centerLng}
+                targetBusinessName={businessName || undefined}
+                radiusMiles={gridRadiusMiles}
+                gridShape={gridShape}
+                serviceArea={serviceArea}
+                onServiceAreaChange={drawServiceArea}
+              />
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Set the center coordinates to draw the service area on a map.
+              </p>
+            )}
+            <Textarea
+              id="serviceArea"
+              value={serviceAreaInput}
+              onChange={(e) => updateServiceArea(e.target.value)}
+              placeholder='{"type": "Polygon", "coordinates": [[[-97.1, 32.7], ...]]}'
+              className="font-mono text-xs"
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              Draw the area you serve on the map, or paste a GeoJSON Polygon or MultiPolygon. Grid
+              points outside it won&apos;t be scanned.
+            </p>
+            {serviceAreaError && <p className="text-sm text-destructive">{serviceAreaError}</p>}
+          </div>
+
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <MapPin className="h-4 w-4" />
             <span>
-              {gridSize}×{gridSize} grid = {gridSize * gridSize} search points covering{' '}
-              {gridRadiusMiles * 2} miles
+              {SHAPE_LABELS[gridShape]} {gridSize}×{gridSize} grid = {pointsPerKeyword} search
+              points covering {gridRadiusMiles * 2} miles
             </span>
           </div>
         </CardContent>
@@ -0,0 +1,65 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { UserPlus, UserMinus, Activity } from 'lucide-react'
+import type { CompetitorMovement } from '@/lib/local-seo/competitor-history'
+
+interface CompetitorMovementsProps {
+  movements: CompetitorMovement[]
+  maxDisplay?: number
+}
+
+export function CompetitorMovements({
+  movements,
+  maxDisplay = 10,
+}: CompetitorMovementsProps): React.ReactElement {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Activity className="h-4 w-4" />
+          Competitor Movements
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {movements.length === 0 ? (
+          <div className="text-muted-foreground flex h-40 items-center justify-center">
+            <p className="text-sm">No new entrants or drop-outs in recent scans</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {movements.slice(0, maxDisplay).map((movement) => (
+              <div
+                key={`${movement.scanId}-${movement.type}-${movement.cid}`}
+                className="flex items-center gap-3 text-sm"
+              >
+                {movement.type === 'new_entrant' ? (
+                  <UserPlus className="h-4 w-4 shrink-0 text-red-500" />
+                ) : (
+                  <UserMinus className="h-4 w-4 shrink-0 text-green-500" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium">{movement.businessName}</p>
+                  <p className="text-muted-foreground text-xs">
+                    {movement.type === 'new_entrant'
+                      ? `Entered the top 3 with ${movement.shareOfVoice.toFixed(1)}% share of voice`
+                      : `Dropped out after holding ${movement.shareOfVoice.toFixed(1)}% share of voice`}
+                  </p>
+                </div>
+                <div className="shrink-0 text-right">
+                  <Badge variant={movement.type === 'new_entrant' ? 'destructive' : 'secondary'}>
+                    {movement.type === 'new_entrant' ? 'New entrant' : 'Disappeared'}
+                  </Badge>
+                  <p className="text-muted-foreground mt-1 text-xs">
+                    {new Date(movement.scannedAt).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
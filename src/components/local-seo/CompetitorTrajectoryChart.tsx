@@ -0,0 +1,174 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { LineChart } from 'lucide-react'
+import type { CompetitorTrajectory } from '@/lib/local-seo/competitor-history'
+
+interface CompetitorTrajectoryChartProps {
+  competitors: CompetitorTrajectory[]
+  height?: number
+}
+
+const colors = [
+  '#3b82f6', // blue-500
+  '#22c55e', // green-500
+  '#eab308', // yellow-500
+  '#f97316', // orange-500
+  '#ef4444', // red-500
+  '#8b5cf6', // violet-500
+  '#ec4899', // pink-500
+  '#14b8a6', // teal-500
+  '#6366f1', // indigo-500
+  '#64748b', // slate-500
+]
+
+export function CompetitorTrajectoryChart({
+  competitors,
+  height = 220,
+}: CompetitorTrajectoryChartProps): React.ReactElement {
+  const scans = competitors[0]?.points ?? []
+
+  if (competitors.length === 0 || scans.length < 2) {
+    return (
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <LineChart className="h-4 w-4" />
+            Competitor Share of Voice Over Time
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-muted-foreground flex h-40 items-center justify-center">
+            <p className="text-sm">At least two scans are needed to chart competitor history</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const chartHeight = height - 24
+  const maxShare = Math.max(
+    10,
+    ...competitors.flatMap((c) => c.points.map((p) => p.shareOfVoice ?? 0))
+  )
+  const xStep = 100 / (scans.length - 1)
+
+  const scaleY = (share: number): number =>
+    chartHeight - 8 - (share / maxShare) * (chartHeight - 16)
+
+  // Break the line where a competitor was absent from a scan
+  const buildPath = (points: CompetitorTrajectory['points']): string => {
+    let path = ''
+    let drawing = false
+    points.forEach((p, i) => {
+      if (p.shareOfVoice === null) {
+        drawing = false
+        return
+      }
+      path += `${drawing ? 'L' : 'M'} ${i * xStep} ${scaleY(p.shareOfVoice)} `
+      drawing = true
+    })
+    return path.trim()
+  }
+
+  const formatDate = (date: Date): string => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <LineChart className="h-4 w-4" />
+          Competitor Share of Voice Over Time
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="relative" style={{ height }}>
+          {/* Y-axis labels */}
+          <div className="text-muted-foreground absolute top-0 bottom-8 left-0 flex w-10 flex-col justify-between text-xs">
+            <span>{maxShare.toFixed(0)}%</span>
+            <span>{(maxShare / 2).toFixed(0)}%</span>
+            <span>0%</span>
+          </div>
+
+          {/* Chart area */}
+          <div className="ml-12 h-full">
+            <svg
+              className="w-full"
+              style={{ height: chartHeight }}
+              viewBox={`0 0 100 ${chartHeight}`}
+              preserveAspectRatio="none"
+            >
+              {/* Grid lines */}
+              {[0, maxShare / 2, maxShare].map((share) => (
+                <line
+                  key={share}
+                  x1="0"
+                  y1={scaleY(share)}
+                  x2="100"
+                  y2={scaleY(share)}
+                  stroke="#e5e7eb"
+                  strokeDasharray="2"
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+
+              {/* Lines */}
+              {competitors.map((competitor, index) => (
+                <path
+                  key={competitor.cid}
+                  d={buildPath(competitor.points)}
+                  fill="none"
+                  stroke={colors[index % colors.length]}
+                  strokeWidth="2"
+                  vectorEffect="non-scaling-stroke"
+                >
+                  <title>{competitor.businessName}</title>
+                </path>
+              ))}
+            </svg>
+
+            {/* X-axis labels */}
+            <div className="text-muted-foreground mt-1 flex justify-between text-xs">
+              {scans.length <= 7 ? (
+                scans.map((scan) => <span key={scan.scanId}>{formatDate(scan.scannedAt)}</span>)
+              ) : (
+                <>
+                  <span>{formatDate(scans[0]!.scannedAt)}</span>
+                  <span>{formatDate(scans[Math.floor(scans.length / 2)]!.scannedAt)}</span>
+                  <span>{formatDate(scans[scans.length - 1]!.scannedAt)}</span>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Legend */}
+        <div className="mt-4 space-y-2 border-t pt-4">
+          {competitors.map((competitor, index) => {
+            const latest = competitor.points[competitor.points.length - 1]
+            return (
+              <div key={competitor.cid} className="flex items-center gap-2 text-sm">
+                <div
+                  className="h-3 w-3 shrink-0 rounded-sm"
+                  style={{ backgroundColor: colors[index % colors.length] }}
+                />
+                <span className="flex-1 truncate">{competitor.businessName}</span>
+                <span className="text-muted-foreground">
+                  avg {competitor.avgShareOfVoice.toFixed(1)}%
+                </span>
+                <span className="w-16 text-right font-medium">
+                  {latest?.shareOfVoice != null ? `${latest.shareOfVoice.toFixed(1)}%` : 'Gone'}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useMemo } from 'react'
+import { cn } from '@/lib/utils'
+import { isHexOffsetRow, type GridShape, type ServiceArea } from '@/lib/local-seo/grid-calculator'
+import type { PointDelta, PointDeltaStatus } from '@/lib/local-seo/scan-comparison'
+
+interface GridDeltaMapProps {
+  /** Deltas for a single keyword */
+  points: PointDelta[]
+  gridSize: number
+  gridShape?: GridShape
+  serviceArea?: ServiceArea | null
+}
+
+const STATUS_CLASSES: Record<PointDeltaStatus, string> = {
+  improved: 'bg-green-500 text-white',
+  declined: 'bg-red-500 text-white',
+  unchanged: 'bg-muted text-muted-foreground',
+  new: 'bg-blue-500 text-white',
+  lost: 'bg-gray-700 text-white',
+  absent: 'bg-muted/50 text-muted-foreground',
+}
+
+const DELTA_STATUS_LABELS: Record<PointDeltaStatus, string> = {
+  improved: 'Improved',
+  declined: 'Declined',
+  unchanged: 'Unchanged',
+  new: 'New',
+  lost: 'Lost',
+  absent: 'Not ranking',
+}
+
+function formatRank(rank: number | null): string {
+  return rank === null ? '20+' : `#${rank}`
+}
+
+function getDeltaDisplay(point: PointDelta): string {
+  switch (point.status) {
+    case 'improved':
+      return `+${point.change}`
+    case 'declined':
+      return `${point.change}`
+    case 'new':
+      return 'New'
+    case 'lost':
+      return 'Lost'
+    case 'unchanged':
+      return '='
+    default:
+      return '-'
+  }
+}
+
+/**
+ * Difference heatmap: each cell shows how many positions the business gained
+ * or lost there between the two scans
+ */
+export function GridDeltaMap({
+  points,
+  gridSize,
+  gridShape = 'square',
+  serviceArea,
+}: GridDeltaMapProps): React.ReactElement {
+  const gridMatrix = useMemo(() => {
+    const matrix: (PointDelta | null)[][] = Array.from({ length: gridSize }, () =>
+      Array.from({ length: gridSize }, () => null)
+    )
+    for (const point of points) {
+      const row = matrix[point.row]
+      if (row && point.col < gridSize) row[point.col] = point
+    }
+    return matrix
+  }, [points, gridSize])
+
+  // Circle, hexagon and service-area layouts skip some cells by design
+  const isIrregular = gridShape !== 'square' || !!serviceArea
+
+  return (
+    <div className="space-y-4">
+      <div
+        className="bg-muted/30 mx-auto grid gap-1 rounded-lg p-4"
+        style={{
+          gridTemplateColumns: `repeat(${gridSize}, 1fr)`,
+          maxWidth: `${gridSize * 56}px`,
+        }}
+      >
+        {gridMatrix.map((row, rowIndex) =>
+          row.map((cell, colIndex) => {
+            const offsetStyle =
+              gridShape === 'hexagon' && isHexOffsetRow(rowIndex, gridSize)
+                ? { transform: 'translateX(50%)' }
+                : undefined
+
+            if (!cell) {
+              return (
+                <div
+                  key={`${rowIndex}-${colIndex}`}
+                  className={cn('h-12 w-12 rounded-md', !isIrregular && 'bg-muted/50')}
+                />
+              )
+            }
+
+            // Bigger moves get stronger colours
+            const intensity =
+              cell.change !== null && cell.change !== 0
+                ? 0.45 + Math.min(Math.abs(cell.change) / 10, 1) * 0.55
+                : 1
+
+            return (
+              <div key={`${rowIndex}-${colIndex}`} style={offsetStyle}>
+                <div
+                  className={cn(
+                    'flex h-12 w-12 items-center justify-center rounded-md text-xs font-semibold',
+                    STATUS_CLASSES[cell.status]
+                  )}
+                  style={{ opacity: intensity }}
+                  title={`${DELTA_STATUS_LABELS[cell.status]}: ${formatRank(cell.baseRank)} → ${formatRank(cell.compareRank)}`}
+                >
+                  {getDeltaDisplay(cell)}
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-3 text-xs">
+        {(Object.keys(STATUS_CLASSES) as PointDeltaStatus[]).map((status) => (
+          <div key={status} className="flex items-center gap-1.5">
+            <span className={cn('h-3 w-3 rounded-sm', STATUS_CLASSES[status])} />
+            <span className="text-muted-foreground">{DELTA_STATUS_LABELS[status]}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ import { GridCell, type GridCellData } from './GridCell'
 import { GridLegend } from './GridLegend'
 import { GridPointDetail } from './GridPointDetail'
 import { MapPin, Map, LayoutGrid } from 'lucide-react'
+import { isHexOffsetRow, type GridShape, type ServiceArea } from '@/lib/local-seo/grid-calculator'
 
 // Dynamic import for MapWithGrid to avoid SSR issues with Leaflet
 const MapWithGrid = dynamic(() => import('./MapWithGrid').then((mod) => ({ default: mod.MapWithGrid })), {
@@ -54,6 +55,8 @@ interface GridMapProps {
   showLegend?: boolean
   showDetails?: boolean
   radiusMiles?: number
+  gridShape?: GridShape
+  serviceArea?: ServiceArea | null
   defaultView?: 'map' | 'grid'
   aggregates?: {
     avgRank: number | null
@@ -75,6 +78,8 @@ export function GridMap({
   showLegend = true,
   showDetails = true,
   radiusMiles = 5,
+  gridShape = 'square',
+  serviceArea,
   defaultView = 'map',
   aggregates,
 }: GridMapProps): React.ReactElement {
@@ -110,6 +115,9 @@ export function GridMap({
   const centerRow = Math.floor(gridSize / 2)
   const centerCol = Math.floor(gridSize / 2)
 
+  // Circle, hexagon and service-area layouts skip some cells by design
+  const isIrregular = gridShape !== 'square' || !!serviceArea
+
   // Auto-select center point on initial load
   useEffect(() => {
     if (!selectedPoint && gridMatrix[centerRow] && gridMatrix[centerRow][centerCol]) {
@@ -211,6 +219,8 @@ export function GridMap({
               centerLng={centerLng}
               targetBusinessName={targetBusinessName}
               radiusMiles={radiusMiles}
+              gridShape={gridShape}
+              serviceArea={serviceArea}
               selectedKeyword={keyword}
               onPointClick={setSelectedPoint}
             />
@@ -228,6 +238,16 @@ export function GridMap({
               >
                 {gridMatrix.map((row, rowIndex) =>
                   row.map((cell, colIndex) => {
+                    // Hexagon rows alternate half a cell to the right, as on the map
+                    const offsetStyle =
+                      gridShape === 'hexagon' && isHexOffsetRow(rowIndex, gridSize)
+                        ? { transform: 'translateX(50%)' }
+                        : undefined
+
+                    if (!cell && isIrregular) {
+                      return <div key={`${rowIndex}-${colIndex}`} className="w-12 h-12" />
+                    }
+
                     if (!cell) {
                       return (
                         <div
@@ -240,14 +260,15 @@ export function GridMap({
                     }
 
                     return (
-                      <GridCell
-                        key={`${rowIndex}-${colIndex}`}
-                        data={cell}
-                        isSelected={selectedPoint?.row === rowIndex && selectedPoint?.col === colIndex}
-                        isCenter={rowIndex === centerRow && colIndex === centerCol}
-                        onClick={setSelectedPoint}
-                        onHover={setHoveredPoint}
-                      />
+                      <div key={`${rowIndex}-${colIndex}`} style={offsetStyle}>
+                        <GridCell
+                          data={cell}
+                          isSelected={selectedPoint?.row === rowIndex && selectedPoint?.col === colIndex}
+                          isCenter={rowIndex === centerRow && colIndex === centerCol}
+                          onClick={setSelectedPoint}
+                          onHover={setHoveredPoint}
+                        />
+                      </div>
                     )
                   })
                 )}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Building2, Loader2, Plus, Trash2 } from 'lucide-react'
+
+export interface LocationData {
+  id: string
+  name: string
+  address: string | null
+  lat: number
+  lng: number
+  gmbCid: string | null
+  gmbPlaceId: string | null
+  campaignCount: number
+}
+
+export interface LocationFormValues {
+  name: string
+  address: string | null
+  lat: number
+  lng: number
+  gmbCid: string | null
+  gmbPlaceId: string | null
+}
+
+interface LocationManagerProps {
+  locations: LocationData[]
+  onCreate: (values: LocationFormValues) => Promise<void>
+  onDelete: (id: string) => Promise<void>
+}
+
+const EMPTY_FORM = { name: '', address: '', lat: '', lng: '', gmbCid: '', gmbPlaceId: '' }
+
+export function LocationManager({
+  locations,
+  onCreate,
+  onDelete,
+}: LocationManagerProps): React.ReactElement {
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const update = (field: keyof typeof EMPTY_FORM) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((prev) => ({ ...prev, [field]: e.target.value }))
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    const lat = parseFloat(form.lat)
+    const lng = parseFloat(form.lng)
+    if (!form.name.trim() || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+      setFormError('Name, latitude and longitude are required')
+      return
+    }
+
+    setFormError(null)
+    setIsSaving(true)
+    try {
+      await onCreate({
+        name: form.name.trim(),
+        address: form.address.trim() || null,
+        lat,
+        lng,
+        gmbCid: form.gmbCid.trim() || null,
+        gmbPlaceId: form.gmbPlaceId.trim() || null,
+      })
+      setForm(EMPTY_FORM)
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to add location')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Locations
+        </CardTitle>
+        <CardDescription>
+          Offices of this business. Add the Google CID so scans can tell your listings apart.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {locations.length === 0 ? (
+          <p className="text-muted-foreground py-6 text-center">No locations yet</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Coordinates</TableHead>
+                  <TableHead>Google CID</TableHead>
+                  <TableHead className="text-center">Campaigns</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {locations.map((location) => (
+                  <TableRow key={location.id}>
+                    <TableCell>
+                      <div className="font-medium">{location.name}</div>
+                      {location.address && (
+                        <div className="text-muted-foreground text-xs">{location.address}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {location.lat.toFixed(5)}, {location.lng.toFixed(5)}
+                    </TableCell>
+                    <TableCell>
+                      {location.gmbCid ? (
+                        <span className="font-mono text-xs">{location.gmbCid}</span>
+                      ) : (
+                        <Badge variant="outline">Missing</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">{location.campaignCount}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 cursor-pointer"
+                        onClick={() => onDelete(location.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="locationName">Name *</Label>
+              <Input
+                id="locationName"
+                value={form.name}
+                onChange={update('name')}
+                placeholder="e.g., Fielder Park Dental - Downtown"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="locationAddress">Address</Label>
+              <Input id="locationAddress" value={form.address} onChange={update('address')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="locationLat">Latitude *</Label>
+              <Input
+                id="locationLat"
+                type="number"
+                step="any"
+                value={form.lat}
+                onChange={update('lat')}
+                placeholder="32.7357"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="locationLng">Longitude *</Label>
+              <Input
+                id="locationLng"
+                type="number"
+                step="any"
+                value={form.lng}
+                onChange={update('lng')}
+                placeholder="-97.1081"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="locationCid">Google CID</Label>
+              <Input
+                id="locationCid"
+                value={form.gmbCid}
+                onChange={update('gmbCid')}
+                placeholder="12345678901234567890"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="locationPlaceId">Google Place ID</Label>
+              <Input
+                id="locationPlaceId"
+                value={form.gmbPlaceId}
+                onChange={update('gmbPlaceId')}
+                placeholder="ChIJ..."
+              />
+            </div>
+          </div>
+          {formError && <p className="text-destructive text-sm">{formError}</p>}
+          <Button type="submit" disabled={isSaving} className="cursor-pointer">
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Add Location
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
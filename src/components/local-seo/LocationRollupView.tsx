@@ -0,0 +1,182 @@
+'use client'
+
+import Link from 'next/link'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle, Layers } from 'lucide-react'
+import type { LocationRollup } from '@/lib/local-seo/multi-location'
+
+interface LocationRollupViewProps {
+  rollup: LocationRollup
+  /** Base path for campaign links, e.g. /d/[domainId]/local-seo */
+  basePath: string
+}
+
+function formatRank(rank: number | null): string {
+  return rank !== null ? rank.toFixed(1) : '-'
+}
+
+function formatShare(share: number | null): string {
+  return share !== null ? `${share.toFixed(1)}%` : '-'
+}
+
+export function LocationRollupView({
+  rollup,
+  basePath,
+}: LocationRollupViewProps): React.ReactElement {
+  const { combined } = rollup
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Combined Share of Voice</CardDescription>
+            <CardTitle className="text-2xl">{formatShare(combined.shareOfVoice)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Average Rank</CardDescription>
+            <CardTitle className="text-2xl">{formatRank(combined.avgRank)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Points Scanned</CardDescription>
+            <CardTitle className="text-2xl">{combined.totalPoints}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Cannibalised Points</CardDescription>
+            <CardTitle className="text-2xl">{combined.cannibalizedPoints}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            By Location
+          </CardTitle>
+          <CardDescription>Latest completed scan of each location campaign</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rollup.locations.length === 0 ? (
+            <p className="text-muted-foreground py-6 text-center">
+              No completed scans for location campaigns yet
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Location</TableHead>
+                    <TableHead className="text-center">Avg Rank</TableHead>
+                    <TableHead className="text-center">Share of Voice</TableHead>
+                    <TableHead className="text-center">Points</TableHead>
+                    <TableHead className="text-center">Cannibalised</TableHead>
+                    <TableHead>Scanned</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rollup.locations.map((location) => (
+                    <TableRow key={location.scanId}>
+                      <TableCell>
+                        <Link
+                          href={`${basePath}/${location.campaignId}`}
+                          className="font-medium hover:underline"
+                        >
+                          {location.locationName}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-center">{formatRank(location.avgRank)}</TableCell>
+                      <TableCell className="text-center">
+                        {formatShare(location.shareOfVoice)}
+                      </TableCell>
+                      <TableCell className="text-center">{location.totalPoints}</TableCell>
+                      <TableCell className="text-center">
+                        {location.cannibalizedPoints > 0 ? (
+                          <Badge variant="destructive">{location.cannibalizedPoints}</Badge>
+                        ) : (
+                          0
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {location.completedAt
+                          ? new Date(location.completedAt).toLocaleDateString()
+                          : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5" />
+            Cannibalisation
+          </CardTitle>
+          <CardDescription>
+            Grid points where two or more of your own listings compete for the same search
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rollup.cannibalization.length === 0 ? (
+            <p className="text-muted-foreground py-6 text-center">
+              None of your listings compete with each other
+            </p>
+          ) : (
+            <div className="max-h-[480px] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Keyword</TableHead>
+                    <TableHead>Grid Point</TableHead>
+                    <TableHead>Competing Listings</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rollup.cannibalization.map((point) => (
+                    <TableRow
+                      key={`${point.scannedLocationId}-${point.keyword}-${point.row}-${point.col}`}
+                    >
+                      <TableCell className="font-medium">{point.keyword}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {point.lat.toFixed(4)}, {point.lng.toFixed(4)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {point.listings.map((listing) => (
+                            <Badge key={listing.locationId} variant="outline">
+                              #{listing.rank} {listing.name}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,9 +1,21 @@
 'use client'
 
-import { useEffect, useState, useRef } from 'react'
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet'
+import { useEffect, useState, useRef, useMemo } from 'react'
+import {
+  MapContainer,
+  TileLayer,
+  Marker,
+  Popup,
+  Polygon,
+  Polyline,
+  CircleMarker,
+  useMap,
+  useMapEvents,
+} from 'react-leaflet'
 import L from 'leaflet'
+import { Button } from '@/components/ui/button'
 import type { GridCellData } from './GridCell'
+import type { GridShape, ServiceArea } from '@/lib/local-seo/grid-calculator'
 
 // Fix for default marker icons in Leaflet with webpack
 const defaultIcon = L.icon({
@@ -58,8 +70,41 @@ interface MapWithGridProps {
   centerLng: number
   targetBusinessName?: string
   radiusMiles?: number
+  gridShape?: GridShape
+  serviceArea?: ServiceArea | null
   selectedKeyword?: string
   onPointClick?: (point: GridCellData) => void
+  /** When set, the service area can be drawn on the map by clicking its corners */
+  onServiceAreaChange?: (area: ServiceArea | null) => void
+}
+
+/** Corners per drawn area at most (the ring also repeats the first one) */
+const MAX_DRAWN_VERTICES = 999
+
+/**
+ * Converts GeoJSON rings ([lng, lat]) to Leaflet polygons ([lat, lng])
+ */
+function serviceAreaToLatLngs(area: ServiceArea): L.LatLngTuple[][][] {
+  const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates
+  return polygons.map((rings) =>
+    rings.map((ring) => ring.map(([lng, lat]) => [lat, lng] as L.LatLngTuple))
+  )
+}
+
+/**
+ * Closes drawn [lat, lng] corners into a GeoJSON Polygon ring ([lng, lat])
+ */
+function verticesToServiceArea(vertices: L.LatLngTuple[]): ServiceArea {
+  const ring = [...vertices, vertices[0]!].map(([lat, lng]): [number, number] => [lng, lat])
+  return { type: 'Polygon', coordinates: [ring] }
+}
+
+// Adds a corner for each map click while drawing
+function DrawClickHandler({ onClick }: { onClick: (latLng: L.LatLngTuple) => void }): null {
+  useMapEvents({
+    click: (event) => onClick([event.latlng.lat, event.latlng.lng]),
+  })
+  return null
 }
 
 // Get color based on rank
@@ -136,9 +181,14 @@ export function MapWithGrid({
   centerLng,
   targetBusinessName = 'Target Business',
   radiusMiles = 5,
+  gridShape = 'square',
+  serviceArea,
   onPointClick,
+  onServiceAreaChange,
 }: MapWithGridProps): React.ReactElement {
   const [isClient, setIsClient] = useState(false)
+  // Corners of the area being drawn, or null when not drawing
+  const [drawnVertices, setDrawnVertices] = useState<L.LatLngTuple[] | null>(null)
   const mapRef = useRef<L.Map | null>(null)
 
   useEffect(() => {
@@ -148,11 +198,39 @@ export function MapWithGrid({
   // Convert miles to degrees (approximate)
   const radiusInDegrees = radiusMiles / 69 // ~69 miles per degree of latitude
 
-  // Calculate bounds
-  const bounds: L.LatLngBoundsExpression = [
-    [centerLat - radiusInDegrees * 1.2, centerLng - radiusInDegrees * 1.2],
-    [centerLat + radiusInDegrees * 1.2, centerLng + radiusInDegrees * 1.2],
-  ]
+  const serviceAreaLatLngs = useMemo(
+    () => (serviceArea ? serviceAreaToLatLngs(serviceArea) : null),
+    [serviceArea]
+  )
+
+  // Calculate bounds: the full radius for square grids or when there are no
+  // points yet, otherwise the points actually scanned
+  const bounds = useMemo((): L.LatLngBoundsExpression => {
+    if ((gridShape === 'square' && !serviceArea) || points.length === 0) {
+      return [
+        [centerLat - radiusInDegrees * 1.2, centerLng - radiusInDegrees * 1.2],
+        [centerLat + radiusInDegrees * 1.2, centerLng + radiusInDegrees * 1.2],
+      ]
+    }
+    const latLngs: L.LatLngTuple[] = [
+      [centerLat, centerLng],
+      ...points.map((point): L.LatLngTuple => [point.lat, point.lng]),
+    ]
+    return L.latLngBounds(latLngs).pad(0.1)
+  }, [gridShape, serviceArea, centerLat, centerLng, radiusInDegrees, points])
+
+  const addDrawnVertex = (latLng: L.LatLngTuple): void => {
+    setDrawnVertices((vertices) =>
+      vertices && vertices.length < MAX_DRAWN_VERTICES ? [...vertices, latLng] : vertices
+    )
+  }
+
+  const finishDrawing = (): void => {
+    if (drawnVertices && drawnVertices.length >= 3) {
+      onServiceAreaChange?.(verticesToServiceArea(drawnVertices))
+    }
+    setDrawnVertices(null)
+  }
 
   const handlePointClick = (point: GridMapPoint): void => {
     if (onPointClick) {
@@ -197,6 +275,30 @@ export function MapWithGrid({
 
         <FitBounds bounds={bounds} />
 
+        {/* Service area outline */}
+        {serviceAreaLatLngs && (
+          <Polygon
+            positions={serviceAreaLatLngs}
+            pathOptions={{ color: '#3b82f6', weight: 2, dashArray: '6 4', fillOpacity: 0.05 }}
+          />
+        )}
+
+        {/* Area being drawn */}
+        {drawnVertices && (
+          <>
+            <DrawClickHandler onClick={addDrawnVertex} />
+            <Polyline positions={drawnVertices} pathOptions={{ color: '#8b5cf6', weight: 2 }} />
+            {drawnVertices.map((vertex, i) => (
+              <CircleMarker
+                key={i}
+                center={vertex}
+                radius={4}
+                pathOptions={{ color: '#8b5cf6', fillOpacity: 1 }}
+              />
+            ))}
+          </>
+        )}
+
         {/* Center marker for the business */}
         <Marker position={[centerLat, centerLng]} icon={centerIcon}>
           <Popup>
@@ -265,28 +367,70 @@ export function MapWithGrid({
         })}
       </MapContainer>
 
+      {/* Service area drawing controls */}
+      {onServiceAreaChange && (
+        <div className="absolute top-4 right-4 bg-white/95 dark:bg-gray-900/95 rounded-lg shadow-lg px-3 py-2 z-[1000] flex items-center gap-2">
+          {drawnVertices ? (
+            <>
+              <span className="text-xs text-muted-foreground">
+                Click the map to add corners ({drawnVertices.length})
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                onClick={finishDrawing}
+                disabled={drawnVertices.length < 3}
+              >
+                Finish
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setDrawnVertices(null)}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button type="button" size="sm" variant="outline" onClick={() => setDrawnVertices([])}>
+                {serviceArea ? 'Redraw service area' : 'Draw service area'}
+              </Button>
+              {serviceArea && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onServiceAreaChange(null)}
+                >
+                  Clear
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Legend overlay */}
-      <div className="absolute bottom-4 left-4 bg-white/95 dark:bg-gray-900/95 rounded-lg shadow-lg p-3 z-[1000]">
-        <div className="text-xs font-medium mb-2">Rank Legend</div>
-        <div className="flex items-center gap-3">
-          <div className="flex items-center gap-1">
-            <div className="w-3 h-3 rounded-full bg-green-500" />
-            <span className="text-xs">1-3</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <div className="w-3 h-3 rounded-full bg-yellow-500" />
-            <span className="text-xs">4-10</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <div className="w-3 h-3 rounded-full bg-orange-500" />
-            <span className="text-xs">11-20</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <div className="w-3 h-3 rounded-full bg-red-500" />
-            <span className="text-xs">20+</span>
+      {points.length > 0 && (
+        <div className="absolute bottom-4 left-4 bg-white/95 dark:bg-gray-900/95 rounded-lg shadow-lg p-3 z-[1000]">
+          <div className="text-xs font-medium mb-2">Rank Legend</div>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded-full bg-green-500" />
+              <span className="text-xs">1-3</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded-full bg-yellow-500" />
+              <span className="text-xs">4-10</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded-full bg-orange-500" />
+              <span className="text-xs">11-20</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded-full bg-red-500" />
+              <span className="text-xs">20+</span>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Business marker indicator */}
       <div className="absolute top-4 left-4 bg-white/95 dark:bg-gray-900/95 rounded-lg shadow-lg px-3 py-2 z-[1000] flex items-center gap-2">
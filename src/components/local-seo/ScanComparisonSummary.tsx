@@ -0,0 +1,142 @@
+'use client'
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+import { Compass, TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import type { DeltaCounts, Quadrant, ScanComparison } from '@/lib/local-seo/scan-comparison'
+
+interface ScanComparisonSummaryProps {
+  comparison: ScanComparison
+}
+
+const QUADRANT_LABELS: Record<Quadrant, string> = {
+  NW: 'North-west',
+  NE: 'North-east',
+  SW: 'South-west',
+  SE: 'South-east',
+}
+
+function formatRank(rank: number | null): string {
+  return rank !== null ? rank.toFixed(1) : '-'
+}
+
+function ChangeIndicator({ change }: { change: number | null }): React.ReactElement {
+  if (change === null || change === 0) {
+    return (
+      <span className="text-muted-foreground flex items-center">
+        <Minus className="mr-1 h-4 w-4" />
+        {change === null ? 'n/a' : '0'}
+      </span>
+    )
+  }
+
+  const improved = change > 0
+  const Icon = improved ? TrendingUp : TrendingDown
+  return (
+    <span className={cn('flex items-center', improved ? 'text-green-600' : 'text-red-600')}>
+      <Icon className="mr-1 h-4 w-4" />
+      {improved ? '+' : ''}
+      {change.toFixed(1)}
+    </span>
+  )
+}
+
+function MovementCounts({ counts }: { counts: DeltaCounts }): React.ReactElement {
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+      <span className="text-green-600">{counts.improved} improved</span>
+      <span className="text-red-600">{counts.declined} declined</span>
+      <span className="text-blue-600">{counts.new} new</span>
+      <span className="text-muted-foreground">{counts.lost} lost</span>
+    </div>
+  )
+}
+
+export function ScanComparisonSummary({
+  comparison,
+}: ScanComparisonSummaryProps): React.ReactElement {
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Compass className="h-5 w-5" />
+            Movement by Quadrant
+          </CardTitle>
+          <CardDescription>
+            All keywords. Cells on the center row and column count towards both neighbouring
+            quadrants.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-3">
+            {comparison.quadrants.map((quadrant) => (
+              <div key={quadrant.quadrant} className="space-y-2 rounded-lg border p-4">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{QUADRANT_LABELS[quadrant.quadrant]}</span>
+                  <ChangeIndicator change={quadrant.avgChange} />
+                </div>
+                <p className="text-muted-foreground text-sm">
+                  Avg rank {formatRank(quadrant.baseAvgRank)} →{' '}
+                  {formatRank(quadrant.compareAvgRank)}
+                </p>
+                <MovementCounts counts={quadrant} />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Keyword</CardTitle>
+          <CardDescription>
+            {comparison.totals.points} cells compared
+            {comparison.unmatchedPoints > 0 &&
+              ` • ${comparison.unmatchedPoints} cells only in one scan were skipped`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Keyword</TableHead>
+                  <TableHead className="text-center">Avg Rank</TableHead>
+                  <TableHead className="text-center">Avg Change</TableHead>
+                  <TableHead>Cells</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.keywords.map((keyword) => (
+                  <TableRow key={keyword.keyword}>
+                    <TableCell className="font-medium">{keyword.keyword}</TableCell>
+                    <TableCell className="text-center">
+                      {formatRank(keyword.baseAvgRank)} → {formatRank(keyword.compareAvgRank)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-center">
+                        <ChangeIndicator change={keyword.avgChange} />
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <MovementCounts counts={keyword} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -6,7 +6,11 @@
 
 // Campaign Management
 export { CampaignCard, type CampaignCardData } from './CampaignCard'
-export { CampaignForm } from './CampaignForm'
+export { CampaignForm, type CampaignLocationOption } from './CampaignForm'
+
+// Multi-Location Components
+export { LocationManager, type LocationData, type LocationFormValues } from './LocationManager'
+export { LocationRollupView } from './LocationRollupView'
 
 // Grid Components
 export { GridMap } from './GridMap'
@@ -15,9 +19,15 @@ export { GridCell, type GridCellData } from './GridCell'
 export { GridLegend } from './GridLegend'
 export { GridPointDetail } from './GridPointDetail'
 
+// Scan Comparison Components
+export { GridDeltaMap } from './GridDeltaMap'
+export { ScanComparisonSummary } from './ScanComparisonSummary'
+
 // Competitor Components
 export { CompetitorTable, type CompetitorData } from './CompetitorTable'
 export { CompetitorShareChart } from './CompetitorShareChart'
+export { CompetitorTrajectoryChart } from './CompetitorTrajectoryChart'
+export { CompetitorMovements } from './CompetitorMovements'
 
 // Scan & History Components
 export { ScanProgressIndicator } from './ScanProgressIndicator'
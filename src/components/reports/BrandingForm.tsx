@@ -0,0 +1,225 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { toast } from 'sonner'
+import { Loader2, Palette, Save, Trash2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface Branding {
+  brandName: string | null
+  logo: string | null
+  primaryColor: string | null
+  accentColor: string | null
+}
+
+interface BrandingFormProps {
+  workspaceId: string
+  workspaceName: string
+  canEdit: boolean
+}
+
+const DEFAULT_PRIMARY = '#0D1F3C'
+const DEFAULT_ACCENT = '#FF6B35'
+const MAX_LOGO_BYTES = 500 * 1024
+
+/**
+ * White-label branding applied to PDF reports for the workspace's domains
+ */
+export function BrandingForm({ workspaceId, workspaceName, canEdit }: BrandingFormProps) {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [brandName, setBrandName] = useState('')
+  const [logo, setLogo] = useState<string | null>(null)
+  const [primaryColor, setPrimaryColor] = useState(DEFAULT_PRIMARY)
+  const [accentColor, setAccentColor] = useState(DEFAULT_ACCENT)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/workspaces/${workspaceId}/branding`)
+        const data = await response.json()
+        if (cancelled) return
+
+        if (data.success) {
+          const branding = data.data as Branding
+          setBrandName(branding.brandName ?? '')
+          setLogo(branding.logo)
+          setPrimaryColor(branding.primaryColor ?? DEFAULT_PRIMARY)
+          setAccentColor(branding.accentColor ?? DEFAULT_ACCENT)
+        } else {
+          toast.error(data.error || 'Failed to load branding')
+        }
+      } catch {
+        if (!cancelled) toast.error('Failed to load branding')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [workspaceId])
+
+  const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      toast.error('Logo must be a PNG or JPEG image')
+      return
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast.error('Logo must be smaller than 500 KB')
+      return
+    }
+
+    const reader = new FileReader()
+    reader.onload = () => setLogo(reader.result as string)
+    reader.readAsDataURL(file)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/branding`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ brandName, logo, primaryColor, accentColor }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Report branding saved')
+      } else {
+        const details = data.details ? Object.values(data.details).flat().join(', ') : ''
+        toast.error(details || data.error || 'Failed to save branding')
+      }
+    } catch {
+      toast.error('Failed to save branding')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base font-medium">
+          <Palette className="h-4 w-4" />
+          Report Branding
+        </CardTitle>
+        <CardDescription>
+          Logo, name and colors used on PDF reports for domains shared with {workspaceName}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="brand-name">Agency name</Label>
+                <Input
+                  id="brand-name"
+                  value={brandName}
+                  onChange={(e) => setBrandName(e.target.value)}
+                  placeholder={workspaceName}
+                  disabled={!canEdit}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="brand-primary">Primary color</Label>
+                <Input
+                  id="brand-primary"
+                  type="color"
+                  value={primaryColor}
+                  onChange={(e) => setPrimaryColor(e.target.value)}
+                  disabled={!canEdit}
+                  className="h-9 p-1"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="brand-accent">Accent color</Label>
+                <Input
+                  id="brand-accent"
+                  type="color"
+                  value={accentColor}
+                  onChange={(e) => setAccentColor(e.target.value)}
+                  disabled={!canEdit}
+                  className="h-9 p-1"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Logo</Label>
+              <div className="flex items-center gap-3">
+                <div
+                  className="flex h-16 w-40 items-center justify-center rounded-md border"
+                  style={{ backgroundColor: primaryColor }}
+                >
+                  {logo ? (
+                    // eslint-disable-next-line @next/next/no-img-element -- data URL preview
+                    <img src={logo} alt="Logo" className="max-h-12 max-w-36 object-contain" />
+                  ) : (
+                    <span className="text-xs text-white/70">No logo</span>
+                  )}
+                </div>
+                {canEdit && (
+                  <>
+                    <input
+                      ref={fileInput}
+                      type="file"
+                      accept="image/png,image/jpeg"
+                      className="hidden"
+                      onChange={handleLogoChange}
+                    />
+                    <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      Upload
+                    </Button>
+                    {logo && (
+                      <Button variant="ghost" size="sm" onClick={() => setLogo(null)}>
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Remove
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+              <p className="text-muted-foreground text-xs">
+                PNG or JPEG up to 500 KB. Shown on the cover of every report.
+              </p>
+            </div>
+
+            {canEdit && (
+              <div className="flex justify-end">
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="mr-2 h-4 w-4" />
+                  )}
+                  Save Branding
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
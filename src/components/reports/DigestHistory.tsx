@@ -0,0 +1,163 @@
+'use client'
+
+import { useState } from 'react'
+import { Eye, Inbox, Loader2, Send } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import type { ReportDeliveryStatus } from '@prisma/client'
+
+export interface DigestSummaryData {
+  id: string
+  periodStart: string
+  periodEnd: string
+  subject: string
+  recipients: string[]
+  status: ReportDeliveryStatus
+  attempts: number
+  sentAt: string | null
+  deliveryError: string | null
+  createdAt: string
+}
+
+interface DigestHistoryProps {
+  digests: DigestSummaryData[]
+  onChange: () => void
+}
+
+function StatusBadge({ digest }: { digest: DigestSummaryData }) {
+  if (digest.status === 'SENT') return <Badge variant="secondary">Sent</Badge>
+  if (digest.status === 'FAILED') return <Badge variant="destructive">Failed</Badge>
+  return <Badge variant="outline">Sending</Badge>
+}
+
+export function DigestHistory({ digests, onChange }: DigestHistoryProps) {
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const openPreview = async (digestId: string) => {
+    setPendingId(digestId)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/reports/digests/${digestId}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setPreview({ subject: data.data.subject, html: data.data.html })
+      } else {
+        setError(data.error || 'Failed to load report')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const resend = async (digestId: string) => {
+    setPendingId(digestId)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/reports/digests/${digestId}/resend`, { method: 'POST' })
+      const data = await response.json()
+
+      if (data.success) {
+        onChange()
+      } else {
+        setError(data.error || 'Failed to resend report')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Sent Reports</CardTitle>
+        <CardDescription>Every scheduled report is kept exactly as it was emailed</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-destructive text-sm">{error}</p>}
+
+        {digests.length === 0 ? (
+          <div className="text-muted-foreground py-8 text-center">
+            <Inbox className="mx-auto mb-2 h-8 w-8" />
+            <p>No reports sent yet</p>
+          </div>
+        ) : (
+          digests.map((digest) => {
+            const pending = pendingId === digest.id
+
+            return (
+              <div
+                key={digest.id}
+                className="flex items-start justify-between gap-4 rounded-lg border p-3"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="truncate text-sm font-medium">{digest.subject}</span>
+                    <StatusBadge digest={digest} />
+                  </div>
+                  <p className="text-muted-foreground text-xs">
+                    {digest.recipients.join(', ')} &middot;{' '}
+                    {new Date(digest.sentAt ?? digest.createdAt).toLocaleString()}
+                    {digest.deliveryError && (
+                      <span className="text-destructive"> &middot; {digest.deliveryError}</span>
+                    )}
+                  </p>
+                </div>
+
+                <div className="flex shrink-0 items-center gap-2">
+                  {pending && <Loader2 className="text-muted-foreground h-4 w-4 animate-spin" />}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={pending}
+                    className="cursor-pointer"
+                    onClick={() => openPreview(digest.id)}
+                  >
+                    <Eye className="mr-1 h-4 w-4" />
+                    View
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={pending || digest.status === 'PENDING'}
+                    className="cursor-pointer"
+                    onClick={() => resend(digest.id)}
+                  >
+                    <Send className="mr-1 h-4 w-4" />
+                    Resend
+                  </Button>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="text-base">{preview?.subject}</DialogTitle>
+          </DialogHeader>
+          {preview && (
+            <iframe
+              title="Report email preview"
+              srcDoc={preview.html}
+              sandbox=""
+              className="h-[70vh] w-full rounded border"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
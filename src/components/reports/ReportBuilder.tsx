@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns'
+import { Download, FileText } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { REPORT_SECTIONS, REPORT_SECTION_LABELS, type ReportSection } from '@/lib/reports/types'
+
+interface ReportBuilderProps {
+  domainId: string
+}
+
+const SECTION_DESCRIPTIONS: Record<ReportSection, string> = {
+  audit: 'Latest SEO audit scores and on-page checks',
+  keywordTracking: 'Tracking runs in the period with biggest gains and drops',
+  localGrid: 'Latest grid scan per campaign with rank heatmaps',
+  gbp: 'Google Business Profile completeness breakdown',
+  backlinks: 'Domain rank, backlink counts and top referring domains',
+  aiVisibility: 'AI visibility score and its trend',
+}
+
+function dateInput(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+export function ReportBuilder({ domainId }: ReportBuilderProps) {
+  // Default to the previous calendar month, the usual client reporting cycle
+  const lastMonth = subMonths(new Date(), 1)
+  const [from, setFrom] = useState(dateInput(startOfMonth(lastMonth)))
+  const [to, setTo] = useState(dateInput(endOfMonth(lastMonth)))
+  const [sections, setSections] = useState<ReportSection[]>([...REPORT_SECTIONS])
+
+  const toggleSection = (section: ReportSection, checked: boolean) => {
+    setSections((current) =>
+      checked
+        ? REPORT_SECTIONS.filter((s) => s === section || current.includes(s))
+        : current.filter((s) => s !== section)
+    )
+  }
+
+  const invalidRange = !from || !to || from > to
+  const downloadUrl = `/api/reports/pdf?${new URLSearchParams({
+    domainId,
+    from,
+    to,
+    sections: sections.join(','),
+  })}`
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileText className="h-5 w-5" />
+          Client Report
+        </CardTitle>
+        <CardDescription>Branded PDF using your workspace&apos;s logo and colors</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="report-from">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-to">To</Label>
+            <Input id="report-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Sections</Label>
+          {REPORT_SECTIONS.map((section) => (
+            <div key={section} className="flex items-start gap-3">
+              <Checkbox
+                id={`section-${section}`}
+                checked={sections.includes(section)}
+                onCheckedChange={(checked) => toggleSection(section, checked === true)}
+                className="mt-0.5"
+              />
+              <div className="space-y-0.5">
+                <Label htmlFor={`section-${section}`} className="cursor-pointer">
+                  {REPORT_SECTION_LABELS[section]}
+                </Label>
+                <p className="text-muted-foreground text-xs">{SECTION_DESCRIPTIONS[section]}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {invalidRange && (
+          <p className="text-destructive text-sm">Start date must be before end date</p>
+        )}
+
+        <div className="flex justify-end">
+          {invalidRange || sections.length === 0 ? (
+            <Button disabled>
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </Button>
+          ) : (
+            <Button asChild className="cursor-pointer">
+              <a href={downloadUrl} download>
+                <Download className="mr-2 h-4 w-4" />
+                Download PDF
+              </a>
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,278 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Mail, Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { DIGEST_SECTIONS, DIGEST_SECTION_LABELS, type DigestSection } from '@/lib/reports/types'
+
+export interface ReportScheduleData {
+  id: string
+  isEnabled: boolean
+  frequency: string
+  dayOfWeek: number | null
+  dayOfMonth: number | null
+  timeOfDay: string
+  recipients: string[]
+  sections: DigestSection[]
+  nextRunAt: string | null
+  lastRunAt: string | null
+}
+
+interface ReportScheduleFormProps {
+  domainId: string
+  schedule: ReportScheduleData | null
+  onSave: () => void
+}
+
+const DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export function ReportScheduleForm({ domainId, schedule, onSave }: ReportScheduleFormProps) {
+  const [isEnabled, setIsEnabled] = useState(schedule?.isEnabled ?? true)
+  const [frequency, setFrequency] = useState(schedule?.frequency ?? 'monthly')
+  const [dayOfWeek, setDayOfWeek] = useState(schedule?.dayOfWeek?.toString() ?? '1')
+  const [dayOfMonth, setDayOfMonth] = useState(schedule?.dayOfMonth?.toString() ?? '1')
+  const [timeOfDay, setTimeOfDay] = useState(schedule?.timeOfDay ?? '08:00')
+  const [recipients, setRecipients] = useState(schedule?.recipients.join(', ') ?? '')
+  const [sections, setSections] = useState<DigestSection[]>(
+    schedule?.sections ?? [...DIGEST_SECTIONS]
+  )
+  const [saving, setSaving] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleSection = (section: DigestSection, checked: boolean) => {
+    setSections((current) =>
+      checked
+        ? DIGEST_SECTIONS.filter((s) => s === section || current.includes(s))
+        : current.filter((s) => s !== section)
+    )
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const weekly = frequency === 'weekly' || frequency === 'biweekly'
+      const response = await fetch('/api/reports/schedule', {
+        method: schedule ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          domainId,
+          isEnabled,
+          frequency,
+          dayOfWeek: weekly ? parseInt(dayOfWeek) : undefined,
+          dayOfMonth: weekly ? undefined : parseInt(dayOfMonth),
+          timeOfDay,
+          recipients: recipients
+            .split(/[,\s]+/)
+            .map((r) => r.trim())
+            .filter(Boolean),
+          sections,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        onSave()
+      } else {
+        const fieldErrors = data.details ? Object.values(data.details).flat().join(', ') : ''
+        setError(fieldErrors || data.error || 'Failed to save schedule')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!schedule) return
+    if (!confirm('Stop sending scheduled reports for this domain?')) return
+
+    setDeleting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/reports/schedule?domainId=${domainId}`, {
+        method: 'DELETE',
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        onSave()
+      } else {
+        setError(data.error || 'Failed to delete schedule')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Mail className="h-5 w-5" />
+          Scheduled Email Report
+        </CardTitle>
+        <CardDescription>
+          Email a branded summary of the last period to your client automatically
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="report-schedule-enabled">Send scheduled reports</Label>
+          <Switch id="report-schedule-enabled" checked={isEnabled} onCheckedChange={setIsEnabled} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="report-recipients">Recipients</Label>
+          <Input
+            id="report-recipients"
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+            placeholder="client@example.com, seo@example.com"
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select value={frequency} onValueChange={setFrequency}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="monthly">Monthly</SelectItem>
+                <SelectItem value="biweekly">Every 2 Weeks</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {frequency === 'monthly' ? (
+            <div className="space-y-2">
+              <Label>Day of Month</Label>
+              <Select value={dayOfMonth} onValueChange={setDayOfMonth}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 28 }, (_, i) => i + 1).map((day) => (
+                    <SelectItem key={day} value={day.toString()}>
+                      {day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>Day of Week</Label>
+              <Select value={dayOfWeek} onValueChange={setDayOfWeek}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAYS_OF_WEEK.map((day, index) => (
+                    <SelectItem key={day} value={index.toString()}>
+                      {day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="report-time">Time (UTC)</Label>
+            <Input
+              id="report-time"
+              type="time"
+              value={timeOfDay}
+              onChange={(e) => setTimeOfDay(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Include</Label>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {DIGEST_SECTIONS.map((section) => (
+              <div key={section} className="flex items-center gap-3">
+                <Checkbox
+                  id={`digest-${section}`}
+                  checked={sections.includes(section)}
+                  onCheckedChange={(checked) => toggleSection(section, checked === true)}
+                />
+                <Label htmlFor={`digest-${section}`} className="cursor-pointer">
+                  {DIGEST_SECTION_LABELS[section]}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {schedule?.isEnabled && schedule.nextRunAt && (
+          <p className="text-muted-foreground text-sm">
+            Next report: {new Date(schedule.nextRunAt).toLocaleString()}
+          </p>
+        )}
+
+        {error && <p className="text-destructive text-sm">{error}</p>}
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        {schedule && (
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={deleting || saving}
+            className="cursor-pointer"
+          >
+            {deleting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Trash2 className="mr-2 h-4 w-4" />
+            )}
+            Delete
+          </Button>
+        )}
+        <Button
+          onClick={handleSave}
+          disabled={saving || deleting || sections.length === 0 || !recipients.trim()}
+          className="ml-auto cursor-pointer"
+        >
+          {saving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          {schedule ? 'Update Schedule' : 'Create Schedule'}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
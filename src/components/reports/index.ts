@@ -0,0 +1,8 @@
+/**
+ * Report Components
+ */
+
+export { BrandingForm } from './BrandingForm'
+export { DigestHistory, type DigestSummaryData } from './DigestHistory'
+export { ReportBuilder } from './ReportBuilder'
+export { ReportScheduleForm, type ReportScheduleData } from './ReportScheduleForm'
@@ -0,0 +1,172 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Loader2, Share2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SHARE_EXPIRY_DAYS, SHARE_RESOURCE_LABELS } from '@/lib/share/types'
+import type { ShareResourceType } from '@prisma/client'
+import { ShareLinkList, copyShareUrl, type ShareLinkData } from './ShareLinkList'
+
+interface ShareButtonProps {
+  domainId: string
+  resourceType: ShareResourceType
+  /** Run or scan ID; omit for the domain dashboard */
+  resourceId?: string
+  size?: 'default' | 'sm'
+  /** Called after a link is created or revoked */
+  onChange?: () => void
+}
+
+export function ShareButton({
+  domainId,
+  resourceType,
+  resourceId,
+  size = 'default',
+  onChange,
+}: ShareButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [links, setLinks] = useState<ShareLinkData[]>([])
+  const [loading, setLoading] = useState(false)
+  const [label, setLabel] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState('30')
+  const [creating, setCreating] = useState(false)
+
+  const fetchLinks = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ domainId, resourceType })
+      if (resourceId) params.set('resourceId', resourceId)
+
+      const response = await fetch(`/api/share-links?${params}`)
+      const data = await response.json()
+      if (data.success) setLinks(data.data)
+    } catch {
+      toast.error('Failed to load share links')
+    } finally {
+      setLoading(false)
+    }
+  }, [domainId, resourceType, resourceId])
+
+  useEffect(() => {
+    if (open) fetchLinks()
+  }, [open, fetchLinks])
+
+  const handleLinksChanged = async () => {
+    await fetchLinks()
+    onChange?.()
+  }
+
+  const handleCreate = async () => {
+    setCreating(true)
+    try {
+      const response = await fetch('/api/share-links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          domainId,
+          resourceType,
+          resourceId,
+          label: label.trim() || undefined,
+          expiresInDays: Number(expiresInDays),
+        }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        await copyShareUrl(data.data.token)
+        setLabel('')
+        await handleLinksChanged()
+      } else {
+        toast.error(data.error || 'Failed to create share link')
+      }
+    } catch {
+      toast.error('Failed to create share link')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size={size} className="cursor-pointer">
+          <Share2 className="h-4 w-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share {SHARE_RESOURCE_LABELS[resourceType].toLowerCase()}</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view this page without signing in. Links expire automatically
+            and can be revoked at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-[1fr_auto]">
+            <div className="space-y-2">
+              <Label htmlFor="share-label">Label</Label>
+              <Input
+                id="share-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Sent to prospect"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expires after</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_EXPIRY_DAYS.map((days) => (
+                    <SelectItem key={days} value={days.toString()}>
+                      {days === 365 ? '1 year' : `${days} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Button onClick={handleCreate} disabled={creating} className="w-full cursor-pointer">
+            {creating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Share2 className="mr-2 h-4 w-4" />
+            )}
+            Create link
+          </Button>
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+            </div>
+          ) : (
+            <ShareLinkList links={links} onChange={handleLinksChanged} />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
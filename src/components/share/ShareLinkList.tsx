@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { Ban, Copy, Eye, Link2Off } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { SHARE_RESOURCE_LABELS } from '@/lib/share/types'
+import type { ShareResourceType } from '@prisma/client'
+
+export interface ShareLinkData {
+  id: string
+  resourceType: ShareResourceType
+  resourceId: string | null
+  label: string | null
+  token: string
+  expiresAt: string
+  revokedAt: string | null
+  viewCount: number
+  lastViewedAt: string | null
+  createdAt: string
+}
+
+interface ShareLinkListProps {
+  links: ShareLinkData[]
+  onChange: () => void
+  /** Show what each link points to; off when listing links for a single resource */
+  showResource?: boolean
+}
+
+export function shareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`
+}
+
+export async function copyShareUrl(token: string): Promise<void> {
+  await navigator.clipboard?.writeText(shareUrl(token)).catch(() => undefined)
+  toast.success('Share link copied to clipboard')
+}
+
+function StatusBadge({ link }: { link: ShareLinkData }) {
+  if (link.revokedAt) return <Badge variant="secondary">Revoked</Badge>
+  if (new Date(link.expiresAt) <= new Date()) return <Badge variant="outline">Expired</Badge>
+  return <Badge>Active</Badge>
+}
+
+export function ShareLinkList({ links, onChange, showResource = false }: ShareLinkListProps) {
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+
+  const revoke = async (linkId: string) => {
+    if (!confirm('Revoke this link? Anyone using it will lose access immediately.')) return
+
+    setRevokingId(linkId)
+    try {
+      const response = await fetch(`/api/share-links/${linkId}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Share link revoked')
+        onChange()
+      } else {
+        toast.error(data.error || 'Failed to revoke link')
+      }
+    } catch {
+      toast.error('Failed to revoke link')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  if (links.length === 0) {
+    return (
+      <div className="text-muted-foreground py-6 text-center text-sm">
+        <Link2Off className="mx-auto mb-2 h-6 w-6" />
+        No share links yet
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {links.map((link) => {
+        const active = !link.revokedAt && new Date(link.expiresAt) > new Date()
+
+        return (
+          <div
+            key={link.id}
+            className="flex items-center justify-between gap-3 rounded-lg border p-3"
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="truncate text-sm font-medium">
+                  {link.label || SHARE_RESOURCE_LABELS[link.resourceType]}
+                </span>
+                <StatusBadge link={link} />
+              </div>
+              <p className="text-muted-foreground flex flex-wrap items-center gap-x-2 text-xs">
+                {showResource && link.label && (
+                  <span>{SHARE_RESOURCE_LABELS[link.resourceType]} &middot;</span>
+                )}
+                <span className="flex items-center gap-1">
+                  <Eye className="h-3 w-3" />
+                  {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'}
+                </span>
+                {link.lastViewedAt && (
+                  <span>
+                    &middot; last viewed{' '}
+                    {formatDistanceToNow(new Date(link.lastViewedAt), { addSuffix: true })}
+                  </span>
+                )}
+                <span>
+                  &middot; {active ? 'expires' : 'created'}{' '}
+                  {format(new Date(active ? link.expiresAt : link.createdAt), 'PP')}
+                </span>
+              </p>
+            </div>
+
+            {active && (
+              <div className="flex shrink-0 items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="cursor-pointer"
+                  onClick={() => copyShareUrl(link.token)}
+                >
+                  <Copy className="mr-1 h-4 w-4" />
+                  Copy
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={revokingId === link.id}
+                  className="text-destructive cursor-pointer"
+                  onClick={() => revoke(link.id)}
+                >
+                  <Ban className="mr-1 h-4 w-4" />
+                  Revoke
+                </Button>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { CheckCircle2, ExternalLink, XCircle } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { HealthScoreGauge } from '@/components/domains/HealthScoreGauge'
+import type { SharedAiSeoRun } from '@/lib/share/types'
+
+interface SharedAiSeoRunViewProps {
+  resource: SharedAiSeoRun
+}
+
+const platformLabels: Record<string, string> = {
+  chatgpt: 'ChatGPT',
+  chat_gpt: 'ChatGPT',
+  google: 'Google AI Overview',
+}
+
+function platformLabel(platform: string): string {
+  return platformLabels[platform] || platform
+}
+
+export function SharedAiSeoRunView({ resource }: SharedAiSeoRunViewProps) {
+  const { run, platformScores, recommendations, results } = resource
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">AI Visibility</CardTitle>
+          </CardHeader>
+          <CardContent className="flex justify-center">
+            <HealthScoreGauge score={run.visibilityScore ?? 0} size="md" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Mentions</CardTitle>
+            <CardDescription>Times {run.businessName} was named in an AI answer</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{run.totalMentions}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Citations</CardTitle>
+            <CardDescription>Times the website was linked as a source</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{run.totalCitations}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {platformScores.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Platform Performance</CardTitle>
+            <CardDescription>Visibility metrics by AI platform</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {platformScores.map((score) => (
+              <div key={score.llmPlatform} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{platformLabel(score.llmPlatform)}</span>
+                  <span className="text-muted-foreground text-sm">
+                    {score.visibilityScore}% visibility
+                  </span>
+                </div>
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-muted-foreground">Mention Rate</span>
+                  <span>{Math.round(score.mentionRate * 100)}%</span>
+                </div>
+                <Progress value={score.mentionRate * 100} className="h-2" />
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-muted-foreground">Citation Rate</span>
+                  <span>{Math.round(score.citationRate * 100)}%</span>
+                </div>
+                <Progress value={score.citationRate * 100} className="h-2" />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {run.keywords.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Keyword Results</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {run.keywords.map((keyword) => {
+              const keywordResults = results.filter((r) => r.keyword === keyword)
+              const platforms = [...new Set(keywordResults.map((r) => r.llmPlatform))]
+              const mentioned = keywordResults.some((r) => r.isMentioned)
+              const cited = keywordResults.some((r) => r.isCited)
+
+              return (
+                <div
+                  key={keyword}
+                  className="flex items-center justify-between rounded-lg border p-3"
+                >
+                  <div className="flex items-center gap-3">
+                    {mentioned ? (
+                      <CheckCircle2 className="h-5 w-5 text-emerald-500" />
+                    ) : (
+                      <XCircle className="text-muted-foreground h-5 w-5" />
+                    )}
+                    <div>
+                      <p className="text-sm font-medium">{keyword}</p>
+                      <p className="text-muted-foreground text-xs">
+                        {platforms.map(platformLabel).join(', ')}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {cited && (
+                      <Badge variant="outline" className="text-xs">
+                        <ExternalLink className="mr-1 h-3 w-3" />
+                        Cited
+                      </Badge>
+                    )}
+                    {mentioned ? (
+                      <Badge className="bg-emerald-600">Mentioned</Badge>
+                    ) : (
+                      <Badge variant="secondary">Not Mentioned</Badge>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {recommendations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recommendations</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {recommendations.map((rec, idx) => (
+              <div key={idx} className="flex items-start gap-3 rounded-lg border p-3">
+                <Badge
+                  variant={
+                    rec.priority === 'high'
+                      ? 'destructive'
+                      : rec.priority === 'medium'
+                        ? 'default'
+                        : 'secondary'
+                  }
+                  className="mt-0.5"
+                >
+                  {rec.priority}
+                </Badge>
+                <div className="flex-1">
+                  <p className="text-sm font-medium">{rec.category}</p>
+                  <p className="text-muted-foreground mt-1 text-xs">{rec.suggestion}</p>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { summarizeDigestSections } from '@/lib/reports/digest'
+import type { SharedDashboard } from '@/lib/share/types'
+
+interface SharedDashboardViewProps {
+  resource: SharedDashboard
+}
+
+export function SharedDashboardView({ resource }: SharedDashboardViewProps) {
+  const sections = summarizeDigestSections(resource.summary)
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      {sections.map(({ section, title, content }) => (
+        <Card key={section}>
+          <CardHeader>
+            <CardTitle className="text-lg">{title}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {content ? (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  {content.metrics.map((metric) => (
+                    <div key={metric.label} className="bg-muted/50 rounded-lg p-3">
+                      <p className="text-2xl font-bold">{metric.value}</p>
+                      <p className="text-muted-foreground text-xs">{metric.label}</p>
+                    </div>
+                  ))}
+                </div>
+                {content.lines.length > 0 && (
+                  <ul className="text-muted-foreground list-disc space-y-1 pl-5 text-sm">
+                    {content.lines.map((line) => (
+                      <li key={line}>{line}</li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            ) : (
+              <p className="text-muted-foreground text-sm">No data in the last 30 days.</p>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { GridMap, KeywordGridSelector } from '@/components/local-seo'
+import type { SharedGridScan } from '@/lib/share/types'
+
+interface SharedGridScanViewProps {
+  resource: SharedGridScan
+}
+
+export function SharedGridScanView({ resource }: SharedGridScanViewProps) {
+  const { scan, points } = resource
+  const keywords = useMemo(() => [...new Set(points.map((p) => p.keyword))], [points])
+  const [keyword, setKeyword] = useState<string | null>(keywords[0] ?? null)
+
+  const keywordPoints = useMemo(
+    () => points.filter((p) => p.keyword === keyword),
+    [points, keyword]
+  )
+
+  const aggregates = useMemo(() => {
+    const ranked = keywordPoints.filter((p) => p.rank !== null)
+    const inTop3 = ranked.filter((p) => p.rank! <= 3).length
+
+    return {
+      avgRank:
+        ranked.length > 0
+          ? Number((ranked.reduce((sum, p) => sum + p.rank!, 0) / ranked.length).toFixed(2))
+          : null,
+      shareOfVoice:
+        keywordPoints.length > 0 ? Number(((inTop3 / keywordPoints.length) * 100).toFixed(2)) : 0,
+      timesInTop3: inTop3,
+      timesNotRanking: keywordPoints.length - ranked.length,
+      totalPoints: keywordPoints.length,
+    }
+  }, [keywordPoints])
+
+  if (keywords.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-muted-foreground py-12 text-center">
+          This grid scan has no results yet. Check back soon.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {keywords.length > 1 && (
+        <Card>
+          <CardContent className="pt-6">
+            <KeywordGridSelector
+              keywords={keywords}
+              selectedKeyword={keyword}
+              onSelectKeyword={(next) => setKeyword(next ?? keywords[0]!)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <GridMap
+        points={keywordPoints}
+        gridSize={scan.gridSize}
+        centerLat={scan.centerLat}
+        centerLng={scan.centerLng}
+        targetBusinessName={scan.campaignName}
+        keyword={keyword ?? undefined}
+        radiusMiles={scan.radiusMiles}
+        gridShape={scan.gridShape}
+        serviceArea={scan.serviceArea}
+        aggregates={aggregates}
+        showDetails
+      />
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { PositionBadge, PositionChangeBadge, RunOverview } from '@/components/keyword-tracking'
+import type { SharedKeywordRun } from '@/lib/share/types'
+
+interface SharedKeywordRunViewProps {
+  resource: SharedKeywordRun
+}
+
+export function SharedKeywordRunView({ resource }: SharedKeywordRunViewProps) {
+  const { run, results } = resource
+
+  if (run.status !== 'COMPLETED') {
+    return (
+      <Card>
+        <CardContent className="text-muted-foreground py-12 text-center">
+          This tracking run hasn&apos;t finished yet. Check back soon.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <RunOverview run={run} hideCost />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Keywords</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Keyword</TableHead>
+                <TableHead className="text-right">Volume</TableHead>
+                <TableHead className="text-center">Position</TableHead>
+                <TableHead className="text-center">Change</TableHead>
+                <TableHead>Ranking URL</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result) => (
+                <TableRow key={result.keyword}>
+                  <TableCell className="font-medium">{result.keyword}</TableCell>
+                  <TableCell className="text-right">
+                    {result.searchVolume?.toLocaleString() ?? '—'}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <PositionBadge position={result.position} />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <PositionChangeBadge
+                      position={result.position}
+                      previousPosition={result.previousPosition}
+                      positionChange={result.positionChange}
+                    />
+                  </TableCell>
+                  <TableCell className="text-muted-foreground max-w-xs truncate text-xs">
+                    {result.rankingUrl ?? '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
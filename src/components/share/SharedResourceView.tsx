@@ -0,0 +1,62 @@
+'use client'
+
+import { format } from 'date-fns'
+import { SHARE_RESOURCE_LABELS } from '@/lib/share/types'
+import type { SharedView } from '@/lib/share/types'
+import { SharedAiSeoRunView } from './SharedAiSeoRunView'
+import { SharedDashboardView } from './SharedDashboardView'
+import { SharedGridScanView } from './SharedGridScanView'
+import { SharedKeywordRunView } from './SharedKeywordRunView'
+
+interface SharedResourceViewProps {
+  view: SharedView
+}
+
+function ResourceBody({ resource }: { resource: SharedView['resource'] }) {
+  switch (resource.type) {
+    case 'DASHBOARD':
+      return <SharedDashboardView resource={resource} />
+    case 'KEYWORD_RUN':
+      return <SharedKeywordRunView resource={resource} />
+    case 'GRID_SCAN':
+      return <SharedGridScanView resource={resource} />
+    case 'AI_SEO_RUN':
+      return <SharedAiSeoRunView resource={resource} />
+  }
+}
+
+export function SharedResourceView({ view }: SharedResourceViewProps) {
+  const { branding, domain, resource } = view
+
+  return (
+    <div className="min-h-screen">
+      <header style={{ backgroundColor: branding.primaryColor }}>
+        <div className="mx-auto flex max-w-6xl items-center justify-between gap-4 px-6 py-4">
+          {branding.logo ? (
+            // eslint-disable-next-line @next/next/no-img-element -- data URL logo
+            <img src={branding.logo} alt={branding.brandName} className="max-h-10 max-w-40" />
+          ) : (
+            <span className="text-lg font-semibold text-white">{branding.brandName}</span>
+          )}
+          <span className="text-sm text-white/80">
+            Link expires {format(new Date(view.expiresAt), 'PP')}
+          </span>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-6xl space-y-6 px-6 py-8">
+        <div>
+          <p className="text-sm font-medium" style={{ color: branding.accentColor }}>
+            {SHARE_RESOURCE_LABELS[resource.type]}
+          </p>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {view.label || domain.businessName || domain.name}
+          </h1>
+          <p className="text-muted-foreground">{domain.domain}</p>
+        </div>
+
+        <ResourceBody resource={resource} />
+      </main>
+    </div>
+  )
+}
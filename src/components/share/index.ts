@@ -0,0 +1,9 @@
+/**
+ * Share Link Components
+ *
+ * Public, revocable links to a domain dashboard or a single result page
+ */
+
+export { ShareButton } from './ShareButton'
+export { ShareLinkList, type ShareLinkData } from './ShareLinkList'
+export { SharedResourceView } from './SharedResourceView'
@@ -3,12 +3,18 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { AlertCircle, AlertTriangle, Info } from 'lucide-react';
+import {
+  parseCustomIssueType,
+  type SiteAuditRuleSnapshot,
+} from '@/lib/seo/site-audit-rules';
 
 interface IssuesSummaryCardProps {
   errorsCount: number;
   warningsCount: number;
   noticesCount: number;
   issueTypes?: Record<string, number>;
+  /** Custom rules applied to the crawl, to label `custom:` issue types */
+  customRules?: SiteAuditRuleSnapshot[];
 }
 
 export function IssuesSummaryCard({
@@ -16,6 +22,7 @@ export function IssuesSummaryCard({
   warningsCount,
   noticesCount,
   issueTypes,
+  customRules = [],
 }: IssuesSummaryCardProps): React.ReactElement {
   // Sort issue types by count
   const sortedIssues = issueTypes
@@ -62,17 +69,32 @@ export function IssuesSummaryCard({
               Top Issues by Count
             </h4>
             <div className="space-y-2">
-              {sortedIssues.map(([issue, count]) => (
-                <div
-                  key={issue}
-                  className="flex items-center justify-between py-2 border-b last:border-0"
-                >
-                  <span className="text-sm truncate max-w-[200px]" title={issue}>
-                    {formatIssueLabel(issue)}
-                  </span>
-                  <Badge variant="secondary">{count} pages</Badge>
-                </div>
-              ))}
+              {sortedIssues.map(([issue, count]) => {
+                const ruleId = parseCustomIssueType(issue);
+                const rule = ruleId ? customRules.find((r) => r.id === ruleId) : undefined;
+                const label = ruleId
+                  ? (rule?.message ?? 'Deleted custom rule')
+                  : formatIssueLabel(issue);
+
+                return (
+                  <div
+                    key={issue}
+                    className="flex items-center justify-between gap-2 py-2 border-b last:border-0"
+                  >
+                    <span className="flex min-w-0 items-center gap-2">
+                      <span className="text-sm truncate max-w-[200px]" title={label}>
+                        {label}
+                      </span>
+                      {ruleId && (
+                        <Badge variant="outline" className="shrink-0 capitalize">
+                          Custom{rule ? ` · ${rule.severity}` : ''}
+                        </Badge>
+                      )}
+                    </span>
+                    <Badge variant="secondary">{count} pages</Badge>
+                  </div>
+                );
+              })}
             </div>
           </div>
         )}
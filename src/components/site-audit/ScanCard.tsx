@@ -30,6 +30,7 @@ export interface ScanCardData {
   status: 'PENDING' | 'SUBMITTING' | 'CRAWLING' | 'FETCHING_RESULTS' | 'COMPLETED' | 'FAILED';
   progress: number;
   maxCrawlPages: number;
+  triggeredBy?: string;
   createdAt: Date | string;
   completedAt: Date | string | null;
   summary?: {
@@ -133,6 +134,9 @@ export function ScanCard({ scan, onDelete, basePath = '/site-audit' }: ScanCardP
                 {statusConfig.icon}
                 {statusConfig.label}
               </Badge>
+              {scan.triggeredBy === 'scheduled' && (
+                <Badge variant="secondary">Scheduled</Badge>
+              )}
               <span className="text-xs text-muted-foreground">
                 Max {scan.maxCrawlPages} pages
               </span>
@@ -0,0 +1,292 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowDown, ArrowUp, Minus } from 'lucide-react';
+import type { MetricDelta, SiteAuditDiff } from '@/lib/seo/site-audit-diff';
+
+interface ScanComparisonProps {
+  diff: SiteAuditDiff;
+}
+
+// How many URLs to list per issue / page list before truncating
+const MAX_LISTED_URLS = 10;
+
+/**
+ * Format camelCase or snake_case check names to readable text
+ */
+function formatIssueLabel(issue: string): string {
+  const spaced = issue.replace(/_/g, ' ').replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1).toLowerCase();
+}
+
+function getSeverityVariant(
+  severity: string | null
+): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (severity === 'error') return 'destructive';
+  if (severity === 'warning') return 'default';
+  if (severity === 'notice') return 'secondary';
+  return 'outline';
+}
+
+/**
+ * Delta indicator. `higherIsBetter` controls the colouring.
+ */
+function DeltaValue({
+  delta,
+  higherIsBetter,
+}: {
+  delta: number | null;
+  higherIsBetter: boolean;
+}): React.ReactElement {
+  if (delta === null) return <span className="text-muted-foreground">N/A</span>;
+  if (delta === 0) {
+    return (
+      <span className="flex items-center gap-1 text-muted-foreground">
+        <Minus className="h-3 w-3" />0
+      </span>
+    );
+  }
+
+  const improved = higherIsBetter ? delta > 0 : delta < 0;
+  return (
+    <span
+      className={`flex items-center gap-1 ${improved ? 'text-green-600' : 'text-red-600'}`}
+    >
+      {delta > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+      {delta > 0 ? `+${delta}` : delta}
+    </span>
+  );
+}
+
+function MetricTile({
+  label,
+  metric,
+  higherIsBetter,
+}: {
+  label: string;
+  metric: MetricDelta;
+  higherIsBetter: boolean;
+}): React.ReactElement {
+  return (
+    <div className="p-4 rounded-lg border">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <p className="text-2xl font-bold">{metric.target ?? 'N/A'}</p>
+      <div className="flex items-center gap-2 text-xs">
+        <span className="text-muted-foreground">was {metric.base ?? 'N/A'}</span>
+        <DeltaValue delta={metric.delta} higherIsBetter={higherIsBetter} />
+      </div>
+    </div>
+  );
+}
+
+function UrlList({ urls }: { urls: string[] }): React.ReactElement {
+  if (urls.length === 0) {
+    return <p className="text-sm text-muted-foreground">None</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {urls.slice(0, MAX_LISTED_URLS).map((url) => (
+        <li key={url} className="truncate" title={url}>
+          {url}
+        </li>
+      ))}
+      {urls.length > MAX_LISTED_URLS && (
+        <li className="text-muted-foreground">+{urls.length - MAX_LISTED_URLS} more</li>
+      )}
+    </ul>
+  );
+}
+
+export function ScanComparison({ diff }: ScanComparisonProps): React.ReactElement {
+  const { summary, totals } = diff;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Deltas */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <MetricTile label="OnPage Score" metric={summary.onpageScore} higherIsBetter />
+        <MetricTile label="Errors" metric={summary.errorsCount} higherIsBetter={false} />
+        <MetricTile label="Warnings" metric={summary.warningsCount} higherIsBetter={false} />
+        <MetricTile label="Notices" metric={summary.noticesCount} higherIsBetter={false} />
+        <MetricTile label="Pages Crawled" metric={summary.crawledPages} higherIsBetter />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="destructive">{totals.newIssues} new issues</Badge>
+        <Badge variant="outline" className="text-green-600">
+          {totals.resolvedIssues} resolved
+        </Badge>
+        <Badge variant="secondary">{totals.pagesAdded} pages added</Badge>
+        <Badge variant="secondary">{totals.pagesRemoved} pages removed</Badge>
+        <Badge variant="secondary">{totals.statusCodeChanges} status changes</Badge>
+      </div>
+
+      {/* Issue Changes */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Issue Changes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {diff.issues.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No issue changes between these crawls.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Issue</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead className="text-right">Pages</TableHead>
+                  <TableHead className="text-right">New</TableHead>
+                  <TableHead className="text-right">Resolved</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.issues.map((issue) => (
+                  <TableRow key={issue.issueType}>
+                    <TableCell>
+                      <details>
+                        <summary className="cursor-pointer">
+                          {formatIssueLabel(issue.issueType)}
+                        </summary>
+                        <div className="mt-2 space-y-2">
+                          {issue.newPages.length > 0 && (
+                            <div>
+                              <p className="text-xs font-medium text-red-600">New on</p>
+                              <UrlList urls={issue.newPages} />
+                            </div>
+                          )}
+                          {issue.resolvedPages.length > 0 && (
+                            <div>
+                              <p className="text-xs font-medium text-green-600">Resolved on</p>
+                              <UrlList urls={issue.resolvedPages} />
+                            </div>
+                          )}
+                        </div>
+                      </details>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={getSeverityVariant(issue.severity)}>
+                        {issue.severity ?? 'other'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {issue.baseCount} &rarr; {issue.targetCount}
+                    </TableCell>
+                    <TableCell className="text-right text-red-600">
+                      {issue.newPages.length > 0 ? `+${issue.newPages.length}` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right text-green-600">
+                      {issue.resolvedPages.length > 0 ? `-${issue.resolvedPages.length}` : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pages Added / Removed */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Pages Added ({totals.pagesAdded})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <UrlList urls={diff.pagesAdded} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Pages Removed ({totals.pagesRemoved})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <UrlList urls={diff.pagesRemoved} />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Status Code Changes */}
+      {diff.statusCodeChanges.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Status Code Changes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>URL</TableHead>
+                  <TableHead className="text-right">Before</TableHead>
+                  <TableHead className="text-right">After</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.statusCodeChanges.map((change) => (
+                  <TableRow key={change.url}>
+                    <TableCell className="max-w-[400px] truncate" title={change.url}>
+                      {change.url}
+                    </TableCell>
+                    <TableCell className="text-right">{change.from}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant={change.to >= 400 ? 'destructive' : 'outline'}>
+                        {change.to}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* OnPage Score Changes */}
+      {diff.scoreChanges.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>OnPage Score Changes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>URL</TableHead>
+                  <TableHead className="text-right">Before</TableHead>
+                  <TableHead className="text-right">After</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.scoreChanges.map((change) => (
+                  <TableRow key={change.url}>
+                    <TableCell className="max-w-[400px] truncate" title={change.url}>
+                      {change.url}
+                    </TableCell>
+                    <TableCell className="text-right">{change.from.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{change.to.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">
+                      <span className="inline-flex justify-end">
+                        <DeltaValue delta={change.delta} higherIsBetter />
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { IssueSeverity } from '@/lib/constants/seo-thresholds';
+import {
+  CONDITION_FIELD_LABELS,
+  NUMERIC_OPERATORS,
+  OPERATOR_LABELS,
+  PAGE_TIMING_METRICS,
+  type PageTimingMetric,
+  type SiteAuditRuleCondition,
+} from '@/lib/seo/site-audit-rules';
+
+export interface SiteAuditRuleData {
+  id: string;
+  message: string;
+  severity: IssueSeverity;
+  conditions: SiteAuditRuleCondition[];
+  isEnabled: boolean;
+}
+
+interface SiteAuditRuleFormProps {
+  domainId: string;
+  /** Rule to edit; omit to create a new rule */
+  rule?: SiteAuditRuleData;
+  onSave: () => void;
+  onCancel?: () => void;
+}
+
+type ConditionField = SiteAuditRuleCondition['field'];
+type ConditionOperator = SiteAuditRuleCondition['operator'];
+
+interface ConditionDraft {
+  field: ConditionField;
+  metric: PageTimingMetric;
+  operator: ConditionOperator;
+  value: string;
+}
+
+const FIELD_OPERATORS: Record<ConditionField, readonly ConditionOperator[]> = {
+  url: ['matches', 'not_matches'],
+  title: ['matches', 'not_matches'],
+  description: ['matches', 'not_matches'],
+  word_count: NUMERIC_OPERATORS,
+  h1_count: NUMERIC_OPERATORS,
+  status_code: NUMERIC_OPERATORS,
+  page_timing: NUMERIC_OPERATORS,
+  text: ['contains', 'not_contains'],
+};
+
+const VALUE_PLACEHOLDERS: Record<ConditionField, string> = {
+  url: '^https://[^/]+/blog/',
+  title: '\\| Brand$',
+  description: 'free shipping',
+  word_count: '300',
+  h1_count: '1',
+  status_code: '200',
+  page_timing: '2500',
+  text: 'Book an appointment',
+};
+
+const EMPTY_CONDITION: ConditionDraft = {
+  field: 'word_count',
+  metric: 'largest_contentful_paint',
+  operator: 'lt',
+  value: '',
+};
+
+function toDraft(condition: SiteAuditRuleCondition): ConditionDraft {
+  return {
+    ...EMPTY_CONDITION,
+    ...condition,
+    value: String(condition.value),
+  };
+}
+
+function isNumericField(field: ConditionField): boolean {
+  return FIELD_OPERATORS[field] === NUMERIC_OPERATORS;
+}
+
+function toCondition(draft: ConditionDraft): Record<string, unknown> {
+  return {
+    field: draft.field,
+    operator: draft.operator,
+    value: isNumericField(draft.field) ? Number(draft.value) : draft.value,
+    ...(draft.field === 'page_timing' && { metric: draft.metric }),
+  };
+}
+
+export function SiteAuditRuleForm({ domainId, rule, onSave, onCancel }: SiteAuditRuleFormProps) {
+  const [message, setMessage] = useState(rule?.message ?? '');
+  const [severity, setSeverity] = useState<IssueSeverity>(rule?.severity ?? 'warning');
+  const [isEnabled, setIsEnabled] = useState(rule?.isEnabled ?? true);
+  const [conditions, setConditions] = useState<ConditionDraft[]>(
+    rule?.conditions.map(toDraft) ?? [EMPTY_CONDITION]
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateCondition = (index: number, changes: Partial<ConditionDraft>) => {
+    setConditions((prev) =>
+      prev.map((condition, i) => {
+        if (i !== index) return condition;
+        const next = { ...condition, ...changes };
+        // Switching field resets an operator the new field doesn't support
+        if (!FIELD_OPERATORS[next.field].includes(next.operator)) {
+          next.operator = FIELD_OPERATORS[next.field][0] ?? next.operator;
+        }
+        return next;
+      })
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const body = {
+        ...(rule ? {} : { domainId }),
+        message,
+        severity,
+        isEnabled,
+        conditions: conditions.map(toCondition),
+      };
+
+      const response = await fetch(
+        rule ? `/api/site-audit/rules/${rule.id}` : '/api/site-audit/rules',
+        {
+          method: rule ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+      );
+
+      const data = await response.json();
+
+      if (data.success) {
+        onSave();
+      } else {
+        const fieldErrors = data.details ? Object.values(data.details).flat().join(', ') : '';
+        setError(fieldErrors || data.error || 'Failed to save rule');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{rule ? 'Edit Rule' : 'New Rule'}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="rule-enabled">Enabled</Label>
+          <Switch id="rule-enabled" checked={isEnabled} onCheckedChange={setIsEnabled} />
+        </div>
+
+        <div className="grid grid-cols-[1fr_160px] gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-message">Message</Label>
+            <Input
+              id="rule-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Blog post under 300 words"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Severity</Label>
+            <Select value={severity} onValueChange={(value) => setSeverity(value as IssueSeverity)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="error">Error</SelectItem>
+                <SelectItem value="warning">Warning</SelectItem>
+                <SelectItem value="notice">Notice</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Conditions</Label>
+          <p className="text-muted-foreground text-xs">
+            A page matches when all conditions hold. Patterns are case-insensitive regular
+            expressions. Page text covers the title, meta description, headings and meta tags.
+          </p>
+          {conditions.map((condition, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select
+                value={condition.field}
+                onValueChange={(value) =>
+                  updateCondition(index, { field: value as ConditionField })
+                }
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CONDITION_FIELD_LABELS) as ConditionField[]).map((field) => (
+                    <SelectItem key={field} value={field}>
+                      {CONDITION_FIELD_LABELS[field]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {condition.field === 'page_timing' && (
+                <Select
+                  value={condition.metric}
+                  onValueChange={(value) =>
+                    updateCondition(index, { metric: value as PageTimingMetric })
+                  }
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAGE_TIMING_METRICS.map((metric) => (
+                      <SelectItem key={metric} value={metric}>
+                        {metric.replace(/_/g, ' ')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <Select
+                value={condition.operator}
+                onValueChange={(value) =>
+                  updateCondition(index, { operator: value as ConditionOperator })
+                }
+              >
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FIELD_OPERATORS[condition.field].map((operator) => (
+                    <SelectItem key={operator} value={operator}>
+                      {OPERATOR_LABELS[operator]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Input
+                className="flex-1"
+                type={isNumericField(condition.field) ? 'number' : 'text'}
+                value={condition.value}
+                onChange={(e) => updateCondition(index, { value: e.target.value })}
+                placeholder={VALUE_PLACEHOLDERS[condition.field]}
+              />
+
+              <Button
+                variant="ghost"
+                size="icon"
+                className="cursor-pointer"
+                disabled={conditions.length === 1}
+                onClick={() => setConditions((prev) => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {conditions.length < 10 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="cursor-pointer"
+              onClick={() => setConditions((prev) => [...prev, EMPTY_CONDITION])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Condition
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-destructive text-sm">{error}</p>}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" onClick={onCancel} disabled={saving} className="cursor-pointer">
+            <X className="mr-2 h-4 w-4" />
+            Cancel
+          </Button>
+        )}
+        <Button
+          onClick={handleSave}
+          disabled={saving || !message.trim()}
+          className="cursor-pointer"
+        >
+          {saving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          {rule ? 'Save Rule' : 'Create Rule'}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -24,3 +24,8 @@ export type { PageFilterState } from './PageFilters';
 export { PageDetailDrawer } from './PageDetailDrawer';
 
 export { IssueExplorerTabs } from './issues';
+
+export { ScanComparison } from './ScanComparison';
+
+export { SiteAuditRuleForm } from './SiteAuditRuleForm';
+export type { SiteAuditRuleData } from './SiteAuditRuleForm';
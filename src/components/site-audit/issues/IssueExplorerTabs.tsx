@@ -2,11 +2,15 @@
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { AlertCircle, Copy, RefreshCw, EyeOff } from 'lucide-react';
+import { AlertCircle, Copy, RefreshCw, EyeOff, Code2, Network, FileSearch } from 'lucide-react';
 import { DuplicatesTable } from './DuplicatesTable';
 import { RedirectsTable } from './RedirectsTable';
 import { NonIndexableTable } from './NonIndexableTable';
+import { StructuredDataTable } from './StructuredDataTable';
+import { LinkGraphTable } from './LinkGraphTable';
+import { SitemapTable } from './SitemapTable';
 import { IssuesSummaryCard } from '../IssuesSummaryCard';
+import type { SiteAuditRuleSnapshot } from '@/lib/seo/site-audit-rules';
 
 interface IssueExplorerTabsProps {
   scanId: string;
@@ -19,14 +23,22 @@ interface IssueExplorerTabsProps {
     duplicateContent: number;
     nonIndexable: number;
   };
+  /** Pages affected per issue type, built-in and custom */
+  issueTypes?: Record<string, number>;
+  customRules?: SiteAuditRuleSnapshot[];
 }
 
-export function IssueExplorerTabs({ scanId, summary }: IssueExplorerTabsProps) {
+export function IssueExplorerTabs({
+  scanId,
+  summary,
+  issueTypes,
+  customRules,
+}: IssueExplorerTabsProps) {
   const totalDuplicates = summary.duplicateTitle + summary.duplicateDescription;
 
   return (
     <Tabs defaultValue="overview" className="space-y-4">
-      <TabsList className="grid w-full grid-cols-4">
+      <TabsList className="grid w-full grid-cols-7">
         <TabsTrigger value="overview" className="gap-2">
           <AlertCircle className="h-4 w-4" />
           <span className="hidden sm:inline">All Issues</span>
@@ -56,6 +68,18 @@ export function IssueExplorerTabs({ scanId, summary }: IssueExplorerTabsProps) {
             </Badge>
           )}
         </TabsTrigger>
+        <TabsTrigger value="structured-data" className="gap-2">
+          <Code2 className="h-4 w-4" />
+          <span className="hidden sm:inline">Structured Data</span>
+        </TabsTrigger>
+        <TabsTrigger value="links" className="gap-2">
+          <Network className="h-4 w-4" />
+          <span className="hidden sm:inline">Links</span>
+        </TabsTrigger>
+        <TabsTrigger value="sitemap" className="gap-2">
+          <FileSearch className="h-4 w-4" />
+          <span className="hidden sm:inline">Sitemap</span>
+        </TabsTrigger>
       </TabsList>
 
       <TabsContent value="overview">
@@ -63,6 +87,8 @@ export function IssueExplorerTabs({ scanId, summary }: IssueExplorerTabsProps) {
           errorsCount={summary.errorsCount}
           warningsCount={summary.warningsCount}
           noticesCount={summary.noticesCount}
+          issueTypes={issueTypes}
+          customRules={customRules}
         />
       </TabsContent>
 
@@ -77,6 +103,18 @@ export function IssueExplorerTabs({ scanId, summary }: IssueExplorerTabsProps) {
       <TabsContent value="non-indexable">
         <NonIndexableTable scanId={scanId} />
       </TabsContent>
+
+      <TabsContent value="structured-data">
+        <StructuredDataTable scanId={scanId} />
+      </TabsContent>
+
+      <TabsContent value="links">
+        <LinkGraphTable scanId={scanId} />
+      </TabsContent>
+
+      <TabsContent value="sitemap">
+        <SitemapTable scanId={scanId} />
+      </TabsContent>
     </Tabs>
   );
 }
@@ -0,0 +1,265 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import { ExternalLink, AlertTriangle, Network, ChevronDown, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { LinkGraphReport, LinkGraphReportPage } from '@/lib/seo/link-graph';
+
+type LinkFilter = 'all' | 'orphans' | 'underlinked';
+
+interface LinkGraphTableProps {
+  scanId: string;
+}
+
+function depthLabel(depth: string): string {
+  return depth === 'unreachable' ? 'Unreachable' : `Depth ${depth}`;
+}
+
+export function LinkGraphTable({ scanId }: LinkGraphTableProps) {
+  const [data, setData] = useState<LinkGraphReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<LinkFilter>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchLinkGraph() {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/site-audit/scans/${scanId}/links`);
+        const result = await response.json();
+
+        if (!result.success) {
+          setError(result.error || 'Failed to fetch link graph');
+          return;
+        }
+
+        setData(result.data);
+      } catch {
+        setError('Failed to fetch link graph');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchLinkGraph();
+  }, [scanId]);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-48" />
+          <Skeleton className="h-4 w-64" />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-12 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="pt-6">
+          <div className="text-destructive flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!data || !data.analysed) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="text-muted-foreground py-8 text-center">
+            Link analysis isn&apos;t available for this crawl. Run a new crawl to analyse internal
+            links.
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const orphanIds = new Set(data.orphans.map((page) => page.id));
+  const underlinkedIds = new Set(data.underlinked.map((page) => page.id));
+
+  const pages: LinkGraphReportPage[] =
+    filter === 'orphans'
+      ? data.pages.filter((page) => orphanIds.has(page.id))
+      : filter === 'underlinked'
+        ? data.pages.filter((page) => underlinkedIds.has(page.id))
+        : data.pages;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Network className="h-5 w-5" />
+          Internal Links
+        </CardTitle>
+        <CardDescription className="flex flex-wrap items-center gap-3">
+          <span>{data.totalLinks} internal links</span>
+          <span className="text-muted-foreground">|</span>
+          {data.maxDepth !== null && (
+            <span>
+              Max depth {data.maxDepth} (avg {data.avgDepth})
+            </span>
+          )}
+          {Object.entries(data.depthDistribution).map(([depth, count]) => (
+            <Badge key={depth} variant="outline">
+              {depthLabel(depth)}: {count}
+            </Badge>
+          ))}
+        </CardDescription>
+        <div className="flex flex-wrap gap-2 pt-2">
+          <Button
+            variant={filter === 'all' ? 'default' : 'outline'}
+            size="sm"
+            className="cursor-pointer"
+            onClick={() => setFilter('all')}
+          >
+            All pages ({data.pages.length})
+          </Button>
+          <Button
+            variant={filter === 'orphans' ? 'default' : 'outline'}
+            size="sm"
+            className="cursor-pointer"
+            onClick={() => setFilter('orphans')}
+          >
+            Orphans ({data.orphans.length})
+          </Button>
+          <Button
+            variant={filter === 'underlinked' ? 'default' : 'outline'}
+            size="sm"
+            className="cursor-pointer"
+            onClick={() => setFilter('underlinked')}
+          >
+            Under {data.minInboundLinks} inbound links ({data.underlinked.length})
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {pages.length === 0 ? (
+          <div className="text-muted-foreground py-8 text-center">No pages in this view.</div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]"></TableHead>
+                  <TableHead>URL</TableHead>
+                  <TableHead className="w-[90px]">Inbound</TableHead>
+                  <TableHead className="w-[90px]">Outbound</TableHead>
+                  <TableHead className="w-[80px]">Depth</TableHead>
+                  <TableHead className="w-[100px]">Link Score</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pages.map((page) => {
+                  const expanded = expandedId === page.id;
+                  return (
+                    <Fragment key={page.id}>
+                      <TableRow>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 cursor-pointer"
+                            disabled={page.anchors.length === 0}
+                            onClick={() => setExpandedId(expanded ? null : page.id)}
+                          >
+                            {expanded ? (
+                              <ChevronDown className="h-4 w-4" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </TableCell>
+                        <TableCell className="max-w-[400px] font-mono text-xs">
+                          <div className="space-y-1">
+                            <span className="block truncate" title={page.url}>
+                              {page.url}
+                            </span>
+                            {page.title && (
+                              <span
+                                className="text-muted-foreground block truncate text-xs"
+                                title={page.title}
+                              >
+                                {page.title}
+                              </span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {orphanIds.has(page.id) ? (
+                            <Badge variant="destructive">Orphan</Badge>
+                          ) : underlinkedIds.has(page.id) ? (
+                            <Badge className="bg-yellow-500/10 text-yellow-700 dark:text-yellow-400">
+                              {page.inboundLinks}
+                            </Badge>
+                          ) : (
+                            page.inboundLinks
+                          )}
+                        </TableCell>
+                        <TableCell>{page.outboundLinks}</TableCell>
+                        <TableCell>
+                          {page.clickDepth ?? <span className="text-muted-foreground">-</span>}
+                        </TableCell>
+                        <TableCell>{page.linkScore.toFixed(1)}</TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                            <a href={page.url} target="_blank" rel="noopener noreferrer">
+                              <ExternalLink className="h-3 w-3" />
+                            </a>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell></TableCell>
+                          <TableCell colSpan={6}>
+                            <div className="space-y-1">
+                              <p className="text-muted-foreground text-xs font-medium">
+                                Anchor text pointing here
+                              </p>
+                              <div className="flex flex-wrap gap-1">
+                                {page.anchors.map((anchor) => (
+                                  <Badge key={anchor.anchor ?? ''} variant="secondary">
+                                    {anchor.anchor ?? '(no anchor text)'} × {anchor.count}
+                                  </Badge>
+                                ))}
+                              </div>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,328 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ExternalLink, AlertTriangle, FileCode, FileX, Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { SiteAuditSitemapReport, SitemapUrlIssue } from '@/lib/seo/sitemaps';
+
+interface SitemapTableProps {
+  scanId: string;
+}
+
+const ISSUE_LABELS: Record<SitemapUrlIssue, string> = {
+  redirect: 'Redirect',
+  client_error: '4xx error',
+  server_error: '5xx error',
+  non_indexable: 'Non-indexable',
+  not_crawled: 'Not crawled',
+};
+
+const ISSUE_COLORS: Record<SitemapUrlIssue, string> = {
+  redirect: 'bg-blue-500/10 text-blue-700 dark:text-blue-400',
+  client_error: 'bg-red-500/10 text-red-700 dark:text-red-400',
+  server_error: 'bg-red-500/10 text-red-700 dark:text-red-400',
+  non_indexable: 'bg-yellow-500/10 text-yellow-700 dark:text-yellow-400',
+  not_crawled: 'bg-gray-500/10 text-gray-700 dark:text-gray-400',
+};
+
+function UrlCell({ url, title }: { url: string; title?: string | null }) {
+  return (
+    <TableCell className="max-w-[400px] font-mono text-xs">
+      <div className="space-y-1">
+        <span className="block truncate" title={url}>
+          {url}
+        </span>
+        {title && (
+          <span className="text-muted-foreground block truncate text-xs" title={title}>
+            {title}
+          </span>
+        )}
+      </div>
+    </TableCell>
+  );
+}
+
+function LinkCell({ url }: { url: string }) {
+  return (
+    <TableCell>
+      <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+        <a href={url} target="_blank" rel="noopener noreferrer">
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      </Button>
+    </TableCell>
+  );
+}
+
+export function SitemapTable({ scanId }: SitemapTableProps) {
+  const [data, setData] = useState<SiteAuditSitemapReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSitemapAudit() {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/site-audit/scans/${scanId}/sitemap`);
+        const result = await response.json();
+
+        if (!result.success) {
+          setError(result.error || 'Failed to fetch sitemap audit');
+          return;
+        }
+
+        setData(result.data);
+      } catch {
+        setError('Failed to fetch sitemap audit');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSitemapAudit();
+  }, [scanId]);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-48" />
+          <Skeleton className="h-4 w-64" />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-12 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="pt-6">
+          <div className="text-destructive flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!data || !data.checked) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="text-muted-foreground py-8 text-center">
+            Sitemaps weren&apos;t audited for this crawl. Run a new crawl to check robots.txt and
+            XML sitemaps.
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { summary } = data;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileCode className="h-5 w-5" />
+            Sitemaps &amp; robots.txt
+          </CardTitle>
+          <CardDescription className="flex flex-wrap items-center gap-3">
+            <Badge variant={data.robotsTxt.found ? 'secondary' : 'destructive'}>
+              robots.txt {data.robotsTxt.found ? 'found' : 'missing'}
+            </Badge>
+            <span>{summary.sitemapUrls} URLs in sitemaps</span>
+            <span className="text-muted-foreground">|</span>
+            <Badge variant="outline">Redirects: {summary.redirects}</Badge>
+            <Badge variant="outline">Errors: {summary.errors}</Badge>
+            <Badge variant="outline">Non-indexable: {summary.nonIndexable}</Badge>
+            <Badge variant="outline">Not crawled: {summary.notCrawled}</Badge>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sitemap</TableHead>
+                  <TableHead className="w-[120px]">Type</TableHead>
+                  <TableHead className="w-[100px]">URLs</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.files.map((file) => (
+                  <TableRow key={file.url}>
+                    <UrlCell url={file.url} />
+                    <TableCell>
+                      {file.error ? (
+                        <Badge variant="destructive">{file.error}</Badge>
+                      ) : file.type === 'sitemapindex' ? (
+                        'Index'
+                      ) : (
+                        'URL set'
+                      )}
+                    </TableCell>
+                    <TableCell>{file.error ? '-' : file.urlCount}</TableCell>
+                    <LinkCell url={file.url} />
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileX className="h-5 w-5" />
+            Sitemap URL Issues
+          </CardTitle>
+          <CardDescription>
+            Sitemaps should only list indexable pages that return 200
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.sitemapIssues.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center">
+              Every sitemap URL is an indexable, crawled page.
+            </div>
+          ) : (
+            <div className="max-h-[480px] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>URL</TableHead>
+                    <TableHead className="w-[140px]">Issue</TableHead>
+                    <TableHead className="w-[80px]">Status</TableHead>
+                    <TableHead>Detail</TableHead>
+                    <TableHead className="w-[60px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.sitemapIssues.map((row) => (
+                    <TableRow key={row.url}>
+                      <UrlCell url={row.url} />
+                      <TableCell>
+                        <Badge className={ISSUE_COLORS[row.issue]}>{ISSUE_LABELS[row.issue]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {row.statusCode ?? <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground max-w-[300px] truncate text-xs">
+                        {row.detail}
+                      </TableCell>
+                      <LinkCell url={row.url} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Indexable Pages Missing From Sitemaps</CardTitle>
+          <CardDescription>
+            {summary.missingFromSitemap} crawled pages are indexable but not listed in any sitemap
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.missingFromSitemap.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center">
+              Every indexable page is in a sitemap.
+            </div>
+          ) : (
+            <div className="max-h-[480px] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>URL</TableHead>
+                    <TableHead className="w-[60px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.missingFromSitemap.map((page) => (
+                    <TableRow key={page.id}>
+                      <UrlCell url={page.url} title={page.title} />
+                      <LinkCell url={page.url} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Ban className="h-5 w-5" />
+            Blocked by robots.txt
+          </CardTitle>
+          <CardDescription>
+            Sitemap URLs and pages linked from the start page that Googlebot may not crawl
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.blockedByRobots.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center">
+              {data.robotsTxt.found
+                ? 'robots.txt doesn’t block any important pages.'
+                : 'No robots.txt found, so nothing is blocked.'}
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>URL</TableHead>
+                    <TableHead className="w-[220px]">Rule</TableHead>
+                    <TableHead className="w-[100px]">Found in</TableHead>
+                    <TableHead className="w-[60px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.blockedByRobots.map((row) => (
+                    <TableRow key={row.url}>
+                      <UrlCell url={row.url} />
+                      <TableCell className="font-mono text-xs">{row.rule}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {row.source === 'sitemap' ? 'Sitemap' : 'Navigation'}
+                        </Badge>
+                      </TableCell>
+                      <LinkCell url={row.url} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ExternalLink, AlertTriangle, Code2, MapPinOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { NapReference, StructuredDataReport } from '@/lib/seo/structured-data';
+import type { IssueSeverity } from '@/lib/constants/seo-thresholds';
+
+type StructuredData = StructuredDataReport & { napReference: NapReference | null };
+
+interface StructuredDataTableProps {
+  scanId: string;
+}
+
+const SEVERITY_COLORS: Record<IssueSeverity, string> = {
+  error: 'bg-red-500/10 text-red-700 dark:text-red-400',
+  warning: 'bg-yellow-500/10 text-yellow-700 dark:text-yellow-400',
+  notice: 'bg-blue-500/10 text-blue-700 dark:text-blue-400',
+};
+
+function PageLink({ url }: { url: string }) {
+  return (
+    <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+      <a href={url} target="_blank" rel="noopener noreferrer">
+        <ExternalLink className="h-3 w-3" />
+      </a>
+    </Button>
+  );
+}
+
+function PageCell({ url, title }: { url: string; title: string | null }) {
+  return (
+    <TableCell className="max-w-[400px] font-mono text-xs">
+      <div className="space-y-1">
+        <span className="block truncate" title={url}>
+          {url}
+        </span>
+        {title && (
+          <span className="text-muted-foreground block truncate text-xs" title={title}>
+            {title}
+          </span>
+        )}
+      </div>
+    </TableCell>
+  );
+}
+
+export function StructuredDataTable({ scanId }: StructuredDataTableProps) {
+  const [data, setData] = useState<StructuredData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchStructuredData() {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/site-audit/scans/${scanId}/structured-data`);
+        const result = await response.json();
+
+        if (!result.success) {
+          setError(result.error || 'Failed to fetch structured data');
+          return;
+        }
+
+        setData(result.data);
+      } catch {
+        setError('Failed to fetch structured data');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchStructuredData();
+  }, [scanId]);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-48" />
+          <Skeleton className="h-4 w-64" />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-12 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="pt-6">
+          <div className="text-destructive flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!data) return null;
+
+  const { summary } = data;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Code2 className="h-5 w-5" />
+            Structured Data
+          </CardTitle>
+          <CardDescription className="flex flex-wrap items-center gap-3">
+            <span>{summary.pagesWithStructuredData} pages with schema markup</span>
+            <span className="text-muted-foreground">|</span>
+            <Badge variant="outline">Missing required: {summary.missingRequired}</Badge>
+            <Badge variant="outline">Missing recommended: {summary.missingRecommended}</Badge>
+            <Badge variant="outline">NAP mismatches: {summary.napMismatches}</Badge>
+            {Object.entries(summary.byType).map(([type, count]) => (
+              <Badge key={type} variant="secondary">
+                {type}: {count}
+              </Badge>
+            ))}
+          </CardDescription>
+          {!data.napReference && (
+            <p className="text-muted-foreground text-sm">
+              No GBP profile is linked to this domain, so NAP consistency wasn&apos;t checked.
+            </p>
+          )}
+          {summary.pagesNotInspected > 0 && (
+            <p className="text-muted-foreground text-sm">
+              {summary.pagesNotInspected} more pages have markup that wasn&apos;t inspected in this
+              crawl.
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {data.pages.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center">
+              No schema markup found on crawled pages.
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>URL</TableHead>
+                    <TableHead className="w-[200px]">Types</TableHead>
+                    <TableHead>Issues</TableHead>
+                    <TableHead className="w-[60px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.pages.map((page) => (
+                    <TableRow key={page.id}>
+                      <PageCell url={page.url} title={page.title} />
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {page.types.map((type) => (
+                            <Badge key={type} variant="outline">
+                              {type}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {page.issues.length === 0 ? (
+                          <span className="text-sm text-green-600">Valid</span>
+                        ) : (
+                          <div className="flex flex-col items-start gap-1">
+                            {page.issues.map((issue, index) => (
+                              <Badge
+                                key={index}
+                                className={`text-left whitespace-normal ${SEVERITY_COLORS[issue.severity]}`}
+                              >
+                                {issue.message}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <PageLink url={page.url} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPinOff className="h-5 w-5" />
+            Pages Without LocalBusiness Schema
+          </CardTitle>
+          <CardDescription>
+            {data.pagesWithoutLocalBusiness.length} indexable pages have no LocalBusiness (or
+            subtype) markup
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.pagesWithoutLocalBusiness.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center">
+              Every indexable page has LocalBusiness markup.
+            </div>
+          ) : (
+            <div className="max-h-[480px] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>URL</TableHead>
+                    <TableHead className="w-[60px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.pagesWithoutLocalBusiness.map((page) => (
+                    <TableRow key={page.id}>
+                      <PageCell url={page.url} title={page.title} />
+                      <TableCell>
+                        <PageLink url={page.url} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
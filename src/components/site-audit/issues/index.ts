@@ -2,3 +2,6 @@ export { IssueExplorerTabs } from './IssueExplorerTabs';
 export { DuplicatesTable } from './DuplicatesTable';
 export { RedirectsTable } from './RedirectsTable';
 export { NonIndexableTable } from './NonIndexableTable';
+export { StructuredDataTable } from './StructuredDataTable';
+export { LinkGraphTable } from './LinkGraphTable';
+export { SitemapTable } from './SitemapTable';
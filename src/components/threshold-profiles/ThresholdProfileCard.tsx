@@ -0,0 +1,86 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Pencil, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import type { ThresholdProfileData } from './ThresholdProfileForm'
+
+interface ThresholdProfileCardProps {
+  profile: ThresholdProfileData
+  onEdit: () => void
+  onChange: () => void
+}
+
+export function ThresholdProfileCard({ profile, onEdit, onChange }: ThresholdProfileCardProps) {
+  const [deleting, setDeleting] = useState(false)
+  const { thresholds, severity } = profile.config
+
+  const remove = async () => {
+    const fallback =
+      profile.domainCount > 0
+        ? ` ${profile.domainCount} domain(s) using it will go back to the baseline thresholds.`
+        : ''
+    if (!confirm(`Delete "${profile.name}"?${fallback}`)) return
+
+    setDeleting(true)
+    try {
+      const response = await fetch(`/api/threshold-profiles/${profile.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (data.success) {
+        onChange()
+      } else {
+        toast.error(data.error || 'Failed to delete profile')
+      }
+    } catch {
+      toast.error('Failed to connect to server')
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">{profile.name}</span>
+          <Badge variant="outline">
+            {profile.workspaceName ? `Workspace: ${profile.workspaceName}` : 'Personal'}
+          </Badge>
+          <Badge variant="outline">
+            {profile.domainCount === 1 ? '1 domain' : `${profile.domainCount} domains`}
+          </Badge>
+        </div>
+        {profile.description && (
+          <p className="text-muted-foreground text-sm">{profile.description}</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-muted-foreground text-xs">
+          Title {thresholds.title.minLength}-{thresholds.title.maxLength} chars · Description{' '}
+          {thresholds.description.minLength}-{thresholds.description.maxLength} chars · Min{' '}
+          {thresholds.content.minWordCount} words · {severity.errors.length} errors,{' '}
+          {severity.warnings.length} warnings, {severity.notices.length} notices
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onEdit}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive ml-auto"
+            onClick={remove}
+            disabled={deleting}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
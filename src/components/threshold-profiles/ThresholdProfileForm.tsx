@@ -0,0 +1,405 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Save, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { IssueSeverity } from '@/lib/constants/seo-thresholds'
+import {
+  buildThresholdProfile,
+  DEFAULT_THRESHOLD_PROFILE,
+  SEVERITY_CHECKS,
+  THRESHOLD_PROFILE_PRESETS,
+  type ThresholdProfileConfig,
+  type ThresholdProfilePreset,
+} from '@/lib/seo/threshold-profiles'
+import { ISSUE_DEFINITIONS } from '@/components/audit/onpage/issue-classification'
+
+export interface ThresholdProfileData {
+  id: string
+  name: string
+  description: string | null
+  config: ThresholdProfileConfig
+  /** Null for a personal profile */
+  workspaceId: string | null
+  workspaceName: string | null
+  domainCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ThresholdProfileWorkspaceOption {
+  id: string
+  name: string
+}
+
+interface ThresholdProfileFormProps {
+  /** Workspaces the user administers */
+  workspaces: ThresholdProfileWorkspaceOption[]
+  /** Profile to edit; omit to create a new profile */
+  profile?: ThresholdProfileData
+  onSave: () => void
+  onCancel?: () => void
+}
+
+type SeverityChoice = IssueSeverity | 'off'
+
+const BASELINE = 'baseline'
+
+const PERSONAL = 'personal'
+
+const UPPERCASE_KEYS = new Set(['lcp', 'fid', 'cls', 'ttfb', 'inp'])
+
+const THRESHOLD_UNITS: Record<string, string> = {
+  title: 'characters',
+  description: 'characters',
+  coreWebVitals: 'ms, CLS unitless',
+  content: 'words, ratios 0-1',
+  links: 'count, ratio 0-1',
+  pageSize: 'bytes',
+  performance: 'ms',
+  readability: 'grade level',
+}
+
+function humanize(key: string): string {
+  if (UPPERCASE_KEYS.has(key)) return key.toUpperCase()
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Numeric leaves as `path -> string` for the number inputs
+ */
+function flattenNumbers(value: unknown, prefix = ''): Record<string, string> {
+  if (typeof value === 'number') return { [prefix]: String(value) }
+  if (typeof value !== 'object' || value === null) return {}
+
+  return Object.entries(value).reduce<Record<string, string>>(
+    (acc, [key, child]) => ({
+      ...acc,
+      ...flattenNumbers(child, prefix ? `${prefix}.${key}` : key),
+    }),
+    {}
+  )
+}
+
+/**
+ * `base` with its numeric leaves replaced by the edited values
+ */
+function applyNumbers<T>(base: T, values: Record<string, string>, prefix = ''): T {
+  if (typeof base === 'number') return Number(values[prefix] ?? base) as T
+  if (typeof base !== 'object' || base === null) return base
+
+  return Object.fromEntries(
+    Object.entries(base).map(([key, child]) => [
+      key,
+      applyNumbers(child, values, prefix ? `${prefix}.${key}` : key),
+    ])
+  ) as T
+}
+
+function severityChoices(config: ThresholdProfileConfig): Record<string, SeverityChoice> {
+  return Object.fromEntries(
+    SEVERITY_CHECKS.map((check) => [
+      check,
+      config.severity.errors.includes(check)
+        ? 'error'
+        : config.severity.warnings.includes(check)
+          ? 'warning'
+          : config.severity.notices.includes(check)
+            ? 'notice'
+            : 'off',
+    ])
+  )
+}
+
+function checkTitle(check: string): string {
+  return ISSUE_DEFINITIONS[check as keyof typeof ISSUE_DEFINITIONS]?.title ?? humanize(check)
+}
+
+interface NumberGroupsProps {
+  groups: Record<string, unknown>
+  section: 'thresholds' | 'weights'
+  values: Record<string, string>
+  units?: Record<string, string>
+  onChange: (path: string, value: string) => void
+}
+
+function NumberGroups({ groups, section, values, units, onChange }: NumberGroupsProps) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {Object.entries(groups).map(([group, fields]) => (
+        <div key={group} className="space-y-2 rounded-lg border p-3">
+          <p className="text-sm font-medium">
+            {humanize(group)}
+            {units?.[group] && (
+              <span className="text-muted-foreground font-normal"> ({units[group]})</span>
+            )}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {Object.keys(flattenNumbers(fields)).map((field) => {
+              const path = `${section}.${group}.${field}`
+              return (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={path} className="text-xs">
+                    {field.split('.').map(humanize).join(' ')}
+                  </Label>
+                  <Input
+                    id={path}
+                    type="number"
+                    min="0"
+                    step="any"
+                    className="h-8"
+                    value={values[path] ?? ''}
+                    onChange={(e) => onChange(path, e.target.value)}
+                  />
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function ThresholdProfileForm({
+  workspaces,
+  profile,
+  onSave,
+  onCancel,
+}: ThresholdProfileFormProps) {
+  const initial = profile?.config ?? DEFAULT_THRESHOLD_PROFILE
+  const [name, setName] = useState(profile?.name ?? '')
+  const [description, setDescription] = useState(profile?.description ?? '')
+  const [owner, setOwner] = useState(profile?.workspaceId ?? PERSONAL)
+  const [preset, setPreset] = useState<string>(BASELINE)
+  const [values, setValues] = useState(() =>
+    flattenNumbers({ thresholds: initial.thresholds, weights: initial.weights })
+  )
+  const [severity, setSeverity] = useState(() => severityChoices(initial))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handlePresetChange = (value: string) => {
+    const config =
+      value === BASELINE
+        ? DEFAULT_THRESHOLD_PROFILE
+        : buildThresholdProfile(
+            THRESHOLD_PROFILE_PRESETS[value as ThresholdProfilePreset].overrides
+          )
+
+    setPreset(value)
+    setValues(flattenNumbers({ thresholds: config.thresholds, weights: config.weights }))
+    setSeverity(severityChoices(config))
+    if (value !== BASELINE && !description.trim()) {
+      setDescription(THRESHOLD_PROFILE_PRESETS[value as ThresholdProfilePreset].description)
+    }
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const { thresholds, weights } = applyNumbers(
+        { thresholds: initial.thresholds, weights: initial.weights },
+        values
+      )
+      const bucket = (level: IssueSeverity) =>
+        SEVERITY_CHECKS.filter((check) => severity[check] === level)
+      const config: ThresholdProfileConfig = {
+        thresholds,
+        weights,
+        severity: {
+          errors: bucket('error'),
+          warnings: bucket('warning'),
+          notices: bucket('notice'),
+        },
+      }
+
+      const response = await fetch(
+        profile ? `/api/threshold-profiles/${profile.id}` : '/api/threshold-profiles',
+        {
+          method: profile ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: name.trim(),
+            description: description.trim() || null,
+            ...(!profile && { workspaceId: owner === PERSONAL ? null : owner }),
+            config,
+          }),
+        }
+      )
+      const data = await response.json()
+
+      if (data.success) {
+        onSave()
+      } else {
+        const details = data.details ? Object.values(data.details).flat().join(', ') : ''
+        setError(details || data.error || 'Failed to save profile')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">
+          {profile ? `Edit ${profile.name}` : 'New Threshold Profile'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Name</Label>
+            <Input
+              id="profile-name"
+              placeholder="E-commerce"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="profile-description">Description</Label>
+            <Input
+              id="profile-description"
+              placeholder="When to use this profile"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {!profile && (
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Available to</Label>
+              <Select value={owner} onValueChange={setOwner}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PERSONAL}>My personal domains</SelectItem>
+                  {workspaces.map((workspace) => (
+                    <SelectItem key={workspace.id} value={workspace.id}>
+                      Workspace: {workspace.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Start from</Label>
+              <Select value={preset} onValueChange={handlePresetChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BASELINE}>Baseline thresholds</SelectItem>
+                  {(Object.keys(THRESHOLD_PROFILE_PRESETS) as ThresholdProfilePreset[]).map(
+                    (id) => (
+                      <SelectItem key={id} value={id}>
+                        {THRESHOLD_PROFILE_PRESETS[id].label}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <Tabs defaultValue="thresholds">
+          <TabsList>
+            <TabsTrigger value="thresholds">Thresholds</TabsTrigger>
+            <TabsTrigger value="weights">Score Weights</TabsTrigger>
+            <TabsTrigger value="severity">Issue Severity</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="thresholds" className="mt-4">
+            <NumberGroups
+              groups={initial.thresholds}
+              section="thresholds"
+              values={values}
+              units={THRESHOLD_UNITS}
+              onChange={(path, value) => setValues((prev) => ({ ...prev, [path]: value }))}
+            />
+          </TabsContent>
+
+          <TabsContent value="weights" className="mt-4 space-y-2">
+            <p className="text-muted-foreground text-sm">
+              Relative weight of each factor in its thematic report score
+            </p>
+            <NumberGroups
+              groups={initial.weights}
+              section="weights"
+              values={values}
+              onChange={(path, value) => setValues((prev) => ({ ...prev, [path]: value }))}
+            />
+          </TabsContent>
+
+          <TabsContent value="severity" className="mt-4">
+            <div className="grid gap-x-6 gap-y-2 md:grid-cols-2">
+              {SEVERITY_CHECKS.map((check) => (
+                <div key={check} className="flex items-center justify-between gap-2">
+                  <span className="text-sm">{checkTitle(check)}</span>
+                  <Select
+                    value={severity[check]}
+                    onValueChange={(value) =>
+                      setSeverity((prev) => ({ ...prev, [check]: value as SeverityChoice }))
+                    }
+                  >
+                    <SelectTrigger className="h-8 w-[120px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="error">Error</SelectItem>
+                      <SelectItem value="warning">Warning</SelectItem>
+                      <SelectItem value="notice">Notice</SelectItem>
+                      <SelectItem value="off">Not reported</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        {error && <p className="text-destructive text-sm">{error}</p>}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            <X className="mr-2 h-4 w-4" />
+            Cancel
+          </Button>
+        )}
+        <Button onClick={handleSave} disabled={saving || !name.trim()}>
+          {saving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          {profile ? 'Save Changes' : 'Create Profile'}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
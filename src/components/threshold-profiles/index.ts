@@ -0,0 +1,10 @@
+/**
+ * SEO Threshold Profile Components
+ */
+
+export { ThresholdProfileCard } from './ThresholdProfileCard'
+export {
+  ThresholdProfileForm,
+  type ThresholdProfileData,
+  type ThresholdProfileWorkspaceOption,
+} from './ThresholdProfileForm'
@@ -0,0 +1,126 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { ChevronDown, ChevronRight, Inbox, Loader2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+
+export interface WebhookDeliveryData {
+  id: string
+  eventId: string
+  eventType: string
+  payload: unknown
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED'
+  attempts: number
+  responseStatus: number | null
+  error: string | null
+  durationMs: number | null
+  lastAttemptAt: string | null
+  deliveredAt: string | null
+  createdAt: string
+}
+
+interface WebhookDeliveryLogProps {
+  endpointId: string
+  /** Bump to reload, e.g. after a test send */
+  refreshKey?: number
+}
+
+export function DeliveryStatusBadge({ status }: { status: WebhookDeliveryData['status'] }) {
+  if (status === 'SUCCEEDED') return <Badge variant="secondary">Delivered</Badge>
+  if (status === 'FAILED') return <Badge variant="destructive">Failed</Badge>
+  return <Badge variant="outline">Pending</Badge>
+}
+
+export function WebhookDeliveryLog({ endpointId, refreshKey = 0 }: WebhookDeliveryLogProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryData[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/webhooks/${endpointId}/deliveries`)
+      const data = await response.json()
+
+      if (data.success) {
+        setDeliveries(data.data)
+        setError(null)
+      } else {
+        setError(data.error || 'Failed to load deliveries')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setLoading(false)
+    }
+  }, [endpointId])
+
+  useEffect(() => {
+    fetchDeliveries()
+  }, [fetchDeliveries, refreshKey])
+
+  if (loading) {
+    return <Loader2 className="text-muted-foreground mx-auto h-4 w-4 animate-spin" />
+  }
+
+  if (error) {
+    return <p className="text-destructive text-sm">{error}</p>
+  }
+
+  if (deliveries.length === 0) {
+    return (
+      <div className="text-muted-foreground py-6 text-center text-sm">
+        <Inbox className="mx-auto mb-2 h-6 w-6" />
+        No deliveries yet
+      </div>
+    )
+  }
+
+  return (
+    <div className="divide-y rounded-lg border">
+      {deliveries.map((delivery) => {
+        const expanded = expandedId === delivery.id
+
+        return (
+          <div key={delivery.id} className="text-sm">
+            <Button
+              variant="ghost"
+              className="h-auto w-full justify-start gap-3 rounded-none px-3 py-2 font-normal"
+              onClick={() => setExpandedId(expanded ? null : delivery.id)}
+            >
+              {expanded ? (
+                <ChevronDown className="h-4 w-4 shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 shrink-0" />
+              )}
+              <code className="text-xs">{delivery.eventType}</code>
+              <DeliveryStatusBadge status={delivery.status} />
+              <span className="text-muted-foreground ml-auto text-xs">
+                {delivery.responseStatus ?? '—'} &middot; {delivery.attempts}{' '}
+                {delivery.attempts === 1 ? 'attempt' : 'attempts'} &middot;{' '}
+                {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+              </span>
+            </Button>
+
+            {expanded && (
+              <div className="bg-muted/40 space-y-2 px-10 py-3 text-xs">
+                {delivery.error && <p className="text-destructive">{delivery.error}</p>}
+                {delivery.durationMs !== null && (
+                  <p className="text-muted-foreground">Responded in {delivery.durationMs} ms</p>
+                )}
+                <div>
+                  <p className="mb-1 font-medium">Payload</p>
+                  <pre className="bg-background overflow-x-auto rounded border p-2">
+                    {JSON.stringify(delivery.payload, null, 2)}
+                  </pre>
+                </div>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
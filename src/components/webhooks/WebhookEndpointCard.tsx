@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Copy, Eye, EyeOff, History, Loader2, Pencil, RefreshCw, Send, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Switch } from '@/components/ui/switch'
+import { DeliveryStatusBadge, WebhookDeliveryLog } from './WebhookDeliveryLog'
+import type { WebhookEndpointData } from './WebhookEndpointForm'
+
+interface WebhookEndpointCardProps {
+  endpoint: WebhookEndpointData
+  onEdit: () => void
+  onChange: () => void
+}
+
+export function WebhookEndpointCard({ endpoint, onEdit, onChange }: WebhookEndpointCardProps) {
+  const [pending, setPending] = useState<'toggle' | 'rotate' | 'test' | 'delete' | null>(null)
+  const [showSecret, setShowSecret] = useState(false)
+  const [showLog, setShowLog] = useState(false)
+  const [logVersion, setLogVersion] = useState(0)
+
+  const update = async (body: Record<string, unknown>, action: 'toggle' | 'rotate') => {
+    setPending(action)
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (data.success) {
+        if (action === 'rotate') toast.success('Signing secret rotated')
+        onChange()
+      } else {
+        toast.error(data.error || 'Failed to update webhook')
+      }
+    } catch {
+      toast.error('Failed to connect to server')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const rotateSecret = () => {
+    if (
+      !confirm(
+        'Rotate the signing secret? Deliveries signed with the old secret will fail verification.'
+      )
+    ) {
+      return
+    }
+    update({ rotateSecret: true }, 'rotate')
+  }
+
+  const sendTest = async () => {
+    setPending('test')
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}/test`, { method: 'POST' })
+      const data = await response.json()
+      if (!data.success) {
+        toast.error(data.error || 'Failed to send test webhook')
+      } else if (data.data.status === 'SUCCEEDED') {
+        toast.success(`Test delivered (${data.data.responseStatus})`)
+      } else {
+        toast.error(`Test failed: ${data.data.error}`)
+      }
+      setShowLog(true)
+      setLogVersion((version) => version + 1)
+      onChange()
+    } catch {
+      toast.error('Failed to connect to server')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const remove = async () => {
+    if (!confirm(`Delete "${endpoint.name}" and its delivery log?`)) return
+
+    setPending('delete')
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (data.success) {
+        onChange()
+      } else {
+        toast.error(data.error || 'Failed to delete webhook')
+      }
+    } catch {
+      toast.error('Failed to connect to server')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const copySecret = async () => {
+    await navigator.clipboard?.writeText(endpoint.secret).catch(() => undefined)
+    toast.success('Signing secret copied to clipboard')
+  }
+
+  return (
+    <Card className={endpoint.isEnabled ? '' : 'opacity-70'}>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{endpoint.name}</span>
+              <Badge variant="outline">
+                {endpoint.workspaceName
+                  ? `Workspace: ${endpoint.workspaceName}`
+                  : endpoint.domainName}
+              </Badge>
+              {endpoint.lastDelivery && (
+                <DeliveryStatusBadge status={endpoint.lastDelivery.status} />
+              )}
+            </div>
+            <p className="text-muted-foreground truncate font-mono text-xs">{endpoint.url}</p>
+            <p className="text-muted-foreground text-xs">
+              {endpoint.events.length === 0 ? 'All events' : endpoint.events.join(', ')}
+            </p>
+          </div>
+          <Switch
+            checked={endpoint.isEnabled}
+            disabled={pending === 'toggle'}
+            onCheckedChange={(checked) => update({ isEnabled: checked }, 'toggle')}
+            aria-label="Enabled"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <code className="bg-muted flex-1 truncate rounded px-2 py-1 text-xs">
+            {showSecret ? endpoint.secret : 'whsec_' + '•'.repeat(24)}
+          </code>
+          <Button variant="ghost" size="icon" onClick={() => setShowSecret(!showSecret)}>
+            {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </Button>
+          <Button variant="ghost" size="icon" onClick={copySecret}>
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={rotateSecret}
+            disabled={pending === 'rotate'}
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={sendTest} disabled={pending === 'test'}>
+            {pending === 'test' ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            Send test
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setShowLog(!showLog)}>
+            <History className="mr-2 h-4 w-4" />
+            {showLog ? 'Hide deliveries' : 'Deliveries'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={onEdit}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive ml-auto"
+            onClick={remove}
+            disabled={pending === 'delete'}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+
+        {showLog && <WebhookDeliveryLog endpointId={endpoint.id} refreshKey={logVersion} />}
+      </CardContent>
+    </Card>
+  )
+}
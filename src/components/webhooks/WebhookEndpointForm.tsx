@@ -0,0 +1,231 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Save, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { WEBHOOK_JOB_STATUSES, WEBHOOK_JOBS, type WebhookJob } from '@/lib/webhooks/events'
+
+export interface WebhookEndpointData {
+  id: string
+  name: string
+  url: string
+  secret: string
+  events: string[]
+  isEnabled: boolean
+  domainId: string | null
+  domainName: string | null
+  workspaceId: string | null
+  workspaceName: string | null
+  lastDelivery: { status: 'PENDING' | 'SUCCEEDED' | 'FAILED'; createdAt: string } | null
+  createdAt: string
+}
+
+export interface WebhookTargetOption {
+  id: string
+  name: string
+}
+
+interface WebhookEndpointFormProps {
+  domains: WebhookTargetOption[]
+  /** Workspaces the user administers */
+  workspaces: WebhookTargetOption[]
+  /** Endpoint to edit; omit to create a new endpoint */
+  endpoint?: WebhookEndpointData
+  onSave: () => void
+  onCancel?: () => void
+}
+
+/** Select values are prefixed so domain and workspace IDs can share one list */
+function targetValue(endpoint?: WebhookEndpointData): string {
+  if (endpoint?.domainId) return `domain:${endpoint.domainId}`
+  if (endpoint?.workspaceId) return `workspace:${endpoint.workspaceId}`
+  return ''
+}
+
+export function WebhookEndpointForm({
+  domains,
+  workspaces,
+  endpoint,
+  onSave,
+  onCancel,
+}: WebhookEndpointFormProps) {
+  const [name, setName] = useState(endpoint?.name ?? '')
+  const [url, setUrl] = useState(endpoint?.url ?? '')
+  const [target, setTarget] = useState(targetValue(endpoint))
+  const [allEvents, setAllEvents] = useState(!endpoint || endpoint.events.length === 0)
+  const [events, setEvents] = useState<string[]>(endpoint?.events ?? [])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleEvent = (eventType: string, checked: boolean) => {
+    setEvents((current) =>
+      checked ? [...current, eventType] : current.filter((existing) => existing !== eventType)
+    )
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const [targetType, targetId] = target.split(':')
+      const body = {
+        ...(endpoint
+          ? {}
+          : targetType === 'domain'
+            ? { domainId: targetId }
+            : { workspaceId: targetId }),
+        name,
+        url: url.trim(),
+        events: allEvents ? [] : events,
+      }
+
+      const response = await fetch(endpoint ? `/api/webhooks/${endpoint.id}` : '/api/webhooks', {
+        method: endpoint ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        onSave()
+      } else {
+        const details = data.details ? Object.values(data.details).flat().join(', ') : ''
+        setError(details || data.error || 'Failed to save webhook')
+      }
+    } catch {
+      setError('Failed to connect to server')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const canSave =
+    name.trim() && url.trim() && (endpoint || target) && (allEvents || events.length > 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{endpoint ? 'Edit Webhook' : 'New Webhook'}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-name">Name</Label>
+            <Input
+              id="webhook-name"
+              placeholder="Zapier: scan results"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Send events for</Label>
+            <Select value={target} onValueChange={setTarget} disabled={Boolean(endpoint)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a domain or workspace" />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaces.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Every domain in a workspace</SelectLabel>
+                    {workspaces.map((workspace) => (
+                      <SelectItem key={workspace.id} value={`workspace:${workspace.id}`}>
+                        {workspace.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+                <SelectGroup>
+                  <SelectLabel>A single domain</SelectLabel>
+                  {domains.map((domain) => (
+                    <SelectItem key={domain.id} value={`domain:${domain.id}`}>
+                      {domain.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="webhook-url">Endpoint URL</Label>
+          <Input
+            id="webhook-url"
+            type="url"
+            placeholder="https://example.com/webhooks/seo"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <Checkbox
+              checked={allEvents}
+              onCheckedChange={(checked) => setAllEvents(checked === true)}
+            />
+            All events, including job types added later
+          </label>
+
+          {!allEvents && (
+            <div className="grid gap-3 rounded-lg border p-3 sm:grid-cols-2">
+              {(Object.keys(WEBHOOK_JOBS) as WebhookJob[]).map((job) => (
+                <div key={job} className="space-y-1">
+                  <p className="text-sm font-medium">{WEBHOOK_JOBS[job]}</p>
+                  <div className="flex flex-wrap gap-3">
+                    {WEBHOOK_JOB_STATUSES.map((status) => {
+                      const eventType = `${job}.${status}`
+                      return (
+                        <label key={status} className="flex items-center gap-1.5 text-sm">
+                          <Checkbox
+                            checked={events.includes(eventType)}
+                            onCheckedChange={(checked) => toggleEvent(eventType, checked === true)}
+                          />
+                          {status}
+                        </label>
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-destructive text-sm">{error}</p>}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            <X className="mr-2 h-4 w-4" />
+            Cancel
+          </Button>
+        )}
+        <Button onClick={handleSave} disabled={saving || !canSave}>
+          {saving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          {endpoint ? 'Save Changes' : 'Add Webhook'}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,11 @@
+/**
+ * Outbound Webhook Components
+ */
+
+export { WebhookDeliveryLog, type WebhookDeliveryData } from './WebhookDeliveryLog'
+export { WebhookEndpointCard } from './WebhookEndpointCard'
+export {
+  WebhookEndpointForm,
+  type WebhookEndpointData,
+  type WebhookTargetOption,
+} from './WebhookEndpointForm'
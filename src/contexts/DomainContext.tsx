@@ -14,15 +14,18 @@ import {
   type ReactNode,
 } from 'react';
 import type { DomainStatus } from '@prisma/client';
+import type { VerticalId } from '@/lib/verticals';
 
 export interface Domain {
   id: string;
   userId: string;
+  workspaceId: string | null;
   name: string;
   domain: string;
   businessName: string | null;
   city: string | null;
   state: string | null;
+  vertical: string;
   status: DomainStatus;
   isPinned: boolean;
   createdAt: Date;
@@ -38,6 +41,10 @@ export interface Domain {
     siteAuditEnableJavascript: boolean;
     localSeoGridSize: number;
     localSeoRadiusMiles: number;
+    monthlyApiBudget: number | null;
+    backlinkMonitorEnabled: boolean;
+    backlinkMonitorIntervalDays: number;
+    backlinkLostLinkMinRank: number;
   } | null;
 }
 
@@ -47,6 +54,7 @@ export interface CreateDomainInput {
   businessName?: string;
   city?: string;
   state?: string;
+  vertical?: VerticalId;
 }
 
 interface DomainContextValue {
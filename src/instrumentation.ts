@@ -0,0 +1,13 @@
+/**
+ * Next.js Instrumentation
+ *
+ * Runs once when the server starts.
+ */
+
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Persist DataForSEO spend from every client call into the ledger
+    const { registerSpendLedger } = await import('@/lib/db/spend-ledger-operations')
+    registerSpendLedger()
+  }
+}
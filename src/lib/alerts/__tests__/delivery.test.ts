@@ -0,0 +1,70 @@
+/**
+ * Unit Tests for Alert Delivery
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi, type Mock } from 'vitest'
+
+vi.mock('dns/promises', () => {
+  const lookup = vi.fn()
+  return { default: { lookup }, lookup }
+})
+
+vi.mock('@/lib/email', () => ({
+  isEmailConfigured: vi.fn(() => false),
+  sendEmail: vi.fn(),
+}))
+
+import { lookup } from 'dns/promises'
+import { deliverAlert, type DeliverableAlert } from '../delivery'
+
+const ALERT: DeliverableAlert = {
+  id: 'alert-1',
+  type: 'RANK_DROP',
+  title: 'Rank drop',
+  message: 'seo tools dropped 5 positions',
+  details: null,
+  domainId: 'domain-1',
+  domain: 'example.com',
+  ruleName: 'Top keywords',
+  emailRecipients: [],
+  webhookUrl: 'https://hooks.example.com/alerts',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+}
+
+beforeEach(() => {
+  ;(lookup as unknown as Mock).mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('deliverAlert', () => {
+  it('posts to the webhook without following redirects', async () => {
+    const fetchMock = vi.fn(async () => new Response('ok'))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await deliverAlert(ALERT)
+
+    expect(result).toEqual({ emailSent: false, webhookSent: true, errors: [] })
+    expect(fetchMock).toHaveBeenCalledWith(
+      ALERT.webhookUrl,
+      expect.objectContaining({ method: 'POST', redirect: 'manual' })
+    )
+  })
+
+  it('refuses webhooks that resolve to private addresses without sending', async () => {
+    ;(lookup as unknown as Mock).mockResolvedValue([{ address: '169.254.169.254', family: 4 }])
+    const fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await deliverAlert(ALERT)
+
+    expect(result).toEqual({
+      emailSent: false,
+      webhookSent: false,
+      errors: ['Webhook: Resolves to a private address'],
+    })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
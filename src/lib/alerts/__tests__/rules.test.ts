@@ -0,0 +1,147 @@
+/**
+ * Unit Tests for Alert Rule Evaluation
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  evaluateRankDrop,
+  evaluateShareOfVoiceDrop,
+  evaluateNew4xxPages,
+  evaluateNewSiteErrors,
+  type AlertRuleConfig,
+} from '../rules'
+import { diffSiteAuditScans, type DiffablePage } from '@/lib/seo/site-audit-diff'
+
+function rule(type: AlertRuleConfig['type'], threshold: number): AlertRuleConfig {
+  return { id: 'rule-1', name: 'Test rule', type, threshold }
+}
+
+function page(url: string, overrides: Partial<DiffablePage> = {}): DiffablePage {
+  return {
+    urlHash: `hash:${url}`,
+    url,
+    statusCode: 200,
+    onpageScore: 90,
+    issueTypes: [],
+    ...overrides,
+  }
+}
+
+describe('evaluateRankDrop', () => {
+  it('matches keywords that dropped at least the threshold and lost rankings', () => {
+    const match = evaluateRankDrop(rule('RANK_DROP', 5), [
+      { keyword: 'plumber', position: 12, previousPosition: 4, positionChange: -8 },
+      { keyword: 'drain cleaning', position: 7, previousPosition: 4, positionChange: -3 },
+      { keyword: 'water heater', position: null, previousPosition: 9, positionChange: null },
+      { keyword: 'new keyword', position: 20, previousPosition: null, positionChange: null },
+    ])
+
+    expect(match).not.toBeNull()
+    expect(match!.title).toBe('2 keywords dropped 5+ positions')
+    expect(match!.message).toContain('"water heater" is no longer ranking')
+    expect(match!.details).toMatchObject({ total: 2 })
+  })
+
+  it('ignores failed lookups and applies the threshold to lost rankings', () => {
+    const match = evaluateRankDrop(rule('RANK_DROP', 10), [
+      {
+        keyword: 'plumber',
+        position: null,
+        previousPosition: 3,
+        positionChange: null,
+        error: true,
+      },
+      { keyword: 'drain cleaning', position: null, previousPosition: 95, positionChange: null },
+      { keyword: 'water heater', position: null, previousPosition: 40, positionChange: null },
+    ])
+
+    expect(match!.details).toMatchObject({ total: 1 })
+    expect(match!.message).toBe('"water heater" is no longer ranking (was #40)')
+  })
+
+  it('returns null when nothing dropped far enough', () => {
+    const match = evaluateRankDrop(rule('RANK_DROP', 5), [
+      { keyword: 'plumber', position: 6, previousPosition: 4, positionChange: -2 },
+      { keyword: 'drain cleaning', position: 1, previousPosition: 9, positionChange: 8 },
+    ])
+
+    expect(match).toBeNull()
+  })
+})
+
+describe('evaluateShareOfVoiceDrop', () => {
+  it('matches a drop of at least the threshold', () => {
+    const match = evaluateShareOfVoiceDrop(rule('SHARE_OF_VOICE_DROP', 5), {
+      campaignName: 'Downtown',
+      shareOfVoice: 32.5,
+      previousShareOfVoice: 40,
+    })
+
+    expect(match?.title).toBe('Share of voice down 7.5 points for Downtown')
+  })
+
+  it('ignores small drops and scans without a previous value', () => {
+    const small = evaluateShareOfVoiceDrop(rule('SHARE_OF_VOICE_DROP', 5), {
+      campaignName: 'Downtown',
+      shareOfVoice: 38,
+      previousShareOfVoice: 40,
+    })
+    const first = evaluateShareOfVoiceDrop(rule('SHARE_OF_VOICE_DROP', 5), {
+      campaignName: 'Downtown',
+      shareOfVoice: 10,
+      previousShareOfVoice: null,
+    })
+
+    expect(small).toBeNull()
+    expect(first).toBeNull()
+  })
+})
+
+describe('evaluateNew4xxPages', () => {
+  it('counts only client errors that are new in this crawl', () => {
+    const diff = diffSiteAuditScans(
+      { summary: null, pages: [page('/a'), page('/b', { statusCode: 404 }), page('/c')] },
+      {
+        summary: null,
+        pages: [
+          page('/a', { statusCode: 404 }),
+          page('/b', { statusCode: 404 }),
+          page('/c', { statusCode: 500 }),
+          page('/d', { statusCode: 410 }),
+        ],
+      }
+    )
+
+    const match = evaluateNew4xxPages(rule('NEW_4XX_PAGES', 1), diff)
+
+    expect(match?.title).toBe('2 new 4xx pages found')
+    expect(match?.details).toMatchObject({
+      pages: [
+        { url: '/a', statusCode: 404 },
+        { url: '/d', statusCode: 410 },
+      ],
+    })
+    expect(evaluateNew4xxPages(rule('NEW_4XX_PAGES', 3), diff)).toBeNull()
+  })
+})
+
+describe('evaluateNewSiteErrors', () => {
+  it('sums new error-severity issue occurrences', () => {
+    const diff = diffSiteAuditScans(
+      { summary: null, pages: [page('/a'), page('/b')] },
+      {
+        summary: null,
+        pages: [
+          page('/a', { issueTypes: ['noH1Tag', 'noImageAlt'] }),
+          page('/b', { issueTypes: ['noH1Tag'] }),
+        ],
+      }
+    )
+
+    const match = evaluateNewSiteErrors(rule('NEW_SITE_ERRORS', 2), diff)
+
+    expect(match?.title).toBe('2 new site audit errors')
+    expect(match?.message).toContain('noH1Tag (2)')
+    expect(evaluateNewSiteErrors(rule('NEW_SITE_ERRORS', 3), diff)).toBeNull()
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Alert Delivery
+ *
+ * Sends a stored alert event to the channels configured on its rule:
+ * email (via SMTP) and a generic JSON webhook.
+ */
+
+import type { AlertRuleType } from '@prisma/client'
+import { isEmailConfigured, sendEmail } from '@/lib/email'
+import { assertPublicUrl } from '@/lib/utils/public-url'
+
+export interface DeliverableAlert {
+  id: string
+  type: AlertRuleType
+  title: string
+  message: string
+  details: unknown
+  domainId: string
+  domain: string
+  ruleName: string
+  emailRecipients: string[]
+  webhookUrl: string | null
+  createdAt: Date
+}
+
+export interface DeliveryResult {
+  emailSent: boolean
+  webhookSent: boolean
+  errors: string[]
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000
+
+/**
+ * Absolute link to the domain's alerts page, when APP_URL is set
+ */
+function alertsUrl(domainId: string): string | null {
+  const base = process.env.APP_URL?.replace(/\/$/, '')
+  return base ? `${base}/d/${domainId}/alerts` : null
+}
+
+/**
+ * JSON body posted to alert webhooks. The top-level `text` lets chat
+ * incoming webhooks (Slack, Teams, Discord-compatible) render the alert as-is.
+ */
+export function buildWebhookPayload(alert: DeliverableAlert): Record<string, unknown> {
+  return {
+    event: 'alert.triggered',
+    text: `[${alert.domain}] ${alert.title}: ${alert.message}`,
+    alert: {
+      id: alert.id,
+      type: alert.type,
+      rule: alert.ruleName,
+      domain: alert.domain,
+      domainId: alert.domainId,
+      title: alert.title,
+      message: alert.message,
+      details: alert.details,
+      createdAt: alert.createdAt.toISOString(),
+      url: alertsUrl(alert.domainId),
+    },
+  }
+}
+
+async function sendAlertEmail(alert: DeliverableAlert): Promise<void> {
+  const url = alertsUrl(alert.domainId)
+  const lines = [
+    alert.message,
+    '',
+    `Domain: ${alert.domain}`,
+    `Rule: ${alert.ruleName}`,
+    ...(url ? ['', `View alerts: ${url}`] : []),
+  ]
+
+  await sendEmail({
+    to: alert.emailRecipients,
+    subject: `[${alert.domain}] ${alert.title}`,
+    text: lines.join('\n'),
+  })
+}
+
+/**
+ * POST the alert to its webhook. The URL was checked when the rule was saved;
+ * it's checked again here because DNS can change, and redirects aren't
+ * followed so a public URL can't forward the request to an internal one.
+ */
+async function sendAlertWebhook(alert: DeliverableAlert, webhookUrl: string): Promise<void> {
+  await assertPublicUrl(webhookUrl)
+
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(buildWebhookPayload(alert)),
+    redirect: 'manual',
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  })
+  await response.body?.cancel()
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}`)
+  }
+}
+
+/**
+ * Deliver an alert to every configured channel.
+ * A failing channel doesn't stop the others; errors are collected for the caller.
+ */
+export async function deliverAlert(alert: DeliverableAlert): Promise<DeliveryResult> {
+  const result: DeliveryResult = { emailSent: false, webhookSent: false, errors: [] }
+
+  if (alert.emailRecipients.length > 0) {
+    if (!isEmailConfigured()) {
+      result.errors.push('Email: SMTP is not configured')
+    } else {
+      try {
+        await sendAlertEmail(alert)
+        result.emailSent = true
+      } catch (error) {
+        result.errors.push(`Email: ${error instanceof Error ? error.message : 'send failed'}`)
+      }
+    }
+  }
+
+  if (alert.webhookUrl) {
+    try {
+      await sendAlertWebhook(alert, alert.webhookUrl)
+      result.webhookSent = true
+    } catch (error) {
+      result.errors.push(`Webhook: ${error instanceof Error ? error.message : 'request failed'}`)
+    }
+  }
+
+  return result
+}
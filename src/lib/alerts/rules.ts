@@ -0,0 +1,165 @@
+/**
+ * Alert Rule Evaluation
+ *
+ * Pure evaluators for each alert rule type. They take the data a tool run
+ * already produced and return a match (title, message, details) or null.
+ * Persistence and delivery live in alert-operations and alert-functions.
+ */
+
+import type { AlertRuleType } from '@prisma/client'
+import type { SiteAuditDiff } from '@/lib/seo/site-audit-diff'
+
+export interface AlertRuleConfig {
+  id: string
+  name: string
+  type: AlertRuleType
+  threshold: number
+}
+
+export interface AlertMatch {
+  title: string
+  message: string
+  details: Record<string, unknown>
+}
+
+export interface RankResult {
+  keyword: string
+  position: number | null
+  previousPosition: number | null
+  /** previous - current; negative means the keyword dropped */
+  positionChange: number | null
+  /** The SERP lookup failed, so a null position means unknown rather than not ranking */
+  error?: boolean
+}
+
+/**
+ * Human-readable labels and threshold units for each rule type
+ */
+export const ALERT_RULE_TYPES: Record<
+  AlertRuleType,
+  { label: string; thresholdLabel: string; defaultThreshold: number }
+> = {
+  RANK_DROP: {
+    label: 'Keyword rank drop',
+    thresholdLabel: 'Positions lost',
+    defaultThreshold: 5,
+  },
+  SHARE_OF_VOICE_DROP: {
+    label: 'Local pack share of voice drop',
+    thresholdLabel: 'Percentage points lost',
+    defaultThreshold: 5,
+  },
+  NEW_4XX_PAGES: {
+    label: 'New 4xx pages',
+    thresholdLabel: 'Minimum new 4xx pages',
+    defaultThreshold: 1,
+  },
+  NEW_SITE_ERRORS: {
+    label: 'New site audit errors',
+    thresholdLabel: 'Minimum new errors',
+    defaultThreshold: 1,
+  },
+}
+
+// Keep stored details and notifications to a readable size
+const MAX_LISTED_ITEMS = 25
+
+// Keyword tracking checks the top 100 results; a lost ranking fell at least past that
+const NOT_RANKING_POSITION = 101
+
+function positionsLost(result: RankResult): number {
+  if (result.previousPosition === null) return 0
+  return (result.position ?? NOT_RANKING_POSITION) - result.previousPosition
+}
+
+/**
+ * Keywords that dropped by at least `threshold` positions, counting a lost
+ * ranking as a drop to just past the tracked depth. Failed lookups are skipped.
+ */
+export function evaluateRankDrop(rule: AlertRuleConfig, results: RankResult[]): AlertMatch | null {
+  const drops = results
+    .filter((r) => !r.error && positionsLost(r) >= rule.threshold)
+    .map((r) => ({
+      keyword: r.keyword,
+      previousPosition: r.previousPosition,
+      position: r.position,
+      change: r.positionChange,
+    }))
+    // Lost rankings first, then the largest drops
+    .sort((a, b) => (a.change ?? -Infinity) - (b.change ?? -Infinity))
+
+  if (drops.length === 0) return null
+
+  const worst = drops[0]!
+  const worstText =
+    worst.position === null
+      ? `"${worst.keyword}" is no longer ranking (was #${worst.previousPosition})`
+      : `"${worst.keyword}" fell from #${worst.previousPosition} to #${worst.position}`
+
+  return {
+    title: `${drops.length} keyword${drops.length === 1 ? '' : 's'} dropped ${rule.threshold}+ positions`,
+    message: drops.length === 1 ? worstText : `${worstText}, plus ${drops.length - 1} more.`,
+    details: { drops: drops.slice(0, MAX_LISTED_ITEMS), total: drops.length },
+  }
+}
+
+/**
+ * Share of voice fell by at least `threshold` percentage points since the previous scan
+ */
+export function evaluateShareOfVoiceDrop(
+  rule: AlertRuleConfig,
+  scan: { campaignName: string; shareOfVoice: number | null; previousShareOfVoice: number | null }
+): AlertMatch | null {
+  if (scan.shareOfVoice === null || scan.previousShareOfVoice === null) return null
+
+  const drop = Math.round((scan.previousShareOfVoice - scan.shareOfVoice) * 100) / 100
+  if (drop < rule.threshold) return null
+
+  return {
+    title: `Share of voice down ${drop} points for ${scan.campaignName}`,
+    message: `Local pack share of voice fell from ${scan.previousShareOfVoice}% to ${scan.shareOfVoice}%.`,
+    details: {
+      campaignName: scan.campaignName,
+      previousShareOfVoice: scan.previousShareOfVoice,
+      shareOfVoice: scan.shareOfVoice,
+      drop,
+    },
+  }
+}
+
+/**
+ * Crawl introduced at least `threshold` pages returning 4xx
+ */
+export function evaluateNew4xxPages(rule: AlertRuleConfig, diff: SiteAuditDiff): AlertMatch | null {
+  const pages = diff.newErrorPages.filter((p) => p.statusCode >= 400 && p.statusCode < 500)
+  if (pages.length === 0 || pages.length < rule.threshold) return null
+
+  return {
+    title: `${pages.length} new 4xx page${pages.length === 1 ? '' : 's'} found`,
+    message: `The latest crawl found ${pages.length} page${pages.length === 1 ? '' : 's'} returning client errors that were fine in the previous crawl, e.g. ${pages[0]!.url} (${pages[0]!.statusCode}).`,
+    details: { pages: pages.slice(0, MAX_LISTED_ITEMS), total: pages.length },
+  }
+}
+
+/**
+ * Crawl introduced at least `threshold` error-severity issue occurrences
+ */
+export function evaluateNewSiteErrors(
+  rule: AlertRuleConfig,
+  diff: SiteAuditDiff
+): AlertMatch | null {
+  const issues = diff.issues
+    .filter((i) => i.severity === 'error' && i.newPages.length > 0)
+    .map((i) => ({ issueType: i.issueType, pages: i.newPages.length }))
+  const total = issues.reduce((sum, i) => sum + i.pages, 0)
+
+  if (total === 0 || total < rule.threshold) return null
+
+  return {
+    title: `${total} new site audit error${total === 1 ? '' : 's'}`,
+    message: `New errors since the previous crawl: ${issues
+      .map((i) => `${i.issueType} (${i.pages})`)
+      .join(', ')}.`,
+    details: { issues, total },
+  }
+}
@@ -4,6 +4,9 @@
  * Adjustable thresholds for SEO audits. Modify these values
  * when Google algorithm shifts require updated standards.
  *
+ * These are the baseline profile. Domains can be assigned a threshold
+ * profile (src/lib/seo/threshold-profiles.ts) that overrides any of them.
+ *
  * Last updated: 2025-12-06
  */
 
@@ -32,6 +35,7 @@ export const SEO_THRESHOLDS = {
   // Content thresholds
   content: {
     minWordCount: 300, // Minimum words for a page to be considered substantive
+    targetWordCount: 1000, // Words for a page to be considered comprehensive
     maxWordCount: 5000, // Maximum before flagging as potentially too long
     minTextToHtmlRatio: 0.1, // 10% - minimum text content ratio
     maxTextToHtmlRatio: 0.9, // 90% - above this might indicate rendering issues
@@ -176,10 +180,21 @@ export const ISSUE_SEVERITY_CONFIG = {
   ],
 } as const
 
+/**
+ * Widens the `as const` literals so profiles can hold any values
+ */
+type Widen<T> = T extends number
+  ? number
+  : T extends string
+    ? string
+    : T extends readonly (infer U)[]
+      ? readonly Widen<U>[]
+      : { [K in keyof T]: Widen<T[K]> }
+
 /**
  * Type exports for type-safe access
  */
-export type SeoThresholds = typeof SEO_THRESHOLDS
-export type ThematicScoreWeights = typeof THEMATIC_SCORE_WEIGHTS
-export type IssueSeverityConfig = typeof ISSUE_SEVERITY_CONFIG
+export type SeoThresholds = Widen<typeof SEO_THRESHOLDS>
+export type ThematicScoreWeights = Widen<typeof THEMATIC_SCORE_WEIGHTS>
+export type IssueSeverityConfig = Widen<typeof ISSUE_SEVERITY_CONFIG>
 export type IssueSeverity = 'error' | 'warning' | 'notice'
@@ -12,6 +12,7 @@ import {
   resetDataForSEOClient,
 } from '../client'
 import { STATUS_CODES } from '../types'
+import { runWithSpendContext, setSpendRecorder } from '../spend-tracking'
 import { createSuccessResponse } from './helpers/test-utils'
 
 // Mock the dataforseo-client package
@@ -97,6 +98,21 @@ describe('DataForSEOClient', () => {
       process.env.DATAFORSEO_PASSWORD = originalPassword
     })
 
+    it('creates client without credentials in replay mode', () => {
+      const originalLogin = process.env.DATAFORSEO_LOGIN
+      const originalPassword = process.env.DATAFORSEO_PASSWORD
+
+      delete process.env.DATAFORSEO_LOGIN
+      delete process.env.DATAFORSEO_PASSWORD
+      process.env.DATAFORSEO_MODE = 'replay'
+
+      expect(new DataForSEOClient()).toBeInstanceOf(DataForSEOClient)
+
+      process.env.DATAFORSEO_LOGIN = originalLogin
+      process.env.DATAFORSEO_PASSWORD = originalPassword
+      delete process.env.DATAFORSEO_MODE
+    })
+
     it('initializes all API instances', () => {
       const client = new DataForSEOClient()
 
@@ -226,6 +242,84 @@ describe('DataForSEOClient', () => {
     })
   })
 
+  // ===========================================================================
+  // Spend Tracking Tests
+  // ===========================================================================
+  describe('spend tracking', () => {
+    afterEach(() => {
+      setSpendRecorder(null)
+    })
+
+    it('records response cost with the active spend context', async () => {
+      const recorder = vi.fn().mockResolvedValue(undefined)
+      setSpendRecorder(recorder)
+      const client = new DataForSEOClient()
+      const response = createSuccessResponse([{}], { cost: 0.0125 })
+
+      await runWithSpendContext({ tool: 'grid_scan', domainId: 'domain-1', runId: 'scan-1' }, () =>
+        client.execute(() => Promise.resolve(response))
+      )
+
+      expect(recorder).toHaveBeenCalledWith({
+        tool: 'grid_scan',
+        domainId: 'domain-1',
+        runId: 'scan-1',
+        endpoint: response.tasks?.[0]?.path.join('/'),
+        cost: 0.0125,
+      })
+    })
+
+    it('charges each call to its caller when contexts overlap in the limiter', async () => {
+      const recorder = vi.fn().mockResolvedValue(undefined)
+      setSpendRecorder(recorder)
+      const client = new DataForSEOClient()
+
+      const issueCalls = (runId: string): Promise<unknown[]> =>
+        runWithSpendContext({ tool: 'grid_scan', domainId: runId, runId }, () =>
+          Promise.all(
+            Array.from({ length: 10 }, (_, i) =>
+              client.execute(
+                () =>
+                  new Promise((resolve) =>
+                    setTimeout(
+                      () => resolve(createSuccessResponse([{ runId }], { cost: 0.01 })),
+                      (i % 3) * 5
+                    )
+                  )
+              )
+            )
+          )
+        )
+
+      await Promise.all([issueCalls('run-a'), issueCalls('run-b')])
+
+      expect(recorder).toHaveBeenCalledTimes(20)
+      for (const [event] of recorder.mock.calls) {
+        expect(event.domainId).toBe(event.runId)
+      }
+      expect(recorder.mock.calls.filter(([event]) => event.runId === 'run-a')).toHaveLength(10)
+    })
+
+    it('does not fail the call when the recorder throws', async () => {
+      setSpendRecorder(vi.fn().mockRejectedValue(new Error('db down')))
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const client = new DataForSEOClient()
+      const response = createSuccessResponse([{}], { cost: 0.01 })
+
+      await expect(client.execute(() => Promise.resolve(response))).resolves.toBe(response)
+    })
+
+    it('skips free responses', async () => {
+      const recorder = vi.fn()
+      setSpendRecorder(recorder)
+      const client = new DataForSEOClient()
+
+      await client.execute(() => Promise.resolve(createSuccessResponse([{}], { cost: 0 })))
+
+      expect(recorder).not.toHaveBeenCalled()
+    })
+  })
+
   // ===========================================================================
   // checkStatus() Tests
   // ===========================================================================
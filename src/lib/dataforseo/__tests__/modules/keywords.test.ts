@@ -223,7 +223,7 @@ describe('KeywordsModule', () => {
     })
   })
 
-  // Note: getDentalKeywordSuggestions is a convenience method for dental-specific searches
+  // Note: getVerticalKeywordSuggestions is a convenience method for vertical-specific searches
 
   // ===========================================================================
   // Module without cache
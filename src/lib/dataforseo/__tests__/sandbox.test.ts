@@ -0,0 +1,171 @@
+/**
+ * DataForSEO Sandbox Tests
+ *
+ * Tests for the offline record/replay transport.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import {
+  createRecordingFetch,
+  createReplayFetch,
+  getDataForSEOMode,
+  getEndpointPath,
+  recordingKey,
+  resetSandboxTasks,
+} from '../sandbox'
+import { STATUS_CODES } from '../types'
+import { mockBacklinksSummary } from './__mocks__/fixtures'
+import { createSuccessResponse } from './helpers/test-utils'
+
+const BASE_URL = 'https://api.dataforseo.com'
+
+async function post(
+  fetcher: ReturnType<typeof createReplayFetch>,
+  endpoint: string,
+  body?: unknown
+) {
+  const response = await fetcher(`${BASE_URL}/${endpoint}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  return response.json()
+}
+
+describe('DataForSEO sandbox', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'dataforseo-sandbox-'))
+    resetSandboxTasks()
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+    delete process.env.DATAFORSEO_MODE
+  })
+
+  // ===========================================================================
+  // Configuration
+  // ===========================================================================
+  describe('getDataForSEOMode', () => {
+    it('defaults to live', () => {
+      expect(getDataForSEOMode()).toBe('live')
+    })
+
+    it('reads replay and record modes', () => {
+      process.env.DATAFORSEO_MODE = 'REPLAY'
+      expect(getDataForSEOMode()).toBe('replay')
+
+      process.env.DATAFORSEO_MODE = 'record'
+      expect(getDataForSEOMode()).toBe('record')
+    })
+
+    it('falls back to live for unknown values', () => {
+      process.env.DATAFORSEO_MODE = 'offline'
+      expect(getDataForSEOMode()).toBe('live')
+    })
+  })
+
+  describe('recordingKey', () => {
+    it('keys by endpoint path and request body', () => {
+      const endpoint = getEndpointPath(`${BASE_URL}/v3/backlinks/summary/live`)
+
+      expect(endpoint).toBe('v3/backlinks/summary/live')
+      expect(recordingKey(endpoint, [{ target: 'a.com' }])).not.toBe(
+        recordingKey(endpoint, [{ target: 'b.com' }])
+      )
+    })
+
+    it('ignores key order in the body', () => {
+      expect(recordingKey('v3/x', [{ a: 1, b: 2 }])).toBe(recordingKey('v3/x', [{ b: 2, a: 1 }]))
+    })
+  })
+
+  // ===========================================================================
+  // Replay
+  // ===========================================================================
+  describe('createReplayFetch', () => {
+    it('serves fixtures shaped like API responses', async () => {
+      const replay = createReplayFetch(dir)
+
+      const result = await post(replay, 'v3/backlinks/summary/live', [{ target: 'example.com' }])
+
+      expect(result.status_code).toBe(STATUS_CODES.SUCCESS)
+      expect(result.tasks[0].result).toEqual([mockBacklinksSummary])
+      expect(result.tasks[0].data).toEqual({ target: 'example.com' })
+    })
+
+    it('returns an empty result for endpoints without fixtures', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const replay = createReplayFetch(dir)
+
+      const result = await post(replay, 'v3/ai_optimization/llm_mentions/search/live', [{}])
+
+      expect(result.tasks[0].result).toEqual([])
+      expect(warn).toHaveBeenCalled()
+    })
+
+    it('reports posted tasks as ready', async () => {
+      const replay = createReplayFetch(dir)
+
+      const posted = await post(replay, 'v3/on_page/task_post', [{ target: 'example.com' }])
+      const ready = await post(replay, 'v3/on_page/tasks_ready')
+      const summary = await post(replay, `v3/on_page/summary/${posted.tasks[0].id}`)
+
+      expect(ready.tasks[0].result).toEqual([{ id: posted.tasks[0].id, tag: null }])
+      expect(summary.tasks[0].result[0].crawl_progress).toBe('finished')
+    })
+
+    it('serves recordings with their cost removed', async () => {
+      const recorded = createSuccessResponse([{ ...mockBacklinksSummary, rank: 999 }], {
+        cost: 0.02,
+      })
+      const live = vi.fn().mockResolvedValue(new Response(JSON.stringify(recorded)))
+      const body = [{ target: 'recorded.com' }]
+
+      await post(createRecordingFetch(live, dir), 'v3/backlinks/summary/live', body)
+      const result = await post(createReplayFetch(dir), 'v3/backlinks/summary/live', body)
+
+      expect(result.tasks[0].result[0].rank).toBe(999)
+      expect(result.cost).toBe(0)
+      expect(result.tasks[0].cost).toBe(0)
+    })
+  })
+
+  // ===========================================================================
+  // Record
+  // ===========================================================================
+  describe('createRecordingFetch', () => {
+    it('saves successful responses to disk and passes them through', async () => {
+      const response = createSuccessResponse([mockBacklinksSummary])
+      const live = vi.fn().mockResolvedValue(new Response(JSON.stringify(response)))
+      const body = [{ target: 'example.com' }]
+
+      const result = await post(createRecordingFetch(live, dir), 'v3/backlinks/summary/live', body)
+      const file = path.join(dir, recordingKey('v3/backlinks/summary/live', body))
+      const recording = JSON.parse(await readFile(file, 'utf8'))
+
+      expect(result).toEqual(response)
+      expect(recording.request).toEqual(body)
+      expect(recording.response).toEqual(response)
+    })
+
+    it('does not save failed responses', async () => {
+      const live = vi.fn().mockResolvedValue(new Response('Unauthorized', { status: 401 }))
+      const body = [{ target: 'example.com' }]
+
+      const response = await createRecordingFetch(live, dir)(
+        `${BASE_URL}/v3/backlinks/summary/live`,
+        { method: 'POST', body: JSON.stringify(body) }
+      )
+
+      expect(response.status).toBe(401)
+      await expect(
+        readFile(path.join(dir, recordingKey('v3/backlinks/summary/live', body)))
+      ).rejects.toThrow()
+    })
+  })
+})
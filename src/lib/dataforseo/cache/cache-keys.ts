@@ -43,7 +43,8 @@ export const CacheKeys = {
     instantPage: (url: string): string => `dfs:onpage:instant:${hash(url)}`,
     lighthouse: (url: string): string => `dfs:onpage:lighthouse:${hash(url)}`,
     crawlSummary: (taskId: string): string => `dfs:onpage:crawl:${taskId}`,
-    microdata: (taskId: string): string => `dfs:onpage:microdata:${taskId}`,
+    microdata: (taskId: string, url: string): string =>
+      `dfs:onpage:microdata:${taskId}:${hash(url)}`,
   },
 
   // SERP API
@@ -5,6 +5,8 @@
  * - Rate limiting via Bottleneck
  * - Error handling and retry logic
  * - Logging
+ * - Spend tracking (see spend-tracking.ts)
+ * - Offline record/replay transport (see sandbox.ts)
  * - Configuration management
  */
 
@@ -21,22 +23,27 @@ import {
 } from 'dataforseo-client'
 
 import { generalLimiter, getLimiter, type LimiterType } from './rate-limiter'
+import { getSpendContext, recordSpend } from './spend-tracking'
+import { createRecordingFetch, createReplayFetch, getDataForSEOMode } from './sandbox'
 import { STATUS_CODES, type DataForSEOConfig, type DataForSEOError } from './types'
 
 // Environment configuration
 const getConfig = (): DataForSEOConfig => {
+  const mode = getDataForSEOMode()
   const username = process.env.DATAFORSEO_LOGIN
   const password = process.env.DATAFORSEO_PASSWORD
 
-  if (!username || !password) {
+  // Replay never reaches the API, so it runs without credentials
+  if ((!username || !password) && mode !== 'replay') {
     throw new Error(
-      'DataForSEO credentials not configured. Set DATAFORSEO_LOGIN and DATAFORSEO_PASSWORD environment variables.'
+      'DataForSEO credentials not configured. Set DATAFORSEO_LOGIN and DATAFORSEO_PASSWORD environment variables, or DATAFORSEO_MODE=replay to run offline.'
     )
   }
 
   return {
-    username,
-    password,
+    username: username || 'sandbox',
+    password: password || 'sandbox',
+    mode,
     baseUrl: process.env.DATAFORSEO_BASE_URL || 'https://api.dataforseo.com',
     timeout: parseInt(process.env.DATAFORSEO_TIMEOUT || '30000', 10),
     retryAttempts: parseInt(process.env.DATAFORSEO_RETRY_ATTEMPTS || '3', 10),
@@ -47,26 +54,33 @@ const getConfig = (): DataForSEOConfig => {
 const createHttpClient = (config: DataForSEOConfig) => {
   const credentials = Buffer.from(`${config.username}:${config.password}`).toString('base64')
 
-  return {
-    fetch: async (url: RequestInfo, init?: RequestInit): Promise<Response> => {
-      const headers = new Headers(init?.headers)
-      headers.set('Authorization', `Basic ${credentials}`)
-      headers.set('Content-Type', 'application/json')
+  const liveFetch = async (url: RequestInfo, init?: RequestInit): Promise<Response> => {
+    const headers = new Headers(init?.headers)
+    headers.set('Authorization', `Basic ${credentials}`)
+    headers.set('Content-Type', 'application/json')
 
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), config.timeout || 30000)
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), config.timeout || 30000)
 
-      try {
-        const response = await fetch(url, {
-          ...init,
-          headers,
-          signal: controller.signal,
-        })
-        return response
-      } finally {
-        clearTimeout(timeoutId)
-      }
-    },
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers,
+        signal: controller.signal,
+      })
+      return response
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  switch (config.mode) {
+    case 'replay':
+      return { fetch: createReplayFetch() }
+    case 'record':
+      return { fetch: createRecordingFetch(liveFetch) }
+    default:
+      return { fetch: liveFetch }
   }
 }
 
@@ -139,15 +153,20 @@ export class DataForSEOClient {
    */
   async execute<T>(apiCall: () => Promise<T>, limiterType: LimiterType = 'general'): Promise<T> {
     const limiter = getLimiter(limiterType)
+    // Capture attribution now; the scheduled job runs in the limiter's async scope
+    const spendContext = getSpendContext()
 
     return limiter.schedule(async () => {
+      let result: T
       try {
-        const result = await apiCall()
-        return result
+        result = await apiCall()
       } catch (error) {
         const dfsError = this.parseError(error)
         throw new DataForSEOAPIError(dfsError.message, dfsError.code)
       }
+
+      await recordSpend(result, spendContext)
+      return result
     })
   }
 
@@ -242,6 +261,7 @@ export class DataForSEOClient {
    */
   async post<T = unknown>(endpoint: string, body: unknown): Promise<T> {
     const url = `${this.config.baseUrl}${endpoint}`
+    const spendContext = getSpendContext()
 
     return generalLimiter.schedule(async () => {
       const response = await this.httpClient.fetch(url, {
@@ -257,7 +277,9 @@ export class DataForSEOClient {
         )
       }
 
-      return response.json() as Promise<T>
+      const result = (await response.json()) as T
+      await recordSpend(result, spendContext, endpoint.replace(/^\//, ''))
+      return result
     })
   }
 }
@@ -12,6 +12,29 @@ export {
   resetDataForSEOClient,
 } from './client'
 
+// Spend tracking
+export {
+  runWithSpendContext,
+  withSpendContext,
+  getSpendContext,
+  setSpendRecorder,
+  type SpendContext,
+  type SpendEvent,
+  type SpendRecorder,
+  type SpendTool,
+} from './spend-tracking'
+
+// Offline record/replay
+export {
+  createRecordingFetch,
+  createReplayFetch,
+  getDataForSEOMode,
+  getRecordingsDir,
+  resetSandboxTasks,
+  type FetchLike,
+  type Recording,
+} from './sandbox'
+
 // Rate limiter
 export {
   generalLimiter,
@@ -28,6 +51,7 @@ export {
   type DataForSEOTask,
   type DataForSEOError,
   type DataForSEOConfig,
+  type DataForSEOMode,
   type RequestOptions,
   type StatusCode,
   type BacklinksSummaryResult,
@@ -12,6 +12,7 @@ import {
 } from 'dataforseo-client'
 
 import { BaseModule, type ExecuteOptions } from './base-module'
+import type { VerticalPack } from '../../verticals'
 import { CacheKeys, CacheTTL } from '../cache'
 import {
   searchVolumeInputSchema,
@@ -467,65 +468,24 @@ export class KeywordsModule extends BaseModule {
   }
 
   /**
-   * Get dental-specific keyword suggestions
-   * Pre-filtered list of keywords relevant to dental practices
+   * Get keyword suggestions for an industry vertical
+   * Uses the vertical pack's seed keywords for the given practice area
    *
-   * @param practice - Type of dental practice
+   * @param vertical - Vertical pack to take seed keywords from
+   * @param practiceArea - Seed group in the pack (defaults to its first group)
    * @param locationCode - Location for data
    * @returns Array of keyword suggestions with metrics
    */
-  async getDentalKeywordSuggestions(
-    practice: 'general' | 'cosmetic' | 'pediatric' | 'orthodontic' | 'oral-surgery',
+  async getVerticalKeywordSuggestions(
+    vertical: VerticalPack,
+    practiceArea?: string,
     locationCode: number = DEFAULT_LOCATION_CODE
   ): Promise<KeywordInfo[]> {
-    // Seed keywords by practice type
-    const seedKeywords: Record<string, string[]> = {
-      general: [
-        'dentist near me',
-        'dental cleaning',
-        'family dentist',
-        'dental checkup',
-        'tooth extraction',
-        'root canal',
-        'dental filling',
-        'emergency dentist',
-      ],
-      cosmetic: [
-        'teeth whitening',
-        'dental veneers',
-        'cosmetic dentist',
-        'smile makeover',
-        'dental bonding',
-        'porcelain veneers',
-        'teeth bleaching',
-      ],
-      pediatric: [
-        'pediatric dentist',
-        'kids dentist',
-        'child dentist',
-        'children dental care',
-        "baby's first dentist",
-        'dental sealants kids',
-      ],
-      orthodontic: [
-        'orthodontist near me',
-        'braces',
-        'invisalign',
-        'teeth straightening',
-        'clear aligners',
-        'adult braces',
-      ],
-      'oral-surgery': [
-        'oral surgeon',
-        'wisdom tooth extraction',
-        'dental implants',
-        'jaw surgery',
-        'tooth removal surgery',
-      ],
-    }
-
-    const keywords = seedKeywords[practice] ??
-      seedKeywords.general ?? ['dentist near me', 'dental cleaning']
+    const groups = Object.values(vertical.keywordSeeds)
+    const keywords =
+      (practiceArea ? vertical.keywordSeeds[practiceArea] : undefined) ??
+      groups[0] ??
+      vertical.trackedKeywords
 
     return this.getSearchVolume({
       keywords,
@@ -12,6 +12,7 @@ import {
   OnPagePagesRequestInfo,
   OnPageResourcesRequestInfo,
   OnPageLinksRequestInfo,
+  OnPageMicrodataRequestInfo,
 } from 'dataforseo-client'
 
 import { BaseModule, type ExecuteOptions } from './base-module'
@@ -32,6 +33,7 @@ import {
   type CrawledPageResult,
   type CrawledResourceResult,
   type CrawledLinkResult,
+  type MicrodataItem,
 } from '../schemas'
 
 /**
@@ -338,6 +340,7 @@ export class OnPageModule extends BaseModule {
       request.respect_sitemap = validated.respectSitemap
       request.allow_subdomains = validated.allowSubdomains
       request.disable_cookie_popup = validated.disableCookiePopup
+      request.validate_micromarkup = validated.validateMicromarkup
 
       if (validated.startUrl) {
         request.start_url = validated.startUrl
@@ -566,6 +569,43 @@ export class OnPageModule extends BaseModule {
     }
   }
 
+  /**
+   * Get structured data (JSON-LD and microdata) found on a crawled page
+   * POST /v3/on_page/microdata
+   *
+   * Requires the crawl task to be submitted with `validateMicromarkup`.
+   *
+   * @param taskId - Task ID from submitCrawlTask
+   * @param url - Crawled page URL
+   * @param options - Execution options
+   * @returns Schema.org items on the page
+   */
+  async getPageMicrodata(
+    taskId: string,
+    url: string,
+    options?: ExecuteOptions
+  ): Promise<MicrodataItem[]> {
+    const response = await this.executeWithCache(
+      CacheKeys.onpage.microdata(taskId, url),
+      async () => {
+        const request = new OnPageMicrodataRequestInfo()
+        request.id = taskId
+        request.url = url
+
+        return this.client.onPage.microdata([request])
+      },
+      {
+        ...options,
+        cache: { ttl: CacheTTL.ONPAGE, ...options?.cache },
+      }
+    )
+
+    const task = response?.tasks?.[0]
+    const taskResult = task as { result?: Array<{ items?: unknown[] }> }
+
+    return (taskResult?.result?.[0]?.items ?? []) as unknown as MicrodataItem[]
+  }
+
   /**
    * Force stop a crawl task
    * POST /v3/on_page/force_stop
@@ -611,4 +651,43 @@ export class OnPageModule extends BaseModule {
 
     return allPages
   }
+
+  /**
+   * Fetch all internal anchor links from a completed task (handles pagination
+   * automatically). Stops at `maxLinks` to bound very large sites.
+   *
+   * @param taskId - Task ID from submitCrawlTask
+   * @param maxLinks - Maximum links to fetch
+   * @param options - Execution options
+   * @returns Internal links between crawled pages
+   */
+  async fetchAllInternalLinks(
+    taskId: string,
+    maxLinks = 50000,
+    options?: ExecuteOptions
+  ): Promise<CrawledLinkResult[]> {
+    const allLinks: CrawledLinkResult[] = []
+    let offset = 0
+    const limit = 1000
+
+    while (allLinks.length < maxLinks) {
+      const result = await this.getCrawledLinks(
+        taskId,
+        {
+          limit,
+          offset,
+          filters: [['direction', '=', 'internal'], 'and', ['type', '=', 'anchor']],
+        },
+        options
+      )
+      allLinks.push(...result.items)
+
+      if (result.items.length < limit || allLinks.length >= result.totalCount) {
+        break
+      }
+      offset += limit
+    }
+
+    return allLinks.slice(0, maxLinks)
+  }
 }
@@ -0,0 +1,165 @@
+/**
+ * DataForSEO Sandbox Fixtures
+ *
+ * Maps API endpoints to the canned results in `__tests__/__mocks__/fixtures`,
+ * shaped the way the modules read them (`tasks[0].result`). Replay mode falls
+ * back to these when no recording matches a request.
+ */
+
+import * as fixtures from './__tests__/__mocks__/fixtures'
+
+type FixtureResults = (request: Record<string, unknown>) => unknown[]
+
+/**
+ * Crawl summary for a simulated On-Page task that finished with one page
+ */
+function crawlSummary(): unknown[] {
+  const page = fixtures.mockOnPageInstantResult
+
+  return [
+    {
+      crawl_progress: 'finished',
+      crawl_status: { max_crawl_pages: 1, pages_in_queue: 0, pages_crawled: 1 },
+      crawl_stop_reason: 'empty_queue',
+      domain_info: { name: new URL(page.url ?? 'https://example-dental.com').hostname },
+      page_metrics: {
+        onpage_score: page.onpage_score,
+        links_internal: 0,
+        links_external: page.meta?.external_links_count ?? 0,
+        broken_links: 0,
+        broken_resources: 0,
+        non_indexable: 0,
+        duplicate_title: 0,
+        duplicate_description: 0,
+        duplicate_content: 0,
+        checks: page.checks ?? {},
+      },
+    },
+  ]
+}
+
+/**
+ * Paginated On-Page collection (pages, resources, links)
+ */
+function crawlCollection(items: unknown[]): FixtureResults {
+  return (request) => {
+    const offset = typeof request.offset === 'number' ? request.offset : 0
+
+    return [
+      {
+        crawl_progress: 'finished',
+        crawl_status: { max_crawl_pages: 1, pages_in_queue: 0, pages_crawled: 1 },
+        total_items_count: items.length,
+        items_count: Math.max(items.length - offset, 0),
+        items: items.slice(offset),
+      },
+    ]
+  }
+}
+
+const ENDPOINT_FIXTURES: Array<[RegExp, FixtureResults]> = [
+  // Backlinks
+  [/^v3\/backlinks\/summary\/live$/, () => [fixtures.mockBacklinksSummary]],
+  [/^v3\/backlinks\/backlinks\/live$/, () => [{ items: [fixtures.mockBacklinkItem] }]],
+  [/^v3\/backlinks\/anchors\/live$/, () => [{ items: [fixtures.mockAnchorResult] }]],
+  [
+    /^v3\/backlinks\/referring_domains\/live$/,
+    () => [{ items: [fixtures.mockReferringDomainResult] }],
+  ],
+  [/^v3\/backlinks\/competitors\/live$/, () => [{ items: [fixtures.mockCompetitorResult] }]],
+  [/^v3\/backlinks\/bulk_spam_score\/live$/, () => [fixtures.mockSpamScoreResult]],
+
+  // Business Data
+  [
+    /^v3\/business_data\/google\/my_business_info\/live$/,
+    () => [{ items: [fixtures.mockBusinessInfoResult] }],
+  ],
+  [
+    /^v3\/business_data\/business_listings\/search\/live$/,
+    () => [{ items: fixtures.mockBusinessListings }],
+  ],
+  [
+    /^v3\/business_data\/google\/reviews\/task_get\//,
+    () => [
+      {
+        rating: fixtures.mockBusinessInfoResult.rating,
+        reviews_count: fixtures.mockReviews.length,
+        items_count: fixtures.mockReviews.length,
+        items: fixtures.mockReviews,
+      },
+    ],
+  ],
+  [
+    /^v3\/business_data\/google\/(my_business_updates|questions_and_answers)\/task_get\//,
+    () => [{ items_count: 0, items: [] }],
+  ],
+
+  // Keywords Data
+  [
+    /^v3\/keywords_data\/google_ads\/search_volume\/live$/,
+    () => [fixtures.mockKeywordInfo, fixtures.mockKeywordInfoLowVolume],
+  ],
+  [
+    /^v3\/keywords_data\/google_ads\/keywords_for_site\/live$/,
+    () => fixtures.mockKeywordsForSiteResults,
+  ],
+  [/^v3\/keywords_data\/google_trends\/explore\/live$/, () => [fixtures.mockKeywordsTrendsResult]],
+
+  // DataForSEO Labs
+  [
+    /^v3\/dataforseo_labs\/google\/domain_rank_overview\/live$/,
+    () => [fixtures.mockDomainRankOverview],
+  ],
+  [
+    /^v3\/dataforseo_labs\/google\/ranked_keywords\/live$/,
+    () => [{ items: fixtures.mockRankedKeywords }],
+  ],
+  [
+    /^v3\/dataforseo_labs\/google\/competitors_domain\/live$/,
+    () => [{ items: fixtures.mockCompetitors }],
+  ],
+  [
+    /^v3\/dataforseo_labs\/google\/bulk_keyword_difficulty\/live$/,
+    () => [{ items: fixtures.mockKeywordDifficultyResults }],
+  ],
+  [
+    /^v3\/dataforseo_labs\/google\/search_intent\/live$/,
+    () => [{ items: fixtures.mockSearchIntentResults }],
+  ],
+  [
+    /^v3\/dataforseo_labs\/google\/bulk_traffic_estimation\/live$/,
+    () => [fixtures.mockTrafficEstimationResult],
+  ],
+  [
+    /^v3\/dataforseo_labs\/google\/keyword_suggestions\/live$/,
+    () => [{ items: fixtures.mockKeywordSuggestions }],
+  ],
+
+  // SERP
+  [/^v3\/serp\/google\/organic\/live\/advanced$/, () => [{ items: fixtures.mockOrganicResults }]],
+  [/^v3\/serp\/google\/maps\/live\/advanced$/, () => [{ items: [fixtures.mockMapsResult] }]],
+  [
+    /^v3\/serp\/google\/local_finder\/live\/advanced$/,
+    () => [{ items: [fixtures.mockLocalPackResult] }],
+  ],
+  [/^v3\/serp\/google\/locations$/, () => fixtures.mockLocations],
+
+  // On-Page
+  [/^v3\/on_page\/instant_pages$/, () => [{ items: [fixtures.mockOnPageInstantResult] }]],
+  [/^v3\/on_page\/lighthouse\/live\/json$/, () => [fixtures.mockLighthouseResult]],
+  [/^v3\/on_page\/summary\//, crawlSummary],
+  [/^v3\/on_page\/pages$/, crawlCollection([fixtures.mockOnPageInstantResult])],
+  [/^v3\/on_page\/(resources|links)$/, crawlCollection([])],
+]
+
+/**
+ * Fixture results for one request item to an endpoint, or null when the
+ * endpoint has no fixture
+ */
+export function getFixtureResults(
+  endpoint: string,
+  request: Record<string, unknown> = {}
+): unknown[] | null {
+  const match = ENDPOINT_FIXTURES.find(([pattern]) => pattern.test(endpoint))
+  return match ? match[1](request) : null
+}
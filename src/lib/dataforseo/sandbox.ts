@@ -0,0 +1,287 @@
+/**
+ * DataForSEO Sandbox Transport
+ *
+ * Lets the app run without spending credits. Selected with DATAFORSEO_MODE:
+ * - `live` (default): requests go to the API
+ * - `record`: requests go to the API and successful responses are saved to disk
+ * - `replay`: nothing leaves the machine and no credentials are needed
+ *
+ * Replay serves, in order: the recording for the same endpoint and request
+ * body, the endpoint's test fixture, or an empty successful task. Task-based
+ * APIs (On-Page crawls, GBP reviews/posts/Q&A) are simulated: every task posted
+ * in this process is reported by the next `tasks_ready` poll.
+ *
+ * Replayed responses always report zero cost, so the spend ledger stays clean.
+ */
+
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { getFixtureResults } from './sandbox-fixtures'
+import { STATUS_CODES, type DataForSEOMode } from './types'
+
+export type FetchLike = (url: RequestInfo, init?: RequestInit) => Promise<Response>
+
+/**
+ * A captured response, stored as `<endpoint>/<body hash>.json`
+ */
+export interface Recording {
+  endpoint: string
+  request: unknown
+  response: unknown
+  recordedAt: string
+}
+
+interface SandboxTask {
+  id?: string
+  cost?: number
+  data?: Record<string, unknown>
+  result?: unknown[] | null
+}
+
+interface SandboxResponseBody {
+  cost?: number
+  tasks?: SandboxTask[]
+  [key: string]: unknown
+}
+
+const DEFAULT_RECORDINGS_DIR = '.dataforseo-recordings'
+
+/** Task IDs posted in this process, keyed by task family (e.g. `v3/on_page`) */
+const postedTasks = new Map<string, Set<string>>()
+
+/**
+ * Transport selected by DATAFORSEO_MODE
+ */
+export function getDataForSEOMode(): DataForSEOMode {
+  const mode = process.env.DATAFORSEO_MODE?.toLowerCase()
+  return mode === 'record' || mode === 'replay' ? mode : 'live'
+}
+
+/**
+ * Directory recordings are read from and written to
+ */
+export function getRecordingsDir(): string {
+  return path.resolve(process.env.DATAFORSEO_RECORDINGS_DIR || DEFAULT_RECORDINGS_DIR)
+}
+
+/**
+ * Endpoint path of a request URL, e.g. `v3/serp/google/organic/live/advanced`
+ */
+export function getEndpointPath(url: RequestInfo): string {
+  const href = typeof url === 'string' ? url : url.url
+  return new URL(href).pathname.replace(/^\/+/, '').replace(/\/+$/, '')
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    const pairs = entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`)
+    return `{${pairs.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+function parseBody(body: RequestInit['body']): unknown {
+  if (typeof body !== 'string' || body === '') return null
+  try {
+    return JSON.parse(body)
+  } catch {
+    return body
+  }
+}
+
+function shortHash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 16)
+}
+
+/**
+ * Relative file path of the recording for a request. Key order in the body
+ * doesn't matter.
+ */
+export function recordingKey(endpoint: string, body: unknown): string {
+  return `${endpoint}/${shortHash(stableStringify(body))}.json`
+}
+
+async function readRecording(dir: string, key: string): Promise<Recording | null> {
+  try {
+    return JSON.parse(await readFile(path.join(dir, key), 'utf8')) as Recording
+  } catch {
+    return null
+  }
+}
+
+async function writeRecording(dir: string, key: string, recording: Recording): Promise<void> {
+  const file = path.join(dir, key)
+  await mkdir(path.dirname(file), { recursive: true })
+  await writeFile(file, JSON.stringify(recording, null, 2))
+}
+
+function taskFamily(endpoint: string): string {
+  return endpoint.replace(/\/(task_post|tasks_ready)$/, '')
+}
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+/**
+ * Successful API envelope with one task per entry
+ */
+function sandboxEnvelope(endpoint: string, tasks: SandboxTask[]): SandboxResponseBody {
+  return {
+    version: '0.1.sandbox',
+    status_code: STATUS_CODES.SUCCESS,
+    status_message: 'Ok.',
+    time: '0 sec.',
+    cost: 0,
+    tasks_count: tasks.length,
+    tasks_error: 0,
+    tasks: tasks.map((task) => ({
+      id: task.id ?? `sandbox-${shortHash(`${endpoint}:${stableStringify(task.data ?? {})}`)}`,
+      status_code: STATUS_CODES.SUCCESS,
+      status_message: 'Ok.',
+      time: '0 sec.',
+      cost: 0,
+      result_count: task.result?.length ?? 0,
+      path: endpoint.split('/'),
+      data: task.data ?? {},
+      result: task.result ?? null,
+    })),
+  }
+}
+
+function requestItems(body: unknown): Record<string, unknown>[] {
+  if (Array.isArray(body) && body.length > 0) {
+    return body.map((item) => (item && typeof item === 'object' ? item : {}))
+  }
+  return [{}]
+}
+
+/**
+ * Response for a request with no recording: a simulated task post, the
+ * endpoint's fixture, or an empty result
+ */
+function unrecordedResponse(endpoint: string, body: unknown): SandboxResponseBody {
+  const items = requestItems(body)
+
+  if (endpoint.endsWith('/task_post')) {
+    return sandboxEnvelope(
+      endpoint,
+      items.map((data) => ({ data, result: null }))
+    )
+  }
+
+  return sandboxEnvelope(
+    endpoint,
+    items.map((data) => {
+      const result = getFixtureResults(endpoint, data)
+      if (!result) {
+        console.warn(
+          `[DataForSEO sandbox] No recording or fixture for ${endpoint}; returning empty result`
+        )
+      }
+      return { data, result: result ?? [] }
+    })
+  )
+}
+
+function tasksReadyResponse(endpoint: string): SandboxResponseBody {
+  const ids = [...(postedTasks.get(taskFamily(endpoint)) ?? [])]
+  return sandboxEnvelope(endpoint, [{ result: ids.map((id) => ({ id, tag: null })) }])
+}
+
+function registerPostedTasks(endpoint: string, body: SandboxResponseBody): void {
+  const family = taskFamily(endpoint)
+  const ids = postedTasks.get(family) ?? new Set<string>()
+  for (const task of body.tasks ?? []) {
+    if (task.id) ids.add(task.id)
+  }
+  postedTasks.set(family, ids)
+}
+
+/**
+ * Strip cost so replayed recordings aren't charged to the spend ledger
+ */
+function withoutCost(body: SandboxResponseBody): SandboxResponseBody {
+  return {
+    ...body,
+    cost: 0,
+    tasks: body.tasks?.map((task) => ({ ...task, cost: 0 })),
+  }
+}
+
+/**
+ * Transport that answers every request offline
+ */
+export function createReplayFetch(dir: string = getRecordingsDir()): FetchLike {
+  return async (url, init) => {
+    const endpoint = getEndpointPath(url)
+
+    if (endpoint.endsWith('/tasks_ready')) {
+      return jsonResponse(tasksReadyResponse(endpoint))
+    }
+
+    const body = parseBody(init?.body)
+    const recording = await readRecording(dir, recordingKey(endpoint, body))
+    const response =
+      (recording?.response as SandboxResponseBody | undefined) ?? unrecordedResponse(endpoint, body)
+
+    if (endpoint.endsWith('/task_post')) {
+      registerPostedTasks(endpoint, response)
+    }
+
+    return jsonResponse(withoutCost(response))
+  }
+}
+
+/**
+ * Transport that calls the API and saves each successful response for replay.
+ * `tasks_ready` polls aren't recorded since replay simulates them.
+ */
+export function createRecordingFetch(
+  liveFetch: FetchLike,
+  dir: string = getRecordingsDir()
+): FetchLike {
+  return async (url, init) => {
+    const response = await liveFetch(url, init)
+    const endpoint = getEndpointPath(url)
+
+    if (!response.ok || endpoint.endsWith('/tasks_ready')) {
+      return response
+    }
+
+    try {
+      const body = parseBody(init?.body)
+      const payload = (await response.clone().json()) as { status_code?: number }
+
+      if (payload.status_code === STATUS_CODES.SUCCESS) {
+        await writeRecording(dir, recordingKey(endpoint, body), {
+          endpoint,
+          request: body,
+          response: payload,
+          recordedAt: new Date().toISOString(),
+        })
+      }
+    } catch (error) {
+      console.warn(`[DataForSEO sandbox] Failed to record ${endpoint}:`, error)
+    }
+
+    return response
+  }
+}
+
+/**
+ * Forget simulated tasks (useful for testing)
+ */
+export function resetSandboxTasks(): void {
+  postedTasks.clear()
+}
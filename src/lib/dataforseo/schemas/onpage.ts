@@ -188,11 +188,37 @@ export const lighthouseResultSchema = z.object({
 })
 
 /**
- * Microdata (schema.org) item
+ * Microdata field as inspected by the OnPage Microdata endpoint. Object
+ * values (e.g. a PostalAddress) carry their own types and nested fields.
+ */
+export interface MicrodataField {
+  name?: string | null
+  types?: string[] | null
+  value?: string | null
+  fields?: MicrodataField[] | null
+}
+
+export const microdataFieldSchema: z.ZodType<MicrodataField> = z.lazy(() =>
+  z.object({
+    name: z.string().nullish(),
+    types: z.array(z.string()).nullish(),
+    value: z.string().nullish(),
+    fields: z.array(microdataFieldSchema).nullish(),
+  })
+)
+
+/**
+ * Microdata (schema.org) item, from JSON-LD or inline microdata
  */
 export const microdataItemSchema = z.object({
+  /** Markup format: `json-ld` or `microdata` */
   type: z.string(),
-  fields: z.record(z.string(), z.unknown()),
+  inspection_info: z
+    .object({
+      types: z.array(z.string()).nullish(),
+      fields: z.array(microdataFieldSchema).nullish(),
+    })
+    .nullish(),
 })
 
 // ============================================================================
@@ -217,6 +243,8 @@ export const siteCrawlTaskInputSchema = z.object({
   acceptLanguage: z.string().max(50).optional(),
   allowSubdomains: z.boolean().default(false),
   disableCookiePopup: z.boolean().default(true),
+  /** Required to fetch pages' structured data from the Microdata endpoint */
+  validateMicromarkup: z.boolean().default(false),
 })
 
 /**
@@ -0,0 +1,127 @@
+/**
+ * DataForSEO Spend Tracking
+ *
+ * Attributes the cost of every DataForSEO request to the domain, tool and run
+ * that triggered it. Callers wrap their work in `runWithSpendContext`; the
+ * client reports each successful response to the registered recorder.
+ *
+ * The recorder is pluggable so this module (and the client) stay free of
+ * database imports. The ledger registers itself from `instrumentation.ts`.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+/**
+ * Tools that spend DataForSEO credits
+ */
+export type SpendTool =
+  | 'audit'
+  | 'site_audit'
+  | 'grid_scan'
+  | 'keyword_tracking'
+  | 'ai_seo'
+  | 'backlinks'
+  | 'gbp'
+  | 'competitors'
+  | 'keyword_audit'
+  | 'other'
+
+/**
+ * Attribution for DataForSEO requests made within a unit of work
+ */
+export interface SpendContext {
+  tool: SpendTool
+  domainId?: string | null
+  userId?: string | null
+  runId?: string | null
+}
+
+/**
+ * A single billed request, as handed to the recorder
+ */
+export interface SpendEvent extends SpendContext {
+  endpoint: string
+  cost: number
+}
+
+export type SpendRecorder = (event: SpendEvent) => Promise<void>
+
+const spendStorage = new AsyncLocalStorage<SpendContext>()
+
+const noopRecorder: SpendRecorder = async () => {}
+
+let recorder: SpendRecorder = noopRecorder
+
+/**
+ * Run `fn` with the given spend attribution.
+ * Nested calls override the outer context for their duration.
+ */
+export function runWithSpendContext<T>(context: SpendContext, fn: () => T): T {
+  return spendStorage.run(context, fn)
+}
+
+/**
+ * Wrap a callback so it runs with the given spend attribution.
+ * Handy for Inngest steps: `step.run('fetch', withSpendContext(ctx, async () => ...))`
+ */
+export function withSpendContext<T>(context: SpendContext, fn: () => T): () => T {
+  return () => spendStorage.run(context, fn)
+}
+
+/**
+ * Get the spend attribution for the current async scope, if any
+ */
+export function getSpendContext(): SpendContext | undefined {
+  return spendStorage.getStore()
+}
+
+/**
+ * Register the function that persists spend events
+ */
+export function setSpendRecorder(next: SpendRecorder | null): void {
+  recorder = next ?? noopRecorder
+}
+
+/**
+ * Extract cost and endpoint from a DataForSEO response body
+ */
+export function extractSpend(response: unknown): { endpoint: string; cost: number } | null {
+  if (!response || typeof response !== 'object') return null
+
+  const { cost, tasks } = response as {
+    cost?: unknown
+    tasks?: Array<{ path?: unknown }> | null
+  }
+  if (typeof cost !== 'number' || cost <= 0) return null
+
+  const path = tasks?.[0]?.path
+  const endpoint = Array.isArray(path) ? path.join('/') : 'unknown'
+
+  return { endpoint, cost }
+}
+
+/**
+ * Report a DataForSEO response to the recorder.
+ * Never throws — a ledger failure must not fail the API call that was already paid for.
+ *
+ * The context must be captured by the caller before the request is queued:
+ * rate-limited jobs run in the limiter's async scope, not the caller's.
+ */
+export async function recordSpend(
+  response: unknown,
+  context: SpendContext | undefined,
+  fallbackEndpoint?: string
+): Promise<void> {
+  const spend = extractSpend(response)
+  if (!spend) return
+
+  const attribution = context ?? { tool: 'other' as const }
+  const endpoint =
+    spend.endpoint === 'unknown' && fallbackEndpoint ? fallbackEndpoint : spend.endpoint
+
+  try {
+    await recorder({ ...attribution, endpoint, cost: spend.cost })
+  } catch (error) {
+    console.error('[DataForSEO] Failed to record spend:', error)
+  }
+}
@@ -337,12 +337,19 @@ export interface OnPageInstantResult {
 }
 
 // Client configuration
+/**
+ * Transport used by the client: the live API, the live API with responses
+ * saved to disk, or offline replay (see sandbox.ts)
+ */
+export type DataForSEOMode = 'live' | 'record' | 'replay'
+
 export interface DataForSEOConfig {
   username: string
   password: string
   baseUrl?: string
   timeout?: number
   retryAttempts?: number
+  mode?: DataForSEOMode
 }
 
 // Request options
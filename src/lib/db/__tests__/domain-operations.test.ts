@@ -23,6 +23,7 @@ vi.mock('@/lib/prisma', () => ({
       update: vi.fn(),
     },
     domain_settings: {
+      findUnique: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
     },
@@ -47,6 +48,9 @@ vi.mock('@/lib/prisma', () => ({
     keyword_tracking_runs: {
       count: vi.fn(),
     },
+    seo_threshold_profiles: {
+      count: vi.fn(),
+    },
   },
 }))
 
@@ -60,6 +64,7 @@ import {
   getDomainToolCounts,
   updateDomainSettings,
 } from '../domain-operations'
+import { domainAccessWhere } from '../workspace-operations'
 
 // Sample domain data for testing
 const mockDomainSettings = {
@@ -112,7 +117,7 @@ describe('getUserDomains', () => {
 
     expect(prisma.domains.findMany).toHaveBeenCalledWith({
       where: {
-        user_id: 'user-123',
+        ...domainAccessWhere('user-123'),
         status: 'ACTIVE',
       },
       include: {
@@ -173,7 +178,7 @@ describe('getDomainById', () => {
     expect(prisma.domains.findFirst).toHaveBeenCalledWith({
       where: {
         id: 'domain-123',
-        user_id: 'user-123',
+        ...domainAccessWhere('user-123'),
       },
       include: {
         domain_settings: true,
@@ -228,9 +233,17 @@ describe('createDomain', () => {
         business_name: 'Test Dental Practice',
         city: 'Chicago',
         state: 'IL',
+        vertical: 'dental',
         status: 'ACTIVE',
         domain_settings: {
           create: {
+            seo_default_website_conv_rate: 0.15,
+            seo_default_reception_rate: 0.66,
+            seo_default_attendance_rate: 0.85,
+            seo_default_referral_rate: 0.25,
+            seo_default_stv: 1000,
+            seo_default_ltv: 10000,
+            ads_default_avg_cpc: 7,
             site_audit_max_pages: 100,
             site_audit_enable_javascript: true,
             local_seo_grid_size: 7,
@@ -272,6 +285,7 @@ describe('createDomain', () => {
 describe('updateDomain', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    ;(prisma.domains.findFirst as Mock).mockResolvedValue(mockDomain)
   })
 
   it('updates domain fields', async () => {
@@ -287,10 +301,15 @@ describe('updateDomain', () => {
       businessName: 'Updated Business',
     })
 
+    expect(prisma.domains.findFirst).toHaveBeenCalledWith({
+      where: {
+        id: 'domain-123',
+        ...domainAccessWhere('user-123', 'ADMIN'),
+      },
+    })
     expect(prisma.domains.update).toHaveBeenCalledWith({
       where: {
         id: 'domain-123',
-        user_id: 'user-123',
       },
       data: {
         name: 'Updated Name',
@@ -317,11 +336,60 @@ describe('updateDomain', () => {
 
     expect(result.status).toBe('ARCHIVED')
   })
+
+  it('moves uncustomised funnel defaults to the new vertical pack', async () => {
+    ;(prisma.domains.findFirst as Mock).mockResolvedValue({ ...mockDomain, vertical: 'dental' })
+    ;(prisma.domain_settings.findUnique as Mock).mockResolvedValue({
+      ...mockDomainSettings,
+      // Dental pack defaults, except the customised lifetime value and CPC
+      seo_default_website_conv_rate: 0.15,
+      seo_default_reception_rate: 0.66,
+      seo_default_attendance_rate: 0.85,
+      seo_default_referral_rate: 0.25,
+      seo_default_stv: 1000,
+      seo_default_ltv: 12500,
+      ads_default_avg_cpc: 9.5,
+    })
+    ;(prisma.domains.update as Mock).mockResolvedValue({ ...mockDomain, vertical: 'law_firm' })
+
+    await updateDomain('domain-123', 'user-123', { vertical: 'law_firm' })
+
+    const { data } = (prisma.domains.update as Mock).mock.calls[0]![0]
+    expect(data.vertical).toBe('law_firm')
+    expect(data.domain_settings.upsert.update).toEqual({
+      seo_default_website_conv_rate: 0.08,
+      seo_default_reception_rate: 0.5,
+      seo_default_attendance_rate: 0.9,
+      seo_default_referral_rate: 0.1,
+      seo_default_stv: 3500,
+    })
+  })
+
+  it('leaves funnel defaults alone when the vertical is unchanged', async () => {
+    ;(prisma.domains.findFirst as Mock).mockResolvedValue({ ...mockDomain, vertical: 'dental' })
+    ;(prisma.domains.update as Mock).mockResolvedValue({ ...mockDomain, vertical: 'dental' })
+
+    await updateDomain('domain-123', 'user-123', { vertical: 'dental' })
+
+    const { data } = (prisma.domains.update as Mock).mock.calls[0]![0]
+    expect(data.domain_settings).toBeUndefined()
+    expect(prisma.domain_settings.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('throws when user lacks admin access', async () => {
+    ;(prisma.domains.findFirst as Mock).mockResolvedValue(null)
+
+    await expect(
+      updateDomain('domain-123', 'analyst-user', { name: 'Updated Name' })
+    ).rejects.toThrow('Domain not found')
+    expect(prisma.domains.update).not.toHaveBeenCalled()
+  })
 })
 
 describe('archiveDomain', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    ;(prisma.domains.findFirst as Mock).mockResolvedValue(mockDomain)
   })
 
   it('sets domain status to ARCHIVED', async () => {
@@ -335,7 +403,6 @@ describe('archiveDomain', () => {
     expect(prisma.domains.update).toHaveBeenCalledWith({
       where: {
         id: 'domain-123',
-        user_id: 'user-123',
       },
       data: {
         status: 'ARCHIVED',
@@ -376,14 +443,14 @@ describe('getDomainToolCounts', () => {
     expect(prisma.audits.count).toHaveBeenCalledWith({
       where: {
         domain_id: 'domain-123',
-        userId: 'user-123',
+        domains: domainAccessWhere('user-123'),
       },
     })
 
     expect(prisma.local_campaigns.count).toHaveBeenCalledWith({
       where: {
         domain_id: 'domain-123',
-        user_id: 'user-123',
+        domains: domainAccessWhere('user-123'),
         status: 'ACTIVE',
       },
     })
@@ -391,7 +458,7 @@ describe('getDomainToolCounts', () => {
     expect(prisma.tracked_keywords.count).toHaveBeenCalledWith({
       where: {
         domain_id: 'domain-123',
-        user_id: 'user-123',
+        domains: domainAccessWhere('user-123'),
         is_active: true,
       },
     })
@@ -470,4 +537,36 @@ describe('updateDomainSettings', () => {
       },
     })
   })
+
+  it("assigns a profile from the domain's workspace", async () => {
+    ;(prisma.domains.findFirst as Mock).mockResolvedValue({
+      ...mockDomain,
+      workspace_id: 'workspace-1',
+    })
+    ;(prisma.seo_threshold_profiles.count as Mock).mockResolvedValue(1)
+    ;(prisma.domain_settings.update as Mock).mockResolvedValue({})
+
+    await updateDomainSettings('domain-123', 'user-123', { thresholdProfileId: 'profile-1' })
+
+    expect(prisma.seo_threshold_profiles.count).toHaveBeenCalledWith({
+      where: { id: 'profile-1', workspace_id: 'workspace-1' },
+    })
+    expect(prisma.domain_settings.update).toHaveBeenCalledWith({
+      where: { domain_id: 'domain-123' },
+      data: { threshold_profile_id: 'profile-1' },
+    })
+  })
+
+  it("rejects a profile outside the domain's workspace", async () => {
+    ;(prisma.domains.findFirst as Mock).mockResolvedValue({
+      ...mockDomain,
+      workspace_id: 'workspace-1',
+    })
+    ;(prisma.seo_threshold_profiles.count as Mock).mockResolvedValue(0)
+
+    await expect(
+      updateDomainSettings('domain-123', 'user-123', { thresholdProfileId: 'personal-profile' })
+    ).rejects.toThrow('Threshold profile not found')
+    expect(prisma.domain_settings.update).not.toHaveBeenCalled()
+  })
 })
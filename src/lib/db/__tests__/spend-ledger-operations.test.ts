@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for Spend Ledger Operations
+ *
+ * Tests for:
+ * - getBudgetPeriodStart
+ * - recordSpendEntry
+ * - checkDomainBudget / assertWithinBudget
+ */
+
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { NonRetriableError } from 'inngest'
+
+// Mock Prisma client
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    domain_settings: {
+      findUnique: vi.fn(),
+    },
+    dataforseo_spend_entries: {
+      create: vi.fn(),
+      aggregate: vi.fn(),
+    },
+  },
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  getBudgetPeriodStart,
+  recordSpendEntry,
+  checkDomainBudget,
+  assertWithinBudget,
+  BudgetExceededError,
+} from '../spend-ledger-operations'
+
+function mockBudget(budget: number | null, spent: number): void {
+  ;(prisma.domain_settings.findUnique as Mock).mockResolvedValue({ monthly_api_budget: budget })
+  ;(prisma.dataforseo_spend_entries.aggregate as Mock).mockResolvedValue({
+    _sum: { cost: spent },
+  })
+}
+
+describe('getBudgetPeriodStart', () => {
+  it('returns the first day of the month in UTC', () => {
+    const start = getBudgetPeriodStart(new Date('2026-03-17T22:45:00Z'))
+
+    expect(start.toISOString()).toBe('2026-03-01T00:00:00.000Z')
+  })
+})
+
+describe('recordSpendEntry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('stores the attributed cost', async () => {
+    await recordSpendEntry({
+      tool: 'keyword_tracking',
+      domainId: 'domain-123',
+      runId: 'run-1',
+      endpoint: 'v3/serp/google/organic/live/advanced',
+      cost: 0.002,
+    })
+
+    expect(prisma.dataforseo_spend_entries.create).toHaveBeenCalledWith({
+      data: {
+        domain_id: 'domain-123',
+        user_id: null,
+        tool: 'keyword_tracking',
+        run_id: 'run-1',
+        endpoint: 'v3/serp/google/organic/live/advanced',
+        cost: 0.002,
+      },
+    })
+  })
+})
+
+describe('checkDomainBudget', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('never caps domains without a budget', async () => {
+    mockBudget(null, 250)
+
+    const status = await checkDomainBudget('domain-123', 1000)
+
+    expect(status).toEqual({ budget: null, spent: 250, remaining: null, exceeded: false })
+  })
+
+  it('includes the estimated cost of upcoming work', async () => {
+    mockBudget(10, 9.5)
+
+    expect((await checkDomainBudget('domain-123', 0.4)).exceeded).toBe(false)
+    expect((await checkDomainBudget('domain-123', 0.6)).exceeded).toBe(true)
+  })
+
+  it('only counts spend from the current month', async () => {
+    mockBudget(10, 0)
+
+    await checkDomainBudget('domain-123')
+
+    expect(prisma.dataforseo_spend_entries.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { domain_id: 'domain-123', created_at: { gte: getBudgetPeriodStart() } },
+      })
+    )
+  })
+})
+
+describe('assertWithinBudget', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('skips work that is not linked to a domain', async () => {
+    await expect(assertWithinBudget(null, 100)).resolves.toBeUndefined()
+    expect(prisma.domain_settings.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('throws a non-retriable error when the budget would be exceeded', async () => {
+    mockBudget(5, 4.99)
+
+    const error = await assertWithinBudget('domain-123', 0.05).catch((e) => e)
+
+    expect(error).toBeInstanceOf(BudgetExceededError)
+    expect(error).toBeInstanceOf(NonRetriableError)
+    expect(error.message).toContain('$4.99 of $5.00')
+  })
+})
@@ -0,0 +1,372 @@
+/**
+ * Unit Tests for Workspace Operations
+ *
+ * Tests for:
+ * - role hierarchy helpers
+ * - domainAccessWhere
+ * - getDomainAccess / canAccessResource
+ * - updateMemberRole / removeMember
+ * - createInvitation / acceptInvitation
+ * - assignDomainToWorkspace
+ */
+
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+
+// Mock Prisma client
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    domains: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    domain_settings: {
+      updateMany: vi.fn(),
+    },
+    workspace_members: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      upsert: vi.fn(),
+    },
+    workspace_invitations: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  hasRequiredRole,
+  rolesAtLeast,
+  domainAccessWhere,
+  getDomainAccess,
+  canAccessResource,
+  updateMemberRole,
+  removeMember,
+  createInvitation,
+  acceptInvitation,
+  assignDomainToWorkspace,
+  WorkspaceError,
+} from '../workspace-operations'
+
+function mockActorRole(role: string | null): void {
+  ;(prisma.workspace_members.findUnique as Mock).mockResolvedValueOnce(role ? { role } : null)
+}
+
+describe('role helpers', () => {
+  it('ranks roles from OWNER down to READ_ONLY', () => {
+    expect(hasRequiredRole('OWNER', 'ADMIN')).toBe(true)
+    expect(hasRequiredRole('ANALYST', 'ANALYST')).toBe(true)
+    expect(hasRequiredRole('READ_ONLY', 'ANALYST')).toBe(false)
+  })
+
+  it('lists roles at or above the minimum', () => {
+    expect(rolesAtLeast('ADMIN').sort()).toEqual(['ADMIN', 'OWNER'])
+    expect(rolesAtLeast('READ_ONLY')).toHaveLength(4)
+  })
+})
+
+describe('domainAccessWhere', () => {
+  it('matches the creator or workspace members with a sufficient role', () => {
+    const where = domainAccessWhere('user-123', 'ANALYST')
+
+    expect(where.OR).toEqual([
+      { user_id: 'user-123' },
+      {
+        workspaces: {
+          members: {
+            some: { user_id: 'user-123', role: { in: expect.arrayContaining(['ANALYST']) } },
+          },
+        },
+      },
+    ])
+  })
+})
+
+describe('getDomainAccess', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('treats the domain creator as OWNER', async () => {
+    ;(prisma.domains.findUnique as Mock).mockResolvedValue({
+      id: 'domain-123',
+      domain: 'example.com',
+      user_id: 'user-123',
+      workspaces: null,
+    })
+
+    const access = await getDomainAccess('domain-123', 'user-123')
+
+    expect(access?.role).toBe('OWNER')
+  })
+
+  it('returns the workspace role for members', async () => {
+    ;(prisma.domains.findUnique as Mock).mockResolvedValue({
+      id: 'domain-123',
+      domain: 'example.com',
+      user_id: 'owner-1',
+      workspaces: { members: [{ role: 'READ_ONLY' }] },
+    })
+
+    const access = await getDomainAccess('domain-123', 'member-1')
+
+    expect(access?.role).toBe('READ_ONLY')
+  })
+
+  it('returns null for users outside the workspace', async () => {
+    ;(prisma.domains.findUnique as Mock).mockResolvedValue({
+      id: 'domain-123',
+      domain: 'example.com',
+      user_id: 'owner-1',
+      workspaces: { members: [] },
+    })
+
+    expect(await getDomainAccess('domain-123', 'stranger')).toBeNull()
+  })
+})
+
+describe('canAccessResource', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('keeps unassigned resources private to their creator', async () => {
+    expect(await canAccessResource({ userId: 'user-123', domainId: null }, 'user-123')).toBe(true)
+    expect(await canAccessResource({ userId: 'user-123', domainId: null }, 'other')).toBe(false)
+    expect(prisma.domains.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('checks the minimum role for domain-linked resources', async () => {
+    ;(prisma.domains.findUnique as Mock).mockResolvedValue({
+      id: 'domain-123',
+      domain: 'example.com',
+      user_id: 'owner-1',
+      workspaces: { members: [{ role: 'READ_ONLY' }] },
+    })
+
+    const resource = { userId: 'owner-1', domainId: 'domain-123' }
+
+    expect(await canAccessResource(resource, 'member-1')).toBe(true)
+    expect(await canAccessResource(resource, 'member-1', 'ANALYST')).toBe(false)
+  })
+})
+
+describe('updateMemberRole', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('rejects non-owners changing owner roles', async () => {
+    mockActorRole('ADMIN')
+    ;(prisma.workspace_members.findUnique as Mock).mockResolvedValueOnce({
+      id: 'member-1',
+      role: 'OWNER',
+    })
+
+    await expect(updateMemberRole('ws-1', 'admin-1', 'owner-1', 'ANALYST')).rejects.toThrow(
+      'Only owners can change owner roles'
+    )
+  })
+
+  it('prevents demoting the last owner', async () => {
+    mockActorRole('OWNER')
+    ;(prisma.workspace_members.findUnique as Mock).mockResolvedValueOnce({
+      id: 'member-1',
+      role: 'OWNER',
+    })
+    ;(prisma.workspace_members.count as Mock).mockResolvedValue(1)
+
+    await expect(updateMemberRole('ws-1', 'owner-1', 'owner-1', 'ADMIN')).rejects.toThrow(
+      'A workspace must have at least one owner'
+    )
+    expect(prisma.workspace_members.update).not.toHaveBeenCalled()
+  })
+
+  it('updates the role when permitted', async () => {
+    mockActorRole('ADMIN')
+    ;(prisma.workspace_members.findUnique as Mock).mockResolvedValueOnce({
+      id: 'member-2',
+      role: 'READ_ONLY',
+    })
+
+    await updateMemberRole('ws-1', 'admin-1', 'user-2', 'ANALYST')
+
+    expect(prisma.workspace_members.update).toHaveBeenCalledWith({
+      where: { id: 'member-2' },
+      data: { role: 'ANALYST' },
+    })
+  })
+})
+
+describe('removeMember', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('lets read-only members leave on their own', async () => {
+    mockActorRole('READ_ONLY')
+    ;(prisma.workspace_members.findUnique as Mock).mockResolvedValueOnce({
+      id: 'member-3',
+      role: 'READ_ONLY',
+    })
+
+    await removeMember('ws-1', 'user-3', 'user-3')
+
+    expect(prisma.workspace_members.delete).toHaveBeenCalledWith({ where: { id: 'member-3' } })
+  })
+
+  it('requires ADMIN to remove someone else', async () => {
+    mockActorRole('ANALYST')
+
+    const error = await removeMember('ws-1', 'user-2', 'user-3').catch((e) => e)
+
+    expect(error).toBeInstanceOf(WorkspaceError)
+    expect(error.status).toBe(403)
+  })
+})
+
+describe('createInvitation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('creates a normalized invitation and revokes pending duplicates', async () => {
+    mockActorRole('ADMIN')
+    ;(prisma.workspace_members.findFirst as Mock).mockResolvedValue(null)
+    ;(prisma.workspace_invitations.create as Mock).mockImplementation(({ data }) =>
+      Promise.resolve({
+        id: 'inv-1',
+        created_at: new Date(),
+        accepted_at: null,
+        revoked_at: null,
+        ...data,
+      })
+    )
+
+    const invitation = await createInvitation('ws-1', 'admin-1', {
+      email: ' New@Agency.com ',
+      role: 'ANALYST',
+    })
+
+    expect(prisma.workspace_invitations.updateMany).toHaveBeenCalled()
+    expect(invitation.email).toBe('new@agency.com')
+    expect(invitation.token).toMatch(/^[a-f0-9]{64}$/)
+    expect(invitation.expiresAt.getTime()).toBeGreaterThan(Date.now())
+  })
+
+  it('only lets owners invite owners', async () => {
+    mockActorRole('ADMIN')
+
+    await expect(
+      createInvitation('ws-1', 'admin-1', { email: 'a@b.com', role: 'OWNER' })
+    ).rejects.toThrow('Only owners can invite owners')
+  })
+})
+
+describe('acceptInvitation', () => {
+  const baseInvitation = {
+    id: 'inv-1',
+    workspace_id: 'ws-1',
+    email: 'new@agency.com',
+    role: 'ANALYST',
+    accepted_at: null,
+    revoked_at: null,
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('adds the member and marks the invitation accepted', async () => {
+    ;(prisma.workspace_invitations.findUnique as Mock).mockResolvedValue({
+      ...baseInvitation,
+      expires_at: new Date(Date.now() + 60_000),
+    })
+
+    const result = await acceptInvitation('token', { id: 'user-9', email: 'New@Agency.com' })
+
+    expect(result).toEqual({ workspaceId: 'ws-1', role: 'ANALYST' })
+    expect(prisma.$transaction).toHaveBeenCalled()
+  })
+
+  it('rejects expired invitations', async () => {
+    ;(prisma.workspace_invitations.findUnique as Mock).mockResolvedValue({
+      ...baseInvitation,
+      expires_at: new Date(Date.now() - 60_000),
+    })
+
+    await expect(
+      acceptInvitation('token', { id: 'user-9', email: 'new@agency.com' })
+    ).rejects.toThrow('Invitation has expired')
+  })
+
+  it('rejects a different email address', async () => {
+    ;(prisma.workspace_invitations.findUnique as Mock).mockResolvedValue({
+      ...baseInvitation,
+      expires_at: new Date(Date.now() + 60_000),
+    })
+
+    await expect(
+      acceptInvitation('token', { id: 'user-9', email: 'someone@else.com' })
+    ).rejects.toThrow('Invitation was sent to a different email address')
+  })
+})
+
+describe('assignDomainToWorkspace', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(prisma.domains.findUnique as Mock).mockResolvedValue({
+      id: 'domain-123',
+      domain: 'example.com',
+      user_id: 'user-123',
+      workspaces: null,
+    })
+    ;(prisma.domains.update as Mock).mockResolvedValue({ user_id: 'user-123' })
+  })
+
+  it("unassigns a threshold profile that isn't the new workspace's", async () => {
+    mockActorRole('ADMIN')
+
+    await assignDomainToWorkspace('domain-123', 'user-123', 'ws-1')
+
+    expect(prisma.domain_settings.updateMany).toHaveBeenCalledWith({
+      where: {
+        domain_id: 'domain-123',
+        threshold_profile: {
+          is: { OR: [{ workspace_id: null }, { workspace_id: { not: 'ws-1' } }] },
+        },
+      },
+      data: { threshold_profile_id: null },
+    })
+  })
+
+  it("unassigns a threshold profile that isn't the owner's when made private", async () => {
+    await assignDomainToWorkspace('domain-123', 'user-123', null)
+
+    expect(prisma.domain_settings.updateMany).toHaveBeenCalledWith({
+      where: {
+        domain_id: 'domain-123',
+        threshold_profile: {
+          is: { OR: [{ user_id: null }, { user_id: { not: 'user-123' } }] },
+        },
+      },
+      data: { threshold_profile_id: null },
+    })
+  })
+
+  it('rejects workspaces where the user is not an admin', async () => {
+    mockActorRole('ANALYST')
+
+    await expect(assignDomainToWorkspace('domain-123', 'user-123', 'ws-1')).rejects.toThrow(
+      'Insufficient workspace permissions'
+    )
+    expect(prisma.domains.update).not.toHaveBeenCalled()
+  })
+})
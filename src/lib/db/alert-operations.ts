@@ -0,0 +1,559 @@
+/**
+ * Alert Operations
+ *
+ * Per-domain alert rules, the alert events they produce, and the evaluation
+ * entry points called when keyword tracking runs, grid scans and site audits
+ * finish. Snoozing an event also holds back delivery of new events from the
+ * same rule until the snooze expires.
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  AlertEventStatus,
+  GridScanStatus,
+  Prisma,
+  type AlertRuleType,
+  type WorkspaceRole,
+} from '@prisma/client'
+import {
+  evaluateRankDrop,
+  evaluateShareOfVoiceDrop,
+  evaluateNew4xxPages,
+  evaluateNewSiteErrors,
+  type AlertMatch,
+  type AlertRuleConfig,
+  type RankResult,
+} from '@/lib/alerts/rules'
+import type { DeliverableAlert, DeliveryResult } from '@/lib/alerts/delivery'
+import { assertPublicUrl, PublicUrlError } from '@/lib/utils/public-url'
+import { domainAccessWhere } from './workspace-operations'
+import { compareScans, getPreviousCompletedScan } from './site-audit-operations'
+
+export class AlertRuleError extends Error {
+  public status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'AlertRuleError'
+    this.status = status
+  }
+}
+
+// ============================================
+// Types
+// ============================================
+
+export interface AlertRule {
+  id: string
+  domainId: string
+  name: string
+  type: AlertRuleType
+  threshold: number
+  isEnabled: boolean
+  emailRecipients: string[]
+  webhookUrl: string | null
+  lastTriggeredAt: Date | null
+  createdAt: Date
+}
+
+export interface AlertRuleInput {
+  name: string
+  type: AlertRuleType
+  threshold: number
+  isEnabled?: boolean
+  emailRecipients?: string[]
+  webhookUrl?: string | null
+}
+
+export interface AlertEvent {
+  id: string
+  ruleId: string
+  ruleName: string
+  domainId: string
+  type: AlertRuleType
+  sourceRunId: string | null
+  title: string
+  message: string
+  details: unknown
+  status: AlertEventStatus
+  snoozedUntil: Date | null
+  acknowledgedAt: Date | null
+  deliveredAt: Date | null
+  deliveryError: string | null
+  createdAt: Date
+}
+
+export type AlertEventFilter = 'active' | 'all' | AlertEventStatus
+
+// ============================================
+// Mappers
+// ============================================
+
+function mapRule(rule: {
+  id: string
+  domain_id: string
+  name: string
+  type: AlertRuleType
+  threshold: Prisma.Decimal
+  is_enabled: boolean
+  email_recipients: string[]
+  webhook_url: string | null
+  last_triggered_at: Date | null
+  created_at: Date
+}): AlertRule {
+  return {
+    id: rule.id,
+    domainId: rule.domain_id,
+    name: rule.name,
+    type: rule.type,
+    threshold: Number(rule.threshold),
+    isEnabled: rule.is_enabled,
+    emailRecipients: rule.email_recipients,
+    webhookUrl: rule.webhook_url,
+    lastTriggeredAt: rule.last_triggered_at,
+    createdAt: rule.created_at,
+  }
+}
+
+const eventInclude = { rule: { select: { name: true } } } as const
+
+function mapEvent(
+  event: Prisma.alert_eventsGetPayload<{ include: typeof eventInclude }>
+): AlertEvent {
+  return {
+    id: event.id,
+    ruleId: event.rule_id,
+    ruleName: event.rule.name,
+    domainId: event.domain_id,
+    type: event.type,
+    sourceRunId: event.source_run_id,
+    title: event.title,
+    message: event.message,
+    details: event.details,
+    status: event.status,
+    snoozedUntil: event.snoozed_until,
+    acknowledgedAt: event.acknowledged_at,
+    deliveredAt: event.delivered_at,
+    deliveryError: event.delivery_error,
+    createdAt: event.created_at,
+  }
+}
+
+// ============================================
+// Rule Operations
+// ============================================
+
+/**
+ * List alert rules for a domain
+ */
+export async function listAlertRules(domainId: string): Promise<AlertRule[]> {
+  const rules = await prisma.alert_rules.findMany({
+    where: { domain_id: domainId },
+    orderBy: { created_at: 'asc' },
+  })
+
+  return rules.map(mapRule)
+}
+
+/**
+ * Get a rule if the user can access its domain with at least `minRole`
+ */
+export async function getAlertRuleForUser(
+  ruleId: string,
+  userId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
+): Promise<AlertRule | null> {
+  const rule = await prisma.alert_rules.findFirst({
+    where: { id: ruleId, domain: domainAccessWhere(userId, minRole) },
+  })
+
+  return rule ? mapRule(rule) : null
+}
+
+/**
+ * Reject webhook URLs whose host doesn't resolve, or resolves to a private
+ * address. Delivery checks again, since DNS can change after saving.
+ */
+async function assertDeliverableWebhookUrl(url: string | null | undefined): Promise<void> {
+  if (!url) return
+
+  try {
+    await assertPublicUrl(url)
+  } catch (error) {
+    throw new AlertRuleError(
+      error instanceof PublicUrlError
+        ? 'Webhook URL must point to a public address'
+        : 'Webhook URL host could not be resolved',
+      400
+    )
+  }
+}
+
+/**
+ * Create an alert rule
+ */
+export async function createAlertRule(
+  domainId: string,
+  userId: string,
+  input: AlertRuleInput
+): Promise<AlertRule> {
+  await assertDeliverableWebhookUrl(input.webhookUrl)
+
+  const rule = await prisma.alert_rules.create({
+    data: {
+      domain_id: domainId,
+      created_by: userId,
+      name: input.name,
+      type: input.type,
+      threshold: input.threshold,
+      is_enabled: input.isEnabled ?? true,
+      email_recipients: input.emailRecipients ?? [],
+      webhook_url: input.webhookUrl ?? null,
+    },
+  })
+
+  return mapRule(rule)
+}
+
+/**
+ * Update an alert rule
+ */
+export async function updateAlertRule(
+  ruleId: string,
+  input: Partial<AlertRuleInput>
+): Promise<AlertRule> {
+  await assertDeliverableWebhookUrl(input.webhookUrl)
+
+  const rule = await prisma.alert_rules.update({
+    where: { id: ruleId },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.type !== undefined && { type: input.type }),
+      ...(input.threshold !== undefined && { threshold: input.threshold }),
+      ...(input.isEnabled !== undefined && { is_enabled: input.isEnabled }),
+      ...(input.emailRecipients !== undefined && { email_recipients: input.emailRecipients }),
+      ...(input.webhookUrl !== undefined && { webhook_url: input.webhookUrl }),
+    },
+  })
+
+  return mapRule(rule)
+}
+
+/**
+ * Delete an alert rule and its events
+ */
+export async function deleteAlertRule(ruleId: string): Promise<void> {
+  await prisma.alert_rules.delete({ where: { id: ruleId } })
+}
+
+// ============================================
+// Event Operations
+// ============================================
+
+/**
+ * Prisma filter for events that still need attention:
+ * open, or snoozed with an expired snooze
+ */
+function activeEventWhere(now: Date = new Date()): Prisma.alert_eventsWhereInput {
+  return {
+    OR: [
+      { status: AlertEventStatus.OPEN },
+      { status: AlertEventStatus.SNOOZED, snoozed_until: { lte: now } },
+    ],
+  }
+}
+
+/**
+ * List alert events for a domain, newest first
+ */
+export async function listAlertEvents(
+  domainId: string,
+  options?: { filter?: AlertEventFilter; limit?: number; offset?: number }
+): Promise<AlertEvent[]> {
+  const filter = options?.filter ?? 'active'
+  const statusWhere =
+    filter === 'all' ? {} : filter === 'active' ? activeEventWhere() : { status: filter }
+
+  const events = await prisma.alert_events.findMany({
+    where: { domain_id: domainId, ...statusWhere },
+    include: eventInclude,
+    orderBy: { created_at: 'desc' },
+    take: options?.limit ?? 50,
+    skip: options?.offset ?? 0,
+  })
+
+  return events.map(mapEvent)
+}
+
+/**
+ * Count events that still need attention (for badges)
+ */
+export async function countActiveAlertEvents(domainId: string): Promise<number> {
+  return prisma.alert_events.count({
+    where: { domain_id: domainId, ...activeEventWhere() },
+  })
+}
+
+/**
+ * Get an event if the user can access its domain with at least `minRole`
+ */
+export async function getAlertEventForUser(
+  eventId: string,
+  userId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
+): Promise<AlertEvent | null> {
+  const event = await prisma.alert_events.findFirst({
+    where: { id: eventId, domain: domainAccessWhere(userId, minRole) },
+    include: eventInclude,
+  })
+
+  return event ? mapEvent(event) : null
+}
+
+/**
+ * Acknowledge an event
+ */
+export async function acknowledgeAlertEvent(eventId: string, userId: string): Promise<AlertEvent> {
+  const event = await prisma.alert_events.update({
+    where: { id: eventId },
+    data: {
+      status: AlertEventStatus.ACKNOWLEDGED,
+      acknowledged_at: new Date(),
+      acknowledged_by: userId,
+      snoozed_until: null,
+    },
+    include: eventInclude,
+  })
+
+  return mapEvent(event)
+}
+
+/**
+ * Snooze an event until the given time
+ */
+export async function snoozeAlertEvent(eventId: string, until: Date): Promise<AlertEvent> {
+  const event = await prisma.alert_events.update({
+    where: { id: eventId },
+    data: { status: AlertEventStatus.SNOOZED, snoozed_until: until },
+    include: eventInclude,
+  })
+
+  return mapEvent(event)
+}
+
+/**
+ * Move an acknowledged or snoozed event back to open
+ */
+export async function reopenAlertEvent(eventId: string): Promise<AlertEvent> {
+  const event = await prisma.alert_events.update({
+    where: { id: eventId },
+    data: {
+      status: AlertEventStatus.OPEN,
+      snoozed_until: null,
+      acknowledged_at: null,
+      acknowledged_by: null,
+    },
+    include: eventInclude,
+  })
+
+  return mapEvent(event)
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+async function getEnabledRules(
+  domainId: string,
+  types: AlertRuleType[]
+): Promise<AlertRuleConfig[]> {
+  const rules = await prisma.alert_rules.findMany({
+    where: { domain_id: domainId, is_enabled: true, type: { in: types } },
+    select: { id: true, name: true, type: true, threshold: true },
+  })
+
+  return rules.map((r) => ({ ...r, threshold: Number(r.threshold) }))
+}
+
+/**
+ * Store matched rules as alert events.
+ * Returns the IDs of events to deliver (events from snoozed rules are stored but not sent).
+ */
+async function recordAlertMatches(
+  domainId: string,
+  sourceRunId: string,
+  matches: Array<{ rule: AlertRuleConfig; match: AlertMatch }>
+): Promise<string[]> {
+  const toDeliver: string[] = []
+  const now = new Date()
+
+  for (const { rule, match } of matches) {
+    const snoozed = await prisma.alert_events.count({
+      where: {
+        rule_id: rule.id,
+        status: AlertEventStatus.SNOOZED,
+        snoozed_until: { gt: now },
+      },
+    })
+
+    const event = await prisma.alert_events.create({
+      data: {
+        rule_id: rule.id,
+        domain_id: domainId,
+        type: rule.type,
+        source_run_id: sourceRunId,
+        title: match.title.slice(0, 500),
+        message: match.message,
+        details: match.details as Prisma.InputJsonValue,
+      },
+      select: { id: true },
+    })
+
+    await prisma.alert_rules.update({
+      where: { id: rule.id },
+      data: { last_triggered_at: now },
+    })
+
+    if (snoozed === 0) toDeliver.push(event.id)
+  }
+
+  return toDeliver
+}
+
+/**
+ * Evaluate RANK_DROP rules against a finished keyword tracking run
+ */
+export async function evaluateKeywordTrackingAlerts(
+  domainId: string,
+  runId: string,
+  results: RankResult[]
+): Promise<string[]> {
+  const rules = await getEnabledRules(domainId, ['RANK_DROP'])
+  if (rules.length === 0) return []
+
+  const matches = rules.flatMap((rule) => {
+    const match = evaluateRankDrop(rule, results)
+    return match ? [{ rule, match }] : []
+  })
+
+  return recordAlertMatches(domainId, runId, matches)
+}
+
+/**
+ * Evaluate SHARE_OF_VOICE_DROP rules against a finished grid scan,
+ * comparing with the campaign's previous completed scan
+ */
+export async function evaluateGridScanAlerts(campaignId: string, scanId: string): Promise<string[]> {
+  const campaign = await prisma.local_campaigns.findUnique({
+    where: { id: campaignId },
+    select: { domain_id: true, business_name: true },
+  })
+  if (!campaign?.domain_id) return []
+
+  const rules = await getEnabledRules(campaign.domain_id, ['SHARE_OF_VOICE_DROP'])
+  if (rules.length === 0) return []
+
+  const [scan, previous] = await Promise.all([
+    prisma.grid_scans.findUnique({ where: { id: scanId }, select: { share_of_voice: true } }),
+    prisma.grid_scans.findFirst({
+      where: { campaign_id: campaignId, status: GridScanStatus.COMPLETED, id: { not: scanId } },
+      orderBy: { completed_at: 'desc' },
+      select: { share_of_voice: true },
+    }),
+  ])
+
+  const input = {
+    campaignName: campaign.business_name,
+    shareOfVoice: scan?.share_of_voice != null ? Number(scan.share_of_voice) : null,
+    previousShareOfVoice: previous?.share_of_voice != null ? Number(previous.share_of_voice) : null,
+  }
+
+  const matches = rules.flatMap((rule) => {
+    const match = evaluateShareOfVoiceDrop(rule, input)
+    return match ? [{ rule, match }] : []
+  })
+
+  return recordAlertMatches(campaign.domain_id, scanId, matches)
+}
+
+/**
+ * Evaluate NEW_4XX_PAGES and NEW_SITE_ERRORS rules against a finished crawl,
+ * diffing it with the domain's previous completed crawl
+ */
+export async function evaluateSiteAuditAlerts(scanId: string): Promise<string[]> {
+  const scan = await prisma.site_audit_scans.findUnique({
+    where: { id: scanId },
+    select: { id: true, domain_id: true, created_at: true, completed_at: true },
+  })
+  if (!scan?.domain_id) return []
+
+  const rules = await getEnabledRules(scan.domain_id, ['NEW_4XX_PAGES', 'NEW_SITE_ERRORS'])
+  if (rules.length === 0) return []
+
+  const previous = await getPreviousCompletedScan(scanId)
+  if (!previous) return []
+
+  const base = await prisma.site_audit_scans.findUnique({
+    where: { id: previous.id },
+    select: { id: true, created_at: true, completed_at: true },
+  })
+  if (!base) return []
+
+  const { diff } = await compareScans(base, scan)
+
+  const matches = rules.flatMap((rule) => {
+    const match =
+      rule.type === 'NEW_4XX_PAGES' ? evaluateNew4xxPages(rule, diff) : evaluateNewSiteErrors(rule, diff)
+    return match ? [{ rule, match }] : []
+  })
+
+  return recordAlertMatches(scan.domain_id, scanId, matches)
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+/**
+ * Load an event with its rule's channels for delivery
+ */
+export async function getDeliverableAlert(eventId: string): Promise<DeliverableAlert | null> {
+  const event = await prisma.alert_events.findUnique({
+    where: { id: eventId },
+    include: {
+      rule: { select: { name: true, email_recipients: true, webhook_url: true } },
+      domain: { select: { domain: true } },
+    },
+  })
+
+  if (!event) return null
+
+  return {
+    id: event.id,
+    type: event.type,
+    title: event.title,
+    message: event.message,
+    details: event.details,
+    domainId: event.domain_id,
+    domain: event.domain.domain,
+    ruleName: event.rule.name,
+    emailRecipients: event.rule.email_recipients,
+    webhookUrl: event.rule.webhook_url,
+    createdAt: event.created_at,
+  }
+}
+
+/**
+ * Record the outcome of a delivery attempt
+ */
+export async function markAlertDelivered(eventId: string, result: DeliveryResult): Promise<void> {
+  const delivered = result.emailSent || result.webhookSent
+
+  await prisma.alert_events.update({
+    where: { id: eventId },
+    data: {
+      ...(delivered && { delivered_at: new Date() }),
+      delivery_error: result.errors.length > 0 ? result.errors.join('; ').slice(0, 1000) : null,
+    },
+  })
+}
@@ -0,0 +1,224 @@
+/**
+ * API Key Operations
+ *
+ * Keys for the public /api/v1 surface. A key acts as the user who created it,
+ * limited to its scopes and, optionally, to the domains of one workspace.
+ */
+
+import type { ApiKeyScope, Prisma, WorkspaceRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { generateApiKey, hashApiKey } from '@/lib/public-api/keys'
+import { domainAccessWhere, getWorkspaceRole } from './workspace-operations'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Skip last-used writes for keys used within this window */
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+export class ApiKeyError extends Error {
+  public status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ApiKeyError'
+    this.status = status
+  }
+}
+
+export interface ApiKey {
+  id: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  workspaceId: string | null
+  workspaceName: string | null
+  rateLimit: number
+  lastUsedAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+export interface CreateApiKeyInput {
+  name: string
+  scopes: ApiKeyScope[]
+  workspaceId?: string | null
+  expiresInDays?: number | null
+}
+
+/**
+ * The caller behind an authenticated API request
+ */
+export interface ApiKeyPrincipal {
+  keyId: string
+  userId: string
+  workspaceId: string | null
+  scopes: ApiKeyScope[]
+  rateLimit: number
+}
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  key_prefix: true,
+  scopes: true,
+  workspace_id: true,
+  rate_limit: true,
+  last_used_at: true,
+  expires_at: true,
+  revoked_at: true,
+  created_at: true,
+  workspace: { select: { name: true } },
+} satisfies Prisma.api_keysSelect
+
+function mapApiKey(key: Prisma.api_keysGetPayload<{ select: typeof apiKeySelect }>): ApiKey {
+  return {
+    id: key.id,
+    name: key.name,
+    prefix: key.key_prefix,
+    scopes: key.scopes,
+    workspaceId: key.workspace_id,
+    workspaceName: key.workspace?.name ?? null,
+    rateLimit: key.rate_limit,
+    lastUsedAt: key.last_used_at,
+    expiresAt: key.expires_at,
+    revokedAt: key.revoked_at,
+    createdAt: key.created_at,
+  }
+}
+
+/**
+ * Create a key. The plaintext key is only available in the return value.
+ */
+export async function createApiKey(
+  userId: string,
+  input: CreateApiKeyInput
+): Promise<{ apiKey: ApiKey; key: string }> {
+  if (input.workspaceId) {
+    const role = await getWorkspaceRole(input.workspaceId, userId)
+    if (!role) {
+      throw new ApiKeyError('Workspace not found', 404)
+    }
+  }
+
+  const { key, prefix, hash } = generateApiKey()
+
+  const created = await prisma.api_keys.create({
+    data: {
+      user_id: userId,
+      workspace_id: input.workspaceId ?? null,
+      name: input.name,
+      key_prefix: prefix,
+      key_hash: hash,
+      scopes: [...new Set(input.scopes)],
+      expires_at: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * DAY_MS) : null,
+    },
+    select: apiKeySelect,
+  })
+
+  return { apiKey: mapApiKey(created), key }
+}
+
+/**
+ * List the user's keys, newest first
+ */
+export async function listApiKeys(userId: string): Promise<ApiKey[]> {
+  const keys = await prisma.api_keys.findMany({
+    where: { user_id: userId },
+    orderBy: { created_at: 'desc' },
+    select: apiKeySelect,
+  })
+
+  return keys.map(mapApiKey)
+}
+
+/**
+ * Revoke one of the user's keys. Requests using it fail immediately.
+ */
+export async function revokeApiKey(keyId: string, userId: string): Promise<void> {
+  const key = await prisma.api_keys.findFirst({
+    where: { id: keyId, user_id: userId },
+    select: { revoked_at: true },
+  })
+
+  if (!key) {
+    throw new ApiKeyError('API key not found', 404)
+  }
+
+  if (!key.revoked_at) {
+    await prisma.api_keys.update({
+      where: { id: keyId },
+      data: { revoked_at: new Date() },
+    })
+  }
+}
+
+/**
+ * Resolve a plaintext key to its principal, or null when the key is unknown,
+ * revoked or expired
+ */
+export async function authenticateApiKey(
+  key: string,
+  now: Date = new Date()
+): Promise<ApiKeyPrincipal | null> {
+  const record = await prisma.api_keys.findUnique({
+    where: { key_hash: hashApiKey(key) },
+    select: {
+      id: true,
+      user_id: true,
+      workspace_id: true,
+      scopes: true,
+      rate_limit: true,
+      last_used_at: true,
+      expires_at: true,
+      revoked_at: true,
+    },
+  })
+
+  if (!record || record.revoked_at) return null
+  if (record.expires_at && record.expires_at <= now) return null
+
+  if (
+    !record.last_used_at ||
+    now.getTime() - record.last_used_at.getTime() > LAST_USED_RESOLUTION_MS
+  ) {
+    await prisma.api_keys.update({
+      where: { id: record.id },
+      data: { last_used_at: now },
+    })
+  }
+
+  return {
+    keyId: record.id,
+    userId: record.user_id,
+    workspaceId: record.workspace_id,
+    scopes: record.scopes,
+    rateLimit: record.rate_limit,
+  }
+}
+
+/**
+ * Prisma filter for domains a key may act on with at least `minRole`:
+ * the owner's own access, narrowed to the key's workspace when it has one
+ */
+export function apiDomainWhere(
+  principal: ApiKeyPrincipal,
+  minRole: WorkspaceRole = 'READ_ONLY'
+): Prisma.domainsWhereInput {
+  const access = domainAccessWhere(principal.userId, minRole)
+
+  return principal.workspaceId ? { AND: [access, { workspace_id: principal.workspaceId }] } : access
+}
+
+/**
+ * Find an active domain the key may act on
+ */
+export async function findApiDomain(
+  principal: ApiKeyPrincipal,
+  domainId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
+) {
+  return prisma.domains.findFirst({
+    where: { id: domainId, status: 'ACTIVE', ...apiDomainWhere(principal, minRole) },
+  })
+}
@@ -14,6 +14,7 @@ import type {
   AuditStepErrors,
 } from '@/types/audit'
 import { type ErrorCategory } from '@/lib/dataforseo/types'
+import { domainAccessWhere } from './workspace-operations'
 
 /**
  * Step results JSON structure stored in database
@@ -52,7 +53,7 @@ export async function createAudit(params: {
   let domainId = params.domainId
   if (!domainId) {
     const domainRecord = await prisma.domains.findFirst({
-      where: { user_id: params.userId, domain: cleanedDomain },
+      where: { domain: cleanedDomain, ...domainAccessWhere(params.userId, 'ANALYST') },
       select: { id: true },
     })
     if (domainRecord) {
@@ -298,10 +299,17 @@ export async function getUserAudits(params: {
     }
   }
 
-  const where = {
-    userId: params.userId,
+  // Own unassigned audits plus audits on domains the user can access through a workspace
+  const accessFilter: Prisma.auditsWhereInput = {
+    OR: [
+      { userId: params.userId, domain_id: null },
+      { domains: domainAccessWhere(params.userId) },
+    ],
+  }
+
+  const where: Prisma.auditsWhereInput = {
+    AND: [accessFilter, domainFilter],
     ...(params.status && { status: params.status }),
-    ...domainFilter,
   }
 
   const [audits, total] = await Promise.all([
@@ -456,6 +464,7 @@ export async function getFullAuditResult(auditId: string) {
   return {
     id: audit.id,
     userId: audit.userId,
+    domainId: audit.domain_id,
     domain: audit.domain,
     status: audit.status,
     progress: audit.progress,
@@ -3,11 +3,43 @@
  *
  * Domain-scoped backlink profile CRUD operations.
  * Used by `/api/backlinks/` routes and backlinks pages.
+ *
+ * Each refresh stores a new dated profile snapshot; the latest one is the
+ * domain's current profile and older ones feed the history and trend views.
+ * Old snapshots keep their metrics but drop their referring domains.
  */
 
 import { prisma } from '@/lib/prisma'
+import type { LostBacklinkStatus } from '@prisma/client'
 import { getDataForSEOClient } from '@/lib/dataforseo'
 import { BacklinksModule } from '@/lib/dataforseo/modules/backlinks'
+import { verifyLinkProspects } from './link-prospect-operations'
+import {
+  diffReferringDomains,
+  diffSnapshots,
+  findLostHighRankDomains,
+  normalizeDomain,
+  type BacklinkSnapshot,
+  type BacklinkTrendPoint,
+  type ReferringDomainDiff,
+} from '@/lib/seo/backlink-history'
+
+/** Referring domains stored per snapshot (top by rank); diffs beyond this are partial */
+const SNAPSHOT_REFERRING_DOMAINS_LIMIT = 1000
+
+/**
+ * Snapshots older than this lose their stored referring domains, except the
+ * domain's two latest snapshots, which lost link detection and the default
+ * snapshot diff compare
+ */
+const SNAPSHOT_REFERRING_DOMAINS_RETENTION_DAYS = 90
+
+/** Window for the profile's new/lost referring domain counts */
+const VELOCITY_WINDOW_DAYS = 30
+
+/** Monitoring defaults for domains without settings */
+const DEFAULT_MONITOR_INTERVAL_DAYS = 7
+const DEFAULT_LOST_LINK_MIN_RANK = 200
 
 // ============================================
 // Types
@@ -87,6 +119,47 @@ export interface AnchorInput {
   nofollow?: number
 }
 
+export interface BacklinkSnapshotSummary {
+  id: string
+  fetchedAt: string
+  totalBacklinks: number
+  referringDomainsCount: number
+  domainRank: number
+  spamScore: number
+}
+
+export interface BacklinkSnapshotDiff extends ReferringDomainDiff<ReferringDomain> {
+  from: BacklinkSnapshotSummary
+  to: BacklinkSnapshotSummary
+}
+
+export interface LostBacklink {
+  id: string
+  domainId: string
+  profileId: string
+  referringDomain: string
+  domainRank: number
+  backlinks: number
+  dofollow: boolean
+  firstSeen: string | null
+  lastSeenAt: string
+  status: LostBacklinkStatus
+  detectedAt: string
+  resolvedAt: string | null
+}
+
+export interface BacklinkMonitorTarget {
+  domainId: string
+  domain: string
+  lastFetchedAt: string | null
+}
+
+export interface BacklinkRefreshResult {
+  profile: BacklinkProfile
+  lost: LostBacklink[]
+  reclaimed: number
+}
+
 // ============================================
 // Profile Operations
 // ============================================
@@ -98,8 +171,9 @@ export async function getBacklinkProfile(
   domainId: string,
   includeDetails: boolean = false
 ): Promise<BacklinkProfile | null> {
-  const profile = await prisma.backlink_profiles.findUnique({
+  const profile = await prisma.backlink_profiles.findFirst({
     where: { domain_id: domainId },
+    orderBy: { fetched_at: 'desc' },
     include: {
       referring_domains: includeDetails
         ? {
@@ -122,17 +196,25 @@ export async function getBacklinkProfile(
 }
 
 /**
- * Save or update backlink profile for a domain
+ * Store a new backlink profile snapshot for a domain. New/lost referring
+ * domain counts are computed against the snapshot from ~30 days earlier when
+ * the caller doesn't provide them, and against the previous snapshot for the
+ * trend view. Referring domains of snapshots past retention are pruned.
  */
 export async function saveBacklinkProfile(
   input: BacklinkProfileInput,
-  referringDomains?: ReferringDomainInput[],
-  anchors?: AnchorInput[]
+  referringDomains: ReferringDomainInput[] = [],
+  anchors: AnchorInput[] = []
 ): Promise<BacklinkProfile> {
-  // Upsert the profile
-  const profile = await prisma.backlink_profiles.upsert({
-    where: { domain_id: input.domainId },
-    create: {
+  const fetchedAt = new Date()
+  const velocity =
+    input.newReferring30d == null && input.lostReferring30d == null && referringDomains.length > 0
+      ? await getReferringVelocity(input.domainId, referringDomains, fetchedAt)
+      : null
+  const sincePrevious = await diffWithPreviousSnapshot(input, referringDomains)
+
+  const profile = await prisma.backlink_profiles.create({
+    data: {
       domain_id: input.domainId,
       total_backlinks: input.totalBacklinks,
       referring_domains_count: input.referringDomainsCount,
@@ -144,69 +226,131 @@ export async function saveBacklinkProfile(
       nofollow_backlinks: input.nofollowBacklinks ?? 0,
       new_backlinks_30d: input.newBacklinks30d,
       lost_backlinks_30d: input.lostBacklinks30d,
-      new_referring_30d: input.newReferring30d,
-      lost_referring_30d: input.lostReferring30d,
-      fetched_at: new Date(),
+      new_referring_30d: velocity?.newDomains ?? input.newReferring30d,
+      lost_referring_30d: velocity?.lostDomains ?? input.lostReferring30d,
+      new_referring_since_previous: sincePrevious?.newDomains.length ?? null,
+      lost_referring_since_previous: sincePrevious?.lostDomains.length ?? null,
+      referring_diff_partial: sincePrevious?.partial ?? false,
+      fetched_at: fetchedAt,
+      referring_domains: {
+        createMany: {
+          data: referringDomains.map((rd) => ({
+            domain: rd.domain,
+            backlinks: rd.backlinks,
+            domain_rank: rd.domainRank,
+            first_seen: rd.firstSeen,
+            dofollow: rd.dofollow ?? 0,
+            nofollow: rd.nofollow ?? 0,
+          })),
+        },
+      },
+      anchors: {
+        createMany: {
+          data: anchors.map((a) => ({
+            anchor: a.anchor,
+            backlinks: a.backlinks,
+            referring_domains: a.referringDomains ?? 0,
+            dofollow: a.dofollow ?? 0,
+            nofollow: a.nofollow ?? 0,
+          })),
+        },
+      },
     },
-    update: {
-      total_backlinks: input.totalBacklinks,
-      referring_domains_count: input.referringDomainsCount,
-      domain_rank: input.domainRank,
-      spam_score: input.spamScore,
-      target_spam_score: input.targetSpamScore,
-      dofollow_ratio: input.dofollowRatio,
-      dofollow_backlinks: input.dofollowBacklinks ?? 0,
-      nofollow_backlinks: input.nofollowBacklinks ?? 0,
-      new_backlinks_30d: input.newBacklinks30d,
-      lost_backlinks_30d: input.lostBacklinks30d,
-      new_referring_30d: input.newReferring30d,
-      lost_referring_30d: input.lostReferring30d,
-      fetched_at: new Date(),
+  })
+
+  await pruneSnapshotReferringDomains(input.domainId)
+
+  return transformProfile(profile)
+}
+
+/**
+ * Diff the referring domains being saved with the latest snapshot that has
+ * stored domains. Null when there's no such snapshot or the new one's
+ * referring domain fetch failed.
+ */
+async function diffWithPreviousSnapshot(
+  input: BacklinkProfileInput,
+  referringDomains: ReferringDomainInput[]
+): Promise<ReferringDomainDiff<{ domain: string }> | null> {
+  const previous = await prisma.backlink_profiles.findFirst({
+    where: {
+      domain_id: input.domainId,
+      OR: [{ referring_domains: { some: {} } }, { referring_domains_count: 0 }],
     },
+    orderBy: { fetched_at: 'desc' },
+    select: snapshotSelect,
   })
+  if (!previous) return null
 
-  // If referring domains provided, delete old and insert new
-  if (referringDomains && referringDomains.length > 0) {
-    await prisma.backlink_referring_domains.deleteMany({
-      where: { profile_id: profile.id },
-    })
+  const fetchFailed = referringDomains.length === 0 && input.referringDomainsCount > 0
 
-    await prisma.backlink_referring_domains.createMany({
-      data: referringDomains.map((rd) => ({
-        profile_id: profile.id,
-        domain: rd.domain,
-        backlinks: rd.backlinks,
-        domain_rank: rd.domainRank,
-        first_seen: rd.firstSeen,
-        dofollow: rd.dofollow ?? 0,
-        nofollow: rd.nofollow ?? 0,
-      })),
-    })
-  }
+  return diffSnapshots<{ domain: string }>(toSnapshot(previous), {
+    id: '',
+    fetchedAt: new Date().toISOString(),
+    totalBacklinks: input.totalBacklinks,
+    referringDomainsCount: input.referringDomainsCount,
+    domainRank: input.domainRank,
+    spamScore: input.spamScore,
+    referringDomains: fetchFailed ? null : referringDomains,
+  })
+}
 
-  // If anchors provided, delete old and insert new
-  if (anchors && anchors.length > 0) {
-    await prisma.backlink_anchors.deleteMany({
-      where: { profile_id: profile.id },
-    })
+/**
+ * Delete the stored referring domains of snapshots past retention
+ */
+async function pruneSnapshotReferringDomains(domainId: string): Promise<void> {
+  const cutoff = new Date(
+    Date.now() - SNAPSHOT_REFERRING_DOMAINS_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  )
+  const latest = await prisma.backlink_profiles.findMany({
+    where: { domain_id: domainId },
+    orderBy: { fetched_at: 'desc' },
+    take: 2,
+    select: { id: true },
+  })
 
-    await prisma.backlink_anchors.createMany({
-      data: anchors.map((a) => ({
-        profile_id: profile.id,
-        anchor: a.anchor,
-        backlinks: a.backlinks,
-        referring_domains: a.referringDomains ?? 0,
-        dofollow: a.dofollow ?? 0,
-        nofollow: a.nofollow ?? 0,
-      })),
-    })
-  }
+  await prisma.backlink_referring_domains.deleteMany({
+    where: {
+      profile: { domain_id: domainId, fetched_at: { lt: cutoff } },
+      profile_id: { notIn: latest.map((p) => p.id) },
+    },
+  })
+}
 
-  return transformProfile(profile)
+/**
+ * New/lost referring domains versus the latest snapshot at least 30 days old,
+ * or the oldest snapshot when history is shorter than that
+ */
+async function getReferringVelocity(
+  domainId: string,
+  referringDomains: ReferringDomainInput[],
+  now: Date
+): Promise<{ newDomains: number; lostDomains: number } | null> {
+  const windowStart = new Date(now.getTime() - VELOCITY_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+  const baseline =
+    (await prisma.backlink_profiles.findFirst({
+      where: { domain_id: domainId, fetched_at: { lte: windowStart } },
+      orderBy: { fetched_at: 'desc' },
+      select: snapshotSelect,
+    })) ??
+    (await prisma.backlink_profiles.findFirst({
+      where: { domain_id: domainId },
+      orderBy: { fetched_at: 'asc' },
+      select: snapshotSelect,
+    }))
+
+  if (!baseline) return null
+
+  const previous = toSnapshot(baseline).referringDomains
+  if (!previous) return null
+
+  const diff = diffReferringDomains<{ domain: string }>(previous, referringDomains)
+
+  return { newDomains: diff.newDomains.length, lostDomains: diff.lostDomains.length }
 }
 
 /**
- * Delete backlink profile for a domain
+ * Delete every backlink profile snapshot for a domain
  */
 export async function deleteBacklinkProfile(domainId: string): Promise<void> {
   await prisma.backlink_profiles.deleteMany({
@@ -237,8 +381,9 @@ export async function getReferringDomains(
 }> {
   const { page = 1, pageSize = 20, sortBy = 'rank', sortOrder = 'desc' } = options
 
-  const profile = await prisma.backlink_profiles.findUnique({
+  const profile = await prisma.backlink_profiles.findFirst({
     where: { domain_id: domainId },
+    orderBy: { fetched_at: 'desc' },
     select: { id: true },
   })
 
@@ -273,12 +418,10 @@ export async function getReferringDomains(
 /**
  * Get anchors for a domain
  */
-export async function getAnchors(
-  domainId: string,
-  limit: number = 20
-): Promise<AnchorData[]> {
-  const profile = await prisma.backlink_profiles.findUnique({
+export async function getAnchors(domainId: string, limit: number = 20): Promise<AnchorData[]> {
+  const profile = await prisma.backlink_profiles.findFirst({
     where: { domain_id: domainId },
+    orderBy: { fetched_at: 'desc' },
     select: { id: true },
   })
 
@@ -293,17 +436,339 @@ export async function getAnchors(
   return anchors.map(transformAnchor)
 }
 
+// ============================================
+// History Operations
+// ============================================
+
+const snapshotSelect = {
+  id: true,
+  fetched_at: true,
+  total_backlinks: true,
+  referring_domains_count: true,
+  domain_rank: true,
+  spam_score: true,
+  referring_domains: {
+    select: {
+      id: true,
+      domain: true,
+      backlinks: true,
+      domain_rank: true,
+      first_seen: true,
+      dofollow: true,
+      nofollow: true,
+    },
+    orderBy: { domain_rank: 'desc' },
+  },
+} as const
+
+type SnapshotRow = {
+  id: string
+  fetched_at: Date
+  total_backlinks: number
+  referring_domains_count: number
+  domain_rank: number
+  spam_score: number
+  referring_domains: Parameters<typeof transformReferringDomain>[0][]
+}
+
+/**
+ * List snapshot metrics for a domain, newest first
+ */
+export async function listBacklinkSnapshots(
+  domainId: string,
+  limit: number = 50
+): Promise<BacklinkSnapshotSummary[]> {
+  const snapshots = await prisma.backlink_profiles.findMany({
+    where: { domain_id: domainId },
+    orderBy: { fetched_at: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      fetched_at: true,
+      total_backlinks: true,
+      referring_domains_count: true,
+      domain_rank: true,
+      spam_score: true,
+    },
+  })
+
+  return snapshots.map(transformSnapshotSummary)
+}
+
+/**
+ * Trend of total backlinks, referring domains, domain rank and spam score
+ * over the last `days`, with the new/lost referring domains stored on each
+ * snapshot when it was saved
+ */
+export async function getBacklinkTrends(
+  domainId: string,
+  days: number = 180
+): Promise<BacklinkTrendPoint[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+  const snapshots = await prisma.backlink_profiles.findMany({
+    where: { domain_id: domainId, fetched_at: { gte: since } },
+    orderBy: { fetched_at: 'asc' },
+    select: {
+      id: true,
+      fetched_at: true,
+      total_backlinks: true,
+      referring_domains_count: true,
+      domain_rank: true,
+      spam_score: true,
+      new_referring_since_previous: true,
+      lost_referring_since_previous: true,
+      referring_diff_partial: true,
+    },
+  })
+
+  return snapshots.map((snapshot) => ({
+    snapshotId: snapshot.id,
+    fetchedAt: snapshot.fetched_at.toISOString(),
+    totalBacklinks: snapshot.total_backlinks,
+    referringDomains: snapshot.referring_domains_count,
+    domainRank: snapshot.domain_rank,
+    spamScore: snapshot.spam_score,
+    newReferringDomains: snapshot.new_referring_since_previous,
+    lostReferringDomains: snapshot.lost_referring_since_previous,
+    partial: snapshot.referring_diff_partial,
+  }))
+}
+
+/**
+ * Referring domains gained and lost between two snapshots. Defaults to the
+ * latest snapshot compared with the one before it. Returns null when the
+ * snapshots don't exist or either has no stored referring domains.
+ */
+export async function getBacklinkSnapshotDiff(
+  domainId: string,
+  options: { fromId?: string; toId?: string } = {}
+): Promise<BacklinkSnapshotDiff | null> {
+  const to = await prisma.backlink_profiles.findFirst({
+    where: { domain_id: domainId, ...(options.toId && { id: options.toId }) },
+    orderBy: { fetched_at: 'desc' },
+    select: snapshotSelect,
+  })
+  if (!to) return null
+
+  const from = await prisma.backlink_profiles.findFirst({
+    where: options.fromId
+      ? { domain_id: domainId, id: options.fromId }
+      : { domain_id: domainId, fetched_at: { lt: to.fetched_at } },
+    orderBy: { fetched_at: 'desc' },
+    select: snapshotSelect,
+  })
+  if (!from) return null
+
+  const diff = diffSnapshots(toSnapshot(from), toSnapshot(to))
+  if (!diff) return null
+
+  return {
+    from: transformSnapshotSummary(from),
+    to: transformSnapshotSummary(to),
+    ...diff,
+  }
+}
+
+// ============================================
+// Monitoring Operations
+// ============================================
+
+/**
+ * Active domains with monitoring enabled whose latest snapshot, and latest
+ * skipped or failed attempt, are older than their cadence. Never-attempted
+ * and stalest first.
+ */
+export async function getBacklinkMonitorsDue(
+  limit: number = 50
+): Promise<BacklinkMonitorTarget[]> {
+  const domains = await prisma.domains.findMany({
+    where: {
+      status: 'ACTIVE',
+      OR: [{ domain_settings: null }, { domain_settings: { backlink_monitor_enabled: true } }],
+    },
+    select: {
+      id: true,
+      domain: true,
+      domain_settings: {
+        select: {
+          backlink_monitor_interval_days: true,
+          backlink_monitor_last_attempt_at: true,
+        },
+      },
+      backlink_profiles: {
+        orderBy: { fetched_at: 'desc' },
+        take: 1,
+        select: { fetched_at: true },
+      },
+    },
+  })
+
+  const now = Date.now()
+
+  return domains
+    .map((d) => ({
+      domainId: d.id,
+      domain: d.domain,
+      intervalDays:
+        d.domain_settings?.backlink_monitor_interval_days ?? DEFAULT_MONITOR_INTERVAL_DAYS,
+      lastFetchedAt: d.backlink_profiles[0]?.fetched_at ?? null,
+      lastAttemptAt: Math.max(
+        d.backlink_profiles[0]?.fetched_at.getTime() ?? 0,
+        d.domain_settings?.backlink_monitor_last_attempt_at?.getTime() ?? 0
+      ),
+    }))
+    .filter((d) => now - d.lastAttemptAt >= d.intervalDays * 24 * 60 * 60 * 1000)
+    .sort((a, b) => a.lastAttemptAt - b.lastAttemptAt)
+    .slice(0, limit)
+    .map((d) => ({
+      domainId: d.domainId,
+      domain: d.domain,
+      lastFetchedAt: d.lastFetchedAt?.toISOString() ?? null,
+    }))
+}
+
+/**
+ * Record a scheduled refresh that was skipped or failed, so the domain waits
+ * for its next cadence slot instead of staying due and crowding out others
+ */
+export async function recordBacklinkMonitorAttempt(domainId: string): Promise<void> {
+  const now = new Date()
+
+  await prisma.domain_settings.upsert({
+    where: { domain_id: domainId },
+    create: { domain_id: domainId, backlink_monitor_last_attempt_at: now },
+    update: { backlink_monitor_last_attempt_at: now },
+  })
+}
+
+/**
+ * Compare a snapshot with the one before it: record referring domains at or
+ * above `minRank` that were lost, and mark open lost links that reappeared as
+ * reclaimed. A domain already open as lost isn't recorded twice.
+ */
+export async function detectLostBacklinks(
+  domainId: string,
+  profileId: string,
+  minRank: number
+): Promise<{ lost: LostBacklink[]; reclaimed: number }> {
+  const current = await prisma.backlink_profiles.findFirst({
+    where: { id: profileId, domain_id: domainId },
+    select: snapshotSelect,
+  })
+  if (!current) return { lost: [], reclaimed: 0 }
+
+  const currentSnapshot = toSnapshot(current)
+
+  const open = await prisma.backlink_lost_links.findMany({
+    where: { domain_id: domainId, status: 'OPEN' },
+    select: { id: true, referring_domain: true },
+  })
+
+  let reclaimed = 0
+  if (currentSnapshot.referringDomains) {
+    const present = new Set(currentSnapshot.referringDomains.map((d) => normalizeDomain(d.domain)))
+    const reclaimedIds = open
+      .filter((link) => present.has(normalizeDomain(link.referring_domain)))
+      .map((link) => link.id)
+
+    if (reclaimedIds.length > 0) {
+      const result = await prisma.backlink_lost_links.updateMany({
+        where: { id: { in: reclaimedIds } },
+        data: { status: 'RECLAIMED', resolved_at: new Date() },
+      })
+      reclaimed = result.count
+    }
+  }
+
+  const previous = await prisma.backlink_profiles.findFirst({
+    where: { domain_id: domainId, fetched_at: { lt: current.fetched_at } },
+    orderBy: { fetched_at: 'desc' },
+    select: snapshotSelect,
+  })
+  if (!previous) return { lost: [], reclaimed }
+
+  const diff = diffSnapshots(toSnapshot(previous), currentSnapshot)
+  if (!diff) return { lost: [], reclaimed }
+
+  const candidates = findLostHighRankDomains(diff, currentSnapshot, minRank)
+  if (candidates.length === 0) return { lost: [], reclaimed }
+
+  const openSet = new Set(open.map((link) => normalizeDomain(link.referring_domain)))
+
+  const lost = await prisma.$transaction(
+    candidates
+      .filter((d) => !openSet.has(normalizeDomain(d.domain)))
+      .map((d) =>
+        prisma.backlink_lost_links.create({
+          data: {
+            domain_id: domainId,
+            profile_id: profileId,
+            referring_domain: d.domain,
+            domain_rank: d.domainRank,
+            backlinks: d.backlinks,
+            dofollow: d.dofollow > 0,
+            first_seen: d.firstSeen ? new Date(d.firstSeen) : null,
+            last_seen_at: previous.fetched_at,
+          },
+        })
+      )
+  )
+
+  return { lost: lost.map(transformLostBacklink), reclaimed }
+}
+
+/**
+ * Lost high-rank referring domains for a domain, highest rank first
+ */
+export async function getLostBacklinks(
+  domainId: string,
+  options: { status?: LostBacklinkStatus; limit?: number } = {}
+): Promise<LostBacklink[]> {
+  const links = await prisma.backlink_lost_links.findMany({
+    where: { domain_id: domainId, ...(options.status && { status: options.status }) },
+    orderBy: [{ domain_rank: 'desc' }, { detected_at: 'desc' }],
+    take: options.limit ?? 100,
+  })
+
+  return links.map(transformLostBacklink)
+}
+
+/**
+ * Set a lost link's status (e.g. dismiss it, or reopen it). Returns null if
+ * the link doesn't belong to the domain.
+ */
+export async function updateLostBacklinkStatus(
+  domainId: string,
+  linkId: string,
+  status: LostBacklinkStatus
+): Promise<LostBacklink | null> {
+  const existing = await prisma.backlink_lost_links.findFirst({
+    where: { id: linkId, domain_id: domainId },
+    select: { id: true },
+  })
+  if (!existing) return null
+
+  const link = await prisma.backlink_lost_links.update({
+    where: { id: linkId },
+    data: { status, resolved_at: status === 'OPEN' ? null : new Date() },
+  })
+
+  return transformLostBacklink(link)
+}
+
 // ============================================
 // Fetch & Refresh Operations
 // ============================================
 
 /**
- * Fetch fresh backlink data from DataForSEO and save to database
+ * Fetch fresh backlink data from DataForSEO and save it as a new snapshot,
+ * then check the snapshot for lost high-rank links and verified prospects
  */
 export async function refreshBacklinkProfile(
   domainId: string,
   targetDomain: string
-): Promise<BacklinkProfile> {
+): Promise<BacklinkRefreshResult> {
   const client = getDataForSEOClient()
   const backlinksModule = new BacklinksModule(client)
 
@@ -330,7 +795,7 @@ export async function refreshBacklinkProfile(
       target: targetDomain,
       includeSubdomains: true,
       orderBy: 'rank_desc',
-      limit: 50,
+      limit: SNAPSHOT_REFERRING_DOMAINS_LIMIT,
     })
 
     referringDomains = rdResponse.map((rd) => {
@@ -374,7 +839,7 @@ export async function refreshBacklinkProfile(
   }
 
   // Save to database
-  return saveBacklinkProfile(
+  const profile = await saveBacklinkProfile(
     {
       domainId,
       totalBacklinks: summary.backlinks ?? 0,
@@ -395,6 +860,21 @@ export async function refreshBacklinkProfile(
     referringDomains,
     anchors
   )
+
+  // Lost links and outreach prospects that now link to us are checked against
+  // the new snapshot, whether the refresh was manual or scheduled
+  const settings = await prisma.domain_settings.findUnique({
+    where: { domain_id: domainId },
+    select: { backlink_lost_link_min_rank: true },
+  })
+  const { lost, reclaimed } = await detectLostBacklinks(
+    domainId,
+    profile.id,
+    settings?.backlink_lost_link_min_rank ?? DEFAULT_LOST_LINK_MIN_RANK
+  )
+  await verifyLinkProspects(domainId, profile.id)
+
+  return { profile, lost, reclaimed }
 }
 
 // ============================================
@@ -474,16 +954,12 @@ export async function getBacklinkGapAnalysis(
   // Calculate averages
   const avgCompetitorBacklinks =
     competitors.length > 0
-      ? Math.round(
-          competitors.reduce((sum, c) => sum + c.totalBacklinks, 0) / competitors.length
-        )
+      ? Math.round(competitors.reduce((sum, c) => sum + c.totalBacklinks, 0) / competitors.length)
       : 0
 
   const avgCompetitorReferringDomains =
     competitors.length > 0
-      ? Math.round(
-          competitors.reduce((sum, c) => sum + c.referringDomains, 0) / competitors.length
-        )
+      ? Math.round(competitors.reduce((sum, c) => sum + c.referringDomains, 0) / competitors.length)
       : 0
 
   return {
@@ -505,6 +981,33 @@ export async function getBacklinkGapAnalysis(
 // Transform Functions
 // ============================================
 
+function transformSnapshotSummary(
+  snapshot: Omit<SnapshotRow, 'referring_domains'>
+): BacklinkSnapshotSummary {
+  return {
+    id: snapshot.id,
+    fetchedAt: snapshot.fetched_at.toISOString(),
+    totalBacklinks: snapshot.total_backlinks,
+    referringDomainsCount: snapshot.referring_domains_count,
+    domainRank: snapshot.domain_rank,
+    spamScore: snapshot.spam_score,
+  }
+}
+
+/**
+ * A snapshot with no stored referring domains but a non-empty profile had its
+ * referring domain fetch fail, or was pruned, so it can't be diffed
+ */
+function toSnapshot(snapshot: SnapshotRow): BacklinkSnapshot<ReferringDomain> {
+  const fetchFailed =
+    snapshot.referring_domains.length === 0 && snapshot.referring_domains_count > 0
+
+  return {
+    ...transformSnapshotSummary(snapshot),
+    referringDomains: fetchFailed ? null : snapshot.referring_domains.map(transformReferringDomain),
+  }
+}
+
 function transformProfile(profile: {
   id: string
   domain_id: string
@@ -564,6 +1067,36 @@ function transformProfile(profile: {
   }
 }
 
+function transformLostBacklink(link: {
+  id: string
+  domain_id: string
+  profile_id: string
+  referring_domain: string
+  domain_rank: number
+  backlinks: number
+  dofollow: boolean
+  first_seen: Date | null
+  last_seen_at: Date
+  status: LostBacklinkStatus
+  detected_at: Date
+  resolved_at: Date | null
+}): LostBacklink {
+  return {
+    id: link.id,
+    domainId: link.domain_id,
+    profileId: link.profile_id,
+    referringDomain: link.referring_domain,
+    domainRank: link.domain_rank,
+    backlinks: link.backlinks,
+    dofollow: link.dofollow,
+    firstSeen: link.first_seen?.toISOString() ?? null,
+    lastSeenAt: link.last_seen_at.toISOString(),
+    status: link.status,
+    detectedAt: link.detected_at.toISOString(),
+    resolvedAt: link.resolved_at?.toISOString() ?? null,
+  }
+}
+
 function transformReferringDomain(rd: {
   id: string
   domain: string
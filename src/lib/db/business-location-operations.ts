@@ -0,0 +1,228 @@
+/**
+ * Business Location Operations
+ *
+ * Offices of a multi-location business under a domain, and the roll-up of
+ * their latest grid scans into one domain-level view.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { GridScanStatus, type Prisma, type WorkspaceRole } from '@prisma/client'
+import type { CompetitorRanking } from '@/lib/local-seo/types'
+import {
+  buildLocationRollup,
+  type LocationGridPoint,
+  type LocationRollup,
+  type LocationScanSummary,
+  type OwnListing,
+} from '@/lib/local-seo/multi-location'
+import { domainAccessWhere } from './workspace-operations'
+
+// ============================================
+// Types
+// ============================================
+
+export interface BusinessLocation {
+  id: string
+  domainId: string
+  name: string
+  address: string | null
+  lat: number
+  lng: number
+  gmbCid: string | null
+  gmbPlaceId: string | null
+  campaignCount: number
+  createdAt: Date
+}
+
+export interface BusinessLocationInput {
+  name: string
+  address?: string | null
+  lat: number
+  lng: number
+  gmbCid?: string | null
+  gmbPlaceId?: string | null
+}
+
+const locationInclude = { _count: { select: { local_campaigns: true } } } as const
+
+function mapLocation(
+  location: Prisma.business_locationsGetPayload<{ include: typeof locationInclude }>
+): BusinessLocation {
+  return {
+    id: location.id,
+    domainId: location.domain_id,
+    name: location.name,
+    address: location.address,
+    lat: Number(location.lat),
+    lng: Number(location.lng),
+    gmbCid: location.gmb_cid,
+    gmbPlaceId: location.gmb_place_id,
+    campaignCount: location._count.local_campaigns,
+    createdAt: location.created_at,
+  }
+}
+
+// ============================================
+// Location Operations
+// ============================================
+
+/**
+ * List a domain's locations
+ */
+export async function listBusinessLocations(domainId: string): Promise<BusinessLocation[]> {
+  const locations = await prisma.business_locations.findMany({
+    where: { domain_id: domainId },
+    include: locationInclude,
+    orderBy: { name: 'asc' },
+  })
+
+  return locations.map(mapLocation)
+}
+
+/**
+ * Get a location if the user can access its domain with at least `minRole`
+ */
+export async function getBusinessLocationForUser(
+  locationId: string,
+  userId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
+): Promise<BusinessLocation | null> {
+  const location = await prisma.business_locations.findFirst({
+    where: { id: locationId, domain: domainAccessWhere(userId, minRole) },
+    include: locationInclude,
+  })
+
+  return location ? mapLocation(location) : null
+}
+
+/**
+ * Create a location under a domain
+ */
+export async function createBusinessLocation(
+  domainId: string,
+  input: BusinessLocationInput
+): Promise<BusinessLocation> {
+  const location = await prisma.business_locations.create({
+    data: {
+      domain_id: domainId,
+      name: input.name,
+      address: input.address ?? null,
+      lat: input.lat,
+      lng: input.lng,
+      gmb_cid: input.gmbCid ?? null,
+      gmb_place_id: input.gmbPlaceId ?? null,
+    },
+    include: locationInclude,
+  })
+
+  return mapLocation(location)
+}
+
+/**
+ * Update a location. Campaigns keep their own center and CID; only new
+ * campaigns pick up the changes.
+ */
+export async function updateBusinessLocation(
+  locationId: string,
+  input: Partial<BusinessLocationInput>
+): Promise<BusinessLocation> {
+  const location = await prisma.business_locations.update({
+    where: { id: locationId },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.address !== undefined && { address: input.address }),
+      ...(input.lat !== undefined && { lat: input.lat }),
+      ...(input.lng !== undefined && { lng: input.lng }),
+      ...(input.gmbCid !== undefined && { gmb_cid: input.gmbCid }),
+      ...(input.gmbPlaceId !== undefined && { gmb_place_id: input.gmbPlaceId }),
+    },
+    include: locationInclude,
+  })
+
+  return mapLocation(location)
+}
+
+/**
+ * Delete a location. Its campaigns are kept and unlinked.
+ */
+export async function deleteBusinessLocation(locationId: string): Promise<void> {
+  await prisma.business_locations.delete({ where: { id: locationId } })
+}
+
+// ============================================
+// Roll-Up
+// ============================================
+
+/**
+ * Combine the latest completed scan of every location campaign in a domain.
+ * A location with several campaigns contributes each campaign's latest scan.
+ */
+export async function getLocationRollup(domainId: string): Promise<LocationRollup> {
+  const locations = await prisma.business_locations.findMany({
+    where: { domain_id: domainId },
+    select: {
+      id: true,
+      name: true,
+      gmb_cid: true,
+      local_campaigns: {
+        where: { domain_id: domainId },
+        select: {
+          id: true,
+          grid_scans: {
+            where: { status: GridScanStatus.COMPLETED },
+            orderBy: { completed_at: 'desc' },
+            take: 1,
+            select: { id: true, completed_at: true, avg_rank: true, share_of_voice: true },
+          },
+        },
+      },
+    },
+  })
+
+  const ownListings: OwnListing[] = locations.flatMap((location) =>
+    location.gmb_cid
+      ? [{ locationId: location.id, name: location.name, cid: location.gmb_cid }]
+      : []
+  )
+
+  const scans: Array<LocationScanSummary & { points: LocationGridPoint[] }> = []
+  for (const location of locations) {
+    for (const campaign of location.local_campaigns) {
+      const scan = campaign.grid_scans[0]
+      if (!scan) continue
+
+      const points = await prisma.grid_point_results.findMany({
+        where: { scan_id: scan.id },
+        select: {
+          keyword: true,
+          grid_row: true,
+          grid_col: true,
+          lat: true,
+          lng: true,
+          top_rankings: true,
+        },
+      })
+
+      scans.push({
+        locationId: location.id,
+        locationName: location.name,
+        campaignId: campaign.id,
+        scanId: scan.id,
+        completedAt: scan.completed_at,
+        avgRank: scan.avg_rank !== null ? Number(scan.avg_rank) : null,
+        shareOfVoice: scan.share_of_voice !== null ? Number(scan.share_of_voice) : null,
+        totalPoints: points.length,
+        points: points.map((point) => ({
+          keyword: point.keyword,
+          row: point.grid_row,
+          col: point.grid_col,
+          lat: Number(point.lat),
+          lng: Number(point.lng),
+          topRankings: (point.top_rankings as unknown as CompetitorRanking[] | null) ?? [],
+        })),
+      })
+    }
+  }
+
+  return buildLocationRollup(scans, ownListings)
+}
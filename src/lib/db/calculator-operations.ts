@@ -3,6 +3,7 @@
 
 import { createId } from '@paralleldrive/cuid2'
 import { prisma } from '@/lib/prisma'
+import { domainAccessWhere } from './workspace-operations'
 import { calculateSEOMetrics, type SEOCalculationInput } from '@/lib/calculators/seo-calculator'
 import {
   calculateGoogleAdsMetrics,
@@ -142,7 +143,7 @@ export async function getSEOCalculations(params: {
     prisma.seo_calculations.findMany({
       where: {
         domain_id: params.domainId,
-        user_id: params.userId,
+        domains: domainAccessWhere(params.userId),
       },
       orderBy: { created_at: 'desc' },
       skip,
@@ -163,7 +164,7 @@ export async function getSEOCalculations(params: {
     prisma.seo_calculations.count({
       where: {
         domain_id: params.domainId,
-        user_id: params.userId,
+        domains: domainAccessWhere(params.userId),
       },
     }),
   ])
@@ -192,11 +193,11 @@ export async function getSEOCalculations(params: {
  * Get a single SEO calculation by ID
  */
 export async function getSEOCalculation(params: { id: string; userId: string }) {
-  const calc = await prisma.seo_calculations.findUnique({
-    where: { id: params.id },
+  const calc = await prisma.seo_calculations.findFirst({
+    where: { id: params.id, domains: domainAccessWhere(params.userId) },
   })
 
-  if (!calc || calc.user_id !== params.userId) {
+  if (!calc) {
     return null
   }
 
@@ -253,12 +254,12 @@ export async function updateSEOCalculation(params: {
   data: Partial<CreateSEOCalculationParams>
 }) {
   // First verify ownership
-  const existing = await prisma.seo_calculations.findUnique({
-    where: { id: params.id },
-    select: { user_id: true },
+  const existing = await prisma.seo_calculations.findFirst({
+    where: { id: params.id, domains: domainAccessWhere(params.userId, 'ANALYST') },
+    select: { id: true },
   })
 
-  if (!existing || existing.user_id !== params.userId) {
+  if (!existing) {
     return null
   }
 
@@ -346,12 +347,12 @@ export async function updateSEOCalculation(params: {
  * Delete an SEO calculation
  */
 export async function deleteSEOCalculation(params: { id: string; userId: string }): Promise<boolean> {
-  const existing = await prisma.seo_calculations.findUnique({
-    where: { id: params.id },
-    select: { user_id: true },
+  const existing = await prisma.seo_calculations.findFirst({
+    where: { id: params.id, domains: domainAccessWhere(params.userId, 'ANALYST') },
+    select: { id: true },
   })
 
-  if (!existing || existing.user_id !== params.userId) {
+  if (!existing) {
     return false
   }
 
@@ -414,19 +415,19 @@ export async function getCalculatorCounts(params: { domainId: string; userId: st
     prisma.seo_calculations.count({
       where: {
         domain_id: params.domainId,
-        user_id: params.userId,
+        domains: domainAccessWhere(params.userId),
       },
     }),
     prisma.google_ads_calculations.count({
       where: {
         domain_id: params.domainId,
-        user_id: params.userId,
+        domains: domainAccessWhere(params.userId),
       },
     }),
     prisma.capacity_calculations.count({
       where: {
         domain_id: params.domainId,
-        user_id: params.userId,
+        domains: domainAccessWhere(params.userId),
       },
     }),
   ])
@@ -542,7 +543,7 @@ export async function getGoogleAdsCalculations(params: {
   const calculations = await prisma.google_ads_calculations.findMany({
     where: {
       domain_id: params.domainId,
-      user_id: params.userId,
+      domains: domainAccessWhere(params.userId),
     },
     orderBy: {
       created_at: 'desc',
@@ -588,11 +589,11 @@ export async function getGoogleAdsCalculations(params: {
  * Get a single Google Ads calculation
  */
 export async function getGoogleAdsCalculation(params: { id: string; userId: string }) {
-  const calc = await prisma.google_ads_calculations.findUnique({
-    where: { id: params.id },
+  const calc = await prisma.google_ads_calculations.findFirst({
+    where: { id: params.id, domains: domainAccessWhere(params.userId) },
   })
 
-  if (!calc || calc.user_id !== params.userId) {
+  if (!calc) {
     return null
   }
 
@@ -636,12 +637,12 @@ export async function deleteGoogleAdsCalculation(params: {
   id: string
   userId: string
 }): Promise<boolean> {
-  const existing = await prisma.google_ads_calculations.findUnique({
-    where: { id: params.id },
-    select: { user_id: true },
+  const existing = await prisma.google_ads_calculations.findFirst({
+    where: { id: params.id, domains: domainAccessWhere(params.userId, 'ANALYST') },
+    select: { id: true },
   })
 
-  if (!existing || existing.user_id !== params.userId) {
+  if (!existing) {
     return false
   }
 
@@ -783,7 +784,7 @@ export async function getCapacityCalculations(params: {
   const calculations = await prisma.capacity_calculations.findMany({
     where: {
       domain_id: params.domainId,
-      user_id: params.userId,
+      domains: domainAccessWhere(params.userId),
     },
     orderBy: {
       created_at: 'desc',
@@ -822,11 +823,11 @@ export async function getCapacityCalculations(params: {
  * Get a single Capacity calculation
  */
 export async function getCapacityCalculation(params: { id: string; userId: string }) {
-  const calc = await prisma.capacity_calculations.findUnique({
-    where: { id: params.id },
+  const calc = await prisma.capacity_calculations.findFirst({
+    where: { id: params.id, domains: domainAccessWhere(params.userId) },
   })
 
-  if (!calc || calc.user_id !== params.userId) {
+  if (!calc) {
     return null
   }
 
@@ -863,12 +864,12 @@ export async function deleteCapacityCalculation(params: {
   id: string
   userId: string
 }): Promise<boolean> {
-  const existing = await prisma.capacity_calculations.findUnique({
-    where: { id: params.id },
-    select: { user_id: true },
+  const existing = await prisma.capacity_calculations.findFirst({
+    where: { id: params.id, domains: domainAccessWhere(params.userId, 'ANALYST') },
+    select: { id: true },
   })
 
-  if (!existing || existing.user_id !== params.userId) {
+  if (!existing) {
     return false
   }
 
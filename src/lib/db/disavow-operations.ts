@@ -0,0 +1,249 @@
+/**
+ * Disavow Database Operations
+ *
+ * Toxic referring domains/URLs found by spam score scans, and the review
+ * decisions made on them. Rescans refresh the metrics of known entries but
+ * never touch their decision, so reviews carry across refreshes.
+ * Used by `/api/backlinks/disavow` routes and the backlinks page.
+ */
+
+import type { DisavowDecision, DisavowEntryType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getDataForSEOClient } from '@/lib/dataforseo'
+import { BacklinksModule } from '@/lib/dataforseo/modules/backlinks'
+import {
+  buildDisavowCandidates,
+  buildDisavowFile,
+  DEFAULT_TOXIC_SPAM_SCORE,
+  normalizeDisavowDomain,
+  type DisavowBacklink,
+} from '@/lib/seo/disavow'
+
+/** Backlinks pulled per scan, lowest rank first since that's where toxic links sit */
+const SCAN_BACKLINKS_LIMIT = 1000
+
+/** Max targets per bulk spam score request */
+const SPAM_SCORE_BATCH_SIZE = 1000
+
+// ============================================
+// Types
+// ============================================
+
+export interface DisavowEntry {
+  id: string
+  domainId: string
+  type: DisavowEntryType
+  value: string
+  referringDomain: string
+  spamScore: number
+  domainRank: number | null
+  backlinks: number
+  dofollowBacklinks: number
+  lastSeenAt: string
+  decision: DisavowDecision
+  reason: string | null
+  decidedBy: string | null
+  decidedAt: string | null
+}
+
+export interface ToxicScanResult {
+  backlinksScanned: number
+  candidates: number
+  newEntries: number
+}
+
+// ============================================
+// Scan Operations
+// ============================================
+
+/**
+ * Pull a domain's backlinks and spam scores, and store every toxic referring
+ * domain or URL as a disavow entry
+ */
+export async function scanToxicBacklinks(
+  domainId: string,
+  targetDomain: string,
+  threshold: number = DEFAULT_TOXIC_SPAM_SCORE
+): Promise<ToxicScanResult> {
+  const backlinksModule = new BacklinksModule(getDataForSEOClient())
+
+  const items = await backlinksModule.getBacklinks({
+    target: targetDomain,
+    includeSubdomains: true,
+    backlinkType: 'live',
+    orderBy: 'rank_asc',
+    limit: SCAN_BACKLINKS_LIMIT,
+  })
+
+  const backlinks: DisavowBacklink[] = items.map((item) => ({
+    domainFrom: item.domain_from,
+    urlFrom: item.url_from,
+    domainFromRank: item.domain_from_rank,
+    backlinkSpamScore: item.backlink_spam_score,
+    dofollow: item.dofollow,
+  }))
+
+  const referringDomains = [
+    ...new Set(backlinks.map((b) => normalizeDisavowDomain(b.domainFrom)).filter(Boolean)),
+  ]
+  const domainSpamScores = new Map<string, number>()
+
+  for (let i = 0; i < referringDomains.length; i += SPAM_SCORE_BATCH_SIZE) {
+    const scores = await backlinksModule.getBulkSpamScore({
+      targets: referringDomains.slice(i, i + SPAM_SCORE_BATCH_SIZE),
+    })
+    for (const score of scores) {
+      if (score.spam_score !== null) {
+        domainSpamScores.set(normalizeDisavowDomain(score.target), score.spam_score)
+      }
+    }
+  }
+
+  const candidates = buildDisavowCandidates(backlinks, domainSpamScores, threshold)
+  if (candidates.length === 0) {
+    return { backlinksScanned: backlinks.length, candidates: 0, newEntries: 0 }
+  }
+
+  const existingCount = await prisma.backlink_disavow_entries.count({
+    where: { domain_id: domainId },
+  })
+  const now = new Date()
+
+  await prisma.$transaction(
+    candidates.map((c) => {
+      const metrics = {
+        referring_domain: c.referringDomain,
+        spam_score: Math.round(c.spamScore),
+        domain_rank: c.domainRank,
+        backlinks: c.backlinks,
+        dofollow_backlinks: c.dofollowBacklinks,
+        last_seen_at: now,
+      }
+
+      return prisma.backlink_disavow_entries.upsert({
+        where: {
+          domain_id_entry_type_value: {
+            domain_id: domainId,
+            entry_type: c.type,
+            value: c.value,
+          },
+        },
+        create: { domain_id: domainId, entry_type: c.type, value: c.value, ...metrics },
+        update: metrics,
+      })
+    })
+  )
+
+  const totalCount = await prisma.backlink_disavow_entries.count({
+    where: { domain_id: domainId },
+  })
+
+  return {
+    backlinksScanned: backlinks.length,
+    candidates: candidates.length,
+    newEntries: totalCount - existingCount,
+  }
+}
+
+// ============================================
+// Review Operations
+// ============================================
+
+/**
+ * Disavow entries for a domain, most toxic first
+ */
+export async function listDisavowEntries(
+  domainId: string,
+  options: { decision?: DisavowDecision } = {}
+): Promise<DisavowEntry[]> {
+  const entries = await prisma.backlink_disavow_entries.findMany({
+    where: { domain_id: domainId, ...(options.decision && { decision: options.decision }) },
+    orderBy: [{ spam_score: 'desc' }, { backlinks: 'desc' }],
+  })
+
+  return entries.map(transformEntry)
+}
+
+/**
+ * Record a review decision on an entry. Returns null if the entry doesn't
+ * belong to the domain.
+ */
+export async function updateDisavowDecision(
+  domainId: string,
+  entryId: string,
+  userId: string,
+  input: { decision: DisavowDecision; reason?: string | null }
+): Promise<DisavowEntry | null> {
+  const existing = await prisma.backlink_disavow_entries.findFirst({
+    where: { id: entryId, domain_id: domainId },
+    select: { id: true },
+  })
+  if (!existing) return null
+
+  const pending = input.decision === 'PENDING'
+  const entry = await prisma.backlink_disavow_entries.update({
+    where: { id: entryId },
+    data: {
+      decision: input.decision,
+      ...(input.reason !== undefined && { reason: input.reason?.trim() || null }),
+      decided_by: pending ? null : userId,
+      decided_at: pending ? null : new Date(),
+    },
+  })
+
+  return transformEntry(entry)
+}
+
+/**
+ * Google-format disavow file with every entry marked DISAVOW
+ */
+export async function exportDisavowFile(domainId: string, site: string): Promise<string> {
+  const entries = await prisma.backlink_disavow_entries.findMany({
+    where: { domain_id: domainId, decision: 'DISAVOW' },
+    orderBy: [{ entry_type: 'asc' }, { value: 'asc' }],
+    select: { entry_type: true, value: true, reason: true },
+  })
+
+  return buildDisavowFile(
+    entries.map((e) => ({ type: e.entry_type, value: e.value, reason: e.reason })),
+    { site }
+  )
+}
+
+// ============================================
+// Transform Functions
+// ============================================
+
+function transformEntry(entry: {
+  id: string
+  domain_id: string
+  entry_type: DisavowEntryType
+  value: string
+  referring_domain: string
+  spam_score: number
+  domain_rank: number | null
+  backlinks: number
+  dofollow_backlinks: number
+  last_seen_at: Date
+  decision: DisavowDecision
+  reason: string | null
+  decided_by: string | null
+  decided_at: Date | null
+}): DisavowEntry {
+  return {
+    id: entry.id,
+    domainId: entry.domain_id,
+    type: entry.entry_type,
+    value: entry.value,
+    referringDomain: entry.referring_domain,
+    spamScore: entry.spam_score,
+    domainRank: entry.domain_rank,
+    backlinks: entry.backlinks,
+    dofollowBacklinks: entry.dofollow_backlinks,
+    lastSeenAt: entry.last_seen_at.toISOString(),
+    decision: entry.decision,
+    reason: entry.reason,
+    decidedBy: entry.decided_by,
+    decidedAt: entry.decided_at?.toISOString() ?? null,
+  }
+}
@@ -4,7 +4,13 @@
  */
 
 import { prisma } from '@/lib/prisma';
-import type { DomainStatus } from '@prisma/client';
+import type { DomainStatus, domain_settings } from '@prisma/client';
+import { getVerticalPack, type VerticalId, type VerticalPack } from '@/lib/verticals';
+import { domainAccessWhere, findAccessibleDomain } from './workspace-operations';
+import {
+  isAssignableThresholdProfile,
+  ThresholdProfileError,
+} from './threshold-profile-operations';
 
 export interface CreateDomainInput {
   userId: string;
@@ -13,6 +19,7 @@ export interface CreateDomainInput {
   businessName?: string;
   city?: string;
   state?: string;
+  vertical?: VerticalId;
 }
 
 export interface UpdateDomainInput {
@@ -20,6 +27,7 @@ export interface UpdateDomainInput {
   businessName?: string;
   city?: string;
   state?: string;
+  vertical?: VerticalId;
   status?: DomainStatus;
   isPinned?: boolean;
 }
@@ -32,8 +40,10 @@ export interface DomainWithSettings {
   businessName: string | null;
   city: string | null;
   state: string | null;
+  vertical: string;
   status: DomainStatus;
   isPinned: boolean;
+  workspaceId: string | null;
   createdAt: Date;
   updatedAt: Date;
   settings?: {
@@ -63,6 +73,14 @@ export interface DomainWithSettings {
     // Local SEO defaults
     localSeoGridSize: number;
     localSeoRadiusMiles: number;
+    // DataForSEO budget (USD per month, null = unlimited)
+    monthlyApiBudget: number | null;
+    // Backlink monitoring
+    backlinkMonitorEnabled: boolean;
+    backlinkMonitorIntervalDays: number;
+    backlinkLostLinkMinRank: number;
+    // SEO threshold profile (null = baseline thresholds)
+    thresholdProfileId: string | null;
   } | null;
 }
 
@@ -77,14 +95,14 @@ export interface ToolCounts {
 }
 
 /**
- * Get all domains for a user
+ * Get all domains a user can access (own domains plus workspace-shared domains)
  */
 export async function getUserDomains(
   userId: string
 ): Promise<DomainWithSettings[]> {
   const domains = await prisma.domains.findMany({
     where: {
-      user_id: userId,
+      ...domainAccessWhere(userId),
       status: 'ACTIVE',
     },
     include: {
@@ -103,8 +121,10 @@ export async function getUserDomains(
     businessName: d.business_name,
     city: d.city,
     state: d.state,
+    vertical: d.vertical,
     status: d.status,
     isPinned: d.is_pinned,
+    workspaceId: d.workspace_id,
     createdAt: d.created_at,
     updatedAt: d.updated_at,
     settings: d.domain_settings
@@ -135,13 +155,21 @@ export async function getUserDomains(
           // Local SEO defaults
           localSeoGridSize: d.domain_settings.local_seo_grid_size,
           localSeoRadiusMiles: Number(d.domain_settings.local_seo_radius_miles),
+          monthlyApiBudget:
+            d.domain_settings.monthly_api_budget !== null
+              ? Number(d.domain_settings.monthly_api_budget)
+              : null,
+          backlinkMonitorEnabled: d.domain_settings.backlink_monitor_enabled,
+          backlinkMonitorIntervalDays: d.domain_settings.backlink_monitor_interval_days,
+          backlinkLostLinkMinRank: d.domain_settings.backlink_lost_link_min_rank,
+          thresholdProfileId: d.domain_settings.threshold_profile_id,
         }
       : null,
   }));
 }
 
 /**
- * Get a single domain by ID
+ * Get a single domain by ID (if the user can access it)
  */
 export async function getDomainById(
   domainId: string,
@@ -150,7 +178,7 @@ export async function getDomainById(
   const domain = await prisma.domains.findFirst({
     where: {
       id: domainId,
-      user_id: userId,
+      ...domainAccessWhere(userId),
     },
     include: {
       domain_settings: true,
@@ -167,8 +195,10 @@ export async function getDomainById(
     businessName: domain.business_name,
     city: domain.city,
     state: domain.state,
+    vertical: domain.vertical,
     status: domain.status,
     isPinned: domain.is_pinned,
+    workspaceId: domain.workspace_id,
     createdAt: domain.created_at,
     updatedAt: domain.updated_at,
     settings: domain.domain_settings
@@ -199,6 +229,14 @@ export async function getDomainById(
           // Local SEO defaults
           localSeoGridSize: domain.domain_settings.local_seo_grid_size,
           localSeoRadiusMiles: Number(domain.domain_settings.local_seo_radius_miles),
+          monthlyApiBudget:
+            domain.domain_settings.monthly_api_budget !== null
+              ? Number(domain.domain_settings.monthly_api_budget)
+              : null,
+          backlinkMonitorEnabled: domain.domain_settings.backlink_monitor_enabled,
+          backlinkMonitorIntervalDays: domain.domain_settings.backlink_monitor_interval_days,
+          backlinkLostLinkMinRank: domain.domain_settings.backlink_lost_link_min_rank,
+          thresholdProfileId: domain.domain_settings.threshold_profile_id,
         }
       : null,
   };
@@ -249,6 +287,7 @@ export async function createDomain(
         business_name: input.businessName,
         city: input.city,
         state: input.state,
+        ...(input.vertical !== undefined && { vertical: input.vertical }),
         status: 'ACTIVE',
       },
       include: {
@@ -276,6 +315,7 @@ export async function createDomain(
     }
   } else {
     // Create new domain
+    const vertical = getVerticalPack(input.vertical);
     domain = await prisma.domains.create({
       data: {
         user_id: input.userId,
@@ -284,13 +324,13 @@ export async function createDomain(
         business_name: input.businessName,
         city: input.city,
         state: input.state,
+        vertical: vertical.id,
         status: 'ACTIVE',
         domain_settings: {
           create: {
-            // Uses Prisma defaults - no need to specify values
-            // SEO Calculator: seo_default_* fields with sensible defaults
-            // Google Ads: ads_default_* fields
-            // Capacity: cap_default_* fields
+            // Calculator funnel defaults come from the vertical pack;
+            // everything else uses Prisma defaults
+            ...verticalSettingsDefaults(vertical),
             // Site Audit defaults
             site_audit_max_pages: 100,
             site_audit_enable_javascript: true,
@@ -314,8 +354,10 @@ export async function createDomain(
     businessName: domain.business_name,
     city: domain.city,
     state: domain.state,
+    vertical: domain.vertical,
     status: domain.status,
     isPinned: domain.is_pinned,
+    workspaceId: domain.workspace_id,
     createdAt: domain.created_at,
     updatedAt: domain.updated_at,
     settings: domain.domain_settings
@@ -346,31 +388,66 @@ export async function createDomain(
           // Local SEO defaults
           localSeoGridSize: domain.domain_settings.local_seo_grid_size,
           localSeoRadiusMiles: Number(domain.domain_settings.local_seo_radius_miles),
+          monthlyApiBudget:
+            domain.domain_settings.monthly_api_budget !== null
+              ? Number(domain.domain_settings.monthly_api_budget)
+              : null,
+          backlinkMonitorEnabled: domain.domain_settings.backlink_monitor_enabled,
+          backlinkMonitorIntervalDays: domain.domain_settings.backlink_monitor_interval_days,
+          backlinkLostLinkMinRank: domain.domain_settings.backlink_lost_link_min_rank,
+          thresholdProfileId: domain.domain_settings.threshold_profile_id,
         }
       : null,
   };
 }
 
 /**
- * Update a domain
+ * Update a domain (requires ADMIN access)
  */
 export async function updateDomain(
   domainId: string,
   userId: string,
   input: UpdateDomainInput
 ): Promise<DomainWithSettings> {
+  const accessible = await findAccessibleDomain(domainId, userId, 'ADMIN');
+  if (!accessible) {
+    throw new Error('Domain not found');
+  }
+
+  const nextVertical =
+    input.vertical !== undefined && input.vertical !== accessible.vertical
+      ? getVerticalPack(input.vertical)
+      : null;
+  const currentSettings = nextVertical
+    ? await prisma.domain_settings.findUnique({ where: { domain_id: domainId } })
+    : null;
+
   const domain = await prisma.domains.update({
     where: {
       id: domainId,
-      user_id: userId,
     },
     data: {
       ...(input.name !== undefined && { name: input.name }),
       ...(input.businessName !== undefined && { business_name: input.businessName }),
       ...(input.city !== undefined && { city: input.city }),
       ...(input.state !== undefined && { state: input.state }),
+      ...(input.vertical !== undefined && { vertical: input.vertical }),
       ...(input.status !== undefined && { status: input.status }),
       ...(input.isPinned !== undefined && { is_pinned: input.isPinned }),
+      // Switching vertical moves the calculator funnel defaults to the new pack's,
+      // keeping any values the user has customised
+      ...(nextVertical && {
+        domain_settings: {
+          upsert: {
+            create: verticalSettingsDefaults(nextVertical),
+            update: verticalSettingsChanges(
+              currentSettings,
+              getVerticalPack(accessible.vertical),
+              nextVertical
+            ),
+          },
+        },
+      }),
     },
     include: {
       domain_settings: true,
@@ -385,8 +462,10 @@ export async function updateDomain(
     businessName: domain.business_name,
     city: domain.city,
     state: domain.state,
+    vertical: domain.vertical,
     status: domain.status,
     isPinned: domain.is_pinned,
+    workspaceId: domain.workspace_id,
     createdAt: domain.created_at,
     updatedAt: domain.updated_at,
     settings: domain.domain_settings
@@ -417,22 +496,102 @@ export async function updateDomain(
           // Local SEO defaults
           localSeoGridSize: domain.domain_settings.local_seo_grid_size,
           localSeoRadiusMiles: Number(domain.domain_settings.local_seo_radius_miles),
+          monthlyApiBudget:
+            domain.domain_settings.monthly_api_budget !== null
+              ? Number(domain.domain_settings.monthly_api_budget)
+              : null,
+          backlinkMonitorEnabled: domain.domain_settings.backlink_monitor_enabled,
+          backlinkMonitorIntervalDays: domain.domain_settings.backlink_monitor_interval_days,
+          backlinkLostLinkMinRank: domain.domain_settings.backlink_lost_link_min_rank,
+          thresholdProfileId: domain.domain_settings.threshold_profile_id,
         }
       : null,
   };
 }
 
 /**
- * Archive a domain (soft delete)
+ * Vertical pack a domain is analysed with. Falls back to the default pack
+ * for unknown domains (e.g. audits not linked to a domain).
+ */
+export async function getDomainVerticalPack(
+  domainId: string | null | undefined
+): Promise<VerticalPack> {
+  if (!domainId) return getVerticalPack();
+
+  const domain = await prisma.domains.findUnique({
+    where: { id: domainId },
+    select: { vertical: true },
+  });
+
+  return getVerticalPack(domain?.vertical);
+}
+
+/**
+ * Vertical pack for a domain looked up by hostname among the user's
+ * accessible domains
+ */
+export async function getVerticalPackForDomainName(
+  domain: string,
+  userId: string
+): Promise<VerticalPack> {
+  const record = await prisma.domains.findFirst({
+    where: { domain, ...domainAccessWhere(userId) },
+    select: { vertical: true },
+  });
+
+  return getVerticalPack(record?.vertical);
+}
+
+/**
+ * Calculator funnel defaults from a vertical pack, as domain_settings columns
+ */
+function verticalSettingsDefaults(vertical: VerticalPack) {
+  return {
+    seo_default_website_conv_rate: vertical.funnel.websiteConvRate,
+    seo_default_reception_rate: vertical.funnel.receptionRate,
+    seo_default_attendance_rate: vertical.funnel.attendanceRate,
+    seo_default_referral_rate: vertical.funnel.referralRate,
+    seo_default_stv: vertical.funnel.avgShortTermValue,
+    seo_default_ltv: vertical.funnel.avgLifetimeValue,
+    ads_default_avg_cpc: vertical.funnel.avgCpc,
+  };
+}
+
+/**
+ * Funnel defaults to write when a domain switches vertical. Only settings
+ * still equal to the old pack's defaults are replaced.
+ */
+function verticalSettingsChanges(
+  settings: domain_settings | null,
+  from: VerticalPack,
+  to: VerticalPack
+): Partial<ReturnType<typeof verticalSettingsDefaults>> {
+  const previous = verticalSettingsDefaults(from);
+  const next = verticalSettingsDefaults(to);
+  if (!settings) return next;
+
+  return Object.fromEntries(
+    (Object.keys(next) as Array<keyof typeof next>)
+      .filter((key) => Number(settings[key]) === previous[key])
+      .map((key) => [key, next[key]])
+  );
+}
+
+/**
+ * Archive a domain (soft delete, requires ADMIN access)
  */
 export async function archiveDomain(
   domainId: string,
   userId: string
 ): Promise<void> {
+  const accessible = await findAccessibleDomain(domainId, userId, 'ADMIN');
+  if (!accessible) {
+    throw new Error('Domain not found');
+  }
+
   await prisma.domains.update({
     where: {
       id: domainId,
-      user_id: userId,
     },
     data: {
       status: 'ARCHIVED',
@@ -442,55 +601,58 @@ export async function archiveDomain(
 
 /**
  * Get tool counts for a domain (for sidebar badges)
+ * Counts include items created by any workspace member with access to the domain
  */
 export async function getDomainToolCounts(
   domainId: string,
   userId: string
 ): Promise<ToolCounts> {
+  const accessibleDomain = domainAccessWhere(userId);
+
   const [audits, siteScans, localCampaigns, seoCalculations, trackedKeywords, keywordAudits, keywordTrackingRuns] =
     await Promise.all([
       prisma.audits.count({
         where: {
           domain_id: domainId,
-          userId: userId,
+          domains: accessibleDomain,
         },
       }),
       prisma.site_audit_scans.count({
         where: {
           domain_id: domainId,
-          user_id: userId,
+          domains: accessibleDomain,
         },
       }),
       prisma.local_campaigns.count({
         where: {
           domain_id: domainId,
-          user_id: userId,
+          domains: accessibleDomain,
           status: 'ACTIVE',
         },
       }),
       prisma.seo_calculations.count({
         where: {
           domain_id: domainId,
-          user_id: userId,
+          domains: accessibleDomain,
         },
       }),
       prisma.tracked_keywords.count({
         where: {
           domain_id: domainId,
-          user_id: userId,
+          domains: accessibleDomain,
           is_active: true,
         },
       }),
       prisma.keyword_optimization_audits.count({
         where: {
           domain_id: domainId,
-          user_id: userId,
+          domains: accessibleDomain,
         },
       }),
       prisma.keyword_tracking_runs.count({
         where: {
           domain_id: domainId,
-          user_id: userId,
+          domains: accessibleDomain,
         },
       }),
     ]);
@@ -507,7 +669,7 @@ export async function getDomainToolCounts(
 }
 
 /**
- * Update domain settings
+ * Update domain settings (requires ADMIN access)
  */
 export async function updateDomainSettings(
   domainId: string,
@@ -517,13 +679,18 @@ export async function updateDomainSettings(
     siteAuditEnableJavascript?: boolean;
     localSeoGridSize?: number;
     localSeoRadiusMiles?: number;
+    monthlyApiBudget?: number | null;
+    backlinkMonitorEnabled?: boolean;
+    backlinkMonitorIntervalDays?: number;
+    backlinkLostLinkMinRank?: number;
+    thresholdProfileId?: string | null;
   }
 ): Promise<void> {
-  // Verify domain ownership
+  // Verify domain access (settings changes require ADMIN)
   const domain = await prisma.domains.findFirst({
     where: {
       id: domainId,
-      user_id: userId,
+      ...domainAccessWhere(userId, 'ADMIN'),
     },
     include: {
       domain_settings: true,
@@ -534,6 +701,13 @@ export async function updateDomainSettings(
     throw new Error('Domain not found');
   }
 
+  if (
+    settings.thresholdProfileId &&
+    !(await isAssignableThresholdProfile(settings.thresholdProfileId, domain))
+  ) {
+    throw new ThresholdProfileError('Threshold profile not found', 404);
+  }
+
   if (!domain.domain_settings) {
     // Create settings if they don't exist
     await prisma.domain_settings.create({
@@ -544,6 +718,21 @@ export async function updateDomainSettings(
           settings.siteAuditEnableJavascript ?? true,
         local_seo_grid_size: settings.localSeoGridSize ?? 7,
         local_seo_radius_miles: settings.localSeoRadiusMiles ?? 5,
+        ...(settings.monthlyApiBudget !== undefined && {
+          monthly_api_budget: settings.monthlyApiBudget,
+        }),
+        ...(settings.backlinkMonitorEnabled !== undefined && {
+          backlink_monitor_enabled: settings.backlinkMonitorEnabled,
+        }),
+        ...(settings.backlinkMonitorIntervalDays !== undefined && {
+          backlink_monitor_interval_days: settings.backlinkMonitorIntervalDays,
+        }),
+        ...(settings.backlinkLostLinkMinRank !== undefined && {
+          backlink_lost_link_min_rank: settings.backlinkLostLinkMinRank,
+        }),
+        ...(settings.thresholdProfileId !== undefined && {
+          threshold_profile_id: settings.thresholdProfileId,
+        }),
       },
     });
   } else {
@@ -565,6 +754,21 @@ export async function updateDomainSettings(
         ...(settings.localSeoRadiusMiles !== undefined && {
           local_seo_radius_miles: settings.localSeoRadiusMiles,
         }),
+        ...(settings.monthlyApiBudget !== undefined && {
+          monthly_api_budget: settings.monthlyApiBudget,
+        }),
+        ...(settings.backlinkMonitorEnabled !== undefined && {
+          backlink_monitor_enabled: settings.backlinkMonitorEnabled,
+        }),
+        ...(settings.backlinkMonitorIntervalDays !== undefined && {
+          backlink_monitor_interval_days: settings.backlinkMonitorIntervalDays,
+        }),
+        ...(settings.backlinkLostLinkMinRank !== undefined && {
+          backlink_lost_link_min_rank: settings.backlinkLostLinkMinRank,
+        }),
+        ...(settings.thresholdProfileId !== undefined && {
+          threshold_profile_id: settings.thresholdProfileId,
+        }),
       },
     });
   }
@@ -11,6 +11,8 @@
 import { createId } from '@paralleldrive/cuid2'
 import { prisma } from '@/lib/prisma'
 import { Prisma } from '@prisma/client'
+import type { VerticalPack } from '@/lib/verticals'
+import { getDomainVerticalPack } from './domain-operations'
 import type {
   ReviewItem,
   BusinessPostItem,
@@ -736,90 +738,98 @@ export async function importCompetitorsFromGrid(
 // ============================================================================
 
 /**
- * Dental-specific GBP analysis checks
+ * GBP analysis checks, with category and content advice from the domain's
+ * vertical pack
  */
-export const GBP_ANALYSIS_CHECKS: Omit<GBPAnalysisCheck, 'passed' | 'currentValue'>[] = [
-  {
-    id: 'city_in_name',
-    label: 'City in GBP Name',
-    description: 'Having the city in your business name significantly improves local rankings',
-    weight: 'high',
-    recommendedValue: true,
-    recommendation: 'Consider adding your city to your GBP business name (e.g., "Bright Smiles Dental - Chicago")',
-  },
-  {
-    id: 'primary_category',
-    label: 'Optimal Primary Category',
-    description: '"Dentist" typically performs better than "Dental Clinic" for most practices',
-    weight: 'high',
-    recommendedValue: 'Dentist',
-    recommendation: 'Set your primary category to "Dentist" unless you specialize (e.g., "Orthodontist")',
-  },
-  {
-    id: 'secondary_categories',
-    label: 'Secondary Categories',
-    description: 'Add all relevant service categories',
-    weight: 'medium',
-    recommendedValue: '3+ categories',
-    recommendation: 'Add categories like "Cosmetic Dentist", "Emergency Dental Service", "Dental Implants Provider"',
-  },
-  {
-    id: 'service_descriptions',
-    label: 'Service Descriptions',
-    description: 'Each service should have a detailed description',
-    weight: 'medium',
-    recommendedValue: true,
-    recommendation: 'Add detailed descriptions for each service you offer (at least 100 characters each)',
-  },
-  {
-    id: 'posting_frequency',
-    label: 'Regular Google Posts',
-    description: 'Posting at least once per week shows an active business',
-    weight: 'medium',
-    recommendedValue: '4+ posts/month',
-    recommendation: 'Post weekly updates about promotions, dental tips, team highlights, or patient testimonials',
-  },
-  {
-    id: 'qa_answered',
-    label: 'Q&A Section Complete',
-    description: 'All questions should have answers from the business owner',
-    weight: 'medium',
-    recommendedValue: '100% answered',
-    recommendation: 'Answer all questions in your Q&A section. Consider adding common questions yourself.',
-  },
-  {
-    id: 'photo_count',
-    label: 'Photo Count',
-    description: 'More photos lead to more engagement and clicks',
-    weight: 'medium',
-    recommendedValue: '50+ photos',
-    recommendation: 'Add photos of your office, team, equipment, before/after cases, and happy patients',
-  },
-  {
-    id: 'photo_types',
-    label: 'Photo Variety',
-    description: 'Include cover photo, logo, interior, exterior, and team photos',
-    weight: 'low',
-    recommendedValue: 'All types',
-    recommendation: 'Ensure you have: cover photo, logo, interior shots, exterior shot, and team photos',
-  },
-  {
-    id: 'hours_complete',
-    label: 'Business Hours',
-    description: 'Hours should be set for all 7 days (including closed days)',
-    weight: 'low',
-    recommendedValue: true,
-    recommendation: 'Set hours for all 7 days, marking closed days explicitly',
-  },
-  {
-    id: 'description_keywords',
-    label: 'Keywords in Description',
-    description: 'Business description should include target keywords naturally',
-    weight: 'low',
-    recommendedValue: true,
-    recommendation: 'Include keywords like "dentist", "[city] dental", and your key services in your description',
-  },
-]
+export function getGBPAnalysisChecks(
+  vertical: VerticalPack
+): Omit<GBPAnalysisCheck, 'passed' | 'currentValue'>[] {
+  const { gbp } = vertical
+  const quoted = (values: string[]): string => values.map((v) => `"${v}"`).join(', ')
+
+  return [
+    {
+      id: 'city_in_name',
+      label: 'City in GBP Name',
+      description: 'Having the city in your business name significantly improves local rankings',
+      weight: 'high',
+      recommendedValue: true,
+      recommendation: `Consider adding your city to your GBP business name (e.g., "${gbp.exampleBusinessName} - Chicago")`,
+    },
+    {
+      id: 'primary_category',
+      label: 'Optimal Primary Category',
+      description: gbp.primaryCategoryNote,
+      weight: 'high',
+      recommendedValue: gbp.primaryCategory,
+      recommendation: `Set your primary category to "${gbp.primaryCategory}" unless you specialize (e.g., "${gbp.specialistCategory}")`,
+    },
+    {
+      id: 'secondary_categories',
+      label: 'Secondary Categories',
+      description: 'Add all relevant service categories',
+      weight: 'medium',
+      recommendedValue: '3+ categories',
+      recommendation: `Add categories like ${quoted(gbp.secondaryCategories)}`,
+    },
+    {
+      id: 'service_descriptions',
+      label: 'Service Descriptions',
+      description: 'Each service should have a detailed description',
+      weight: 'medium',
+      recommendedValue: true,
+      recommendation: 'Add detailed descriptions for each service you offer (at least 100 characters each)',
+    },
+    {
+      id: 'posting_frequency',
+      label: 'Regular Google Posts',
+      description: 'Posting at least once per week shows an active business',
+      weight: 'medium',
+      recommendedValue: '4+ posts/month',
+      recommendation: `Post weekly updates about ${gbp.postTopics}`,
+    },
+    {
+      id: 'qa_answered',
+      label: 'Q&A Section Complete',
+      description: 'All questions should have answers from the business owner',
+      weight: 'medium',
+      recommendedValue: '100% answered',
+      recommendation: 'Answer all questions in your Q&A section. Consider adding common questions yourself.',
+    },
+    {
+      id: 'photo_count',
+      label: 'Photo Count',
+      description: 'More photos lead to more engagement and clicks',
+      weight: 'medium',
+      recommendedValue: '50+ photos',
+      recommendation: `Add photos of ${gbp.photoSubjects}`,
+    },
+    {
+      id: 'photo_types',
+      label: 'Photo Variety',
+      description: 'Include cover photo, logo, interior, exterior, and team photos',
+      weight: 'low',
+      recommendedValue: 'All types',
+      recommendation: 'Ensure you have: cover photo, logo, interior shots, exterior shot, and team photos',
+    },
+    {
+      id: 'hours_complete',
+      label: 'Business Hours',
+      description: 'Hours should be set for all 7 days (including closed days)',
+      weight: 'low',
+      recommendedValue: true,
+      recommendation: 'Set hours for all 7 days, marking closed days explicitly',
+    },
+    {
+      id: 'description_keywords',
+      label: 'Keywords in Description',
+      description: 'Business description should include target keywords naturally',
+      weight: 'low',
+      recommendedValue: true,
+      recommendation: `Include keywords like ${quoted(gbp.descriptionKeywords)}, and your key services in your description`,
+    },
+  ]
+}
 
 /**
  * Run GBP analysis for a domain
@@ -836,9 +846,10 @@ export async function runGBPAnalysis(
   let earnedWeight = 0
 
   const weightValues = { high: 3, medium: 2, low: 1 }
+  const vertical = await getDomainVerticalPack(domainId)
 
   // Run each check
-  for (const check of GBP_ANALYSIS_CHECKS) {
+  for (const check of getGBPAnalysisChecks(vertical)) {
     let passed = false
     let currentValue: string | number | boolean | null = null
 
@@ -850,7 +861,8 @@ export async function runGBPAnalysis(
 
       case 'primary_category':
         currentValue = profile.primaryCategory
-        passed = profile.primaryCategory?.toLowerCase() === 'dentist'
+        passed =
+          profile.primaryCategory?.toLowerCase() === vertical.gbp.primaryCategory.toLowerCase()
         break
 
       case 'secondary_categories':
@@ -895,7 +907,9 @@ export async function runGBPAnalysis(
       case 'description_keywords':
         const desc = profile.description?.toLowerCase() ?? ''
         currentValue = !!profile.description
-        passed = desc.includes('dentist') || desc.includes('dental')
+        passed = vertical.gbp.descriptionKeywords
+          .map((keyword) => keyword.replace('[city]', '').trim().toLowerCase())
+          .some((keyword) => desc.includes(keyword))
         break
     }
 
@@ -285,3 +285,87 @@ export async function getKeywordCount(
 
   return { active, total }
 }
+
+// ============================================
+// Domain Keyword Library
+// ============================================
+
+/**
+ * Active tracked keywords for a domain (the set keyword tracking runs use)
+ */
+export async function listDomainKeywords(domainId: string): Promise<tracked_keywords[]> {
+  return prisma.tracked_keywords.findMany({
+    where: { domain_id: domainId, is_active: true },
+    orderBy: { keyword: 'asc' },
+  })
+}
+
+/**
+ * Add keywords to a domain's library, reactivating any that were removed.
+ * Keywords already tracked for the domain by another member are reused rather
+ * than duplicated.
+ */
+export async function addDomainKeywords(
+  domainId: string,
+  userId: string,
+  keywords: string[]
+): Promise<{ added: number; existing: number }> {
+  const domain = await prisma.domains.findUniqueOrThrow({
+    where: { id: domainId },
+    select: { domain: true },
+  })
+  const normalizedDomain = normalizeDomain(domain.domain)
+  const normalizedKeywords = [
+    ...new Set(keywords.map((k) => k.toLowerCase().trim()).filter(Boolean)),
+  ]
+
+  const current = await prisma.tracked_keywords.findMany({
+    where: { domain_id: domainId, keyword: { in: normalizedKeywords } },
+    select: { id: true, keyword: true, is_active: true },
+  })
+  const currentByKeyword = new Map(current.map((k) => [k.keyword, k]))
+
+  const reactivate = current.filter((k) => !k.is_active).map((k) => k.id)
+  if (reactivate.length > 0) {
+    await prisma.tracked_keywords.updateMany({
+      where: { id: { in: reactivate } },
+      data: { is_active: true, updated_at: new Date() },
+    })
+  }
+
+  let added = reactivate.length
+  for (const keyword of normalizedKeywords) {
+    if (currentByKeyword.has(keyword)) continue
+
+    await prisma.tracked_keywords.upsert({
+      where: {
+        user_id_domain_keyword: { user_id: userId, domain: normalizedDomain, keyword },
+      },
+      update: { domain_id: domainId, is_active: true, updated_at: new Date() },
+      create: {
+        id: createId(),
+        user_id: userId,
+        domain: normalizedDomain,
+        domain_id: domainId,
+        keyword,
+        updated_at: new Date(),
+      },
+    })
+    added++
+  }
+
+  return { added, existing: normalizedKeywords.length - added }
+}
+
+/**
+ * Stop tracking a domain keyword (soft delete). Returns false when the keyword
+ * isn't an active keyword of the domain.
+ */
+export async function removeDomainKeyword(domainId: string, keywordId: string): Promise<boolean> {
+  const result = await prisma.tracked_keywords.updateMany({
+    where: { id: keywordId, domain_id: domainId, is_active: true },
+    data: { is_active: false, updated_at: new Date() },
+  })
+
+  return result.count > 0
+}
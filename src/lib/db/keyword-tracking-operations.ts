@@ -7,7 +7,8 @@
 
 import { createId } from '@paralleldrive/cuid2'
 import { prisma } from '@/lib/prisma'
-import { KeywordTrackingRunStatus } from '@prisma/client'
+import { KeywordTrackingRunStatus, type WorkspaceRole } from '@prisma/client'
+import { domainAccessWhere } from './workspace-operations'
 
 // ============================================
 // Types
@@ -17,7 +18,7 @@ export interface CreateRunInput {
   domainId: string
   locationName?: string
   languageCode?: string
-  triggeredBy?: 'manual' | 'scheduled'
+  triggeredBy?: 'manual' | 'scheduled' | 'api'
 }
 
 export interface RunSummary {
@@ -236,16 +237,17 @@ export async function getKeywordTrackingRun(
 }
 
 /**
- * Get a run for a specific user (with ownership check)
+ * Get a run for a specific user (with domain access check)
  */
 export async function getRunForUser(
   runId: string,
-  userId: string
+  userId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
 ): Promise<RunDetail | null> {
   const run = await prisma.keyword_tracking_runs.findFirst({
     where: {
       id: runId,
-      user_id: userId,
+      domains: domainAccessWhere(userId, minRole),
     },
   })
 
@@ -0,0 +1,232 @@
+/**
+ * Link Prospect Database Operations
+ *
+ * Per-domain outreach pipeline for link-building prospects, usually promoted
+ * from backlink gap results. Backlink refreshes verify prospects whose domain
+ * has started linking to us.
+ * Used by `/api/backlinks/prospects` routes and the backlinks page.
+ */
+
+import type { LinkProspectStage } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { normalizeDomain } from '@/lib/seo/backlink-history'
+import { findVerifiedProspects, VERIFIABLE_STAGES } from '@/lib/seo/link-prospects'
+
+// ============================================
+// Types
+// ============================================
+
+export interface LinkProspect {
+  id: string
+  domainId: string
+  prospectDomain: string
+  stage: LinkProspectStage
+  source: string
+  sourceAuditId: string | null
+  domainRank: number | null
+  spamScore: number | null
+  linksToCompetitors: string[]
+  targetUrl: string | null
+  anchorPlan: string | null
+  notes: string | null
+  verifiedAt: string | null
+  stageChangedAt: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface LinkProspectInput {
+  domain: string
+  domainRank?: number | null
+  spamScore?: number | null
+  linksToCompetitors?: string[]
+}
+
+export interface LinkProspectUpdate {
+  stage?: LinkProspectStage
+  targetUrl?: string | null
+  anchorPlan?: string | null
+  notes?: string | null
+}
+
+// ============================================
+// Pipeline Operations
+// ============================================
+
+/**
+ * Prospects for a domain, optionally filtered by stage, highest rank first
+ */
+export async function listLinkProspects(
+  domainId: string,
+  options: { stage?: LinkProspectStage } = {}
+): Promise<LinkProspect[]> {
+  const prospects = await prisma.link_prospects.findMany({
+    where: { domain_id: domainId, ...(options.stage && { stage: options.stage }) },
+    orderBy: [{ domain_rank: { sort: 'desc', nulls: 'last' } }, { created_at: 'desc' }],
+  })
+
+  return prospects.map(transformProspect)
+}
+
+/**
+ * Add prospects to a domain's pipeline. Domains already in the pipeline are
+ * left as they are.
+ */
+export async function addLinkProspects(
+  domainId: string,
+  userId: string,
+  prospects: LinkProspectInput[],
+  source: { type: 'backlink_gap' | 'manual'; auditId?: string | null } = { type: 'manual' }
+): Promise<{ added: number; skipped: number }> {
+  const unique = new Map<string, LinkProspectInput>()
+  for (const prospect of prospects) {
+    const domain = normalizeDomain(prospect.domain)
+    if (domain && !unique.has(domain)) unique.set(domain, prospect)
+  }
+
+  const result = await prisma.link_prospects.createMany({
+    data: [...unique].map(([domain, prospect]) => ({
+      domain_id: domainId,
+      prospect_domain: domain,
+      source: source.type,
+      source_audit_id: source.auditId ?? null,
+      domain_rank: prospect.domainRank ?? null,
+      spam_score: prospect.spamScore ?? null,
+      links_to_competitors: prospect.linksToCompetitors ?? [],
+      created_by: userId,
+    })),
+    skipDuplicates: true,
+  })
+
+  return { added: result.count, skipped: prospects.length - result.count }
+}
+
+/**
+ * Move a prospect through the pipeline or edit its outreach plan. Returns
+ * null if the prospect doesn't belong to the domain.
+ */
+export async function updateLinkProspect(
+  domainId: string,
+  prospectId: string,
+  update: LinkProspectUpdate
+): Promise<LinkProspect | null> {
+  const existing = await prisma.link_prospects.findFirst({
+    where: { id: prospectId, domain_id: domainId },
+    select: { stage: true },
+  })
+  if (!existing) return null
+
+  const prospect = await prisma.link_prospects.update({
+    where: { id: prospectId },
+    data: {
+      ...(update.stage !== undefined && { stage: update.stage }),
+      ...(update.stage !== undefined &&
+        update.stage !== existing.stage && { stage_changed_at: new Date() }),
+      ...(update.targetUrl !== undefined && { target_url: update.targetUrl?.trim() || null }),
+      ...(update.anchorPlan !== undefined && { anchor_plan: update.anchorPlan?.trim() || null }),
+      ...(update.notes !== undefined && { notes: update.notes?.trim() || null }),
+    },
+  })
+
+  return transformProspect(prospect)
+}
+
+/**
+ * Remove a prospect from the pipeline. Returns false if it doesn't belong to the domain.
+ */
+export async function deleteLinkProspect(domainId: string, prospectId: string): Promise<boolean> {
+  const result = await prisma.link_prospects.deleteMany({
+    where: { id: prospectId, domain_id: domainId },
+  })
+
+  return result.count > 0
+}
+
+/**
+ * Verify prospects against a backlink snapshot: any contacted, negotiating
+ * or won prospect that now appears as a referring domain is marked verified
+ * and moved to WON
+ */
+export async function verifyLinkProspects(
+  domainId: string,
+  profileId: string
+): Promise<LinkProspect[]> {
+  const prospects = await prisma.link_prospects.findMany({
+    where: {
+      domain_id: domainId,
+      verified_at: null,
+      stage: { in: [...VERIFIABLE_STAGES] },
+    },
+  })
+  if (prospects.length === 0) return []
+
+  const referringDomains = await prisma.backlink_referring_domains.findMany({
+    where: { profile_id: profileId },
+    select: { domain: true },
+  })
+
+  const verified = findVerifiedProspects(
+    prospects.map(transformProspect),
+    referringDomains.map((rd) => rd.domain)
+  )
+  if (verified.length === 0) return []
+
+  const now = new Date()
+  const updated = await prisma.$transaction(
+    verified.map((p) =>
+      prisma.link_prospects.update({
+        where: { id: p.id },
+        data: {
+          verified_at: now,
+          verified_profile_id: profileId,
+          stage: 'WON',
+          ...(p.stage !== 'WON' && { stage_changed_at: now }),
+        },
+      })
+    )
+  )
+
+  return updated.map(transformProspect)
+}
+
+// ============================================
+// Transform Functions
+// ============================================
+
+function transformProspect(p: {
+  id: string
+  domain_id: string
+  prospect_domain: string
+  stage: LinkProspectStage
+  source: string
+  source_audit_id: string | null
+  domain_rank: number | null
+  spam_score: number | null
+  links_to_competitors: string[]
+  target_url: string | null
+  anchor_plan: string | null
+  notes: string | null
+  verified_at: Date | null
+  stage_changed_at: Date
+  created_at: Date
+  updated_at: Date
+}): LinkProspect {
+  return {
+    id: p.id,
+    domainId: p.domain_id,
+    prospectDomain: p.prospect_domain,
+    stage: p.stage,
+    source: p.source,
+    sourceAuditId: p.source_audit_id,
+    domainRank: p.domain_rank,
+    spamScore: p.spam_score,
+    linksToCompetitors: p.links_to_competitors,
+    targetUrl: p.target_url,
+    anchorPlan: p.anchor_plan,
+    notes: p.notes,
+    verifiedAt: p.verified_at?.toISOString() ?? null,
+    stageChangedAt: p.stage_changed_at.toISOString(),
+    createdAt: p.created_at.toISOString(),
+    updatedAt: p.updated_at.toISOString(),
+  }
+}
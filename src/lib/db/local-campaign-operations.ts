@@ -6,7 +6,13 @@
 
 import { createId } from '@paralleldrive/cuid2'
 import { prisma } from '@/lib/prisma'
-import { LocalCampaignStatus, GridScanStatus, Prisma } from '@prisma/client'
+import {
+  LocalCampaignStatus,
+  GridScanStatus,
+  Prisma,
+  type WorkspaceRole,
+  type local_campaigns,
+} from '@prisma/client'
 import type {
   CreateCampaignInput,
   UpdateCampaignInput,
@@ -14,6 +20,9 @@ import type {
   CompetitorRanking,
   AggregatedCompetitorStats,
 } from '@/lib/local-seo/types'
+import type { GridConfig, GridShape, ServiceArea } from '@/lib/local-seo/grid-calculator'
+import { buildCompetitorHistory, type CompetitorHistory } from '@/lib/local-seo/competitor-history'
+import { resourceAccessWhere } from './workspace-operations'
 
 // ============================================================================
 // Campaign Operations
@@ -30,6 +39,8 @@ export async function createLocalCampaign(
     data: {
       id: createId(),
       user_id: userId,
+      domain_id: input.domainId || null,
+      location_id: input.locationId || null,
       business_name: input.businessName,
       gmb_place_id: input.gmbPlaceId || null,
       gmb_cid: input.gmbCid || null,
@@ -37,6 +48,8 @@ export async function createLocalCampaign(
       center_lng: input.centerLng,
       grid_size: input.gridSize ?? 7,
       grid_radius_miles: input.gridRadiusMiles ?? 5,
+      grid_shape: input.gridShape ?? 'square',
+      service_area: input.serviceArea ?? Prisma.DbNull,
       keywords: input.keywords,
       status: LocalCampaignStatus.ACTIVE,
       scan_frequency: input.scanFrequency ?? 'weekly',
@@ -79,14 +92,37 @@ export async function getLocalCampaign(campaignId: string) {
 }
 
 /**
- * Get campaign for user validation
+ * Get campaign for user validation (creator or workspace member with at least `minRole`)
  */
-export async function getCampaignForUser(campaignId: string, userId: string) {
+export async function getCampaignForUser(
+  campaignId: string,
+  userId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
+) {
   return prisma.local_campaigns.findFirst({
-    where: { id: campaignId, user_id: userId },
+    where: { id: campaignId, ...resourceAccessWhere(userId, minRole) },
   })
 }
 
+/**
+ * Grid generation settings stored on a campaign
+ */
+export function campaignGridConfig(
+  campaign: Pick<
+    local_campaigns,
+    'center_lat' | 'center_lng' | 'grid_size' | 'grid_radius_miles' | 'grid_shape' | 'service_area'
+  >
+): GridConfig {
+  return {
+    centerLat: Number(campaign.center_lat),
+    centerLng: Number(campaign.center_lng),
+    gridSize: campaign.grid_size,
+    radiusMiles: Number(campaign.grid_radius_miles),
+    shape: campaign.grid_shape as GridShape,
+    serviceArea: campaign.service_area as ServiceArea | null,
+  }
+}
+
 /**
  * List campaigns for a user
  */
@@ -100,7 +136,7 @@ export async function listUserCampaigns(
 ): Promise<CampaignSummary[]> {
   const campaigns = await prisma.local_campaigns.findMany({
     where: {
-      user_id: userId,
+      ...resourceAccessWhere(userId),
       ...(options?.status && { status: options.status }),
     },
     orderBy: { updated_at: 'desc' },
@@ -126,6 +162,8 @@ export async function listUserCampaigns(
     keywords: c.keywords,
     gridSize: c.grid_size,
     gridRadiusMiles: Number(c.grid_radius_miles),
+    gridShape: c.grid_shape as GridShape,
+    locationId: c.location_id,
     scanFrequency: c.scan_frequency,
     lastScanAt: c.last_scan_at,
     nextScanAt: c.next_scan_at,
@@ -155,6 +193,10 @@ export async function updateLocalCampaign(
       ...(input.status && { status: input.status as LocalCampaignStatus }),
       ...(input.scanFrequency && { scan_frequency: input.scanFrequency }),
       ...(input.gridRadiusMiles && { grid_radius_miles: input.gridRadiusMiles }),
+      ...(input.gridShape && { grid_shape: input.gridShape }),
+      ...(input.serviceArea !== undefined && {
+        service_area: input.serviceArea ?? Prisma.DbNull,
+      }),
     },
   })
 }
@@ -213,6 +255,7 @@ export async function getCampaignsDueForScan(limit: number = 10) {
     select: {
       id: true,
       user_id: true,
+      domain_id: true,
       business_name: true,
       keywords: true,
     },
@@ -323,10 +366,13 @@ export async function getGridScan(scanId: string) {
       local_campaigns: {
         select: {
           id: true,
+          domain_id: true,
           business_name: true,
           keywords: true,
           grid_size: true,
           grid_radius_miles: true,
+          grid_shape: true,
+          service_area: true,
           center_lat: true,
           center_lng: true,
         },
@@ -378,6 +424,46 @@ export async function listCampaignScans(
   })
 }
 
+/**
+ * List scans across a domain's campaigns, newest first
+ */
+export async function listDomainGridScans(
+  domainId: string,
+  options?: { campaignId?: string; limit?: number; offset?: number }
+) {
+  const where: Prisma.grid_scansWhereInput = {
+    local_campaigns: { domain_id: domainId },
+    ...(options?.campaignId && { campaign_id: options.campaignId }),
+  }
+
+  const [scans, total] = await Promise.all([
+    prisma.grid_scans.findMany({
+      where,
+      orderBy: { created_at: 'desc' },
+      take: options?.limit ?? 20,
+      skip: options?.offset ?? 0,
+      include: { local_campaigns: { select: { business_name: true } } },
+    }),
+    prisma.grid_scans.count({ where }),
+  ])
+
+  return {
+    scans: scans.map((scan) => ({
+      id: scan.id,
+      campaignId: scan.campaign_id,
+      campaignName: scan.local_campaigns.business_name,
+      status: scan.status,
+      avgRank: scan.avg_rank ? Number(scan.avg_rank) : null,
+      shareOfVoice: scan.share_of_voice ? Number(scan.share_of_voice) : null,
+      topCompetitor: scan.top_competitor,
+      startedAt: scan.started_at,
+      completedAt: scan.completed_at,
+      createdAt: scan.created_at,
+    })),
+    total,
+  }
+}
+
 // ============================================================================
 // Grid Point Result Operations
 // ============================================================================
@@ -506,6 +592,88 @@ export async function getPreviousCompetitorStats(campaignId: string, excludeScan
   return new Map(stats.map((s) => [s.business_name, s]))
 }
 
+// ============================================================================
+// Competitor History Operations
+// ============================================================================
+
+/**
+ * Record a scan's competitors in the campaign's history. Competitors without
+ * a CID can't be followed across scans and are skipped, as is the campaign's
+ * own listing.
+ */
+export async function recordCompetitorHistory(
+  campaignId: string,
+  scanId: string,
+  stats: AggregatedCompetitorStats[]
+): Promise<void> {
+  const campaign = await prisma.local_campaigns.findUnique({
+    where: { id: campaignId },
+    select: { gmb_cid: true },
+  })
+
+  const byCid = new Map<string, AggregatedCompetitorStats>()
+  for (const s of stats) {
+    if (!s.gmbCid || s.gmbCid === campaign?.gmb_cid || byCid.has(s.gmbCid)) continue
+    byCid.set(s.gmbCid, s)
+  }
+  if (byCid.size === 0) return
+
+  const scannedAt = new Date()
+  await prisma.competitor_history.createMany({
+    data: [...byCid.entries()].map(([cid, s]) => ({
+      id: createId(),
+      campaign_id: campaignId,
+      scan_id: scanId,
+      gmb_cid: cid,
+      business_name: s.businessName,
+      share_of_voice: s.shareOfVoice,
+      avg_rank: s.avgRank,
+      times_in_top_3: s.timesInTop3,
+      rating: s.rating,
+      review_count: s.reviewCount,
+      scanned_at: scannedAt,
+    })),
+    skipDuplicates: true,
+  })
+}
+
+/**
+ * Get competitor trajectories and movements over a campaign's recent scans
+ */
+export async function getCompetitorHistory(
+  campaignId: string,
+  options?: { scanLimit?: number; top?: number }
+): Promise<CompetitorHistory> {
+  const recentScans = await prisma.grid_scans.findMany({
+    where: { campaign_id: campaignId, status: GridScanStatus.COMPLETED },
+    orderBy: { completed_at: 'desc' },
+    take: options?.scanLimit ?? 20,
+    select: { id: true, completed_at: true, created_at: true },
+  })
+  const scans = recentScans
+    .map((scan) => ({ id: scan.id, scannedAt: scan.completed_at ?? scan.created_at }))
+    .reverse()
+
+  const entries = await prisma.competitor_history.findMany({
+    where: { campaign_id: campaignId, scan_id: { in: scans.map((scan) => scan.id) } },
+  })
+
+  return buildCompetitorHistory(
+    scans,
+    entries.map((entry) => ({
+      scanId: entry.scan_id,
+      cid: entry.gmb_cid,
+      businessName: entry.business_name,
+      shareOfVoice: Number(entry.share_of_voice),
+      avgRank: Number(entry.avg_rank),
+      timesInTop3: entry.times_in_top_3,
+      rating: entry.rating !== null ? Number(entry.rating) : null,
+      reviewCount: entry.review_count,
+    })),
+    options?.top ?? 5
+  )
+}
+
 // ============================================================================
 // GBP Snapshot Operations
 // ============================================================================
@@ -598,7 +766,7 @@ export async function getGBPSnapshotHistory(
  */
 export async function countUserCampaigns(userId: string): Promise<number> {
   return prisma.local_campaigns.count({
-    where: { user_id: userId },
+    where: resourceAccessWhere(userId),
   })
 }
 
@@ -0,0 +1,865 @@
+/**
+ * Report Operations
+ *
+ * Collects the data for a white-label client report from each tool's tables.
+ * Point-in-time sections (audit, grid scans, AI visibility) use the latest
+ * completed run up to the end of the period; GBP and backlinks use the
+ * current stored profile.
+ *
+ * Also owns scheduled email digests: the per-domain delivery schedule and the
+ * stored copy of every digest that was compiled for it.
+ */
+
+import type { Prisma, ReportDeliveryStatus, WorkspaceRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { APP_NAME } from '@/lib/constants'
+import { calculateCompletenessWithBreakdown } from '@/lib/local-seo/gbp-comparison'
+import type {
+  AiVisibilityReportSection,
+  AuditReportSection,
+  BacklinksReportSection,
+  DigestData,
+  DigestSection,
+  GbpReportSection,
+  GridHeatmap,
+  KeywordMover,
+  KeywordTrackingReportSection,
+  LocalGridReportSection,
+  ReportBranding,
+  ReportData,
+  ReportOptions,
+  SiteAuditReportSection,
+} from '@/lib/reports/types'
+import { getDigestPeriod, renderDigestEmail } from '@/lib/reports/digest'
+import { getFullAuditResult } from './audit-operations'
+import { getBacklinkProfile } from './backlinks-operations'
+import { getGBPProfileForDomain } from './gbp-operations'
+import { calculateNextRunTime } from './keyword-tracking-operations'
+import { getAllGridPoints } from './local-campaign-operations'
+import { domainAccessWhere, getDomainBranding } from './workspace-operations'
+
+const DEFAULT_BRANDING: ReportBranding = {
+  brandName: APP_NAME,
+  logo: null,
+  primaryColor: '#0D1F3C',
+  accentColor: '#FF6B35',
+}
+
+/** Heatmaps take half a page each; cap them so reports stay readable */
+const MAX_HEATMAPS = 6
+const MAX_MOVERS = 10
+const MAX_REFERRING_DOMAINS = 10
+
+/**
+ * Collect report data for a domain. Returns null when the domain doesn't exist.
+ */
+export async function collectReportData(
+  domainId: string,
+  options: ReportOptions
+): Promise<ReportData | null> {
+  const domain = await prisma.domains.findUnique({
+    where: { id: domainId },
+    select: { id: true, name: true, domain: true, business_name: true },
+  })
+
+  if (!domain) return null
+
+  const { from, to, sections } = options
+  const include = (section: ReportOptions['sections'][number]) => sections.includes(section)
+
+  const [branding, audit, keywordTracking, localGrid, gbp, backlinks, aiVisibility] =
+    await Promise.all([
+      getDomainBranding(domainId),
+      include('audit') ? collectAudit(domainId, to) : null,
+      include('keywordTracking') ? collectKeywordTracking(domainId, from, to) : null,
+      include('localGrid') ? collectLocalGrid(domainId, to) : null,
+      include('gbp') ? collectGbp(domainId) : null,
+      include('backlinks') ? collectBacklinks(domainId) : null,
+      include('aiVisibility') ? collectAiVisibility(domainId, from, to) : null,
+    ])
+
+  return {
+    domain: {
+      id: domain.id,
+      name: domain.name,
+      domain: domain.domain,
+      businessName: domain.business_name,
+    },
+    period: { from, to },
+    generatedAt: new Date(),
+    branding: withDefaultBranding(branding),
+    sections,
+    audit,
+    keywordTracking,
+    localGrid,
+    gbp,
+    backlinks,
+    aiVisibility,
+  }
+}
+
+function withDefaultBranding(
+  branding: Awaited<ReturnType<typeof getDomainBranding>>
+): ReportBranding {
+  return {
+    brandName: branding?.brandName || DEFAULT_BRANDING.brandName,
+    logo: branding?.logo ?? null,
+    primaryColor: branding?.primaryColor || DEFAULT_BRANDING.primaryColor,
+    accentColor: branding?.accentColor || DEFAULT_BRANDING.accentColor,
+  }
+}
+
+/**
+ * Branding for a domain's client-facing output, with app defaults filled in
+ */
+export async function getReportBranding(domainId: string): Promise<ReportBranding> {
+  return withDefaultBranding(await getDomainBranding(domainId))
+}
+
+async function collectAudit(domainId: string, to: Date): Promise<AuditReportSection | null> {
+  const latest = await prisma.audits.findFirst({
+    where: { domain_id: domainId, status: 'COMPLETED', completed_at: { lte: to } },
+    orderBy: { completed_at: 'desc' },
+    select: { id: true },
+  })
+  if (!latest) return null
+
+  const result = await getFullAuditResult(latest.id)
+  const onPage = result?.stepResults.onPage
+  if (!result || !onPage) return null
+
+  return {
+    auditId: result.id,
+    completedAt: result.completedAt,
+    onpageScore: onPage.onpageScore ?? null,
+    pagesAnalyzed: onPage.pagesAnalyzed,
+    issuesFound: onPage.issuesFound,
+    brokenLinks: onPage.brokenLinks,
+    missingMetaDescriptions: onPage.missingMetaDescriptions,
+    missingAltTags: onPage.missingAltTags,
+    pageSpeed: onPage.pageSpeed,
+    mobileScore: onPage.mobileScore,
+    httpsEnabled: onPage.httpsEnabled,
+    hasSchema: onPage.hasSchema,
+    lighthouseSeo: onPage.lighthouseSeo ?? null,
+    lighthousePerformance: onPage.lighthousePerformance ?? null,
+  }
+}
+
+async function collectKeywordTracking(
+  domainId: string,
+  from: Date,
+  to: Date
+): Promise<KeywordTrackingReportSection | null> {
+  const runs = await prisma.keyword_tracking_runs.findMany({
+    where: { domain_id: domainId, status: 'COMPLETED', completed_at: { gte: from, lte: to } },
+    orderBy: { completed_at: 'asc' },
+  })
+  if (runs.length === 0) return null
+
+  const latestRun = runs[runs.length - 1]!
+  const movers = await prisma.keyword_tracking_results.findMany({
+    where: { run_id: latestRun.id, position_change: { not: null } },
+    select: { keyword: true, position: true, previous_position: true, position_change: true },
+  })
+
+  const toMover = (r: (typeof movers)[number]): KeywordMover => ({
+    keyword: r.keyword,
+    position: r.position,
+    previousPosition: r.previous_position,
+    positionChange: r.position_change,
+  })
+
+  return {
+    runs: runs.map((run) => ({
+      completedAt: run.completed_at ?? run.created_at,
+      keywordsTracked: run.keywords_tracked,
+      avgPosition: run.avg_position ? Number(run.avg_position) : null,
+      keywordsInTop3: run.keywords_in_top_3,
+      keywordsInTop10: run.keywords_in_top_10,
+      keywordsNotRanking: run.keywords_not_ranking,
+      improvedCount: run.improved_count,
+      declinedCount: run.declined_count,
+    })),
+    topGainers: movers
+      .filter((r) => r.position_change! > 0)
+      .sort((a, b) => b.position_change! - a.position_change!)
+      .slice(0, MAX_MOVERS)
+      .map(toMover),
+    topDecliners: movers
+      .filter((r) => r.position_change! < 0)
+      .sort((a, b) => a.position_change! - b.position_change!)
+      .slice(0, MAX_MOVERS)
+      .map(toMover),
+  }
+}
+
+async function collectLocalGrid(
+  domainId: string,
+  to: Date,
+  includeHeatmaps = true
+): Promise<LocalGridReportSection | null> {
+  const campaigns = await prisma.local_campaigns.findMany({
+    where: { domain_id: domainId },
+    orderBy: { created_at: 'asc' },
+    select: {
+      business_name: true,
+      grid_size: true,
+      grid_scans: {
+        where: { status: 'COMPLETED', completed_at: { lte: to } },
+        orderBy: { completed_at: 'desc' },
+        take: 1,
+      },
+    },
+  })
+
+  const scanned = campaigns.filter((c) => c.grid_scans.length > 0)
+  if (scanned.length === 0) return null
+
+  const heatmaps: GridHeatmap[] = []
+  for (const campaign of includeHeatmaps ? scanned : []) {
+    if (heatmaps.length >= MAX_HEATMAPS) break
+
+    const scan = campaign.grid_scans[0]!
+    const points = await getAllGridPoints(scan.id)
+    const keywords = [...new Set(points.map((p) => p.keyword))]
+
+    for (const keyword of keywords.slice(0, MAX_HEATMAPS - heatmaps.length)) {
+      heatmaps.push(
+        buildHeatmap(
+          campaign.business_name,
+          keyword,
+          campaign.grid_size,
+          points.filter((p) => p.keyword === keyword)
+        )
+      )
+    }
+  }
+
+  return {
+    campaigns: scanned.map((c) => {
+      const scan = c.grid_scans[0]!
+      return {
+        campaignName: c.business_name,
+        scannedAt: scan.completed_at,
+        avgRank: scan.avg_rank ? Number(scan.avg_rank) : null,
+        shareOfVoice: scan.share_of_voice ? Number(scan.share_of_voice) : null,
+        topCompetitor: scan.top_competitor,
+      }
+    }),
+    heatmaps,
+  }
+}
+
+function buildHeatmap(
+  campaignName: string,
+  keyword: string,
+  gridSize: number,
+  points: { grid_row: number; grid_col: number; rank: number | null }[]
+): GridHeatmap {
+  const cells: (number | null)[][] = Array.from({ length: gridSize }, () =>
+    Array<number | null>(gridSize).fill(null)
+  )
+  for (const point of points) {
+    if (point.grid_row < gridSize && point.grid_col < gridSize) {
+      cells[point.grid_row]![point.grid_col] = point.rank
+    }
+  }
+
+  const ranked = points.filter((p) => p.rank !== null).map((p) => p.rank!)
+  const avgRank =
+    ranked.length > 0
+      ? Math.round((ranked.reduce((sum, r) => sum + r, 0) / ranked.length) * 10) / 10
+      : null
+
+  return { campaignName, keyword, cells, avgRank }
+}
+
+async function collectGbp(domainId: string): Promise<GbpReportSection | null> {
+  const profile = await getGBPProfileForDomain(domainId)
+  if (!profile) return null
+
+  const days = Object.keys(profile.workHours ?? {}).map((d) => d.toLowerCase())
+  const weekdays = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+  const photoCount = profile.photoCount ?? 0
+
+  const completeness = calculateCompletenessWithBreakdown({
+    hasName: !!profile.businessName,
+    hasPhone: !!profile.phone,
+    hasAddress: !!profile.address,
+    hasWebsite: !!profile.website,
+    hasCategory: !!profile.primaryCategory,
+    hasSecondaryCategories: profile.additionalCategories.length > 0,
+    hasDescription: !!profile.description,
+    hasPhotos: photoCount > 0,
+    photoCount,
+    // Stored profiles don't keep logo/cover separately; any photo implies the main image
+    hasLogo: photoCount > 0,
+    hasCoverPhoto: photoCount > 0,
+    hasHours: days.length > 0,
+    hoursComplete: weekdays.every((day) => days.includes(day)),
+    hasAttributes: Object.keys(profile.attributes ?? {}).length > 0,
+    isClaimed: profile.isClaimed,
+    hasReviews: (profile.reviewCount ?? 0) > 0,
+  })
+
+  return {
+    businessName: profile.businessName,
+    rating: profile.rating,
+    reviewCount: profile.reviewCount,
+    primaryCategory: profile.primaryCategory,
+    fetchedAt: profile.fetchedAt,
+    completeness,
+  }
+}
+
+async function collectBacklinks(domainId: string): Promise<BacklinksReportSection | null> {
+  const profile = await getBacklinkProfile(domainId, true)
+  if (!profile) return null
+
+  return {
+    fetchedAt: profile.fetchedAt,
+    totalBacklinks: profile.totalBacklinks,
+    referringDomains: profile.referringDomainsCount,
+    domainRank: profile.domainRank,
+    spamScore: profile.spamScore,
+    dofollowRatio: profile.dofollowRatio,
+    newBacklinks30d: profile.newBacklinks30d,
+    lostBacklinks30d: profile.lostBacklinks30d,
+    topReferringDomains: (profile.referringDomains ?? [])
+      .slice(0, MAX_REFERRING_DOMAINS)
+      .map((d) => ({ domain: d.domain, domainRank: d.domainRank, backlinks: d.backlinks })),
+  }
+}
+
+async function collectAiVisibility(
+  domainId: string,
+  from: Date,
+  to: Date
+): Promise<AiVisibilityReportSection | null> {
+  const runs = await prisma.ai_seo_runs.findMany({
+    where: {
+      domain_id: domainId,
+      status: 'COMPLETED',
+      visibility_score: { not: null },
+      completed_at: { lte: to },
+    },
+    orderBy: { completed_at: 'desc' },
+    take: 50,
+    select: { completed_at: true, visibility_score: true },
+  })
+
+  const latest = runs[0]
+  if (!latest) return null
+
+  return {
+    score: latest.visibility_score!,
+    measuredAt: latest.completed_at,
+    trend: runs
+      .filter((r) => r.completed_at && r.completed_at >= from)
+      .reverse()
+      .map((r) => ({ date: r.completed_at!, score: r.visibility_score! })),
+  }
+}
+
+async function collectSiteAudit(
+  domainId: string,
+  to: Date
+): Promise<SiteAuditReportSection | null> {
+  const scans = await prisma.site_audit_scans.findMany({
+    where: {
+      domain_id: domainId,
+      status: 'COMPLETED',
+      completed_at: { lte: to },
+      summary: { isNot: null },
+    },
+    orderBy: { completed_at: 'desc' },
+    take: 2,
+    select: {
+      id: true,
+      completed_at: true,
+      summary: {
+        select: {
+          crawled_pages: true,
+          onpage_score: true,
+          errors_count: true,
+          warnings_count: true,
+          notices_count: true,
+          broken_links: true,
+        },
+      },
+    },
+  })
+
+  const [latest, previous] = scans
+  if (!latest?.summary) return null
+
+  const summary = latest.summary
+  return {
+    scanId: latest.id,
+    completedAt: latest.completed_at,
+    crawledPages: summary.crawled_pages,
+    onpageScore: summary.onpage_score ? Number(summary.onpage_score) : null,
+    errorsCount: summary.errors_count,
+    warningsCount: summary.warnings_count,
+    noticesCount: summary.notices_count,
+    brokenLinks: summary.broken_links,
+    errorsChange: previous?.summary ? summary.errors_count - previous.summary.errors_count : null,
+  }
+}
+
+/**
+ * Collect digest data for a domain. Returns null when the domain doesn't exist.
+ */
+export async function collectDigestData(
+  domainId: string,
+  period: { from: Date; to: Date },
+  sections: DigestSection[]
+): Promise<DigestData | null> {
+  const domain = await prisma.domains.findUnique({
+    where: { id: domainId },
+    select: { id: true, name: true, domain: true, business_name: true },
+  })
+
+  if (!domain) return null
+
+  const { from, to } = period
+  const include = (section: DigestSection) => sections.includes(section)
+
+  const [branding, keywordTracking, localGrid, siteAudit, aiVisibility] = await Promise.all([
+    getDomainBranding(domainId),
+    include('keywordTracking') ? collectKeywordTracking(domainId, from, to) : null,
+    include('localGrid') ? collectLocalGrid(domainId, to, false) : null,
+    include('siteAudit') ? collectSiteAudit(domainId, to) : null,
+    include('aiVisibility') ? collectAiVisibility(domainId, from, to) : null,
+  ])
+
+  return {
+    domain: {
+      id: domain.id,
+      name: domain.name,
+      domain: domain.domain,
+      businessName: domain.business_name,
+    },
+    period: { from, to },
+    generatedAt: new Date(),
+    branding: withDefaultBranding(branding),
+    sections,
+    keywordTracking,
+    localGrid,
+    siteAudit,
+    aiVisibility,
+  }
+}
+
+// ============================================
+// Digest schedules
+// ============================================
+
+export type ReportScheduleFrequency = 'weekly' | 'biweekly' | 'monthly'
+
+export interface ReportScheduleInput {
+  frequency: ReportScheduleFrequency
+  dayOfWeek?: number | null
+  dayOfMonth?: number | null
+  timeOfDay?: string
+  recipients: string[]
+  sections: DigestSection[]
+}
+
+export interface ReportSchedule {
+  id: string
+  domainId: string
+  isEnabled: boolean
+  frequency: string
+  dayOfWeek: number | null
+  dayOfMonth: number | null
+  timeOfDay: string
+  recipients: string[]
+  sections: DigestSection[]
+  nextRunAt: Date | null
+  lastRunAt: Date | null
+}
+
+export interface DueReportSchedule {
+  id: string
+  domainId: string
+  frequency: string
+  recipients: string[]
+  sections: DigestSection[]
+}
+
+const DEFAULT_DIGEST_TIME = '08:00'
+
+function mapSchedule(schedule: {
+  id: string
+  domain_id: string
+  is_enabled: boolean
+  frequency: string
+  day_of_week: number | null
+  day_of_month: number | null
+  time_of_day: string
+  recipients: string[]
+  sections: string[]
+  next_run_at: Date | null
+  last_run_at: Date | null
+}): ReportSchedule {
+  return {
+    id: schedule.id,
+    domainId: schedule.domain_id,
+    isEnabled: schedule.is_enabled,
+    frequency: schedule.frequency,
+    dayOfWeek: schedule.day_of_week,
+    dayOfMonth: schedule.day_of_month,
+    timeOfDay: schedule.time_of_day,
+    recipients: schedule.recipients,
+    sections: schedule.sections as DigestSection[],
+    nextRunAt: schedule.next_run_at,
+    lastRunAt: schedule.last_run_at,
+  }
+}
+
+/**
+ * Create the digest delivery schedule for a domain
+ */
+export async function createReportSchedule(
+  domainId: string,
+  userId: string,
+  input: ReportScheduleInput
+): Promise<ReportSchedule> {
+  const timeOfDay = input.timeOfDay ?? DEFAULT_DIGEST_TIME
+  const nextRunAt = calculateNextRunTime({
+    frequency: input.frequency,
+    dayOfWeek: input.dayOfWeek ?? null,
+    dayOfMonth: input.dayOfMonth ?? null,
+    timeOfDay,
+    lastRunAt: null,
+  })
+
+  const schedule = await prisma.report_schedules.create({
+    data: {
+      domain_id: domainId,
+      created_by: userId,
+      frequency: input.frequency,
+      day_of_week: input.dayOfWeek ?? null,
+      day_of_month: input.dayOfMonth ?? null,
+      time_of_day: timeOfDay,
+      recipients: input.recipients,
+      sections: input.sections,
+      next_run_at: nextRunAt,
+    },
+  })
+
+  return mapSchedule(schedule)
+}
+
+/**
+ * Get the digest delivery schedule for a domain
+ */
+export async function getReportSchedule(domainId: string): Promise<ReportSchedule | null> {
+  const schedule = await prisma.report_schedules.findUnique({
+    where: { domain_id: domainId },
+  })
+
+  return schedule ? mapSchedule(schedule) : null
+}
+
+/**
+ * Update a digest delivery schedule
+ */
+export async function updateReportSchedule(
+  domainId: string,
+  input: Partial<ReportScheduleInput> & { isEnabled?: boolean }
+): Promise<ReportSchedule> {
+  const current = await prisma.report_schedules.findUnique({
+    where: { domain_id: domainId },
+  })
+
+  if (!current) throw new Error('Schedule not found')
+
+  const updates: Prisma.report_schedulesUpdateInput = {}
+
+  if (input.frequency !== undefined) updates.frequency = input.frequency
+  if (input.dayOfWeek !== undefined) updates.day_of_week = input.dayOfWeek
+  if (input.dayOfMonth !== undefined) updates.day_of_month = input.dayOfMonth
+  if (input.timeOfDay !== undefined) updates.time_of_day = input.timeOfDay
+  if (input.recipients !== undefined) updates.recipients = input.recipients
+  if (input.sections !== undefined) updates.sections = input.sections
+  if (input.isEnabled !== undefined) updates.is_enabled = input.isEnabled
+
+  // Recalculate next run time if the timing changed or the schedule was re-enabled
+  if (
+    input.frequency !== undefined ||
+    input.dayOfWeek !== undefined ||
+    input.dayOfMonth !== undefined ||
+    input.timeOfDay !== undefined ||
+    (input.isEnabled && !current.is_enabled)
+  ) {
+    updates.next_run_at = calculateNextRunTime({
+      frequency: input.frequency ?? current.frequency,
+      dayOfWeek: input.dayOfWeek !== undefined ? input.dayOfWeek : current.day_of_week,
+      dayOfMonth: input.dayOfMonth !== undefined ? input.dayOfMonth : current.day_of_month,
+      timeOfDay: input.timeOfDay ?? current.time_of_day,
+      lastRunAt: current.last_run_at,
+    })
+  }
+
+  const schedule = await prisma.report_schedules.update({
+    where: { domain_id: domainId },
+    data: updates,
+  })
+
+  return mapSchedule(schedule)
+}
+
+/**
+ * Delete a digest delivery schedule. Digests already sent are kept.
+ */
+export async function deleteReportSchedule(domainId: string): Promise<void> {
+  await prisma.report_schedules.delete({
+    where: { domain_id: domainId },
+  })
+}
+
+/**
+ * Get enabled digest schedules that are due to run, longest overdue first
+ */
+export async function getReportSchedulesDue(limit: number = 20): Promise<DueReportSchedule[]> {
+  const schedules = await prisma.report_schedules.findMany({
+    where: {
+      is_enabled: true,
+      next_run_at: { lte: new Date() },
+    },
+    orderBy: { next_run_at: 'asc' },
+    take: limit,
+    select: { id: true, domain_id: true, frequency: true, recipients: true, sections: true },
+  })
+
+  return schedules.map((s) => ({
+    id: s.id,
+    domainId: s.domain_id,
+    frequency: s.frequency,
+    recipients: s.recipients,
+    sections: s.sections as DigestSection[],
+  }))
+}
+
+/**
+ * Record a scheduled run and advance next_run_at
+ */
+export async function updateReportScheduleAfterRun(domainId: string): Promise<void> {
+  const schedule = await prisma.report_schedules.findUnique({
+    where: { domain_id: domainId },
+  })
+
+  if (!schedule) return
+
+  const now = new Date()
+  const nextRunAt = calculateNextRunTime({
+    frequency: schedule.frequency,
+    dayOfWeek: schedule.day_of_week,
+    dayOfMonth: schedule.day_of_month,
+    timeOfDay: schedule.time_of_day,
+    lastRunAt: now,
+  })
+
+  await prisma.report_schedules.update({
+    where: { domain_id: domainId },
+    data: { last_run_at: now, next_run_at: nextRunAt },
+  })
+}
+
+/**
+ * Advance next_run_at past a run whose digest couldn't be compiled, without
+ * recording a run, so the schedule retries at its next slot instead of
+ * staying due
+ */
+export async function skipReportScheduleRun(domainId: string): Promise<void> {
+  const schedule = await prisma.report_schedules.findUnique({
+    where: { domain_id: domainId },
+  })
+
+  if (!schedule) return
+
+  const nextRunAt = calculateNextRunTime({
+    frequency: schedule.frequency,
+    dayOfWeek: schedule.day_of_week,
+    dayOfMonth: schedule.day_of_month,
+    timeOfDay: schedule.time_of_day,
+    lastRunAt: schedule.last_run_at,
+  })
+
+  await prisma.report_schedules.update({
+    where: { domain_id: domainId },
+    data: { next_run_at: nextRunAt },
+  })
+}
+
+// ============================================
+// Digests
+// ============================================
+
+export interface ReportDigestSummary {
+  id: string
+  domainId: string
+  periodStart: Date
+  periodEnd: Date
+  subject: string
+  recipients: string[]
+  status: ReportDeliveryStatus
+  attempts: number
+  sentAt: Date | null
+  deliveryError: string | null
+  createdAt: Date
+}
+
+export interface ReportDigest extends ReportDigestSummary {
+  html: string
+  text: string
+}
+
+const digestSummarySelect = {
+  id: true,
+  domain_id: true,
+  period_start: true,
+  period_end: true,
+  subject: true,
+  recipients: true,
+  status: true,
+  attempts: true,
+  sent_at: true,
+  delivery_error: true,
+  created_at: true,
+} satisfies Prisma.report_digestsSelect
+
+function mapDigestSummary(
+  digest: Prisma.report_digestsGetPayload<{ select: typeof digestSummarySelect }>
+): ReportDigestSummary {
+  return {
+    id: digest.id,
+    domainId: digest.domain_id,
+    periodStart: digest.period_start,
+    periodEnd: digest.period_end,
+    subject: digest.subject,
+    recipients: digest.recipients,
+    status: digest.status,
+    attempts: digest.attempts,
+    sentAt: digest.sent_at,
+    deliveryError: digest.delivery_error,
+    createdAt: digest.created_at,
+  }
+}
+
+/**
+ * Compile and store a digest for a schedule's most recent period.
+ * The rendered email and its data snapshot are never changed afterwards,
+ * so resending delivers exactly what was compiled.
+ */
+export async function compileReportDigest(
+  schedule: DueReportSchedule,
+  runAt: Date = new Date()
+): Promise<ReportDigestSummary | null> {
+  const period = getDigestPeriod(schedule.frequency, runAt)
+  const data = await collectDigestData(schedule.domainId, period, schedule.sections)
+  if (!data) return null
+
+  const { subject, html, text } = renderDigestEmail(data)
+
+  const digest = await prisma.report_digests.create({
+    data: {
+      domain_id: schedule.domainId,
+      schedule_id: schedule.id,
+      period_start: period.from,
+      period_end: period.to,
+      subject: subject.slice(0, 300),
+      html,
+      text,
+      data: JSON.parse(JSON.stringify(data)) as Prisma.InputJsonValue,
+      recipients: schedule.recipients,
+    },
+    select: digestSummarySelect,
+  })
+
+  return mapDigestSummary(digest)
+}
+
+/**
+ * List a domain's digests, newest first
+ */
+export async function listReportDigests(
+  domainId: string,
+  limit: number = 24
+): Promise<ReportDigestSummary[]> {
+  const digests = await prisma.report_digests.findMany({
+    where: { domain_id: domainId },
+    orderBy: { created_at: 'desc' },
+    take: limit,
+    select: digestSummarySelect,
+  })
+
+  return digests.map(mapDigestSummary)
+}
+
+/**
+ * Get a digest with its rendered bodies
+ */
+export async function getReportDigest(digestId: string): Promise<ReportDigest | null> {
+  const digest = await prisma.report_digests.findUnique({
+    where: { id: digestId },
+    select: { ...digestSummarySelect, html: true, text: true },
+  })
+
+  return digest ? { ...mapDigestSummary(digest), html: digest.html, text: digest.text } : null
+}
+
+/**
+ * Get a digest if the user has at least `minRole` on its domain
+ */
+export async function getReportDigestForUser(
+  digestId: string,
+  userId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
+): Promise<ReportDigest | null> {
+  const digest = await prisma.report_digests.findFirst({
+    where: { id: digestId, domain: domainAccessWhere(userId, minRole) },
+    select: { ...digestSummarySelect, html: true, text: true },
+  })
+
+  return digest ? { ...mapDigestSummary(digest), html: digest.html, text: digest.text } : null
+}
+
+export async function markDigestSent(digestId: string): Promise<void> {
+  await prisma.report_digests.update({
+    where: { id: digestId },
+    data: {
+      status: 'SENT',
+      sent_at: new Date(),
+      delivery_error: null,
+      attempts: { increment: 1 },
+    },
+  })
+}
+
+export async function markDigestFailed(digestId: string, error: string): Promise<void> {
+  await prisma.report_digests.update({
+    where: { id: digestId },
+    data: {
+      status: 'FAILED',
+      delivery_error: error.slice(0, 1000),
+      attempts: { increment: 1 },
+    },
+  })
+}
+
+/**
+ * Put a digest back in the delivery queue. The stored email is sent as-is.
+ */
+export async function queueDigestResend(digestId: string): Promise<ReportDigestSummary> {
+  const digest = await prisma.report_digests.update({
+    where: { id: digestId },
+    data: { status: 'PENDING', delivery_error: null },
+    select: digestSummarySelect,
+  })
+
+  return mapDigestSummary(digest)
+}
@@ -0,0 +1,402 @@
+/**
+ * Share Link Operations
+ *
+ * Public read-only links to one dashboard or result page. Links are created
+ * and revoked by domain members; resolving a link is anonymous and counts a
+ * view. See `@/lib/share/tokens` for the token format.
+ */
+
+import type { ShareResourceType, WorkspaceRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { signShareToken, verifyShareToken } from '@/lib/share/tokens'
+import type {
+  SharedAiSeoRun,
+  SharedGridScan,
+  SharedKeywordRun,
+  SharedResource,
+  SharedView,
+} from '@/lib/share/types'
+import type { CompetitorRanking } from '@/lib/local-seo/types'
+import type { GridShape, ServiceArea } from '@/lib/local-seo/grid-calculator'
+import { DIGEST_SECTIONS } from '@/lib/reports/types'
+import { getAISeoResults, getAISeoRun, getPlatformScores } from './ai-seo-operations'
+import { getKeywordTrackingRun, getRunResults } from './keyword-tracking-operations'
+import { getAllGridPoints, getGridScan } from './local-campaign-operations'
+import { collectDigestData, getReportBranding } from './report-operations'
+import { domainAccessWhere } from './workspace-operations'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DASHBOARD_WINDOW_DAYS = 30
+const MAX_SHARED_KEYWORDS = 500
+
+export class ShareLinkError extends Error {
+  public status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ShareLinkError'
+    this.status = status
+  }
+}
+
+export interface ShareLink {
+  id: string
+  domainId: string
+  resourceType: ShareResourceType
+  resourceId: string | null
+  label: string | null
+  token: string
+  expiresAt: Date
+  revokedAt: Date | null
+  viewCount: number
+  lastViewedAt: Date | null
+  createdAt: Date
+}
+
+export interface CreateShareLinkInput {
+  resourceType: ShareResourceType
+  resourceId?: string | null
+  label?: string | null
+  expiresInDays: number
+}
+
+function mapShareLink(link: {
+  id: string
+  domain_id: string
+  resource_type: ShareResourceType
+  resource_id: string | null
+  label: string | null
+  expires_at: Date
+  revoked_at: Date | null
+  view_count: number
+  last_viewed_at: Date | null
+  created_at: Date
+}): ShareLink {
+  return {
+    id: link.id,
+    domainId: link.domain_id,
+    resourceType: link.resource_type,
+    resourceId: link.resource_id,
+    label: link.label,
+    token: signShareToken(link.id, link.expires_at),
+    expiresAt: link.expires_at,
+    revokedAt: link.revoked_at,
+    viewCount: link.view_count,
+    lastViewedAt: link.last_viewed_at,
+    createdAt: link.created_at,
+  }
+}
+
+/**
+ * Whether a run or scan belongs to the domain it is being shared from
+ */
+async function resourceBelongsToDomain(
+  type: ShareResourceType,
+  resourceId: string,
+  domainId: string
+): Promise<boolean> {
+  switch (type) {
+    case 'KEYWORD_RUN':
+      return (
+        (await prisma.keyword_tracking_runs.count({
+          where: { id: resourceId, domain_id: domainId },
+        })) > 0
+      )
+    case 'GRID_SCAN':
+      return (
+        (await prisma.grid_scans.count({
+          where: { id: resourceId, local_campaigns: { domain_id: domainId } },
+        })) > 0
+      )
+    case 'AI_SEO_RUN':
+      return (
+        (await prisma.ai_seo_runs.count({
+          where: { id: resourceId, domain_id: domainId },
+        })) > 0
+      )
+    case 'DASHBOARD':
+      return true
+  }
+}
+
+/**
+ * Create a share link. The caller must already have checked ANALYST access to the domain.
+ */
+export async function createShareLink(
+  domainId: string,
+  userId: string,
+  input: CreateShareLinkInput
+): Promise<ShareLink> {
+  const resourceId = input.resourceType === 'DASHBOARD' ? null : (input.resourceId ?? null)
+
+  if (input.resourceType !== 'DASHBOARD') {
+    if (!resourceId) {
+      throw new ShareLinkError('Resource ID is required', 400)
+    }
+    if (!(await resourceBelongsToDomain(input.resourceType, resourceId, domainId))) {
+      throw new ShareLinkError('Resource not found', 404)
+    }
+  }
+
+  const link = await prisma.share_links.create({
+    data: {
+      domain_id: domainId,
+      resource_type: input.resourceType,
+      resource_id: resourceId,
+      label: input.label || null,
+      created_by: userId,
+      expires_at: new Date(Date.now() + input.expiresInDays * DAY_MS),
+    },
+  })
+
+  return mapShareLink(link)
+}
+
+/**
+ * List a domain's share links, newest first, including revoked and expired ones.
+ * Pass a resource to list only the links for that dashboard, run or scan.
+ */
+export async function listShareLinks(
+  domainId: string,
+  resource?: { type: ShareResourceType; id?: string | null }
+): Promise<ShareLink[]> {
+  const links = await prisma.share_links.findMany({
+    where: {
+      domain_id: domainId,
+      ...(resource && { resource_type: resource.type, resource_id: resource.id ?? null }),
+    },
+    orderBy: { created_at: 'desc' },
+  })
+
+  return links.map(mapShareLink)
+}
+
+/**
+ * Revoke a share link if the user has at least `minRole` on its domain
+ */
+export async function revokeShareLink(
+  linkId: string,
+  userId: string,
+  minRole: WorkspaceRole = 'ANALYST'
+): Promise<ShareLink> {
+  const link = await prisma.share_links.findFirst({
+    where: { id: linkId, domain: domainAccessWhere(userId, minRole) },
+  })
+
+  if (!link) {
+    throw new ShareLinkError('Share link not found', 404)
+  }
+
+  if (link.revoked_at) return mapShareLink(link)
+
+  const revoked = await prisma.share_links.update({
+    where: { id: linkId },
+    data: { revoked_at: new Date() },
+  })
+
+  return mapShareLink(revoked)
+}
+
+// ============================================
+// Public resolution
+// ============================================
+
+/**
+ * Resolve a public share token into the shared view and count the visit.
+ * Returns null when the token is invalid, expired or revoked, or when the
+ * shared run or scan no longer exists.
+ */
+export async function resolveShareLink(token: string): Promise<SharedView | null> {
+  const payload = verifyShareToken(token)
+  if (!payload) return null
+
+  const link = await prisma.share_links.findUnique({
+    where: { id: payload.linkId },
+    include: { domain: { select: { name: true, domain: true, business_name: true } } },
+  })
+
+  // The stored expiry is authoritative; the token only carries a copy of it
+  if (!link || link.revoked_at || link.expires_at <= new Date()) return null
+  if (Math.floor(link.expires_at.getTime() / 1000) !== payload.expiresAt.getTime() / 1000) {
+    return null
+  }
+
+  const resource = await loadSharedResource(link.resource_type, link.resource_id, link.domain_id)
+  if (!resource) return null
+
+  const [branding] = await Promise.all([
+    getReportBranding(link.domain_id),
+    prisma.share_links.update({
+      where: { id: link.id },
+      data: { view_count: { increment: 1 }, last_viewed_at: new Date() },
+    }),
+  ])
+
+  return {
+    label: link.label,
+    expiresAt: link.expires_at,
+    domain: {
+      name: link.domain.name,
+      domain: link.domain.domain,
+      businessName: link.domain.business_name,
+    },
+    branding,
+    resource,
+  }
+}
+
+async function loadSharedResource(
+  type: ShareResourceType,
+  resourceId: string | null,
+  domainId: string
+): Promise<SharedResource | null> {
+  if (type === 'DASHBOARD') {
+    const now = new Date()
+    const summary = await collectDigestData(
+      domainId,
+      { from: new Date(now.getTime() - DASHBOARD_WINDOW_DAYS * DAY_MS), to: now },
+      [...DIGEST_SECTIONS]
+    )
+    return summary ? { type: 'DASHBOARD', summary } : null
+  }
+
+  if (!resourceId) return null
+
+  switch (type) {
+    case 'KEYWORD_RUN':
+      return loadKeywordRun(resourceId, domainId)
+    case 'GRID_SCAN':
+      return loadGridScan(resourceId, domainId)
+    case 'AI_SEO_RUN':
+      return loadAiSeoRun(resourceId, domainId)
+  }
+}
+
+async function loadKeywordRun(runId: string, domainId: string): Promise<SharedKeywordRun | null> {
+  const run = await getKeywordTrackingRun(runId)
+  if (!run || run.domainId !== domainId) return null
+
+  const { results } = await getRunResults(runId, { limit: MAX_SHARED_KEYWORDS })
+
+  return {
+    type: 'KEYWORD_RUN',
+    run: {
+      id: run.id,
+      status: run.status,
+      keywordsTracked: run.keywordsTracked,
+      avgPosition: run.avgPosition,
+      keywordsInTop3: run.keywordsInTop3,
+      keywordsInTop10: run.keywordsInTop10,
+      keywordsInTop100: run.keywordsInTop100,
+      keywordsNotRanking: run.keywordsNotRanking,
+      improvedCount: run.improvedCount,
+      declinedCount: run.declinedCount,
+      unchangedCount: run.unchangedCount,
+      newRankingsCount: run.newRankingsCount,
+      lostRankingsCount: run.lostRankingsCount,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt,
+      createdAt: run.createdAt,
+      locationName: run.locationName,
+      languageCode: run.languageCode,
+      errorMessage: run.errorMessage,
+    },
+    results: results.map((r) => ({
+      keyword: r.keyword,
+      searchVolume: r.searchVolume,
+      position: r.position,
+      previousPosition: r.previousPosition,
+      positionChange: r.positionChange,
+      rankingUrl: r.rankingUrl,
+    })),
+  }
+}
+
+async function loadGridScan(scanId: string, domainId: string): Promise<SharedGridScan | null> {
+  const scan = await getGridScan(scanId)
+  if (!scan) return null
+
+  const campaign = await prisma.local_campaigns.findFirst({
+    where: { id: scan.campaign_id, domain_id: domainId },
+    select: { id: true },
+  })
+  if (!campaign) return null
+
+  const points = await getAllGridPoints(scanId)
+
+  return {
+    type: 'GRID_SCAN',
+    scan: {
+      id: scan.id,
+      campaignName: scan.local_campaigns.business_name,
+      keywords: scan.local_campaigns.keywords,
+      gridSize: scan.local_campaigns.grid_size,
+      radiusMiles: Number(scan.local_campaigns.grid_radius_miles),
+      gridShape: scan.local_campaigns.grid_shape as GridShape,
+      serviceArea: scan.local_campaigns.service_area as ServiceArea | null,
+      centerLat: Number(scan.local_campaigns.center_lat),
+      centerLng: Number(scan.local_campaigns.center_lng),
+      completedAt: scan.completed_at,
+      avgRank: scan.avg_rank ? Number(scan.avg_rank) : null,
+      shareOfVoice: scan.share_of_voice ? Number(scan.share_of_voice) : null,
+    },
+    points: points.map((point) => ({
+      row: point.grid_row,
+      col: point.grid_col,
+      lat: Number(point.lat),
+      lng: Number(point.lng),
+      keyword: point.keyword,
+      rank: point.rank,
+      topRankings: (point.top_rankings as unknown as CompetitorRanking[]) ?? [],
+    })),
+  }
+}
+
+async function loadAiSeoRun(runId: string, domainId: string): Promise<SharedAiSeoRun | null> {
+  const run = await getAISeoRun(runId)
+  if (!run || run.domainId !== domainId) return null
+
+  const completed = run.status === 'COMPLETED'
+  const [platformScores, results] = await Promise.all([
+    getPlatformScores(runId),
+    completed ? getAISeoResults(runId) : [],
+  ])
+
+  let recommendations: SharedAiSeoRun['recommendations'] = []
+  if (completed && run.recommendations) {
+    try {
+      const parsed = JSON.parse(run.recommendations)
+      if (Array.isArray(parsed)) recommendations = parsed
+    } catch {
+      // Invalid JSON, ignore
+    }
+  }
+
+  return {
+    type: 'AI_SEO_RUN',
+    run: {
+      id: run.id,
+      businessName: run.businessName,
+      keywords: run.keywords,
+      llmPlatforms: run.llmPlatforms,
+      visibilityScore: run.visibilityScore,
+      totalMentions: run.totalMentions,
+      totalCitations: run.totalCitations,
+      completedAt: run.completedAt,
+    },
+    platformScores: platformScores.map((s) => ({
+      llmPlatform: s.llmPlatform,
+      mentionRate: s.mentionRate,
+      citationRate: s.citationRate,
+      visibilityScore: s.visibilityScore,
+    })),
+    recommendations,
+    results: results.map((r) => ({
+      keyword: r.keyword,
+      llmPlatform: r.llmPlatform,
+      isMentioned: r.isMentioned,
+      mentionRank: r.mentionRank,
+      isCited: r.isCited,
+    })),
+  }
+}
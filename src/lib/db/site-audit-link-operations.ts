@@ -0,0 +1,159 @@
+/**
+ * Site Audit Link Graph Operations
+ *
+ * Stores a crawl's internal links and the per-page metrics derived from them
+ * (inbound/outbound links, click depth, link score), and builds the link
+ * graph report. Used by the site audit function and
+ * `/api/site-audit/scans/[scanId]/links`.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  analyzeLinkGraph,
+  normalizeAnchor,
+  normalizeLinkUrl,
+  summarizeLinkGraph,
+  type AnchorTextCount,
+  type LinkGraphLink,
+  type LinkGraphReport,
+  type LinkGraphReportPage,
+} from '@/lib/seo/link-graph'
+
+const LINK_BATCH_SIZE = 1000
+const PAGE_BATCH_SIZE = 500
+const ANCHORS_PER_PAGE = 10
+
+// ============================================
+// Analysis
+// ============================================
+
+/**
+ * Replace a scan's stored links and recompute every page's link metrics
+ */
+export async function saveSiteAuditLinkGraph(
+  scanId: string,
+  startUrl: string | null,
+  links: LinkGraphLink[]
+): Promise<{ links: number; pages: number }> {
+  const pages = await prisma.site_audit_pages.findMany({
+    where: { scan_id: scanId },
+    select: { id: true, url: true },
+  })
+
+  // Retries start over rather than duplicating links
+  await prisma.site_audit_links.deleteMany({ where: { scan_id: scanId } })
+
+  for (let i = 0; i < links.length; i += LINK_BATCH_SIZE) {
+    await prisma.site_audit_links.createMany({
+      data: links.slice(i, i + LINK_BATCH_SIZE).map((link) => ({
+        scan_id: scanId,
+        source_url: link.source.slice(0, 2000),
+        target_url: normalizeLinkUrl(link.target).slice(0, 2000),
+        anchor: normalizeAnchor(link.anchor),
+        is_dofollow: link.dofollow,
+      })),
+    })
+  }
+
+  const metrics = analyzeLinkGraph(
+    pages.map((page) => page.url),
+    links,
+    startUrl
+  )
+
+  for (let i = 0; i < pages.length; i += PAGE_BATCH_SIZE) {
+    const updates: Prisma.PrismaPromise<unknown>[] = []
+    for (const page of pages.slice(i, i + PAGE_BATCH_SIZE)) {
+      const pageMetrics = metrics.get(page.url)
+      if (!pageMetrics) continue
+      updates.push(
+        prisma.site_audit_pages.update({
+          where: { id: page.id },
+          data: {
+            inbound_links: pageMetrics.inboundLinks,
+            outbound_links: pageMetrics.outboundLinks,
+            click_depth: pageMetrics.clickDepth,
+            link_score: pageMetrics.linkScore,
+          },
+        })
+      )
+    }
+    if (updates.length > 0) await prisma.$transaction(updates)
+  }
+
+  return { links: links.length, pages: metrics.size }
+}
+
+// ============================================
+// Report
+// ============================================
+
+async function getAnchorDistribution(scanId: string): Promise<Map<string, AnchorTextCount[]>> {
+  const groups = await prisma.site_audit_links.groupBy({
+    by: ['target_url', 'anchor'],
+    where: { scan_id: scanId },
+    _count: { _all: true },
+  })
+
+  const byTarget = new Map<string, AnchorTextCount[]>()
+  for (const group of groups) {
+    const anchors = byTarget.get(group.target_url) ?? []
+    anchors.push({ anchor: group.anchor, count: group._count._all })
+    byTarget.set(group.target_url, anchors)
+  }
+  for (const anchors of byTarget.values()) {
+    anchors.sort((a, b) => b.count - a.count)
+  }
+
+  return byTarget
+}
+
+/**
+ * Link graph report for a scan's indexable pages. Pages are underlinked
+ * below `minInboundLinks` inbound links.
+ */
+export async function getSiteAuditLinkGraph(
+  scanId: string,
+  minInboundLinks: number
+): Promise<LinkGraphReport> {
+  const [records, totalLinks, anchors] = await Promise.all([
+    prisma.site_audit_pages.findMany({
+      where: { scan_id: scanId, status_code: 200, is_redirect: false },
+      select: {
+        id: true,
+        url: true,
+        title: true,
+        inbound_links: true,
+        outbound_links: true,
+        click_depth: true,
+        link_score: true,
+      },
+      orderBy: [{ link_score: { sort: 'desc', nulls: 'last' } }, { url: 'asc' }],
+    }),
+    prisma.site_audit_links.count({ where: { scan_id: scanId } }),
+    getAnchorDistribution(scanId),
+  ])
+
+  const analysed = records.some((page) => page.inbound_links !== null)
+  const pages: LinkGraphReportPage[] = analysed
+    ? records.map((page) => ({
+        id: page.id,
+        url: page.url,
+        title: page.title,
+        inboundLinks: page.inbound_links ?? 0,
+        outboundLinks: page.outbound_links ?? 0,
+        clickDepth: page.click_depth,
+        linkScore: page.link_score ? Number(page.link_score) : 0,
+        anchors: (anchors.get(normalizeLinkUrl(page.url)) ?? []).slice(0, ANCHORS_PER_PAGE),
+      }))
+    : []
+
+  return {
+    analysed,
+    totalLinks,
+    minInboundLinks,
+    pages,
+    ...summarizeLinkGraph(pages, minInboundLinks),
+  }
+}
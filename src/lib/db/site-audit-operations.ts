@@ -5,7 +5,21 @@
  */
 
 import { prisma } from '@/lib/prisma';
-import { SiteAuditStatus, Prisma } from '@prisma/client';
+import { SiteAuditStatus, Prisma, type WorkspaceRole } from '@prisma/client';
+import { domainAccessWhere, resourceAccessWhere } from './workspace-operations';
+import { calculateNextRunTime } from './keyword-tracking-operations';
+import { getDomainThresholdProfile } from './threshold-profile-operations';
+import {
+  diffSiteAuditScans,
+  type DiffOptions,
+  type SiteAuditDiff,
+} from '@/lib/seo/site-audit-diff';
+import { formatIssueType, parseRuleSnapshots } from '@/lib/seo/site-audit-rules';
+import {
+  parseStructuredData,
+  type StructuredDataItem,
+  type StructuredDataPageInput,
+} from '@/lib/seo/structured-data';
 import crypto from 'crypto';
 
 // ============================================================================
@@ -22,14 +36,18 @@ export interface CreateScanInput {
   startUrl?: string;
   auditId?: string;
   domainId?: string; // Optional domain link
+  triggeredBy?: ScanTrigger;
 }
 
+export type ScanTrigger = 'manual' | 'scheduled' | 'api';
+
 export interface ScanListItem {
   id: string;
   domain: string;
   status: SiteAuditStatus;
   progress: number;
   maxCrawlPages: number;
+  triggeredBy: string;
   createdAt: Date;
   completedAt: Date | null;
   summary: {
@@ -85,6 +103,45 @@ export interface CompletionMetrics {
   apiCost?: number;
 }
 
+export type ScheduleFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface SiteAuditScheduleInput {
+  domainId: string;
+  frequency: ScheduleFrequency;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  timeOfDay?: string;
+}
+
+export interface SiteAuditSchedule {
+  id: string;
+  domainId: string;
+  isEnabled: boolean;
+  frequency: string;
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  timeOfDay: string;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastScanId: string | null;
+}
+
+export interface DueSiteAuditSchedule {
+  id: string;
+  domainId: string;
+  domain: string;
+  userId: string;
+  // Crawl settings from domain_settings
+  maxCrawlPages: number;
+  enableJavascript: boolean;
+}
+
+export interface ScanComparison {
+  base: { id: string; createdAt: Date; completedAt: Date | null };
+  target: { id: string; createdAt: Date; completedAt: Date | null };
+  diff: SiteAuditDiff;
+}
+
 // ============================================================================
 // Scan Operations
 // ============================================================================
@@ -100,7 +157,7 @@ export async function createSiteAuditScan(
   let domainId = input.domainId;
   if (!domainId) {
     const domainRecord = await prisma.domains.findFirst({
-      where: { user_id: userId, domain: input.domain },
+      where: { domain: input.domain, ...domainAccessWhere(userId, 'ANALYST') },
       select: { id: true },
     });
     if (domainRecord) {
@@ -120,6 +177,7 @@ export async function createSiteAuditScan(
       calculate_keyword_density: input.calculateKeywordDensity ?? false,
       start_url: input.startUrl,
       audit_id: input.auditId,
+      triggered_by: input.triggeredBy ?? 'manual',
       status: SiteAuditStatus.PENDING,
       progress: 0,
     },
@@ -171,6 +229,7 @@ export async function getSiteAuditScanWithRelations(scanId: string) {
     completedAt: scan.completed_at,
     apiCost: scan.api_cost,
     errorMessage: scan.error_message,
+    customRules: parseRuleSnapshots(scan.custom_rules),
     createdAt: scan.created_at,
     updatedAt: scan.updated_at,
     users: scan.users,
@@ -180,11 +239,15 @@ export async function getSiteAuditScanWithRelations(scanId: string) {
 }
 
 /**
- * Get scan for user validation
+ * Get scan for user validation (creator or workspace member with at least `minRole`)
  */
-export async function getScanForUser(scanId: string, userId: string) {
+export async function getScanForUser(
+  scanId: string,
+  userId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
+) {
   return prisma.site_audit_scans.findFirst({
-    where: { id: scanId, user_id: userId },
+    where: { id: scanId, ...resourceAccessWhere(userId, minRole) },
   });
 }
 
@@ -313,9 +376,8 @@ export async function listUserScans(
 
   const scans = await prisma.site_audit_scans.findMany({
     where: {
-      user_id: userId,
+      AND: [resourceAccessWhere(userId), domainFilter],
       ...(options?.status && { status: options.status }),
-      ...domainFilter,
     },
     orderBy: { created_at: 'desc' },
     take: options?.limit ?? 50,
@@ -337,6 +399,7 @@ export async function listUserScans(
     status: s.status,
     progress: s.progress,
     maxCrawlPages: s.max_crawl_pages,
+    triggeredBy: s.triggered_by,
     createdAt: s.created_at,
     completedAt: s.completed_at,
     summary: s.summary
@@ -351,6 +414,58 @@ export async function listUserScans(
   }));
 }
 
+/**
+ * List scans linked to a domain with pagination
+ */
+export async function listDomainSiteAuditScans(
+  domainId: string,
+  options?: { limit?: number; offset?: number }
+): Promise<{ scans: ScanListItem[]; total: number }> {
+  const where = { domain_id: domainId };
+
+  const [scans, total] = await Promise.all([
+    prisma.site_audit_scans.findMany({
+      where,
+      orderBy: { created_at: 'desc' },
+      take: options?.limit ?? 20,
+      skip: options?.offset ?? 0,
+      include: {
+        summary: {
+          select: {
+            crawled_pages: true,
+            onpage_score: true,
+            errors_count: true,
+          },
+        },
+      },
+    }),
+    prisma.site_audit_scans.count({ where }),
+  ]);
+
+  return {
+    scans: scans.map((s) => ({
+      id: s.id,
+      domain: s.domain,
+      status: s.status,
+      progress: s.progress,
+      maxCrawlPages: s.max_crawl_pages,
+      triggeredBy: s.triggered_by,
+      createdAt: s.created_at,
+      completedAt: s.completed_at,
+      summary: s.summary
+        ? {
+            crawledPages: s.summary.crawled_pages,
+            onpageScore: s.summary.onpage_score
+              ? Number(s.summary.onpage_score)
+              : null,
+            errorsCount: s.summary.errors_count,
+          }
+        : null,
+    })),
+    total,
+  };
+}
+
 /**
  * Get scan status for polling
  */
@@ -466,7 +581,7 @@ export async function getSiteAuditSummary(scanId: string) {
 /**
  * Generate URL hash for deduplication
  */
-function generateUrlHash(url: string): string {
+export function generateUrlHash(url: string): string {
   return crypto.createHash('sha256').update(url).digest('hex').slice(0, 64);
 }
 
@@ -675,7 +790,7 @@ export async function getSiteAuditPageByUrl(scanId: string, url: string) {
  */
 export async function countUserScans(userId: string): Promise<number> {
   return prisma.site_audit_scans.count({
-    where: { user_id: userId },
+    where: resourceAccessWhere(userId),
   });
 }
 
@@ -945,6 +1060,53 @@ export async function getNonIndexablePages(scanId: string) {
   return nonIndexable;
 }
 
+/**
+ * Save the structured data collected for crawled pages
+ */
+export async function saveSiteAuditStructuredData(
+  scanId: string,
+  pages: Array<{ url: string; items: StructuredDataItem[] }>
+): Promise<void> {
+  for (const page of pages) {
+    await prisma.site_audit_pages.updateMany({
+      where: { scan_id: scanId, url_hash: generateUrlHash(page.url) },
+      data: { structured_data: page.items as unknown as Prisma.InputJsonValue },
+    });
+  }
+}
+
+/**
+ * Get indexable HTML pages with their structured data, for validation
+ */
+export async function getStructuredDataPages(scanId: string): Promise<StructuredDataPageInput[]> {
+  const pages = await prisma.site_audit_pages.findMany({
+    where: {
+      scan_id: scanId,
+      status_code: 200,
+      is_redirect: false,
+    },
+    select: {
+      id: true,
+      url: true,
+      title: true,
+      checks: true,
+      structured_data: true,
+    },
+    orderBy: { url: 'asc' },
+  });
+
+  return pages.map((p) => {
+    const checks = p.checks as Record<string, boolean> | null;
+    return {
+      id: p.id,
+      url: p.url,
+      title: p.title,
+      structuredData: parseStructuredData(p.structured_data),
+      hasMicromarkup: checks?.has_micromarkup === true,
+    };
+  });
+}
+
 /**
  * Get pages by specific issue type
  */
@@ -1006,9 +1168,16 @@ export async function getPagesByIssueType(
 // ============================================================================
 
 /**
- * Get all pages for CSV export (no pagination)
+ * Get all pages for CSV export (no pagination).
+ * Custom rule matches are listed by their rule message.
  */
 export async function getSiteAuditPagesForExport(scanId: string) {
+  const scan = await prisma.site_audit_scans.findUnique({
+    where: { id: scanId },
+    select: { custom_rules: true },
+  });
+  const customRules = parseRuleSnapshots(scan?.custom_rules);
+
   const pages = await prisma.site_audit_pages.findMany({
     where: { scan_id: scanId },
     orderBy: { url: 'asc' },
@@ -1035,9 +1204,330 @@ export async function getSiteAuditPagesForExport(scanId: string) {
     metaDescription: p.description,
     h1: p.h1_tags && p.h1_tags.length > 0 ? p.h1_tags[0] : null,
     wordCount: p.word_count,
-    issueTypes: p.issue_types.join(', '),
+    issueTypes: p.issue_types.map((type) => formatIssueType(type, customRules)).join(', '),
     issueCount: p.issue_count,
     isRedirect: p.is_redirect,
     redirectLocation: p.redirect_location,
   }));
 }
+
+// ============================================================================
+// Comparison Operations
+// ============================================================================
+
+/**
+ * Most recent completed scan of the same domain that finished before this one
+ */
+export async function getPreviousCompletedScan(scanId: string) {
+  const scan = await prisma.site_audit_scans.findUnique({
+    where: { id: scanId },
+    select: { domain: true, domain_id: true, created_at: true },
+  });
+
+  if (!scan) return null;
+
+  return prisma.site_audit_scans.findFirst({
+    where: {
+      id: { not: scanId },
+      status: SiteAuditStatus.COMPLETED,
+      created_at: { lt: scan.created_at },
+      ...(scan.domain_id ? { domain_id: scan.domain_id } : { domain: scan.domain }),
+    },
+    orderBy: { created_at: 'desc' },
+    select: { id: true },
+  });
+}
+
+/**
+ * Load the pages and summary of a scan in the shape the differ expects
+ */
+async function loadScanForDiff(scanId: string) {
+  const [summary, pages] = await Promise.all([
+    prisma.site_audit_summaries.findUnique({
+      where: { scan_id: scanId },
+      select: {
+        crawled_pages: true,
+        onpage_score: true,
+        errors_count: true,
+        warnings_count: true,
+        notices_count: true,
+      },
+    }),
+    prisma.site_audit_pages.findMany({
+      where: { scan_id: scanId },
+      select: {
+        url: true,
+        url_hash: true,
+        status_code: true,
+        onpage_score: true,
+        issue_types: true,
+      },
+    }),
+  ]);
+
+  return {
+    summary: summary
+      ? {
+          crawledPages: summary.crawled_pages,
+          onpageScore: summary.onpage_score ? Number(summary.onpage_score) : null,
+          errorsCount: summary.errors_count,
+          warningsCount: summary.warnings_count,
+          noticesCount: summary.notices_count,
+        }
+      : null,
+    pages: pages.map((p) => ({
+      urlHash: p.url_hash,
+      url: p.url,
+      statusCode: p.status_code,
+      onpageScore: p.onpage_score ? Number(p.onpage_score) : null,
+      issueTypes: p.issue_types,
+    })),
+  };
+}
+
+/**
+ * Compare two scans, classifying issues with the target scan's domain
+ * threshold profile. Callers are responsible for access checks on both.
+ */
+export async function compareScans(
+  base: { id: string; created_at: Date; completed_at: Date | null },
+  target: { id: string; created_at: Date; completed_at: Date | null },
+  options?: DiffOptions
+): Promise<ScanComparison> {
+  const [baseData, targetData, targetScan] = await Promise.all([
+    loadScanForDiff(base.id),
+    loadScanForDiff(target.id),
+    prisma.site_audit_scans.findUnique({ where: { id: target.id }, select: { domain_id: true } }),
+  ]);
+  const severity =
+    options?.severity ?? (await getDomainThresholdProfile(targetScan?.domain_id)).severity;
+
+  return {
+    base: { id: base.id, createdAt: base.created_at, completedAt: base.completed_at },
+    target: { id: target.id, createdAt: target.created_at, completedAt: target.completed_at },
+    diff: diffSiteAuditScans(baseData, targetData, { ...options, severity }),
+  };
+}
+
+// ============================================================================
+// Schedule Operations
+// ============================================================================
+
+function mapSchedule(schedule: {
+  id: string;
+  domain_id: string;
+  is_enabled: boolean;
+  frequency: string;
+  day_of_week: number | null;
+  day_of_month: number | null;
+  time_of_day: string;
+  next_run_at: Date | null;
+  last_run_at: Date | null;
+  last_scan_id: string | null;
+}): SiteAuditSchedule {
+  return {
+    id: schedule.id,
+    domainId: schedule.domain_id,
+    isEnabled: schedule.is_enabled,
+    frequency: schedule.frequency,
+    dayOfWeek: schedule.day_of_week,
+    dayOfMonth: schedule.day_of_month,
+    timeOfDay: schedule.time_of_day,
+    nextRunAt: schedule.next_run_at,
+    lastRunAt: schedule.last_run_at,
+    lastScanId: schedule.last_scan_id,
+  };
+}
+
+/**
+ * Create a recurring site audit schedule for a domain
+ */
+export async function createSiteAuditSchedule(
+  userId: string,
+  input: SiteAuditScheduleInput
+): Promise<SiteAuditSchedule> {
+  const nextRunAt = calculateNextRunTime({
+    frequency: input.frequency,
+    dayOfWeek: input.dayOfWeek ?? null,
+    dayOfMonth: input.dayOfMonth ?? null,
+    timeOfDay: input.timeOfDay ?? '06:00',
+    lastRunAt: null,
+  });
+
+  const schedule = await prisma.site_audit_schedules.create({
+    data: {
+      domain_id: input.domainId,
+      user_id: userId,
+      frequency: input.frequency,
+      day_of_week: input.dayOfWeek,
+      day_of_month: input.dayOfMonth,
+      time_of_day: input.timeOfDay ?? '06:00',
+      next_run_at: nextRunAt,
+    },
+  });
+
+  return mapSchedule(schedule);
+}
+
+/**
+ * Get the site audit schedule for a domain
+ */
+export async function getSiteAuditSchedule(
+  domainId: string
+): Promise<SiteAuditSchedule | null> {
+  const schedule = await prisma.site_audit_schedules.findUnique({
+    where: { domain_id: domainId },
+  });
+
+  return schedule ? mapSchedule(schedule) : null;
+}
+
+/**
+ * Update a site audit schedule
+ */
+export async function updateSiteAuditSchedule(
+  domainId: string,
+  input: Partial<Omit<SiteAuditScheduleInput, 'domainId'>> & { isEnabled?: boolean }
+): Promise<SiteAuditSchedule> {
+  const current = await prisma.site_audit_schedules.findUnique({
+    where: { domain_id: domainId },
+  });
+
+  if (!current) throw new Error('Schedule not found');
+
+  const updates: Prisma.site_audit_schedulesUpdateInput = {};
+
+  if (input.frequency !== undefined) updates.frequency = input.frequency;
+  if (input.dayOfWeek !== undefined) updates.day_of_week = input.dayOfWeek;
+  if (input.dayOfMonth !== undefined) updates.day_of_month = input.dayOfMonth;
+  if (input.timeOfDay !== undefined) updates.time_of_day = input.timeOfDay;
+  if (input.isEnabled !== undefined) updates.is_enabled = input.isEnabled;
+
+  // Recalculate next run time if the timing changed or the schedule was re-enabled
+  if (
+    input.frequency !== undefined ||
+    input.dayOfWeek !== undefined ||
+    input.dayOfMonth !== undefined ||
+    input.timeOfDay !== undefined ||
+    (input.isEnabled && !current.is_enabled)
+  ) {
+    updates.next_run_at = calculateNextRunTime({
+      frequency: input.frequency ?? current.frequency,
+      dayOfWeek: input.dayOfWeek ?? current.day_of_week,
+      dayOfMonth: input.dayOfMonth ?? current.day_of_month,
+      timeOfDay: input.timeOfDay ?? current.time_of_day,
+      lastRunAt: current.last_run_at,
+    });
+  }
+
+  const schedule = await prisma.site_audit_schedules.update({
+    where: { domain_id: domainId },
+    data: updates,
+  });
+
+  return mapSchedule(schedule);
+}
+
+/**
+ * Delete a site audit schedule
+ */
+export async function deleteSiteAuditSchedule(domainId: string): Promise<void> {
+  await prisma.site_audit_schedules.delete({
+    where: { domain_id: domainId },
+  });
+}
+
+/**
+ * Get enabled site audit schedules that are due to run, longest overdue first
+ */
+export async function getSiteAuditSchedulesDue(
+  limit: number = 20
+): Promise<DueSiteAuditSchedule[]> {
+  const schedules = await prisma.site_audit_schedules.findMany({
+    where: {
+      is_enabled: true,
+      next_run_at: { lte: new Date() },
+    },
+    orderBy: { next_run_at: 'asc' },
+    take: limit,
+    select: {
+      id: true,
+      domain_id: true,
+      user_id: true,
+      domains: {
+        select: {
+          domain: true,
+          domain_settings: {
+            select: { site_audit_max_pages: true, site_audit_enable_javascript: true },
+          },
+        },
+      },
+    },
+  });
+
+  return schedules.map((s) => ({
+    id: s.id,
+    domainId: s.domain_id,
+    domain: s.domains.domain,
+    userId: s.user_id,
+    maxCrawlPages: s.domains.domain_settings?.site_audit_max_pages ?? 100,
+    enableJavascript: s.domains.domain_settings?.site_audit_enable_javascript ?? true,
+  }));
+}
+
+/**
+ * Record a scheduled run and advance next_run_at
+ */
+export async function updateSiteAuditScheduleAfterRun(
+  domainId: string,
+  scanId: string
+): Promise<void> {
+  const schedule = await prisma.site_audit_schedules.findUnique({
+    where: { domain_id: domainId },
+  });
+
+  if (!schedule) return;
+
+  const now = new Date();
+  const nextRunAt = calculateNextRunTime({
+    frequency: schedule.frequency,
+    dayOfWeek: schedule.day_of_week,
+    dayOfMonth: schedule.day_of_month,
+    timeOfDay: schedule.time_of_day,
+    lastRunAt: now,
+  });
+
+  await prisma.site_audit_schedules.update({
+    where: { domain_id: domainId },
+    data: {
+      last_run_at: now,
+      last_scan_id: scanId,
+      next_run_at: nextRunAt,
+    },
+  });
+}
+
+/**
+ * Advance next_run_at past a run that was skipped, without recording a run,
+ * so the schedule waits for its next slot instead of staying due
+ */
+export async function skipSiteAuditScheduleRun(domainId: string): Promise<void> {
+  const schedule = await prisma.site_audit_schedules.findUnique({
+    where: { domain_id: domainId },
+  });
+
+  if (!schedule) return;
+
+  const nextRunAt = calculateNextRunTime({
+    frequency: schedule.frequency,
+    dayOfWeek: schedule.day_of_week,
+    dayOfMonth: schedule.day_of_month,
+    timeOfDay: schedule.time_of_day,
+    lastRunAt: schedule.last_run_at,
+  });
+
+  await prisma.site_audit_schedules.update({
+    where: { domain_id: domainId },
+    data: { next_run_at: nextRunAt },
+  });
+}
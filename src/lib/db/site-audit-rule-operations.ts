@@ -0,0 +1,271 @@
+/**
+ * Custom Site Audit Rule Operations
+ *
+ * Per-domain user-defined audit rules and their application to a finished
+ * crawl. Matches are written into each page's `issue_types` and added to the
+ * scan's issue counts, and the applied rules are snapshotted on the scan.
+ * Used by `/api/site-audit/rules` routes and the site audit function.
+ */
+
+import type { Prisma, WorkspaceRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { IssueSeverity } from '@/lib/constants/seo-thresholds'
+import {
+  customIssueType,
+  evaluateRules,
+  parseCustomIssueType,
+  siteAuditRuleConditionsSchema,
+  type SiteAuditRuleCondition,
+  type SiteAuditRuleDefinition,
+  type SiteAuditRuleSnapshot,
+} from '@/lib/seo/site-audit-rules'
+import { createTimedPatternTester } from '@/lib/seo/pattern-timeout'
+import { domainAccessWhere } from './workspace-operations'
+
+// ============================================
+// Types
+// ============================================
+
+export interface SiteAuditRule extends SiteAuditRuleDefinition {
+  domainId: string
+  isEnabled: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SiteAuditRuleInput {
+  message: string
+  severity: IssueSeverity
+  conditions: SiteAuditRuleCondition[]
+  isEnabled?: boolean
+}
+
+const PAGE_BATCH_SIZE = 500
+
+// ============================================
+// Rule Operations
+// ============================================
+
+/**
+ * List custom rules for a domain, oldest first
+ */
+export async function listSiteAuditRules(domainId: string): Promise<SiteAuditRule[]> {
+  const rules = await prisma.site_audit_rules.findMany({
+    where: { domain_id: domainId },
+    orderBy: { created_at: 'asc' },
+  })
+
+  return rules.map(mapRule)
+}
+
+/**
+ * Get a rule if the user can access its domain with at least `minRole`
+ */
+export async function getSiteAuditRuleForUser(
+  ruleId: string,
+  userId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
+): Promise<SiteAuditRule | null> {
+  const rule = await prisma.site_audit_rules.findFirst({
+    where: { id: ruleId, domain: domainAccessWhere(userId, minRole) },
+  })
+
+  return rule ? mapRule(rule) : null
+}
+
+export async function createSiteAuditRule(
+  domainId: string,
+  userId: string,
+  input: SiteAuditRuleInput
+): Promise<SiteAuditRule> {
+  const rule = await prisma.site_audit_rules.create({
+    data: {
+      domain_id: domainId,
+      created_by: userId,
+      message: input.message,
+      severity: input.severity,
+      conditions: input.conditions as unknown as Prisma.InputJsonValue,
+      is_enabled: input.isEnabled ?? true,
+    },
+  })
+
+  return mapRule(rule)
+}
+
+/**
+ * Update a rule. Crawls already run keep the matches and labels they had.
+ */
+export async function updateSiteAuditRule(
+  ruleId: string,
+  input: Partial<SiteAuditRuleInput>
+): Promise<SiteAuditRule> {
+  const rule = await prisma.site_audit_rules.update({
+    where: { id: ruleId },
+    data: {
+      ...(input.message !== undefined && { message: input.message }),
+      ...(input.severity !== undefined && { severity: input.severity }),
+      ...(input.conditions !== undefined && {
+        conditions: input.conditions as unknown as Prisma.InputJsonValue,
+      }),
+      ...(input.isEnabled !== undefined && { is_enabled: input.isEnabled }),
+    },
+  })
+
+  return mapRule(rule)
+}
+
+export async function deleteSiteAuditRule(ruleId: string): Promise<void> {
+  await prisma.site_audit_rules.delete({ where: { id: ruleId } })
+}
+
+// ============================================
+// Crawl Evaluation
+// ============================================
+
+/**
+ * Evaluate the domain's enabled rules against a scan's saved pages.
+ * Safe to re-run: a scan whose rules were already applied is left alone.
+ * Returns the snapshot of applied rules with their match counts.
+ */
+export async function applySiteAuditRules(
+  scanId: string,
+  domainId: string
+): Promise<SiteAuditRuleSnapshot[]> {
+  const scan = await prisma.site_audit_scans.findUnique({
+    where: { id: scanId },
+    select: { custom_rules: true },
+  })
+  if (!scan || scan.custom_rules !== null) return []
+
+  const records = await prisma.site_audit_rules.findMany({
+    where: { domain_id: domainId, is_enabled: true },
+    orderBy: { created_at: 'asc' },
+  })
+  const rules = records.map(mapRule)
+  if (rules.length === 0) return []
+
+  const matchedPages = new Map<string, number>()
+  // A rule whose pattern times out is skipped for the rest of the crawl
+  const timedOut = new Set<string>()
+  const testPattern = createTimedPatternTester()
+  const onTimeout = (ruleId: string): void => {
+    console.warn(`[Site Audit] Custom rule ${ruleId} timed out and was skipped for scan ${scanId}`)
+    timedOut.add(ruleId)
+  }
+  let cursor: string | undefined
+
+  for (;;) {
+    const pages = await prisma.site_audit_pages.findMany({
+      where: { scan_id: scanId },
+      orderBy: { id: 'asc' },
+      take: PAGE_BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      select: {
+        id: true,
+        url: true,
+        status_code: true,
+        title: true,
+        description: true,
+        h1_tags: true,
+        word_count: true,
+        page_timing: true,
+        meta: true,
+        issue_types: true,
+      },
+    })
+    if (pages.length === 0) break
+    cursor = pages[pages.length - 1]?.id
+
+    const updates: Prisma.PrismaPromise<unknown>[] = []
+    for (const page of pages) {
+      const matches = evaluateRules(
+        rules.filter((rule) => !timedOut.has(rule.id)),
+        {
+          url: page.url,
+          statusCode: page.status_code,
+          title: page.title,
+          description: page.description,
+          h1Tags: page.h1_tags,
+          wordCount: page.word_count,
+          pageTiming: page.page_timing,
+          meta: page.meta,
+        },
+        { testPattern, onTimeout }
+      )
+      if (matches.length === 0) continue
+
+      for (const ruleId of matches) {
+        matchedPages.set(ruleId, (matchedPages.get(ruleId) ?? 0) + 1)
+      }
+
+      const issueTypes = [
+        ...page.issue_types.filter((type) => parseCustomIssueType(type) === null),
+        ...matches.map(customIssueType),
+      ]
+      updates.push(
+        prisma.site_audit_pages.update({
+          where: { id: page.id },
+          data: { issue_types: issueTypes, issue_count: issueTypes.length },
+        })
+      )
+    }
+
+    if (updates.length > 0) await prisma.$transaction(updates)
+    if (pages.length < PAGE_BATCH_SIZE) break
+  }
+
+  const snapshot: SiteAuditRuleSnapshot[] = rules.map((rule) => ({
+    id: rule.id,
+    message: rule.message,
+    severity: rule.severity,
+    matchedPages: matchedPages.get(rule.id) ?? 0,
+  }))
+  const countFor = (severity: IssueSeverity) =>
+    snapshot.filter((r) => r.severity === severity).reduce((sum, r) => sum + r.matchedPages, 0)
+
+  await prisma.$transaction([
+    prisma.site_audit_summaries.updateMany({
+      where: { scan_id: scanId },
+      data: {
+        errors_count: { increment: countFor('error') },
+        warnings_count: { increment: countFor('warning') },
+        notices_count: { increment: countFor('notice') },
+      },
+    }),
+    prisma.site_audit_scans.update({
+      where: { id: scanId },
+      data: { custom_rules: snapshot as unknown as Prisma.InputJsonValue },
+    }),
+  ])
+
+  return snapshot
+}
+
+// ============================================
+// Mappers
+// ============================================
+
+function mapRule(rule: {
+  id: string
+  domain_id: string
+  message: string
+  severity: string
+  conditions: Prisma.JsonValue
+  is_enabled: boolean
+  created_at: Date
+  updated_at: Date
+}): SiteAuditRule {
+  const conditions = siteAuditRuleConditionsSchema.safeParse(rule.conditions)
+
+  return {
+    id: rule.id,
+    domainId: rule.domain_id,
+    message: rule.message,
+    severity: rule.severity as IssueSeverity,
+    // Rules whose stored conditions no longer validate never match
+    conditions: conditions.success ? conditions.data : [],
+    isEnabled: rule.is_enabled,
+    createdAt: rule.created_at.toISOString(),
+    updatedAt: rule.updated_at.toISOString(),
+  }
+}
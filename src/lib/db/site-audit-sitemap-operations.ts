@@ -0,0 +1,118 @@
+/**
+ * Site Audit Sitemap Operations
+ *
+ * Stores the robots.txt and sitemap URLs fetched during a crawl and builds
+ * the sitemap coverage report by joining sitemap URLs to crawled pages on
+ * `url_hash`. Used by the site audit function and
+ * `/api/site-audit/scans/[scanId]/sitemap`.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { parseRobotsTxt } from '@/lib/seo/robots-txt'
+import type { SiteSitemaps } from '@/lib/seo/sitemap-fetcher'
+import {
+  buildSitemapReport,
+  type SiteAuditSitemapReport,
+  type SitemapAuditPage,
+  type SitemapFile,
+} from '@/lib/seo/sitemaps'
+import { generateUrlHash } from './site-audit-operations'
+
+const URL_BATCH_SIZE = 1000
+
+/**
+ * Replace a scan's stored robots.txt and sitemap URLs
+ */
+export async function saveSiteAuditSitemaps(scanId: string, data: SiteSitemaps): Promise<void> {
+  // Retries start over rather than duplicating URLs
+  await prisma.site_audit_sitemap_urls.deleteMany({ where: { scan_id: scanId } })
+
+  for (let i = 0; i < data.entries.length; i += URL_BATCH_SIZE) {
+    await prisma.site_audit_sitemap_urls.createMany({
+      data: data.entries.slice(i, i + URL_BATCH_SIZE).map((entry) => ({
+        scan_id: scanId,
+        url: entry.url.slice(0, 2000),
+        url_hash: generateUrlHash(entry.url),
+        sitemap_url: entry.sitemapUrl.slice(0, 2000),
+      })),
+      skipDuplicates: true,
+    })
+  }
+
+  await prisma.site_audit_scans.update({
+    where: { id: scanId },
+    data: {
+      robots_txt: data.robotsTxt,
+      sitemaps: data.files as unknown as Prisma.InputJsonValue,
+    },
+  })
+}
+
+function canonicalOf(meta: Prisma.JsonValue): string | null {
+  if (typeof meta !== 'object' || meta === null || Array.isArray(meta)) return null
+  return typeof meta.canonical === 'string' ? meta.canonical : null
+}
+
+export async function getSiteAuditSitemapReport(scanId: string): Promise<SiteAuditSitemapReport> {
+  const [scan, sitemapUrls, records] = await Promise.all([
+    prisma.site_audit_scans.findUnique({
+      where: { id: scanId },
+      select: { robots_txt: true, sitemaps: true },
+    }),
+    prisma.site_audit_sitemap_urls.findMany({
+      where: { scan_id: scanId },
+      select: { url: true, url_hash: true, sitemap_url: true },
+      orderBy: { url: 'asc' },
+    }),
+    prisma.site_audit_pages.findMany({
+      where: { scan_id: scanId },
+      select: {
+        id: true,
+        url: true,
+        url_hash: true,
+        title: true,
+        status_code: true,
+        is_redirect: true,
+        redirect_location: true,
+        checks: true,
+        meta: true,
+        click_depth: true,
+      },
+      orderBy: { url: 'asc' },
+    }),
+  ])
+
+  const pagesByHash = new Map<string, SitemapAuditPage>()
+  for (const page of records) {
+    pagesByHash.set(page.url_hash, {
+      id: page.id,
+      url: page.url,
+      title: page.title,
+      statusCode: page.status_code,
+      isRedirect: page.is_redirect,
+      redirectLocation: page.redirect_location,
+      checks: page.checks as Record<string, unknown> | null,
+      canonical: canonicalOf(page.meta),
+      clickDepth: page.click_depth,
+    })
+  }
+
+  const robots = scan?.robots_txt ? parseRobotsTxt(scan.robots_txt) : null
+  const report = buildSitemapReport(
+    sitemapUrls.map((entry) => ({
+      url: entry.url,
+      sitemapUrl: entry.sitemap_url,
+      page: pagesByHash.get(entry.url_hash) ?? null,
+    })),
+    [...pagesByHash.values()],
+    robots
+  )
+
+  return {
+    ...report,
+    checked: scan?.sitemaps != null,
+    robotsTxt: { found: robots !== null, sitemaps: robots?.sitemaps ?? [] },
+    files: (scan?.sitemaps as unknown as SitemapFile[] | null) ?? [],
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * DataForSEO Spend Ledger Operations
+ *
+ * Persists per-request DataForSEO costs and enforces per-domain monthly budgets.
+ * Budgets live in domain_settings.monthly_api_budget (null = unlimited) and are
+ * measured against the current calendar month (UTC).
+ */
+
+import { NonRetriableError } from 'inngest'
+import { prisma } from '@/lib/prisma'
+import { setSpendRecorder, type SpendEvent } from '@/lib/dataforseo/spend-tracking'
+import { findAccessibleDomain } from './workspace-operations'
+
+// ============================================
+// Types
+// ============================================
+
+export interface BudgetStatus {
+  budget: number | null
+  spent: number
+  remaining: number | null
+  /** True when spent + estimatedCost would go over the budget */
+  exceeded: boolean
+}
+
+export interface DomainSpendSummary extends BudgetStatus {
+  domainId: string
+  periodStart: Date
+  byTool: Array<{ tool: string; cost: number; requests: number }>
+  recent: Array<{
+    id: string
+    tool: string
+    endpoint: string
+    runId: string | null
+    cost: number
+    createdAt: Date
+  }>
+}
+
+/**
+ * Thrown when a job would push a domain over its monthly DataForSEO budget.
+ * Non-retriable: retrying won't help until the budget is raised or the month rolls over.
+ */
+export class BudgetExceededError extends NonRetriableError {
+  public domainId: string
+  public budget: number
+  public spent: number
+
+  constructor(domainId: string, budget: number, spent: number) {
+    super(
+      `Monthly DataForSEO budget reached for this domain ($${spent.toFixed(2)} of $${budget.toFixed(2)} spent)`
+    )
+    this.name = 'BudgetExceededError'
+    this.domainId = domainId
+    this.budget = budget
+    this.spent = spent
+  }
+}
+
+// ============================================
+// Ledger
+// ============================================
+
+/**
+ * Start of the current budget period (first day of the month, UTC)
+ */
+export function getBudgetPeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+/**
+ * Persist a single billed DataForSEO request
+ */
+export async function recordSpendEntry(event: SpendEvent): Promise<void> {
+  await prisma.dataforseo_spend_entries.create({
+    data: {
+      domain_id: event.domainId ?? null,
+      user_id: event.userId ?? null,
+      tool: event.tool,
+      run_id: event.runId ?? null,
+      endpoint: event.endpoint.slice(0, 255),
+      cost: event.cost,
+    },
+  })
+}
+
+/**
+ * Route DataForSEO client spend into the ledger.
+ * Called once at server startup from instrumentation.ts.
+ */
+export function registerSpendLedger(): void {
+  setSpendRecorder(recordSpendEntry)
+}
+
+/**
+ * Total spend for a domain since the start of the current budget period
+ */
+export async function getDomainMonthlySpend(domainId: string): Promise<number> {
+  const result = await prisma.dataforseo_spend_entries.aggregate({
+    where: {
+      domain_id: domainId,
+      created_at: { gte: getBudgetPeriodStart() },
+    },
+    _sum: { cost: true },
+  })
+
+  return Number(result._sum.cost ?? 0)
+}
+
+/**
+ * Total recorded spend for a single tool run (scan, audit, tracking run...)
+ */
+export async function getRunSpend(runId: string): Promise<number> {
+  const result = await prisma.dataforseo_spend_entries.aggregate({
+    where: { run_id: runId },
+    _sum: { cost: true },
+  })
+
+  return Number(result._sum.cost ?? 0)
+}
+
+// ============================================
+// Budgets
+// ============================================
+
+/**
+ * Check a domain's budget, optionally including the estimated cost of upcoming work
+ */
+export async function checkDomainBudget(
+  domainId: string,
+  estimatedCost: number = 0
+): Promise<BudgetStatus> {
+  const settings = await prisma.domain_settings.findUnique({
+    where: { domain_id: domainId },
+    select: { monthly_api_budget: true },
+  })
+
+  const spent = await getDomainMonthlySpend(domainId)
+  const budget =
+    settings?.monthly_api_budget !== null && settings?.monthly_api_budget !== undefined
+      ? Number(settings.monthly_api_budget)
+      : null
+
+  if (budget === null) {
+    return { budget: null, spent, remaining: null, exceeded: false }
+  }
+
+  return {
+    budget,
+    spent,
+    remaining: Math.max(0, budget - spent),
+    exceeded: spent + estimatedCost > budget,
+  }
+}
+
+/**
+ * Throw BudgetExceededError if the estimated cost would exceed the domain's budget.
+ * Work that isn't linked to a domain is never capped.
+ */
+export async function assertWithinBudget(
+  domainId: string | null | undefined,
+  estimatedCost: number = 0
+): Promise<void> {
+  if (!domainId) return
+
+  const status = await checkDomainBudget(domainId, estimatedCost)
+  if (status.exceeded && status.budget !== null) {
+    throw new BudgetExceededError(domainId, status.budget, status.spent)
+  }
+}
+
+/**
+ * Spend breakdown for the current month, for users with access to the domain
+ */
+export async function getDomainSpendSummary(
+  domainId: string,
+  userId: string
+): Promise<DomainSpendSummary | null> {
+  const domain = await findAccessibleDomain(domainId, userId)
+  if (!domain) return null
+
+  const periodStart = getBudgetPeriodStart()
+  const where = { domain_id: domainId, created_at: { gte: periodStart } }
+
+  const [status, grouped, recent] = await Promise.all([
+    checkDomainBudget(domainId),
+    prisma.dataforseo_spend_entries.groupBy({
+      by: ['tool'],
+      where,
+      _sum: { cost: true },
+      _count: { _all: true },
+    }),
+    prisma.dataforseo_spend_entries.findMany({
+      where,
+      orderBy: { created_at: 'desc' },
+      take: 50,
+    }),
+  ])
+
+  return {
+    ...status,
+    domainId,
+    periodStart,
+    byTool: grouped
+      .map((g) => ({
+        tool: g.tool,
+        cost: Number(g._sum.cost ?? 0),
+        requests: g._count._all,
+      }))
+      .sort((a, b) => b.cost - a.cost),
+    recent: recent.map((e) => ({
+      id: e.id,
+      tool: e.tool,
+      endpoint: e.endpoint,
+      runId: e.run_id,
+      cost: Number(e.cost),
+      createdAt: e.created_at,
+    })),
+  }
+}
@@ -0,0 +1,319 @@
+/**
+ * SEO Threshold Profile Operations
+ *
+ * Named threshold profiles, and the resolved profile a domain's audits are
+ * classified and scored with. A profile is either personal or shared with a
+ * workspace (managed by its ADMINs or above), and is assigned per domain
+ * through domain_settings: personal profiles to their owner's personal
+ * domains, workspace profiles to the workspace's domains. Domains without one
+ * use the baseline.
+ * Used by `/api/threshold-profiles` routes, the site audit functions and the
+ * audit report.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  buildThresholdProfile,
+  DEFAULT_THRESHOLD_PROFILE,
+  resolveThresholdProfile,
+  THRESHOLD_PROFILE_PRESETS,
+  type ThresholdProfileConfig,
+  type ThresholdProfilePreset,
+} from '@/lib/seo/threshold-profiles'
+import {
+  domainAccessWhere,
+  getWorkspaceRole,
+  hasRequiredRole,
+  rolesAtLeast,
+} from './workspace-operations'
+
+export class ThresholdProfileError extends Error {
+  public status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ThresholdProfileError'
+    this.status = status
+  }
+}
+
+// ============================================
+// Types
+// ============================================
+
+export interface ThresholdProfile {
+  id: string
+  name: string
+  description: string | null
+  config: ThresholdProfileConfig
+  /** Null for a personal profile */
+  workspaceId: string | null
+  workspaceName: string | null
+  domainCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateThresholdProfileInput {
+  name: string
+  description?: string | null
+  /** Share with a workspace instead of keeping it personal */
+  workspaceId?: string | null
+  /** Start from a preset instead of the baseline; ignored when `config` is given */
+  preset?: ThresholdProfilePreset
+  config?: ThresholdProfileConfig
+}
+
+export interface UpdateThresholdProfileInput {
+  name?: string
+  description?: string | null
+  config?: ThresholdProfileConfig
+}
+
+const profileSelect = {
+  id: true,
+  name: true,
+  description: true,
+  thresholds: true,
+  weights: true,
+  severity: true,
+  created_at: true,
+  updated_at: true,
+  workspace_id: true,
+  workspace: { select: { name: true } },
+  _count: { select: { domain_settings: true } },
+} satisfies Prisma.seo_threshold_profilesSelect
+
+// ============================================
+// Profile Operations
+// ============================================
+
+/**
+ * Prisma filter for profiles the user may manage: their personal profiles, and
+ * those of workspaces where they are ADMIN or above
+ */
+function manageableProfileWhere(userId: string): Prisma.seo_threshold_profilesWhereInput {
+  return {
+    OR: [
+      { user_id: userId },
+      {
+        workspace: {
+          members: { some: { user_id: userId, role: { in: rolesAtLeast('ADMIN') } } },
+        },
+      },
+    ],
+  }
+}
+
+/**
+ * Prisma filter for the profiles sharing an owner's scope. For a domain that is
+ * the profiles assignable to it: its workspace's, or its owner's personal ones.
+ */
+function scopeWhere(owner: {
+  user_id: string | null
+  workspace_id: string | null
+}): Prisma.seo_threshold_profilesWhereInput {
+  return owner.workspace_id ? { workspace_id: owner.workspace_id } : { user_id: owner.user_id }
+}
+
+/**
+ * Every profile the user can manage, alphabetically
+ */
+export async function listThresholdProfiles(userId: string): Promise<ThresholdProfile[]> {
+  const profiles = await prisma.seo_threshold_profiles.findMany({
+    where: manageableProfileWhere(userId),
+    orderBy: { name: 'asc' },
+    select: profileSelect,
+  })
+
+  return profiles.map(transformProfile)
+}
+
+/**
+ * The profiles that can be assigned to a domain the user administers
+ */
+export async function listAssignableThresholdProfiles(
+  domainId: string,
+  userId: string
+): Promise<ThresholdProfile[]> {
+  const domain = await prisma.domains.findFirst({
+    where: { id: domainId, ...domainAccessWhere(userId, 'ADMIN') },
+    select: { user_id: true, workspace_id: true },
+  })
+
+  if (!domain) {
+    throw new ThresholdProfileError('Domain not found', 404)
+  }
+
+  const profiles = await prisma.seo_threshold_profiles.findMany({
+    where: scopeWhere(domain),
+    orderBy: { name: 'asc' },
+    select: profileSelect,
+  })
+
+  return profiles.map(transformProfile)
+}
+
+/**
+ * Create a personal profile, or a workspace profile when the user is ADMIN
+ * or above in that workspace
+ */
+export async function createThresholdProfile(
+  userId: string,
+  input: CreateThresholdProfileInput
+): Promise<ThresholdProfile> {
+  if (input.workspaceId) {
+    const role = await getWorkspaceRole(input.workspaceId, userId)
+    if (!role) {
+      throw new ThresholdProfileError('Workspace not found', 404)
+    }
+    if (!hasRequiredRole(role, 'ADMIN')) {
+      throw new ThresholdProfileError('Only workspace admins can add workspace profiles', 403)
+    }
+  }
+
+  const owner = input.workspaceId
+    ? { user_id: null, workspace_id: input.workspaceId }
+    : { user_id: userId, workspace_id: null }
+
+  await assertNameAvailable(owner, input.name)
+
+  const config =
+    input.config ??
+    (input.preset
+      ? buildThresholdProfile(THRESHOLD_PROFILE_PRESETS[input.preset].overrides)
+      : DEFAULT_THRESHOLD_PROFILE)
+
+  const profile = await prisma.seo_threshold_profiles.create({
+    data: {
+      ...owner,
+      name: input.name,
+      description: input.description ?? null,
+      ...toConfigColumns(config),
+    },
+    select: profileSelect,
+  })
+
+  return transformProfile(profile)
+}
+
+export async function updateThresholdProfile(
+  profileId: string,
+  userId: string,
+  input: UpdateThresholdProfileInput
+): Promise<ThresholdProfile> {
+  const existing = await prisma.seo_threshold_profiles.findFirst({
+    where: { id: profileId, ...manageableProfileWhere(userId) },
+    select: { name: true, user_id: true, workspace_id: true },
+  })
+
+  if (!existing) {
+    throw new ThresholdProfileError('Threshold profile not found', 404)
+  }
+
+  if (input.name !== undefined && input.name !== existing.name) {
+    await assertNameAvailable(existing, input.name)
+  }
+
+  const profile = await prisma.seo_threshold_profiles.update({
+    where: { id: profileId },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.config && toConfigColumns(input.config)),
+    },
+    select: profileSelect,
+  })
+
+  return transformProfile(profile)
+}
+
+/**
+ * Delete a profile the user can manage. Domains using it fall back to the baseline.
+ */
+export async function deleteThresholdProfile(profileId: string, userId: string): Promise<void> {
+  const result = await prisma.seo_threshold_profiles.deleteMany({
+    where: { id: profileId, ...manageableProfileWhere(userId) },
+  })
+
+  if (result.count === 0) {
+    throw new ThresholdProfileError('Threshold profile not found', 404)
+  }
+}
+
+/**
+ * Whether the profile can be assigned to the domain: one of its workspace's
+ * profiles, or one of its owner's personal profiles when it has no workspace
+ */
+export async function isAssignableThresholdProfile(
+  profileId: string,
+  domain: { user_id: string; workspace_id: string | null }
+): Promise<boolean> {
+  const count = await prisma.seo_threshold_profiles.count({
+    where: { id: profileId, ...scopeWhere(domain) },
+  })
+
+  return count > 0
+}
+
+/**
+ * Resolved profile for a domain's audits, or the baseline when the domain
+ * has none assigned
+ */
+export async function getDomainThresholdProfile(
+  domainId: string | null | undefined
+): Promise<ThresholdProfileConfig> {
+  if (!domainId) return DEFAULT_THRESHOLD_PROFILE
+
+  const settings = await prisma.domain_settings.findUnique({
+    where: { domain_id: domainId },
+    select: {
+      threshold_profile: { select: { thresholds: true, weights: true, severity: true } },
+    },
+  })
+
+  return resolveThresholdProfile(settings?.threshold_profile ?? null)
+}
+
+async function assertNameAvailable(
+  owner: { user_id: string | null; workspace_id: string | null },
+  name: string
+): Promise<void> {
+  const existing = await prisma.seo_threshold_profiles.findFirst({
+    where: { ...scopeWhere(owner), name },
+    select: { id: true },
+  })
+
+  if (existing) {
+    throw new ThresholdProfileError('A profile with this name already exists', 409)
+  }
+}
+
+// ============================================
+// Transform Functions
+// ============================================
+
+function toConfigColumns(config: ThresholdProfileConfig) {
+  return {
+    thresholds: config.thresholds as unknown as Prisma.InputJsonValue,
+    weights: config.weights as unknown as Prisma.InputJsonValue,
+    severity: config.severity as unknown as Prisma.InputJsonValue,
+  }
+}
+
+function transformProfile(
+  p: Prisma.seo_threshold_profilesGetPayload<{ select: typeof profileSelect }>
+): ThresholdProfile {
+  return {
+    id: p.id,
+    name: p.name,
+    description: p.description,
+    config: resolveThresholdProfile(p),
+    workspaceId: p.workspace_id,
+    workspaceName: p.workspace?.name ?? null,
+    domainCount: p._count.domain_settings,
+    createdAt: p.created_at.toISOString(),
+    updatedAt: p.updated_at.toISOString(),
+  }
+}
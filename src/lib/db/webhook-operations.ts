@@ -0,0 +1,489 @@
+/**
+ * Webhook Operations
+ *
+ * Outbound webhook endpoints configured on a domain (ANALYST or above) or on a
+ * whole workspace (ADMIN or above), and the delivery log for each endpoint.
+ * Job lifecycle events fan out to every enabled endpoint subscribed to them.
+ */
+
+import { randomUUID } from 'crypto'
+import { Prisma, type WebhookDeliveryStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  isSubscribed,
+  WEBHOOK_TEST_EVENT,
+  type WebhookJob,
+  type WebhookJobStatus,
+} from '@/lib/webhooks/events'
+import { generateWebhookSecret } from '@/lib/webhooks/signing'
+import { assertPublicUrl, PublicUrlError } from '@/lib/utils/public-url'
+import {
+  buildJobPayload,
+  buildTestPayload,
+  type WebhookAttempt,
+  type WebhookRequest,
+} from '@/lib/webhooks/delivery'
+import {
+  domainAccessWhere,
+  getWorkspaceRole,
+  hasRequiredRole,
+  rolesAtLeast,
+} from './workspace-operations'
+
+/** Deliveries shown in an endpoint's log */
+const DELIVERY_LOG_LIMIT = 50
+
+// ============================================
+// Types
+// ============================================
+
+export class WebhookError extends Error {
+  public status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'WebhookError'
+    this.status = status
+  }
+}
+
+export interface WebhookEndpoint {
+  id: string
+  name: string
+  url: string
+  secret: string
+  events: string[]
+  isEnabled: boolean
+  domainId: string | null
+  domainName: string | null
+  workspaceId: string | null
+  workspaceName: string | null
+  lastDelivery: { status: WebhookDeliveryStatus; createdAt: Date } | null
+  createdAt: Date
+}
+
+export interface WebhookEndpointInput {
+  name: string
+  url: string
+  events: string[]
+  isEnabled?: boolean
+}
+
+export type WebhookTarget = { domainId: string } | { workspaceId: string }
+
+export interface WebhookDelivery {
+  id: string
+  eventId: string
+  eventType: string
+  payload: unknown
+  status: WebhookDeliveryStatus
+  attempts: number
+  responseStatus: number | null
+  error: string | null
+  durationMs: number | null
+  lastAttemptAt: Date | null
+  deliveredAt: Date | null
+  createdAt: Date
+}
+
+export interface JobLifecycleEvent {
+  job: WebhookJob
+  status: WebhookJobStatus
+  resourceId: string
+  occurredAt: string
+  details: Record<string, unknown>
+}
+
+// ============================================
+// Mappers
+// ============================================
+
+const endpointInclude = {
+  domain: { select: { name: true } },
+  workspace: { select: { name: true } },
+  deliveries: {
+    select: { status: true, created_at: true },
+    orderBy: { created_at: 'desc' },
+    take: 1,
+  },
+} satisfies Prisma.webhook_endpointsInclude
+
+function mapEndpoint(
+  endpoint: Prisma.webhook_endpointsGetPayload<{ include: typeof endpointInclude }>
+): WebhookEndpoint {
+  const last = endpoint.deliveries[0]
+
+  return {
+    id: endpoint.id,
+    name: endpoint.name,
+    url: endpoint.url,
+    secret: endpoint.secret,
+    events: endpoint.events,
+    isEnabled: endpoint.is_enabled,
+    domainId: endpoint.domain_id,
+    domainName: endpoint.domain?.name ?? null,
+    workspaceId: endpoint.workspace_id,
+    workspaceName: endpoint.workspace?.name ?? null,
+    lastDelivery: last ? { status: last.status, createdAt: last.created_at } : null,
+    createdAt: endpoint.created_at,
+  }
+}
+
+function mapDelivery(delivery: Prisma.webhook_deliveriesGetPayload<object>): WebhookDelivery {
+  return {
+    id: delivery.id,
+    eventId: delivery.event_id,
+    eventType: delivery.event_type,
+    payload: delivery.payload,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.response_status,
+    error: delivery.error,
+    durationMs: delivery.duration_ms,
+    lastAttemptAt: delivery.last_attempt_at,
+    deliveredAt: delivery.delivered_at,
+    createdAt: delivery.created_at,
+  }
+}
+
+// ============================================
+// Endpoint Operations
+// ============================================
+
+/**
+ * Prisma filter for endpoints the user may manage: ANALYST or above on the
+ * endpoint's domain, or ADMIN or above in the endpoint's workspace
+ */
+function manageableEndpointWhere(userId: string): Prisma.webhook_endpointsWhereInput {
+  return {
+    OR: [
+      { domain: domainAccessWhere(userId, 'ANALYST') },
+      {
+        workspace: {
+          members: { some: { user_id: userId, role: { in: rolesAtLeast('ADMIN') } } },
+        },
+      },
+    ],
+  }
+}
+
+/**
+ * List every endpoint the user can manage
+ */
+export async function listWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+  const endpoints = await prisma.webhook_endpoints.findMany({
+    where: manageableEndpointWhere(userId),
+    include: endpointInclude,
+    orderBy: { created_at: 'asc' },
+  })
+
+  return endpoints.map(mapEndpoint)
+}
+
+/**
+ * Get an endpoint if the user can manage it
+ */
+export async function getWebhookEndpointForUser(
+  endpointId: string,
+  userId: string
+): Promise<WebhookEndpoint | null> {
+  const endpoint = await prisma.webhook_endpoints.findFirst({
+    where: { id: endpointId, ...manageableEndpointWhere(userId) },
+    include: endpointInclude,
+  })
+
+  return endpoint ? mapEndpoint(endpoint) : null
+}
+
+/**
+ * Reject endpoint URLs whose host doesn't resolve, or resolves to a private
+ * address. Each send checks again, since DNS can change after saving.
+ */
+async function assertDeliverableUrl(url: string): Promise<void> {
+  try {
+    await assertPublicUrl(url)
+  } catch (error) {
+    throw new WebhookError(
+      error instanceof PublicUrlError
+        ? 'Webhook URL must point to a public address'
+        : 'Webhook URL host could not be resolved',
+      400
+    )
+  }
+}
+
+/**
+ * Create an endpoint on a domain or workspace the user can manage
+ */
+export async function createWebhookEndpoint(
+  userId: string,
+  target: WebhookTarget,
+  input: WebhookEndpointInput
+): Promise<WebhookEndpoint> {
+  if ('domainId' in target) {
+    const domain = await prisma.domains.findFirst({
+      where: { id: target.domainId, ...domainAccessWhere(userId, 'ANALYST') },
+      select: { id: true },
+    })
+    if (!domain) {
+      throw new WebhookError('Domain not found', 404)
+    }
+  } else {
+    const role = await getWorkspaceRole(target.workspaceId, userId)
+    if (!role) {
+      throw new WebhookError('Workspace not found', 404)
+    }
+    if (!hasRequiredRole(role, 'ADMIN')) {
+      throw new WebhookError('Only workspace admins can add workspace webhooks', 403)
+    }
+  }
+
+  await assertDeliverableUrl(input.url)
+
+  const endpoint = await prisma.webhook_endpoints.create({
+    data: {
+      domain_id: 'domainId' in target ? target.domainId : null,
+      workspace_id: 'workspaceId' in target ? target.workspaceId : null,
+      created_by: userId,
+      name: input.name,
+      url: input.url,
+      secret: generateWebhookSecret(),
+      events: input.events,
+      is_enabled: input.isEnabled ?? true,
+    },
+    include: endpointInclude,
+  })
+
+  return mapEndpoint(endpoint)
+}
+
+/**
+ * Update an endpoint, optionally rotating its signing secret
+ */
+export async function updateWebhookEndpoint(
+  endpointId: string,
+  input: Partial<WebhookEndpointInput> & { rotateSecret?: boolean }
+): Promise<WebhookEndpoint> {
+  if (input.url !== undefined) {
+    await assertDeliverableUrl(input.url)
+  }
+
+  const endpoint = await prisma.webhook_endpoints.update({
+    where: { id: endpointId },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.url !== undefined && { url: input.url }),
+      ...(input.events !== undefined && { events: input.events }),
+      ...(input.isEnabled !== undefined && { is_enabled: input.isEnabled }),
+      ...(input.rotateSecret && { secret: generateWebhookSecret() }),
+    },
+    include: endpointInclude,
+  })
+
+  return mapEndpoint(endpoint)
+}
+
+/**
+ * Delete an endpoint and its delivery log
+ */
+export async function deleteWebhookEndpoint(endpointId: string): Promise<void> {
+  await prisma.webhook_endpoints.delete({ where: { id: endpointId } })
+}
+
+// ============================================
+// Delivery Operations
+// ============================================
+
+/**
+ * Most recent deliveries for an endpoint
+ */
+export async function listWebhookDeliveries(endpointId: string): Promise<WebhookDelivery[]> {
+  const deliveries = await prisma.webhook_deliveries.findMany({
+    where: { endpoint_id: endpointId },
+    orderBy: { created_at: 'desc' },
+    take: DELIVERY_LOG_LIMIT,
+  })
+
+  return deliveries.map(mapDelivery)
+}
+
+/**
+ * Domain and app path of a job's resource, or null when the job isn't tied to
+ * a domain (legacy resources) or no longer exists
+ */
+async function resolveJobResource(
+  job: WebhookJob,
+  resourceId: string
+): Promise<{ domainId: string; path: string | null } | null> {
+  switch (job) {
+    case 'audit': {
+      const audit = await prisma.audits.findUnique({
+        where: { id: resourceId },
+        select: { domain_id: true },
+      })
+      return audit?.domain_id
+        ? { domainId: audit.domain_id, path: `/d/${audit.domain_id}/audits/${resourceId}` }
+        : null
+    }
+    case 'site_audit': {
+      const scan = await prisma.site_audit_scans.findUnique({
+        where: { id: resourceId },
+        select: { domain_id: true },
+      })
+      return scan?.domain_id
+        ? { domainId: scan.domain_id, path: `/d/${scan.domain_id}/site-audit/${resourceId}` }
+        : null
+    }
+    case 'grid_scan': {
+      const scan = await prisma.grid_scans.findUnique({
+        where: { id: resourceId },
+        select: { local_campaigns: { select: { id: true, domain_id: true } } },
+      })
+      const domainId = scan?.local_campaigns.domain_id
+      return domainId
+        ? { domainId, path: `/d/${domainId}/local-seo/${scan.local_campaigns.id}` }
+        : null
+    }
+    case 'keyword_tracking': {
+      const run = await prisma.keyword_tracking_runs.findUnique({
+        where: { id: resourceId },
+        select: { domain_id: true },
+      })
+      return run
+        ? { domainId: run.domain_id, path: `/d/${run.domain_id}/keyword-tracking/${resourceId}` }
+        : null
+    }
+    case 'ai_seo': {
+      const run = await prisma.ai_seo_runs.findUnique({
+        where: { id: resourceId },
+        select: { domain_id: true },
+      })
+      return run
+        ? { domainId: run.domain_id, path: `/d/${run.domain_id}/ai-seo/${resourceId}` }
+        : null
+    }
+  }
+}
+
+/**
+ * Record one pending delivery per enabled endpoint subscribed to a job event,
+ * on the job's domain or on the domain's workspace. Returns the delivery IDs.
+ */
+export async function createJobDeliveries(event: JobLifecycleEvent): Promise<string[]> {
+  const resource = await resolveJobResource(event.job, event.resourceId)
+  if (!resource) return []
+
+  const domain = await prisma.domains.findUnique({
+    where: { id: resource.domainId },
+    select: { id: true, name: true, domain: true, workspace_id: true },
+  })
+  if (!domain) return []
+
+  const eventType = `${event.job}.${event.status}`
+  const endpoints = await prisma.webhook_endpoints.findMany({
+    where: {
+      is_enabled: true,
+      OR: [
+        { domain_id: domain.id },
+        ...(domain.workspace_id ? [{ workspace_id: domain.workspace_id }] : []),
+      ],
+    },
+    select: { id: true, events: true },
+  })
+
+  const subscribed = endpoints.filter((endpoint) => isSubscribed(endpoint.events, eventType))
+  if (subscribed.length === 0) return []
+
+  const eventId = randomUUID()
+  const payload = buildJobPayload({
+    eventId,
+    job: event.job,
+    status: event.status,
+    resourceId: event.resourceId,
+    occurredAt: event.occurredAt,
+    domain: { id: domain.id, name: domain.name, domain: domain.domain },
+    path: resource.path,
+    details: event.details,
+  }) as Prisma.InputJsonValue
+
+  const deliveries = await prisma.$transaction(
+    subscribed.map((endpoint) =>
+      prisma.webhook_deliveries.create({
+        data: { endpoint_id: endpoint.id, event_id: eventId, event_type: eventType, payload },
+        select: { id: true },
+      })
+    )
+  )
+
+  return deliveries.map((delivery) => delivery.id)
+}
+
+/**
+ * Record a pending test delivery for an endpoint
+ */
+export async function createTestDelivery(endpoint: { id: string; name: string }): Promise<string> {
+  const eventId = randomUUID()
+  const delivery = await prisma.webhook_deliveries.create({
+    data: {
+      endpoint_id: endpoint.id,
+      event_id: eventId,
+      event_type: WEBHOOK_TEST_EVENT,
+      payload: buildTestPayload(eventId, endpoint) as Prisma.InputJsonValue,
+    },
+    select: { id: true },
+  })
+
+  return delivery.id
+}
+
+/**
+ * Everything needed to send a delivery, or null when it was already delivered,
+ * its endpoint was disabled (test deliveries excepted) or it no longer exists
+ */
+export async function getSendableDelivery(deliveryId: string): Promise<WebhookRequest | null> {
+  const delivery = await prisma.webhook_deliveries.findUnique({
+    where: { id: deliveryId },
+    select: {
+      id: true,
+      event_type: true,
+      payload: true,
+      status: true,
+      endpoint: { select: { url: true, secret: true, is_enabled: true } },
+    },
+  })
+
+  if (!delivery || delivery.status === 'SUCCEEDED') return null
+  if (!delivery.endpoint.is_enabled && delivery.event_type !== WEBHOOK_TEST_EVENT) return null
+
+  return {
+    deliveryId: delivery.id,
+    eventType: delivery.event_type,
+    url: delivery.endpoint.url,
+    secret: delivery.endpoint.secret,
+    payload: delivery.payload,
+  }
+}
+
+/**
+ * Log the outcome of one delivery attempt
+ */
+export async function recordDeliveryAttempt(
+  deliveryId: string,
+  attempt: WebhookAttempt
+): Promise<WebhookDelivery> {
+  const now = new Date()
+  const delivery = await prisma.webhook_deliveries.update({
+    where: { id: deliveryId },
+    data: {
+      status: attempt.ok ? 'SUCCEEDED' : 'FAILED',
+      attempts: { increment: 1 },
+      response_status: attempt.status,
+      error: attempt.error,
+      duration_ms: attempt.durationMs,
+      last_attempt_at: now,
+      ...(attempt.ok && { delivered_at: now }),
+    },
+  })
+
+  return mapDelivery(delivery)
+}
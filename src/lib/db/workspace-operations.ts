@@ -0,0 +1,738 @@
+/**
+ * Workspace Operations
+ *
+ * Agency workspaces: shared domain access with role-based membership.
+ * A domain is accessible to its creator (domains.user_id) and to every member
+ * of the workspace it is assigned to, subject to the member's role.
+ */
+
+import { randomBytes } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import type { Prisma, WorkspaceRole } from '@prisma/client'
+
+// ============================================
+// Roles
+// ============================================
+
+/**
+ * Role hierarchy (higher rank includes all permissions of lower ranks)
+ * - OWNER: manage workspace, members and billing-level settings
+ * - ADMIN: manage domains, settings and invitations
+ * - ANALYST: run audits/scans and edit tool data
+ * - READ_ONLY: view results only
+ */
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  OWNER: 4,
+  ADMIN: 3,
+  ANALYST: 2,
+  READ_ONLY: 1,
+}
+
+/** Invitations are valid for 7 days */
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Check whether a role satisfies a minimum required role
+ */
+export function hasRequiredRole(role: WorkspaceRole, minRole: WorkspaceRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minRole]
+}
+
+/**
+ * All roles at or above the given minimum role
+ */
+export function rolesAtLeast(minRole: WorkspaceRole): WorkspaceRole[] {
+  return (Object.keys(ROLE_RANK) as WorkspaceRole[]).filter((role) =>
+    hasRequiredRole(role, minRole)
+  )
+}
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Error raised by workspace operations, carrying the HTTP status routes should return
+ */
+export class WorkspaceError extends Error {
+  public status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'WorkspaceError'
+    this.status = status
+  }
+}
+
+export interface WorkspaceSummary {
+  id: string
+  name: string
+  role: WorkspaceRole
+  memberCount: number
+  domainCount: number
+  createdAt: Date
+}
+
+export interface WorkspaceMember {
+  id: string
+  userId: string
+  email: string
+  name: string | null
+  role: WorkspaceRole
+  createdAt: Date
+}
+
+export interface WorkspaceInvitation {
+  id: string
+  email: string
+  role: WorkspaceRole
+  token: string
+  invitedBy: string
+  expiresAt: Date
+  acceptedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+export interface WorkspaceBranding {
+  brandName: string | null
+  /** PNG/JPEG data URL */
+  logo: string | null
+  primaryColor: string | null
+  accentColor: string | null
+}
+
+export interface DomainAccess {
+  domainId: string
+  domain: string
+  role: WorkspaceRole
+}
+
+// ============================================
+// Access Filters
+// ============================================
+
+/**
+ * Prisma filter matching domains the user can access with at least `minRole`.
+ * The domain creator is always treated as OWNER.
+ */
+export function domainAccessWhere(
+  userId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
+): Prisma.domainsWhereInput {
+  return {
+    OR: [
+      { user_id: userId },
+      {
+        workspaces: {
+          members: {
+            some: { user_id: userId, role: { in: rolesAtLeast(minRole) } },
+          },
+        },
+      },
+    ],
+  }
+}
+
+/**
+ * Prisma filter for tool resources linked to a domain through a `domains` relation
+ * (audits, site audit scans, local campaigns, keyword tracking runs).
+ * Unassigned legacy resources (domain_id null) remain private to their creator.
+ */
+export function resourceAccessWhere(userId: string, minRole: WorkspaceRole = 'READ_ONLY') {
+  return {
+    OR: [{ user_id: userId, domain_id: null }, { domains: domainAccessWhere(userId, minRole) }],
+  }
+}
+
+/**
+ * Resolve the user's effective role on a domain, or null when they have no access
+ */
+export async function getDomainAccess(
+  domainId: string,
+  userId: string
+): Promise<DomainAccess | null> {
+  const domain = await prisma.domains.findUnique({
+    where: { id: domainId },
+    select: {
+      id: true,
+      domain: true,
+      user_id: true,
+      workspaces: {
+        select: {
+          members: {
+            where: { user_id: userId },
+            select: { role: true },
+          },
+        },
+      },
+    },
+  })
+
+  if (!domain) return null
+
+  if (domain.user_id === userId) {
+    return { domainId: domain.id, domain: domain.domain, role: 'OWNER' }
+  }
+
+  const membership = domain.workspaces?.members[0]
+  if (!membership) return null
+
+  return { domainId: domain.id, domain: domain.domain, role: membership.role }
+}
+
+/**
+ * Find a domain the user can access with at least `minRole`.
+ * Drop-in replacement for `prisma.domains.findFirst({ where: { id, user_id } })`.
+ */
+export async function findAccessibleDomain(
+  domainId: string,
+  userId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
+) {
+  return prisma.domains.findFirst({
+    where: { id: domainId, ...domainAccessWhere(userId, minRole) },
+  })
+}
+
+/**
+ * Check access to a tool resource (audit, scan, run...) that may or may not be
+ * linked to a domain. Unassigned legacy resources remain private to their creator.
+ */
+export async function canAccessResource(
+  resource: { userId: string; domainId?: string | null },
+  userId: string,
+  minRole: WorkspaceRole = 'READ_ONLY'
+): Promise<boolean> {
+  if (!resource.domainId) {
+    return resource.userId === userId
+  }
+
+  const access = await getDomainAccess(resource.domainId, userId)
+  return access !== null && hasRequiredRole(access.role, minRole)
+}
+
+// ============================================
+// Workspace Operations
+// ============================================
+
+/**
+ * Create a workspace with the creator as OWNER
+ */
+export async function createWorkspace(userId: string, name: string): Promise<WorkspaceSummary> {
+  const workspace = await prisma.workspaces.create({
+    data: {
+      name,
+      members: {
+        create: { user_id: userId, role: 'OWNER' },
+      },
+    },
+  })
+
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    role: 'OWNER',
+    memberCount: 1,
+    domainCount: 0,
+    createdAt: workspace.created_at,
+  }
+}
+
+/**
+ * List all workspaces the user belongs to
+ */
+export async function getUserWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+  const memberships = await prisma.workspace_members.findMany({
+    where: { user_id: userId },
+    include: {
+      workspace: {
+        include: {
+          _count: {
+            select: { members: true, domains: true },
+          },
+        },
+      },
+    },
+    orderBy: { created_at: 'asc' },
+  })
+
+  return memberships.map((m) => ({
+    id: m.workspace.id,
+    name: m.workspace.name,
+    role: m.role,
+    memberCount: m.workspace._count.members,
+    domainCount: m.workspace._count.domains,
+    createdAt: m.workspace.created_at,
+  }))
+}
+
+/**
+ * Get the user's role in a workspace, or null when not a member
+ */
+export async function getWorkspaceRole(
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const membership = await prisma.workspace_members.findUnique({
+    where: {
+      workspace_id_user_id: {
+        workspace_id: workspaceId,
+        user_id: userId,
+      },
+    },
+    select: { role: true },
+  })
+
+  return membership?.role ?? null
+}
+
+/**
+ * Rename a workspace (ADMIN or above)
+ */
+export async function renameWorkspace(
+  workspaceId: string,
+  userId: string,
+  name: string
+): Promise<void> {
+  await assertWorkspaceRole(workspaceId, userId, 'ADMIN')
+
+  await prisma.workspaces.update({
+    where: { id: workspaceId },
+    data: { name },
+  })
+}
+
+/**
+ * Delete a workspace (OWNER only). Domains fall back to creator-only access.
+ */
+export async function deleteWorkspace(workspaceId: string, userId: string): Promise<void> {
+  await assertWorkspaceRole(workspaceId, userId, 'OWNER')
+
+  await prisma.workspaces.delete({
+    where: { id: workspaceId },
+  })
+}
+
+/**
+ * Get a workspace's report branding (any member may view)
+ */
+export async function getWorkspaceBranding(
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceBranding> {
+  await assertWorkspaceRole(workspaceId, userId, 'READ_ONLY')
+
+  const workspace = await prisma.workspaces.findUniqueOrThrow({
+    where: { id: workspaceId },
+    select: brandingSelect,
+  })
+
+  return mapBranding(workspace)
+}
+
+/**
+ * Update a workspace's report branding (ADMIN or above)
+ */
+export async function updateWorkspaceBranding(
+  workspaceId: string,
+  userId: string,
+  input: Partial<WorkspaceBranding>
+): Promise<WorkspaceBranding> {
+  await assertWorkspaceRole(workspaceId, userId, 'ADMIN')
+
+  const workspace = await prisma.workspaces.update({
+    where: { id: workspaceId },
+    data: {
+      brand_name: input.brandName,
+      brand_logo: input.logo,
+      brand_primary_color: input.primaryColor,
+      brand_accent_color: input.accentColor,
+    },
+    select: brandingSelect,
+  })
+
+  return mapBranding(workspace)
+}
+
+/**
+ * Branding for the workspace a domain is assigned to, or null for unassigned domains
+ */
+export async function getDomainBranding(domainId: string): Promise<WorkspaceBranding | null> {
+  const domain = await prisma.domains.findUnique({
+    where: { id: domainId },
+    select: { workspaces: { select: brandingSelect } },
+  })
+
+  return domain?.workspaces ? mapBranding(domain.workspaces) : null
+}
+
+const brandingSelect = {
+  brand_name: true,
+  brand_logo: true,
+  brand_primary_color: true,
+  brand_accent_color: true,
+} satisfies Prisma.workspacesSelect
+
+function mapBranding(
+  workspace: Prisma.workspacesGetPayload<{ select: typeof brandingSelect }>
+): WorkspaceBranding {
+  return {
+    brandName: workspace.brand_name,
+    logo: workspace.brand_logo,
+    primaryColor: workspace.brand_primary_color,
+    accentColor: workspace.brand_accent_color,
+  }
+}
+
+// ============================================
+// Member Operations
+// ============================================
+
+/**
+ * List members of a workspace (any member may view)
+ */
+export async function listWorkspaceMembers(
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceMember[]> {
+  await assertWorkspaceRole(workspaceId, userId, 'READ_ONLY')
+
+  const members = await prisma.workspace_members.findMany({
+    where: { workspace_id: workspaceId },
+    include: {
+      user: { select: { email: true, name: true } },
+    },
+    orderBy: { created_at: 'asc' },
+  })
+
+  return members.map((m) => ({
+    id: m.id,
+    userId: m.user_id,
+    email: m.user.email,
+    name: m.user.name,
+    role: m.role,
+    createdAt: m.created_at,
+  }))
+}
+
+/**
+ * Change a member's role.
+ * Only OWNERs can grant or revoke OWNER; the last OWNER cannot be demoted.
+ */
+export async function updateMemberRole(
+  workspaceId: string,
+  actorId: string,
+  memberUserId: string,
+  role: WorkspaceRole
+): Promise<void> {
+  const actorRole = await assertWorkspaceRole(workspaceId, actorId, 'ADMIN')
+
+  const member = await prisma.workspace_members.findUnique({
+    where: {
+      workspace_id_user_id: { workspace_id: workspaceId, user_id: memberUserId },
+    },
+  })
+
+  if (!member) {
+    throw new WorkspaceError('Member not found', 404)
+  }
+
+  if ((role === 'OWNER' || member.role === 'OWNER') && actorRole !== 'OWNER') {
+    throw new WorkspaceError('Only owners can change owner roles', 403)
+  }
+
+  if (member.role === 'OWNER' && role !== 'OWNER') {
+    await assertNotLastOwner(workspaceId)
+  }
+
+  await prisma.workspace_members.update({
+    where: { id: member.id },
+    data: { role },
+  })
+}
+
+/**
+ * Remove a member from a workspace. Members may always remove themselves.
+ */
+export async function removeMember(
+  workspaceId: string,
+  actorId: string,
+  memberUserId: string
+): Promise<void> {
+  const actorRole =
+    actorId === memberUserId
+      ? await assertWorkspaceRole(workspaceId, actorId, 'READ_ONLY')
+      : await assertWorkspaceRole(workspaceId, actorId, 'ADMIN')
+
+  const member = await prisma.workspace_members.findUnique({
+    where: {
+      workspace_id_user_id: { workspace_id: workspaceId, user_id: memberUserId },
+    },
+  })
+
+  if (!member) {
+    throw new WorkspaceError('Member not found', 404)
+  }
+
+  if (member.role === 'OWNER') {
+    if (actorId !== memberUserId && actorRole !== 'OWNER') {
+      throw new WorkspaceError('Only owners can remove owners', 403)
+    }
+    await assertNotLastOwner(workspaceId)
+  }
+
+  await prisma.workspace_members.delete({
+    where: { id: member.id },
+  })
+}
+
+// ============================================
+// Invitation Operations
+// ============================================
+
+/**
+ * Invite a user by email (ADMIN or above). Re-inviting replaces any pending invitation.
+ */
+export async function createInvitation(
+  workspaceId: string,
+  actorId: string,
+  input: { email: string; role: WorkspaceRole }
+): Promise<WorkspaceInvitation> {
+  const actorRole = await assertWorkspaceRole(workspaceId, actorId, 'ADMIN')
+
+  if (input.role === 'OWNER' && actorRole !== 'OWNER') {
+    throw new WorkspaceError('Only owners can invite owners', 403)
+  }
+
+  const email = input.email.toLowerCase().trim()
+
+  const existingMember = await prisma.workspace_members.findFirst({
+    where: { workspace_id: workspaceId, user: { email } },
+  })
+
+  if (existingMember) {
+    throw new WorkspaceError('User is already a member of this workspace', 409)
+  }
+
+  // Revoke any pending invitation for the same email
+  await prisma.workspace_invitations.updateMany({
+    where: {
+      workspace_id: workspaceId,
+      email,
+      accepted_at: null,
+      revoked_at: null,
+    },
+    data: { revoked_at: new Date() },
+  })
+
+  const invitation = await prisma.workspace_invitations.create({
+    data: {
+      workspace_id: workspaceId,
+      email,
+      role: input.role,
+      token: randomBytes(32).toString('hex'),
+      invited_by: actorId,
+      expires_at: new Date(Date.now() + INVITATION_TTL_MS),
+    },
+  })
+
+  return mapInvitation(invitation)
+}
+
+/**
+ * List pending invitations for a workspace (ADMIN or above)
+ */
+export async function listPendingInvitations(
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceInvitation[]> {
+  await assertWorkspaceRole(workspaceId, userId, 'ADMIN')
+
+  const invitations = await prisma.workspace_invitations.findMany({
+    where: {
+      workspace_id: workspaceId,
+      accepted_at: null,
+      revoked_at: null,
+      expires_at: { gt: new Date() },
+    },
+    orderBy: { created_at: 'desc' },
+  })
+
+  return invitations.map(mapInvitation)
+}
+
+/**
+ * Revoke a pending invitation (ADMIN or above)
+ */
+export async function revokeInvitation(
+  workspaceId: string,
+  userId: string,
+  invitationId: string
+): Promise<void> {
+  await assertWorkspaceRole(workspaceId, userId, 'ADMIN')
+
+  const result = await prisma.workspace_invitations.updateMany({
+    where: {
+      id: invitationId,
+      workspace_id: workspaceId,
+      accepted_at: null,
+      revoked_at: null,
+    },
+    data: { revoked_at: new Date() },
+  })
+
+  if (result.count === 0) {
+    throw new WorkspaceError('Invitation not found', 404)
+  }
+}
+
+/**
+ * Accept an invitation. The signed-in user's email must match the invited email.
+ */
+export async function acceptInvitation(
+  token: string,
+  user: { id: string; email: string }
+): Promise<{ workspaceId: string; role: WorkspaceRole }> {
+  const invitation = await prisma.workspace_invitations.findUnique({
+    where: { token },
+  })
+
+  if (!invitation || invitation.revoked_at) {
+    throw new WorkspaceError('Invitation not found', 404)
+  }
+
+  if (invitation.accepted_at) {
+    throw new WorkspaceError('Invitation has already been accepted', 409)
+  }
+
+  if (invitation.expires_at < new Date()) {
+    throw new WorkspaceError('Invitation has expired', 410)
+  }
+
+  if (invitation.email !== user.email.toLowerCase().trim()) {
+    throw new WorkspaceError('Invitation was sent to a different email address', 403)
+  }
+
+  await prisma.$transaction([
+    prisma.workspace_members.upsert({
+      where: {
+        workspace_id_user_id: {
+          workspace_id: invitation.workspace_id,
+          user_id: user.id,
+        },
+      },
+      update: { role: invitation.role },
+      create: {
+        workspace_id: invitation.workspace_id,
+        user_id: user.id,
+        role: invitation.role,
+      },
+    }),
+    prisma.workspace_invitations.update({
+      where: { id: invitation.id },
+      data: { accepted_at: new Date() },
+    }),
+  ])
+
+  return { workspaceId: invitation.workspace_id, role: invitation.role }
+}
+
+// ============================================
+// Domain Assignment
+// ============================================
+
+/**
+ * Share a domain with a workspace, or pass null to make it private again.
+ * Requires ADMIN on the domain and (when assigning) ADMIN in the target workspace.
+ * A threshold profile from the domain's previous scope is unassigned, so the
+ * domain falls back to the baseline until one from the new scope is chosen.
+ */
+export async function assignDomainToWorkspace(
+  domainId: string,
+  userId: string,
+  workspaceId: string | null
+): Promise<void> {
+  const access = await getDomainAccess(domainId, userId)
+  if (!access || !hasRequiredRole(access.role, 'ADMIN')) {
+    throw new WorkspaceError('Domain not found', 404)
+  }
+
+  if (workspaceId) {
+    await assertWorkspaceRole(workspaceId, userId, 'ADMIN')
+  }
+
+  const domain = await prisma.domains.update({
+    where: { id: domainId },
+    data: { workspace_id: workspaceId },
+    select: { user_id: true },
+  })
+
+  await prisma.domain_settings.updateMany({
+    where: {
+      domain_id: domainId,
+      threshold_profile: {
+        is: workspaceId
+          ? { OR: [{ workspace_id: null }, { workspace_id: { not: workspaceId } }] }
+          : { OR: [{ user_id: null }, { user_id: { not: domain.user_id } }] },
+      },
+    },
+    data: { threshold_profile_id: null },
+  })
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+async function assertWorkspaceRole(
+  workspaceId: string,
+  userId: string,
+  minRole: WorkspaceRole
+): Promise<WorkspaceRole> {
+  const role = await getWorkspaceRole(workspaceId, userId)
+
+  if (!role) {
+    throw new WorkspaceError('Workspace not found', 404)
+  }
+
+  if (!hasRequiredRole(role, minRole)) {
+    throw new WorkspaceError('Insufficient workspace permissions', 403)
+  }
+
+  return role
+}
+
+async function assertNotLastOwner(workspaceId: string): Promise<void> {
+  const ownerCount = await prisma.workspace_members.count({
+    where: { workspace_id: workspaceId, role: 'OWNER' },
+  })
+
+  if (ownerCount <= 1) {
+    throw new WorkspaceError('A workspace must have at least one owner', 409)
+  }
+}
+
+function mapInvitation(invitation: {
+  id: string
+  email: string
+  role: WorkspaceRole
+  token: string
+  invited_by: string
+  expires_at: Date
+  accepted_at: Date | null
+  revoked_at: Date | null
+  created_at: Date
+}): WorkspaceInvitation {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    token: invitation.token,
+    invitedBy: invitation.invited_by,
+    expiresAt: invitation.expires_at,
+    acceptedAt: invitation.accepted_at,
+    revokedAt: invitation.revoked_at,
+    createdAt: invitation.created_at,
+  }
+}
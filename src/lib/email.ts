@@ -0,0 +1,59 @@
+/**
+ * Outbound Email
+ *
+ * Thin wrapper around an SMTP transport configured from environment variables:
+ * SMTP_HOST, SMTP_PORT (default 587), SMTP_USER, SMTP_PASSWORD, SMTP_FROM and
+ * SMTP_SECURE ("true" for implicit TLS, usually port 465).
+ */
+
+import nodemailer, { type Transporter } from 'nodemailer'
+
+export interface EmailMessage {
+  to: string | string[]
+  subject: string
+  text: string
+  html?: string
+}
+
+let transporter: Transporter | null = null
+
+/**
+ * Whether SMTP is configured. Callers should skip email delivery when it isn't.
+ */
+export function isEmailConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST && process.env.SMTP_FROM)
+}
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    const port = Number(process.env.SMTP_PORT ?? 587)
+
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE === 'true' || port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    })
+  }
+
+  return transporter
+}
+
+/**
+ * Send an email. Throws if SMTP isn't configured or the server rejects the message.
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  if (!isEmailConfigured()) {
+    throw new Error('SMTP is not configured (SMTP_HOST and SMTP_FROM are required)')
+  }
+
+  await getTransporter().sendMail({
+    from: process.env.SMTP_FROM,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+  })
+}
@@ -1,5 +1,6 @@
 import { Inngest, EventSchemas } from 'inngest'
 import type { AuditOptions } from '@/types/audit'
+import type { WebhookJob, WebhookJobStatus } from '@/lib/webhooks/events'
 
 /**
  * Inngest event schemas for type-safe events
@@ -198,6 +199,42 @@ type Events = {
       error: string
     }
   }
+
+  // ============================================================================
+  // Alerting Events
+  // ============================================================================
+  'alerts/event.created': {
+    data: {
+      eventId: string
+    }
+  }
+
+  // ============================================================================
+  // Report Delivery Events
+  // ============================================================================
+  'reports/digest.send': {
+    data: {
+      digestId: string
+    }
+  }
+
+  // ============================================================================
+  // Outbound Webhook Events
+  // ============================================================================
+  'webhooks/job.lifecycle': {
+    data: {
+      job: WebhookJob
+      status: WebhookJobStatus
+      resourceId: string
+      occurredAt: string
+      details: Record<string, unknown>
+    }
+  }
+  'webhooks/delivery.send': {
+    data: {
+      deliveryId: string
+    }
+  }
 }
 
 /**
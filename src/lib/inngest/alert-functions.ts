@@ -0,0 +1,45 @@
+/**
+ * Alert Inngest Functions
+ *
+ * Delivers alert events created by tool runs. Delivery runs in its own
+ * function so a slow SMTP server or webhook never holds up a scan.
+ */
+
+import { inngest } from '@/lib/inngest'
+import { deliverAlert } from '@/lib/alerts/delivery'
+import { getDeliverableAlert, markAlertDelivered } from '@/lib/db/alert-operations'
+
+/**
+ * Deliver a single alert event to its rule's email recipients and webhook
+ */
+export const deliverAlertEvent = inngest.createFunction(
+  {
+    id: 'alerts-deliver-event',
+    retries: 3,
+    throttle: { limit: 30, period: '1m' },
+  },
+  { event: 'alerts/event.created' },
+  async ({ event, step }) => {
+    const { eventId } = event.data
+
+    const result = await step.run('deliver', async () => {
+      const alert = await getDeliverableAlert(eventId)
+      if (!alert) return null
+
+      const delivery = await deliverAlert(alert)
+      await markAlertDelivered(eventId, delivery)
+
+      // Retry when every configured channel failed
+      const nothingSent = !delivery.emailSent && !delivery.webhookSent
+      if (nothingSent && delivery.errors.length > 0) {
+        throw new Error(`Alert delivery failed: ${delivery.errors.join('; ')}`)
+      }
+
+      return delivery
+    })
+
+    return { eventId, delivered: result !== null }
+  }
+)
+
+export const alertFunctions = [deliverAlertEvent]
@@ -31,6 +31,9 @@ import type {
   SerpFeaturesSummary,
 } from '@/types/audit'
 import { getDataForSEOClient } from '@/lib/dataforseo'
+import { withSpendContext } from '@/lib/dataforseo/spend-tracking'
+import { assertWithinBudget } from '@/lib/db/spend-ledger-operations'
+import { getDomainVerticalPack } from '@/lib/db/domain-operations'
 import { OnPageModule } from '@/lib/dataforseo/modules/onpage'
 import { SerpModule } from '@/lib/dataforseo/modules/serp'
 import { BacklinksModule } from '@/lib/dataforseo/modules/backlinks'
@@ -39,18 +42,10 @@ import { LabsModule } from '@/lib/dataforseo/modules/labs'
 import { createStepError } from '@/lib/dataforseo/types'
 import { getGooglePlacesClient, type NormalizedGBPData } from '@/lib/google-places'
 import { enrichKeywordsWithHistoricalData } from '@/lib/dataforseo/utils'
+import { jobWebhookEvent } from '@/lib/webhooks/events'
 
-/** Default dental keywords for SERP tracking */
-const DEFAULT_DENTAL_KEYWORDS = [
-  'dentist near me',
-  'dental clinic',
-  'family dentist',
-  'emergency dentist',
-  'teeth whitening',
-  'dental implants',
-  'orthodontist near me',
-  'pediatric dentist',
-]
+/** Rough upper bound for a full audit's DataForSEO spend, used for budget checks */
+const ESTIMATED_AUDIT_COST = 0.1
 
 /**
  * Main audit orchestrator function
@@ -71,6 +66,11 @@ export const runAuditOrchestrator = inngest.createFunction(
         error: stepError.message ?? 'Audit orchestration failed',
         errorCategory: stepError.category,
       })
+      await inngest.send(
+        jobWebhookEvent('audit', 'failed', auditId, {
+          error: stepError.message ?? 'Audit orchestration failed',
+        })
+      )
     },
   },
   { event: 'audit/requested' },
@@ -87,11 +87,26 @@ export const runAuditOrchestrator = inngest.createFunction(
       return result
     })
 
+    // Refuse to start if the audit would exceed the domain's monthly budget
+    await step.run('check-budget', async () => {
+      await assertWithinBudget(audit.domain_id, ESTIMATED_AUDIT_COST)
+    })
+
+    // Attribute all DataForSEO spend below to this audit
+    const spendContext = {
+      tool: 'audit' as const,
+      domainId: audit.domain_id,
+      userId: audit.userId,
+      runId: auditId,
+    }
+
     // Start the audit
     await step.run('start-audit', async () => {
       await startAudit(auditId)
     })
 
+    await step.sendEvent('webhook-started', jobWebhookEvent('audit', 'started', auditId))
+
     // Initialize DataForSEO client and modules
     const client = getDataForSEOClient()
     const onPageModule = new OnPageModule(client)
@@ -105,7 +120,7 @@ export const runAuditOrchestrator = inngest.createFunction(
 
     // Step 1: OnPage Crawl (20% progress)
     // Critical step - if this fails with retryable error, retry the whole audit
-    await step.run('onpage-crawl', async () => {
+    await step.run('onpage-crawl', withSpendContext(spendContext, async () => {
       await updateAuditProgress({
         auditId,
         progress: 10,
@@ -132,11 +147,11 @@ export const runAuditOrchestrator = inngest.createFunction(
         await updateAuditProgress({ auditId, progress: 25 })
         return null
       }
-    })
+    }))
 
     // Step 2: SERP Analysis (40% progress)
     // Uses Labs ranked_keywords API for rich data (intent, traffic, difficulty, etc.)
-    await step.run('serp-analysis', async () => {
+    await step.run('serp-analysis', withSpendContext(spendContext, async () => {
       await updateAuditProgress({
         auditId,
         progress: 30,
@@ -146,8 +161,16 @@ export const runAuditOrchestrator = inngest.createFunction(
 
       try {
         // Use Labs ranked_keywords API for comprehensive keyword data
-        // Pass user-specified targetKeywords for tracked keyword monitoring
-        const result = await runSerpStepWithLabs(labsModule, serpModule, domain, targetKeywords, location)
+        // Pass user-specified targetKeywords for tracked keyword monitoring,
+        // falling back to the domain's vertical pack keywords
+        const vertical = await getDomainVerticalPack(audit.domain_id)
+        const result = await runSerpStepWithLabs(
+          labsModule,
+          serpModule,
+          domain,
+          targetKeywords ?? vertical.trackedKeywords,
+          location
+        )
         await saveStepResult(auditId, 'serp', result)
         await updateAuditProgress({ auditId, progress: 50 })
         return result
@@ -163,11 +186,11 @@ export const runAuditOrchestrator = inngest.createFunction(
         await updateAuditProgress({ auditId, progress: 50 })
         return null
       }
-    })
+    }))
 
     // Step 3: Backlinks Analysis (60% progress) - if enabled
     if (options?.includeBacklinks !== false) {
-      await step.run('backlinks-analysis', async () => {
+      await step.run('backlinks-analysis', withSpendContext(spendContext, async () => {
         await updateAuditProgress({
           auditId,
           progress: 55,
@@ -191,7 +214,7 @@ export const runAuditOrchestrator = inngest.createFunction(
           await updateAuditProgress({ auditId, progress: 70 })
           return null
         }
-      })
+      }))
     }
 
     // Step 4: Competitor Analysis (75% progress) - if competitors specified or auto-discover
@@ -199,7 +222,7 @@ export const runAuditOrchestrator = inngest.createFunction(
     // Result is saved via saveStepResult, local variable tracks completion
     const shouldRunCompetitors = competitorDomains?.length || options?.includeBacklinks !== false
     if (shouldRunCompetitors) {
-      await step.run('competitor-analysis', async () => {
+      await step.run('competitor-analysis', withSpendContext(spendContext, async () => {
         await updateAuditProgress({
           auditId,
           progress: 72,
@@ -225,13 +248,13 @@ export const runAuditOrchestrator = inngest.createFunction(
           await updateAuditProgress({ auditId, progress: 75 })
           return null
         }
-      })
+      }))
     }
 
     // Step 5: Business Data (85% progress) - if enabled
     // Non-critical step - failures here don't affect other data
     if (options?.includeBusinessData !== false) {
-      await step.run('business-data', async () => {
+      await step.run('business-data', withSpendContext(spendContext, async () => {
         await updateAuditProgress({
           auditId,
           progress: 78,
@@ -256,7 +279,7 @@ export const runAuditOrchestrator = inngest.createFunction(
           await updateAuditProgress({ auditId, progress: 88 })
           return null
         }
-      })
+      }))
     }
 
     // Complete the audit with any warnings from failed steps
@@ -279,6 +302,14 @@ export const runAuditOrchestrator = inngest.createFunction(
       },
     })
 
+    await step.sendEvent(
+      'webhook-completed',
+      jobWebhookEvent('audit', 'completed', auditId, {
+        hasWarnings,
+        durationMs: duration,
+      })
+    )
+
     return {
       auditId,
       domain,
@@ -738,14 +769,14 @@ function formatLocationName(location?: string): string | undefined {
  * @param labsModule - Labs API module
  * @param serpModule - SERP API module
  * @param domain - Target domain
- * @param trackedKeywordsList - User-specified keywords to track
+ * @param trackedKeywordsList - Keywords to track (user-specified or the vertical's defaults)
  * @param location - User's location (e.g., "Boston, MA") for local SERP results
  */
 async function runSerpStepWithLabs(
   labsModule: LabsModule,
   serpModule: SerpModule,
   domain: string,
-  trackedKeywordsList?: string[],
+  trackedKeywordsList: string[],
   location?: string
 ): Promise<SerpStepResult> {
   // Convert location to DataForSEO format
@@ -883,7 +914,7 @@ async function runSerpStepWithLabs(
   // PART 2: Tracked Keywords - Monitor specific keywords over time
   // =========================================================================
   const trackedKeywords: KeywordData[] = []
-  const keywords = trackedKeywordsList ?? DEFAULT_DENTAL_KEYWORDS
+  const keywords = trackedKeywordsList
 
   // Build location options for SERP queries
   const locationOptions = locationName ? { locationName } : undefined
@@ -0,0 +1,104 @@
+/**
+ * Backlink Monitoring Inngest Functions
+ *
+ * Re-runs backlink refreshes on each domain's cadence and records high-rank
+ * referring domains lost since the previous snapshot, so link builders can
+ * chase them. Every refresh is attributed to the run in the spend ledger and
+ * the run stops once its spend reaches the cap.
+ */
+
+import { inngest } from '@/lib/inngest'
+import { withSpendContext } from '@/lib/dataforseo/spend-tracking'
+import {
+  getBacklinkMonitorsDue,
+  recordBacklinkMonitorAttempt,
+  refreshBacklinkProfile,
+} from '@/lib/db/backlinks-operations'
+import { checkDomainBudget, getRunSpend } from '@/lib/db/spend-ledger-operations'
+
+/** Domains refreshed per run at most */
+const MAX_DOMAINS_PER_RUN = 50
+
+/** Spend cap per run (USD) */
+const MAX_RUN_COST = 5
+
+/** Rough cost of one refresh: summary, up to 1000 referring domains and anchors (USD) */
+const ESTIMATED_REFRESH_COST = 0.1
+
+/**
+ * Daily cron: refresh every domain whose backlink snapshot is older than its
+ * monitoring cadence and record lost high-rank links
+ */
+export const scheduledBacklinkMonitor = inngest.createFunction(
+  {
+    id: 'backlinks-scheduled-monitor',
+  },
+  { cron: '0 5 * * *' }, // Daily at 5 AM UTC
+  async ({ step, runId }) => {
+    const dueDomains = await step.run('get-due-domains', async () => {
+      return getBacklinkMonitorsDue(MAX_DOMAINS_PER_RUN)
+    })
+
+    if (dueDomains.length === 0) {
+      return { refreshed: 0, message: 'No domains due' }
+    }
+
+    const spendRunId = `backlink-monitor:${runId}`
+    let spent = 0
+    let refreshed = 0
+    let lostLinks = 0
+    let capped = false
+
+    for (const target of dueDomains) {
+      if (spent + ESTIMATED_REFRESH_COST > MAX_RUN_COST) {
+        capped = true
+        console.log(
+          `[Backlink Monitor] Run cost cap of $${MAX_RUN_COST} reached after ${refreshed} domains`
+        )
+        break
+      }
+
+      const result = await step.run(
+        `monitor-${target.domainId}`,
+        withSpendContext(
+          { tool: 'backlinks', domainId: target.domainId, runId: spendRunId },
+          async () => {
+            try {
+              const budget = await checkDomainBudget(target.domainId, ESTIMATED_REFRESH_COST)
+              if (budget.exceeded) {
+                console.log(
+                  `[Backlink Monitor] Skipping domain ${target.domainId}: over budget`
+                )
+                await recordBacklinkMonitorAttempt(target.domainId)
+                return { refreshed: false, lost: 0, spent: await getRunSpend(spendRunId) }
+              }
+
+              const { lost } = await refreshBacklinkProfile(target.domainId, target.domain)
+
+              return { refreshed: true, lost: lost.length, spent: await getRunSpend(spendRunId) }
+            } catch (error) {
+              console.error(
+                `[Backlink Monitor] Error monitoring domain ${target.domainId}:`,
+                error
+              )
+              // A throw here would retry the step and repeat the refresh spend
+              await recordBacklinkMonitorAttempt(target.domainId).catch(() => undefined)
+              return { refreshed: false, lost: 0, spent: await getRunSpend(spendRunId) }
+            }
+          }
+        )
+      )
+
+      spent = result.spent
+      if (result.refreshed) refreshed++
+      lostLinks += result.lost
+    }
+
+    return { refreshed, lostLinks, spent, capped }
+  }
+)
+
+/**
+ * All backlink functions to register with Inngest
+ */
+export const backlinkFunctions = [scheduledBacklinkMonitor]
@@ -21,6 +21,12 @@ import {
   completeAISeoRun,
   failAISeoRun,
 } from '@/lib/db/ai-seo-operations'
+import { assertWithinBudget } from '@/lib/db/spend-ledger-operations'
+import { withSpendContext } from '@/lib/dataforseo/spend-tracking'
+import { jobWebhookEvent } from '@/lib/webhooks/events'
+
+// Approximate cost of one LLM Responses query, used for budget checks
+const LLM_QUERY_COST = 0.01
 
 // Event type for AI SEO analysis
 export interface AISeoAnalysisEvent {
@@ -63,6 +69,7 @@ export const processAISeoAnalysis = inngest.createFunction(
     const eventData = event.data as AISeoAnalysisEvent['data']
     const {
       runId,
+      domainId,
       domain,
       businessName,
       keywords,
@@ -77,8 +84,18 @@ export const processAISeoAnalysis = inngest.createFunction(
         await updateAISeoRunStatus(runId, 'RUNNING')
       })
 
+      await step.sendEvent('webhook-started', jobWebhookEvent('ai_seo', 'started', runId))
+
+      // Refuse to start if the research queries would exceed the domain's budget
+      await step.run('check-budget', async () => {
+        const queryCount = Math.min(keywords.length, 10) * llmPlatforms.length
+        await assertWithinBudget(domainId, queryCount * LLM_QUERY_COST)
+      })
+
+      const spendContext = { tool: 'ai_seo' as const, domainId, runId }
+
       // Step 2: Get AI keyword search volume for insights
-      const keywordData = await step.run('get-ai-keyword-volume', async () => {
+      const keywordData = await step.run('get-ai-keyword-volume', withSpendContext(spendContext, async () => {
         try {
           const results = await getAIKeywordSearchVolume(keywords.slice(0, 20), {
             locationCode,
@@ -89,7 +106,7 @@ export const processAISeoAnalysis = inngest.createFunction(
           console.error('Error getting AI keyword volume:', error)
           return []
         }
-      })
+      }))
 
     // Step 3: Research AI Responses for each keyword/platform
     // This gives us actual insights: what AI says, what it cites, related questions
@@ -137,7 +154,7 @@ export const processAISeoAnalysis = inngest.createFunction(
       const queryFunction = platformMap[platformName.toLowerCase()] || platformMap[platformName]
       if (!queryFunction) continue
 
-      const platformResult = await step.run(`research-${platformName}`, async () => {
+      const platformResult = await step.run(`research-${platformName}`, withSpendContext(spendContext, async () => {
         let platformMentions = 0
         let platformCitations = 0
         let platformImpressions = 0
@@ -289,7 +306,7 @@ export const processAISeoAnalysis = inngest.createFunction(
           },
           research,
         }
-      })
+      }))
 
       platformResults.push(platformResult.platformScore)
       keywordResearch.push(...platformResult.research)
@@ -545,6 +562,15 @@ export const processAISeoAnalysis = inngest.createFunction(
       })
     })
 
+    await step.sendEvent(
+      'webhook-completed',
+      jobWebhookEvent('ai_seo', 'completed', runId, {
+        visibilityScore: totals.visibilityScore,
+        totalMentions: totals.totalMentions,
+        totalCitations: totals.totalCitations,
+      })
+    )
+
       return {
         success: true,
         runId,
@@ -559,6 +585,13 @@ export const processAISeoAnalysis = inngest.createFunction(
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
         await failAISeoRun(runId, errorMessage)
       })
+
+      await step.sendEvent(
+        'webhook-failed',
+        jobWebhookEvent('ai_seo', 'failed', runId, {
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+        })
+      )
       
       // Re-throw to let Inngest handle retries
       throw error
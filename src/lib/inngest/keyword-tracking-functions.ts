@@ -13,6 +13,7 @@ import { prisma } from '../prisma'
 import { getLiveSerpRankings } from '../competitors/competitor-analysis'
 import { getDataForSEOClient } from '../dataforseo/client'
 import { LabsModule } from '../dataforseo/modules/labs'
+import { withSpendContext } from '../dataforseo/spend-tracking'
 import {
   updateRunStatus,
   updateRunProgress,
@@ -27,6 +28,13 @@ import {
   type SaveResultInput,
   type CompletionMetrics,
 } from '../db/keyword-tracking-operations'
+import { assertWithinBudget, checkDomainBudget } from '../db/spend-ledger-operations'
+import { evaluateKeywordTrackingAlerts } from '../db/alert-operations'
+import { jobWebhookEvent } from '../webhooks/events'
+import { getVerticalPack, hasVolumeRestrictedTerm, type VerticalPack } from '../verticals'
+
+// Approximate cost of one live SERP query, used for budget checks
+const SERP_QUERY_COST = 0.002
 
 // Delay helper
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
@@ -64,37 +72,13 @@ function getMostRecentVolume(
 }
 
 /**
- * Check if a keyword is a "dentist + city" pattern that needs historical fallback
+ * Check if a keyword is a restricted term + city pattern that needs historical fallback
  * Google Ads blocks search volume for these healthcare + location keywords
  */
-function isDentistCityKeyword(keyword: string): boolean {
+function isVolumeRestrictedLocalKeyword(keyword: string, vertical: VerticalPack): boolean {
   const normalizedKeyword = keyword.toLowerCase().trim()
 
-  const dentalTerms = [
-    'dentist',
-    'dental',
-    'orthodontist',
-    'endodontist',
-    'periodontist',
-    'prosthodontist',
-    'oral surgeon',
-    'cosmetic dentist',
-    'pediatric dentist',
-    'family dentist',
-    'emergency dentist',
-    'implant dentist',
-    'invisalign',
-    'dentures',
-    'veneers',
-    'teeth whitening',
-    'root canal',
-    'dental implants',
-    'dental crown',
-    'dental bridge',
-  ]
-
-  const hasDentalTerm = dentalTerms.some((term) => normalizedKeyword.includes(term))
-  if (!hasDentalTerm) return false
+  if (!hasVolumeRestrictedTerm(normalizedKeyword, vertical)) return false
 
   // Check for location indicators (city names, "near me", state abbreviations)
   const locationIndicators = [
@@ -111,12 +95,13 @@ function isDentistCityKeyword(keyword: string): boolean {
  *
  * Workflow:
  * 1. Update status to RUNNING
- * 2. Get tracked keywords for domain
+ * 2. Get tracked keywords for domain and check the domain's DataForSEO budget
  * 3. Get previous run results for comparison
- * 4. Fetch SERP rankings for each keyword (batched)
+ * 4. Fetch SERP rankings for each keyword (batched, stopping if the budget runs out)
  * 5. Save results
  * 6. Calculate metrics
  * 7. Complete run
+ * 8. Evaluate alert rules (rank drops)
  */
 export const runKeywordTracking = inngest.createFunction(
   {
@@ -126,7 +111,13 @@ export const runKeywordTracking = inngest.createFunction(
   },
   { event: 'keyword-tracking/run.requested' },
   async ({ event, step }) => {
-    const { runId, domainId, config } = event.data
+    const { runId, domainId, userId, config } = event.data
+    const spendContext = {
+      tool: 'keyword_tracking' as const,
+      domainId,
+      userId: userId || null,
+      runId,
+    }
 
     try {
       // Step 1: Update status to RUNNING
@@ -134,12 +125,14 @@ export const runKeywordTracking = inngest.createFunction(
         await updateRunStatus(runId, 'RUNNING')
       })
 
+      await step.sendEvent('webhook-started', jobWebhookEvent('keyword_tracking', 'started', runId))
+
       // Step 2: Get domain info and tracked keywords
-      const { domain, keywords } = await step.run('get-keywords', async () => {
+      const { domain, vertical, keywords } = await step.run('get-keywords', async () => {
         // Get domain
         const domainRecord = await prisma.domains.findUnique({
           where: { id: domainId },
-          select: { domain: true },
+          select: { domain: true, vertical: true },
         })
 
         if (!domainRecord) {
@@ -163,6 +156,7 @@ export const runKeywordTracking = inngest.createFunction(
 
         return {
           domain: domainRecord.domain,
+          vertical: domainRecord.vertical,
           keywords: trackedKeywords,
         }
       })
@@ -173,6 +167,11 @@ export const runKeywordTracking = inngest.createFunction(
         )
       }
 
+      // Refuse to start if tracking every keyword would exceed the domain's budget
+      await step.run('check-budget', async () => {
+        await assertWithinBudget(domainId, keywords.length * SERP_QUERY_COST)
+      })
+
       // Step 3: Get previous run results for comparison
       // Note: Using plain object instead of Map because Inngest serializes step results to JSON
       const previousResults = await step.run('get-previous-results', async () => {
@@ -187,19 +186,21 @@ export const runKeywordTracking = inngest.createFunction(
         return obj
       })
 
-      // Step 3.5: Fetch search volume from Historical API for dentist+city keywords
-      // Google Ads blocks these, so we need historical data
-      const searchVolumeData = await step.run('fetch-search-volume', async () => {
+      // Step 3.5: Fetch search volume from Historical API for restricted local keywords
+      // (e.g. dentist+city). Google Ads blocks these, so we need historical data
+      const searchVolumeData = await step.run('fetch-search-volume', withSpendContext(spendContext, async () => {
         // Find keywords that need search volume lookup
         const keywordsNeedingVolume = keywords.filter(
-          (kw) => kw.search_volume === null && isDentistCityKeyword(kw.keyword)
+          (kw) =>
+            kw.search_volume === null &&
+            isVolumeRestrictedLocalKeyword(kw.keyword, getVerticalPack(vertical))
         )
 
         if (keywordsNeedingVolume.length === 0) {
           return {} as Record<string, { searchVolume: number | null; cpc: number | null; kd: number | null; volumeDate: string | null }>
         }
 
-        console.log(`[Keyword Tracking] Fetching historical data for ${keywordsNeedingVolume.length} dentist+city keywords`)
+        console.log(`[Keyword Tracking] Fetching historical data for ${keywordsNeedingVolume.length} restricted local keywords`)
 
         try {
           const client = getDataForSEOClient()
@@ -258,10 +259,10 @@ export const runKeywordTracking = inngest.createFunction(
           console.error('[Keyword Tracking] Error fetching historical data:', error)
           return {} as Record<string, { searchVolume: number | null; cpc: number | null; kd: number | null; volumeDate: string | null }>
         }
-      })
+      }))
 
       // Step 4: Fetch SERP rankings for all keywords (batched)
-      const results = await step.run('fetch-rankings', async () => {
+      const results = await step.run('fetch-rankings', withSpendContext(spendContext, async () => {
         const allResults: SaveResultInput[] = []
         const batchSize = 5
         let processedCount = 0
@@ -269,6 +270,9 @@ export const runKeywordTracking = inngest.createFunction(
         for (let i = 0; i < keywords.length; i += batchSize) {
           const batch = keywords.slice(i, i + batchSize)
 
+          // Stop the run if this batch would push the domain over budget
+          await assertWithinBudget(domainId, batch.length * SERP_QUERY_COST)
+
           const batchResults = await Promise.all(
             batch.map(async (kw) => {
               try {
@@ -330,6 +334,7 @@ export const runKeywordTracking = inngest.createFunction(
                   localPackRating: serp.localPack?.rating ?? null,
                   localPackReviews: serp.localPack?.reviewsCount ?? null,
                   localPackCid: serp.localPack?.cid ?? null,
+                  error: false,
                 }
               } catch (error) {
                 console.error(`Error fetching SERP for "${kw.keyword}":`, error)
@@ -360,6 +365,8 @@ export const runKeywordTracking = inngest.createFunction(
                   localPackRating: null,
                   localPackReviews: null,
                   localPackCid: null,
+                  // Keeps alert rules from reading the failure as a lost ranking
+                  error: true,
                 }
               }
             })
@@ -379,7 +386,7 @@ export const runKeywordTracking = inngest.createFunction(
         }
 
         return allResults
-      })
+      }))
 
       // Step 5: Save results
       await step.run('save-results', async () => {
@@ -423,7 +430,7 @@ export const runKeywordTracking = inngest.createFunction(
             (r) => r.position === null && r.previousPosition !== null
           ).length,
           apiCallsUsed: results.length,
-          estimatedCost: results.length * 0.002, // ~$0.002 per SERP query
+          estimatedCost: results.length * SERP_QUERY_COST,
         }
 
         return metrics
@@ -434,6 +441,26 @@ export const runKeywordTracking = inngest.createFunction(
         await completeRun(runId, metrics)
       })
 
+      // Step 8: Evaluate alert rules. A failure here must not fail a completed run.
+      const alertEventIds = await step.run('evaluate-alerts', async () => {
+        try {
+          return await evaluateKeywordTrackingAlerts(domainId, runId, results)
+        } catch (error) {
+          console.error('[Keyword Tracking] Alert evaluation failed:', error)
+          return []
+        }
+      })
+
+      if (alertEventIds.length > 0) {
+        await step.sendEvent(
+          'send-alerts',
+          alertEventIds.map((eventId) => ({
+            name: 'alerts/event.created' as const,
+            data: { eventId },
+          }))
+        )
+      }
+
       // Emit completion event
       await step.sendEvent('emit-completion', {
         name: 'keyword-tracking/run.completed',
@@ -445,6 +472,14 @@ export const runKeywordTracking = inngest.createFunction(
         },
       })
 
+      await step.sendEvent(
+        'webhook-completed',
+        jobWebhookEvent('keyword_tracking', 'completed', runId, {
+          keywordsTracked: metrics.keywordsTracked,
+          avgPosition: metrics.avgPosition,
+        })
+      )
+
       return {
         success: true,
         runId,
@@ -463,6 +498,11 @@ export const runKeywordTracking = inngest.createFunction(
         data: { runId, error: errorMessage },
       })
 
+      await step.sendEvent(
+        'webhook-failed',
+        jobWebhookEvent('keyword_tracking', 'failed', runId, { error: errorMessage })
+      )
+
       throw error
     }
   }
@@ -489,12 +529,21 @@ export const scheduledKeywordTracking = inngest.createFunction(
       return { triggered: 0, message: 'No schedules due' }
     }
 
-    // Create runs and trigger events
+    // Create runs and trigger events. Domains over budget are skipped and stay
+    // due, so their schedule resumes once budget is available again.
     const triggeredRuns = await step.run('trigger-runs', async () => {
       const runs: Array<{ runId: string; domainId: string }> = []
 
       for (const schedule of dueSchedules) {
         try {
+          const budget = await checkDomainBudget(schedule.domainId)
+          if (budget.exceeded) {
+            console.log(
+              `[Keyword Tracking] Skipping scheduled run for domain ${schedule.domainId}: over budget`
+            )
+            continue
+          }
+
           // Create the run
           const runId = await createKeywordTrackingRun(schedule.userId, {
             domainId: schedule.domainId,
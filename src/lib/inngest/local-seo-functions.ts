@@ -11,11 +11,14 @@ import {
   aggregateCompetitorStats,
   calculateRankChanges,
   estimateScanCost,
+  type GridShape,
+  type ServiceArea,
 } from '@/lib/local-seo'
 import type { KeywordScanResult } from '@/lib/local-seo/types'
 import type { BusinessInfoResult } from '@/lib/dataforseo/schemas/business'
 import {
   getLocalCampaign,
+  getCampaignForUser,
   createGridScan,
   startGridScan,
   updateScanProgress,
@@ -23,13 +26,19 @@ import {
   failGridScan,
   saveGridPointResults,
   saveCompetitorStats,
+  recordCompetitorHistory,
   updateCampaignSchedule,
   getPreviousCompetitorStats,
   saveGBPSnapshot,
   getCampaignsDueForScan,
 } from '@/lib/db/local-campaign-operations'
+import { assertWithinBudget, checkDomainBudget } from '@/lib/db/spend-ledger-operations'
+import { getDomainVerticalPack } from '@/lib/db/domain-operations'
+import { evaluateGridScanAlerts } from '@/lib/db/alert-operations'
+import { jobWebhookEvent } from '@/lib/webhooks/events'
 import { BusinessModule } from '@/lib/dataforseo/modules/business'
 import { getDataForSEOClient } from '@/lib/dataforseo'
+import { runWithSpendContext, withSpendContext } from '@/lib/dataforseo/spend-tracking'
 
 /**
  * Main grid scan orchestrator
@@ -37,9 +46,11 @@ import { getDataForSEOClient } from '@/lib/dataforseo'
  * Coordinates the full scan process:
  * 1. Create scan record
  * 2. Generate grid points
- * 3. Scan all keywords across all points
- * 4. Aggregate competitor stats
- * 5. Save results and update campaign
+ * 3. Check the domain's monthly DataForSEO budget
+ * 4. Scan all keywords across all points
+ * 5. Aggregate competitor stats
+ * 6. Save results and update campaign
+ * 7. Evaluate alert rules (share of voice drops)
  */
 export const runGridScan = inngest.createFunction(
   {
@@ -59,7 +70,10 @@ export const runGridScan = inngest.createFunction(
       const campaign = await step.run('get-campaign', async () => {
         const c = await getLocalCampaign(campaignId)
         if (!c) throw new Error(`Campaign not found: ${campaignId}`)
-        if (c.user_id !== userId) throw new Error('Unauthorized')
+        // Creator or workspace member allowed to run tools on the campaign's domain
+        if (!(await getCampaignForUser(campaignId, userId, 'ANALYST'))) {
+          throw new Error('Unauthorized')
+        }
         return c
       })
 
@@ -73,6 +87,11 @@ export const runGridScan = inngest.createFunction(
         await startGridScan(scanId!)
       })
 
+      await step.sendEvent(
+        'webhook-started',
+        jobWebhookEvent('grid_scan', 'started', scanId, { campaignId })
+      )
+
       // Step 4: Generate grid points
       const gridPoints = await step.run('generate-grid', async () => {
         return generateGridPoints({
@@ -80,6 +99,8 @@ export const runGridScan = inngest.createFunction(
           centerLng: Number(campaign.center_lng),
           gridSize: campaign.grid_size,
           radiusMiles: Number(campaign.grid_radius_miles),
+          shape: campaign.grid_shape as GridShape,
+          serviceArea: campaign.service_area as ServiceArea | null,
         })
       })
 
@@ -90,18 +111,33 @@ export const runGridScan = inngest.createFunction(
       }
 
       // Calculate expected cost
-      const costEstimate = estimateScanCost(campaign.grid_size, keywords.length)
+      const costEstimate = estimateScanCost(gridPoints.length, keywords.length)
+
+      // Refuse to start if the scan would exceed the domain's budget
+      await step.run('check-budget', async () => {
+        await assertWithinBudget(campaign.domain_id, costEstimate.estimatedCost)
+      })
 
       // Step 5: Scan all keywords
-      const scanResults = await step.run('scan-keywords', async () => {
+      const spendContext = {
+        tool: 'grid_scan' as const,
+        domainId: campaign.domain_id,
+        userId,
+        runId: scanId,
+      }
+      const scanResults = await step.run('scan-keywords', withSpendContext(spendContext, async () => {
         let totalPointsCompleted = 0
         const totalPoints = gridPoints.length * keywords.length
+        const vertical = await getDomainVerticalPack(campaign.domain_id)
 
         const results = await scanGridForAllKeywords(
           gridPoints,
           keywords,
           {
             targetBusinessName: campaign.business_name,
+            // Location campaigns match their own listing, not sibling offices
+            targetCid: (campaign.location_id && campaign.gmb_cid) || undefined,
+            nameRules: vertical.businessName,
             depth: 20,
             skipCache: true, // Always fresh data for scans
           },
@@ -117,7 +153,7 @@ export const runGridScan = inngest.createFunction(
         )
 
         return results
-      })
+      }))
 
       // Cast scanResults to proper type (Inngest serializes to JSON which loses type info)
       const typedScanResults = scanResults as unknown as KeywordScanResult[]
@@ -171,6 +207,7 @@ export const runGridScan = inngest.createFunction(
         // Include target in competitor stats
         const allStats = [aggregation.targetStats, ...aggregation.competitorStats]
         await saveCompetitorStats(scanId!, allStats)
+        await recordCompetitorHistory(campaignId, scanId!, aggregation.competitorStats)
       })
 
       // Step 9: Complete scan with metrics
@@ -207,6 +244,35 @@ export const runGridScan = inngest.createFunction(
         })
       })
 
+      // Step 12: Evaluate alert rules. A failure here must not fail a completed scan.
+      const alertEventIds = await step.run('evaluate-alerts', async () => {
+        try {
+          return await evaluateGridScanAlerts(campaignId, scanId!)
+        } catch (error) {
+          console.error('[Local SEO] Alert evaluation failed:', error)
+          return []
+        }
+      })
+
+      if (alertEventIds.length > 0) {
+        await step.sendEvent(
+          'send-alerts',
+          alertEventIds.map((eventId) => ({
+            name: 'alerts/event.created' as const,
+            data: { eventId },
+          }))
+        )
+      }
+
+      await step.sendEvent(
+        'webhook-completed',
+        jobWebhookEvent('grid_scan', 'completed', scanId, {
+          campaignId,
+          avgRank: completionMetrics.avgRank,
+          shareOfVoice: completionMetrics.shareOfVoice,
+        })
+      )
+
       return {
         success: true,
         scanId,
@@ -218,6 +284,10 @@ export const runGridScan = inngest.createFunction(
       // Mark scan as failed if we created one
       if (scanId) {
         await failGridScan(scanId, errorMessage)
+        await step.sendEvent(
+          'webhook-failed',
+          jobWebhookEvent('grid_scan', 'failed', scanId, { campaignId, error: errorMessage })
+        )
       }
 
       throw error
@@ -251,7 +321,10 @@ export const refreshGBPData = inngest.createFunction(
 
       // Try to get business info
       const searchKeyword = `${campaign.business_name} ${campaign.gbp_snapshots[0]?.address || ''}`
-      const results = await businessModule.getBusinessInfo({ keyword: searchKeyword.trim() })
+      const results = await runWithSpendContext(
+        { tool: 'gbp', domainId: campaign.domain_id, userId: campaign.user_id, runId: campaignId },
+        () => businessModule.getBusinessInfo({ keyword: searchKeyword.trim() })
+      )
 
       // Return first result (or null if no results)
       return results[0] ?? null
@@ -306,20 +379,34 @@ export const scheduledScanTrigger = inngest.createFunction(
       return { triggered: 0 }
     }
 
-    // Trigger scans for each campaign
-    await step.run('trigger-scans', async () => {
-      const events = campaignsDue.map((c) => ({
-        name: 'local-seo/scan.requested' as const,
-        data: {
-          campaignId: c.id,
-          userId: c.user_id,
-        },
-      }))
+    // Trigger scans for each campaign, skipping domains that are over budget.
+    // Skipped campaigns stay due and are picked up once budget is available again.
+    const triggered = await step.run('trigger-scans', async () => {
+      const events = []
+
+      for (const c of campaignsDue) {
+        if (c.domain_id && (await checkDomainBudget(c.domain_id)).exceeded) {
+          console.log(`[Local SEO] Skipping scheduled scan for ${c.id}: domain over budget`)
+          continue
+        }
+
+        events.push({
+          name: 'local-seo/scan.requested' as const,
+          data: {
+            campaignId: c.id,
+            userId: c.user_id,
+          },
+        })
+      }
+
+      if (events.length > 0) {
+        await inngest.send(events)
+      }
 
-      await inngest.send(events)
+      return events.length
     })
 
-    return { triggered: campaignsDue.length }
+    return { triggered }
   }
 )
 
@@ -0,0 +1,123 @@
+/**
+ * Report Inngest Functions
+ *
+ * Compiles scheduled email digests and delivers them over SMTP. Compiling
+ * and sending are separate so a failed send can be retried or resent from
+ * the UI without rebuilding the digest.
+ */
+
+import { inngest } from '@/lib/inngest'
+import { isEmailConfigured, sendEmail } from '@/lib/email'
+import {
+  compileReportDigest,
+  getReportDigest,
+  getReportSchedulesDue,
+  markDigestFailed,
+  markDigestSent,
+  skipReportScheduleRun,
+  updateReportScheduleAfterRun,
+} from '@/lib/db/report-operations'
+
+/**
+ * Hourly cron: compile a digest for every schedule that is due and queue it for sending.
+ * Schedules run longest overdue first; one whose digest fails to compile moves to its
+ * next slot so it doesn't hold up the schedules behind it.
+ */
+export const scheduledReportDelivery = inngest.createFunction(
+  {
+    id: 'reports-scheduled-delivery',
+  },
+  { cron: '30 * * * *' }, // Every hour at :30
+  async ({ step }) => {
+    const dueSchedules = await step.run('get-due-schedules', async () => {
+      return getReportSchedulesDue(20)
+    })
+
+    if (dueSchedules.length === 0) {
+      return { compiled: 0, message: 'No schedules due' }
+    }
+
+    const digestIds = await step.run('compile-digests', async () => {
+      const ids: string[] = []
+
+      for (const schedule of dueSchedules) {
+        try {
+          const digest = await compileReportDigest(schedule)
+          if (digest) ids.push(digest.id)
+
+          await updateReportScheduleAfterRun(schedule.domainId)
+        } catch (error) {
+          console.error(`Error compiling report digest for domain ${schedule.domainId}:`, error)
+          // Best effort: throwing would rerun the step and compile every digest above again
+          await skipReportScheduleRun(schedule.domainId).catch(() => undefined)
+        }
+      }
+
+      return ids
+    })
+
+    if (digestIds.length > 0) {
+      await step.sendEvent(
+        'send-digests',
+        digestIds.map((digestId) => ({
+          name: 'reports/digest.send' as const,
+          data: { digestId },
+        }))
+      )
+    }
+
+    return { compiled: digestIds.length, digests: digestIds }
+  }
+)
+
+/**
+ * Send a stored digest to its recipients
+ */
+export const sendReportDigest = inngest.createFunction(
+  {
+    id: 'reports-send-digest',
+    retries: 3,
+    throttle: { limit: 30, period: '1m' },
+  },
+  { event: 'reports/digest.send' },
+  async ({ event, step }) => {
+    const { digestId } = event.data
+
+    const status = await step.run('send', async () => {
+      const digest = await getReportDigest(digestId)
+      if (!digest) return 'missing'
+      if (digest.status === 'SENT') return 'already-sent'
+
+      // Retrying won't help until SMTP is configured; resend from the UI once it is
+      if (!isEmailConfigured()) {
+        await markDigestFailed(digestId, 'SMTP is not configured')
+        return 'failed'
+      }
+
+      if (digest.recipients.length === 0) {
+        await markDigestFailed(digestId, 'No recipients')
+        return 'failed'
+      }
+
+      try {
+        await sendEmail({
+          to: digest.recipients,
+          subject: digest.subject,
+          text: digest.text,
+          html: digest.html,
+        })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        await markDigestFailed(digestId, message)
+        throw error
+      }
+
+      await markDigestSent(digestId)
+      return 'sent'
+    })
+
+    return { digestId, status }
+  }
+)
+
+export const reportFunctions = [scheduledReportDelivery, sendReportDigest]
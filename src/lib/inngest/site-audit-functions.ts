@@ -8,19 +8,39 @@
 import { inngest } from '../inngest';
 import { getDataForSEOClient } from '../dataforseo';
 import { OnPageModule } from '../dataforseo/modules/onpage';
+import { withSpendContext } from '../dataforseo/spend-tracking';
 import { SiteAuditStatus } from '@prisma/client';
 import {
   updateScanStatus,
   updateScanProgress,
   updateScanTaskId,
+  getSiteAuditScan,
+  createSiteAuditScan,
+  getSiteAuditSchedulesDue,
+  updateSiteAuditScheduleAfterRun,
+  skipSiteAuditScheduleRun,
   saveSiteAuditSummary,
   saveSiteAuditPages,
+  saveSiteAuditStructuredData,
   completeScan,
   failScan,
   type SummaryData,
   type PageData,
 } from '../db/site-audit-operations';
-import { ISSUE_SEVERITY_CONFIG } from '../constants/seo-thresholds';
+import type { IssueSeverityConfig } from '../constants/seo-thresholds';
+import { getDomainThresholdProfile } from '../db/threshold-profile-operations';
+import { applySiteAuditRules } from '../db/site-audit-rule-operations';
+import { saveSiteAuditLinkGraph } from '../db/site-audit-link-operations';
+import { saveSiteAuditSitemaps } from '../db/site-audit-sitemap-operations';
+import { fetchSiteSitemaps } from '../seo/sitemap-fetcher';
+import { toStructuredDataItems, type StructuredDataItem } from '../seo/structured-data';
+import {
+  assertWithinBudget,
+  checkDomainBudget,
+  getRunSpend,
+} from '../db/spend-ledger-operations';
+import { evaluateSiteAuditAlerts } from '../db/alert-operations';
+import { jobWebhookEvent } from '../webhooks/events';
 
 // Polling configuration
 const POLLING_CONFIG = {
@@ -31,10 +51,20 @@ const POLLING_CONFIG = {
   rateLimit: 20, // tasks_ready is limited to 20 req/min
 };
 
+// Approximate OnPage cost per crawled page, used for budget checks
+const ONPAGE_PAGE_COST = {
+  basic: 0.000125,
+  javascript: 0.00125, // JavaScript and/or browser rendering
+};
+
+// Pages with markup whose structured data is fetched per crawl
+const STRUCTURED_DATA_PAGE_LIMIT = 100;
+
 /**
  * Main site audit orchestrator function
  *
  * Workflow:
+ * 0. Check the domain's monthly DataForSEO budget
  * 1. Update status to SUBMITTING
  * 2. Submit crawl task to DataForSEO
  * 3. Update status to CRAWLING
@@ -42,8 +72,11 @@ const POLLING_CONFIG = {
  * 5. Update status to FETCHING_RESULTS
  * 6. Fetch summary, pages, resources, links
  * 7. Calculate CWV averages
- * 8. Save results to database
+ * 8. Save results to database, apply the domain's custom rules,
+ *    collect structured data from pages with schema markup, analyse
+ *    the internal link graph and read robots.txt and XML sitemaps
  * 9. Mark as COMPLETED
+ * 10. Evaluate alert rules against the previous crawl
  */
 export const runSiteAudit = inngest.createFunction(
   {
@@ -54,20 +87,41 @@ export const runSiteAudit = inngest.createFunction(
   },
   { event: 'site-audit/scan.requested' },
   async ({ event, step }) => {
-    const { scanId, domain, config } = event.data;
+    const { scanId, domain, userId, config } = event.data;
 
     // Create DataForSEO client and OnPage module
     const client = getDataForSEOClient();
     const onpage = new OnPageModule(client);
 
     try {
+      // Step 0: Refuse to start if the crawl would exceed the domain's budget
+      const domainId = await step.run('check-budget', async () => {
+        const scan = await getSiteAuditScan(scanId);
+        const pageCost =
+          config.enableJavascript || config.enableBrowserRendering
+            ? ONPAGE_PAGE_COST.javascript
+            : ONPAGE_PAGE_COST.basic;
+
+        await assertWithinBudget(scan?.domain_id, config.maxCrawlPages * pageCost);
+        return scan?.domain_id ?? null;
+      });
+
+      const spendContext = {
+        tool: 'site_audit' as const,
+        domainId,
+        userId,
+        runId: scanId,
+      };
+
       // Step 1: Update status to SUBMITTING
       await step.run('update-status-submitting', async () => {
         await updateScanStatus(scanId, SiteAuditStatus.SUBMITTING);
       });
 
+      await step.sendEvent('webhook-started', jobWebhookEvent('site_audit', 'started', scanId));
+
       // Step 2: Submit crawl task to DataForSEO
-      const taskId = await step.run('submit-crawl-task', async () => {
+      const taskId = await step.run('submit-crawl-task', withSpendContext(spendContext, async () => {
         const result = await onpage.submitCrawlTask({
           target: domain,
           maxCrawlPages: config.maxCrawlPages,
@@ -78,11 +132,12 @@ export const runSiteAudit = inngest.createFunction(
           calculateKeywordDensity: config.calculateKeywordDensity,
           startUrl: config.startUrl,
           disableCookiePopup: true,
+          validateMicromarkup: true,
         });
 
         await updateScanTaskId(scanId, result.taskId);
         return result.taskId;
-      });
+      }));
 
       // Step 3: Update status to CRAWLING
       await step.run('update-status-crawling', async () => {
@@ -134,22 +189,22 @@ export const runSiteAudit = inngest.createFunction(
       });
 
       // Step 6: Fetch summary
-      const summary = await step.run('fetch-summary', async () => {
+      const summary = await step.run('fetch-summary', withSpendContext(spendContext, async () => {
         const result = await onpage.getCrawlSummary(taskId);
         if (!result) {
           throw new Error('Failed to fetch crawl summary');
         }
         return result;
-      });
+      }));
 
       await step.run('update-progress-after-summary', async () => {
         await updateScanProgress(scanId, 65);
       });
 
       // Step 7: Fetch all pages (using pagination)
-      const pages = await step.run('fetch-pages', async () => {
+      const pages = await step.run('fetch-pages', withSpendContext(spendContext, async () => {
         return await onpage.fetchAllPages(taskId);
-      });
+      }));
 
       await step.run('update-progress-after-pages', async () => {
         await updateScanProgress(scanId, 80);
@@ -193,9 +248,10 @@ export const runSiteAudit = inngest.createFunction(
         await updateScanProgress(scanId, 90);
       });
 
-      // Step 9: Calculate issue counts from pages
+      // Step 9: Calculate issue counts from pages, using the domain's threshold profile
       const issueCounts = await step.run('calculate-issue-counts', async () => {
-        return calculateIssueCounts(pages);
+        const { severity } = await getDomainThresholdProfile(domainId);
+        return calculateIssueCounts(pages, severity);
       });
 
       // Step 10: Save results to database
@@ -246,18 +302,108 @@ export const runSiteAudit = inngest.createFunction(
         await saveSiteAuditPages(scanId, pageData);
       });
 
+      // Evaluate the domain's custom rules against the saved pages
+      await step.run('apply-custom-rules', async () => {
+        if (!domainId) return;
+        await applySiteAuditRules(scanId, domainId);
+      });
+
+      // Collect structured data from pages DataForSEO found markup on
+      await step.run('fetch-structured-data', withSpendContext(spendContext, async () => {
+        const urls = pages
+          .filter((page) => page.checks?.has_micromarkup === true)
+          .slice(0, STRUCTURED_DATA_PAGE_LIMIT)
+          .map((page) => page.url);
+
+        const results: Array<{ url: string; items: StructuredDataItem[] }> = [];
+        for (const url of urls) {
+          try {
+            const items = await onpage.getPageMicrodata(taskId, url);
+            results.push({ url, items: toStructuredDataItems(items) });
+          } catch (error) {
+            // Missing markup for one page shouldn't fail the crawl
+            console.error(`[Site Audit] Structured data fetch failed for ${url}:`, error);
+          }
+        }
+
+        await saveSiteAuditStructuredData(scanId, results);
+        return results.length;
+      }));
+
+      // Store internal links and derive click depth, inbound links and link scores.
+      // A failure leaves the link graph report "not analysed" rather than failing the crawl.
+      await step.run('analyse-link-graph', withSpendContext(spendContext, async () => {
+        try {
+          const links = await onpage.fetchAllInternalLinks(taskId);
+
+          return await saveSiteAuditLinkGraph(
+            scanId,
+            config.startUrl ?? `https://${domain}/`,
+            links.flatMap((link) =>
+              link.link_from && link.link_to
+                ? [{
+                    source: link.link_from,
+                    target: link.link_to,
+                    anchor: link.text ?? link.anchor,
+                    dofollow: link.dofollow !== false,
+                  }]
+                : []
+            )
+          );
+        } catch (error) {
+          console.error('[Site Audit] Link graph analysis failed:', error);
+          return null;
+        }
+      }));
+
+      // Fetch robots.txt and XML sitemaps to compare with the crawled pages.
+      // A failure leaves the sitemap report unchecked.
+      await step.run('audit-sitemaps', async () => {
+        try {
+          const origin = new URL(config.startUrl ?? `https://${domain}/`).origin;
+          const sitemaps = await fetchSiteSitemaps(origin);
+          await saveSiteAuditSitemaps(scanId, sitemaps);
+          return { sitemaps: sitemaps.files.length, urls: sitemaps.entries.length };
+        } catch (error) {
+          console.error('[Site Audit] Sitemap audit failed:', error);
+          return null;
+        }
+      });
+
       await step.run('update-progress-after-save', async () => {
         await updateScanProgress(scanId, 95);
       });
 
       // Step 10: Complete the scan
-      await step.run('complete-scan', async () => {
+      const apiCost = await step.run('complete-scan', async () => {
+        const cost = await getRunSpend(scanId);
         await completeScan(scanId, {
           totalPages: pages.length,
-          // API cost would be tracked separately
+          apiCost: cost,
         });
+        return cost;
+      });
+
+      // Step 11: Evaluate alert rules. A failure here must not fail a completed scan.
+      const alertEventIds = await step.run('evaluate-alerts', async () => {
+        try {
+          return await evaluateSiteAuditAlerts(scanId);
+        } catch (error) {
+          console.error('[Site Audit] Alert evaluation failed:', error);
+          return [];
+        }
       });
 
+      if (alertEventIds.length > 0) {
+        await step.sendEvent(
+          'send-alerts',
+          alertEventIds.map((eventId) => ({
+            name: 'alerts/event.created' as const,
+            data: { eventId },
+          }))
+        );
+      }
+
       // Emit completion event
       await step.sendEvent('emit-completed', {
         name: 'site-audit/scan.completed',
@@ -266,10 +412,18 @@ export const runSiteAudit = inngest.createFunction(
           domain,
           pagesScanned: pages.length,
           onpageScore: summary.page_metrics?.onpage_score ?? null,
-          apiCost: 0, // Would need to track from API responses
+          apiCost,
         },
       });
 
+      await step.sendEvent(
+        'webhook-completed',
+        jobWebhookEvent('site_audit', 'completed', scanId, {
+          pagesScanned: pages.length,
+          onpageScore: summary.page_metrics?.onpage_score ?? null,
+        })
+      );
+
       return {
         success: true,
         scanId,
@@ -294,6 +448,11 @@ export const runSiteAudit = inngest.createFunction(
         },
       });
 
+      await step.sendEvent(
+        'webhook-failed',
+        jobWebhookEvent('site_audit', 'failed', scanId, { error: errorMessage })
+      );
+
       throw error;
     }
   }
@@ -340,15 +499,16 @@ function isCheckFailing(checkKey: string, value: boolean): boolean {
  * Calculate issue counts from all pages
  */
 function calculateIssueCounts(
-  pages: Array<{ checks?: Record<string, boolean> | null }>
+  pages: Array<{ checks?: Record<string, boolean> | null }>,
+  severity: IssueSeverityConfig
 ): { errors: number; warnings: number; notices: number } {
   let errors = 0;
   let warnings = 0;
   let notices = 0;
 
-  const errorChecks = new Set<string>(ISSUE_SEVERITY_CONFIG.errors);
-  const warningChecks = new Set<string>(ISSUE_SEVERITY_CONFIG.warnings);
-  const noticeChecks = new Set<string>(ISSUE_SEVERITY_CONFIG.notices);
+  const errorChecks = new Set<string>(severity.errors);
+  const warningChecks = new Set<string>(severity.warnings);
+  const noticeChecks = new Set<string>(severity.notices);
 
   for (const page of pages) {
     const checks = page.checks;
@@ -370,7 +530,109 @@ function calculateIssueCounts(
   return { errors, warnings, notices };
 }
 
+/**
+ * Scheduled site audit trigger
+ *
+ * Runs every hour and starts a crawl for each schedule that is due, using the
+ * domain's site audit settings, longest overdue first. Domains over budget,
+ * and schedules whose scan can't be created, are skipped until their next slot
+ * so they don't hold up the schedules behind them.
+ */
+export const scheduledSiteAudit = inngest.createFunction(
+  {
+    id: 'site-audit-scheduled',
+  },
+  { cron: '15 * * * *' }, // Every hour at :15
+  async ({ step }) => {
+    const dueSchedules = await step.run('get-due-schedules', async () => {
+      return getSiteAuditSchedulesDue(20);
+    });
+
+    if (dueSchedules.length === 0) {
+      return { triggered: 0, message: 'No schedules due' };
+    }
+
+    const triggeredScans = await step.run('create-scans', async () => {
+      const scans: Array<{
+        scanId: string;
+        domain: string;
+        userId: string;
+        maxCrawlPages: number;
+        enableJavascript: boolean;
+      }> = [];
+
+      for (const schedule of dueSchedules) {
+        try {
+          const budget = await checkDomainBudget(schedule.domainId);
+          if (budget.exceeded) {
+            console.log(
+              `[Site Audit] Skipping scheduled scan for domain ${schedule.domainId}: over budget`
+            );
+            await skipSiteAuditScheduleRun(schedule.domainId);
+            continue;
+          }
+
+          const scanId = await createSiteAuditScan(schedule.userId, {
+            domain: schedule.domain,
+            domainId: schedule.domainId,
+            maxCrawlPages: schedule.maxCrawlPages,
+            enableJavascript: schedule.enableJavascript,
+            enableBrowserRendering: schedule.enableJavascript,
+            triggeredBy: 'scheduled',
+          });
+
+          scans.push({
+            scanId,
+            domain: schedule.domain,
+            userId: schedule.userId,
+            maxCrawlPages: schedule.maxCrawlPages,
+            enableJavascript: schedule.enableJavascript,
+          });
+
+          await updateSiteAuditScheduleAfterRun(schedule.domainId, scanId);
+        } catch (error) {
+          console.error(
+            `Error creating scheduled site audit for domain ${schedule.domainId}:`,
+            error
+          );
+          // Swallow failures here too: a throw would retry the step and
+          // create the scans already started in this loop a second time
+          await skipSiteAuditScheduleRun(schedule.domainId).catch(() => undefined);
+        }
+      }
+
+      return scans;
+    });
+
+    if (triggeredScans.length > 0) {
+      await step.sendEvent(
+        'trigger-site-audits',
+        triggeredScans.map((scan) => ({
+          name: 'site-audit/scan.requested' as const,
+          data: {
+            scanId: scan.scanId,
+            domain: scan.domain,
+            userId: scan.userId,
+            config: {
+              maxCrawlPages: scan.maxCrawlPages,
+              enableJavascript: scan.enableJavascript,
+              enableBrowserRendering: scan.enableJavascript,
+              storeRawHtml: false,
+              calculateKeywordDensity: false,
+            },
+          },
+        }))
+      );
+    }
+
+    return {
+      triggered: triggeredScans.length,
+      scans: triggeredScans.map((scan) => scan.scanId),
+    };
+  }
+);
+
 /**
  * All site audit functions to register with Inngest
  */
-export const siteAuditFunctions = [runSiteAudit];
+export const siteAuditFunctions = [runSiteAudit, scheduledSiteAudit];
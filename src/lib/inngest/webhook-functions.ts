@@ -0,0 +1,80 @@
+/**
+ * Outbound Webhook Inngest Functions
+ *
+ * Jobs report started/completed/failed with a `webhooks/job.lifecycle` event.
+ * The dispatcher records one delivery per subscribed endpoint and each delivery
+ * is sent by its own function run, so one slow or failing endpoint never
+ * delays the others. Failed attempts are retried with Inngest's backoff.
+ */
+
+import { NonRetriableError } from 'inngest'
+import { inngest } from '@/lib/inngest'
+import { sendWebhookRequest } from '@/lib/webhooks/delivery'
+import {
+  createJobDeliveries,
+  getSendableDelivery,
+  recordDeliveryAttempt,
+} from '@/lib/db/webhook-operations'
+
+/**
+ * Fan a job lifecycle event out to the subscribed endpoints
+ */
+export const dispatchJobWebhooks = inngest.createFunction(
+  {
+    id: 'webhooks-dispatch-job-event',
+    retries: 3,
+  },
+  { event: 'webhooks/job.lifecycle' },
+  async ({ event, step }) => {
+    const deliveryIds = await step.run('create-deliveries', async () => {
+      return createJobDeliveries(event.data)
+    })
+
+    if (deliveryIds.length > 0) {
+      await step.sendEvent(
+        'send-deliveries',
+        deliveryIds.map((deliveryId) => ({
+          name: 'webhooks/delivery.send' as const,
+          data: { deliveryId },
+        }))
+      )
+    }
+
+    return { deliveries: deliveryIds.length }
+  }
+)
+
+/**
+ * Send one delivery, logging every attempt
+ */
+export const sendWebhookDelivery = inngest.createFunction(
+  {
+    id: 'webhooks-send-delivery',
+    retries: 5,
+    concurrency: { limit: 20 },
+  },
+  { event: 'webhooks/delivery.send' },
+  async ({ event, step }) => {
+    const { deliveryId } = event.data
+
+    const result = await step.run('deliver', async () => {
+      const request = await getSendableDelivery(deliveryId)
+      if (!request) return null
+
+      const attempt = await sendWebhookRequest(request)
+      await recordDeliveryAttempt(deliveryId, attempt)
+
+      if (!attempt.ok) {
+        const message = `Webhook delivery failed: ${attempt.error}`
+        // 4xx responses other than 408/429 won't change on retry
+        throw attempt.retryable ? new Error(message) : new NonRetriableError(message)
+      }
+
+      return { status: attempt.status }
+    })
+
+    return { deliveryId, delivered: result !== null }
+  }
+)
+
+export const webhookFunctions = [dispatchJobWebhooks, sendWebhookDelivery]
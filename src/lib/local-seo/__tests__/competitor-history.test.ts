@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for Competitor History
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildCompetitorHistory,
+  detectCompetitorMovements,
+  type CompetitorHistoryEntry,
+  type CompetitorHistoryScan,
+} from '../competitor-history'
+
+const scans: CompetitorHistoryScan[] = [
+  { id: 's1', scannedAt: new Date('2026-01-01') },
+  { id: 's2', scannedAt: new Date('2026-01-08') },
+  { id: 's3', scannedAt: new Date('2026-01-15') },
+]
+
+function entry(
+  scanId: string,
+  cid: string,
+  shareOfVoice: number,
+  timesInTop3: number,
+  businessName = `Business ${cid}`
+): CompetitorHistoryEntry {
+  return {
+    scanId,
+    cid,
+    businessName,
+    shareOfVoice,
+    avgRank: timesInTop3 > 0 ? 2 : 8,
+    timesInTop3,
+    rating: 4.5,
+    reviewCount: 100,
+  }
+}
+
+describe('detectCompetitorMovements', () => {
+  it('treats the first scan as a baseline', () => {
+    expect(detectCompetitorMovements(scans.slice(0, 1), [entry('s1', 'a', 40, 10)])).toEqual([])
+  })
+
+  it('flags competitors entering the top 3 and those that disappear, newest first', () => {
+    const movements = detectCompetitorMovements(scans, [
+      entry('s1', 'a', 40, 10),
+      entry('s1', 'b', 0, 0),
+      entry('s2', 'a', 35, 9),
+      entry('s2', 'b', 12, 3),
+      entry('s2', 'c', 5, 1),
+      entry('s3', 'b', 20, 5),
+    ])
+
+    expect(movements.map((m) => [m.scanId, m.type, m.cid])).toEqual([
+      ['s3', 'disappeared', 'c'],
+      ['s3', 'disappeared', 'a'],
+      ['s2', 'new_entrant', 'c'],
+      ['s2', 'new_entrant', 'b'],
+    ])
+  })
+
+  it('treats a scan after one without history as a new baseline', () => {
+    // s1 predates history tracking, s2 is the first recorded scan
+    const movements = detectCompetitorMovements(scans, [
+      entry('s2', 'a', 40, 10),
+      entry('s2', 'b', 20, 5),
+      entry('s3', 'a', 40, 10),
+      entry('s3', 'c', 10, 2),
+    ])
+
+    expect(movements.map((m) => [m.scanId, m.type, m.cid])).toEqual([
+      ['s3', 'disappeared', 'b'],
+      ['s3', 'new_entrant', 'c'],
+    ])
+  })
+
+  it('does not read a scan without history as every competitor disappearing', () => {
+    const movements = detectCompetitorMovements(scans, [
+      entry('s1', 'a', 40, 10),
+      entry('s3', 'a', 40, 10),
+    ])
+
+    expect(movements).toEqual([])
+  })
+
+  it('does not flag competitors that only ever ranked outside the top 3', () => {
+    const movements = detectCompetitorMovements(scans, [
+      entry('s1', 'a', 0, 0),
+      entry('s2', 'b', 0, 0),
+    ])
+
+    expect(movements).toEqual([])
+  })
+})
+
+describe('buildCompetitorHistory', () => {
+  const entries = [
+    entry('s1', 'a', 30, 8, 'Old Name'),
+    entry('s2', 'a', 30, 8, 'New Name'),
+    entry('s3', 'a', 30, 8, 'New Name'),
+    entry('s2', 'b', 60, 15),
+    entry('s1', 'c', 10, 2),
+    entry('s2', 'c', 10, 2),
+    entry('s3', 'c', 10, 2),
+  ]
+
+  it('ranks competitors by average share of voice, counting absences as zero', () => {
+    const history = buildCompetitorHistory(scans, entries)
+
+    expect(history.competitors.map((c) => [c.cid, c.avgShareOfVoice])).toEqual([
+      ['a', 30],
+      ['b', 20],
+      ['c', 10],
+    ])
+  })
+
+  it('keeps one point per scan and uses the latest name', () => {
+    const history = buildCompetitorHistory(scans, entries, 2)
+    const [a, b] = history.competitors
+
+    expect(history.competitors).toHaveLength(2)
+    expect(a?.businessName).toBe('New Name')
+    expect(b?.points.map((p) => p.shareOfVoice)).toEqual([null, 60, null])
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Unit Tests for Grid Shapes and Service Areas
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  calculateDistance,
+  countGridPoints,
+  generateGridPoints,
+  isPointInServiceArea,
+  type GridConfig,
+  type ServiceArea,
+} from '../grid-calculator'
+
+const BASE: GridConfig = {
+  centerLat: 32.7357,
+  centerLng: -97.0891,
+  gridSize: 7,
+  radiusMiles: 5,
+}
+
+// Everything from about one grid step east of the center
+const EAST_HALF: ServiceArea = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      [-97.075, 32.6],
+      [-96.9, 32.6],
+      [-96.9, 32.9],
+      [-97.075, 32.9],
+      [-97.075, 32.6],
+    ],
+  ],
+}
+
+describe('generateGridPoints', () => {
+  it('keeps the full square lattice by default', () => {
+    expect(generateGridPoints(BASE)).toHaveLength(49)
+  })
+
+  it('trims corners outside the radius for circles', () => {
+    const points = generateGridPoints({ ...BASE, shape: 'circle' })
+
+    expect(points).toHaveLength(29)
+    expect(points.some((p) => p.row === 0 && p.col === 0)).toBe(false)
+    expect(points.some((p) => p.row === 0 && p.col === 3)).toBe(true)
+  })
+
+  it('builds a hexagonal lattice with evenly spaced neighbours', () => {
+    const points = generateGridPoints({ ...BASE, shape: 'hexagon' })
+    expect(points).toHaveLength(37)
+
+    const at = (row: number, col: number) => points.find((p) => p.row === row && p.col === col)!
+    const center = at(3, 3)
+    const spacing = 10 / 6
+
+    // East neighbour on the same row, and the two neighbours on the offset row above
+    for (const neighbour of [at(3, 4), at(2, 2), at(2, 3)]) {
+      const distance = calculateDistance(center.lat, center.lng, neighbour.lat, neighbour.lng)
+      expect(distance).toBeCloseTo(spacing, 2)
+    }
+    for (const point of points) {
+      expect(calculateDistance(center.lat, center.lng, point.lat, point.lng)).toBeLessThan(5.01)
+    }
+  })
+
+  it('drops points outside the service area', () => {
+    const points = generateGridPoints({ ...BASE, serviceArea: EAST_HALF })
+
+    expect(points).toHaveLength(21)
+    expect(points.every((p) => p.col >= 4)).toBe(true)
+  })
+
+  it('rejects a service area that excludes every point', () => {
+    const farAway: ServiceArea = {
+      type: 'MultiPolygon',
+      coordinates: [
+        [
+          [
+            [0, 0],
+            [1, 0],
+            [1, 1],
+            [0, 0],
+          ],
+        ],
+      ],
+    }
+
+    expect(() => generateGridPoints({ ...BASE, serviceArea: farAway })).toThrow(
+      'Service area does not contain any grid points'
+    )
+  })
+})
+
+describe('isPointInServiceArea', () => {
+  it('excludes points inside polygon holes', () => {
+    const withHole: ServiceArea = {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 10],
+          [0, 0],
+        ],
+        [
+          [4, 4],
+          [6, 4],
+          [6, 6],
+          [4, 6],
+          [4, 4],
+        ],
+      ],
+    }
+
+    expect(isPointInServiceArea(2, 2, withHole)).toBe(true)
+    expect(isPointInServiceArea(5, 5, withHole)).toBe(false)
+    expect(isPointInServiceArea(11, 5, withHole)).toBe(false)
+  })
+})
+
+describe('countGridPoints', () => {
+  it('counts the points left after shape and service-area trimming', () => {
+    expect(countGridPoints({ ...BASE, shape: 'circle' })).toBe(29)
+    expect(countGridPoints({ ...BASE, shape: 'hexagon', serviceArea: EAST_HALF })).toBeLessThan(37)
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Unit Tests for the Interpolated Rank Heatmap
+ */
+
+import { inflateSync } from 'zlib'
+import { describe, it, expect } from 'vitest'
+import { generateGridPoints, type ServiceArea } from '../grid-calculator'
+import {
+  interpolateRankSurface,
+  rankToRgb,
+  renderSurfacePng,
+  surfaceToGeoJson,
+  surfaceToKml,
+  NOT_RANKING_VALUE,
+  type HeatmapSample,
+} from '../heatmap'
+
+const GRID = { centerLat: 32.7357, centerLng: -97.0891, gridSize: 5, radiusMiles: 2 }
+
+// Rank 1 on the west column, getting worse eastwards, not ranking on the east edge
+function samplesFor(points: ReturnType<typeof generateGridPoints>): HeatmapSample[] {
+  return points.map((p) => ({ lat: p.lat, lng: p.lng, rank: p.col === 4 ? null : 1 + p.col * 5 }))
+}
+
+describe('interpolateRankSurface', () => {
+  const samples = samplesFor(generateGridPoints(GRID))
+  const surface = interpolateRankSurface(samples, { resolution: 25 })
+  const valueAt = (row: number, col: number) => surface.values[row * surface.width + col]
+
+  it('covers the grid with one sample per cell at matching resolution', () => {
+    expect(surface.width).toBe(25)
+    expect(surface.height).toBe(25)
+    expect(surface.north).toBeGreaterThan(GRID.centerLat)
+    expect(surface.west).toBeLessThan(GRID.centerLng)
+    // Cell (12,12) sits exactly on the centre point (col 2, rank 11)
+    expect(valueAt(12, 12)).toBeCloseTo(11, 5)
+  })
+
+  it('blends smoothly between points and treats not ranking as 21', () => {
+    // Grid columns fall on surface columns 2, 7, 12, 17 and 22
+    const row = Array.from({ length: surface.width }, (_, col) => valueAt(12, col)!)
+
+    expect(row[2]).toBeCloseTo(1, 3)
+    expect(row[7]).toBeCloseTo(6, 3)
+    expect(row[22]).toBeCloseTo(NOT_RANKING_VALUE, 3)
+    for (const between of [row[4]!, row[5]!]) {
+      expect(between).toBeGreaterThan(1)
+      expect(between).toBeLessThan(6)
+    }
+  })
+
+  it('leaves cells empty away from a circular grid', () => {
+    const circle = generateGridPoints({ ...GRID, shape: 'circle' })
+    const trimmed = interpolateRankSurface(samplesFor(circle), { resolution: 25 })
+
+    expect(trimmed.values[0]).toBeNull()
+    expect(trimmed.values[12 * trimmed.width + 12]).toBeCloseTo(11, 5)
+  })
+
+  it('masks cells outside the service area', () => {
+    const westHalf: ServiceArea = {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [-97.2, 32.6],
+          [GRID.centerLng, 32.6],
+          [GRID.centerLng, 32.9],
+          [-97.2, 32.9],
+          [-97.2, 32.6],
+        ],
+      ],
+    }
+    const masked = interpolateRankSurface(samples, { resolution: 25, serviceArea: westHalf })
+
+    expect(masked.values[12 * masked.width + 2]).not.toBeNull()
+    expect(masked.values[12 * masked.width + 22]).toBeNull()
+  })
+
+  it('rejects an empty scan', () => {
+    expect(() => interpolateRankSurface([])).toThrow()
+  })
+})
+
+describe('rankToRgb', () => {
+  it('uses the legend colours at the rank thresholds', () => {
+    expect(rankToRgb(1)).toEqual([0x22, 0xc5, 0x5e])
+    expect(rankToRgb(10)).toEqual([0xea, 0xb3, 0x08])
+    expect(rankToRgb(NOT_RANKING_VALUE)).toEqual([0xef, 0x44, 0x44])
+  })
+})
+
+describe('exports', () => {
+  const samples: HeatmapSample[] = [
+    { lat: 32.7, lng: -97.1, rank: 2 },
+    { lat: 32.7, lng: -97.08, rank: null },
+  ]
+  const surface = interpolateRankSurface(samples, { resolution: 4 })
+
+  it('writes surface cells and grid points as GeoJSON features', () => {
+    const geojson = surfaceToGeoJson(surface, samples, 'dentist') as {
+      features: Array<{ geometry: { type: string }; properties: Record<string, unknown> }>
+    }
+    const points = geojson.features.filter((f) => f.geometry.type === 'Point')
+
+    expect(geojson.features.filter((f) => f.geometry.type === 'Polygon').length).toBe(
+      surface.values.filter((v) => v !== null).length
+    )
+    expect(points.map((p) => p.properties.label)).toEqual(['2', '20+'])
+  })
+
+  it('writes a KML document with one style per rank bucket', () => {
+    const kml = surfaceToKml(surface, samples, 'Smile & Co - dentist')
+
+    expect(kml).toContain('<name>Smile &amp; Co - dentist</name>')
+    const used = new Set([...kml.matchAll(/<styleUrl>#(rank-\d+)</g)].map((m) => m[1]))
+    const defined = new Set([...kml.matchAll(/<Style id="(rank-\d+)">/g)].map((m) => m[1]))
+    expect(defined).toEqual(used)
+    expect(kml).toContain('<coordinates>-97.1,32.7,0</coordinates>')
+  })
+
+  it('encodes an RGBA PNG with transparent gaps', () => {
+    const png = renderSurfacePng({ ...surface, values: [5, null, ...surface.values.slice(2)] })
+
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG')
+    expect(png.readUInt32BE(16)).toBe(surface.width)
+    expect(png.readUInt32BE(20)).toBe(surface.height)
+
+    const idatLength = png.readUInt32BE(33)
+    const raw = inflateSync(png.subarray(41, 41 + idatLength))
+    expect(raw.length).toBe((surface.width * 4 + 1) * surface.height)
+    expect(raw[4]).toBe(Math.round(0.7 * 255))
+    expect(raw[8]).toBe(0)
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for Multi-Location Roll-Up and Cannibalisation
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { CompetitorRanking } from '../types'
+import {
+  buildLocationRollup,
+  detectCannibalization,
+  type LocationGridPoint,
+  type OwnListing,
+} from '../multi-location'
+
+const OWN: OwnListing[] = [
+  { locationId: 'downtown', name: 'Smile Dental - Downtown', cid: '111' },
+  { locationId: 'north', name: 'Smile Dental - North', cid: '222' },
+]
+
+function ranking(rank: number, cid: string): CompetitorRanking {
+  return { name: 'Smile Dental', rank, cid }
+}
+
+function point(col: number, topRankings: CompetitorRanking[]): LocationGridPoint {
+  return { keyword: 'dentist', row: 0, col, lat: 32.7, lng: -97.1 + col / 100, topRankings }
+}
+
+const DOWNTOWN_POINTS = [
+  // Both offices in the pack, plus a duplicate of the north listing
+  point(0, [ranking(1, '222'), ranking(2, 'rival'), ranking(3, '111'), ranking(5, '222')]),
+  point(1, [ranking(1, '111'), ranking(2, 'rival')]),
+  point(2, [ranking(1, 'rival'), ranking(6, '111')]),
+  point(3, [ranking(1, 'rival')]),
+]
+
+const NORTH_POINTS = [
+  point(0, [ranking(2, '222'), ranking(4, '111')]),
+  point(1, [ranking(1, '222')]),
+]
+
+describe('detectCannibalization', () => {
+  it('flags points where two own listings appear, matched by CID not name', () => {
+    const found = detectCannibalization('downtown', DOWNTOWN_POINTS, OWN)
+
+    expect(found).toHaveLength(1)
+    expect(found[0]).toMatchObject({ scannedLocationId: 'downtown', col: 0 })
+    expect(found[0]!.listings).toEqual([
+      { locationId: 'north', name: 'Smile Dental - North', rank: 1 },
+      { locationId: 'downtown', name: 'Smile Dental - Downtown', rank: 3 },
+    ])
+  })
+
+  it('finds nothing without CIDs to match on', () => {
+    expect(detectCannibalization('downtown', DOWNTOWN_POINTS, [])).toEqual([])
+  })
+})
+
+describe('buildLocationRollup', () => {
+  const summary = {
+    completedAt: null,
+    // Scan-level metrics merge same-named offices, so these should be replaced
+    avgRank: 1,
+    shareOfVoice: 100,
+  }
+
+  const rollup = buildLocationRollup(
+    [
+      {
+        ...summary,
+        locationId: 'downtown',
+        locationName: 'Downtown',
+        campaignId: 'c1',
+        scanId: 's1',
+        totalPoints: DOWNTOWN_POINTS.length,
+        points: DOWNTOWN_POINTS,
+      },
+      {
+        ...summary,
+        locationId: 'north',
+        locationName: 'North',
+        campaignId: 'c2',
+        scanId: 's2',
+        totalPoints: NORTH_POINTS.length,
+        points: NORTH_POINTS,
+      },
+    ],
+    OWN
+  )
+
+  it('re-scores each location from its own listing', () => {
+    expect(rollup.locations.map((l) => [l.locationId, l.avgRank, l.shareOfVoice])).toEqual([
+      ['downtown', 3.33, 50],
+      ['north', 1.5, 100],
+    ])
+    expect(rollup.locations.map((l) => l.cannibalizedPoints)).toEqual([1, 1])
+  })
+
+  it('combines share of voice across all offices', () => {
+    expect(rollup.combined).toEqual({
+      // Any own listing in the top 3 at 4 of 6 points
+      shareOfVoice: 66.67,
+      avgRank: 2.72,
+      totalPoints: 6,
+      cannibalizedPoints: 2,
+    })
+  })
+
+  it('falls back to scan metrics when no location has a CID', () => {
+    const fallback = buildLocationRollup(
+      [
+        {
+          ...summary,
+          locationId: 'downtown',
+          locationName: 'Downtown',
+          campaignId: 'c1',
+          scanId: 's1',
+          totalPoints: 4,
+          points: DOWNTOWN_POINTS,
+        },
+      ],
+      []
+    )
+
+    expect(fallback.combined.shareOfVoice).toBe(100)
+    expect(fallback.combined.avgRank).toBe(1)
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Grid Scan Comparison
+ */
+
+import { describe, it, expect } from 'vitest'
+import { compareGridScans, getQuadrants, type ComparisonPoint } from '../scan-comparison'
+
+function point(keyword: string, row: number, col: number, rank: number | null): ComparisonPoint {
+  return { keyword, row, col, lat: 32.7 - row / 100, lng: -97.1 + col / 100, rank }
+}
+
+describe('getQuadrants', () => {
+  it('assigns corner cells to one quadrant and axis cells to their neighbours', () => {
+    expect(getQuadrants(0, 0, 3)).toEqual(['NW'])
+    expect(getQuadrants(2, 2, 3)).toEqual(['SE'])
+    expect(getQuadrants(0, 1, 3)).toEqual(['NW', 'NE'])
+    expect(getQuadrants(1, 1, 3)).toEqual(['NW', 'NE', 'SW', 'SE'])
+  })
+
+  it('has no axis cells on even-sized grids', () => {
+    expect(getQuadrants(1, 2, 4)).toEqual(['NE'])
+  })
+})
+
+describe('compareGridScans', () => {
+  const base = [
+    point('dentist', 0, 0, 5),
+    point('dentist', 0, 2, 3),
+    point('dentist', 2, 0, null),
+    point('dentist', 2, 2, 4),
+    point('dentist', 1, 1, null),
+    point('implants', 0, 0, 8),
+    point('implants', 2, 2, 1),
+  ]
+  const compare = [
+    point('dentist', 0, 0, 2),
+    point('dentist', 0, 2, 7),
+    point('dentist', 2, 0, 6),
+    point('dentist', 2, 2, null),
+    point('dentist', 1, 1, null),
+    point('implants', 0, 0, 8),
+    // Cell added after the grid was resized
+    point('implants', 3, 3, 1),
+  ]
+
+  const comparison = compareGridScans(base, compare, 3)
+  const find = (keyword: string, row: number, col: number) =>
+    comparison.points.find((p) => p.keyword === keyword && p.row === row && p.col === col)
+
+  it('classifies each matched cell', () => {
+    expect(find('dentist', 0, 0)).toMatchObject({ change: 3, status: 'improved' })
+    expect(find('dentist', 0, 2)).toMatchObject({ change: -4, status: 'declined' })
+    expect(find('dentist', 2, 0)).toMatchObject({ change: null, status: 'new' })
+    expect(find('dentist', 2, 2)).toMatchObject({ change: null, status: 'lost' })
+    expect(find('dentist', 1, 1)).toMatchObject({ status: 'absent' })
+    expect(find('implants', 0, 0)).toMatchObject({ change: 0, status: 'unchanged' })
+    expect(comparison.unmatchedPoints).toBe(2)
+  })
+
+  it('summarises per keyword', () => {
+    expect(comparison.keywords.map((k) => k.keyword)).toEqual(['dentist', 'implants'])
+    expect(comparison.keywords[0]).toMatchObject({
+      points: 5,
+      improved: 1,
+      declined: 1,
+      new: 1,
+      lost: 1,
+      absent: 1,
+      baseAvgRank: 4,
+      compareAvgRank: 5,
+      avgChange: -0.5,
+    })
+  })
+
+  it('summarises geographic quadrants', () => {
+    const byQuadrant = Object.fromEntries(comparison.quadrants.map((q) => [q.quadrant, q]))
+
+    // NW: dentist (0,0) +3, implants (0,0) 0, plus the absent center cell
+    expect(byQuadrant.NW).toMatchObject({ points: 3, improved: 1, unchanged: 1, avgChange: 1.5 })
+    expect(byQuadrant.NE).toMatchObject({ points: 2, declined: 1, avgChange: -4 })
+    expect(byQuadrant.SW).toMatchObject({ points: 2, new: 1, avgChange: null })
+    expect(byQuadrant.SE).toMatchObject({ points: 2, lost: 1 })
+  })
+})
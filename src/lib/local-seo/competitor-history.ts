@@ -0,0 +1,178 @@
+/**
+ * Competitor History
+ *
+ * Follows a campaign's competitors across scans by Google CID, builds their
+ * trajectories and flags movement between consecutive scans:
+ *
+ * - new_entrant: in the top 3 at some grid point, after not being in the top 3
+ *   anywhere (or not appearing at all) in the previous scan
+ * - disappeared: held top 3 positions in the previous scan and no longer
+ *   appears in the results at all
+ *
+ * Scans with no history rows are skipped rather than read as empty results.
+ */
+
+/**
+ * One competitor's metrics in one scan
+ */
+export interface CompetitorHistoryEntry {
+  scanId: string
+  cid: string
+  businessName: string
+  shareOfVoice: number
+  avgRank: number
+  timesInTop3: number
+  rating: number | null
+  reviewCount: number | null
+}
+
+export interface CompetitorHistoryScan {
+  id: string
+  scannedAt: Date
+}
+
+export type CompetitorMovementType = 'new_entrant' | 'disappeared'
+
+export interface CompetitorMovement {
+  type: CompetitorMovementType
+  scanId: string
+  scannedAt: Date
+  cid: string
+  businessName: string
+  /** Metrics in the scan where it entered, or the last scan it was seen in */
+  shareOfVoice: number
+  avgRank: number
+}
+
+export interface CompetitorTrajectory {
+  cid: string
+  /** Name from the most recent scan the competitor appeared in */
+  businessName: string
+  /** Average share of voice across the window, counting absences as 0 */
+  avgShareOfVoice: number
+  /** One entry per scan in the window; null metrics when absent */
+  points: Array<{
+    scanId: string
+    scannedAt: Date
+    shareOfVoice: number | null
+    avgRank: number | null
+    rating: number | null
+    reviewCount: number | null
+  }>
+}
+
+export interface CompetitorHistory {
+  scans: CompetitorHistoryScan[]
+  competitors: CompetitorTrajectory[]
+  /** Newest first */
+  movements: CompetitorMovement[]
+}
+
+/**
+ * Flag new entrants and disappearances between consecutive scans
+ */
+export function detectCompetitorMovements(
+  scans: CompetitorHistoryScan[],
+  entries: CompetitorHistoryEntry[]
+): CompetitorMovement[] {
+  const byScan = new Map<string, Map<string, CompetitorHistoryEntry>>()
+  for (const entry of entries) {
+    if (!byScan.has(entry.scanId)) byScan.set(entry.scanId, new Map())
+    byScan.get(entry.scanId)!.set(entry.cid, entry)
+  }
+
+  const movements: CompetitorMovement[] = []
+
+  // The first scan is the baseline, so nothing in it counts as new. A scan
+  // without history (recorded before tracking began, or results without CIDs)
+  // can't be compared against, so the next scan with history is a new baseline.
+  for (let i = 1; i < scans.length; i++) {
+    const scan = scans[i]!
+    const previous = byScan.get(scans[i - 1]!.id)
+    const current = byScan.get(scan.id)
+    if (!previous || !current) continue
+
+    for (const entry of current.values()) {
+      const before = previous.get(entry.cid)
+      if (entry.timesInTop3 > 0 && (!before || before.timesInTop3 === 0)) {
+        movements.push(movement('new_entrant', scan, entry))
+      }
+    }
+
+    for (const entry of previous.values()) {
+      if (entry.timesInTop3 > 0 && !current.has(entry.cid)) {
+        movements.push(movement('disappeared', scan, entry))
+      }
+    }
+  }
+
+  return movements.reverse()
+}
+
+function movement(
+  type: CompetitorMovementType,
+  scan: CompetitorHistoryScan,
+  entry: CompetitorHistoryEntry
+): CompetitorMovement {
+  return {
+    type,
+    scanId: scan.id,
+    scannedAt: scan.scannedAt,
+    cid: entry.cid,
+    businessName: entry.businessName,
+    shareOfVoice: entry.shareOfVoice,
+    avgRank: entry.avgRank,
+  }
+}
+
+/**
+ * Build trajectories for the top N competitors and the movement feed
+ *
+ * @param scans - Scans in the window, oldest first
+ * @param entries - History entries for those scans
+ * @param topN - Competitors to chart, by average share of voice over the window
+ */
+export function buildCompetitorHistory(
+  scans: CompetitorHistoryScan[],
+  entries: CompetitorHistoryEntry[],
+  topN = 5
+): CompetitorHistory {
+  const scanIndex = new Map(scans.map((scan, index) => [scan.id, index]))
+  const byCid = new Map<string, CompetitorHistoryEntry[]>()
+  for (const entry of entries) {
+    if (!scanIndex.has(entry.scanId)) continue
+    if (!byCid.has(entry.cid)) byCid.set(entry.cid, [])
+    byCid.get(entry.cid)!.push(entry)
+  }
+
+  const trajectories: CompetitorTrajectory[] = [...byCid.entries()].map(([cid, cidEntries]) => {
+    const byScanId = new Map(cidEntries.map((entry) => [entry.scanId, entry]))
+    const latest = cidEntries.reduce((a, b) =>
+      scanIndex.get(b.scanId)! > scanIndex.get(a.scanId)! ? b : a
+    )
+    const totalShare = cidEntries.reduce((sum, entry) => sum + entry.shareOfVoice, 0)
+
+    return {
+      cid,
+      businessName: latest.businessName,
+      avgShareOfVoice: Number((totalShare / scans.length).toFixed(2)),
+      points: scans.map((scan) => {
+        const entry = byScanId.get(scan.id)
+        return {
+          scanId: scan.id,
+          scannedAt: scan.scannedAt,
+          shareOfVoice: entry?.shareOfVoice ?? null,
+          avgRank: entry?.avgRank ?? null,
+          rating: entry?.rating ?? null,
+          reviewCount: entry?.reviewCount ?? null,
+        }
+      }),
+    }
+  })
+
+  return {
+    scans,
+    competitors: trajectories.sort((a, b) => b.avgShareOfVoice - a.avgShareOfVoice).slice(0, topN),
+    movements: detectCompetitorMovements(scans, entries),
+  }
+}
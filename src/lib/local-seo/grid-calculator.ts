@@ -5,11 +5,18 @@
  * Uses the Haversine formula for accurate distance calculations on Earth's surface.
  */
 
+import { z } from 'zod'
+
 /**
  * Earth's radius in miles
  */
 const EARTH_RADIUS_MILES = 3958.8
 
+/**
+ * Slack for points that sit exactly on a shape's edge
+ */
+const SHAPE_TOLERANCE = 1e-9
+
 /**
  * A single point in the grid
  */
@@ -24,6 +31,40 @@ export interface GridPoint {
   lng: number
 }
 
+/**
+ * Point layout around the center
+ *
+ * - square: the full gridSize × gridSize lattice
+ * - circle: the square lattice trimmed to points within the radius
+ * - hexagon: a hexagonal lattice (alternate rows offset by half a step)
+ *   trimmed to a flat-topped hexagon
+ */
+export const GRID_SHAPES = ['square', 'circle', 'hexagon'] as const
+
+export type GridShape = (typeof GRID_SHAPES)[number]
+
+/** GeoJSON position: [longitude, latitude] */
+type Position = [number, number]
+
+/**
+ * Service area drawn on the campaign map or pasted as GeoJSON, as a Polygon
+ * or MultiPolygon geometry
+ */
+export type ServiceArea =
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] }
+
+const positionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)])
+const polygonSchema = z.array(z.array(positionSchema).min(4).max(1000)).min(1).max(20)
+
+/**
+ * Validates a service area submitted with a campaign
+ */
+export const serviceAreaSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: polygonSchema }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(polygonSchema).min(1).max(20) }),
+])
+
 /**
  * Configuration for grid generation
  */
@@ -36,6 +77,10 @@ export interface GridConfig {
   gridSize: number
   /** Total radius from center to edge in miles */
   radiusMiles: number
+  /** Point layout (default square) */
+  shape?: GridShape
+  /** Points outside this area are dropped */
+  serviceArea?: ServiceArea | null
 }
 
 /**
@@ -130,6 +175,10 @@ export function calculateDistance(
  * - Points are spaced ~1.67 miles apart (10 miles / 6 gaps)
  * - Center point is at position (3, 3)
  *
+ * Circle and hexagon shapes drop lattice points outside the shape (a 7x7
+ * circle has 29 points, a 7x7 hexagon 37), and a service area drops points
+ * outside the polygon.
+ *
  * @example
  * ```ts
  * const points = generateGridPoints({
@@ -142,7 +191,7 @@ export function calculateDistance(
  * ```
  */
 export function generateGridPoints(config: GridConfig): GridPoint[] {
-  const { centerLat, centerLng, gridSize, radiusMiles } = config
+  const { gridSize, radiusMiles } = config
 
   // Validate inputs
   if (gridSize < 1 || gridSize > 15) {
@@ -152,6 +201,42 @@ export function generateGridPoints(config: GridConfig): GridPoint[] {
     throw new Error('Radius must be between 0 and 50 miles')
   }
 
+  const shape = config.shape ?? 'square'
+  let points: GridPoint[]
+  if (shape === 'hexagon') {
+    points = generateHexagonPoints(config)
+  } else {
+    // Trim in lattice units so edge points at exactly the radius are kept
+    const half = (gridSize - 1) / 2
+    points = generateSquarePoints(config).filter(
+      (point) =>
+        shape === 'square' ||
+        (point.row - half) ** 2 + (point.col - half) ** 2 <= half ** 2 + SHAPE_TOLERANCE
+    )
+  }
+
+  if (config.serviceArea) {
+    const area = config.serviceArea
+    points = points.filter((point) => isPointInServiceArea(point.lat, point.lng, area))
+    if (points.length === 0) {
+      throw new Error('Service area does not contain any grid points')
+    }
+  }
+
+  return points
+}
+
+function roundPoint(row: number, col: number, point: { lat: number; lng: number }): GridPoint {
+  return {
+    row,
+    col,
+    lat: Number(point.lat.toFixed(7)),
+    lng: Number(point.lng.toFixed(7)),
+  }
+}
+
+function generateSquarePoints(config: GridConfig): GridPoint[] {
+  const { centerLat, centerLng, gridSize, radiusMiles } = config
   const points: GridPoint[] = []
 
   // Total diameter of the grid
@@ -185,18 +270,103 @@ export function generateGridPoints(config: GridConfig): GridPoint[] {
         col * spacing
       )
 
-      points.push({
-        row,
-        col,
-        lat: Number(point.lat.toFixed(7)),
-        lng: Number(point.lng.toFixed(7)),
-      })
+      points.push(roundPoint(row, col, point))
     }
   }
 
   return points
 }
 
+/**
+ * Hexagonal lattice: rows are √3/2 of a step apart and rows an odd number of
+ * rows from the center are shifted east by half a step, so every point has
+ * six equidistant neighbours. The lattice is trimmed to a flat-topped hexagon
+ * whose corners sit `radiusMiles` east and west of the center.
+ */
+function generateHexagonPoints(config: GridConfig): GridPoint[] {
+  const { centerLat, centerLng, gridSize, radiusMiles } = config
+  const points: GridPoint[] = []
+  const half = (gridSize - 1) / 2
+  const spacing = gridSize > 1 ? (radiusMiles * 2) / (gridSize - 1) : 0
+  const rowSpacing = (spacing * Math.sqrt(3)) / 2
+  const halfHeight = (radiusMiles * Math.sqrt(3)) / 2
+  const tolerance = radiusMiles * SHAPE_TOLERANCE
+
+  for (let row = 0; row < gridSize; row++) {
+    const north = (half - row) * rowSpacing
+    const offset = isHexOffsetRow(row, gridSize) ? spacing / 2 : 0
+
+    for (let col = 0; col < gridSize; col++) {
+      const east = (col - half) * spacing + offset
+      const insideHexagon =
+        Math.abs(north) <= halfHeight + tolerance &&
+        Math.sqrt(3) * Math.abs(east) + Math.abs(north) <= Math.sqrt(3) * radiusMiles + tolerance
+      if (!insideHexagon) continue
+
+      const rowPoint = calculateDestination(
+        centerLat,
+        centerLng,
+        north >= 0 ? 0 : 180,
+        Math.abs(north)
+      )
+      const point = calculateDestination(
+        rowPoint.lat,
+        rowPoint.lng,
+        east >= 0 ? 90 : 270,
+        Math.abs(east)
+      )
+      points.push(roundPoint(row, col, point))
+    }
+  }
+
+  return points
+}
+
+/**
+ * Whether a hexagon-layout row is shifted east by half a step (rows an odd
+ * number of rows from the center row)
+ */
+export function isHexOffsetRow(row: number, gridSize: number): boolean {
+  return Math.abs(row - Math.floor(gridSize / 2)) % 2 === 1
+}
+
+/**
+ * Ray-casting test against one GeoJSON linear ring
+ */
+function isPointInRing(lat: number, lng: number, ring: Position[]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]!
+    const [xj, yj] = ring[j]!
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function isPointInPolygon(lat: number, lng: number, rings: Position[][]): boolean {
+  const [outer, ...holes] = rings
+  if (!outer || !isPointInRing(lat, lng, outer)) return false
+  return !holes.some((hole) => isPointInRing(lat, lng, hole))
+}
+
+/**
+ * Checks whether a coordinate falls inside a service area (holes excluded)
+ */
+export function isPointInServiceArea(lat: number, lng: number, area: ServiceArea): boolean {
+  if (area.type === 'Polygon') return isPointInPolygon(lat, lng, area.coordinates)
+  return area.coordinates.some((polygon) => isPointInPolygon(lat, lng, polygon))
+}
+
+/**
+ * Counts the points a grid configuration will scan, after shape and
+ * service-area trimming
+ */
+export function countGridPoints(config: GridConfig): number {
+  return generateGridPoints(config).length
+}
+
 /**
  * Gets the center point of a grid (useful for reference)
  */
@@ -222,7 +392,7 @@ export function getGridStats(config: GridConfig): {
   spacing: number
   centerIndex: number
 } {
-  const totalPoints = config.gridSize * config.gridSize
+  const totalPoints = countGridPoints(config)
   const diameter = config.radiusMiles * 2
   const spacing = diameter / (config.gridSize - 1)
   const centerIndex = Math.floor(config.gridSize / 2)
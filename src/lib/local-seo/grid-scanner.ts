@@ -10,6 +10,7 @@ import { getDataForSEOClient } from '@/lib/dataforseo'
 import type { GridPoint } from './grid-calculator'
 import type { CompetitorRanking, GridPointScanResult, KeywordScanResult } from './types'
 import { formatCoordinateForApi } from './grid-calculator'
+import { normalizeBusinessName, type BusinessNameRules } from '@/lib/verticals'
 
 /**
  * Configuration for grid scanning
@@ -17,38 +18,29 @@ import { formatCoordinateForApi } from './grid-calculator'
 export interface GridScanConfig {
   /** Target business name to find in results */
   targetBusinessName: string
+  /**
+   * Google CID of the target listing. When set, only that listing counts as
+   * the target, so sibling offices sharing the business name don't.
+   */
+  targetCid?: string
+  /** Vertical-specific name matching rules (credentials, synonyms) */
+  nameRules: BusinessNameRules
   /** Maximum results to fetch per point (default 20) */
   depth?: number
   /** Skip caching (force fresh API calls) */
   skipCache?: boolean
 }
 
-/**
- * Normalizes business name for comparison
- * Handles common variations in how businesses are listed
- */
-function normalizeBusinessName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/['']/g, "'") // Normalize quotes
-    .replace(/[–—]/g, '-') // Normalize dashes
-    .replace(/\s+/g, ' ') // Normalize whitespace
-    .replace(/\bdentistry\b/gi, 'dental') // Common synonym
-    .replace(/\bdds\b/gi, '') // Remove credentials
-    .replace(/\bdmd\b/gi, '')
-    .replace(/\bllc\b/gi, '')
-    .replace(/\binc\b/gi, '')
-    .replace(/\bpc\b/gi, '')
-    .replace(/[.,]/g, '') // Remove punctuation
-    .trim()
-}
-
 /**
  * Checks if a result matches the target business
  */
-function isTargetBusiness(resultTitle: string, targetName: string): boolean {
-  const normalizedResult = normalizeBusinessName(resultTitle)
-  const normalizedTarget = normalizeBusinessName(targetName)
+function isTargetBusiness(
+  resultTitle: string,
+  targetName: string,
+  nameRules: BusinessNameRules
+): boolean {
+  const normalizedResult = normalizeBusinessName(resultTitle, nameRules)
+  const normalizedTarget = normalizeBusinessName(targetName, nameRules)
 
   // Exact match
   if (normalizedResult === normalizedTarget) return true
@@ -103,7 +95,10 @@ export async function scanGridPoint(
       topRankings.push(ranking)
 
       // Check if this is the target business
-      if (targetRank === null && isTargetBusiness(result.title, config.targetBusinessName)) {
+      const isTarget = config.targetCid
+        ? result.cid === config.targetCid
+        : isTargetBusiness(result.title, config.targetBusinessName, config.nameRules)
+      if (targetRank === null && isTarget) {
         targetRank = result.rank_absolute
       }
     }
@@ -226,16 +221,16 @@ export async function scanGridForAllKeywords(
 /**
  * Estimates API cost for a grid scan
  *
- * @param gridSize - Number of rows/columns (e.g., 7 for 7x7)
+ * @param totalPoints - Points per keyword after shape/service-area trimming
+ *   (see `countGridPoints`)
  * @param keywordCount - Number of keywords to scan
  * @param costPerCall - Cost per API call in USD (default $0.005)
  */
 export function estimateScanCost(
-  gridSize: number,
+  totalPoints: number,
   keywordCount: number,
   costPerCall: number = 0.005
 ): { totalPoints: number; totalCalls: number; estimatedCost: number } {
-  const totalPoints = gridSize * gridSize
   const totalCalls = totalPoints * keywordCount
   const estimatedCost = totalCalls * costPerCall
 
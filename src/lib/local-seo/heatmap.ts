@@ -0,0 +1,420 @@
+/**
+ * Interpolated Rank Heatmap
+ *
+ * Turns the discrete rank at each grid point into a continuous surface using
+ * inverse distance weighting (IDW), then renders it as GeoJSON, KML or a PNG
+ * overlay for client decks and Google Earth.
+ */
+
+import { deflateSync } from 'zlib'
+import { isPointInServiceArea, type ServiceArea } from './grid-calculator'
+import { RANK_COLORS } from './types'
+
+/**
+ * Miles per degree of latitude (and of longitude at the equator)
+ */
+const MILES_PER_DEGREE = 69.09
+
+/**
+ * Rank used for points where the business didn't appear in the top 20
+ */
+export const NOT_RANKING_VALUE = 21
+
+/**
+ * Rank at which each colour is reached; values between stops are blended
+ */
+const COLOR_STOPS: Array<[number, string]> = [
+  [3, RANK_COLORS.excellent],
+  [10, RANK_COLORS.good],
+  [20, RANK_COLORS.average],
+  [NOT_RANKING_VALUE, RANK_COLORS.poor],
+]
+
+/**
+ * Cells further than this many grid steps from every scanned point are left
+ * empty, so circles, hexagons and service areas keep their outline
+ */
+const COVERAGE_STEPS = 0.75
+
+/**
+ * A scanned grid point and the business's rank there
+ */
+export interface HeatmapSample {
+  lat: number
+  lng: number
+  /** Rank 1-20, or null when not ranking */
+  rank: number | null
+}
+
+export interface HeatmapOptions {
+  /** Cells along the longer side of the surface (default 64) */
+  resolution?: number
+  /** IDW power; higher values keep the surface closer to the nearest point (default 2) */
+  power?: number
+  /** Campaign service area; cells outside it are left empty */
+  serviceArea?: ServiceArea | null
+}
+
+/**
+ * A regular lat/lng raster of interpolated ranks
+ */
+export interface RankSurface {
+  north: number
+  south: number
+  east: number
+  west: number
+  width: number
+  height: number
+  /** Row-major from the north-west corner; null where there's no coverage */
+  values: Array<number | null>
+}
+
+// ============================================================================
+// Interpolation
+// ============================================================================
+
+/**
+ * Interpolate a rank surface over the scanned points
+ */
+export function interpolateRankSurface(
+  samples: HeatmapSample[],
+  options: HeatmapOptions = {}
+): RankSurface {
+  if (samples.length === 0) {
+    throw new Error('At least one grid point is required for a heatmap')
+  }
+
+  const resolution = Math.max(2, Math.round(options.resolution ?? 64))
+  const power = options.power ?? 2
+
+  // Project onto a local plane in miles; fine at grid scale
+  const originLat = samples.reduce((sum, s) => sum + s.lat, 0) / samples.length
+  const lngScale = Math.cos((originLat * Math.PI) / 180)
+  const project = (lat: number, lng: number): [number, number] => [
+    lng * lngScale * MILES_PER_DEGREE,
+    lat * MILES_PER_DEGREE,
+  ]
+  const points = samples.map((sample) => {
+    const [x, y] = project(sample.lat, sample.lng)
+    return { x, y, value: sample.rank ?? NOT_RANKING_VALUE }
+  })
+
+  const step = gridStep(points)
+  const padLat = step / 2 / MILES_PER_DEGREE
+  const padLng = step / 2 / (MILES_PER_DEGREE * lngScale)
+  const north = Math.max(...samples.map((s) => s.lat)) + padLat
+  const south = Math.min(...samples.map((s) => s.lat)) - padLat
+  const east = Math.max(...samples.map((s) => s.lng)) + padLng
+  const west = Math.min(...samples.map((s) => s.lng)) - padLng
+
+  const spanX = (east - west) * lngScale
+  const spanY = north - south
+  const width = spanX >= spanY ? resolution : Math.max(1, Math.round((resolution * spanX) / spanY))
+  const height = spanY >= spanX ? resolution : Math.max(1, Math.round((resolution * spanY) / spanX))
+
+  const maxDistance = step * COVERAGE_STEPS
+  const values: Array<number | null> = []
+
+  for (let row = 0; row < height; row++) {
+    const lat = north - ((row + 0.5) / height) * (north - south)
+    for (let col = 0; col < width; col++) {
+      const lng = west + ((col + 0.5) / width) * (east - west)
+
+      if (options.serviceArea && !isPointInServiceArea(lat, lng, options.serviceArea)) {
+        values.push(null)
+        continue
+      }
+
+      const [x, y] = project(lat, lng)
+      let nearest = Infinity
+      let weighted = 0
+      let totalWeight = 0
+      let exact: number | null = null
+
+      for (const point of points) {
+        const distance = Math.hypot(point.x - x, point.y - y)
+        nearest = Math.min(nearest, distance)
+        if (distance < 1e-9) {
+          exact = point.value
+          break
+        }
+        const weight = 1 / distance ** power
+        weighted += weight * point.value
+        totalWeight += weight
+      }
+
+      if (exact !== null) values.push(exact)
+      else if (nearest > maxDistance) values.push(null)
+      else values.push(weighted / totalWeight)
+    }
+  }
+
+  return { north, south, east, west, width, height, values }
+}
+
+/**
+ * Typical spacing between neighbouring points (median nearest-neighbour distance)
+ */
+function gridStep(points: Array<{ x: number; y: number }>): number {
+  if (points.length < 2) return 1
+
+  const nearest = points
+    .map((point) =>
+      Math.min(
+        ...points
+          .filter((other) => other !== point)
+          .map((other) => Math.hypot(other.x - point.x, other.y - point.y))
+      )
+    )
+    .sort((a, b) => a - b)
+
+  return nearest[Math.floor(nearest.length / 2)] || 1
+}
+
+/**
+ * Corners of a surface cell as [lng, lat] pairs, closed
+ */
+function cellRing(surface: RankSurface, row: number, col: number): Array<[number, number]> {
+  const cellLat = (surface.north - surface.south) / surface.height
+  const cellLng = (surface.east - surface.west) / surface.width
+  const top = surface.north - row * cellLat
+  const left = surface.west + col * cellLng
+
+  return [
+    [left, top],
+    [left + cellLng, top],
+    [left + cellLng, top - cellLat],
+    [left, top - cellLat],
+    [left, top],
+  ]
+}
+
+// ============================================================================
+// Colours
+// ============================================================================
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+/**
+ * Colour for an interpolated rank, blending between the rank legend colours
+ */
+export function rankToRgb(value: number): [number, number, number] {
+  const first = COLOR_STOPS[0]!
+  if (value <= first[0]) return hexToRgb(first[1])
+
+  for (let i = 1; i < COLOR_STOPS.length; i++) {
+    const [upperRank, upperColor] = COLOR_STOPS[i]!
+    if (value <= upperRank) {
+      const [lowerRank, lowerColor] = COLOR_STOPS[i - 1]!
+      const t = (value - lowerRank) / (upperRank - lowerRank)
+      const from = hexToRgb(lowerColor)
+      const to = hexToRgb(upperColor)
+      return [0, 1, 2].map((c) => Math.round(from[c]! + (to[c]! - from[c]!) * t)) as [
+        number,
+        number,
+        number,
+      ]
+    }
+  }
+
+  return hexToRgb(COLOR_STOPS[COLOR_STOPS.length - 1]![1])
+}
+
+function rgbToHex([r, g, b]: [number, number, number]): string {
+  return `#${[r, g, b].map((c) => c.toString(16).padStart(2, '0')).join('')}`
+}
+
+function formatRank(rank: number | null): string {
+  return rank === null ? '20+' : String(rank)
+}
+
+// ============================================================================
+// GeoJSON
+// ============================================================================
+
+/**
+ * Surface cells as filled polygons plus the scanned points, styled with
+ * simplestyle properties (fill, marker-color) that most viewers understand
+ */
+export function surfaceToGeoJson(
+  surface: RankSurface,
+  samples: HeatmapSample[],
+  keyword: string
+): object {
+  const features: object[] = []
+
+  surface.values.forEach((value, index) => {
+    if (value === null) return
+    const row = Math.floor(index / surface.width)
+    const col = index % surface.width
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: [cellRing(surface, row, col)] },
+      properties: {
+        kind: 'surface',
+        rank: Number(value.toFixed(2)),
+        fill: rgbToHex(rankToRgb(value)),
+        'fill-opacity': 0.6,
+        'stroke-width': 0,
+      },
+    })
+  })
+
+  for (const sample of samples) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [sample.lng, sample.lat] },
+      properties: {
+        kind: 'grid_point',
+        keyword,
+        rank: sample.rank,
+        label: formatRank(sample.rank),
+        'marker-color': rgbToHex(rankToRgb(sample.rank ?? NOT_RANKING_VALUE)),
+      },
+    })
+  }
+
+  return {
+    type: 'FeatureCollection',
+    bbox: [surface.west, surface.south, surface.east, surface.north],
+    features,
+  }
+}
+
+// ============================================================================
+// KML
+// ============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * KML colours are aabbggrr
+ */
+function kmlColor([r, g, b]: [number, number, number], alpha: number): string {
+  return [alpha, b, g, r].map((c) => c.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Surface cells and scanned points as a KML document for Google Earth.
+ * Cells are bucketed to whole ranks so the document needs at most one style
+ * per rank.
+ */
+export function surfaceToKml(
+  surface: RankSurface,
+  samples: HeatmapSample[],
+  title: string
+): string {
+  const styles = new Set<number>()
+  const cells: string[] = []
+
+  surface.values.forEach((value, index) => {
+    if (value === null) return
+    const bucket = Math.round(value)
+    styles.add(bucket)
+    const ring = cellRing(surface, Math.floor(index / surface.width), index % surface.width)
+    cells.push(
+      `<Placemark><styleUrl>#rank-${bucket}</styleUrl><Polygon><outerBoundaryIs><LinearRing><coordinates>${ring
+        .map(([lng, lat]) => `${lng},${lat},0`)
+        .join(' ')}</coordinates></LinearRing></outerBoundaryIs></Polygon></Placemark>`
+    )
+  })
+
+  const styleXml = [...styles]
+    .sort((a, b) => a - b)
+    .map(
+      (bucket) =>
+        `<Style id="rank-${bucket}"><LineStyle><width>0</width></LineStyle><PolyStyle><color>${kmlColor(
+          rankToRgb(bucket),
+          153
+        )}</color><outline>0</outline></PolyStyle></Style>`
+    )
+
+  const points = samples.map(
+    (sample) =>
+      `<Placemark><name>${formatRank(sample.rank)}</name><Point><coordinates>${sample.lng},${sample.lat},0</coordinates></Point></Placemark>`
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `<name>${escapeXml(title)}</name>`,
+    ...styleXml,
+    '<Folder><name>Rank heatmap</name>',
+    ...cells,
+    '</Folder>',
+    '<Folder><name>Grid points</name>',
+    ...points,
+    '</Folder>',
+    '</Document>',
+    '</kml>',
+  ].join('\n')
+}
+
+// ============================================================================
+// PNG
+// ============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+/**
+ * Render the surface as an RGBA PNG covering the surface bounds, north up.
+ * Cells without coverage are transparent.
+ */
+export function renderSurfacePng(surface: RankSurface, opacity = 0.7): Buffer {
+  const alpha = Math.round(Math.min(1, Math.max(0, opacity)) * 255)
+  const stride = surface.width * 4 + 1
+  const raw = Buffer.alloc(stride * surface.height)
+
+  for (let row = 0; row < surface.height; row++) {
+    // Filter type 0 (none) at the start of each scanline
+    raw[row * stride] = 0
+    for (let col = 0; col < surface.width; col++) {
+      const value = surface.values[row * surface.width + col]
+      if (value === null || value === undefined) continue
+      const [r, g, b] = rankToRgb(value)
+      raw.set([r, g, b, alpha], row * stride + 1 + col * 4)
+    }
+  }
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(surface.width, 0)
+  header.writeUInt32BE(surface.height, 4)
+  header[8] = 8 // bit depth
+  header[9] = 6 // colour type: RGBA
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ])
+}
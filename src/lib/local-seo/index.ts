@@ -8,6 +8,11 @@
 // Grid calculator
 export {
   generateGridPoints,
+  countGridPoints,
+  isPointInServiceArea,
+  isHexOffsetRow,
+  GRID_SHAPES,
+  serviceAreaSchema,
   calculateDistance,
   calculateDestination,
   getGridCenter,
@@ -17,6 +22,8 @@ export {
   gridPointsToApiFormat,
   type GridPoint,
   type GridConfig,
+  type GridShape,
+  type ServiceArea,
 } from './grid-calculator'
 
 // Grid scanner
@@ -39,6 +46,45 @@ export {
   generateCompetitiveSummary,
 } from './competitor-aggregator'
 
+// Heatmap
+export {
+  interpolateRankSurface,
+  surfaceToGeoJson,
+  surfaceToKml,
+  renderSurfacePng,
+  rankToRgb,
+  NOT_RANKING_VALUE,
+  type HeatmapSample,
+  type HeatmapOptions,
+  type RankSurface,
+} from './heatmap'
+
+// Scan comparison
+export {
+  compareGridScans,
+  summarizeDeltas,
+  getQuadrants,
+  QUADRANTS,
+  type ComparisonPoint,
+  type PointDelta,
+  type PointDeltaStatus,
+  type DeltaCounts,
+  type Quadrant,
+  type ScanComparison,
+} from './scan-comparison'
+
+// Competitor history
+export {
+  buildCompetitorHistory,
+  detectCompetitorMovements,
+  type CompetitorHistory,
+  type CompetitorHistoryEntry,
+  type CompetitorHistoryScan,
+  type CompetitorMovement,
+  type CompetitorMovementType,
+  type CompetitorTrajectory,
+} from './competitor-history'
+
 // Types
 export {
   type CompetitorRanking,
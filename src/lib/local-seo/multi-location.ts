@@ -0,0 +1,215 @@
+/**
+ * Multi-Location Roll-Up
+ *
+ * Combines the latest grid scans of a business's offices into one view and
+ * finds cannibalisation: grid points where two or more of the business's own
+ * listings compete in the same local pack. Own listings are matched by Google
+ * CID, since offices of one brand usually share a business name.
+ *
+ * Scan-level metrics match the target by name, which merges sibling offices,
+ * so locations with a CID are re-scored from their stored point results.
+ */
+
+import type { CompetitorRanking } from './types'
+
+/**
+ * One of the business's own Google Business Profile listings
+ */
+export interface OwnListing {
+  locationId: string
+  name: string
+  cid: string
+}
+
+/**
+ * A stored grid point result (one keyword at one point)
+ */
+export interface LocationGridPoint {
+  keyword: string
+  row: number
+  col: number
+  lat: number
+  lng: number
+  topRankings: CompetitorRanking[]
+}
+
+export interface CannibalizationPoint {
+  /** Location whose campaign scanned this point */
+  scannedLocationId: string
+  keyword: string
+  row: number
+  col: number
+  lat: number
+  lng: number
+  /** Own listings in the pack at this point, best rank first */
+  listings: Array<{ locationId: string; name: string; rank: number }>
+}
+
+/**
+ * Latest completed scan for one location campaign
+ */
+export interface LocationScanSummary {
+  locationId: string
+  locationName: string
+  campaignId: string
+  scanId: string
+  completedAt: Date | null
+  avgRank: number | null
+  shareOfVoice: number | null
+  /** Points × keywords scanned, used to weight the combined metrics */
+  totalPoints: number
+}
+
+export interface LocationRollup {
+  locations: Array<
+    LocationScanSummary & {
+      cannibalizedPoints: number
+    }
+  >
+  combined: {
+    /** % of scanned points where any own listing is in the top 3 */
+    shareOfVoice: number | null
+    /** Average rank across all offices, weighted by points scanned */
+    avgRank: number | null
+    totalPoints: number
+    cannibalizedPoints: number
+  }
+  cannibalization: CannibalizationPoint[]
+}
+
+/**
+ * Find points where at least two own listings appear in the results
+ */
+export function detectCannibalization(
+  scannedLocationId: string,
+  points: LocationGridPoint[],
+  ownListings: OwnListing[]
+): CannibalizationPoint[] {
+  const byCid = new Map(ownListings.map((listing) => [listing.cid, listing]))
+  const found: CannibalizationPoint[] = []
+
+  for (const point of points) {
+    const listings = new Map<string, { locationId: string; name: string; rank: number }>()
+    for (const ranking of point.topRankings) {
+      const own = ranking.cid ? byCid.get(ranking.cid) : undefined
+      if (own && !listings.has(own.locationId)) {
+        listings.set(own.locationId, {
+          locationId: own.locationId,
+          name: own.name,
+          rank: ranking.rank,
+        })
+      }
+    }
+
+    if (listings.size >= 2) {
+      found.push({
+        scannedLocationId,
+        keyword: point.keyword,
+        row: point.row,
+        col: point.col,
+        lat: point.lat,
+        lng: point.lng,
+        listings: [...listings.values()].sort((a, b) => a.rank - b.rank),
+      })
+    }
+  }
+
+  return found
+}
+
+/** Rank considered "visible" for share of voice, as in the competitor aggregator */
+const SHARE_OF_VOICE_RANK = 3
+
+/**
+ * Share of voice and average rank of one listing, from stored point results
+ */
+function scoreListing(
+  cid: string,
+  points: LocationGridPoint[]
+): Pick<LocationScanSummary, 'avgRank' | 'shareOfVoice'> {
+  let inTop3 = 0
+  let rankTotal = 0
+  let ranked = 0
+
+  for (const point of points) {
+    const rank = point.topRankings.find((ranking) => ranking.cid === cid)?.rank
+    if (rank === undefined) continue
+    ranked++
+    rankTotal += rank
+    if (rank <= SHARE_OF_VOICE_RANK) inTop3++
+  }
+
+  return {
+    avgRank: ranked > 0 ? Number((rankTotal / ranked).toFixed(2)) : null,
+    shareOfVoice: points.length > 0 ? Number(((inTop3 / points.length) * 100).toFixed(2)) : null,
+  }
+}
+
+function weightedAverage(values: Array<{ value: number | null; weight: number }>): number | null {
+  let total = 0
+  let weight = 0
+  for (const entry of values) {
+    if (entry.value === null || entry.weight <= 0) continue
+    total += entry.value * entry.weight
+    weight += entry.weight
+  }
+  return weight > 0 ? Number((total / weight).toFixed(2)) : null
+}
+
+/**
+ * Roll up each location's latest scan into combined metrics
+ */
+export function buildLocationRollup(
+  scans: Array<LocationScanSummary & { points: LocationGridPoint[] }>,
+  ownListings: OwnListing[]
+): LocationRollup {
+  const ownCids = new Set(ownListings.map((listing) => listing.cid))
+  const cannibalization: CannibalizationPoint[] = []
+  const locations: LocationRollup['locations'] = []
+  let brandPointsInTop3 = 0
+
+  for (const { points, ...summary } of scans) {
+    const found = detectCannibalization(summary.locationId, points, ownListings)
+    cannibalization.push(...found)
+
+    const listing = ownListings.find((own) => own.locationId === summary.locationId)
+    locations.push({
+      ...summary,
+      ...(listing && scoreListing(listing.cid, points)),
+      cannibalizedPoints: found.length,
+    })
+
+    brandPointsInTop3 += points.filter((point) =>
+      point.topRankings.some(
+        (ranking) =>
+          ranking.cid !== undefined &&
+          ownCids.has(ranking.cid) &&
+          ranking.rank <= SHARE_OF_VOICE_RANK
+      )
+    ).length
+  }
+
+  const totalPoints = locations.reduce((sum, location) => sum + location.totalPoints, 0)
+
+  return {
+    locations,
+    combined: {
+      // Without CIDs there's no way to spot own listings, so fall back to scan metrics
+      shareOfVoice:
+        ownCids.size > 0 && totalPoints > 0
+          ? Number(((brandPointsInTop3 / totalPoints) * 100).toFixed(2))
+          : weightedAverage(
+              locations.map((location) => ({
+                value: location.shareOfVoice,
+                weight: location.totalPoints,
+              }))
+            ),
+      avgRank: weightedAverage(
+        locations.map((location) => ({ value: location.avgRank, weight: location.totalPoints }))
+      ),
+      totalPoints,
+      cannibalizedPoints: cannibalization.length,
+    },
+    cannibalization,
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Grid Scan Comparison
+ *
+ * Compares two scans of a campaign cell by cell. The base scan is the earlier
+ * one, so a positive change means the business moved up at that point.
+ */
+
+/**
+ * A stored grid point result (one keyword at one point)
+ */
+export interface ComparisonPoint {
+  keyword: string
+  row: number
+  col: number
+  lat: number
+  lng: number
+  /** Rank 1-20, or null when not ranking */
+  rank: number | null
+}
+
+/**
+ * How a cell moved between the two scans
+ *
+ * - improved / declined / unchanged: ranked in both scans
+ * - new: not ranking in the base scan, ranking in the compared scan
+ * - lost: ranking in the base scan, not ranking in the compared scan
+ * - absent: not ranking in either scan
+ */
+export type PointDeltaStatus = 'improved' | 'declined' | 'unchanged' | 'new' | 'lost' | 'absent'
+
+export interface PointDelta {
+  keyword: string
+  row: number
+  col: number
+  lat: number
+  lng: number
+  baseRank: number | null
+  compareRank: number | null
+  /** Positions gained (base - compare); null unless ranked in both scans */
+  change: number | null
+  status: PointDeltaStatus
+}
+
+export type Quadrant = 'NW' | 'NE' | 'SW' | 'SE'
+
+export interface DeltaCounts {
+  /** Cells present in both scans */
+  points: number
+  improved: number
+  declined: number
+  unchanged: number
+  new: number
+  lost: number
+  absent: number
+  /** Average rank over ranking cells in each scan */
+  baseAvgRank: number | null
+  compareAvgRank: number | null
+  /** Average positions gained over cells ranked in both scans */
+  avgChange: number | null
+}
+
+export interface ScanComparison {
+  totals: DeltaCounts
+  keywords: Array<DeltaCounts & { keyword: string }>
+  quadrants: Array<DeltaCounts & { quadrant: Quadrant }>
+  points: PointDelta[]
+  /** Cells scanned in only one of the scans, e.g. after the grid changed */
+  unmatchedPoints: number
+}
+
+export const QUADRANTS: Quadrant[] = ['NW', 'NE', 'SW', 'SE']
+
+function pointKey(point: Pick<ComparisonPoint, 'keyword' | 'row' | 'col'>): string {
+  return `${point.keyword}|${point.row}|${point.col}`
+}
+
+function deltaStatus(baseRank: number | null, compareRank: number | null): PointDeltaStatus {
+  if (baseRank === null) return compareRank === null ? 'absent' : 'new'
+  if (compareRank === null) return 'lost'
+  if (compareRank < baseRank) return 'improved'
+  if (compareRank > baseRank) return 'declined'
+  return 'unchanged'
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null
+  return Number((values.reduce((sum, v) => sum + v, 0) / values.length).toFixed(2))
+}
+
+/**
+ * Tally deltas into counts and averages
+ */
+export function summarizeDeltas(deltas: PointDelta[]): DeltaCounts {
+  const counts: DeltaCounts = {
+    points: deltas.length,
+    improved: 0,
+    declined: 0,
+    unchanged: 0,
+    new: 0,
+    lost: 0,
+    absent: 0,
+    baseAvgRank: null,
+    compareAvgRank: null,
+    avgChange: null,
+  }
+
+  for (const delta of deltas) counts[delta.status]++
+
+  counts.baseAvgRank = average(deltas.flatMap((d) => (d.baseRank !== null ? [d.baseRank] : [])))
+  counts.compareAvgRank = average(
+    deltas.flatMap((d) => (d.compareRank !== null ? [d.compareRank] : []))
+  )
+  counts.avgChange = average(deltas.flatMap((d) => (d.change !== null ? [d.change] : [])))
+
+  return counts
+}
+
+/**
+ * Quadrants a cell belongs to, by grid position relative to the center.
+ * Cells on the center row or column sit on the boundary and count towards
+ * both neighbouring quadrants (the center cell towards all four).
+ */
+export function getQuadrants(row: number, col: number, gridSize: number): Quadrant[] {
+  const center = (gridSize - 1) / 2
+  const vertical = row < center ? ['N'] : row > center ? ['S'] : ['N', 'S']
+  const horizontal = col < center ? ['W'] : col > center ? ['E'] : ['W', 'E']
+
+  return vertical.flatMap((v) => horizontal.map((h) => `${v}${h}` as Quadrant))
+}
+
+/**
+ * Compare the grid point results of two scans of the same campaign
+ */
+export function compareGridScans(
+  basePoints: ComparisonPoint[],
+  comparePoints: ComparisonPoint[],
+  gridSize: number
+): ScanComparison {
+  const compareByKey = new Map(comparePoints.map((point) => [pointKey(point), point]))
+  const points: PointDelta[] = []
+
+  for (const base of basePoints) {
+    const compare = compareByKey.get(pointKey(base))
+    if (!compare) continue
+
+    points.push({
+      keyword: base.keyword,
+      row: base.row,
+      col: base.col,
+      lat: base.lat,
+      lng: base.lng,
+      baseRank: base.rank,
+      compareRank: compare.rank,
+      change: base.rank !== null && compare.rank !== null ? base.rank - compare.rank : null,
+      status: deltaStatus(base.rank, compare.rank),
+    })
+  }
+
+  const keywords = [...new Set(points.map((p) => p.keyword))].sort()
+
+  return {
+    totals: summarizeDeltas(points),
+    keywords: keywords.map((keyword) => ({
+      keyword,
+      ...summarizeDeltas(points.filter((p) => p.keyword === keyword)),
+    })),
+    quadrants: QUADRANTS.map((quadrant) => ({
+      quadrant,
+      ...summarizeDeltas(
+        points.filter((p) => getQuadrants(p.row, p.col, gridSize).includes(quadrant))
+      ),
+    })),
+    points,
+    unmatchedPoints: basePoints.length + comparePoints.length - points.length * 2,
+  }
+}
@@ -4,7 +4,7 @@
  * These types are used internally by the local-seo library functions.
  */
 
-import type { GridPoint } from './grid-calculator'
+import type { GridPoint, GridShape, ServiceArea } from './grid-calculator'
 
 // ============================================================================
 // Grid Scanning Types
@@ -163,6 +163,10 @@ export interface ScanAggregationResult {
 export interface CreateCampaignInput {
   /** Business name to track */
   businessName: string
+  /** Domain the campaign belongs to (optional, enables workspace sharing) */
+  domainId?: string
+  /** Office the campaign scans for (multi-location businesses) */
+  locationId?: string
   /** Google Place ID (optional) */
   gmbPlaceId?: string
   /** Google Maps CID (optional) */
@@ -175,6 +179,10 @@ export interface CreateCampaignInput {
   gridSize?: number
   /** Grid radius in miles (default 5) */
   gridRadiusMiles?: number
+  /** Point layout (default square) */
+  gridShape?: GridShape
+  /** GeoJSON polygon that clips grid points */
+  serviceArea?: ServiceArea | null
   /** Keywords to track */
   keywords: string[]
   /** Scan frequency: daily, weekly, monthly */
@@ -195,6 +203,10 @@ export interface UpdateCampaignInput {
   scanFrequency?: 'daily' | 'weekly' | 'monthly'
   /** Grid radius (changing this affects future scans) */
   gridRadiusMiles?: number
+  /** Point layout (changing this affects future scans) */
+  gridShape?: GridShape
+  /** Service area polygon; null removes it */
+  serviceArea?: ServiceArea | null
 }
 
 /**
@@ -207,6 +219,8 @@ export interface CampaignSummary {
   keywords: string[]
   gridSize: number
   gridRadiusMiles: number
+  gridShape: GridShape
+  locationId: string | null
   scanFrequency: string
   lastScanAt: Date | null
   nextScanAt: Date | null
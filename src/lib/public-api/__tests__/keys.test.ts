@@ -0,0 +1,38 @@
+/**
+ * Unit Tests for Public API Keys
+ */
+
+import { describe, it, expect } from 'vitest'
+import { API_KEY_PREFIX, generateApiKey, hashApiKey, parseBearerKey } from '../keys'
+
+describe('generateApiKey', () => {
+  it('returns a prefixed key with its display prefix and hash', () => {
+    const { key, prefix, hash } = generateApiKey()
+
+    expect(key.startsWith(API_KEY_PREFIX)).toBe(true)
+    expect(key.startsWith(prefix)).toBe(true)
+    expect(prefix).toHaveLength(12)
+    expect(hash).toBe(hashApiKey(key))
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('never repeats a key', () => {
+    expect(generateApiKey().key).not.toBe(generateApiKey().key)
+  })
+})
+
+describe('parseBearerKey', () => {
+  const { key } = generateApiKey()
+
+  it('extracts the key from a bearer header', () => {
+    expect(parseBearerKey(`Bearer ${key}`)).toBe(key)
+    expect(parseBearerKey(`bearer   ${key} `)).toBe(key)
+  })
+
+  it('rejects missing, malformed and foreign tokens', () => {
+    expect(parseBearerKey(null)).toBeNull()
+    expect(parseBearerKey(key)).toBeNull()
+    expect(parseBearerKey('Basic dXNlcjpwYXNz')).toBeNull()
+    expect(parseBearerKey('Bearer some-other-token')).toBeNull()
+  })
+})
@@ -0,0 +1,68 @@
+/**
+ * Unit Tests for the Public API OpenAPI Document
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { describe, it, expect } from 'vitest'
+import { API_OPERATIONS, buildOpenApiDocument } from '../openapi'
+
+const V1_ROUTES_DIR = join(process.cwd(), 'src/app/api/v1')
+
+function collectRefs(value: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs))
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref' && typeof child === 'string') refs.add(child)
+      else collectRefs(child, refs)
+    }
+  }
+  return refs
+}
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument('https://example.com/api/v1') as {
+    paths: Record<string, Record<string, { parameters: { name: string; in: string }[] }>>
+    components: { schemas: Record<string, unknown> }
+  }
+
+  it('documents every operation', () => {
+    for (const operation of API_OPERATIONS) {
+      expect(document.paths[operation.path]?.[operation.method]).toBeDefined()
+    }
+  })
+
+  it('only references schemas that exist', () => {
+    for (const ref of collectRefs(document)) {
+      const name = ref.replace('#/components/schemas/', '')
+      expect(document.components.schemas[name], ref).toBeDefined()
+    }
+  })
+
+  it('lists path and query parameters', () => {
+    const params = document.paths['/keyword-tracking/runs/{runId}/results']!.get!.parameters
+
+    expect(params).toContainEqual(expect.objectContaining({ name: 'runId', in: 'path' }))
+    expect(params).toContainEqual(expect.objectContaining({ name: 'positionFilter', in: 'query' }))
+  })
+})
+
+describe('API_OPERATIONS', () => {
+  it('has unique operation IDs', () => {
+    const ids = API_OPERATIONS.map((operation) => operation.operationId)
+    expect(new Set(ids).size).toBe(ids.length)
+  })
+
+  it.each(API_OPERATIONS.map((operation) => [operation.operationId, operation] as const))(
+    '%s has a matching route handler',
+    (_, operation) => {
+      const file = join(V1_ROUTES_DIR, operation.path.replace(/\{(\w+)\}/g, '[$1]'), 'route.ts')
+
+      expect(existsSync(file), file).toBe(true)
+      expect(readFileSync(file, 'utf8')).toMatch(
+        new RegExp(`export const ${operation.method.toUpperCase()}\\b`)
+      )
+    }
+  )
+})
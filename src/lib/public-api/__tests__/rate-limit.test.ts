@@ -0,0 +1,70 @@
+/**
+ * Unit Tests for Public API Rate Limiting
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  consumeRateLimit,
+  MemoryRateLimitStore,
+  rateLimitHeaders,
+  type RateLimitStore,
+} from '../rate-limit'
+
+const NOW = new Date('2026-10-01T12:00:10Z')
+
+describe('consumeRateLimit', () => {
+  it('allows requests up to the limit, then blocks', async () => {
+    const store = new MemoryRateLimitStore()
+
+    const first = await consumeRateLimit('key_1', 2, NOW, store)
+    const second = await consumeRateLimit('key_1', 2, NOW, store)
+    const third = await consumeRateLimit('key_1', 2, NOW, store)
+
+    expect(first).toMatchObject({ allowed: true, remaining: 1 })
+    expect(second).toMatchObject({ allowed: true, remaining: 0 })
+    expect(third).toMatchObject({ allowed: false, remaining: 0 })
+    expect(third.resetAt).toEqual(new Date('2026-10-01T12:01:00Z'))
+  })
+
+  it('counts each key and window separately', async () => {
+    const store = new MemoryRateLimitStore()
+    await consumeRateLimit('key_1', 1, NOW, store)
+
+    const otherKey = await consumeRateLimit('key_2', 1, NOW, store)
+    const nextWindow = await consumeRateLimit('key_1', 1, new Date(NOW.getTime() + 60_000), store)
+
+    expect(otherKey.allowed).toBe(true)
+    expect(nextWindow.allowed).toBe(true)
+  })
+
+  it('fails open when the store errors', async () => {
+    const broken: RateLimitStore = {
+      increment: () => Promise.reject(new Error('connection refused')),
+    }
+
+    const result = await consumeRateLimit('key_1', 5, NOW, broken)
+
+    expect(result).toMatchObject({ allowed: true, remaining: 5 })
+  })
+})
+
+describe('rateLimitHeaders', () => {
+  const resetAt = new Date(Date.now() + 30_000)
+
+  it('reports the limit, remaining requests and reset time', () => {
+    const headers = rateLimitHeaders({ allowed: true, limit: 60, remaining: 59, resetAt })
+
+    expect(headers).toEqual({
+      'X-RateLimit-Limit': '60',
+      'X-RateLimit-Remaining': '59',
+      'X-RateLimit-Reset': Math.ceil(resetAt.getTime() / 1000).toString(),
+    })
+  })
+
+  it('adds Retry-After when the request is blocked', () => {
+    const headers = rateLimitHeaders({ allowed: false, limit: 60, remaining: 0, resetAt })
+
+    expect(Number(headers['Retry-After'])).toBeGreaterThan(0)
+    expect(Number(headers['Retry-After'])).toBeLessThanOrEqual(30)
+  })
+})
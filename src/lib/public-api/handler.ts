@@ -0,0 +1,124 @@
+/**
+ * Public API v1 Request Handling
+ *
+ * `withApiKey` wraps every /api/v1 route: it authenticates the bearer key,
+ * applies the key's rate limit, checks the operation's scope and adds the
+ * rate limit headers to whatever the route returns.
+ */
+
+import { NextResponse } from 'next/server'
+import type { z } from 'zod'
+import type { ApiKeyScope } from '@prisma/client'
+import { authenticateApiKey, type ApiKeyPrincipal } from '@/lib/db/api-key-operations'
+import { parseBearerKey } from './keys'
+import { consumeRateLimit, rateLimitHeaders } from './rate-limit'
+
+export interface ApiContext<P> {
+  principal: ApiKeyPrincipal
+  params: P
+}
+
+type Handler<P> = (request: Request, context: ApiContext<P>) => Promise<NextResponse>
+
+type Parsed<T> = { success: true; data: T } | { success: false; response: NextResponse }
+
+export function apiError(
+  error: string,
+  status: number,
+  extra?: { details?: unknown; headers?: Record<string, string> }
+): NextResponse {
+  return NextResponse.json(
+    { success: false, error, ...(extra?.details ? { details: extra.details } : {}) },
+    { status, headers: extra?.headers }
+  )
+}
+
+export function apiData(data: unknown, status = 200): NextResponse {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+function validationError(error: z.ZodError): NextResponse {
+  return apiError('Validation failed', 400, { details: error.flatten().fieldErrors })
+}
+
+/**
+ * Validate the query string against a schema
+ */
+export function parseQuery<T extends z.ZodType>(request: Request, schema: T): Parsed<z.output<T>> {
+  const { searchParams } = new URL(request.url)
+  const result = schema.safeParse(Object.fromEntries(searchParams))
+
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, response: validationError(result.error) }
+}
+
+/**
+ * Validate the JSON body against a schema
+ */
+export async function parseBody<T extends z.ZodType>(
+  request: Request,
+  schema: T
+): Promise<Parsed<z.output<T>>> {
+  const body = await request.json().catch(() => undefined)
+  if (body === undefined) {
+    return { success: false, response: apiError('Invalid JSON in request body', 400) }
+  }
+
+  const result = schema.safeParse(body)
+
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, response: validationError(result.error) }
+}
+
+/**
+ * Authenticate, rate limit and scope-check an /api/v1 route
+ */
+export function withApiKey<P extends Record<string, string> = Record<string, never>>(
+  scope: ApiKeyScope,
+  handler: Handler<P>
+) {
+  return async (request: Request, { params }: { params: Promise<P> }): Promise<NextResponse> => {
+    const key = parseBearerKey(request.headers.get('authorization'))
+    if (!key) {
+      return apiError('Missing API key. Send it as "Authorization: Bearer <key>".', 401)
+    }
+
+    let principal: ApiKeyPrincipal | null
+    try {
+      principal = await authenticateApiKey(key)
+    } catch (error) {
+      console.error('Error authenticating API key:', error)
+      return apiError('Internal server error', 500)
+    }
+
+    if (!principal) {
+      return apiError('Invalid, revoked or expired API key', 401)
+    }
+
+    const rateLimit = await consumeRateLimit(principal.keyId, principal.rateLimit)
+    const headers = rateLimitHeaders(rateLimit)
+
+    if (!rateLimit.allowed) {
+      return apiError('Rate limit exceeded', 429, { headers })
+    }
+
+    if (!principal.scopes.includes(scope)) {
+      return apiError(`This API key is missing the ${scope} scope`, 403, { headers })
+    }
+
+    let response: NextResponse
+    try {
+      response = await handler(request, { principal, params: await params })
+    } catch (error) {
+      console.error(`Error handling ${request.method} ${new URL(request.url).pathname}:`, error)
+      response = apiError('Internal server error', 500)
+    }
+
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value)
+    }
+    return response
+  }
+}
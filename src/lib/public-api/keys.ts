@@ -0,0 +1,70 @@
+/**
+ * Public API Keys
+ *
+ * Keys look like `nks_<43 base64url chars>`. Only the SHA-256 hash is stored,
+ * so a leaked database cannot be replayed against the API; the plaintext is
+ * returned once when the key is created.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import type { ApiKeyScope, WorkspaceRole } from '@prisma/client'
+
+export const API_KEY_PREFIX = 'nks_'
+
+/** Characters of the key kept in plaintext so users can tell keys apart */
+const DISPLAY_PREFIX_LENGTH = 12
+
+export const API_KEY_SCOPES: Record<ApiKeyScope, { label: string; description: string }> = {
+  READ: {
+    label: 'Read',
+    description: 'List domains, keyword tracking runs, grid scans and site audits',
+  },
+  TRIGGER_SCANS: {
+    label: 'Trigger scans',
+    description: 'Start keyword tracking runs, grid scans and site audits',
+  },
+  MANAGE_KEYWORDS: {
+    label: 'Manage keywords',
+    description: "Add and remove a domain's tracked keywords",
+  },
+}
+
+/**
+ * Workspace role a key's owner needs on a domain to use each scope there.
+ * Keys never grant more than the owner's own access.
+ */
+export const SCOPE_MIN_ROLE: Record<ApiKeyScope, WorkspaceRole> = {
+  READ: 'READ_ONLY',
+  TRIGGER_SCANS: 'ANALYST',
+  MANAGE_KEYWORDS: 'ANALYST',
+}
+
+export interface GeneratedApiKey {
+  key: string
+  prefix: string
+  hash: string
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * Generate a new random key with its display prefix and storage hash
+ */
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), hash: hashApiKey(key) }
+}
+
+/**
+ * Extract the key from an `Authorization: Bearer <key>` header
+ */
+export function parseBearerKey(header: string | null): string | null {
+  if (!header) return null
+
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim())
+  if (!match?.[1]?.startsWith(API_KEY_PREFIX)) return null
+
+  return match[1]
+}
@@ -0,0 +1,362 @@
+/**
+ * Public API v1 OpenAPI Document
+ *
+ * Every /api/v1 operation is listed here with the zod schemas its route uses;
+ * the document served at /api/v1/openapi.json is generated from this list.
+ */
+
+import { z } from 'zod'
+import type { ApiKeyScope } from '@prisma/client'
+import { API_KEY_SCOPES } from './keys'
+import * as schemas from './schemas'
+
+export const API_VERSION = '1.0.0'
+
+type Method = 'get' | 'post' | 'delete'
+
+export interface ApiOperation {
+  method: Method
+  /** Path below /api/v1, with `{param}` placeholders */
+  path: string
+  operationId: string
+  summary: string
+  tag: 'Domains' | 'Keywords' | 'Keyword Tracking' | 'Local SEO' | 'Site Audit'
+  scope: ApiKeyScope
+  query?: z.ZodObject
+  body?: z.ZodObject
+  /** Component name of the `data` payload */
+  response: keyof typeof RESPONSE_SCHEMAS
+  status?: 200 | 201 | 202
+}
+
+/**
+ * Response payloads published as named components
+ */
+const RESPONSE_SCHEMAS = {
+  Domain: schemas.domainSchema,
+  DomainList: schemas.domainListSchema,
+  Keyword: schemas.keywordSchema,
+  KeywordList: schemas.keywordListSchema,
+  KeywordRun: schemas.keywordRunSchema,
+  KeywordRunDetail: schemas.keywordRunDetailSchema,
+  KeywordRunPage: schemas.keywordRunPageSchema,
+  KeywordResult: schemas.keywordResultSchema,
+  KeywordResultPage: schemas.keywordResultPageSchema,
+  GridScan: schemas.gridScanSchema,
+  GridScanDetail: schemas.gridScanDetailSchema,
+  GridScanPage: schemas.gridScanPageSchema,
+  GridPoint: schemas.gridPointSchema,
+  SiteAuditScan: schemas.siteAuditScanSchema,
+  SiteAuditScanPage: schemas.siteAuditScanPageSchema,
+  SiteAuditPage: schemas.siteAuditPageSchema,
+  SiteAuditPagePage: schemas.siteAuditPagePageSchema,
+  CreatedJob: schemas.createdJobSchema,
+  QueuedGridScan: schemas.queuedGridScanSchema,
+  Deleted: z.object({ id: z.string() }),
+} satisfies Record<string, z.ZodType>
+
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/domains',
+    operationId: 'listDomains',
+    summary: 'List domains the key can access',
+    tag: 'Domains',
+    scope: 'READ',
+    response: 'DomainList',
+  },
+  {
+    method: 'get',
+    path: '/domains/{domainId}',
+    operationId: 'getDomain',
+    summary: 'Get a domain',
+    tag: 'Domains',
+    scope: 'READ',
+    response: 'Domain',
+  },
+  {
+    method: 'get',
+    path: '/domains/{domainId}/keywords',
+    operationId: 'listKeywords',
+    summary: "List a domain's tracked keywords",
+    tag: 'Keywords',
+    scope: 'READ',
+    response: 'KeywordList',
+  },
+  {
+    method: 'post',
+    path: '/domains/{domainId}/keywords',
+    operationId: 'addKeywords',
+    summary: 'Add tracked keywords to a domain',
+    tag: 'Keywords',
+    scope: 'MANAGE_KEYWORDS',
+    body: schemas.addKeywordsBody,
+    response: 'KeywordList',
+  },
+  {
+    method: 'delete',
+    path: '/domains/{domainId}/keywords/{keywordId}',
+    operationId: 'removeKeyword',
+    summary: 'Stop tracking a keyword',
+    tag: 'Keywords',
+    scope: 'MANAGE_KEYWORDS',
+    response: 'Deleted',
+  },
+  {
+    method: 'get',
+    path: '/keyword-tracking/runs',
+    operationId: 'listKeywordRuns',
+    summary: "List a domain's keyword tracking runs",
+    tag: 'Keyword Tracking',
+    scope: 'READ',
+    query: schemas.listByDomainQuery,
+    response: 'KeywordRunPage',
+  },
+  {
+    method: 'post',
+    path: '/keyword-tracking/runs',
+    operationId: 'createKeywordRun',
+    summary: "Start a keyword tracking run for a domain's tracked keywords",
+    tag: 'Keyword Tracking',
+    scope: 'TRIGGER_SCANS',
+    body: schemas.createKeywordRunBody,
+    response: 'CreatedJob',
+    status: 201,
+  },
+  {
+    method: 'get',
+    path: '/keyword-tracking/runs/{runId}',
+    operationId: 'getKeywordRun',
+    summary: 'Get a keyword tracking run',
+    tag: 'Keyword Tracking',
+    scope: 'READ',
+    response: 'KeywordRunDetail',
+  },
+  {
+    method: 'get',
+    path: '/keyword-tracking/runs/{runId}/results',
+    operationId: 'listKeywordRunResults',
+    summary: 'List per-keyword results of a run',
+    tag: 'Keyword Tracking',
+    scope: 'READ',
+    query: schemas.runResultsQuery,
+    response: 'KeywordResultPage',
+  },
+  {
+    method: 'get',
+    path: '/local-seo/scans',
+    operationId: 'listGridScans',
+    summary: "List a domain's local grid scans",
+    tag: 'Local SEO',
+    scope: 'READ',
+    query: schemas.listGridScansQuery,
+    response: 'GridScanPage',
+  },
+  {
+    method: 'post',
+    path: '/local-seo/scans',
+    operationId: 'createGridScan',
+    summary: 'Start a grid scan for a campaign',
+    tag: 'Local SEO',
+    scope: 'TRIGGER_SCANS',
+    body: schemas.createGridScanBody,
+    response: 'QueuedGridScan',
+    status: 202,
+  },
+  {
+    method: 'get',
+    path: '/local-seo/scans/{scanId}',
+    operationId: 'getGridScan',
+    summary: 'Get a grid scan with every grid point result',
+    tag: 'Local SEO',
+    scope: 'READ',
+    response: 'GridScanDetail',
+  },
+  {
+    method: 'get',
+    path: '/site-audit/scans',
+    operationId: 'listSiteAudits',
+    summary: "List a domain's site audit crawls",
+    tag: 'Site Audit',
+    scope: 'READ',
+    query: schemas.listByDomainQuery,
+    response: 'SiteAuditScanPage',
+  },
+  {
+    method: 'post',
+    path: '/site-audit/scans',
+    operationId: 'createSiteAudit',
+    summary: 'Start a site audit crawl',
+    tag: 'Site Audit',
+    scope: 'TRIGGER_SCANS',
+    body: schemas.createSiteAuditBody,
+    response: 'CreatedJob',
+    status: 201,
+  },
+  {
+    method: 'get',
+    path: '/site-audit/scans/{scanId}/pages',
+    operationId: 'listSiteAuditPages',
+    summary: 'List crawled pages of a site audit',
+    tag: 'Site Audit',
+    scope: 'READ',
+    query: schemas.siteAuditPagesQuery,
+    response: 'SiteAuditPagePage',
+  },
+]
+
+type JsonSchema = Record<string, unknown>
+
+const STATUS_DESCRIPTIONS = { 200: 'OK', 201: 'Created', 202: 'Accepted' } as const
+
+const componentRef = (name: string) => `#/components/schemas/${name}`
+
+/** Drop the safe-integer bounds zod adds to every `.int()` */
+function stripIntegerBounds({ jsonSchema }: { jsonSchema: JsonSchema }): void {
+  if (jsonSchema.minimum === Number.MIN_SAFE_INTEGER) delete jsonSchema.minimum
+  if (jsonSchema.maximum === Number.MAX_SAFE_INTEGER) delete jsonSchema.maximum
+}
+
+/** Drop the meta keywords that don't belong inside an OpenAPI document */
+function withoutMeta(json: JsonSchema): JsonSchema {
+  delete json.$schema
+  delete json.$id
+  return json
+}
+
+function toInputSchema(schema: z.ZodType): JsonSchema {
+  return withoutMeta(
+    z.toJSONSchema(schema, { io: 'input', override: stripIntegerBounds }) as JsonSchema
+  )
+}
+
+function buildComponents(): Record<string, JsonSchema> {
+  const registry = z.registry<{ id: string }>()
+  for (const [name, schema] of Object.entries(RESPONSE_SCHEMAS)) {
+    registry.add(schema, { id: name })
+  }
+
+  const { schemas: generated } = z.toJSONSchema(registry, {
+    uri: componentRef,
+    override: stripIntegerBounds,
+  }) as { schemas: Record<string, JsonSchema> }
+
+  return Object.fromEntries(
+    Object.entries(generated).map(([name, json]) => [name, withoutMeta(json)])
+  )
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: componentRef('Error') } } },
+  }
+}
+
+function buildOperation(operation: ApiOperation): JsonSchema {
+  const pathParams = [...operation.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }))
+
+  const query = operation.query ? toInputSchema(operation.query) : null
+  const required = (query?.required ?? []) as string[]
+  const queryParams = Object.entries((query?.properties ?? {}) as Record<string, JsonSchema>).map(
+    ([name, { description, ...schema }]) => ({
+      name,
+      in: 'query',
+      required: required.includes(name),
+      ...(description ? { description } : {}),
+      schema,
+    })
+  )
+
+  const status = operation.status ?? 200
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    tags: [operation.tag],
+    description: `Requires the \`${operation.scope}\` scope (${API_KEY_SCOPES[operation.scope].label}).`,
+    parameters: [...pathParams, ...queryParams],
+    ...(operation.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: toInputSchema(operation.body) } },
+          },
+        }
+      : {}),
+    responses: {
+      [status]: {
+        description: STATUS_DESCRIPTIONS[status],
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                success: { const: true },
+                data: { $ref: componentRef(operation.response) },
+              },
+              required: ['success', 'data'],
+            },
+          },
+        },
+      },
+      400: errorResponse('Validation failed'),
+      401: errorResponse('Missing, invalid, revoked or expired API key'),
+      403: errorResponse('The key lacks the required scope'),
+      404: errorResponse('Resource not found or not accessible with this key'),
+      429: errorResponse('Rate limit exceeded; see the Retry-After header'),
+    },
+  }
+}
+
+/**
+ * Build the OpenAPI 3.1 document for /api/v1
+ */
+export function buildOpenApiDocument(serverUrl = '/api/v1'): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {}
+  for (const operation of API_OPERATIONS) {
+    paths[operation.path] ??= {}
+    paths[operation.path]![operation.method] = buildOperation(operation)
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'NK SEO Tool API',
+      version: API_VERSION,
+      description:
+        'Read SEO data and trigger scans with an API key. Create keys under Settings → API Keys. ' +
+        'Each key is limited to its scopes, to the domains its owner can access and, when set, ' +
+        'to one workspace.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'An API key starting with `nks_`',
+        },
+      },
+      schemas: {
+        ...buildComponents(),
+        Error: {
+          type: 'object',
+          properties: {
+            success: { const: false },
+            error: { type: 'string' },
+            details: { type: 'object', additionalProperties: true },
+          },
+          required: ['success', 'error'],
+        },
+      },
+    },
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Public API Rate Limiting
+ *
+ * Fixed one-minute windows counted per API key. Counters live in Upstash
+ * Redis when it is configured so limits hold across serverless instances;
+ * otherwise each instance keeps its own in-memory counters.
+ */
+
+import { Redis } from '@upstash/redis'
+
+const WINDOW_SECONDS = 60
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** Start of the next window */
+  resetAt: Date
+}
+
+export interface RateLimitStore {
+  /** Increment the counter for a window and return the new count */
+  increment(key: string, ttlSeconds: number): Promise<number>
+}
+
+/**
+ * In-process store, used in development and when Redis is not configured
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>()
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const now = Date.now()
+    const current = this.counters.get(key)
+
+    if (!current || current.expiresAt <= now) {
+      // Drop expired windows so the map doesn't grow with every minute
+      for (const [k, v] of this.counters) {
+        if (v.expiresAt <= now) this.counters.delete(k)
+      }
+      this.counters.set(key, { count: 1, expiresAt: now + ttlSeconds * 1000 })
+      return 1
+    }
+
+    current.count++
+    return current.count
+  }
+}
+
+class RedisRateLimitStore implements RateLimitStore {
+  constructor(private redis: Redis) {}
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const count = await this.redis.incr(key)
+    if (count === 1) {
+      await this.redis.expire(key, ttlSeconds)
+    }
+    return count
+  }
+}
+
+let defaultStore: RateLimitStore | null = null
+
+function getDefaultStore(): RateLimitStore {
+  if (!defaultStore) {
+    const url = process.env.UPSTASH_REDIS_REST_URL
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN
+    defaultStore =
+      url && token ? new RedisRateLimitStore(new Redis({ url, token })) : new MemoryRateLimitStore()
+  }
+  return defaultStore
+}
+
+/**
+ * Count one request against `id` and report whether it is within `limit`
+ * requests per minute
+ */
+export async function consumeRateLimit(
+  id: string,
+  limit: number,
+  now: Date = new Date(),
+  store: RateLimitStore = getDefaultStore()
+): Promise<RateLimitResult> {
+  const window = Math.floor(now.getTime() / 1000 / WINDOW_SECONDS)
+  const resetAt = new Date((window + 1) * WINDOW_SECONDS * 1000)
+
+  let count: number
+  try {
+    count = await store.increment(`ratelimit:api:${id}:${window}`, WINDOW_SECONDS)
+  } catch (error) {
+    // Fail open: an outage in the counter store shouldn't take the API down
+    console.warn('[RateLimit] Failed to record request:', error)
+    return { allowed: true, limit, remaining: limit, resetAt }
+  }
+
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    resetAt,
+  }
+}
+
+/**
+ * Standard rate limit response headers
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(result.resetAt.getTime() / 1000).toString(),
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = Math.max(
+      1,
+      Math.ceil((result.resetAt.getTime() - Date.now()) / 1000)
+    ).toString()
+  }
+
+  return headers
+}
@@ -0,0 +1,239 @@
+/**
+ * Public API v1 Schemas
+ *
+ * Request schemas validate /api/v1 input; response schemas document output.
+ * Both feed the generated OpenAPI document, so a route and its docs can't drift.
+ */
+
+import { z } from 'zod'
+import { GridScanStatus, KeywordTrackingRunStatus, SiteAuditStatus } from '@prisma/client'
+
+const timestamp = z.string().meta({ format: 'date-time' })
+const id = z.string().min(1)
+
+// ============================================
+// Requests
+// ============================================
+
+const pagination = {
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+}
+
+export const listByDomainQuery = z.object({
+  domainId: id.describe('Domain to list resources for'),
+  ...pagination,
+})
+
+export const listGridScansQuery = listByDomainQuery.extend({
+  campaignId: id.optional().describe('Only scans of this campaign'),
+})
+
+export const runResultsQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+  positionFilter: z.enum(['top3', 'top10', 'top100', 'notRanking', 'all']).default('all'),
+})
+
+export const siteAuditPagesQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  filter: z.enum(['errors', 'warnings', 'all']).default('all'),
+})
+
+export const addKeywordsBody = z.object({
+  keywords: z.array(z.string().trim().min(1).max(255)).min(1).max(100),
+})
+
+export const createKeywordRunBody = z.object({
+  domainId: id,
+  locationName: z.string().min(1).default('United States'),
+  languageCode: z.string().min(2).max(5).default('en'),
+})
+
+export const createGridScanBody = z.object({
+  campaignId: id,
+  keywords: z
+    .array(z.string().min(1).max(100))
+    .min(1)
+    .optional()
+    .describe("Defaults to the campaign's keywords"),
+})
+
+export const createSiteAuditBody = z.object({
+  domainId: id,
+  maxCrawlPages: z
+    .number()
+    .int()
+    .min(10)
+    .max(500)
+    .optional()
+    .describe('Defaults to the domain setting'),
+})
+
+// ============================================
+// Responses
+// ============================================
+
+export const domainSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  domain: z.string(),
+  businessName: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  workspaceId: z.string().nullable(),
+  createdAt: timestamp,
+})
+
+export const keywordSchema = z.object({
+  id: z.string(),
+  keyword: z.string(),
+  searchVolume: z.number().int().nullable(),
+  createdAt: timestamp,
+})
+
+export const keywordRunSchema = z.object({
+  id: z.string(),
+  domainId: z.string(),
+  status: z.enum(KeywordTrackingRunStatus),
+  progress: z.number().int(),
+  keywordsTracked: z.number().int(),
+  avgPosition: z.number().nullable(),
+  keywordsInTop3: z.number().int(),
+  keywordsInTop10: z.number().int(),
+  keywordsNotRanking: z.number().int(),
+  improvedCount: z.number().int(),
+  declinedCount: z.number().int(),
+  triggeredBy: z.string().nullable(),
+  createdAt: timestamp,
+  completedAt: timestamp.nullable(),
+})
+
+export const keywordRunDetailSchema = keywordRunSchema.extend({
+  locationName: z.string(),
+  languageCode: z.string(),
+  keywordsInTop100: z.number().int(),
+  unchangedCount: z.number().int(),
+  newRankingsCount: z.number().int(),
+  lostRankingsCount: z.number().int(),
+  apiCallsUsed: z.number().int(),
+  estimatedCost: z.number().nullable(),
+  startedAt: timestamp.nullable(),
+  errorMessage: z.string().nullable(),
+})
+
+export const keywordResultSchema = z.object({
+  id: z.string(),
+  keyword: z.string(),
+  searchVolume: z.number().int().nullable(),
+  cpc: z.number().nullable(),
+  keywordDifficulty: z.number().nullable(),
+  position: z.number().int().nullable(),
+  previousPosition: z.number().int().nullable(),
+  positionChange: z.number().int().nullable(),
+  change7d: z.number().int().nullable(),
+  change30d: z.number().int().nullable(),
+  change90d: z.number().int().nullable(),
+  rankingUrl: z.string().nullable(),
+  serpFeatures: z.array(z.string()),
+  localPackPosition: z.number().int().nullable(),
+})
+
+export const gridScanSchema = z.object({
+  id: z.string(),
+  campaignId: z.string(),
+  campaignName: z.string(),
+  status: z.enum(GridScanStatus),
+  avgRank: z.number().nullable(),
+  shareOfVoice: z.number().nullable(),
+  topCompetitor: z.string().nullable(),
+  startedAt: timestamp.nullable(),
+  completedAt: timestamp.nullable(),
+  createdAt: timestamp,
+})
+
+export const gridPointSchema = z.object({
+  row: z.number().int(),
+  col: z.number().int(),
+  lat: z.number(),
+  lng: z.number(),
+  keyword: z.string(),
+  rank: z.number().int().nullable(),
+  topRankings: z.array(
+    z.object({ name: z.string(), rank: z.number().int(), cid: z.string().optional() })
+  ),
+})
+
+export const gridScanDetailSchema = gridScanSchema.extend({
+  keywords: z.array(z.string()),
+  gridSize: z.number().int(),
+  radiusMiles: z.number(),
+  centerLat: z.number(),
+  centerLng: z.number(),
+  points: z.array(gridPointSchema),
+})
+
+export const siteAuditScanSchema = z.object({
+  id: z.string(),
+  domain: z.string(),
+  status: z.enum(SiteAuditStatus),
+  progress: z.number().int(),
+  maxCrawlPages: z.number().int(),
+  triggeredBy: z.string(),
+  createdAt: timestamp,
+  completedAt: timestamp.nullable(),
+  summary: z
+    .object({
+      crawledPages: z.number().int(),
+      onpageScore: z.number().nullable(),
+      errorsCount: z.number().int(),
+    })
+    .nullable(),
+})
+
+export const siteAuditPageSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  statusCode: z.number().int().nullable(),
+  onpageScore: z.number().nullable(),
+  title: z.string().nullable(),
+  metaDescription: z.string().nullable(),
+  h1: z.string().nullable(),
+  issueTypes: z.array(z.string()),
+  issueCount: z.number().int(),
+})
+
+export const createdJobSchema = z.object({
+  id: z.string(),
+  status: z.literal('PENDING'),
+})
+
+/** Grid scans are created by the background job, so only the request is acknowledged */
+export const queuedGridScanSchema = z.object({
+  campaignId: z.string(),
+  keywordCount: z.number().int(),
+  status: z.literal('QUEUED'),
+})
+
+export const keywordListSchema = z.object({
+  keywords: z.array(keywordSchema),
+  added: z.number().int().optional(),
+})
+
+function page<T extends z.ZodType>(key: string, item: T) {
+  return z.object({
+    [key]: z.array(item),
+    total: z.number().int(),
+    limit: z.number().int(),
+    offset: z.number().int(),
+    hasMore: z.boolean(),
+  })
+}
+
+export const domainListSchema = z.object({ domains: z.array(domainSchema) })
+export const keywordRunPageSchema = page('runs', keywordRunSchema)
+export const keywordResultPageSchema = page('results', keywordResultSchema)
+export const gridScanPageSchema = page('scans', gridScanSchema)
+export const siteAuditScanPageSchema = page('scans', siteAuditScanSchema)
+export const siteAuditPagePageSchema = page('pages', siteAuditPageSchema)
@@ -0,0 +1,29 @@
+/**
+ * Public API v1 Serializers
+ *
+ * Map database rows to the response shapes in `./schemas`
+ */
+
+import type { domains, tracked_keywords } from '@prisma/client'
+
+export function serializeDomain(domain: domains) {
+  return {
+    id: domain.id,
+    name: domain.name,
+    domain: domain.domain,
+    businessName: domain.business_name,
+    city: domain.city,
+    state: domain.state,
+    workspaceId: domain.workspace_id,
+    createdAt: domain.created_at,
+  }
+}
+
+export function serializeKeyword(keyword: tracked_keywords) {
+  return {
+    id: keyword.id,
+    keyword: keyword.keyword,
+    searchVolume: keyword.search_volume,
+    createdAt: keyword.created_at,
+  }
+}
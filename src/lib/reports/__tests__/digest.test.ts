@@ -0,0 +1,157 @@
+/**
+ * Unit Tests for Report Digest Emails
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getDigestPeriod, renderDigestEmail } from '../digest'
+import { DIGEST_SECTIONS, type DigestData } from '../types'
+
+function digestData(overrides: Partial<DigestData> = {}): DigestData {
+  return {
+    domain: {
+      id: 'd1',
+      name: 'Fielder Park',
+      domain: 'example.com',
+      businessName: 'Fielder Park Dental',
+    },
+    period: { from: new Date(2026, 8, 1), to: new Date(2026, 8, 30, 23, 59, 59) },
+    generatedAt: new Date(2026, 9, 1),
+    branding: {
+      brandName: 'Acme Agency',
+      logo: null,
+      primaryColor: '#123456',
+      accentColor: '#ff6600',
+    },
+    sections: [...DIGEST_SECTIONS],
+    keywordTracking: null,
+    localGrid: null,
+    siteAudit: null,
+    aiVisibility: null,
+    ...overrides,
+  }
+}
+
+describe('getDigestPeriod', () => {
+  it('covers the previous calendar month for monthly schedules', () => {
+    const { from, to } = getDigestPeriod('monthly', new Date(2026, 9, 1, 8, 0))
+
+    expect(from).toEqual(new Date(2026, 8, 1))
+    expect(to.getMonth()).toBe(8)
+    expect(to.getDate()).toBe(30)
+  })
+
+  it('covers the days since the last send for weekly and biweekly schedules', () => {
+    const runAt = new Date(2026, 9, 19, 8, 0)
+
+    expect(getDigestPeriod('weekly', runAt)).toEqual({
+      from: new Date(2026, 9, 12, 8, 0),
+      to: runAt,
+    })
+    expect(getDigestPeriod('biweekly', runAt).from).toEqual(new Date(2026, 9, 5, 8, 0))
+  })
+})
+
+describe('renderDigestEmail', () => {
+  it('renders every selected section, noting those without data', () => {
+    const { subject, html, text } = renderDigestEmail(digestData())
+
+    expect(subject).toBe('Fielder Park Dental SEO report: Sep 1, 2026 - Sep 30, 2026')
+    expect(html).toContain('Acme Agency')
+    expect(html).toContain('#123456')
+    for (const label of ['Keyword Rankings', 'Local Grid', 'Site Audit', 'AI Visibility']) {
+      expect(html).toContain(label)
+      expect(text).toContain(label.toUpperCase())
+    }
+    expect(text).toContain('No new data this period.')
+  })
+
+  it('summarizes populated sections', () => {
+    const { html, text } = renderDigestEmail(
+      digestData({
+        sections: ['keywordTracking', 'siteAudit', 'aiVisibility'],
+        keywordTracking: {
+          runs: [
+            {
+              completedAt: new Date(2026, 8, 7),
+              keywordsTracked: 20,
+              avgPosition: 14.2,
+              keywordsInTop3: 2,
+              keywordsInTop10: 6,
+              keywordsNotRanking: 3,
+              improvedCount: 5,
+              declinedCount: 2,
+            },
+            {
+              completedAt: new Date(2026, 8, 28),
+              keywordsTracked: 20,
+              avgPosition: 11.8,
+              keywordsInTop3: 4,
+              keywordsInTop10: 9,
+              keywordsNotRanking: 2,
+              improvedCount: 8,
+              declinedCount: 1,
+            },
+          ],
+          topGainers: [
+            { keyword: 'dentist near me', position: 3, previousPosition: 9, positionChange: 6 },
+          ],
+          topDecliners: [
+            {
+              keyword: 'teeth whitening',
+              position: null,
+              previousPosition: 18,
+              positionChange: -5,
+            },
+          ],
+        },
+        siteAudit: {
+          scanId: 's1',
+          completedAt: new Date(2026, 8, 20),
+          crawledPages: 120,
+          onpageScore: 87.5,
+          errorsCount: 4,
+          warningsCount: 12,
+          noticesCount: 30,
+          brokenLinks: 2,
+          errorsChange: -3,
+        },
+        aiVisibility: {
+          score: 62,
+          measuredAt: new Date(2026, 8, 25),
+          trend: [
+            { date: new Date(2026, 8, 2), score: 55 },
+            { date: new Date(2026, 8, 25), score: 62 },
+          ],
+        },
+      })
+    )
+
+    expect(text).toContain('Avg. position: 11.8')
+    expect(text).toContain('Average position improved by 2.4.')
+    expect(text).toContain('Up: "dentist near me" +6 to #3')
+    expect(text).toContain('Down: "teeth whitening" -5 to not ranking')
+    expect(text).toContain('On-page score: 87.5')
+    expect(text).toContain('3 fewer errors than the previous crawl.')
+    expect(text).toContain('Visibility score: 62/100')
+    expect(text).toContain('Change: +7')
+    expect(html).not.toContain('Local Grid')
+    // Keyword quotes are escaped in HTML
+    expect(html).toContain('&quot;dentist near me&quot;')
+  })
+
+  it('escapes HTML in domain and brand names', () => {
+    const { html } = renderDigestEmail(
+      digestData({
+        branding: {
+          brandName: '<script>alert(1)</script>',
+          logo: null,
+          primaryColor: '#123456',
+          accentColor: '#ff6600',
+        },
+      })
+    )
+
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&lt;script&gt;')
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Unit Tests for Client Report PDF Rendering
+ */
+
+import { describe, it, expect } from 'vitest'
+import { renderReportPdf, hexToRgb } from '../pdf'
+import { REPORT_SECTIONS, type ReportData } from '../types'
+
+// 1x1 transparent PNG
+const LOGO =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+
+function reportData(overrides: Partial<ReportData> = {}): ReportData {
+  return {
+    domain: {
+      id: 'd1',
+      name: 'Fielder Park',
+      domain: 'example.com',
+      businessName: 'Fielder Park Dental',
+    },
+    period: { from: new Date('2026-09-01'), to: new Date('2026-09-30') },
+    generatedAt: new Date('2026-10-01'),
+    branding: {
+      brandName: 'Acme Agency',
+      logo: LOGO,
+      primaryColor: '#123456',
+      accentColor: '#ff6600',
+    },
+    sections: [...REPORT_SECTIONS],
+    audit: null,
+    keywordTracking: null,
+    localGrid: null,
+    gbp: null,
+    backlinks: null,
+    aiVisibility: null,
+    ...overrides,
+  }
+}
+
+function pdfText(bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes)
+}
+
+describe('renderReportPdf', () => {
+  it('renders a PDF when every section is empty', () => {
+    const bytes = renderReportPdf(reportData())
+    const text = pdfText(bytes)
+
+    expect(text.startsWith('%PDF-')).toBe(true)
+    expect(text).toContain('Acme Agency')
+    expect(text).toContain('No data available for this period.')
+  })
+
+  it('renders populated sections including grid heatmaps', () => {
+    const bytes = renderReportPdf(
+      reportData({
+        keywordTracking: {
+          runs: [
+            {
+              completedAt: new Date('2026-09-07'),
+              keywordsTracked: 20,
+              avgPosition: 14.2,
+              keywordsInTop3: 2,
+              keywordsInTop10: 6,
+              keywordsNotRanking: 3,
+              improvedCount: 5,
+              declinedCount: 2,
+            },
+            {
+              completedAt: new Date('2026-09-28'),
+              keywordsTracked: 20,
+              avgPosition: 11.8,
+              keywordsInTop3: 4,
+              keywordsInTop10: 9,
+              keywordsNotRanking: 2,
+              improvedCount: 8,
+              declinedCount: 1,
+            },
+          ],
+          topGainers: [
+            { keyword: 'dentist near me', position: 3, previousPosition: 9, positionChange: 6 },
+          ],
+          topDecliners: [],
+        },
+        localGrid: {
+          campaigns: [
+            {
+              campaignName: 'Fielder Park Dental',
+              scannedAt: new Date('2026-09-20'),
+              avgRank: 4.5,
+              shareOfVoice: 38.2,
+              topCompetitor: 'Rival Dental',
+            },
+          ],
+          heatmaps: [
+            {
+              campaignName: 'Fielder Park Dental',
+              keyword: 'dentist',
+              cells: [
+                [1, 2, 5],
+                [3, 1, null],
+                [12, 25, 8],
+              ],
+              avgRank: 7.1,
+            },
+          ],
+        },
+        aiVisibility: {
+          score: 42,
+          measuredAt: new Date('2026-09-25'),
+          trend: [
+            { date: new Date('2026-09-05'), score: 35 },
+            { date: new Date('2026-09-25'), score: 42 },
+          ],
+        },
+      })
+    )
+    const text = pdfText(bytes)
+
+    expect(text).toContain('Keyword Rankings')
+    expect(text).toContain('dentist near me')
+    expect(text).toContain('Rival Dental')
+    expect(text).toContain('Average position improved by 2.4 over the period.')
+  })
+
+  it('still renders when the logo cannot be decoded', () => {
+    const bytes = renderReportPdf(
+      reportData({
+        branding: {
+          brandName: 'Acme Agency',
+          logo: 'data:image/png;base64,AAAA',
+          primaryColor: '#123456',
+          accentColor: '#ff6600',
+        },
+        sections: ['audit'],
+      })
+    )
+
+    expect(pdfText(bytes).startsWith('%PDF-')).toBe(true)
+  })
+})
+
+describe('hexToRgb', () => {
+  it('parses hex colors and falls back to black', () => {
+    expect(hexToRgb('#ff6600')).toEqual([255, 102, 0])
+    expect(hexToRgb('0D1F3C')).toEqual([13, 31, 60])
+    expect(hexToRgb('not-a-color')).toEqual([0, 0, 0])
+  })
+})
@@ -0,0 +1,266 @@
+/**
+ * Report Digest Email
+ *
+ * Renders `DigestData` into the HTML and plain-text bodies of the scheduled
+ * report email. Styles are inline and layout is table-based so the digest
+ * survives email clients that strip <style> blocks.
+ */
+
+import { endOfMonth, format, startOfMonth, subDays, subMonths } from 'date-fns'
+import { DIGEST_SECTION_LABELS, type DigestData, type DigestSection } from './types'
+
+export interface RenderedDigest {
+  subject: string
+  html: string
+  text: string
+}
+
+/**
+ * Reporting period covered by a digest sent at `runAt`.
+ * Monthly digests cover the previous calendar month; weekly and biweekly
+ * digests cover the 7 or 14 days before the send.
+ */
+export function getDigestPeriod(frequency: string, runAt: Date): { from: Date; to: Date } {
+  if (frequency === 'monthly') {
+    const lastMonth = subMonths(runAt, 1)
+    return { from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) }
+  }
+
+  const days = frequency === 'biweekly' ? 14 : 7
+  return { from: subDays(runAt, days), to: runAt }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatDate(date: Date | string | null): string {
+  return date ? format(new Date(date), 'MMM d, yyyy') : '-'
+}
+
+function formatNumber(value: number | null | undefined, digits = 0): string {
+  if (value === null || value === undefined) return '-'
+  return value.toLocaleString('en-US', { maximumFractionDigits: digits })
+}
+
+function signed(value: number | null, digits = 0): string {
+  if (value === null) return '-'
+  return `${value > 0 ? '+' : ''}${formatNumber(value, digits)}`
+}
+
+export interface DigestMetric {
+  label: string
+  value: string
+}
+
+/** One digest section: headline metrics plus optional detail lines */
+export interface DigestSectionContent {
+  metrics: DigestMetric[]
+  lines: string[]
+}
+
+export interface DigestSectionSummary {
+  section: DigestSection
+  title: string
+  /** null when the domain has no data for the section in the period */
+  content: DigestSectionContent | null
+}
+
+function keywordTrackingContent(data: DigestData): DigestSectionContent | null {
+  const tracking = data.keywordTracking
+  if (!tracking) return null
+
+  const first = tracking.runs[0]!
+  const latest = tracking.runs[tracking.runs.length - 1]!
+  const avgChange =
+    first !== latest && first.avgPosition !== null && latest.avgPosition !== null
+      ? Math.round((first.avgPosition - latest.avgPosition) * 10) / 10
+      : null
+
+  const lines = [
+    `${tracking.runs.length} tracking run${tracking.runs.length === 1 ? '' : 's'} this period.`,
+  ]
+  if (avgChange !== null) {
+    lines.push(
+      `Average position ${avgChange >= 0 ? 'improved' : 'declined'} by ${Math.abs(avgChange)}.`
+    )
+  }
+  for (const mover of tracking.topGainers.slice(0, 3)) {
+    lines.push(`Up: "${mover.keyword}" ${signed(mover.positionChange)} to #${mover.position}`)
+  }
+  for (const mover of tracking.topDecliners.slice(0, 3)) {
+    lines.push(
+      `Down: "${mover.keyword}" ${signed(mover.positionChange)} to ${mover.position ? `#${mover.position}` : 'not ranking'}`
+    )
+  }
+
+  return {
+    metrics: [
+      { label: 'Keywords', value: formatNumber(latest.keywordsTracked) },
+      { label: 'Avg. position', value: formatNumber(latest.avgPosition, 1) },
+      { label: 'Top 3', value: formatNumber(latest.keywordsInTop3) },
+      { label: 'Top 10', value: formatNumber(latest.keywordsInTop10) },
+    ],
+    lines,
+  }
+}
+
+function localGridContent(data: DigestData): DigestSectionContent | null {
+  const grid = data.localGrid
+  if (!grid) return null
+
+  const sov = grid.campaigns.filter((c) => c.shareOfVoice !== null).map((c) => c.shareOfVoice!)
+  const ranks = grid.campaigns.filter((c) => c.avgRank !== null).map((c) => c.avgRank!)
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+
+  return {
+    metrics: [
+      { label: 'Campaigns', value: formatNumber(grid.campaigns.length) },
+      { label: 'Avg. grid rank', value: formatNumber(average(ranks), 1) },
+      {
+        label: 'Share of voice',
+        value: sov.length > 0 ? `${formatNumber(average(sov), 1)}%` : '-',
+      },
+    ],
+    lines: grid.campaigns.map(
+      (c) =>
+        `${c.campaignName}: avg. rank ${formatNumber(c.avgRank, 1)}, share of voice ${c.shareOfVoice !== null ? `${formatNumber(c.shareOfVoice, 1)}%` : '-'} (scanned ${formatDate(c.scannedAt)})`
+    ),
+  }
+}
+
+function siteAuditContent(data: DigestData): DigestSectionContent | null {
+  const audit = data.siteAudit
+  if (!audit) return null
+
+  const lines = [`Latest crawl completed ${formatDate(audit.completedAt)}.`]
+  if (audit.errorsChange !== null && audit.errorsChange !== 0) {
+    lines.push(
+      `${Math.abs(audit.errorsChange)} ${audit.errorsChange > 0 ? 'more' : 'fewer'} errors than the previous crawl.`
+    )
+  }
+
+  return {
+    metrics: [
+      { label: 'On-page score', value: formatNumber(audit.onpageScore, 1) },
+      { label: 'Pages crawled', value: formatNumber(audit.crawledPages) },
+      { label: 'Errors', value: formatNumber(audit.errorsCount) },
+      { label: 'Warnings', value: formatNumber(audit.warningsCount) },
+    ],
+    lines,
+  }
+}
+
+function aiVisibilityContent(data: DigestData): DigestSectionContent | null {
+  const ai = data.aiVisibility
+  if (!ai) return null
+
+  const first = ai.trend[0]
+  const change = first && ai.trend.length > 1 ? ai.score - first.score : null
+
+  return {
+    metrics: [
+      { label: 'Visibility score', value: `${ai.score}/100` },
+      { label: 'Change', value: signed(change) },
+    ],
+    lines: [`Measured ${formatDate(ai.measuredAt)}.`],
+  }
+}
+
+const SECTION_CONTENT: Record<DigestSection, (data: DigestData) => DigestSectionContent | null> = {
+  keywordTracking: keywordTrackingContent,
+  localGrid: localGridContent,
+  siteAudit: siteAuditContent,
+  aiVisibility: aiVisibilityContent,
+}
+
+/**
+ * Headline metrics and detail lines for each selected section, in order.
+ * Shared by the email renderer and the public dashboard view.
+ */
+export function summarizeDigestSections(data: DigestData): DigestSectionSummary[] {
+  return data.sections.map((section) => ({
+    section,
+    title: DIGEST_SECTION_LABELS[section],
+    content: SECTION_CONTENT[section](data),
+  }))
+}
+
+const NO_DATA = 'No new data this period.'
+
+function renderSectionHtml(
+  title: string,
+  content: DigestSectionContent | null,
+  data: DigestData
+): string {
+  const { primaryColor, accentColor } = data.branding
+  const heading = `<h2 style="margin:0 0 12px;font-size:18px;color:${primaryColor};border-bottom:2px solid ${accentColor};padding-bottom:6px;">${escapeHtml(title)}</h2>`
+
+  if (!content) {
+    return `<tr><td style="padding:16px 24px;">${heading}<p style="margin:0;color:#6b7280;font-size:14px;">${NO_DATA}</p></td></tr>`
+  }
+
+  const metrics = content.metrics
+    .map(
+      (m) =>
+        `<td style="padding:8px;background:#f3f4f6;border-left:3px solid ${accentColor};"><div style="font-size:20px;font-weight:bold;color:${primaryColor};">${escapeHtml(m.value)}</div><div style="font-size:12px;color:#6b7280;">${escapeHtml(m.label)}</div></td>`
+    )
+    .join('<td style="width:8px;"></td>')
+  const lines = content.lines
+    .map((line) => `<li style="margin:4px 0;">${escapeHtml(line)}</li>`)
+    .join('')
+
+  return `<tr><td style="padding:16px 24px;">${heading}<table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr>${metrics}</tr></table>${lines ? `<ul style="margin:12px 0 0;padding-left:20px;color:#1f2937;font-size:14px;">${lines}</ul>` : ''}</td></tr>`
+}
+
+/**
+ * Render the digest email for a domain and period
+ */
+export function renderDigestEmail(data: DigestData): RenderedDigest {
+  const { branding, domain } = data
+  const periodLabel = `${formatDate(data.period.from)} - ${formatDate(data.period.to)}`
+  const subject = `${domain.businessName || domain.name} SEO report: ${periodLabel}`
+
+  const sections = summarizeDigestSections(data)
+
+  const html = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:0;background:#f9fafb;font-family:Helvetica,Arial,sans-serif;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f9fafb;"><tr><td align="center" style="padding:24px 12px;">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;">
+<tr><td style="background:${branding.primaryColor};padding:24px;color:#ffffff;">
+<div style="font-size:14px;opacity:0.85;">${escapeHtml(branding.brandName)}</div>
+<div style="font-size:22px;font-weight:bold;margin-top:4px;">${escapeHtml(domain.businessName || domain.name)}</div>
+<div style="font-size:14px;margin-top:4px;">${escapeHtml(domain.domain)} &middot; ${escapeHtml(periodLabel)}</div>
+</td></tr>
+<tr><td style="height:4px;background:${branding.accentColor};"></td></tr>
+${sections.map((s) => renderSectionHtml(s.title, s.content, data)).join('\n')}
+<tr><td style="padding:16px 24px;font-size:12px;color:#9ca3af;border-top:1px solid #e5e7eb;">Sent by ${escapeHtml(branding.brandName)} on ${escapeHtml(formatDate(data.generatedAt))}.</td></tr>
+</table>
+</td></tr></table>
+</body></html>`
+
+  const text = [
+    `${domain.businessName || domain.name} (${domain.domain})`,
+    periodLabel,
+    '',
+    ...sections.flatMap((s) => [
+      s.title.toUpperCase(),
+      ...(s.content
+        ? [
+            ...s.content.metrics.map((m) => `${m.label}: ${m.value}`),
+            ...s.content.lines.map((line) => `- ${line}`),
+          ]
+        : [NO_DATA]),
+      '',
+    ]),
+    `Sent by ${branding.brandName}`,
+  ].join('\n')
+
+  return { subject, html, text }
+}
@@ -0,0 +1,560 @@
+/**
+ * Client Report PDF Renderer
+ *
+ * Renders `ReportData` into a branded A4 PDF with jsPDF. Runs entirely
+ * server-side: charts are drawn as vector shapes and the logo is embedded from
+ * the workspace's stored data URL, so no external services are involved.
+ */
+
+import { jsPDF } from 'jspdf'
+import { autoTable, type UserOptions } from 'jspdf-autotable'
+import { format } from 'date-fns'
+import { getRankColorCategory, RANK_COLORS } from '@/lib/local-seo/types'
+import {
+  REPORT_SECTION_LABELS,
+  type GridHeatmap,
+  type KeywordMover,
+  type ReportData,
+  type ReportSection,
+} from './types'
+
+type RGB = [number, number, number]
+
+/** jspdf-autotable records the last table's end position on the document */
+type ReportDoc = jsPDF & { lastAutoTable?: { finalY: number } }
+
+interface Cursor {
+  doc: ReportDoc
+  data: ReportData
+  y: number
+}
+
+const PAGE_MARGIN = 15
+const HEADER_HEIGHT = 14
+const CONTENT_TOP = HEADER_HEIGHT + 10
+const FOOTER_SPACE = 15
+const TEXT_COLOR: RGB = [31, 41, 55]
+const MUTED_COLOR: RGB = [107, 114, 128]
+
+/**
+ * Render a report to PDF bytes
+ */
+export function renderReportPdf(data: ReportData): Uint8Array {
+  const doc: ReportDoc = new jsPDF({ unit: 'mm', format: 'a4' })
+  doc.setProperties({
+    title: `SEO Report - ${data.domain.domain}`,
+    author: data.branding.brandName,
+    creator: data.branding.brandName,
+  })
+
+  drawCover(doc, data)
+
+  const cursor: Cursor = { doc, data, y: CONTENT_TOP }
+  for (const section of data.sections) {
+    startSectionPage(cursor)
+    drawSectionHeading(cursor, REPORT_SECTION_LABELS[section])
+    SECTION_RENDERERS[section](cursor)
+  }
+
+  drawPageChrome(doc, data)
+
+  return new Uint8Array(doc.output('arraybuffer'))
+}
+
+// ============================================
+// Layout helpers
+// ============================================
+
+export function hexToRgb(hex: string): RGB {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim())
+  if (!match) return [0, 0, 0]
+  return [parseInt(match[1]!, 16), parseInt(match[2]!, 16), parseInt(match[3]!, 16)]
+}
+
+function pageWidth(doc: jsPDF): number {
+  return doc.internal.pageSize.getWidth()
+}
+
+function pageHeight(doc: jsPDF): number {
+  return doc.internal.pageSize.getHeight()
+}
+
+function formatDate(date: Date | string | null): string {
+  return date ? format(new Date(date), 'MMM d, yyyy') : '-'
+}
+
+function formatNumber(value: number | null | undefined, digits = 0): string {
+  if (value === null || value === undefined) return '-'
+  return value.toLocaleString('en-US', { maximumFractionDigits: digits })
+}
+
+/**
+ * Sections start on a fresh page unless the previous one left most of the page empty
+ */
+function startSectionPage(cursor: Cursor): void {
+  const isFirstSection = cursor.doc.getNumberOfPages() === 1
+  if (isFirstSection || cursor.y > pageHeight(cursor.doc) / 2) {
+    cursor.doc.addPage()
+    cursor.y = CONTENT_TOP
+  } else {
+    cursor.y += 8
+  }
+}
+
+/**
+ * Add a page when the next block of `height` mm wouldn't fit
+ */
+function ensureSpace(cursor: Cursor, height: number): void {
+  if (cursor.y + height > pageHeight(cursor.doc) - FOOTER_SPACE) {
+    cursor.doc.addPage()
+    cursor.y = CONTENT_TOP
+  }
+}
+
+function drawSectionHeading(cursor: Cursor, title: string): void {
+  const { doc, data } = cursor
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(16)
+  doc.setTextColor(...hexToRgb(data.branding.primaryColor))
+  doc.text(title, PAGE_MARGIN, cursor.y)
+
+  doc.setDrawColor(...hexToRgb(data.branding.accentColor))
+  doc.setLineWidth(0.8)
+  doc.line(PAGE_MARGIN, cursor.y + 2.5, PAGE_MARGIN + 30, cursor.y + 2.5)
+  cursor.y += 10
+}
+
+function drawSubheading(cursor: Cursor, title: string): void {
+  ensureSpace(cursor, 20)
+  const { doc } = cursor
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(11)
+  doc.setTextColor(...TEXT_COLOR)
+  doc.text(title, PAGE_MARGIN, cursor.y)
+  cursor.y += 3
+}
+
+function drawNote(cursor: Cursor, text: string): void {
+  const { doc } = cursor
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(9)
+  doc.setTextColor(...MUTED_COLOR)
+  const lines = doc.splitTextToSize(text, pageWidth(doc) - PAGE_MARGIN * 2) as string[]
+  ensureSpace(cursor, lines.length * 4.5)
+  doc.text(lines, PAGE_MARGIN, cursor.y)
+  cursor.y += lines.length * 4.5 + 2
+}
+
+/**
+ * Row of headline metric tiles
+ */
+function drawMetricTiles(cursor: Cursor, tiles: { label: string; value: string }[]): void {
+  const { doc, data } = cursor
+  const gap = 4
+  const height = 20
+  const width = (pageWidth(doc) - PAGE_MARGIN * 2 - gap * (tiles.length - 1)) / tiles.length
+
+  ensureSpace(cursor, height + 6)
+
+  tiles.forEach((tile, index) => {
+    const x = PAGE_MARGIN + index * (width + gap)
+    doc.setFillColor(243, 244, 246)
+    doc.roundedRect(x, cursor.y, width, height, 2, 2, 'F')
+    doc.setFillColor(...hexToRgb(data.branding.accentColor))
+    doc.rect(x, cursor.y, 1.2, height, 'F')
+
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(14)
+    doc.setTextColor(...hexToRgb(data.branding.primaryColor))
+    doc.text(tile.value, x + 5, cursor.y + 9)
+
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8)
+    doc.setTextColor(...MUTED_COLOR)
+    doc.text(tile.label, x + 5, cursor.y + 15.5)
+  })
+
+  cursor.y += height + 8
+}
+
+function drawTable(
+  cursor: Cursor,
+  options: Pick<UserOptions, 'head' | 'body' | 'columnStyles'>
+): void {
+  const { doc, data } = cursor
+  autoTable(doc, {
+    ...options,
+    startY: cursor.y,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: CONTENT_TOP, bottom: FOOTER_SPACE },
+    theme: 'striped',
+    styles: { fontSize: 8.5, textColor: TEXT_COLOR, cellPadding: 2 },
+    headStyles: { fillColor: hexToRgb(data.branding.primaryColor), textColor: [255, 255, 255] },
+  })
+  cursor.y = (doc.lastAutoTable?.finalY ?? cursor.y) + 8
+}
+
+function drawLogo(
+  doc: jsPDF,
+  logo: string,
+  x: number,
+  y: number,
+  maxW: number,
+  maxH: number
+): void {
+  try {
+    const props = doc.getImageProperties(logo)
+    const scale = Math.min(maxW / props.width, maxH / props.height)
+    const format = logo.startsWith('data:image/png') ? 'PNG' : 'JPEG'
+    doc.addImage(logo, format, x, y, props.width * scale, props.height * scale)
+  } catch (error) {
+    // A broken logo shouldn't cost the client their report
+    console.error('Failed to embed report logo:', error)
+  }
+}
+
+// ============================================
+// Cover and page chrome
+// ============================================
+
+function drawCover(doc: jsPDF, data: ReportData): void {
+  const width = pageWidth(doc)
+  const primary = hexToRgb(data.branding.primaryColor)
+
+  doc.setFillColor(...primary)
+  doc.rect(0, 0, width, 110, 'F')
+  doc.setFillColor(...hexToRgb(data.branding.accentColor))
+  doc.rect(0, 110, width, 3, 'F')
+
+  if (data.branding.logo) {
+    drawLogo(doc, data.branding.logo, PAGE_MARGIN + 5, 25, 60, 25)
+  }
+
+  doc.setTextColor(255, 255, 255)
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(28)
+  doc.text('SEO Performance Report', PAGE_MARGIN + 5, 75)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(14)
+  doc.text(data.domain.businessName || data.domain.name, PAGE_MARGIN + 5, 88)
+  doc.setFontSize(11)
+  doc.text(data.domain.domain, PAGE_MARGIN + 5, 96)
+
+  doc.setTextColor(...TEXT_COLOR)
+  doc.setFontSize(12)
+  doc.text(
+    `Reporting period: ${formatDate(data.period.from)} - ${formatDate(data.period.to)}`,
+    PAGE_MARGIN + 5,
+    135
+  )
+  doc.setTextColor(...MUTED_COLOR)
+  doc.setFontSize(10)
+  doc.text(`Prepared by ${data.branding.brandName}`, PAGE_MARGIN + 5, 143)
+  doc.text(`Generated ${formatDate(data.generatedAt)}`, PAGE_MARGIN + 5, 149)
+
+  doc.setTextColor(...TEXT_COLOR)
+  doc.setFont('helvetica', 'bold')
+  doc.text('Contents', PAGE_MARGIN + 5, 168)
+  doc.setFont('helvetica', 'normal')
+  data.sections.forEach((section, index) => {
+    doc.text(`${index + 1}. ${REPORT_SECTION_LABELS[section]}`, PAGE_MARGIN + 5, 176 + index * 6)
+  })
+}
+
+/**
+ * Brand header band and page numbers on every page after the cover
+ */
+function drawPageChrome(doc: jsPDF, data: ReportData): void {
+  const total = doc.getNumberOfPages()
+  const width = pageWidth(doc)
+  const height = pageHeight(doc)
+
+  for (let page = 2; page <= total; page++) {
+    doc.setPage(page)
+
+    doc.setFillColor(...hexToRgb(data.branding.primaryColor))
+    doc.rect(0, 0, width, HEADER_HEIGHT, 'F')
+    doc.setTextColor(255, 255, 255)
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(10)
+    doc.text(data.branding.brandName, PAGE_MARGIN, 9)
+    doc.setFont('helvetica', 'normal')
+    doc.text(data.domain.domain, width - PAGE_MARGIN, 9, { align: 'right' })
+
+    doc.setTextColor(...MUTED_COLOR)
+    doc.setFontSize(8)
+    doc.text(
+      `${formatDate(data.period.from)} - ${formatDate(data.period.to)}`,
+      PAGE_MARGIN,
+      height - 8
+    )
+    doc.text(`Page ${page} of ${total}`, width - PAGE_MARGIN, height - 8, { align: 'right' })
+  }
+}
+
+// ============================================
+// Sections
+// ============================================
+
+const NO_DATA = 'No data available for this period.'
+
+function renderAudit(cursor: Cursor): void {
+  const audit = cursor.data.audit
+  if (!audit) return drawNote(cursor, NO_DATA)
+
+  drawNote(cursor, `Latest audit completed ${formatDate(audit.completedAt)}.`)
+  drawMetricTiles(cursor, [
+    { label: 'On-page score', value: formatNumber(audit.onpageScore, 1) },
+    { label: 'Pages analyzed', value: formatNumber(audit.pagesAnalyzed) },
+    { label: 'Issues found', value: formatNumber(audit.issuesFound) },
+    { label: 'Page speed', value: formatNumber(audit.pageSpeed) },
+  ])
+  drawTable(cursor, {
+    head: [['Check', 'Result']],
+    body: [
+      ['HTTPS enabled', audit.httpsEnabled ? 'Yes' : 'No'],
+      ['Structured data present', audit.hasSchema ? 'Yes' : 'No'],
+      ['Mobile score', formatNumber(audit.mobileScore)],
+      ['Lighthouse SEO', formatNumber(audit.lighthouseSeo)],
+      ['Lighthouse performance', formatNumber(audit.lighthousePerformance)],
+      ['Broken links', formatNumber(audit.brokenLinks)],
+      ['Missing meta descriptions', formatNumber(audit.missingMetaDescriptions)],
+      ['Images missing alt text', formatNumber(audit.missingAltTags)],
+    ],
+  })
+}
+
+function moverRows(movers: KeywordMover[]): string[][] {
+  return movers.map((m) => [
+    m.keyword,
+    m.previousPosition ? `#${m.previousPosition}` : '-',
+    m.position ? `#${m.position}` : 'Not ranking',
+    m.positionChange !== null ? `${m.positionChange > 0 ? '+' : ''}${m.positionChange}` : '-',
+  ])
+}
+
+function renderKeywordTracking(cursor: Cursor): void {
+  const tracking = cursor.data.keywordTracking
+  if (!tracking) return drawNote(cursor, NO_DATA)
+
+  const first = tracking.runs[0]!
+  const latest = tracking.runs[tracking.runs.length - 1]!
+  const avgDelta =
+    first !== latest && first.avgPosition !== null && latest.avgPosition !== null
+      ? Math.round((first.avgPosition - latest.avgPosition) * 10) / 10
+      : null
+
+  drawMetricTiles(cursor, [
+    { label: 'Keywords tracked', value: formatNumber(latest.keywordsTracked) },
+    { label: 'Average position', value: formatNumber(latest.avgPosition, 1) },
+    { label: 'In top 3', value: formatNumber(latest.keywordsInTop3) },
+    { label: 'In top 10', value: formatNumber(latest.keywordsInTop10) },
+  ])
+  if (avgDelta !== null) {
+    drawNote(
+      cursor,
+      `Average position ${avgDelta >= 0 ? 'improved' : 'declined'} by ${Math.abs(avgDelta)} over the period.`
+    )
+  }
+
+  drawSubheading(cursor, 'Tracking runs')
+  drawTable(cursor, {
+    head: [['Date', 'Keywords', 'Avg. position', 'Top 3', 'Top 10', 'Not ranking', 'Up', 'Down']],
+    body: tracking.runs.map((run) => [
+      formatDate(run.completedAt),
+      formatNumber(run.keywordsTracked),
+      formatNumber(run.avgPosition, 1),
+      formatNumber(run.keywordsInTop3),
+      formatNumber(run.keywordsInTop10),
+      formatNumber(run.keywordsNotRanking),
+      formatNumber(run.improvedCount),
+      formatNumber(run.declinedCount),
+    ]),
+  })
+
+  if (tracking.topGainers.length > 0) {
+    drawSubheading(cursor, 'Biggest gains')
+    drawTable(cursor, {
+      head: [['Keyword', 'Previous', 'Current', 'Change']],
+      body: moverRows(tracking.topGainers),
+    })
+  }
+  if (tracking.topDecliners.length > 0) {
+    drawSubheading(cursor, 'Biggest drops')
+    drawTable(cursor, {
+      head: [['Keyword', 'Previous', 'Current', 'Change']],
+      body: moverRows(tracking.topDecliners),
+    })
+  }
+}
+
+/**
+ * Draw a rank heatmap: one colored square per grid point, labelled with its rank
+ */
+function drawHeatmap(cursor: Cursor, heatmap: GridHeatmap, x: number, size: number): void {
+  const { doc } = cursor
+  const gridSize = heatmap.cells.length
+  const cellSize = size / gridSize
+  const top = cursor.y + 10
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(9)
+  doc.setTextColor(...TEXT_COLOR)
+  doc.text(doc.splitTextToSize(`"${heatmap.keyword}"`, size)[0] as string, x, cursor.y + 3)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(8)
+  doc.setTextColor(...MUTED_COLOR)
+  doc.text(
+    `${heatmap.campaignName} - avg. rank ${formatNumber(heatmap.avgRank, 1)}`,
+    x,
+    cursor.y + 7.5
+  )
+
+  doc.setFontSize(Math.min(8, cellSize * 1.6))
+  heatmap.cells.forEach((row, rowIndex) => {
+    row.forEach((rank, colIndex) => {
+      const cellX = x + colIndex * cellSize
+      const cellY = top + rowIndex * cellSize
+      doc.setFillColor(...hexToRgb(RANK_COLORS[getRankColorCategory(rank)]))
+      doc.rect(cellX + 0.3, cellY + 0.3, cellSize - 0.6, cellSize - 0.6, 'F')
+      doc.setTextColor(255, 255, 255)
+      doc.text(rank === null ? '-' : String(rank), cellX + cellSize / 2, cellY + cellSize / 2, {
+        align: 'center',
+        baseline: 'middle',
+      })
+    })
+  })
+}
+
+function drawHeatmapLegend(cursor: Cursor): void {
+  const { doc } = cursor
+  const legend: [Parameters<typeof getRankColorCategory>[0], string][] = [
+    [1, '1-3'],
+    [4, '4-10'],
+    [11, '11-20'],
+    [21, '20+'],
+    [null, 'Not ranking'],
+  ]
+
+  ensureSpace(cursor, 8)
+  doc.setFontSize(8)
+  let x = PAGE_MARGIN
+  for (const [rank, label] of legend) {
+    doc.setFillColor(...hexToRgb(RANK_COLORS[getRankColorCategory(rank)]))
+    doc.rect(x, cursor.y - 3, 3.5, 3.5, 'F')
+    doc.setTextColor(...MUTED_COLOR)
+    doc.text(label, x + 5, cursor.y)
+    x += doc.getTextWidth(label) + 11
+  }
+  cursor.y += 8
+}
+
+function renderLocalGrid(cursor: Cursor): void {
+  const grid = cursor.data.localGrid
+  if (!grid) return drawNote(cursor, NO_DATA)
+
+  drawTable(cursor, {
+    head: [['Campaign', 'Last scan', 'Avg. rank', 'Share of voice', 'Top competitor']],
+    body: grid.campaigns.map((c) => [
+      c.campaignName,
+      formatDate(c.scannedAt),
+      formatNumber(c.avgRank, 1),
+      c.shareOfVoice !== null ? `${formatNumber(c.shareOfVoice, 1)}%` : '-',
+      c.topCompetitor ?? '-',
+    ]),
+  })
+
+  if (grid.heatmaps.length === 0) return
+
+  drawHeatmapLegend(cursor)
+  const gap = 10
+  const size = (pageWidth(cursor.doc) - PAGE_MARGIN * 2 - gap) / 2
+  for (let i = 0; i < grid.heatmaps.length; i += 2) {
+    ensureSpace(cursor, size + 14)
+    drawHeatmap(cursor, grid.heatmaps[i]!, PAGE_MARGIN, size)
+    if (grid.heatmaps[i + 1]) {
+      drawHeatmap(cursor, grid.heatmaps[i + 1]!, PAGE_MARGIN + size + gap, size)
+    }
+    cursor.y += size + 18
+  }
+}
+
+function renderGbp(cursor: Cursor): void {
+  const gbp = cursor.data.gbp
+  if (!gbp) return drawNote(cursor, NO_DATA)
+
+  drawNote(cursor, `${gbp.businessName} - profile data as of ${formatDate(gbp.fetchedAt)}.`)
+  drawMetricTiles(cursor, [
+    { label: `Completeness (${gbp.completeness.label})`, value: `${gbp.completeness.score}%` },
+    { label: 'Rating', value: gbp.rating !== null ? gbp.rating.toFixed(1) : '-' },
+    { label: 'Reviews', value: formatNumber(gbp.reviewCount) },
+  ])
+  drawTable(cursor, {
+    head: [['Profile element', 'Status']],
+    body: gbp.completeness.checks.map((check) => [
+      check.label,
+      check.passed ? 'Complete' : 'Missing',
+    ]),
+  })
+}
+
+function renderBacklinks(cursor: Cursor): void {
+  const backlinks = cursor.data.backlinks
+  if (!backlinks) return drawNote(cursor, NO_DATA)
+
+  drawNote(cursor, `Backlink data as of ${formatDate(backlinks.fetchedAt)}.`)
+  drawMetricTiles(cursor, [
+    { label: 'Domain rank', value: formatNumber(backlinks.domainRank) },
+    { label: 'Backlinks', value: formatNumber(backlinks.totalBacklinks) },
+    { label: 'Referring domains', value: formatNumber(backlinks.referringDomains) },
+    { label: 'Dofollow', value: `${formatNumber(backlinks.dofollowRatio * 100)}%` },
+  ])
+  if (backlinks.newBacklinks30d !== null || backlinks.lostBacklinks30d !== null) {
+    drawNote(
+      cursor,
+      `Last 30 days: ${formatNumber(backlinks.newBacklinks30d)} new and ${formatNumber(backlinks.lostBacklinks30d)} lost backlinks. Spam score ${formatNumber(backlinks.spamScore)}.`
+    )
+  }
+
+  if (backlinks.topReferringDomains.length > 0) {
+    drawSubheading(cursor, 'Top referring domains')
+    drawTable(cursor, {
+      head: [['Domain', 'Domain rank', 'Backlinks']],
+      body: backlinks.topReferringDomains.map((d) => [
+        d.domain,
+        formatNumber(d.domainRank),
+        formatNumber(d.backlinks),
+      ]),
+    })
+  }
+}
+
+function renderAiVisibility(cursor: Cursor): void {
+  const ai = cursor.data.aiVisibility
+  if (!ai) return drawNote(cursor, NO_DATA)
+
+  drawMetricTiles(cursor, [
+    { label: 'AI visibility score (0-100)', value: String(ai.score) },
+    { label: 'Measured', value: formatDate(ai.measuredAt) },
+  ])
+  drawNote(
+    cursor,
+    'How often AI assistants and AI search results mention or cite this business for the tracked queries.'
+  )
+
+  if (ai.trend.length > 1) {
+    drawSubheading(cursor, 'Trend')
+    drawTable(cursor, {
+      head: [['Date', 'Score']],
+      body: ai.trend.map((point) => [formatDate(point.date), String(point.score)]),
+    })
+  }
+}
+
+const SECTION_RENDERERS: Record<ReportSection, (cursor: Cursor) => void> = {
+  audit: renderAudit,
+  keywordTracking: renderKeywordTracking,
+  localGrid: renderLocalGrid,
+  gbp: renderGbp,
+  backlinks: renderBacklinks,
+  aiVisibility: renderAiVisibility,
+}
@@ -0,0 +1,196 @@
+/**
+ * Client Report Types
+ *
+ * Data shapes for the white-label PDF report. `collectReportData` fills a
+ * `ReportData` from the tool tables; `renderReportPdf` turns it into a PDF.
+ * A selected section is null when the domain has no data for it in the period.
+ * Scheduled email digests reuse the same section shapes via `DigestData`.
+ */
+
+import type { CompletenessBreakdown } from '@/lib/local-seo/gbp-comparison'
+
+export const REPORT_SECTIONS = [
+  'audit',
+  'keywordTracking',
+  'localGrid',
+  'gbp',
+  'backlinks',
+  'aiVisibility',
+] as const
+
+export type ReportSection = (typeof REPORT_SECTIONS)[number]
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, string> = {
+  audit: 'SEO Audit',
+  keywordTracking: 'Keyword Rankings',
+  localGrid: 'Local Grid Heatmaps',
+  gbp: 'Google Business Profile',
+  backlinks: 'Backlink Profile',
+  aiVisibility: 'AI Visibility',
+}
+
+export interface ReportOptions {
+  from: Date
+  to: Date
+  sections: ReportSection[]
+}
+
+export interface ReportBranding {
+  brandName: string
+  /** PNG/JPEG data URL */
+  logo: string | null
+  primaryColor: string
+  accentColor: string
+}
+
+export interface AuditReportSection {
+  auditId: string
+  completedAt: Date | null
+  onpageScore: number | null
+  pagesAnalyzed: number
+  issuesFound: number
+  brokenLinks: number
+  missingMetaDescriptions: number
+  missingAltTags: number
+  pageSpeed: number
+  mobileScore: number
+  httpsEnabled: boolean
+  hasSchema: boolean
+  lighthouseSeo: number | null
+  lighthousePerformance: number | null
+}
+
+export interface KeywordRunReportRow {
+  completedAt: Date
+  keywordsTracked: number
+  avgPosition: number | null
+  keywordsInTop3: number
+  keywordsInTop10: number
+  keywordsNotRanking: number
+  improvedCount: number
+  declinedCount: number
+}
+
+export interface KeywordMover {
+  keyword: string
+  position: number | null
+  previousPosition: number | null
+  positionChange: number | null
+}
+
+export interface KeywordTrackingReportSection {
+  /** Completed runs in the period, oldest first */
+  runs: KeywordRunReportRow[]
+  /** Largest gains in the latest run of the period */
+  topGainers: KeywordMover[]
+  /** Largest drops in the latest run of the period */
+  topDecliners: KeywordMover[]
+}
+
+export interface GridHeatmap {
+  campaignName: string
+  keyword: string
+  /** Rank per cell, indexed [row][col]; null = not ranking */
+  cells: (number | null)[][]
+  avgRank: number | null
+}
+
+export interface LocalGridCampaignRow {
+  campaignName: string
+  scannedAt: Date | null
+  avgRank: number | null
+  shareOfVoice: number | null
+  topCompetitor: string | null
+}
+
+export interface LocalGridReportSection {
+  campaigns: LocalGridCampaignRow[]
+  heatmaps: GridHeatmap[]
+}
+
+export interface GbpReportSection {
+  businessName: string
+  rating: number | null
+  reviewCount: number | null
+  primaryCategory: string | null
+  fetchedAt: Date
+  completeness: CompletenessBreakdown
+}
+
+export interface BacklinksReportSection {
+  fetchedAt: string
+  totalBacklinks: number
+  referringDomains: number
+  domainRank: number
+  spamScore: number
+  dofollowRatio: number
+  newBacklinks30d: number | null
+  lostBacklinks30d: number | null
+  topReferringDomains: { domain: string; domainRank: number; backlinks: number }[]
+}
+
+export interface AiVisibilityReportSection {
+  score: number
+  measuredAt: Date | null
+  /** Scores of completed runs in the period, oldest first */
+  trend: { date: Date; score: number }[]
+}
+
+export interface ReportData {
+  domain: {
+    id: string
+    name: string
+    domain: string
+    businessName: string | null
+  }
+  period: { from: Date; to: Date }
+  generatedAt: Date
+  branding: ReportBranding
+  sections: ReportSection[]
+  audit: AuditReportSection | null
+  keywordTracking: KeywordTrackingReportSection | null
+  localGrid: LocalGridReportSection | null
+  gbp: GbpReportSection | null
+  backlinks: BacklinksReportSection | null
+  aiVisibility: AiVisibilityReportSection | null
+}
+
+// ============================================
+// Email digests
+// ============================================
+
+export const DIGEST_SECTIONS = ['keywordTracking', 'localGrid', 'siteAudit', 'aiVisibility'] as const
+
+export type DigestSection = (typeof DIGEST_SECTIONS)[number]
+
+export const DIGEST_SECTION_LABELS: Record<DigestSection, string> = {
+  keywordTracking: 'Keyword Rankings',
+  localGrid: 'Local Grid',
+  siteAudit: 'Site Audit',
+  aiVisibility: 'AI Visibility',
+}
+
+export interface SiteAuditReportSection {
+  scanId: string
+  completedAt: Date | null
+  crawledPages: number
+  onpageScore: number | null
+  errorsCount: number
+  warningsCount: number
+  noticesCount: number
+  brokenLinks: number
+  /** Change in error count since the crawl before it, when there is one */
+  errorsChange: number | null
+}
+
+export interface DigestData {
+  domain: ReportData['domain']
+  period: { from: Date; to: Date }
+  generatedAt: Date
+  branding: ReportBranding
+  sections: DigestSection[]
+  keywordTracking: KeywordTrackingReportSection | null
+  localGrid: LocalGridReportSection | null
+  siteAudit: SiteAuditReportSection | null
+  aiVisibility: AiVisibilityReportSection | null
+}
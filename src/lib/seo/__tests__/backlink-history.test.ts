@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for Backlink Profile History
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildBacklinkTrend,
+  diffReferringDomains,
+  diffSnapshots,
+  findLostHighRankDomains,
+  isCompleteSnapshot,
+  type BacklinkSnapshot,
+} from '../backlink-history'
+
+type Domain = { domain: string }
+
+function snapshot(
+  id: string,
+  domains: string[] | null,
+  overrides: Partial<BacklinkSnapshot<Domain>> = {}
+): BacklinkSnapshot<Domain> {
+  return {
+    id,
+    fetchedAt: `2026-01-0${id}T00:00:00.000Z`,
+    totalBacklinks: 100,
+    referringDomainsCount: domains?.length ?? 0,
+    domainRank: 300,
+    spamScore: 5,
+    referringDomains: domains ? domains.map((domain) => ({ domain })) : null,
+    ...overrides,
+  }
+}
+
+describe('diffReferringDomains', () => {
+  it('reports domains gained and lost', () => {
+    const diff = diffReferringDomains(
+      [{ domain: 'a.com' }, { domain: 'b.com' }],
+      [{ domain: 'b.com' }, { domain: 'c.com' }]
+    )
+
+    expect(diff.newDomains).toEqual([{ domain: 'c.com' }])
+    expect(diff.lostDomains).toEqual([{ domain: 'a.com' }])
+  })
+
+  it('ignores case and a leading www', () => {
+    const diff = diffReferringDomains([{ domain: 'www.Example.com' }], [{ domain: 'example.com' }])
+
+    expect(diff.newDomains).toEqual([])
+    expect(diff.lostDomains).toEqual([])
+  })
+})
+
+describe('diffSnapshots', () => {
+  it('returns null when a snapshot has no stored domains', () => {
+    expect(diffSnapshots(snapshot('1', null), snapshot('2', ['a.com']))).toBeNull()
+    expect(diffSnapshots(snapshot('1', ['a.com']), snapshot('2', null))).toBeNull()
+  })
+
+  it('flags the diff as partial when a snapshot stores only its top domains', () => {
+    const complete = diffSnapshots(snapshot('1', ['a.com']), snapshot('2', ['b.com']))
+    const partial = diffSnapshots(
+      snapshot('1', ['a.com']),
+      snapshot('2', ['b.com'], { referringDomainsCount: 5 })
+    )
+
+    expect(complete?.partial).toBe(false)
+    expect(partial?.partial).toBe(true)
+  })
+})
+
+describe('isCompleteSnapshot', () => {
+  it('requires stored domains covering the profile count', () => {
+    expect(isCompleteSnapshot(snapshot('1', ['a.com']))).toBe(true)
+    expect(isCompleteSnapshot(snapshot('1', ['a.com'], { referringDomainsCount: 2 }))).toBe(false)
+    expect(isCompleteSnapshot(snapshot('1', null))).toBe(false)
+  })
+})
+
+describe('buildBacklinkTrend', () => {
+  it('returns metrics per snapshot with new/lost counts against the previous one', () => {
+    const trend = buildBacklinkTrend([
+      snapshot('1', ['a.com', 'b.com'], { totalBacklinks: 100 }),
+      snapshot('2', ['b.com', 'c.com', 'd.com'], { totalBacklinks: 140, domainRank: 320 }),
+    ])
+
+    expect(trend).toHaveLength(2)
+    expect(trend[0]).toMatchObject({
+      snapshotId: '1',
+      totalBacklinks: 100,
+      referringDomains: 2,
+      newReferringDomains: null,
+      lostReferringDomains: null,
+    })
+    expect(trend[1]).toMatchObject({
+      snapshotId: '2',
+      totalBacklinks: 140,
+      referringDomains: 3,
+      domainRank: 320,
+      newReferringDomains: 2,
+      lostReferringDomains: 1,
+      partial: false,
+    })
+  })
+
+  it('diffs across a snapshot without stored domains', () => {
+    const trend = buildBacklinkTrend([
+      snapshot('1', ['a.com']),
+      snapshot('2', null, { referringDomainsCount: 1 }),
+      snapshot('3', ['b.com']),
+    ])
+
+    expect(trend[1]?.newReferringDomains).toBeNull()
+    expect(trend[2]).toMatchObject({ newReferringDomains: 1, lostReferringDomains: 1 })
+  })
+})
+
+describe('findLostHighRankDomains', () => {
+  type RankedDomain = { domain: string; domainRank: number }
+
+  function ranked(
+    id: string,
+    domains: Array<[string, number]>,
+    referringDomainsCount = domains.length
+  ): BacklinkSnapshot<RankedDomain> {
+    return {
+      id,
+      fetchedAt: `2026-01-0${id}T00:00:00.000Z`,
+      totalBacklinks: 100,
+      referringDomainsCount,
+      domainRank: 300,
+      spamScore: 5,
+      referringDomains: domains.map(([domain, domainRank]) => ({ domain, domainRank })),
+    }
+  }
+
+  it('returns lost domains at or above the minimum rank, highest first', () => {
+    const previous = ranked('1', [
+      ['low.com', 100],
+      ['high.com', 400],
+      ['higher.com', 600],
+      ['kept.com', 500],
+    ])
+    const current = ranked('2', [['kept.com', 500]])
+    const diff = diffSnapshots(previous, current)!
+
+    const lost = findLostHighRankDomains(diff, current, 200)
+
+    expect(lost.map((d) => d.domain)).toEqual(['higher.com', 'high.com'])
+  })
+
+  it('ignores losses that may have just dropped out of a partial snapshot', () => {
+    const previous = ranked('1', [
+      ['strong.com', 700],
+      ['edge.com', 300],
+      ['kept.com', 400],
+    ])
+    // Only the top domains are stored; the lowest stored rank is 400
+    const current = ranked('2', [['kept.com', 400]], 50)
+    const diff = diffSnapshots(previous, current)!
+
+    const lost = findLostHighRankDomains(diff, current, 200)
+
+    expect(lost.map((d) => d.domain)).toEqual(['strong.com'])
+  })
+})
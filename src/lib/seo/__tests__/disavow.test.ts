@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for Backlink Disavow Helpers
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildDisavowCandidates,
+  buildDisavowFile,
+  normalizeDisavowDomain,
+  type DisavowBacklink,
+} from '../disavow'
+
+function link(domainFrom: string, urlFrom: string, overrides: Partial<DisavowBacklink> = {}) {
+  return {
+    domainFrom,
+    urlFrom,
+    domainFromRank: 10,
+    backlinkSpamScore: 0,
+    dofollow: true,
+    ...overrides,
+  }
+}
+
+describe('normalizeDisavowDomain', () => {
+  it('strips scheme, path and a leading www', () => {
+    expect(normalizeDisavowDomain('https://WWW.Spam.example/page?x=1')).toBe('spam.example')
+    expect(normalizeDisavowDomain(' spam.example ')).toBe('spam.example')
+  })
+})
+
+describe('buildDisavowCandidates', () => {
+  it('flags whole domains whose spam score reaches the threshold', () => {
+    const candidates = buildDisavowCandidates(
+      [
+        link('www.spam.example', 'https://spam.example/a'),
+        link('spam.example', 'https://spam.example/b', { dofollow: false }),
+        link('clean.example', 'https://clean.example/a'),
+      ],
+      new Map([
+        ['spam.example', 80],
+        ['clean.example', 5],
+      ]),
+      60
+    )
+
+    expect(candidates).toEqual([
+      {
+        type: 'DOMAIN',
+        value: 'spam.example',
+        referringDomain: 'spam.example',
+        spamScore: 80,
+        domainRank: 10,
+        backlinks: 2,
+        dofollowBacklinks: 1,
+      },
+    ])
+  })
+
+  it('flags individual toxic URLs on domains that are otherwise fine', () => {
+    const candidates = buildDisavowCandidates(
+      [
+        link('blog.example', 'https://blog.example/bad', { backlinkSpamScore: 70 }),
+        link('blog.example', 'https://blog.example/good', { backlinkSpamScore: 10 }),
+      ],
+      new Map([['blog.example', 20]]),
+      60
+    )
+
+    expect(candidates).toHaveLength(1)
+    expect(candidates[0]).toMatchObject({
+      type: 'URL',
+      value: 'https://blog.example/bad',
+      referringDomain: 'blog.example',
+      spamScore: 70,
+    })
+  })
+
+  it('sorts by spam score, most toxic first', () => {
+    const candidates = buildDisavowCandidates(
+      [link('a.example', 'https://a.example/'), link('b.example', 'https://b.example/')],
+      new Map([
+        ['a.example', 65],
+        ['b.example', 95],
+      ]),
+      60
+    )
+
+    expect(candidates.map((c) => c.value)).toEqual(['b.example', 'a.example'])
+  })
+})
+
+describe('buildDisavowFile', () => {
+  const generatedAt = new Date('2026-03-01T00:00:00.000Z')
+
+  it('writes domain lines, then URLs, with reasons as comments', () => {
+    const file = buildDisavowFile(
+      [
+        { type: 'URL', value: 'https://blog.example/bad', reason: 'Paid link farm' },
+        { type: 'DOMAIN', value: 'www.spam.example', reason: null },
+      ],
+      { site: 'client.com', generatedAt }
+    )
+
+    expect(file).toBe(
+      [
+        '# Disavow file for client.com',
+        '# Generated 2026-03-01T00:00:00.000Z',
+        '# 1 domains, 1 URLs',
+        '',
+        'domain:spam.example',
+        '',
+        '# Paid link farm',
+        'https://blog.example/bad',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('drops URLs already covered by a disavowed domain', () => {
+    const file = buildDisavowFile(
+      [
+        { type: 'DOMAIN', value: 'spam.example', reason: null },
+        { type: 'URL', value: 'https://spam.example/page', reason: null },
+      ],
+      { site: 'client.com', generatedAt }
+    )
+
+    expect(file).toContain('domain:spam.example')
+    expect(file).not.toContain('https://spam.example/page')
+    expect(file).toContain('# 1 domains, 0 URLs')
+  })
+})
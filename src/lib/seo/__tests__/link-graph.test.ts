@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for Internal Link Graph Analysis
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeLinkGraph,
+  normalizeAnchor,
+  normalizeLinkUrl,
+  summarizeLinkGraph,
+  type LinkGraphLink,
+  type LinkGraphPage,
+} from '../link-graph'
+
+const SITE = 'https://example.com'
+
+function link(
+  source: string,
+  target: string,
+  overrides: Partial<LinkGraphLink> = {}
+): LinkGraphLink {
+  return {
+    source: `${SITE}${source}`,
+    target: `${SITE}${target}`,
+    anchor: null,
+    dofollow: true,
+    ...overrides,
+  }
+}
+
+const pageUrls = ['/', '/services', '/services/implants', '/contact', '/old-offer'].map(
+  (path) => `${SITE}${path}`
+)
+
+const links = [
+  link('/', '/services'),
+  link('/', '/contact'),
+  link('/services', '/services/implants'),
+  link('/services', '/contact'),
+  link('/services/implants', '/contact'),
+  link('/contact', '/'),
+  // Fragments, trailing slashes and self-links
+  link('/contact', '/services/#top'),
+  link('/services', '/services'),
+  // Uncrawled target
+  link('/', '/blog'),
+]
+
+describe('normalizeLinkUrl', () => {
+  it('drops fragments and trailing slashes but keeps the root path', () => {
+    expect(normalizeLinkUrl('https://Example.com/about/#team')).toBe('https://example.com/about')
+    expect(normalizeLinkUrl('https://example.com')).toBe('https://example.com/')
+  })
+})
+
+describe('normalizeAnchor', () => {
+  it('collapses whitespace and treats empty anchors as null', () => {
+    expect(normalizeAnchor('  Book\n an   appointment ')).toBe('Book an appointment')
+    expect(normalizeAnchor('   ')).toBeNull()
+    expect(normalizeAnchor(null)).toBeNull()
+  })
+})
+
+describe('analyzeLinkGraph', () => {
+  const metrics = analyzeLinkGraph(pageUrls, links, `${SITE}/`)
+
+  it('counts distinct linking pages, ignoring self-links and uncrawled URLs', () => {
+    expect(metrics.get(`${SITE}/contact`)).toMatchObject({ inboundLinks: 3, outboundLinks: 2 })
+    expect(metrics.get(`${SITE}/services`)).toMatchObject({ inboundLinks: 2, outboundLinks: 2 })
+    expect(metrics.get(`${SITE}/`)).toMatchObject({ inboundLinks: 1, outboundLinks: 2 })
+  })
+
+  it('measures click depth from the start URL', () => {
+    expect(metrics.get(`${SITE}/`)?.clickDepth).toBe(0)
+    expect(metrics.get(`${SITE}/contact`)?.clickDepth).toBe(1)
+    expect(metrics.get(`${SITE}/services/implants`)?.clickDepth).toBe(2)
+    expect(metrics.get(`${SITE}/old-offer`)?.clickDepth).toBeNull()
+  })
+
+  it('scores the most linked-to page highest and orphans lowest', () => {
+    const scores = pageUrls.map((url) => metrics.get(url)?.linkScore ?? 0)
+    expect(Math.max(...scores)).toBe(100)
+    expect(metrics.get(`${SITE}/contact`)?.linkScore).toBe(100)
+    expect(metrics.get(`${SITE}/old-offer`)?.linkScore).toBe(Math.min(...scores))
+  })
+
+  it('excludes nofollow links from link score but not from inbound counts', () => {
+    const nofollow = analyzeLinkGraph(
+      [`${SITE}/`, `${SITE}/a`, `${SITE}/b`],
+      [link('/', '/a'), link('/', '/b', { dofollow: false })],
+      null
+    )
+
+    expect(nofollow.get(`${SITE}/b`)?.inboundLinks).toBe(1)
+    expect(nofollow.get(`${SITE}/b`)!.linkScore).toBeLessThan(nofollow.get(`${SITE}/a`)!.linkScore)
+  })
+
+  it('falls back to the shortest URL when the start URL was not crawled', () => {
+    const fallback = analyzeLinkGraph(pageUrls, links, 'https://www.example.com/')
+    expect(fallback.get(`${SITE}/`)?.clickDepth).toBe(0)
+  })
+})
+
+describe('summarizeLinkGraph', () => {
+  it('finds orphan and underlinked pages and the depth distribution', () => {
+    const metrics = analyzeLinkGraph(pageUrls, links, `${SITE}/`)
+    const pages: LinkGraphPage[] = pageUrls.map((url) => ({
+      id: url,
+      url,
+      title: null,
+      ...metrics.get(url)!,
+    }))
+
+    const summary = summarizeLinkGraph(pages, 3)
+
+    expect(summary.orphans.map((p) => p.url)).toEqual([`${SITE}/old-offer`])
+    expect(summary.underlinked.map((p) => p.url)).toEqual([
+      `${SITE}/services`,
+      `${SITE}/services/implants`,
+    ])
+    expect(summary.depthDistribution).toEqual({ '0': 1, '1': 2, '2': 1, unreachable: 1 })
+    expect(summary.maxDepth).toBe(2)
+    expect(summary.avgDepth).toBe(1)
+  })
+})
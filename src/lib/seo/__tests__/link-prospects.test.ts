@@ -0,0 +1,68 @@
+/**
+ * Unit Tests for Link Prospect Pipeline helpers
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  findVerifiedProspects,
+  matchesProspectDomain,
+  normalizeProspectDomain,
+  type LinkProspectStage,
+} from '../link-prospects'
+
+describe('normalizeProspectDomain', () => {
+  it('reduces pasted URLs to their host', () => {
+    expect(normalizeProspectDomain(' https://www.Example.com/blog/post?ref=1 ')).toBe('example.com')
+    expect(normalizeProspectDomain('http://user@blog.example.com:8080/')).toBe('blog.example.com')
+  })
+
+  it('leaves bare domains as they are', () => {
+    expect(normalizeProspectDomain('example.co.uk')).toBe('example.co.uk')
+  })
+})
+
+describe('matchesProspectDomain', () => {
+  it('matches the same domain ignoring case and www', () => {
+    expect(matchesProspectDomain('Example.com', 'www.example.com')).toBe(true)
+  })
+
+  it('matches subdomains in either direction', () => {
+    expect(matchesProspectDomain('example.com', 'blog.example.com')).toBe(true)
+    expect(matchesProspectDomain('blog.example.com', 'example.com')).toBe(true)
+  })
+
+  it('does not match unrelated domains sharing a suffix', () => {
+    expect(matchesProspectDomain('example.com', 'notexample.com')).toBe(false)
+    expect(matchesProspectDomain('example.com', 'example.org')).toBe(false)
+  })
+})
+
+describe('findVerifiedProspects', () => {
+  const prospect = (prospectDomain: string, stage: LinkProspectStage) => ({
+    prospectDomain,
+    stage,
+  })
+
+  it('returns contacted, negotiating and won prospects found among referring domains', () => {
+    const prospects = [
+      prospect('a.com', 'CONTACTED'),
+      prospect('b.com', 'NEGOTIATING'),
+      prospect('c.com', 'WON'),
+      prospect('d.com', 'CONTACTED'),
+    ]
+
+    const verified = findVerifiedProspects(prospects, ['a.com', 'news.b.com', 'c.com', 'e.com'])
+
+    expect(verified.map((p) => p.prospectDomain)).toEqual(['a.com', 'b.com', 'c.com'])
+  })
+
+  it('skips prospects never contacted or marked lost', () => {
+    const prospects = [prospect('a.com', 'PROSPECT'), prospect('b.com', 'LOST')]
+
+    expect(findVerifiedProspects(prospects, ['a.com', 'b.com'])).toEqual([])
+  })
+
+  it('returns nothing when there are no referring domains', () => {
+    expect(findVerifiedProspects([prospect('a.com', 'WON')], [])).toEqual([])
+  })
+})
@@ -0,0 +1,25 @@
+/**
+ * Unit Tests for Time-Limited Pattern Matching
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createTimedPatternTester } from '../pattern-timeout'
+import { PatternTimeoutError } from '../site-audit-rules'
+
+describe('createTimedPatternTester', () => {
+  const testPattern = createTimedPatternTester(50)
+
+  it('matches like RegExp.test', () => {
+    expect(testPattern(/\/blog\//i, 'https://example.com/BLOG/post')).toBe(true)
+    expect(testPattern(/\/blog\//i, 'https://example.com/about')).toBe(false)
+  })
+
+  it('throws PatternTimeoutError when a pattern backtracks past the limit', () => {
+    const started = Date.now()
+
+    expect(() => testPattern(/(\w+)+x$/i, `https://example.com/${'a'.repeat(40)}`)).toThrow(
+      PatternTimeoutError
+    )
+    expect(Date.now() - started).toBeLessThan(2000)
+  })
+})
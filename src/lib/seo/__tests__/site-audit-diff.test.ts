@@ -0,0 +1,135 @@
+/**
+ * Unit Tests for Site Audit Crawl Diffing
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffSiteAuditScans, getIssueSeverity, type DiffablePage } from '../site-audit-diff'
+
+function page(url: string, overrides: Partial<DiffablePage> = {}): DiffablePage {
+  return {
+    urlHash: `hash:${url}`,
+    url,
+    statusCode: 200,
+    onpageScore: 90,
+    issueTypes: [],
+    ...overrides,
+  }
+}
+
+describe('diffSiteAuditScans', () => {
+  it('reports pages added and removed by url hash', () => {
+    const diff = diffSiteAuditScans(
+      { summary: null, pages: [page('/a'), page('/b')] },
+      { summary: null, pages: [page('/b'), page('/c')] }
+    )
+
+    expect(diff.pagesAdded).toEqual(['/c'])
+    expect(diff.pagesRemoved).toEqual(['/a'])
+    expect(diff.totals.pagesAdded).toBe(1)
+    expect(diff.totals.pagesRemoved).toBe(1)
+  })
+
+  it('reports new and resolved issues per issue type on pages in both crawls', () => {
+    const diff = diffSiteAuditScans(
+      {
+        summary: null,
+        pages: [
+          page('/a', { issueTypes: ['noTitle', 'noImageAlt'] }),
+          page('/b', { issueTypes: ['noImageAlt'] }),
+        ],
+      },
+      {
+        summary: null,
+        pages: [
+          page('/a', { issueTypes: ['noImageAlt'] }),
+          page('/b', { issueTypes: ['noImageAlt', 'noH1Tag'] }),
+          page('/new', { issueTypes: ['noTitle'] }),
+        ],
+      }
+    )
+
+    const noTitle = diff.issues.find((i) => i.issueType === 'noTitle')
+    const noH1 = diff.issues.find((i) => i.issueType === 'noH1Tag')
+
+    expect(noTitle).toMatchObject({ resolvedPages: ['/a'], newPages: [], baseCount: 1, targetCount: 1 })
+    expect(noH1).toMatchObject({ newPages: ['/b'], severity: 'error' })
+    expect(diff.issues.find((i) => i.issueType === 'noImageAlt')).toBeUndefined()
+    expect(diff.totals).toMatchObject({ newIssues: 1, resolvedIssues: 1 })
+  })
+
+  it('tracks status code changes', () => {
+    const diff = diffSiteAuditScans(
+      { summary: null, pages: [page('/a'), page('/b', { statusCode: 301 })] },
+      { summary: null, pages: [page('/a', { statusCode: 404 }), page('/b', { statusCode: 301 })] }
+    )
+
+    expect(diff.statusCodeChanges).toEqual([{ url: '/a', from: 200, to: 404 }])
+  })
+
+  it('lists pages that started erroring, including newly crawled ones', () => {
+    const diff = diffSiteAuditScans(
+      { summary: null, pages: [page('/a'), page('/gone', { statusCode: 404 })] },
+      {
+        summary: null,
+        pages: [
+          page('/a', { statusCode: 410 }),
+          page('/gone', { statusCode: 404 }),
+          page('/new', { statusCode: 500 }),
+        ],
+      }
+    )
+
+    expect(diff.newErrorPages).toEqual([
+      { url: '/a', statusCode: 410 },
+      { url: '/new', statusCode: 500 },
+    ])
+  })
+
+  it('lists onpage score moves above the threshold, biggest drops first', () => {
+    const diff = diffSiteAuditScans(
+      {
+        summary: null,
+        pages: [page('/a', { onpageScore: 90 }), page('/b', { onpageScore: 80 }), page('/c')],
+      },
+      {
+        summary: null,
+        pages: [
+          page('/a', { onpageScore: 95 }),
+          page('/b', { onpageScore: 60 }),
+          page('/c', { onpageScore: 90.4 }),
+        ],
+      }
+    )
+
+    expect(diff.scoreChanges.map((c) => [c.url, c.delta])).toEqual([
+      ['/b', -20],
+      ['/a', 5],
+    ])
+  })
+
+  it('computes summary deltas', () => {
+    const diff = diffSiteAuditScans(
+      {
+        summary: { crawledPages: 10, onpageScore: 82.5, errorsCount: 4, warningsCount: 7, noticesCount: 2 },
+        pages: [],
+      },
+      {
+        summary: { crawledPages: 12, onpageScore: 85, errorsCount: 1, warningsCount: 7, noticesCount: 3 },
+        pages: [],
+      }
+    )
+
+    expect(diff.summary.onpageScore).toEqual({ base: 82.5, target: 85, delta: 2.5 })
+    expect(diff.summary.errorsCount.delta).toBe(-3)
+    expect(diff.summary.crawledPages.delta).toBe(2)
+  })
+})
+
+describe('getIssueSeverity', () => {
+  it('classifies known checks and ignores unknown ones', () => {
+    expect(getIssueSeverity('noTitle')).toBe('error')
+    expect(getIssueSeverity('titleTooLong')).toBe('warning')
+    expect(getIssueSeverity('noDoctype')).toBe('notice')
+    expect(getIssueSeverity('somethingElse')).toBeNull()
+  })
+})
@@ -0,0 +1,212 @@
+/**
+ * Unit Tests for Custom Site Audit Rules
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  customIssueType,
+  describeCondition,
+  evaluateCondition,
+  evaluateRules,
+  formatIssueType,
+  isBacktrackingPattern,
+  parseCustomIssueType,
+  PatternTimeoutError,
+  parseRuleSnapshots,
+  siteAuditRuleConditionsSchema,
+  type RuleEvaluablePage,
+  type SiteAuditRuleDefinition,
+} from '../site-audit-rules'
+
+function page(overrides: Partial<RuleEvaluablePage> = {}): RuleEvaluablePage {
+  return {
+    url: 'https://example.com/blog/first-post',
+    statusCode: 200,
+    title: 'First Post | Example',
+    description: 'Our first blog post',
+    h1Tags: ['First Post'],
+    wordCount: 250,
+    pageTiming: { largest_contentful_paint: 3100, time_to_interactive: 1800 },
+    meta: {
+      htags: { h2: ['Book an appointment'] },
+      canonical: 'https://example.com/blog/first-post',
+    },
+    ...overrides,
+  }
+}
+
+describe('evaluateCondition', () => {
+  it('matches url, title and description patterns case-insensitively', () => {
+    expect(evaluateCondition({ field: 'url', operator: 'matches', value: '/BLOG/' }, page())).toBe(
+      true
+    )
+    expect(
+      evaluateCondition({ field: 'title', operator: 'not_matches', value: '\\| Example$' }, page())
+    ).toBe(false)
+    expect(
+      evaluateCondition(
+        { field: 'description', operator: 'not_matches', value: 'shipping' },
+        page({ description: null })
+      )
+    ).toBe(true)
+  })
+
+  it('compares word count, h1 count and status code', () => {
+    expect(evaluateCondition({ field: 'word_count', operator: 'lt', value: 300 }, page())).toBe(
+      true
+    )
+    expect(evaluateCondition({ field: 'h1_count', operator: 'neq', value: 1 }, page())).toBe(false)
+    expect(
+      evaluateCondition(
+        { field: 'status_code', operator: 'gte', value: 400 },
+        page({ statusCode: 404 })
+      )
+    ).toBe(true)
+  })
+
+  it('never matches numeric conditions on missing values', () => {
+    expect(
+      evaluateCondition(
+        { field: 'word_count', operator: 'lt', value: 300 },
+        page({ wordCount: null })
+      )
+    ).toBe(false)
+    expect(
+      evaluateCondition(
+        { field: 'page_timing', metric: 'dom_complete', operator: 'gt', value: 0 },
+        page()
+      )
+    ).toBe(false)
+  })
+
+  it('reads page_timing metrics', () => {
+    expect(
+      evaluateCondition(
+        { field: 'page_timing', metric: 'largest_contentful_paint', operator: 'gt', value: 2500 },
+        page()
+      )
+    ).toBe(true)
+  })
+
+  it('looks for text in the title, description, headings and meta', () => {
+    expect(
+      evaluateCondition(
+        { field: 'text', operator: 'contains', value: 'book an APPOINTMENT' },
+        page()
+      )
+    ).toBe(true)
+    expect(
+      evaluateCondition({ field: 'text', operator: 'not_contains', value: 'call us' }, page())
+    ).toBe(true)
+  })
+})
+
+describe('evaluateRules', () => {
+  const rules: SiteAuditRuleDefinition[] = [
+    {
+      id: 'thin-blog',
+      message: 'Blog post under 300 words',
+      severity: 'warning',
+      conditions: [
+        { field: 'url', operator: 'matches', value: '/blog/' },
+        { field: 'word_count', operator: 'lt', value: 300 },
+      ],
+    },
+    {
+      id: 'no-cta',
+      message: 'Missing booking call to action',
+      severity: 'notice',
+      conditions: [{ field: 'text', operator: 'not_contains', value: 'book an appointment' }],
+    },
+    { id: 'empty', message: 'No conditions', severity: 'error', conditions: [] },
+  ]
+
+  it('returns the rules whose conditions all hold', () => {
+    expect(evaluateRules(rules, page())).toEqual(['thin-blog'])
+    expect(evaluateRules(rules, page({ url: 'https://example.com/about', meta: null }))).toEqual([
+      'no-cta',
+    ])
+  })
+
+  it('skips rules whose pattern times out and reports them', () => {
+    const onTimeout = vi.fn()
+    const testPattern = (): boolean => {
+      throw new PatternTimeoutError()
+    }
+
+    expect(evaluateRules(rules, page(), { testPattern, onTimeout })).toEqual([])
+    expect(onTimeout).toHaveBeenCalledWith('thin-blog')
+  })
+})
+
+describe('isBacktrackingPattern', () => {
+  it('flags repeated groups containing repetition or alternatives, and back-references', () => {
+    expect(isBacktrackingPattern('(\\w+)+x$')).toBe(true)
+    expect(isBacktrackingPattern('^((ab)*c)+$')).toBe(true)
+    expect(isBacktrackingPattern('(?:a|ab)*')).toBe(true)
+    expect(isBacktrackingPattern('(a+){2,}')).toBe(true)
+    expect(isBacktrackingPattern('(.)\\1')).toBe(true)
+  })
+
+  it('allows ordinary URL and title patterns', () => {
+    expect(isBacktrackingPattern('/blog/(\\d+)/')).toBe(false)
+    expect(isBacktrackingPattern('^https://[^/]+/(en|fr)/')).toBe(false)
+    expect(isBacktrackingPattern('(\\w+)?-\\d{2,4}')).toBe(false)
+    expect(isBacktrackingPattern('[(+)]+\\.pdf$')).toBe(false)
+    expect(isBacktrackingPattern('(?<slug>[a-z-]+)\\.html')).toBe(false)
+  })
+})
+
+describe('siteAuditRuleConditionsSchema', () => {
+  it('rejects patterns that can backtrack exponentially', () => {
+    expect(
+      siteAuditRuleConditionsSchema.safeParse([
+        { field: 'url', operator: 'matches', value: '(\\w+)+x$' },
+      ]).success
+    ).toBe(false)
+  })
+
+  it('rejects invalid regular expressions and empty rules', () => {
+    expect(
+      siteAuditRuleConditionsSchema.safeParse([{ field: 'title', operator: 'matches', value: '(' }])
+        .success
+    ).toBe(false)
+    expect(siteAuditRuleConditionsSchema.safeParse([]).success).toBe(false)
+  })
+
+  it('requires a known metric for page_timing conditions', () => {
+    expect(
+      siteAuditRuleConditionsSchema.safeParse([
+        { field: 'page_timing', metric: 'fetch_start', operator: 'gt', value: 1 },
+      ]).success
+    ).toBe(false)
+  })
+})
+
+describe('custom issue types', () => {
+  const snapshots = parseRuleSnapshots([
+    { id: 'thin-blog', message: 'Blog post under 300 words', severity: 'warning', matchedPages: 3 },
+  ])
+
+  it('round-trips rule ids and leaves built-in checks alone', () => {
+    expect(parseCustomIssueType(customIssueType('abc'))).toBe('abc')
+    expect(parseCustomIssueType('noH1Tag')).toBeNull()
+  })
+
+  it('labels custom issues with the rule message for exports', () => {
+    expect(formatIssueType('custom:thin-blog', snapshots)).toBe('Custom: Blog post under 300 words')
+    expect(formatIssueType('custom:gone', snapshots)).toBe('Custom: deleted rule')
+    expect(formatIssueType('noTitle', snapshots)).toBe('noTitle')
+  })
+
+  it('ignores malformed snapshots', () => {
+    expect(parseRuleSnapshots(null)).toEqual([])
+    expect(parseRuleSnapshots([{ id: 'x' }])).toEqual([])
+  })
+
+  it('describes conditions for the rules list', () => {
+    expect(describeCondition({ field: 'word_count', operator: 'lt', value: 300 })).toBe(
+      'Word count < 300'
+    )
+  })
+})
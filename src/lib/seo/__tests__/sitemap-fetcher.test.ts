@@ -0,0 +1,162 @@
+/**
+ * Unit Tests for the Sitemap Fetcher
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi, type Mock } from 'vitest'
+
+vi.mock('dns/promises', () => {
+  const lookup = vi.fn()
+  return { default: { lookup }, lookup }
+})
+
+import { lookup } from 'dns/promises'
+import { fetchSiteSitemaps } from '../sitemap-fetcher'
+
+const ORIGIN = 'https://www.example.com'
+
+const PRIVATE_HOSTS: Record<string, string> = {
+  'intranet.example.com': '10.0.0.5',
+  'metadata.example.com': '169.254.169.254',
+  'mapped.example.com': '::ffff:127.0.0.1',
+}
+
+function urlset(...locs: string[]): string {
+  return `<?xml version="1.0"?><urlset>${locs.map((loc) => `<url><loc>${loc}</loc></url>`).join('')}</urlset>`
+}
+
+function sitemapindex(...locs: string[]): string {
+  return `<?xml version="1.0"?><sitemapindex>${locs.map((loc) => `<sitemap><loc>${loc}</loc></sitemap>`).join('')}</sitemapindex>`
+}
+
+function stubSite(routes: Record<string, () => Response>): Mock {
+  const fetchMock = vi.fn(async (input: URL | string) => {
+    const route = routes[String(input)]
+    return route ? route() : new Response('', { status: 404 })
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+function fetchedUrls(fetchMock: Mock): string[] {
+  return fetchMock.mock.calls.map(([input]) => String(input))
+}
+
+beforeEach(() => {
+  ;(lookup as unknown as Mock).mockImplementation(async (hostname: string) => [
+    { address: PRIVATE_HOSTS[hostname] ?? '93.184.216.34', family: 4 },
+  ])
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('fetchSiteSitemaps', () => {
+  it('follows sitemaps on the site and its subdomains only', async () => {
+    const fetchMock = stubSite({
+      [`${ORIGIN}/robots.txt`]: () =>
+        new Response(
+          [
+            'Sitemap: https://example.com/sitemap_index.xml',
+            'Sitemap: https://attacker.test/sitemap.xml',
+          ].join('\n')
+        ),
+      'https://example.com/sitemap_index.xml': () =>
+        new Response(
+          sitemapindex(
+            'https://cdn.example.com/pages.xml',
+            'https://notexample.com/pages.xml',
+            'file:///etc/passwd'
+          )
+        ),
+      'https://cdn.example.com/pages.xml': () =>
+        new Response(urlset('https://www.example.com/', 'https://www.example.com/about')),
+    })
+
+    const result = await fetchSiteSitemaps(ORIGIN)
+
+    expect(result.entries.map((entry) => entry.url)).toEqual([
+      'https://www.example.com/',
+      'https://www.example.com/about',
+    ])
+    expect(result.files.filter((file) => file.error).map((file) => [file.url, file.error])).toEqual(
+      [
+        ['https://attacker.test/sitemap.xml', 'Not on example.com'],
+        ['https://notexample.com/pages.xml', 'Not on example.com'],
+        ['file:///etc/passwd', 'Unsupported protocol file:'],
+      ]
+    )
+    expect(fetchedUrls(fetchMock)).not.toContain('https://attacker.test/sitemap.xml')
+  })
+
+  it('refuses hosts that resolve to private or link-local addresses', async () => {
+    const fetchMock = stubSite({
+      [`${ORIGIN}/robots.txt`]: () =>
+        new Response(
+          Object.keys(PRIVATE_HOSTS)
+            .map((host) => `Sitemap: http://${host}/sitemap.xml`)
+            .join('\n')
+        ),
+    })
+
+    const result = await fetchSiteSitemaps(ORIGIN)
+
+    expect(result.files.map((file) => file.error)).toEqual([
+      'Resolves to a private address',
+      'Resolves to a private address',
+      'Resolves to a private address',
+    ])
+    expect(fetchedUrls(fetchMock)).toEqual([`${ORIGIN}/robots.txt`])
+  })
+
+  it('checks every redirect hop', async () => {
+    const fetchMock = stubSite({
+      [`${ORIGIN}/robots.txt`]: () => new Response('Sitemap: https://example.com/moved.xml'),
+      'https://example.com/moved.xml': () =>
+        new Response('', {
+          status: 301,
+          headers: { location: 'http://metadata.example.com/latest/meta-data/' },
+        }),
+    })
+
+    const result = await fetchSiteSitemaps(ORIGIN)
+
+    expect(result.files).toEqual([
+      {
+        url: 'https://example.com/moved.xml',
+        type: null,
+        urlCount: 0,
+        error: 'Resolves to a private address',
+      },
+    ])
+    expect(fetchedUrls(fetchMock)).not.toContain('http://metadata.example.com/latest/meta-data/')
+  })
+
+  it('reads only the first 500 KiB of robots.txt', async () => {
+    // Eight 64 KiB comment chunks pass the cap; the sitemap after them is never read
+    let pulls = 0
+    const chunk = new TextEncoder().encode(`# ${'x'.repeat(64 * 1024 - 3)}\n`)
+    stubSite({
+      [`${ORIGIN}/robots.txt`]: () =>
+        new Response(
+          new ReadableStream<Uint8Array>({
+            pull(controller) {
+              pulls++
+              controller.enqueue(
+                pulls > 8
+                  ? new TextEncoder().encode('Sitemap: https://example.com/late.xml\n')
+                  : chunk
+              )
+            },
+          })
+        ),
+      [`${ORIGIN}/sitemap.xml`]: () => new Response(urlset('https://www.example.com/')),
+    })
+
+    const result = await fetchSiteSitemaps(ORIGIN)
+
+    expect(result.robotsTxt).toHaveLength(500 * 1024)
+    expect(pulls).toBeLessThan(12)
+    expect(result.files.map((file) => file.url)).toEqual([`${ORIGIN}/sitemap.xml`])
+  })
+})
@@ -0,0 +1,178 @@
+/**
+ * Unit Tests for XML Sitemap and robots.txt Auditing
+ */
+
+import { describe, it, expect } from 'vitest'
+import { evaluateRobots, parseRobotsTxt } from '../robots-txt'
+import {
+  buildSitemapReport,
+  parseSitemapXml,
+  type SitemapAuditEntry,
+  type SitemapAuditPage,
+} from '../sitemaps'
+
+const SITE = 'https://example.com'
+
+function page(path: string, overrides: Partial<SitemapAuditPage> = {}): SitemapAuditPage {
+  return {
+    id: path,
+    url: `${SITE}${path}`,
+    title: null,
+    statusCode: 200,
+    isRedirect: false,
+    redirectLocation: null,
+    checks: null,
+    canonical: null,
+    clickDepth: 2,
+    ...overrides,
+  }
+}
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive user-agents and collects sitemaps', () => {
+    const robots = parseRobotsTxt(
+      [
+        'User-agent: Googlebot',
+        'User-agent: Bingbot',
+        'Disallow: /private # comment',
+        'Disallow:',
+        '',
+        'User-agent: *',
+        'Allow: /',
+        'Sitemap: https://example.com/sitemap_index.xml',
+      ].join('\n')
+    )
+
+    expect(robots.groups).toEqual([
+      { userAgents: ['googlebot', 'bingbot'], rules: [{ type: 'disallow', path: '/private' }] },
+      { userAgents: ['*'], rules: [{ type: 'allow', path: '/' }] },
+    ])
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap_index.xml'])
+  })
+})
+
+describe('evaluateRobots', () => {
+  const robots = parseRobotsTxt(
+    [
+      'User-agent: *',
+      'Disallow: /wp-admin/',
+      'Allow: /wp-admin/admin-ajax.php',
+      'Disallow: /*.pdf$',
+      'Disallow: /search',
+    ].join('\n')
+  )
+
+  it('applies the longest matching rule', () => {
+    expect(evaluateRobots(robots, `${SITE}/wp-admin/options.php`)).toEqual({
+      allowed: false,
+      rule: 'Disallow: /wp-admin/',
+    })
+    expect(evaluateRobots(robots, `${SITE}/wp-admin/admin-ajax.php`).allowed).toBe(true)
+  })
+
+  it('supports wildcards, end anchors and query strings', () => {
+    expect(evaluateRobots(robots, `${SITE}/files/price-list.pdf`).allowed).toBe(false)
+    expect(evaluateRobots(robots, `${SITE}/files/price-list.pdf?v=2`).allowed).toBe(true)
+    expect(evaluateRobots(robots, `${SITE}/search?q=implants`).allowed).toBe(false)
+    expect(evaluateRobots(robots, `${SITE}/services`)).toEqual({ allowed: true, rule: null })
+  })
+
+  it('prefers the crawler-specific group over the wildcard group', () => {
+    const specific = parseRobotsTxt(
+      'User-agent: *\nDisallow: /\n\nUser-agent: Googlebot\nDisallow: /tmp'
+    )
+
+    expect(evaluateRobots(specific, `${SITE}/services`).allowed).toBe(true)
+    expect(evaluateRobots(specific, `${SITE}/services`, 'Bingbot').allowed).toBe(false)
+  })
+})
+
+describe('parseSitemapXml', () => {
+  it('reads urlsets with CDATA and escaped entities', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc>https://example.com/</loc></url>
+        <url><loc><![CDATA[https://example.com/a?x=1&y=2]]></loc></url>
+        <url><loc> https://example.com/b?x=1&amp;y=2 </loc></url>
+      </urlset>`
+
+    expect(parseSitemapXml(xml)).toEqual({
+      type: 'urlset',
+      urls: [
+        'https://example.com/',
+        'https://example.com/a?x=1&y=2',
+        'https://example.com/b?x=1&y=2',
+      ],
+    })
+  })
+
+  it('reads sitemap indexes and rejects other documents', () => {
+    const xml =
+      '<sitemapindex><sitemap><loc>https://example.com/post-sitemap.xml.gz</loc></sitemap></sitemapindex>'
+
+    expect(parseSitemapXml(xml)).toEqual({
+      type: 'sitemapindex',
+      urls: ['https://example.com/post-sitemap.xml.gz'],
+    })
+    expect(parseSitemapXml('<html><body>Not found</body></html>')).toBeNull()
+  })
+})
+
+describe('buildSitemapReport', () => {
+  const pages = [
+    page('/', { clickDepth: 0 }),
+    page('/services', { clickDepth: 1 }),
+    page('/old', { statusCode: 301, isRedirect: true, redirectLocation: `${SITE}/services` }),
+    page('/gone', { statusCode: 404 }),
+    page('/thanks', { checks: { no_index: true } }),
+    page('/services?ref=nav', { canonical: `${SITE}/services` }),
+    page('/contact'),
+    page('/members', { clickDepth: 1 }),
+  ]
+  const byPath = new Map(pages.map((p) => [p.id, p]))
+  const entry = (path: string): SitemapAuditEntry => ({
+    url: `${SITE}${path}`,
+    sitemapUrl: `${SITE}/sitemap.xml`,
+    page: byPath.get(path) ?? null,
+  })
+  const entries = ['/', '/services', '/old', '/gone', '/thanks', '/new'].map(entry)
+  const robots = parseRobotsTxt('User-agent: *\nDisallow: /members\nDisallow: /new')
+
+  const report = buildSitemapReport(entries, pages, robots)
+
+  it('flags sitemap URLs that redirect, error, are not indexable or were not crawled', () => {
+    expect(report.sitemapIssues.map((row) => [row.url, row.issue, row.detail])).toEqual([
+      [`${SITE}/old`, 'redirect', `${SITE}/services`],
+      [`${SITE}/gone`, 'client_error', null],
+      [`${SITE}/thanks`, 'non_indexable', 'noindex tag'],
+      [`${SITE}/new`, 'not_crawled', null],
+    ])
+  })
+
+  it('lists indexable pages missing from the sitemap, skipping canonicalised variants', () => {
+    expect(report.missingFromSitemap.map((p) => p.url)).toEqual([
+      `${SITE}/contact`,
+      `${SITE}/members`,
+    ])
+  })
+
+  it('reports robots rules blocking sitemap URLs and shallow pages', () => {
+    expect(report.blockedByRobots).toEqual([
+      { url: `${SITE}/new`, rule: 'Disallow: /new', source: 'sitemap' },
+      { url: `${SITE}/members`, rule: 'Disallow: /members', source: 'linked' },
+    ])
+    expect(report.summary).toEqual({
+      sitemapUrls: 6,
+      redirects: 1,
+      errors: 1,
+      nonIndexable: 1,
+      notCrawled: 1,
+      missingFromSitemap: 2,
+      blockedByRobots: 2,
+    })
+  })
+
+  it('skips robots checks when the site has no robots.txt', () => {
+    expect(buildSitemapReport(entries, pages, null).blockedByRobots).toEqual([])
+  })
+})
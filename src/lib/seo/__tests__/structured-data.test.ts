@@ -0,0 +1,257 @@
+/**
+ * Unit Tests for Structured Data Validation
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildStructuredDataReport,
+  compareNap,
+  parseStructuredData,
+  toStructuredDataItems,
+  validateEntity,
+  validatePageStructuredData,
+  type NapReference,
+  type StructuredDataEntity,
+  type StructuredDataItem,
+} from '../structured-data'
+import { getVerticalPack } from '@/lib/verticals'
+
+function dentist(overrides: Partial<StructuredDataEntity['properties']> = {}): StructuredDataItem {
+  return {
+    format: 'json-ld',
+    types: ['Dentist'],
+    properties: {
+      name: ['Smile Dental Care'],
+      telephone: ['+1 (555) 123-4567'],
+      url: ['https://smiledental.com'],
+      image: ['https://smiledental.com/logo.png'],
+      priceRange: ['$$'],
+      openingHours: ['Mo-Fr 08:00-17:00'],
+      geo: [
+        { types: ['GeoCoordinates'], properties: { latitude: ['40.1'], longitude: ['-75.2'] } },
+      ],
+      address: [
+        {
+          types: ['PostalAddress'],
+          properties: {
+            streetAddress: ['123 Main St'],
+            addressLocality: ['Springfield'],
+            addressRegion: ['IL'],
+            postalCode: ['62701'],
+          },
+        },
+      ],
+      ...overrides,
+    },
+  }
+}
+
+const reference: NapReference = {
+  name: 'Smile Dental Care, DDS',
+  address: '123 Main St Suite 200, Springfield, IL 62701',
+  phone: '(555) 123-4567',
+}
+
+describe('toStructuredDataItems', () => {
+  it('converts Microdata endpoint items, nesting object fields and normalizing types', () => {
+    const items = toStructuredDataItems([
+      {
+        type: 'microdata',
+        inspection_info: {
+          types: ['http://schema.org/Dentist'],
+          fields: [
+            { name: 'name', value: 'Smile Dental Care' },
+            {
+              name: 'address',
+              types: ['http://schema.org/PostalAddress'],
+              fields: [{ name: 'postalCode', value: '62701' }],
+            },
+            { name: 'image', value: 'a.png' },
+            { name: 'image', value: 'b.png' },
+            { name: 'telephone', value: '' },
+          ],
+        },
+      },
+    ])
+
+    expect(items).toEqual([
+      {
+        format: 'microdata',
+        types: ['Dentist'],
+        properties: {
+          name: ['Smile Dental Care'],
+          address: [{ types: ['PostalAddress'], properties: { postalCode: ['62701'] } }],
+          image: ['a.png', 'b.png'],
+        },
+      },
+    ])
+  })
+})
+
+describe('validateEntity', () => {
+  it('accepts a complete LocalBusiness subtype', () => {
+    expect(validateEntity(dentist())).toEqual([])
+  })
+
+  it('reports missing required and recommended properties', () => {
+    const issues = validateEntity(dentist({ address: [], priceRange: [], openingHours: [] }))
+
+    expect(issues.map((i) => [i.kind, i.property])).toEqual([
+      ['missing_required', 'address'],
+      ['missing_recommended', 'openingHoursSpecification|openingHours'],
+      ['missing_recommended', 'priceRange'],
+    ])
+    expect(issues[0]?.message).toBe('Dentist is missing required address')
+  })
+
+  it('checks every FAQ question for an answer', () => {
+    const faq: StructuredDataEntity = {
+      types: ['FAQPage'],
+      properties: {
+        mainEntity: [
+          {
+            types: ['Question'],
+            properties: {
+              name: ['Do you take insurance?'],
+              acceptedAnswer: [{ types: ['Answer'], properties: { text: ['Yes'] } }],
+            },
+          },
+          { types: ['Question'], properties: { name: ['Are you open Saturdays?'] } },
+        ],
+      },
+    }
+
+    expect(validateEntity(faq).map((i) => i.message)).toEqual([
+      'FAQPage Question 2 is missing required acceptedAnswer.text',
+    ])
+  })
+
+  it('accepts breadcrumb names on the item and only requires itemReviewed standalone', () => {
+    const breadcrumbs: StructuredDataEntity = {
+      types: ['BreadcrumbList'],
+      properties: {
+        itemListElement: [
+          {
+            types: ['ListItem'],
+            properties: {
+              position: ['1'],
+              item: [{ types: ['Thing'], properties: { name: ['Home'] } }],
+            },
+          },
+        ],
+      },
+    }
+    const review: StructuredDataEntity = {
+      types: ['Review'],
+      properties: {
+        author: ['Jane'],
+        datePublished: ['2026-01-01'],
+        reviewRating: [{ types: ['Rating'], properties: { ratingValue: ['5'] } }],
+      },
+    }
+
+    expect(validateEntity(breadcrumbs)).toEqual([])
+    expect(validateEntity(review, { nested: true })).toEqual([])
+    expect(validateEntity(review).map((i) => i.property)).toEqual(['itemReviewed'])
+  })
+})
+
+describe('compareNap', () => {
+  it('matches formatting differences, suites and credentials', () => {
+    expect(compareNap(dentist(), reference, getVerticalPack('dental').businessName)).toEqual([])
+  })
+
+  it('reports mismatched name, phone and address', () => {
+    const issues = compareNap(
+      dentist({
+        name: ['Bright Teeth Studio'],
+        telephone: ['555-999-0000'],
+        address: ['456 Oak Ave, Springfield, IL 62704'],
+      }),
+      reference
+    )
+
+    expect(issues.map((i) => i.property)).toEqual(['name', 'telephone', 'address'])
+    expect(issues.every((i) => i.kind === 'nap_mismatch')).toBe(true)
+  })
+
+  it('skips fields missing on either side', () => {
+    expect(
+      compareNap(dentist({ telephone: [] }), { name: null, address: null, phone: '555-000-0000' })
+    ).toEqual([])
+  })
+})
+
+describe('validatePageStructuredData', () => {
+  it('ignores a nested LocalBusiness used as a reference', () => {
+    const review: StructuredDataItem = {
+      format: 'json-ld',
+      types: ['Review'],
+      properties: {
+        author: ['Jane'],
+        datePublished: ['2026-01-01'],
+        reviewRating: [{ types: ['Rating'], properties: { ratingValue: ['5'] } }],
+        itemReviewed: [{ types: ['Dentist'], properties: { name: ['Other Dental'] } }],
+      },
+    }
+
+    expect(validatePageStructuredData([review], reference)).toEqual([])
+  })
+})
+
+describe('buildStructuredDataReport', () => {
+  it('summarizes issues and lists pages without LocalBusiness markup', () => {
+    const report = buildStructuredDataReport(
+      [
+        {
+          id: 'home',
+          url: 'https://smiledental.com/',
+          title: 'Home',
+          structuredData: [dentist({ telephone: ['555-999-0000'] })],
+          hasMicromarkup: true,
+        },
+        {
+          id: 'faq',
+          url: 'https://smiledental.com/faq',
+          title: 'FAQ',
+          structuredData: [{ format: 'json-ld', types: ['FAQPage'], properties: {} }],
+          hasMicromarkup: true,
+        },
+        {
+          id: 'about',
+          url: 'https://smiledental.com/about',
+          title: null,
+          structuredData: null,
+          hasMicromarkup: false,
+        },
+        {
+          id: 'blog',
+          url: 'https://smiledental.com/blog',
+          title: null,
+          structuredData: null,
+          hasMicromarkup: true,
+        },
+      ],
+      reference
+    )
+
+    expect(report.pagesWithoutLocalBusiness.map((p) => p.id)).toEqual(['faq', 'about'])
+    expect(report.pages.map((p) => p.id)).toEqual(['home', 'faq'])
+    expect(report.summary).toEqual({
+      pagesWithStructuredData: 2,
+      pagesNotInspected: 1,
+      pagesWithLocalBusiness: 1,
+      missingRequired: 1,
+      missingRecommended: 0,
+      napMismatches: 1,
+      byType: { Dentist: 1, FAQPage: 1 },
+    })
+  })
+})
+
+describe('parseStructuredData', () => {
+  it('returns null for pages that were not inspected', () => {
+    expect(parseStructuredData(null)).toBeNull()
+    expect(parseStructuredData([dentist()])).toEqual([dentist()])
+  })
+})
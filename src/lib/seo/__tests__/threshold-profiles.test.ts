@@ -0,0 +1,107 @@
+/**
+ * Unit Tests for SEO Threshold Profiles
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildThresholdProfile,
+  DEFAULT_THRESHOLD_PROFILE,
+  reclassifyChecks,
+  resolveThresholdProfile,
+  THRESHOLD_PROFILE_PRESETS,
+  thresholdProfileConfigSchema,
+} from '../threshold-profiles'
+import { diffSiteAuditScans } from '../site-audit-diff'
+import { ISSUE_SEVERITY_CONFIG, SEO_THRESHOLDS } from '@/lib/constants/seo-thresholds'
+
+describe('resolveThresholdProfile', () => {
+  it('returns the baseline when no profile is stored', () => {
+    expect(resolveThresholdProfile(null)).toBe(DEFAULT_THRESHOLD_PROFILE)
+  })
+
+  it('fills values missing from a stored profile from the baseline', () => {
+    const profile = resolveThresholdProfile({
+      thresholds: { title: { minLength: 20 }, content: { minWordCount: 'lots' } },
+    })
+
+    expect(profile.thresholds.title).toEqual({
+      minLength: 20,
+      maxLength: SEO_THRESHOLDS.title.maxLength,
+    })
+    expect(profile.thresholds.content.minWordCount).toBe(SEO_THRESHOLDS.content.minWordCount)
+    expect(profile.weights).toEqual(DEFAULT_THRESHOLD_PROFILE.weights)
+    expect(profile.severity).toEqual(ISSUE_SEVERITY_CONFIG)
+  })
+
+  it('ignores stored severity lists that are not valid as a whole', () => {
+    const profile = resolveThresholdProfile({
+      severity: { errors: ['noTitle', 'notACheck'], warnings: [], notices: [] },
+    })
+
+    expect(profile.severity).toEqual(ISSUE_SEVERITY_CONFIG)
+  })
+})
+
+describe('reclassifyChecks', () => {
+  it('moves checks between severity buckets', () => {
+    const severity = reclassifyChecks(ISSUE_SEVERITY_CONFIG, { noH1Tag: 'warning' })
+
+    expect(severity.errors).not.toContain('noH1Tag')
+    expect(severity.warnings).toContain('noH1Tag')
+    expect(severity.notices).toEqual(ISSUE_SEVERITY_CONFIG.notices)
+  })
+})
+
+describe('thresholdProfileConfigSchema', () => {
+  it('accepts the baseline profile', () => {
+    expect(thresholdProfileConfigSchema.safeParse(DEFAULT_THRESHOLD_PROFILE).success).toBe(true)
+  })
+
+  it('rejects a check listed under two severities', () => {
+    const result = thresholdProfileConfigSchema.safeParse({
+      ...DEFAULT_THRESHOLD_PROFILE,
+      severity: {
+        ...ISSUE_SEVERITY_CONFIG,
+        notices: [...ISSUE_SEVERITY_CONFIG.notices, 'noTitle'],
+      },
+    })
+
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects ranges where good exceeds moderate', () => {
+    const result = thresholdProfileConfigSchema.safeParse({
+      ...DEFAULT_THRESHOLD_PROFILE,
+      thresholds: {
+        ...SEO_THRESHOLDS,
+        coreWebVitals: { ...SEO_THRESHOLDS.coreWebVitals, lcp: { good: 5000, moderate: 2500 } },
+      },
+    })
+
+    expect(result.success).toBe(false)
+  })
+
+  it('accepts every preset', () => {
+    for (const preset of Object.values(THRESHOLD_PROFILE_PRESETS)) {
+      const config = buildThresholdProfile(preset.overrides)
+      expect(thresholdProfileConfigSchema.safeParse(config).success).toBe(true)
+    }
+  })
+})
+
+describe('diffSiteAuditScans with a profile', () => {
+  it('reports issue severities from the given severity config', () => {
+    const pages = (issueTypes: string[]) => [
+      { urlHash: 'a', url: '/a', statusCode: 200, onpageScore: 90, issueTypes },
+    ]
+    const ecommerce = buildThresholdProfile(THRESHOLD_PROFILE_PRESETS.ecommerce.overrides)
+
+    const diff = diffSiteAuditScans(
+      { summary: null, pages: pages([]) },
+      { summary: null, pages: pages(['duplicateTitle']) },
+      { severity: ecommerce.severity }
+    )
+
+    expect(diff.issues[0]).toMatchObject({ issueType: 'duplicateTitle', severity: 'notice' })
+  })
+})
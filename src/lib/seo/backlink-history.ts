@@ -0,0 +1,155 @@
+/**
+ * Backlink Profile History
+ *
+ * Every backlink refresh is stored as a dated snapshot with its top referring
+ * domains. These helpers diff the referring domain sets of two snapshots and
+ * turn a run of snapshots into trend points with new/lost counts.
+ *
+ * Snapshots only keep the top referring domains by rank, so a domain can drop
+ * out of the stored set without actually being lost. Diffs involving a
+ * snapshot whose stored set doesn't cover the whole profile are flagged
+ * `partial`.
+ */
+
+export interface SnapshotReferringDomain {
+  domain: string
+  backlinks: number
+  domainRank: number
+  dofollow: number
+  nofollow: number
+  firstSeen: string | null
+}
+
+export interface BacklinkSnapshot<TDomain extends { domain: string } = SnapshotReferringDomain> {
+  id: string
+  fetchedAt: string
+  totalBacklinks: number
+  referringDomainsCount: number
+  domainRank: number
+  spamScore: number
+  /** Stored referring domains, or null when they weren't fetched for this snapshot */
+  referringDomains: TDomain[] | null
+}
+
+export interface ReferringDomainDiff<TDomain extends { domain: string } = SnapshotReferringDomain> {
+  newDomains: TDomain[]
+  lostDomains: TDomain[]
+  /** At least one snapshot stores only part of its referring domains */
+  partial: boolean
+}
+
+export interface BacklinkTrendPoint {
+  snapshotId: string
+  fetchedAt: string
+  totalBacklinks: number
+  referringDomains: number
+  domainRank: number
+  spamScore: number
+  /** Null for the first snapshot, or when either side has no stored domains */
+  newReferringDomains: number | null
+  lostReferringDomains: number | null
+  partial: boolean
+}
+
+/**
+ * Comparable form of a referring domain: lowercase, without a leading `www.`
+ */
+export function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^www\./, '')
+}
+
+/**
+ * Whether a snapshot's stored referring domains cover its whole profile
+ */
+export function isCompleteSnapshot(snapshot: BacklinkSnapshot<{ domain: string }>): boolean {
+  return (
+    snapshot.referringDomains !== null &&
+    snapshot.referringDomains.length >= snapshot.referringDomainsCount
+  )
+}
+
+/**
+ * Referring domains that appear in `current` but not `previous` (new) and
+ * the other way round (lost). Matching ignores case and a leading `www.`.
+ */
+export function diffReferringDomains<TDomain extends { domain: string }>(
+  previous: TDomain[],
+  current: TDomain[]
+): { newDomains: TDomain[]; lostDomains: TDomain[] } {
+  const previousSet = new Set(previous.map((d) => normalizeDomain(d.domain)))
+  const currentSet = new Set(current.map((d) => normalizeDomain(d.domain)))
+
+  return {
+    newDomains: current.filter((d) => !previousSet.has(normalizeDomain(d.domain))),
+    lostDomains: previous.filter((d) => !currentSet.has(normalizeDomain(d.domain))),
+  }
+}
+
+/**
+ * Diff two snapshots. Returns null when either has no stored referring domains.
+ */
+export function diffSnapshots<TDomain extends { domain: string }>(
+  previous: BacklinkSnapshot<TDomain>,
+  current: BacklinkSnapshot<TDomain>
+): ReferringDomainDiff<TDomain> | null {
+  if (!previous.referringDomains || !current.referringDomains) return null
+
+  return {
+    ...diffReferringDomains(previous.referringDomains, current.referringDomains),
+    partial: !isCompleteSnapshot(previous) || !isCompleteSnapshot(current),
+  }
+}
+
+/**
+ * Trend points for snapshots in chronological order. Each point's new/lost
+ * counts compare it with the closest earlier snapshot that has stored domains.
+ */
+export function buildBacklinkTrend<TDomain extends { domain: string }>(
+  snapshots: BacklinkSnapshot<TDomain>[]
+): BacklinkTrendPoint[] {
+  let baseline: BacklinkSnapshot<TDomain> | null = null
+
+  return snapshots.map((snapshot) => {
+    const diff = baseline ? diffSnapshots(baseline, snapshot) : null
+    if (snapshot.referringDomains) {
+      baseline = snapshot
+    }
+
+    return {
+      snapshotId: snapshot.id,
+      fetchedAt: snapshot.fetchedAt,
+      totalBacklinks: snapshot.totalBacklinks,
+      referringDomains: snapshot.referringDomainsCount,
+      domainRank: snapshot.domainRank,
+      spamScore: snapshot.spamScore,
+      newReferringDomains: diff ? diff.newDomains.length : null,
+      lostReferringDomains: diff ? diff.lostDomains.length : null,
+      partial: diff?.partial ?? false,
+    }
+  })
+}
+
+/**
+ * Lost referring domains at or above `minRank` that are really gone. When the
+ * current snapshot only stores its top domains, a domain ranked below the
+ * lowest stored rank may just have dropped out of the stored set, so only
+ * losses ranked above that cut-off are trusted.
+ */
+export function findLostHighRankDomains<TDomain extends { domain: string; domainRank: number }>(
+  diff: ReferringDomainDiff<TDomain>,
+  current: BacklinkSnapshot<TDomain>,
+  minRank: number
+): TDomain[] {
+  const stored = current.referringDomains ?? []
+  const cutoff =
+    isCompleteSnapshot(current) || stored.length === 0
+      ? minRank
+      : Math.max(minRank, Math.min(...stored.map((d) => d.domainRank)) + 1)
+
+  return diff.lostDomains
+    .filter((d) => d.domainRank >= cutoff)
+    .sort((a, b) => b.domainRank - a.domainRank)
+}
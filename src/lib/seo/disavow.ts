@@ -0,0 +1,158 @@
+/**
+ * Backlink Disavow Helpers
+ *
+ * Turns backlinks and spam scores into toxic disavow candidates and renders
+ * Google's disavow file format: one `domain:example.com` or URL per line,
+ * with `#` comment lines.
+ *
+ * A referring domain is a candidate when its own spam score reaches the
+ * threshold. Otherwise its individual backlinks are candidates when their
+ * backlink spam score does, so one bad page doesn't disavow a whole site.
+ */
+
+export type DisavowEntryType = 'DOMAIN' | 'URL'
+
+/**
+ * The backlink fields the candidate builder reads
+ */
+export interface DisavowBacklink {
+  domainFrom: string
+  urlFrom: string
+  domainFromRank: number | null
+  backlinkSpamScore: number | null
+  dofollow: boolean
+}
+
+export interface DisavowCandidate {
+  type: DisavowEntryType
+  value: string
+  referringDomain: string
+  spamScore: number
+  domainRank: number | null
+  backlinks: number
+  dofollowBacklinks: number
+}
+
+/**
+ * An entry chosen for the disavow file
+ */
+export interface DisavowFileEntry {
+  type: DisavowEntryType
+  value: string
+  reason: string | null
+}
+
+/** Spam score (0-100) at which a domain or backlink is treated as toxic */
+export const DEFAULT_TOXIC_SPAM_SCORE = 60
+
+/**
+ * Lowercase host without a leading `www.`, as used in `domain:` lines
+ */
+export function normalizeDisavowDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/^www\./, '')
+}
+
+/**
+ * Toxic referring domains and URLs from a set of backlinks. `domainSpamScores`
+ * maps normalised referring domains to their spam score.
+ */
+export function buildDisavowCandidates(
+  backlinks: DisavowBacklink[],
+  domainSpamScores: Map<string, number>,
+  threshold: number = DEFAULT_TOXIC_SPAM_SCORE
+): DisavowCandidate[] {
+  const byDomain = new Map<string, DisavowBacklink[]>()
+  for (const link of backlinks) {
+    const domain = normalizeDisavowDomain(link.domainFrom)
+    if (!domain) continue
+    byDomain.set(domain, [...(byDomain.get(domain) ?? []), link])
+  }
+
+  const candidates: DisavowCandidate[] = []
+
+  for (const [domain, links] of byDomain) {
+    const domainScore = domainSpamScores.get(domain)
+    const domainRank = maxOrNull(links.map((l) => l.domainFromRank))
+
+    if (domainScore !== undefined && domainScore >= threshold) {
+      candidates.push({
+        type: 'DOMAIN',
+        value: domain,
+        referringDomain: domain,
+        spamScore: domainScore,
+        domainRank,
+        backlinks: links.length,
+        dofollowBacklinks: links.filter((l) => l.dofollow).length,
+      })
+      continue
+    }
+
+    const byUrl = new Map<string, DisavowBacklink[]>()
+    for (const link of links) {
+      if ((link.backlinkSpamScore ?? 0) < threshold) continue
+      byUrl.set(link.urlFrom, [...(byUrl.get(link.urlFrom) ?? []), link])
+    }
+
+    for (const [url, urlLinks] of byUrl) {
+      candidates.push({
+        type: 'URL',
+        value: url,
+        referringDomain: domain,
+        spamScore: Math.max(...urlLinks.map((l) => l.backlinkSpamScore ?? 0)),
+        domainRank,
+        backlinks: urlLinks.length,
+        dofollowBacklinks: urlLinks.filter((l) => l.dofollow).length,
+      })
+    }
+  }
+
+  return candidates.sort((a, b) => b.spamScore - a.spamScore)
+}
+
+function maxOrNull(values: Array<number | null>): number | null {
+  const present = values.filter((v): v is number => v !== null)
+  return present.length > 0 ? Math.max(...present) : null
+}
+
+/**
+ * Render a Google disavow file. Domain lines come first, then URLs covered by
+ * no disavowed domain, each preceded by its reason as a comment.
+ */
+export function buildDisavowFile(
+  entries: DisavowFileEntry[],
+  options: { site: string; generatedAt?: Date }
+): string {
+  const generatedAt = options.generatedAt ?? new Date()
+  const domains = entries.filter((e) => e.type === 'DOMAIN')
+  const domainSet = new Set(domains.map((e) => normalizeDisavowDomain(e.value)))
+  const urls = entries.filter(
+    (e) => e.type === 'URL' && !domainSet.has(normalizeDisavowDomain(e.value))
+  )
+
+  const lines = [
+    `# Disavow file for ${options.site}`,
+    `# Generated ${generatedAt.toISOString()}`,
+    `# ${domainSet.size} domains, ${urls.length} URLs`,
+  ]
+
+  const seen = new Set<string>()
+  for (const entry of [...domains, ...urls]) {
+    const line =
+      entry.type === 'DOMAIN' ? `domain:${normalizeDisavowDomain(entry.value)}` : entry.value.trim()
+    if (seen.has(line)) continue
+    seen.add(line)
+
+    lines.push('')
+    if (entry.reason) {
+      lines.push(...entry.reason.split(/\r?\n/).map((r) => `# ${r}`))
+    }
+    lines.push(line)
+  }
+
+  return `${lines.join('\n')}\n`
+}
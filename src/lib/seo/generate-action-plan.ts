@@ -1,4 +1,5 @@
 import { LOCAL_SEO_RECOMMENDATIONS } from '@/lib/constants/local-seo-recommendations'
+import { DEFAULT_THRESHOLD_PROFILE, type ThresholdProfileConfig } from './threshold-profiles'
 
 export interface ActionItem {
   id: string
@@ -22,17 +23,24 @@ interface AuditStepResults {
 }
 
 /**
- * Generate actionable SEO recommendations from audit data
+ * Generate actionable SEO recommendations from audit data, judged against
+ * the domain's threshold profile
  */
-export function generateActionPlan(auditData: AuditStepResults): ActionItem[] {
+export function generateActionPlan(
+  auditData: AuditStepResults,
+  profile: ThresholdProfileConfig = DEFAULT_THRESHOLD_PROFILE
+): ActionItem[] {
   const items: ActionItem[] = []
+  const { thresholds } = profile
 
   // TECHNICAL SEO CHECKS
   if (auditData.onPage) {
     const onPage = auditData.onPage
 
-    // Page Speed
+    // Page Speed (LCP in seconds; thresholds are in ms)
     const lcp = onPage.page_timing?.lcp || onPage.pagespeed?.lcp || 0
+    const lcpGood = thresholds.coreWebVitals.lcp.good / 1000
+    const lcpModerate = thresholds.coreWebVitals.lcp.moderate / 1000
     const fcp = onPage.page_timing?.fcp || onPage.pagespeed?.fcp || 0
     const recommendation = LOCAL_SEO_RECOMMENDATIONS[0]?.items[0] // page-speed
     if (!recommendation) return items
@@ -42,18 +50,18 @@ export function generateActionPlan(auditData: AuditStepResults): ActionItem[] {
       section: 'technical',
       sectionTitle: 'Technical SEO',
       title: recommendation.title,
-      status: lcp === 0 ? 'warning' : lcp < 2.5 ? 'good' : lcp < 4 ? 'warning' : 'critical',
+      status: lcp === 0 ? 'warning' : lcp < lcpGood ? 'good' : lcp < lcpModerate ? 'warning' : 'critical',
       why: recommendation.why,
       action:
         lcp === 0
           ? 'Unable to measure page speed. Ensure the site is accessible.'
-          : lcp < 2.5
+          : lcp < lcpGood
             ? recommendation.actions.good
-            : lcp < 4
+            : lcp < lcpModerate
               ? recommendation.actions.warning
               : recommendation.actions.critical,
       details: lcp === 0 ? ['Page speed data not available'] : [`LCP: ${lcp.toFixed(2)}s`, `FCP: ${fcp.toFixed(2)}s`],
-      priority: lcp > 4 ? 1 : lcp > 2.5 ? 3 : 10,
+      priority: lcp > lcpModerate ? 1 : lcp > lcpGood ? 3 : 10,
       value: lcp,
     })
 
@@ -171,6 +179,7 @@ export function generateActionPlan(auditData: AuditStepResults): ActionItem[] {
     // Meta Description
     const hasDescription = onPage.checks?.has_meta_description !== false
     const descLength = onPage.meta_description?.length || 0
+    const { minLength: descMin, maxLength: descMax } = thresholds.description
     const descRec = LOCAL_SEO_RECOMMENDATIONS[1]?.items[1] // meta-descriptions
     if (!descRec) return items
 
@@ -179,18 +188,21 @@ export function generateActionPlan(auditData: AuditStepResults): ActionItem[] {
       section: 'onsite',
       sectionTitle: 'On-Site Optimization',
       title: descRec.title,
-      status: hasDescription && descLength >= 150 ? 'good' : hasDescription ? 'warning' : 'critical',
+      status: hasDescription && descLength >= descMin ? 'good' : hasDescription ? 'warning' : 'critical',
       why: descRec.why,
       action:
-        hasDescription && descLength >= 150
+        hasDescription && descLength >= descMin
           ? descRec.actions.good
           : hasDescription
             ? descRec.actions.warning
             : descRec.actions.critical,
       details: hasDescription
-        ? [`${descLength} characters`, descLength < 150 ? 'Expand to 150-160 characters' : 'Good length']
+        ? [
+            `${descLength} characters`,
+            descLength < descMin ? `Expand to ${descMin}-${descMax} characters` : 'Good length',
+          ]
         : ['Meta description missing'],
-      priority: !hasDescription ? 3 : descLength < 100 ? 5 : 10,
+      priority: !hasDescription ? 3 : descLength < descMin ? 5 : 10,
       value: descLength,
     })
 
@@ -214,6 +226,7 @@ export function generateActionPlan(auditData: AuditStepResults): ActionItem[] {
 
     // Content Length
     const wordCount = onPage.content?.word_count || onPage.word_count || 0
+    const { minWordCount, targetWordCount } = thresholds.content
     const contentRec = LOCAL_SEO_RECOMMENDATIONS[1]?.items[4] // content-optimization
     if (!contentRec) return items
 
@@ -222,15 +235,19 @@ export function generateActionPlan(auditData: AuditStepResults): ActionItem[] {
       section: 'onsite',
       sectionTitle: 'On-Site Optimization',
       title: contentRec.title,
-      status: wordCount >= 1000 ? 'good' : wordCount >= 500 ? 'warning' : 'critical',
+      status: wordCount >= targetWordCount ? 'good' : wordCount >= minWordCount ? 'warning' : 'critical',
       why: contentRec.why,
       action:
-        wordCount >= 1000 ? contentRec.actions.good : wordCount >= 500 ? contentRec.actions.warning : contentRec.actions.critical,
+        wordCount >= targetWordCount
+          ? contentRec.actions.good
+          : wordCount >= minWordCount
+            ? contentRec.actions.warning
+            : contentRec.actions.critical,
       details:
-        wordCount >= 1000
+        wordCount >= targetWordCount
           ? [`${wordCount} words - comprehensive`]
-          : [`${wordCount} words - expand to 1000+`, 'Add: service details, FAQs, benefits, local mentions'],
-      priority: wordCount < 500 ? 3 : wordCount < 1000 ? 6 : 10,
+          : [`${wordCount} words - expand to ${targetWordCount}+`, 'Add: service details, FAQs, benefits, local mentions'],
+      priority: wordCount < minWordCount ? 3 : wordCount < targetWordCount ? 6 : 10,
       value: wordCount,
     })
   }
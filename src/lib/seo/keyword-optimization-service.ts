@@ -12,6 +12,7 @@ import { getDataForSEOClient } from '@/lib/dataforseo/client'
 import { LabsModule } from '@/lib/dataforseo/modules/labs'
 import { SerpModule } from '@/lib/dataforseo/modules/serp'
 import { BacklinksModule } from '@/lib/dataforseo/modules/backlinks'
+import { getVerticalPack, hasVolumeRestrictedTerm, type VerticalPack } from '@/lib/verticals'
 
 // Types for the audit data
 export interface KeywordOptimizationData {
@@ -71,30 +72,16 @@ export interface KeywordOptimizationData {
 }
 
 /**
- * Check if a keyword is a "dentist + city" pattern that may need historical fallback
+ * Check if a keyword is a restricted term + city pattern (e.g. "dentist
+ * chicago") that may need historical fallback
  */
-function isDentistCityKeyword(keyword: string): boolean {
+function isVolumeRestrictedLocalKeyword(keyword: string, vertical: VerticalPack): boolean {
   const normalizedKeyword = keyword.toLowerCase().trim()
 
-  // Common dental + location patterns
-  const dentalTerms = [
-    'dentist',
-    'dental',
-    'dentistry',
-    'orthodontist',
-    'periodontist',
-    'endodontist',
-    'oral surgeon',
-    'cosmetic dentist',
-    'pediatric dentist',
-    'family dentist',
-    'emergency dentist',
-  ]
-
-  // Check if keyword contains a dental term
-  const hasDentalTerm = dentalTerms.some((term) => normalizedKeyword.includes(term))
+  // Check if keyword contains one of the vertical's restricted terms
+  const hasRestrictedTerm = hasVolumeRestrictedTerm(normalizedKeyword, vertical)
 
-  if (!hasDentalTerm) return false
+  if (!hasRestrictedTerm) return false
 
   // Check for location patterns (city names, state abbreviations, "near me")
   // Keywords like "dentist chicago", "dentist in chicago", "dentist chicago il"
@@ -107,13 +94,13 @@ function isDentistCityKeyword(keyword: string): boolean {
 
   const hasLocationPattern = locationPatterns.some((pattern) => pattern.test(normalizedKeyword))
 
-  // If it has a dental term and either has a location pattern OR is just "dentist <word>"
+  // If it has a restricted term and either has a location pattern OR is just "dentist <word>"
   // (which is likely "dentist cityname")
   if (hasLocationPattern) return true
 
-  // Check for simple "dentist cityname" pattern (2-3 words with dental term)
+  // Check for simple "dentist cityname" pattern (2-3 words with restricted term)
   const words = normalizedKeyword.split(/\s+/)
-  if (words.length >= 2 && words.length <= 4 && hasDentalTerm) {
+  if (words.length >= 2 && words.length <= 4 && hasRestrictedTerm) {
     return true
   }
 
@@ -172,7 +159,8 @@ function extractDomain(url: string): string {
 export async function gatherKeywordOptimizationData(
   url: string,
   targetKeyword: string,
-  locationName?: string
+  locationName?: string,
+  vertical: VerticalPack = getVerticalPack()
 ): Promise<KeywordOptimizationData> {
   const client = getDataForSEOClient()
   const labs = new LabsModule(client)
@@ -346,8 +334,8 @@ export async function gatherKeywordOptimizationData(
     cpc = rankedMatch.cpc
   }
 
-  // If no volume found and it's a dentist+city keyword, try historical
-  if (searchVolume === null && isDentistCityKeyword(targetKeyword)) {
+  // If no volume found and it's a restricted local keyword, try historical
+  if (searchVolume === null && isVolumeRestrictedLocalKeyword(targetKeyword, vertical)) {
     try {
       const historicalData = await labs.getHistoricalKeywordData({
         keywords: [targetKeyword],
@@ -400,9 +388,9 @@ export async function gatherKeywordOptimizationData(
       intent: null, // Intent not available in keyword suggestions response
     }))
 
-    // For suggestions with null volume that are dentist+city, try historical
+    // For suggestions with null volume that are restricted local keywords, try historical
     const needsHistorical = keywordOpportunities.filter(
-      (k) => k.searchVolume === null && isDentistCityKeyword(k.keyword)
+      (k) => k.searchVolume === null && isVolumeRestrictedLocalKeyword(k.keyword, vertical)
     )
 
     if (needsHistorical.length > 0) {
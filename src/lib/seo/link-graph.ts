@@ -0,0 +1,219 @@
+/**
+ * Internal Link Graph
+ *
+ * Analysis of the internal anchor links found during a site crawl: inbound
+ * and outbound link counts, click depth from the start URL and an internal
+ * PageRank-style score per page, plus orphan and underlinked page detection.
+ */
+
+export interface LinkGraphLink {
+  source: string
+  target: string
+  anchor: string | null
+  dofollow: boolean
+}
+
+export interface PageLinkMetrics {
+  /** Distinct pages linking to this page */
+  inboundLinks: number
+  /** Distinct pages this page links to */
+  outboundLinks: number
+  /** Clicks from the start URL; null when unreachable by links */
+  clickDepth: number | null
+  /** Internal PageRank scaled so the strongest page scores 100 */
+  linkScore: number
+}
+
+const DAMPING = 0.85
+const ITERATIONS = 30
+
+/**
+ * Key used to match link targets to crawled pages: no fragment, lowercase
+ * host and no trailing slash on non-root paths
+ */
+export function normalizeLinkUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    parsed.hash = ''
+    if (parsed.pathname.length > 1) parsed.pathname = parsed.pathname.replace(/\/+$/, '')
+    return parsed.toString()
+  } catch {
+    return url.split('#')[0] ?? url
+  }
+}
+
+/**
+ * Anchor text as stored: whitespace collapsed, null when empty
+ */
+export function normalizeAnchor(text: string | null | undefined): string | null {
+  const anchor = text?.replace(/\s+/g, ' ').trim().slice(0, 500)
+  return anchor || null
+}
+
+/**
+ * Start page of the crawl: the start URL when it was crawled, otherwise
+ * the shortest crawled URL (usually the homepage)
+ */
+function resolveStart(keys: string[], startUrl: string | null): string | undefined {
+  const start = startUrl ? normalizeLinkUrl(startUrl) : null
+  if (start && keys.includes(start)) return start
+  return [...keys].sort((a, b) => a.length - b.length)[0]
+}
+
+function pageRank(keys: string[], edges: Map<string, Set<string>>): Map<string, number> {
+  const n = keys.length
+  let ranks = new Map(keys.map((key) => [key, 1 / n]))
+
+  for (let i = 0; i < ITERATIONS; i++) {
+    // Pages without outgoing links spread their rank over every page
+    let dangling = 0
+    for (const key of keys) {
+      if ((edges.get(key)?.size ?? 0) === 0) dangling += ranks.get(key) ?? 0
+    }
+
+    const next = new Map(keys.map((key) => [key, (1 - DAMPING) / n + (DAMPING * dangling) / n]))
+    for (const [source, targets] of edges) {
+      const share = ((ranks.get(source) ?? 0) * DAMPING) / targets.size
+      for (const target of targets) next.set(target, (next.get(target) ?? 0) + share)
+    }
+    ranks = next
+  }
+
+  return ranks
+}
+
+/**
+ * Link metrics for each crawled page, keyed by the page URL as given.
+ * Links to or from uncrawled URLs and self-links are ignored; only
+ * dofollow links pass PageRank.
+ */
+export function analyzeLinkGraph(
+  pageUrls: string[],
+  links: LinkGraphLink[],
+  startUrl: string | null
+): Map<string, PageLinkMetrics> {
+  const urlByKey = new Map<string, string>()
+  for (const url of pageUrls) {
+    const key = normalizeLinkUrl(url)
+    if (!urlByKey.has(key)) urlByKey.set(key, url)
+  }
+  const keys = [...urlByKey.keys()]
+
+  const outgoing = new Map<string, Set<string>>()
+  const incoming = new Map<string, Set<string>>()
+  const followed = new Map<string, Set<string>>()
+
+  for (const link of links) {
+    const source = normalizeLinkUrl(link.source)
+    const target = normalizeLinkUrl(link.target)
+    if (source === target || !urlByKey.has(source) || !urlByKey.has(target)) continue
+
+    if (!outgoing.has(source)) outgoing.set(source, new Set())
+    if (!incoming.has(target)) incoming.set(target, new Set())
+    outgoing.get(source)!.add(target)
+    incoming.get(target)!.add(source)
+    if (link.dofollow) {
+      if (!followed.has(source)) followed.set(source, new Set())
+      followed.get(source)!.add(target)
+    }
+  }
+
+  // Breadth-first search from the start page for click depth
+  const depths = new Map<string, number>()
+  const start = resolveStart(keys, startUrl)
+  if (start) {
+    depths.set(start, 0)
+    const queue = [start]
+    for (let i = 0; i < queue.length; i++) {
+      const current = queue[i]!
+      for (const target of outgoing.get(current) ?? []) {
+        if (depths.has(target)) continue
+        depths.set(target, depths.get(current)! + 1)
+        queue.push(target)
+      }
+    }
+  }
+
+  const ranks = keys.length > 0 ? pageRank(keys, followed) : new Map<string, number>()
+  const maxRank = [...ranks.values()].reduce((max, rank) => Math.max(max, rank), 0)
+
+  const metrics = new Map<string, PageLinkMetrics>()
+  for (const key of keys) {
+    metrics.set(urlByKey.get(key)!, {
+      inboundLinks: incoming.get(key)?.size ?? 0,
+      outboundLinks: outgoing.get(key)?.size ?? 0,
+      clickDepth: depths.get(key) ?? null,
+      linkScore: maxRank > 0 ? Math.round(((ranks.get(key) ?? 0) / maxRank) * 10000) / 100 : 0,
+    })
+  }
+
+  return metrics
+}
+
+// ============================================
+// Report
+// ============================================
+
+export interface LinkGraphPage extends PageLinkMetrics {
+  id: string
+  url: string
+  title: string | null
+}
+
+export interface LinkGraphSummary {
+  /** Pages no crawled page links to (excluding the start page) */
+  orphans: LinkGraphPage[]
+  /** Linked-to pages with fewer inbound links than the threshold */
+  underlinked: LinkGraphPage[]
+  /** Page count per click depth; unreachable pages under `unreachable` */
+  depthDistribution: Record<string, number>
+  maxDepth: number | null
+  avgDepth: number | null
+}
+
+export function summarizeLinkGraph(
+  pages: LinkGraphPage[],
+  minInboundLinks: number
+): LinkGraphSummary {
+  const linkable = pages.filter((page) => page.clickDepth !== 0)
+  const depths = pages.flatMap((page) => (page.clickDepth === null ? [] : [page.clickDepth]))
+
+  const depthDistribution: Record<string, number> = {}
+  for (const page of pages) {
+    const key = page.clickDepth === null ? 'unreachable' : String(page.clickDepth)
+    depthDistribution[key] = (depthDistribution[key] ?? 0) + 1
+  }
+
+  return {
+    orphans: linkable.filter((page) => page.inboundLinks === 0),
+    underlinked: linkable.filter(
+      (page) => page.inboundLinks > 0 && page.inboundLinks < minInboundLinks
+    ),
+    depthDistribution,
+    maxDepth: depths.length > 0 ? depths.reduce((max, d) => Math.max(max, d), 0) : null,
+    avgDepth:
+      depths.length > 0
+        ? Math.round((depths.reduce((sum, d) => sum + d, 0) / depths.length) * 10) / 10
+        : null,
+  }
+}
+
+export interface AnchorTextCount {
+  /** Null for links without anchor text (e.g. image links) */
+  anchor: string | null
+  count: number
+}
+
+export interface LinkGraphReportPage extends LinkGraphPage {
+  /** Most used anchor texts pointing at the page */
+  anchors: AnchorTextCount[]
+}
+
+export interface LinkGraphReport extends LinkGraphSummary {
+  /** False for crawls that ran before link analysis existed */
+  analysed: boolean
+  totalLinks: number
+  minInboundLinks: number
+  /** Indexable pages, strongest link score first */
+  pages: LinkGraphReportPage[]
+}
@@ -0,0 +1,76 @@
+/**
+ * Link Prospect Pipeline
+ *
+ * Outreach stages for link-building prospects and the matching used to
+ * verify that a prospect's link has appeared in a backlink refresh.
+ */
+
+import { normalizeDomain } from './backlink-history'
+
+export const LINK_PROSPECT_STAGES = [
+  'PROSPECT',
+  'CONTACTED',
+  'NEGOTIATING',
+  'WON',
+  'LOST',
+] as const
+
+export type LinkProspectStage = (typeof LINK_PROSPECT_STAGES)[number]
+
+export const LINK_PROSPECT_STAGE_LABELS: Record<LinkProspectStage, string> = {
+  PROSPECT: 'Prospect',
+  CONTACTED: 'Contacted',
+  NEGOTIATING: 'Negotiating',
+  WON: 'Won',
+  LOST: 'Lost',
+}
+
+/**
+ * Stages in which a prospect's link can still be verified. Prospects that
+ * were marked lost are skipped, as are ones never contacted.
+ */
+export const VERIFIABLE_STAGES: readonly LinkProspectStage[] = ['CONTACTED', 'NEGOTIATING', 'WON']
+
+/**
+ * Bare host for a prospect entered as a domain or pasted as a URL: lowercase,
+ * without scheme, credentials, port, path or a leading `www.`
+ */
+export function normalizeProspectDomain(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/^.*@/, '')
+    .replace(/:\d*$/, '')
+    .replace(/^www\./, '')
+}
+
+/**
+ * Whether a referring domain is the prospect or one of its subdomains
+ * (or the other way round), ignoring case and a leading `www.`
+ */
+export function matchesProspectDomain(prospectDomain: string, referringDomain: string): boolean {
+  const prospect = normalizeDomain(prospectDomain)
+  const referring = normalizeDomain(referringDomain)
+
+  return (
+    prospect === referring ||
+    referring.endsWith(`.${prospect}`) ||
+    prospect.endsWith(`.${referring}`)
+  )
+}
+
+/**
+ * Prospects whose domain appears among the referring domains
+ */
+export function findVerifiedProspects<T extends { prospectDomain: string; stage: LinkProspectStage }>(
+  prospects: T[],
+  referringDomains: string[]
+): T[] {
+  return prospects.filter(
+    (p) =>
+      VERIFIABLE_STAGES.includes(p.stage) &&
+      referringDomains.some((domain) => matchesProspectDomain(p.prospectDomain, domain))
+  )
+}
@@ -0,0 +1,34 @@
+/**
+ * Time-Limited Pattern Matching
+ *
+ * Runs custom rule patterns in a V8 context with an execution timeout, so a
+ * pattern that backtracks badly on one page can't stall the crawl job.
+ * Server-only (node:vm); the rules themselves live in `./site-audit-rules`.
+ */
+
+import { createContext, Script } from 'node:vm'
+import { PatternTimeoutError, type PatternTester } from './site-audit-rules'
+
+/** Time one pattern may spend on one page value */
+export const PATTERN_TIMEOUT_MS = 100
+
+const context = createContext({ regex: /(?:)/, value: '' })
+const script = new Script('regex.test(value)')
+
+/**
+ * Pattern tester that throws PatternTimeoutError once `timeoutMs` is exceeded
+ */
+export function createTimedPatternTester(timeoutMs = PATTERN_TIMEOUT_MS): PatternTester {
+  return (regex, value) => {
+    context.regex = regex
+    context.value = value
+    try {
+      return script.runInContext(context, { timeout: timeoutMs }) === true
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+        throw new PatternTimeoutError(`Pattern ${regex} timed out after ${timeoutMs}ms`)
+      }
+      throw error
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * robots.txt Parsing
+ *
+ * Parses robots.txt into user-agent groups and evaluates URLs against them
+ * following RFC 9309: the most specific (longest) matching rule wins, with
+ * Allow winning ties. Paths support `*` wildcards and a trailing `$`.
+ */
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow'
+  path: string
+}
+
+export interface RobotsGroup {
+  userAgents: string[]
+  rules: RobotsRule[]
+}
+
+export interface ParsedRobotsTxt {
+  groups: RobotsGroup[]
+  /** Sitemap URLs declared with `Sitemap:` lines */
+  sitemaps: string[]
+}
+
+export interface RobotsVerdict {
+  allowed: boolean
+  /** Rule that decided the verdict, e.g. `Disallow: /private` */
+  rule: string | null
+}
+
+/** Crawler robots rules are evaluated for */
+export const ROBOTS_USER_AGENT = 'Googlebot'
+
+export function parseRobotsTxt(text: string): ParsedRobotsTxt {
+  const groups: RobotsGroup[] = []
+  const sitemaps: string[] = []
+  let current: RobotsGroup | null = null
+  let collectingAgents = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const key = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value)
+      continue
+    }
+
+    if (key === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [] }
+        groups.push(current)
+      }
+      current.userAgents.push(value.toLowerCase())
+      collectingAgents = true
+      continue
+    }
+
+    if ((key === 'allow' || key === 'disallow') && current) {
+      collectingAgents = false
+      // An empty Disallow allows everything, the same as no rule
+      if (value) current.rules.push({ type: key, path: value })
+    }
+  }
+
+  return { groups, sitemaps }
+}
+
+/**
+ * Rules that apply to a crawler: its own groups, else the `*` groups
+ */
+function rulesFor(robots: ParsedRobotsTxt, userAgent: string): RobotsRule[] {
+  const agent = userAgent.toLowerCase()
+  const own = robots.groups.filter((group) => group.userAgents.includes(agent))
+  const groups = own.length > 0 ? own : robots.groups.filter((g) => g.userAgents.includes('*'))
+  return groups.flatMap((group) => group.rules)
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+function pathOf(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.pathname}${parsed.search}`
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Whether robots.txt lets the crawler fetch a URL
+ */
+export function evaluateRobots(
+  robots: ParsedRobotsTxt,
+  url: string,
+  userAgent = ROBOTS_USER_AGENT
+): RobotsVerdict {
+  const path = pathOf(url)
+  let match: RobotsRule | null = null
+
+  for (const rule of rulesFor(robots, userAgent)) {
+    if (!patternToRegExp(rule.path).test(path)) continue
+    if (
+      !match ||
+      rule.path.length > match.path.length ||
+      (rule.path.length === match.path.length && rule.type === 'allow')
+    ) {
+      match = rule
+    }
+  }
+
+  if (!match) return { allowed: true, rule: null }
+  return {
+    allowed: match.type === 'allow',
+    rule: `${match.type === 'allow' ? 'Allow' : 'Disallow'}: ${match.path}`,
+  }
+}
@@ -0,0 +1,251 @@
+import {
+  ISSUE_SEVERITY_CONFIG,
+  type IssueSeverity,
+  type IssueSeverityConfig,
+} from '@/lib/constants/seo-thresholds'
+import { createSeverityMap } from './threshold-profiles'
+
+/**
+ * Site Audit Crawl Diffing
+ *
+ * Compares two crawls of the same site. Pages are matched by url_hash.
+ * Issue changes are only computed for pages present in both crawls, since
+ * crawl caps make the edges of a crawl vary from run to run; pages that
+ * appear or disappear are reported separately.
+ */
+
+export interface DiffablePage {
+  urlHash: string
+  url: string
+  statusCode: number
+  onpageScore: number | null
+  issueTypes: string[]
+}
+
+export interface DiffableSummary {
+  crawledPages: number
+  onpageScore: number | null
+  errorsCount: number
+  warningsCount: number
+  noticesCount: number
+}
+
+export interface MetricDelta {
+  base: number | null
+  target: number | null
+  delta: number | null
+}
+
+export interface IssueTypeDiff {
+  issueType: string
+  severity: IssueSeverity | null
+  baseCount: number
+  targetCount: number
+  /** URLs where the issue appeared */
+  newPages: string[]
+  /** URLs where the issue was fixed */
+  resolvedPages: string[]
+}
+
+export interface StatusCodeChange {
+  url: string
+  from: number
+  to: number
+}
+
+export interface ErrorPage {
+  url: string
+  statusCode: number
+}
+
+export interface ScoreChange {
+  url: string
+  from: number
+  to: number
+  delta: number
+}
+
+export interface SiteAuditDiff {
+  summary: {
+    crawledPages: MetricDelta
+    onpageScore: MetricDelta
+    errorsCount: MetricDelta
+    warningsCount: MetricDelta
+    noticesCount: MetricDelta
+  }
+  totals: {
+    newIssues: number
+    resolvedIssues: number
+    pagesAdded: number
+    pagesRemoved: number
+    statusCodeChanges: number
+  }
+  issues: IssueTypeDiff[]
+  pagesAdded: string[]
+  pagesRemoved: string[]
+  statusCodeChanges: StatusCodeChange[]
+  /** Pages returning 4xx/5xx that were fine (or not crawled) in the base crawl */
+  newErrorPages: ErrorPage[]
+  scoreChanges: ScoreChange[]
+}
+
+export interface DiffOptions {
+  /** Ignore per-page onpage_score moves smaller than this (default 1 point) */
+  minScoreDelta?: number
+  /** Severity buckets from the domain's threshold profile (default: baseline) */
+  severity?: IssueSeverityConfig
+}
+
+const SEVERITY_BY_CHECK = createSeverityMap(ISSUE_SEVERITY_CONFIG)
+
+const SEVERITY_ORDER: Record<IssueSeverity, number> = { error: 0, warning: 1, notice: 2 }
+
+/**
+ * Severity bucket for an issue type, or null for checks we don't classify
+ */
+export function getIssueSeverity(
+  issueType: string,
+  severityByCheck: Map<string, IssueSeverity> = SEVERITY_BY_CHECK
+): IssueSeverity | null {
+  return severityByCheck.get(issueType) ?? null
+}
+
+function metricDelta(base: number | null, target: number | null): MetricDelta {
+  const delta = base !== null && target !== null ? round(target - base) : null
+  return { base, target, delta }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Compare a base (older) crawl with a target (newer) crawl
+ */
+export function diffSiteAuditScans(
+  base: { summary: DiffableSummary | null; pages: DiffablePage[] },
+  target: { summary: DiffableSummary | null; pages: DiffablePage[] },
+  options: DiffOptions = {}
+): SiteAuditDiff {
+  const minScoreDelta = options.minScoreDelta ?? 1
+  const severityByCheck = options.severity
+    ? createSeverityMap(options.severity)
+    : SEVERITY_BY_CHECK
+
+  const basePages = new Map(base.pages.map((p) => [p.urlHash, p]))
+  const targetPages = new Map(target.pages.map((p) => [p.urlHash, p]))
+
+  const pagesAdded: string[] = []
+  const pagesRemoved: string[] = []
+  const statusCodeChanges: StatusCodeChange[] = []
+  const newErrorPages: ErrorPage[] = []
+  const scoreChanges: ScoreChange[] = []
+  const issues = new Map<string, IssueTypeDiff>()
+
+  const issueEntry = (issueType: string): IssueTypeDiff => {
+    let entry = issues.get(issueType)
+    if (!entry) {
+      entry = {
+        issueType,
+        severity: getIssueSeverity(issueType, severityByCheck),
+        baseCount: 0,
+        targetCount: 0,
+        newPages: [],
+        resolvedPages: [],
+      }
+      issues.set(issueType, entry)
+    }
+    return entry
+  }
+
+  for (const page of base.pages) {
+    for (const issueType of page.issueTypes) issueEntry(issueType).baseCount++
+    if (!targetPages.has(page.urlHash)) pagesRemoved.push(page.url)
+  }
+
+  for (const page of target.pages) {
+    for (const issueType of page.issueTypes) issueEntry(issueType).targetCount++
+
+    const previous = basePages.get(page.urlHash)
+    if (page.statusCode >= 400 && (!previous || previous.statusCode < 400)) {
+      newErrorPages.push({ url: page.url, statusCode: page.statusCode })
+    }
+
+    if (!previous) {
+      pagesAdded.push(page.url)
+      continue
+    }
+
+    if (previous.statusCode !== page.statusCode) {
+      statusCodeChanges.push({ url: page.url, from: previous.statusCode, to: page.statusCode })
+    }
+
+    if (previous.onpageScore !== null && page.onpageScore !== null) {
+      const delta = round(page.onpageScore - previous.onpageScore)
+      if (Math.abs(delta) >= minScoreDelta) {
+        scoreChanges.push({
+          url: page.url,
+          from: previous.onpageScore,
+          to: page.onpageScore,
+          delta,
+        })
+      }
+    }
+
+    const before = new Set(previous.issueTypes)
+    const after = new Set(page.issueTypes)
+    for (const issueType of after) {
+      if (!before.has(issueType)) issueEntry(issueType).newPages.push(page.url)
+    }
+    for (const issueType of before) {
+      if (!after.has(issueType)) issueEntry(issueType).resolvedPages.push(page.url)
+    }
+  }
+
+  const issueList = [...issues.values()]
+    .filter((i) => i.newPages.length > 0 || i.resolvedPages.length > 0 || i.baseCount !== i.targetCount)
+    .sort((a, b) => {
+      const severityA = a.severity ? SEVERITY_ORDER[a.severity] : 3
+      const severityB = b.severity ? SEVERITY_ORDER[b.severity] : 3
+      if (severityA !== severityB) return severityA - severityB
+      return b.newPages.length - a.newPages.length || b.resolvedPages.length - a.resolvedPages.length
+    })
+
+  // Biggest drops first
+  scoreChanges.sort((a, b) => a.delta - b.delta)
+
+  const baseSummary = base.summary
+  const targetSummary = target.summary
+
+  return {
+    summary: {
+      crawledPages: metricDelta(
+        baseSummary?.crawledPages ?? base.pages.length,
+        targetSummary?.crawledPages ?? target.pages.length
+      ),
+      onpageScore: metricDelta(baseSummary?.onpageScore ?? null, targetSummary?.onpageScore ?? null),
+      errorsCount: metricDelta(baseSummary?.errorsCount ?? null, targetSummary?.errorsCount ?? null),
+      warningsCount: metricDelta(
+        baseSummary?.warningsCount ?? null,
+        targetSummary?.warningsCount ?? null
+      ),
+      noticesCount: metricDelta(
+        baseSummary?.noticesCount ?? null,
+        targetSummary?.noticesCount ?? null
+      ),
+    },
+    totals: {
+      newIssues: issueList.reduce((sum, i) => sum + i.newPages.length, 0),
+      resolvedIssues: issueList.reduce((sum, i) => sum + i.resolvedPages.length, 0),
+      pagesAdded: pagesAdded.length,
+      pagesRemoved: pagesRemoved.length,
+      statusCodeChanges: statusCodeChanges.length,
+    },
+    issues: issueList,
+    pagesAdded,
+    pagesRemoved,
+    statusCodeChanges,
+    newErrorPages,
+    scoreChanges,
+  }
+}
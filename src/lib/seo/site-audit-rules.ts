@@ -0,0 +1,421 @@
+/**
+ * Custom Site Audit Rules
+ *
+ * User-defined checks evaluated against crawled pages after DataForSEO's own
+ * checks. A rule matches a page when all of its conditions hold; matches are
+ * stored in `issue_types` as `custom:<ruleId>` next to the built-in checks.
+ */
+
+import { z } from 'zod'
+import type { IssueSeverity } from '@/lib/constants/seo-thresholds'
+
+export const CUSTOM_ISSUE_PREFIX = 'custom:'
+
+export const NUMERIC_OPERATORS = ['lt', 'lte', 'gt', 'gte', 'eq', 'neq'] as const
+export type NumericOperator = (typeof NUMERIC_OPERATORS)[number]
+
+/** DataForSEO page_timing fields, in milliseconds */
+export const PAGE_TIMING_METRICS = [
+  'time_to_interactive',
+  'dom_complete',
+  'largest_contentful_paint',
+  'first_input_delay',
+  'connection_time',
+  'time_to_secure_connection',
+  'waiting_time',
+  'download_time',
+  'duration_time',
+] as const
+export type PageTimingMetric = (typeof PAGE_TIMING_METRICS)[number]
+
+export type SiteAuditRuleCondition =
+  | { field: 'url' | 'title' | 'description'; operator: 'matches' | 'not_matches'; value: string }
+  | { field: 'word_count' | 'h1_count' | 'status_code'; operator: NumericOperator; value: number }
+  | { field: 'page_timing'; metric: PageTimingMetric; operator: NumericOperator; value: number }
+  | { field: 'text'; operator: 'contains' | 'not_contains'; value: string }
+
+export interface SiteAuditRuleDefinition {
+  id: string
+  message: string
+  severity: IssueSeverity
+  conditions: SiteAuditRuleCondition[]
+}
+
+/** Page fields rules can look at, as saved in site_audit_pages */
+export interface RuleEvaluablePage {
+  url: string
+  statusCode: number
+  title: string | null
+  description: string | null
+  h1Tags: string[]
+  wordCount: number | null
+  pageTiming: unknown
+  meta: unknown
+}
+
+export const CONDITION_FIELD_LABELS: Record<SiteAuditRuleCondition['field'], string> = {
+  url: 'URL',
+  title: 'Title',
+  description: 'Meta description',
+  word_count: 'Word count',
+  h1_count: 'H1 count',
+  status_code: 'Status code',
+  page_timing: 'Page timing',
+  text: 'Page text',
+}
+
+export const OPERATOR_LABELS: Record<SiteAuditRuleCondition['operator'], string> = {
+  matches: 'matches',
+  not_matches: 'does not match',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+  eq: '=',
+  neq: '≠',
+}
+
+// ============================================
+// Validation
+// ============================================
+
+const pattern = z
+  .string()
+  .min(1, 'Pattern is required')
+  .max(500)
+  .refine((value) => isValidRegex(value), 'Invalid regular expression')
+  .refine(
+    (value) => !isBacktrackingPattern(value),
+    'Pattern is too complex: avoid back-references and repeating a group that contains repetition or alternatives, like (\\w+)+'
+  )
+
+const number = z.number().finite()
+
+export const siteAuditRuleConditionSchema = z.discriminatedUnion('field', [
+  z.object({
+    field: z.literal('url'),
+    operator: z.enum(['matches', 'not_matches']),
+    value: pattern,
+  }),
+  z.object({
+    field: z.literal('title'),
+    operator: z.enum(['matches', 'not_matches']),
+    value: pattern,
+  }),
+  z.object({
+    field: z.literal('description'),
+    operator: z.enum(['matches', 'not_matches']),
+    value: pattern,
+  }),
+  z.object({ field: z.literal('word_count'), operator: z.enum(NUMERIC_OPERATORS), value: number }),
+  z.object({ field: z.literal('h1_count'), operator: z.enum(NUMERIC_OPERATORS), value: number }),
+  z.object({ field: z.literal('status_code'), operator: z.enum(NUMERIC_OPERATORS), value: number }),
+  z.object({
+    field: z.literal('page_timing'),
+    metric: z.enum(PAGE_TIMING_METRICS),
+    operator: z.enum(NUMERIC_OPERATORS),
+    value: number,
+  }),
+  z.object({
+    field: z.literal('text'),
+    operator: z.enum(['contains', 'not_contains']),
+    value: z.string().trim().min(1, 'Text is required').max(500),
+  }),
+]) satisfies z.ZodType<SiteAuditRuleCondition>
+
+export const siteAuditRuleConditionsSchema = z
+  .array(siteAuditRuleConditionSchema)
+  .min(1, 'Add at least one condition')
+  .max(10)
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Runs a compiled pattern against a page value. The crawl job passes one with
+ * a time limit (see pattern-timeout.ts); it throws PatternTimeoutError when
+ * the limit is hit.
+ */
+export type PatternTester = (regex: RegExp, value: string) => boolean
+
+export class PatternTimeoutError extends Error {
+  constructor(message = 'Pattern evaluation timed out') {
+    super(message)
+    this.name = 'PatternTimeoutError'
+  }
+}
+
+const defaultPatternTester: PatternTester = (regex, value) => regex.test(value)
+
+function isValidRegex(value: string): boolean {
+  try {
+    new RegExp(value, 'i')
+    return true
+  } catch {
+    return false
+  }
+}
+
+const GROUP_PREFIX = /^\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>)/
+const BRACE_QUANTIFIER = /^\{(\d+)(,(\d*))?\}/
+
+/**
+ * Whether a pattern can backtrack exponentially: a back-reference, or a
+ * repeated group that itself contains repetition or alternation, e.g. `(\w+)+`
+ * or `(a|ab)*`. Backtracking that is only polynomial is left to the time limit.
+ */
+export function isBacktrackingPattern(value: string): boolean {
+  // For each open group: whether it contains repetition or alternation
+  const groups: boolean[] = []
+  // Set right after a group closes, for the quantifier that may follow it
+  let closedGroupRepeats = false
+  let inClass = false
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!
+    const afterGroup = closedGroupRepeats
+    closedGroupRepeats = false
+
+    if (char === '\\') {
+      if (!inClass && /[1-9k]/.test(value[i + 1] ?? '')) return true
+      i++
+      continue
+    }
+    if (inClass) {
+      if (char === ']') inClass = false
+      continue
+    }
+
+    let repeats = false
+    switch (char) {
+      case '[':
+        inClass = true
+        continue
+      case '(':
+        groups.push(false)
+        i += GROUP_PREFIX.exec(value.slice(i + 1))?.[0].length ?? 0
+        continue
+      case ')': {
+        const inner = groups.pop() ?? false
+        if (inner && groups.length > 0) groups[groups.length - 1] = true
+        closedGroupRepeats = inner
+        continue
+      }
+      case '|':
+        if (groups.length > 0) groups[groups.length - 1] = true
+        continue
+      case '*':
+      case '+':
+        repeats = true
+        break
+      case '?':
+        break
+      case '{': {
+        const brace = BRACE_QUANTIFIER.exec(value.slice(i))
+        // Not a quantifier: a literal brace
+        if (!brace) continue
+        const max =
+          brace[2] === undefined ? Number(brace[1]) : brace[3] ? Number(brace[3]) : Infinity
+        repeats = max > 1
+        i += brace[0].length - 1
+        break
+      }
+      default:
+        continue
+    }
+
+    if (repeats && afterGroup) return true
+    if (repeats && groups.length > 0) groups[groups.length - 1] = true
+    // Skip the lazy modifier, e.g. `+?`
+    if (value[i + 1] === '?') i++
+  }
+
+  return false
+}
+
+/**
+ * Case-insensitive regex, or null if the pattern doesn't compile or could
+ * backtrack exponentially (rules saved before such patterns were rejected)
+ */
+function compilePattern(value: string): RegExp | null {
+  if (isBacktrackingPattern(value)) return null
+  try {
+    return new RegExp(value, 'i')
+  } catch {
+    return null
+  }
+}
+
+function compare(actual: number, operator: NumericOperator, expected: number): boolean {
+  switch (operator) {
+    case 'lt':
+      return actual < expected
+    case 'lte':
+      return actual <= expected
+    case 'gt':
+      return actual > expected
+    case 'gte':
+      return actual >= expected
+    case 'eq':
+      return actual === expected
+    case 'neq':
+      return actual !== expected
+  }
+}
+
+function stringValues(value: unknown): string[] {
+  if (typeof value === 'string') return [value]
+  if (Array.isArray(value)) return value.flatMap(stringValues)
+  if (typeof value === 'object' && value !== null) return Object.values(value).flatMap(stringValues)
+  return []
+}
+
+/**
+ * Text a page is known to contain: title, description, H1s and the string
+ * values of its meta (headings, social tags, canonical). The crawl doesn't
+ * keep body copy, so `text` conditions only see these.
+ */
+export function getPageText(page: RuleEvaluablePage): string {
+  return [page.title ?? '', page.description ?? '', ...page.h1Tags, ...stringValues(page.meta)]
+    .join('\n')
+    .toLowerCase()
+}
+
+function timingValue(pageTiming: unknown, metric: PageTimingMetric): number | null {
+  if (typeof pageTiming !== 'object' || pageTiming === null) return null
+  const value = (pageTiming as Record<string, unknown>)[metric]
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+/**
+ * Whether a single condition holds for a page. Numeric conditions on a
+ * missing value never hold.
+ */
+export function evaluateCondition(
+  condition: SiteAuditRuleCondition,
+  page: RuleEvaluablePage,
+  testPattern: PatternTester = defaultPatternTester
+): boolean {
+  switch (condition.field) {
+    case 'url':
+    case 'title':
+    case 'description': {
+      const regex = compilePattern(condition.value)
+      if (!regex) return false
+      const value = condition.field === 'url' ? page.url : (page[condition.field] ?? '')
+      return testPattern(regex, value) === (condition.operator === 'matches')
+    }
+    case 'word_count':
+      return page.wordCount !== null && compare(page.wordCount, condition.operator, condition.value)
+    case 'h1_count':
+      return compare(page.h1Tags.length, condition.operator, condition.value)
+    case 'status_code':
+      return compare(page.statusCode, condition.operator, condition.value)
+    case 'page_timing': {
+      const value = timingValue(page.pageTiming, condition.metric)
+      return value !== null && compare(value, condition.operator, condition.value)
+    }
+    case 'text': {
+      const found = getPageText(page).includes(condition.value.toLowerCase())
+      return found === (condition.operator === 'contains')
+    }
+  }
+}
+
+/**
+ * Ids of the rules whose conditions all hold for a page. A rule whose pattern
+ * times out doesn't match and is reported through `onTimeout`.
+ */
+export function evaluateRules(
+  rules: SiteAuditRuleDefinition[],
+  page: RuleEvaluablePage,
+  options: { testPattern?: PatternTester; onTimeout?: (ruleId: string) => void } = {}
+): string[] {
+  return rules
+    .filter((rule) => {
+      if (rule.conditions.length === 0) return false
+      try {
+        return rule.conditions.every((condition) =>
+          evaluateCondition(condition, page, options.testPattern)
+        )
+      } catch (error) {
+        if (!(error instanceof PatternTimeoutError)) throw error
+        options.onTimeout?.(rule.id)
+        return false
+      }
+    })
+    .map((rule) => rule.id)
+}
+
+// ============================================
+// Issue types
+// ============================================
+
+export function customIssueType(ruleId: string): string {
+  return `${CUSTOM_ISSUE_PREFIX}${ruleId}`
+}
+
+/**
+ * Rule id of a custom issue type, or null for built-in checks
+ */
+export function parseCustomIssueType(issueType: string): string | null {
+  return issueType.startsWith(CUSTOM_ISSUE_PREFIX)
+    ? issueType.slice(CUSTOM_ISSUE_PREFIX.length)
+    : null
+}
+
+/**
+ * Short description of a condition, e.g. `Word count < 300`
+ */
+export function describeCondition(condition: SiteAuditRuleCondition): string {
+  const field =
+    condition.field === 'page_timing'
+      ? condition.metric.replace(/_/g, ' ')
+      : CONDITION_FIELD_LABELS[condition.field]
+  const value = typeof condition.value === 'string' ? `"${condition.value}"` : condition.value
+
+  return `${field} ${OPERATOR_LABELS[condition.operator]} ${value}`
+}
+
+// ============================================
+// Scan snapshots
+// ============================================
+
+/** A rule as it was applied to one crawl */
+export interface SiteAuditRuleSnapshot {
+  id: string
+  message: string
+  severity: IssueSeverity
+  matchedPages: number
+}
+
+const ruleSnapshotsSchema = z.array(
+  z.object({
+    id: z.string(),
+    message: z.string(),
+    severity: z.enum(['error', 'warning', 'notice']),
+    matchedPages: z.number(),
+  })
+)
+
+/**
+ * Rule snapshots stored on a scan; empty when rules weren't applied
+ */
+export function parseRuleSnapshots(value: unknown): SiteAuditRuleSnapshot[] {
+  const result = ruleSnapshotsSchema.safeParse(value)
+  return result.success ? result.data : []
+}
+
+/**
+ * Issue type label for exports: the rule message for custom issues
+ */
+export function formatIssueType(issueType: string, rules: SiteAuditRuleSnapshot[]): string {
+  const ruleId = parseCustomIssueType(issueType)
+  if (ruleId === null) return issueType
+
+  const rule = rules.find((r) => r.id === ruleId)
+  return `Custom: ${rule?.message ?? 'deleted rule'}`
+}
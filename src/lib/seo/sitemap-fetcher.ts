@@ -0,0 +1,195 @@
+/**
+ * Sitemap Fetcher
+ *
+ * Fetches a site's robots.txt and XML sitemaps, following sitemap indexes
+ * and decompressing gzipped sitemaps. Server-only; parsing and the audit
+ * report live in `./sitemaps` and `./robots-txt`.
+ *
+ * Sitemap locations come from the site itself, so only URLs on the audited
+ * host (or its subdomains) that resolve to public addresses are fetched,
+ * redirects are checked hop by hop, and bodies are size-capped as they stream.
+ */
+
+import { gunzipSync } from 'zlib'
+import { assertHttpUrl, assertPublicHost, bareHostname } from '@/lib/utils/public-url'
+import { parseRobotsTxt } from './robots-txt'
+import { parseSitemapXml, type SitemapFile } from './sitemaps'
+
+const FETCH_TIMEOUT_MS = 15_000
+
+/** Sitemap files fetched per site, including indexes */
+const MAX_SITEMAPS = 50
+
+/** Sitemap URLs kept per site (the protocol's per-file limit) */
+const MAX_SITEMAP_URLS = 50_000
+
+/** Uncompressed size limit per sitemap file, from the sitemap protocol */
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024
+
+/** Google reads the first 500 KiB of robots.txt and ignores the rest */
+const MAX_ROBOTS_TXT_BYTES = 500 * 1024
+
+const MAX_REDIRECTS = 5
+
+export interface SiteSitemaps {
+  /** Raw robots.txt, or null when the site doesn't serve one */
+  robotsTxt: string | null
+  files: SitemapFile[]
+  entries: Array<{ url: string; sitemapUrl: string }>
+}
+
+/**
+ * Throw unless the URL is http(s) on the site host or a subdomain of it, and
+ * every address it resolves to is public
+ */
+async function assertFetchable(url: URL, siteHost: string): Promise<void> {
+  assertHttpUrl(url)
+
+  const hostname = bareHostname(url)
+  if (hostname !== siteHost && !hostname.endsWith(`.${siteHost}`)) {
+    throw new Error(`Not on ${siteHost}`)
+  }
+
+  await assertPublicHost(hostname)
+}
+
+/**
+ * GET a URL, following redirects only while they stay fetchable
+ */
+async function fetchWithinSite(
+  url: string,
+  siteHost: string,
+  signal: AbortSignal
+): Promise<Response> {
+  let target = new URL(url)
+
+  for (let redirects = 0; ; redirects++) {
+    await assertFetchable(target, siteHost)
+    const response = await fetch(target, { signal, redirect: 'manual' })
+
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) return response
+
+    await response.body?.cancel()
+    if (redirects === MAX_REDIRECTS) throw new Error('Too many redirects')
+    target = new URL(location, target)
+  }
+}
+
+/**
+ * Read up to `maxBytes` of a body, cancelling the stream once it goes over
+ */
+async function readBody(
+  response: Response,
+  maxBytes: number
+): Promise<{ buffer: Buffer; truncated: boolean }> {
+  const chunks: Buffer[] = []
+  let size = 0
+
+  if (response.body) {
+    const reader = response.body.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      if (size + value.byteLength > maxBytes) {
+        chunks.push(Buffer.from(value.subarray(0, maxBytes - size)))
+        await reader.cancel()
+        return { buffer: Buffer.concat(chunks), truncated: true }
+      }
+
+      chunks.push(Buffer.from(value))
+      size += value.byteLength
+    }
+  }
+
+  return { buffer: Buffer.concat(chunks), truncated: false }
+}
+
+async function fetchBody(
+  url: string,
+  siteHost: string,
+  maxBytes: number
+): Promise<{ buffer: Buffer; truncated: boolean }> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  const response = await fetchWithinSite(url, siteHost, signal)
+  if (!response.ok) {
+    await response.body?.cancel()
+    throw new Error(`HTTP ${response.status}`)
+  }
+
+  return readBody(response, maxBytes)
+}
+
+async function fetchSitemap(url: string, siteHost: string): Promise<string> {
+  const { buffer, truncated } = await fetchBody(url, siteHost, MAX_SITEMAP_BYTES)
+  if (truncated) throw new Error('Larger than 50 MB')
+
+  // .xml.gz files are often served without Content-Encoding, so check the magic bytes
+  const body =
+    buffer[0] === 0x1f && buffer[1] === 0x8b
+      ? gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_BYTES })
+      : buffer
+  return body.toString('utf8')
+}
+
+async function fetchRobotsTxt(origin: string, siteHost: string): Promise<string | null> {
+  try {
+    const { buffer } = await fetchBody(`${origin}/robots.txt`, siteHost, MAX_ROBOTS_TXT_BYTES)
+    return buffer.toString('utf8')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Fetch robots.txt and every sitemap it declares (or `/sitemap.xml` when it
+ * declares none), following sitemap indexes breadth-first. Sitemaps off the
+ * origin's host (ignoring `www.`) and its subdomains are listed with an error.
+ */
+export async function fetchSiteSitemaps(origin: string): Promise<SiteSitemaps> {
+  const siteHost = new URL(origin).hostname.replace(/^www\./, '')
+  const robotsTxt = await fetchRobotsTxt(origin, siteHost)
+  const declared = robotsTxt ? parseRobotsTxt(robotsTxt).sitemaps : []
+
+  const queue = declared.length > 0 ? [...new Set(declared)] : [`${origin}/sitemap.xml`]
+  const visited = new Set(queue)
+  const files: SitemapFile[] = []
+  const entries: SiteSitemaps['entries'] = []
+  const seenUrls = new Set<string>()
+
+  while (queue.length > 0 && files.length < MAX_SITEMAPS) {
+    const url = queue.shift()!
+
+    try {
+      const sitemap = parseSitemapXml(await fetchSitemap(url, siteHost))
+      if (!sitemap) {
+        files.push({ url, type: null, urlCount: 0, error: 'Not an XML sitemap' })
+        continue
+      }
+
+      files.push({ url, type: sitemap.type, urlCount: sitemap.urls.length, error: null })
+
+      for (const loc of sitemap.urls) {
+        if (sitemap.type === 'sitemapindex') {
+          if (!visited.has(loc)) {
+            visited.add(loc)
+            queue.push(loc)
+          }
+        } else if (!seenUrls.has(loc) && entries.length < MAX_SITEMAP_URLS) {
+          seenUrls.add(loc)
+          entries.push({ url: loc, sitemapUrl: url })
+        }
+      }
+    } catch (error) {
+      files.push({
+        url,
+        type: null,
+        urlCount: 0,
+        error: error instanceof Error ? error.message : 'Fetch failed',
+      })
+    }
+  }
+
+  return { robotsTxt, files, entries }
+}
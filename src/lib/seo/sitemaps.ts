@@ -0,0 +1,228 @@
+/**
+ * XML Sitemap Auditing
+ *
+ * Parses XML sitemaps and compares their URLs with the pages found during a
+ * crawl: sitemap URLs that redirect, error or aren't indexable, indexable
+ * pages missing from the sitemap, and important URLs blocked by robots.txt.
+ */
+
+import { evaluateRobots, type ParsedRobotsTxt } from './robots-txt'
+import { normalizeLinkUrl } from './link-graph'
+
+// ============================================
+// Parsing
+// ============================================
+
+export interface ParsedSitemap {
+  type: 'urlset' | 'sitemapindex'
+  /** Page URLs for a urlset, child sitemap URLs for an index */
+  urls: string[]
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+/**
+ * Read `<loc>` entries from a sitemap or sitemap index. Returns null when
+ * the document isn't a sitemap.
+ */
+export function parseSitemapXml(xml: string): ParsedSitemap | null {
+  const type = /<sitemapindex[\s>]/i.test(xml)
+    ? 'sitemapindex'
+    : /<urlset[\s>]/i.test(xml)
+      ? 'urlset'
+      : null
+  if (!type) return null
+
+  const urls = [...xml.matchAll(/<loc>([\s\S]*?)<\/loc>/gi)]
+    .map((match) => decodeXml(match[1] ?? ''))
+    .filter(Boolean)
+
+  return { type, urls }
+}
+
+// ============================================
+// Report
+// ============================================
+
+/** A fetched sitemap file */
+export interface SitemapFile {
+  url: string
+  type: ParsedSitemap['type'] | null
+  urlCount: number
+  error: string | null
+}
+
+/** Crawled page fields needed to audit sitemap coverage */
+export interface SitemapAuditPage {
+  id: string
+  url: string
+  title: string | null
+  statusCode: number
+  isRedirect: boolean
+  redirectLocation: string | null
+  checks: Record<string, unknown> | null
+  /** Canonical URL from the page meta */
+  canonical: string | null
+  clickDepth: number | null
+}
+
+export interface SitemapAuditEntry {
+  url: string
+  sitemapUrl: string
+  /** Crawled page with the same url_hash, if any */
+  page: SitemapAuditPage | null
+}
+
+export type SitemapUrlIssue =
+  | 'redirect'
+  | 'client_error'
+  | 'server_error'
+  | 'non_indexable'
+  | 'not_crawled'
+
+export interface SitemapIssueRow {
+  url: string
+  sitemapUrl: string
+  issue: SitemapUrlIssue
+  statusCode: number | null
+  /** Redirect target or why the page isn't indexable */
+  detail: string | null
+}
+
+export interface RobotsBlockedRow {
+  url: string
+  rule: string
+  /** Why the URL counts as important */
+  source: 'sitemap' | 'linked'
+}
+
+export interface SitemapReport {
+  sitemapIssues: SitemapIssueRow[]
+  missingFromSitemap: Array<{ id: string; url: string; title: string | null }>
+  blockedByRobots: RobotsBlockedRow[]
+  summary: {
+    sitemapUrls: number
+    redirects: number
+    errors: number
+    nonIndexable: number
+    notCrawled: number
+    missingFromSitemap: number
+    blockedByRobots: number
+  }
+}
+
+export interface SiteAuditSitemapReport extends SitemapReport {
+  /** False for crawls that ran before sitemap auditing existed */
+  checked: boolean
+  robotsTxt: { found: boolean; sitemaps: string[] }
+  files: SitemapFile[]
+}
+
+/** Pages this close to the start page count as important for robots checks */
+const IMPORTANT_CLICK_DEPTH = 1
+
+/**
+ * Why a crawled 200 page isn't indexable, or null when it is
+ */
+export function nonIndexableReason(page: SitemapAuditPage): string | null {
+  const checks = page.checks ?? {}
+  if (checks.noindex === true || checks.no_index === true) return 'noindex tag'
+  if (checks.robots_txt_blocked === true) return 'blocked by robots.txt'
+  if (page.canonical && normalizeLinkUrl(page.canonical) !== normalizeLinkUrl(page.url)) {
+    return `canonical points to ${page.canonical}`
+  }
+  return null
+}
+
+function classify(
+  page: SitemapAuditPage | null
+): Omit<SitemapIssueRow, 'url' | 'sitemapUrl'> | null {
+  if (!page) return { issue: 'not_crawled', statusCode: null, detail: null }
+  if (page.isRedirect || (page.statusCode >= 300 && page.statusCode < 400)) {
+    return { issue: 'redirect', statusCode: page.statusCode, detail: page.redirectLocation }
+  }
+  if (page.statusCode >= 500) {
+    return { issue: 'server_error', statusCode: page.statusCode, detail: null }
+  }
+  if (page.statusCode >= 400) {
+    return { issue: 'client_error', statusCode: page.statusCode, detail: null }
+  }
+
+  const reason = nonIndexableReason(page)
+  return reason ? { issue: 'non_indexable', statusCode: page.statusCode, detail: reason } : null
+}
+
+/**
+ * Compare sitemap entries with crawled pages. `pages` are every crawled
+ * page; `robots` is null when the site has no robots.txt.
+ */
+export function buildSitemapReport(
+  entries: SitemapAuditEntry[],
+  pages: SitemapAuditPage[],
+  robots: ParsedRobotsTxt | null
+): SitemapReport {
+  const sitemapIssues: SitemapIssueRow[] = []
+  const listedPageIds = new Set<string>()
+
+  for (const entry of entries) {
+    if (entry.page) listedPageIds.add(entry.page.id)
+    const problem = classify(entry.page)
+    if (problem) sitemapIssues.push({ url: entry.url, sitemapUrl: entry.sitemapUrl, ...problem })
+  }
+
+  const missingFromSitemap = pages
+    .filter(
+      (page) =>
+        !listedPageIds.has(page.id) &&
+        page.statusCode === 200 &&
+        !page.isRedirect &&
+        nonIndexableReason(page) === null
+    )
+    .map((page) => ({ id: page.id, url: page.url, title: page.title }))
+
+  // Important URLs: everything in the sitemap plus pages linked near the start page
+  const blockedByRobots: RobotsBlockedRow[] = []
+  if (robots) {
+    const candidates = new Map<string, RobotsBlockedRow['source']>()
+    for (const entry of entries) candidates.set(entry.url, 'sitemap')
+    for (const page of pages) {
+      if (page.clickDepth !== null && page.clickDepth <= IMPORTANT_CLICK_DEPTH) {
+        if (!candidates.has(page.url)) candidates.set(page.url, 'linked')
+      }
+    }
+
+    for (const [url, source] of candidates) {
+      const verdict = evaluateRobots(robots, url)
+      if (!verdict.allowed && verdict.rule) {
+        blockedByRobots.push({ url, rule: verdict.rule, source })
+      }
+    }
+  }
+
+  const count = (issue: SitemapUrlIssue) =>
+    sitemapIssues.filter((row) => row.issue === issue).length
+
+  return {
+    sitemapIssues,
+    missingFromSitemap,
+    blockedByRobots,
+    summary: {
+      sitemapUrls: entries.length,
+      redirects: count('redirect'),
+      errors: count('client_error') + count('server_error'),
+      nonIndexable: count('non_indexable'),
+      notCrawled: count('not_crawled'),
+      missingFromSitemap: missingFromSitemap.length,
+      blockedByRobots: blockedByRobots.length,
+    },
+  }
+}
@@ -0,0 +1,529 @@
+/**
+ * Structured Data Validation
+ *
+ * Checks the schema.org markup collected during a site audit against a
+ * bundled subset of requirements relevant to local businesses
+ * (LocalBusiness and its subtypes, FAQPage, Review, BreadcrumbList) and
+ * compares LocalBusiness NAP details with the domain's GBP profile.
+ */
+
+import { z } from 'zod'
+import type { IssueSeverity } from '@/lib/constants/seo-thresholds'
+import type { MicrodataField, MicrodataItem } from '@/lib/dataforseo/schemas'
+import { normalizeBusinessName } from '@/lib/verticals'
+import type { BusinessNameRules } from '@/lib/verticals/types'
+
+export type StructuredDataValue = string | StructuredDataEntity
+
+export interface StructuredDataEntity {
+  types: string[]
+  /** Property values by name; repeated properties keep every value */
+  properties: Record<string, StructuredDataValue[]>
+}
+
+export interface StructuredDataItem extends StructuredDataEntity {
+  /** Markup format: `json-ld` or `microdata` */
+  format: string
+}
+
+// ============================================
+// Normalization
+// ============================================
+
+/**
+ * Bare schema.org type name, e.g. `http://schema.org/Dentist` -> `Dentist`
+ */
+function typeName(type: string): string {
+  return type.replace(/^https?:\/\/schema\.org\//i, '').trim()
+}
+
+function toEntity(
+  types: string[] | null | undefined,
+  fields: MicrodataField[]
+): StructuredDataEntity {
+  const properties: Record<string, StructuredDataValue[]> = {}
+
+  for (const field of fields) {
+    if (!field.name) continue
+    const value: StructuredDataValue | null = field.fields?.length
+      ? toEntity(field.types, field.fields)
+      : (field.value ?? null)
+    if (value === null || value === '') continue
+    ;(properties[field.name] ??= []).push(value)
+  }
+
+  return { types: (types ?? []).map(typeName), properties }
+}
+
+/**
+ * Convert Microdata endpoint items into the shape stored on audit pages
+ */
+export function toStructuredDataItems(items: MicrodataItem[]): StructuredDataItem[] {
+  return items
+    .filter((item) => item.inspection_info)
+    .map((item) => ({
+      format: item.type,
+      ...toEntity(item.inspection_info?.types, item.inspection_info?.fields ?? []),
+    }))
+}
+
+const entitySchema: z.ZodType<StructuredDataEntity> = z.lazy(() =>
+  z.object({
+    types: z.array(z.string()),
+    properties: z.record(z.string(), z.array(z.union([z.string(), entitySchema]))),
+  })
+)
+
+const itemsSchema = z.array(
+  z.object({
+    format: z.string(),
+    types: z.array(z.string()),
+    properties: z.record(z.string(), z.array(z.union([z.string(), entitySchema]))),
+  })
+)
+
+/**
+ * Structured data stored on a page, or null when the page wasn't inspected
+ */
+export function parseStructuredData(value: unknown): StructuredDataItem[] | null {
+  const result = itemsSchema.safeParse(value)
+  return result.success ? result.data : null
+}
+
+// ============================================
+// Requirements
+// ============================================
+
+/** schema.org types treated as LocalBusiness */
+export const LOCAL_BUSINESS_TYPES = [
+  'LocalBusiness',
+  'Dentist',
+  'MedicalBusiness',
+  'MedicalClinic',
+  'Physician',
+  'Chiropractor',
+  'Optician',
+  'HealthAndBeautyBusiness',
+  'DaySpa',
+  'BeautySalon',
+  'LegalService',
+  'Attorney',
+  'Notary',
+  'ProfessionalService',
+] as const
+
+export type ValidatedSchemaType = 'LocalBusiness' | 'FAQPage' | 'Review' | 'BreadcrumbList'
+
+interface PropertyRequirements {
+  /**
+   * Property paths that must be present. Dots descend into nested
+   * entities; `a|b` accepts either path.
+   */
+  required: string[]
+  recommended: string[]
+}
+
+interface SchemaRequirement extends PropertyRequirements {
+  /** Required only when the entity isn't nested in another one */
+  requiredStandalone?: string[]
+  /** Requirements for each value of a list property, e.g. FAQ questions */
+  each?: { property: string; label: string } & PropertyRequirements
+}
+
+export const SCHEMA_REQUIREMENTS: Record<ValidatedSchemaType, SchemaRequirement> = {
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: [
+      'telephone',
+      'url',
+      'image',
+      'geo',
+      'openingHoursSpecification|openingHours',
+      'priceRange',
+    ],
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+    recommended: [],
+    each: {
+      property: 'mainEntity',
+      label: 'Question',
+      required: ['name', 'acceptedAnswer.text'],
+      recommended: [],
+    },
+  },
+  Review: {
+    required: ['author', 'reviewRating.ratingValue'],
+    requiredStandalone: ['itemReviewed'],
+    recommended: ['datePublished'],
+  },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    recommended: [],
+    each: {
+      property: 'itemListElement',
+      label: 'ListItem',
+      required: ['position', 'name|item.name'],
+      recommended: ['item'],
+    },
+  },
+}
+
+export function isLocalBusinessType(type: string): boolean {
+  return (LOCAL_BUSINESS_TYPES as readonly string[]).includes(type)
+}
+
+function validatedType(entity: StructuredDataEntity): ValidatedSchemaType | null {
+  if (entity.types.some(isLocalBusinessType)) return 'LocalBusiness'
+  for (const type of ['FAQPage', 'Review', 'BreadcrumbList'] as const) {
+    if (entity.types.includes(type)) return type
+  }
+  return null
+}
+
+function hasPath(entity: StructuredDataEntity, path: string): boolean {
+  return path.split('|').some((alternative) => {
+    const [head, ...rest] = alternative.split('.')
+    const values = entity.properties[head ?? ''] ?? []
+    if (rest.length === 0) return values.length > 0
+    return values.some((value) => typeof value !== 'string' && hasPath(value, rest.join('.')))
+  })
+}
+
+// ============================================
+// Validation
+// ============================================
+
+export type StructuredDataIssueKind = 'missing_required' | 'missing_recommended' | 'nap_mismatch'
+
+export interface StructuredDataIssue {
+  kind: StructuredDataIssueKind
+  severity: IssueSeverity
+  schemaType: string
+  /** Property path, e.g. `acceptedAnswer.text` */
+  property: string
+  message: string
+}
+
+function displayPath(path: string): string {
+  return path.split('|').join(' or ')
+}
+
+function checkProperties(
+  entity: StructuredDataEntity,
+  requirements: PropertyRequirements,
+  schemaType: string,
+  context = ''
+): StructuredDataIssue[] {
+  const issues: StructuredDataIssue[] = []
+
+  for (const path of requirements.required) {
+    if (hasPath(entity, path)) continue
+    issues.push({
+      kind: 'missing_required',
+      severity: 'error',
+      schemaType,
+      property: path,
+      message: `${schemaType}${context} is missing required ${displayPath(path)}`,
+    })
+  }
+  for (const path of requirements.recommended) {
+    if (hasPath(entity, path)) continue
+    issues.push({
+      kind: 'missing_recommended',
+      severity: 'notice',
+      schemaType,
+      property: path,
+      message: `${schemaType}${context} is missing recommended ${displayPath(path)}`,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Missing properties on one entity, ignoring entities of other types
+ */
+export function validateEntity(
+  entity: StructuredDataEntity,
+  options: { nested?: boolean } = {}
+): StructuredDataIssue[] {
+  const type = validatedType(entity)
+  if (!type) return []
+
+  const requirement = SCHEMA_REQUIREMENTS[type]
+  const schemaType =
+    type === 'LocalBusiness' ? (entity.types.find(isLocalBusinessType) ?? type) : type
+  const required = options.nested
+    ? requirement.required
+    : [...requirement.required, ...(requirement.requiredStandalone ?? [])]
+
+  const issues = checkProperties(entity, { ...requirement, required }, schemaType)
+
+  if (requirement.each) {
+    const { property, label } = requirement.each
+    ;(entity.properties[property] ?? []).forEach((value, index) => {
+      if (typeof value === 'string') return
+      issues.push(
+        ...checkProperties(value, requirement.each!, schemaType, ` ${label} ${index + 1}`)
+      )
+    })
+  }
+
+  return issues
+}
+
+interface EntityVisit {
+  entity: StructuredDataEntity
+  nested: boolean
+}
+
+/**
+ * Every entity in the items, including nested ones (e.g. a Review inside
+ * a LocalBusiness or a BreadcrumbList inside a WebPage)
+ */
+function walkEntities(items: StructuredDataEntity[]): EntityVisit[] {
+  const visits: EntityVisit[] = []
+
+  const visit = (entity: StructuredDataEntity, nested: boolean) => {
+    visits.push({ entity, nested })
+    for (const values of Object.values(entity.properties)) {
+      for (const value of values) {
+        if (typeof value !== 'string') visit(value, true)
+      }
+    }
+  }
+
+  for (const item of items) visit(item, false)
+  return visits
+}
+
+// ============================================
+// NAP consistency
+// ============================================
+
+/** Name, address and phone the markup should agree with */
+export interface NapReference {
+  name: string | null
+  address: string | null
+  phone: string | null
+}
+
+function firstString(entity: StructuredDataEntity, property: string): string | null {
+  const value = entity.properties[property]?.find((v): v is string => typeof v === 'string')
+  return value ?? null
+}
+
+/**
+ * Address text from either a plain string or a PostalAddress
+ */
+function addressText(entity: StructuredDataEntity): string | null {
+  const address = entity.properties.address?.[0]
+  if (address === undefined) return null
+  if (typeof address === 'string') return address
+
+  const parts = ['streetAddress', 'addressLocality', 'addressRegion', 'postalCode'].map(
+    (property) => firstString(address, property)
+  )
+  const text = parts.filter(Boolean).join(', ')
+  return text || null
+}
+
+function phoneDigits(phone: string): string {
+  // Compare national numbers so +1 and (555) formats match
+  return phone.replace(/\D/g, '').slice(-10)
+}
+
+function addressNumbers(address: string): string[] {
+  return address.match(/\d+/g) ?? []
+}
+
+/**
+ * Street number and postal code of the reference address both appear in
+ * the markup's address. Suites and formatting are ignored.
+ */
+function addressesMatch(expected: string, found: string): boolean {
+  const expectedNumbers = addressNumbers(expected)
+  const foundNumbers = new Set(addressNumbers(found))
+  const streetNumber = expectedNumbers[0]
+  const postalCode = expectedNumbers.find((n) => n.length === 5 && n !== streetNumber)
+
+  return [streetNumber, postalCode].every((n) => n === undefined || foundNumbers.has(n))
+}
+
+function namesMatch(expected: string, found: string, rules?: BusinessNameRules): boolean {
+  const normalize = (name: string) =>
+    rules
+      ? normalizeBusinessName(name, rules)
+      : name.toLowerCase().replace(/[.,]/g, '').replace(/\s+/g, ' ').trim()
+  const a = normalize(expected)
+  const b = normalize(found)
+  return a.length > 0 && b.length > 0 && (a.includes(b) || b.includes(a))
+}
+
+/**
+ * Differences between a LocalBusiness entity's NAP and the reference.
+ * Fields missing on either side aren't compared.
+ */
+export function compareNap(
+  entity: StructuredDataEntity,
+  reference: NapReference,
+  nameRules?: BusinessNameRules
+): StructuredDataIssue[] {
+  const schemaType = entity.types.find(isLocalBusinessType) ?? 'LocalBusiness'
+  const issues: StructuredDataIssue[] = []
+
+  const mismatch = (property: string, label: string, found: string, expected: string) =>
+    issues.push({
+      kind: 'nap_mismatch',
+      severity: 'warning',
+      schemaType,
+      property,
+      message: `${label} "${found}" doesn't match the GBP profile ("${expected}")`,
+    })
+
+  const name = firstString(entity, 'name')
+  if (name && reference.name && !namesMatch(reference.name, name, nameRules)) {
+    mismatch('name', 'Business name', name, reference.name)
+  }
+
+  const phone = firstString(entity, 'telephone')
+  if (phone && reference.phone && phoneDigits(phone) !== phoneDigits(reference.phone)) {
+    mismatch('telephone', 'Phone', phone, reference.phone)
+  }
+
+  const address = addressText(entity)
+  if (address && reference.address && !addressesMatch(reference.address, address)) {
+    mismatch('address', 'Address', address, reference.address)
+  }
+
+  return issues
+}
+
+// ============================================
+// Report
+// ============================================
+
+export interface StructuredDataPageInput {
+  id: string
+  url: string
+  title: string | null
+  structuredData: StructuredDataItem[] | null
+  /** DataForSEO's has_micromarkup check */
+  hasMicromarkup: boolean
+}
+
+export interface StructuredDataPageReport {
+  id: string
+  url: string
+  title: string | null
+  types: string[]
+  issues: StructuredDataIssue[]
+}
+
+export interface StructuredDataReport {
+  /** Pages with inspected markup */
+  pages: StructuredDataPageReport[]
+  /** Pages without LocalBusiness (or subtype) markup */
+  pagesWithoutLocalBusiness: Array<{ id: string; url: string; title: string | null }>
+  summary: {
+    pagesWithStructuredData: number
+    /** Pages with markup that wasn't fetched (over the per-crawl limit) */
+    pagesNotInspected: number
+    pagesWithLocalBusiness: number
+    missingRequired: number
+    missingRecommended: number
+    napMismatches: number
+    /** Pages each schema type appears on */
+    byType: Record<string, number>
+  }
+}
+
+/**
+ * Validate one page's markup; NAP is compared when a reference is given
+ */
+export function validatePageStructuredData(
+  items: StructuredDataItem[],
+  reference?: NapReference | null,
+  nameRules?: BusinessNameRules
+): StructuredDataIssue[] {
+  return walkEntities(items).flatMap(({ entity, nested }) => {
+    const isLocalBusiness = entity.types.some(isLocalBusinessType)
+    // A nested LocalBusiness (e.g. a review's itemReviewed) is usually just a reference
+    if (isLocalBusiness && nested) return []
+
+    const issues = validateEntity(entity, { nested })
+    if (reference && isLocalBusiness) {
+      issues.push(...compareNap(entity, reference, nameRules))
+    }
+    return issues
+  })
+}
+
+/**
+ * Schema types a page declares: its top-level items plus nested types we
+ * validate (e.g. a BreadcrumbList inside a WebPage). Nested LocalBusiness
+ * references don't count.
+ */
+function pageTypes(items: StructuredDataItem[]): string[] {
+  const types = walkEntities(items).flatMap(({ entity, nested }) => {
+    if (!nested) return entity.types
+    const type = validatedType(entity)
+    return type && type !== 'LocalBusiness' ? [type] : []
+  })
+  return [...new Set(types)]
+}
+
+export function buildStructuredDataReport(
+  pages: StructuredDataPageInput[],
+  reference?: NapReference | null,
+  nameRules?: BusinessNameRules
+): StructuredDataReport {
+  const report: StructuredDataReport = {
+    pages: [],
+    pagesWithoutLocalBusiness: [],
+    summary: {
+      pagesWithStructuredData: 0,
+      pagesNotInspected: 0,
+      pagesWithLocalBusiness: 0,
+      missingRequired: 0,
+      missingRecommended: 0,
+      napMismatches: 0,
+      byType: {},
+    },
+  }
+
+  for (const page of pages) {
+    if (page.structuredData === null && page.hasMicromarkup) {
+      report.summary.pagesNotInspected++
+      continue
+    }
+
+    const items = page.structuredData ?? []
+    const types = pageTypes(items)
+
+    if (!types.some(isLocalBusinessType)) {
+      report.pagesWithoutLocalBusiness.push({ id: page.id, url: page.url, title: page.title })
+    } else {
+      report.summary.pagesWithLocalBusiness++
+    }
+
+    if (items.length === 0) continue
+
+    const issues = validatePageStructuredData(items, reference, nameRules)
+    report.pages.push({ id: page.id, url: page.url, title: page.title, types, issues })
+
+    report.summary.pagesWithStructuredData++
+    for (const type of types) {
+      report.summary.byType[type] = (report.summary.byType[type] ?? 0) + 1
+    }
+    for (const issue of issues) {
+      if (issue.kind === 'missing_required') report.summary.missingRequired++
+      else if (issue.kind === 'missing_recommended') report.summary.missingRecommended++
+      else report.summary.napMismatches++
+    }
+  }
+
+  report.pages.sort((a, b) => b.issues.length - a.issues.length)
+  return report
+}
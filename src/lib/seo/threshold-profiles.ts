@@ -0,0 +1,282 @@
+/**
+ * SEO Threshold Profiles
+ *
+ * Named sets of thresholds, thematic score weights and issue severities that
+ * a domain can be assigned in place of the baseline in seo-thresholds.ts.
+ * Stored profiles are resolved against the baseline, so values added to the
+ * baseline later still apply to older profiles.
+ */
+
+import { z } from 'zod'
+import {
+  ISSUE_SEVERITY_CONFIG,
+  SEO_THRESHOLDS,
+  THEMATIC_SCORE_WEIGHTS,
+  type IssueSeverity,
+  type IssueSeverityConfig,
+  type SeoThresholds,
+  type ThematicScoreWeights,
+} from '@/lib/constants/seo-thresholds'
+
+export interface ThresholdProfileConfig {
+  thresholds: SeoThresholds
+  weights: ThematicScoreWeights
+  severity: IssueSeverityConfig
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends number ? number : DeepPartial<T[K]> }
+
+export interface ThresholdProfileOverrides {
+  thresholds?: DeepPartial<SeoThresholds>
+  weights?: DeepPartial<ThematicScoreWeights>
+  /** Checks to move to another severity bucket */
+  severity?: Record<string, IssueSeverity>
+}
+
+export const DEFAULT_THRESHOLD_PROFILE: ThresholdProfileConfig = {
+  thresholds: SEO_THRESHOLDS,
+  weights: THEMATIC_SCORE_WEIGHTS,
+  severity: ISSUE_SEVERITY_CONFIG,
+}
+
+/** Every check that can be given a severity */
+export const SEVERITY_CHECKS: readonly string[] = [
+  ...ISSUE_SEVERITY_CONFIG.errors,
+  ...ISSUE_SEVERITY_CONFIG.warnings,
+  ...ISSUE_SEVERITY_CONFIG.notices,
+]
+
+const SEVERITY_BUCKETS = {
+  error: 'errors',
+  warning: 'warnings',
+  notice: 'notices',
+} as const satisfies Record<IssueSeverity, keyof IssueSeverityConfig>
+
+// ============================================
+// Validation
+// ============================================
+
+const value = z.number().nonnegative()
+
+const range = z
+  .object({ good: value, moderate: value })
+  .refine((r) => r.good <= r.moderate, 'Good must not exceed moderate')
+
+const lengthRange = z
+  .object({ minLength: value, maxLength: value })
+  .refine((r) => r.minLength <= r.maxLength, 'Minimum must not exceed maximum')
+
+const thresholdsSchema = z.object({
+  title: lengthRange,
+  description: lengthRange,
+  coreWebVitals: z.object({ lcp: range, fid: range, cls: range, ttfb: range, inp: range }),
+  content: z.object({
+    minWordCount: value,
+    targetWordCount: value,
+    maxWordCount: value,
+    minTextToHtmlRatio: value.max(1),
+    maxTextToHtmlRatio: value.max(1),
+  }),
+  links: z.object({ minInternalLinks: value, maxExternalRatio: value.max(1) }),
+  pageSize: z.object({ small: value, large: value, max: value }),
+  performance: z.object({
+    maxLoadTime: value,
+    maxTTFB: value,
+    maxDomComplete: value,
+    maxTTI: value,
+  }),
+  readability: z.object({ easy: value, moderate: value, difficult: value }),
+}) satisfies z.ZodType<SeoThresholds>
+
+const weight = z.number().int().min(0).max(100)
+
+const weightsSchema = z.object({
+  crawlability: z.object({
+    notBroken: weight,
+    no4xxCode: weight,
+    no5xxCode: weight,
+    notRedirect: weight,
+    hasCanonical: weight,
+    noMetaRefresh: weight,
+  }),
+  https: z.object({ isHttps: weight, noMixedContent: weight, httpsVerified: weight }),
+  coreWebVitals: z.object({ lcp: weight, fid: weight, cls: weight }),
+  performance: z.object({
+    noHighLoadTime: weight,
+    noHighWaitTime: weight,
+    noRenderBlocking: weight,
+    hasCompression: weight,
+    underSizeLimit: weight,
+  }),
+  internalLinking: z.object({
+    noBrokenLinks: weight,
+    hasInternalLinks: weight,
+    goodExternalRatio: weight,
+  }),
+  markup: z.object({
+    hasDoctype: weight,
+    noDeprecatedTags: weight,
+    noFrames: weight,
+    noFlash: weight,
+    hasSchema: weight,
+    noSchemaErrors: weight,
+  }),
+}) satisfies z.ZodType<ThematicScoreWeights>
+
+const checkList = z.array(
+  z.string().refine((check) => SEVERITY_CHECKS.includes(check), 'Unknown check')
+)
+
+const severitySchema = z
+  .object({ errors: checkList, warnings: checkList, notices: checkList })
+  .refine(
+    (s) =>
+      new Set([...s.errors, ...s.warnings, ...s.notices]).size ===
+      s.errors.length + s.warnings.length + s.notices.length,
+    'A check can only have one severity'
+  ) satisfies z.ZodType<IssueSeverityConfig>
+
+/**
+ * Full profile config as edited in settings. Checks left out of every
+ * severity list are not reported.
+ */
+export const thresholdProfileConfigSchema = z.object({
+  thresholds: thresholdsSchema,
+  weights: weightsSchema,
+  severity: severitySchema,
+})
+
+// ============================================
+// Resolution
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Numeric leaves of `base`, replaced by the matching numbers in `override`
+ */
+function mergeNumbers<T>(base: T, override: unknown): T {
+  if (typeof base === 'number') {
+    return (typeof override === 'number' && Number.isFinite(override) ? override : base) as T
+  }
+  if (!isRecord(base) || !isRecord(override)) return base
+
+  return Object.fromEntries(
+    Object.entries(base).map(([key, value]) => [key, mergeNumbers(value, override[key])])
+  ) as T
+}
+
+/**
+ * Severity config with some checks moved to another bucket
+ */
+export function reclassifyChecks(
+  severity: IssueSeverityConfig,
+  changes: Record<string, IssueSeverity>
+): IssueSeverityConfig {
+  const moved = new Set(Object.keys(changes))
+  const result = {
+    errors: severity.errors.filter((c) => !moved.has(c)),
+    warnings: severity.warnings.filter((c) => !moved.has(c)),
+    notices: severity.notices.filter((c) => !moved.has(c)),
+  }
+
+  for (const [check, level] of Object.entries(changes)) {
+    result[SEVERITY_BUCKETS[level]].push(check)
+  }
+
+  return result
+}
+
+/**
+ * Complete profile config from stored (possibly partial or outdated) JSON.
+ * Severity lists are used only when they are valid as a whole.
+ */
+export function resolveThresholdProfile(
+  stored: { thresholds?: unknown; weights?: unknown; severity?: unknown } | null
+): ThresholdProfileConfig {
+  if (!stored) return DEFAULT_THRESHOLD_PROFILE
+
+  const severity = severitySchema.safeParse(stored.severity)
+
+  return {
+    thresholds: mergeNumbers(SEO_THRESHOLDS as SeoThresholds, stored.thresholds),
+    weights: mergeNumbers(THEMATIC_SCORE_WEIGHTS as ThematicScoreWeights, stored.weights),
+    severity: severity.success ? severity.data : ISSUE_SEVERITY_CONFIG,
+  }
+}
+
+/**
+ * Baseline profile with overrides applied
+ */
+export function buildThresholdProfile(
+  overrides: ThresholdProfileOverrides
+): ThresholdProfileConfig {
+  return {
+    thresholds: mergeNumbers(SEO_THRESHOLDS as SeoThresholds, overrides.thresholds),
+    weights: mergeNumbers(THEMATIC_SCORE_WEIGHTS as ThematicScoreWeights, overrides.weights),
+    severity: reclassifyChecks(ISSUE_SEVERITY_CONFIG, overrides.severity ?? {}),
+  }
+}
+
+/**
+ * Severity per check for a severity config
+ */
+export function createSeverityMap(severity: IssueSeverityConfig): Map<string, IssueSeverity> {
+  return new Map<string, IssueSeverity>([
+    ...severity.errors.map((c) => [c, 'error'] as const),
+    ...severity.warnings.map((c) => [c, 'warning'] as const),
+    ...severity.notices.map((c) => [c, 'notice'] as const),
+  ])
+}
+
+// ============================================
+// Presets
+// ============================================
+
+export const THRESHOLD_PROFILE_PRESETS = {
+  ecommerce: {
+    label: 'E-commerce',
+    description:
+      'Product and category pages: shorter copy is normal, and duplicate meta from product variants matters less',
+    overrides: {
+      thresholds: {
+        content: { minWordCount: 150, targetWordCount: 500 },
+        links: { minInternalLinks: 10 },
+        pageSize: { large: 3 * 1024 * 1024, max: 5 * 1024 * 1024 },
+      },
+      weights: {
+        performance: { noHighLoadTime: 35, noRenderBlocking: 15 },
+      },
+      severity: {
+        duplicateTitle: 'notice',
+        duplicateDescription: 'notice',
+        duplicateContent: 'notice',
+        lowContentRate: 'notice',
+      },
+    },
+  },
+  local_practice: {
+    label: 'Local practice',
+    description:
+      'Service-area businesses: service pages need substantive copy and LocalBusiness schema',
+    overrides: {
+      thresholds: {
+        content: { minWordCount: 500, targetWordCount: 1000 },
+      },
+      weights: {
+        markup: { hasDoctype: 10, noFlash: 15, hasSchema: 35, noSchemaErrors: 15 },
+      },
+      severity: {
+        hasMisspelling: 'warning',
+        noFavicon: 'notice',
+      },
+    },
+  },
+} satisfies Record<
+  string,
+  { label: string; description: string; overrides: ThresholdProfileOverrides }
+>
+
+export type ThresholdProfilePreset = keyof typeof THRESHOLD_PROFILE_PRESETS
@@ -0,0 +1,52 @@
+/**
+ * Unit Tests for Share Link Tokens
+ */
+
+import { describe, it, expect } from 'vitest'
+import { signShareToken, verifyShareToken } from '../tokens'
+
+const SECRET = 'test-secret'
+const NOW = new Date('2026-10-01T12:00:00Z')
+const EXPIRES = new Date('2026-10-31T12:00:00Z')
+
+describe('share tokens', () => {
+  it('round-trips the link ID and expiry', () => {
+    const token = signShareToken('link_1', EXPIRES, SECRET)
+
+    expect(verifyShareToken(token, NOW, SECRET)).toEqual({
+      linkId: 'link_1',
+      expiresAt: EXPIRES,
+    })
+  })
+
+  it('rejects a token whose expiry was edited', () => {
+    const [linkId, expires, signature] = signShareToken('link_1', EXPIRES, SECRET).split('.')
+    const extended = `${linkId}.${Number(expires) + 86400}.${signature}`
+
+    expect(verifyShareToken(extended, NOW, SECRET)).toBeNull()
+  })
+
+  it('rejects a token pointing at a different link', () => {
+    const [, expires, signature] = signShareToken('link_1', EXPIRES, SECRET).split('.')
+
+    expect(verifyShareToken(`link_2.${expires}.${signature}`, NOW, SECRET)).toBeNull()
+  })
+
+  it('rejects an expired token', () => {
+    const token = signShareToken('link_1', EXPIRES, SECRET)
+
+    expect(verifyShareToken(token, new Date('2026-11-01T00:00:00Z'), SECRET)).toBeNull()
+  })
+
+  it('rejects a token signed with another secret', () => {
+    const token = signShareToken('link_1', EXPIRES, 'other-secret')
+
+    expect(verifyShareToken(token, NOW, SECRET)).toBeNull()
+  })
+
+  it('rejects malformed tokens', () => {
+    expect(verifyShareToken('', NOW, SECRET)).toBeNull()
+    expect(verifyShareToken('link_1.abc.sig', NOW, SECRET)).toBeNull()
+    expect(verifyShareToken('link_1.1790000000', NOW, SECRET)).toBeNull()
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Share Link Tokens
+ *
+ * A share token is `<linkId>.<expiresAt>.<signature>`, where the signature is
+ * an HMAC-SHA256 of the link ID and expiry (unix seconds) keyed with
+ * AUTH_SECRET. Forged or expired tokens are rejected before touching the
+ * database; revocation is checked against the stored link.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export interface ShareTokenPayload {
+  linkId: string
+  expiresAt: Date
+}
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET is required to sign share links')
+  }
+  return secret
+}
+
+function sign(value: string, secret: string): string {
+  return createHmac('sha256', secret).update(value).digest('base64url')
+}
+
+/**
+ * Create the token for a share link
+ */
+export function signShareToken(
+  linkId: string,
+  expiresAt: Date,
+  secret: string = getSecret()
+): string {
+  const payload = `${linkId}.${Math.floor(expiresAt.getTime() / 1000)}`
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * Verify a token's signature and expiry. Returns null for malformed,
+ * tampered or expired tokens.
+ */
+export function verifyShareToken(
+  token: string,
+  now: Date = new Date(),
+  secret: string = getSecret()
+): ShareTokenPayload | null {
+  const parts = token.split('.')
+  if (parts.length !== 3) return null
+
+  const [linkId, expires, signature] = parts as [string, string, string]
+  if (!linkId || !/^\d+$/.test(expires)) return null
+
+  const expected = Buffer.from(sign(`${linkId}.${expires}`, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  const expiresAt = new Date(Number(expires) * 1000)
+  if (expiresAt <= now) return null
+
+  return { linkId, expiresAt }
+}
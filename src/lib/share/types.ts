@@ -0,0 +1,128 @@
+/**
+ * Public Share Link Types
+ *
+ * What a share link exposes to an anonymous visitor. Each shared resource is
+ * a read-only snapshot built for public display: internal fields such as API
+ * cost and raw LLM responses are left out.
+ */
+
+import type { ShareResourceType } from '@prisma/client'
+import type { CompetitorRanking } from '@/lib/local-seo/types'
+import type { GridShape, ServiceArea } from '@/lib/local-seo/grid-calculator'
+import type { DigestData, ReportBranding } from '@/lib/reports/types'
+
+export const SHARE_RESOURCE_LABELS: Record<ShareResourceType, string> = {
+  DASHBOARD: 'Domain dashboard',
+  KEYWORD_RUN: 'Keyword tracking run',
+  GRID_SCAN: 'Local grid scan',
+  AI_SEO_RUN: 'AI SEO run',
+}
+
+/** Link expiry choices offered in the UI, in days */
+export const SHARE_EXPIRY_DAYS = [7, 30, 90, 365] as const
+
+export interface SharedKeywordRun {
+  type: 'KEYWORD_RUN'
+  run: {
+    id: string
+    status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
+    keywordsTracked: number
+    avgPosition: number | null
+    keywordsInTop3: number
+    keywordsInTop10: number
+    keywordsInTop100: number
+    keywordsNotRanking: number
+    improvedCount: number
+    declinedCount: number
+    unchangedCount: number
+    newRankingsCount: number
+    lostRankingsCount: number
+    startedAt: Date | null
+    completedAt: Date | null
+    createdAt: Date
+    locationName: string
+    languageCode: string
+    errorMessage: string | null
+  }
+  results: {
+    keyword: string
+    searchVolume: number | null
+    position: number | null
+    previousPosition: number | null
+    positionChange: number | null
+    rankingUrl: string | null
+  }[]
+}
+
+export interface SharedGridPoint {
+  row: number
+  col: number
+  lat: number
+  lng: number
+  keyword: string
+  rank: number | null
+  topRankings: CompetitorRanking[]
+}
+
+export interface SharedGridScan {
+  type: 'GRID_SCAN'
+  scan: {
+    id: string
+    campaignName: string
+    keywords: string[]
+    gridSize: number
+    radiusMiles: number
+    gridShape: GridShape
+    serviceArea: ServiceArea | null
+    centerLat: number
+    centerLng: number
+    completedAt: Date | null
+    avgRank: number | null
+    shareOfVoice: number | null
+  }
+  points: SharedGridPoint[]
+}
+
+export interface SharedAiSeoRun {
+  type: 'AI_SEO_RUN'
+  run: {
+    id: string
+    businessName: string
+    keywords: string[]
+    llmPlatforms: string[]
+    visibilityScore: number | null
+    totalMentions: number
+    totalCitations: number
+    completedAt: Date | null
+  }
+  platformScores: {
+    llmPlatform: string
+    mentionRate: number
+    citationRate: number
+    visibilityScore: number
+  }[]
+  recommendations: { priority: string; category: string; suggestion: string }[]
+  results: {
+    keyword: string
+    llmPlatform: string
+    isMentioned: boolean
+    mentionRank: number | null
+    isCited: boolean
+  }[]
+}
+
+export interface SharedDashboard {
+  type: 'DASHBOARD'
+  /** Rolling summary of the last 30 days, same shape as the email digest */
+  summary: DigestData
+}
+
+export type SharedResource = SharedDashboard | SharedKeywordRun | SharedGridScan | SharedAiSeoRun
+
+export interface SharedView {
+  label: string | null
+  expiresAt: Date
+  domain: { name: string; domain: string; businessName: string | null }
+  branding: ReportBranding
+  resource: SharedResource
+}
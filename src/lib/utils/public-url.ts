@@ -0,0 +1,88 @@
+/**
+ * Public URL Guard
+ *
+ * Checks for outbound requests to user-supplied URLs (webhooks, alert
+ * webhooks, sitemaps): only http(s), and only hosts whose every resolved
+ * address is public. Server-only.
+ *
+ * DNS can change between a check and the request that follows, so callers
+ * check when a URL is saved and again right before each request, and send
+ * with `redirect: 'manual'` (or check each hop) so a public URL can't
+ * redirect into the internal network.
+ */
+
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+
+/** Thrown when a URL uses another protocol or resolves to a non-public address */
+export class PublicUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PublicUrlError'
+  }
+}
+
+/** Loopback, private, link-local, carrier-grade NAT and reserved ranges */
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1]!, 'ipv4')
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Hostname without the brackets URL keeps around IPv6 literals
+ */
+export function bareHostname(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '')
+}
+
+export function assertHttpUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new PublicUrlError(`Unsupported protocol ${url.protocol}`)
+  }
+}
+
+/**
+ * Throw unless every address the host resolves to is public. DNS failures
+ * are rethrown as they are, since they may be temporary.
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const addresses = await lookup(hostname, { all: true })
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new PublicUrlError('Resolves to a private address')
+  }
+}
+
+/**
+ * Throw unless the URL is http(s) and its host resolves only to public addresses
+ */
+export async function assertPublicUrl(url: string | URL): Promise<void> {
+  const parsed = new URL(url)
+  assertHttpUrl(parsed)
+  await assertPublicHost(bareHostname(parsed))
+}
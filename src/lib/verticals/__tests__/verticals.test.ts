@@ -0,0 +1,68 @@
+/**
+ * Unit Tests for Industry Vertical Packs
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getVerticalPack,
+  hasVolumeRestrictedTerm,
+  normalizeBusinessName,
+  VERTICAL_IDS,
+  VERTICAL_PACKS,
+} from '../index'
+import { generateKeywordsForLocation } from '@/lib/keywords/preset-keywords'
+
+describe('getVerticalPack', () => {
+  it('returns the pack for a known vertical', () => {
+    expect(getVerticalPack('law_firm').id).toBe('law_firm')
+  })
+
+  it('falls back to the dental pack for unknown or missing ids', () => {
+    expect(getVerticalPack('bakery').id).toBe('dental')
+    expect(getVerticalPack(null).id).toBe('dental')
+    expect(getVerticalPack().id).toBe('dental')
+  })
+
+  it('registers a pack with templates and tracked keywords for every id', () => {
+    for (const id of VERTICAL_IDS) {
+      expect(VERTICAL_PACKS[id].id).toBe(id)
+      expect(VERTICAL_PACKS[id].keywordTemplates.length).toBeGreaterThan(0)
+      expect(VERTICAL_PACKS[id].trackedKeywords.length).toBeGreaterThan(0)
+    }
+  })
+})
+
+describe('normalizeBusinessName', () => {
+  it('applies synonyms and strips credentials and punctuation', () => {
+    const { businessName } = getVerticalPack('dental')
+    expect(normalizeBusinessName('Smile Dentistry, DDS', businessName)).toBe('smile dental')
+  })
+
+  it('uses the vertical credentials', () => {
+    const { businessName } = getVerticalPack('chiropractic')
+    expect(normalizeBusinessName('Back In Line Chiropractic, DC', businessName)).toBe(
+      'back in line chiropractic'
+    )
+  })
+})
+
+describe('hasVolumeRestrictedTerm', () => {
+  it('matches restricted terms case-insensitively', () => {
+    expect(hasVolumeRestrictedTerm('Dentist Austin', getVerticalPack('dental'))).toBe(true)
+    expect(hasVolumeRestrictedTerm('emergency care austin', getVerticalPack('dental'))).toBe(false)
+  })
+
+  it('never matches for a pack without restricted terms', () => {
+    expect(hasVolumeRestrictedTerm('dentist austin', getVerticalPack('law_firm'))).toBe(false)
+  })
+})
+
+describe('generateKeywordsForLocation', () => {
+  it('fills the selected pack templates with the location', () => {
+    const keywords = generateKeywordsForLocation('Austin', 'TX', getVerticalPack('chiropractic'))
+
+    expect(keywords).toContain('chiropractor austin')
+    expect(keywords.some((k) => k.includes('dentist'))).toBe(false)
+    expect(keywords.every((k) => !k.includes('{'))).toBe(true)
+  })
+})
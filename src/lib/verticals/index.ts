@@ -0,0 +1,80 @@
+/**
+ * Industry Vertical Packs
+ *
+ * Registry of the industry knowledge each domain is analysed with. A domain
+ * selects its pack via `domains.vertical`; unknown or missing values fall
+ * back to the dental pack, which matches the tool's original behaviour.
+ */
+
+import { chiropracticPack } from './packs/chiropractic'
+import { dentalPack } from './packs/dental'
+import { lawFirmPack } from './packs/law-firm'
+import { medSpaPack } from './packs/med-spa'
+import { VERTICAL_IDS, type BusinessNameRules, type VerticalId, type VerticalPack } from './types'
+
+export * from './types'
+
+export const DEFAULT_VERTICAL_ID: VerticalId = 'dental'
+
+export const VERTICAL_PACKS: Record<VerticalId, VerticalPack> = {
+  dental: dentalPack,
+  chiropractic: chiropracticPack,
+  med_spa: medSpaPack,
+  law_firm: lawFirmPack,
+}
+
+/**
+ * Dropdown options for choosing a domain's vertical
+ */
+export const VERTICAL_OPTIONS = VERTICAL_IDS.map((id) => ({
+  value: id,
+  label: VERTICAL_PACKS[id].label,
+}))
+
+export function isVerticalId(value: unknown): value is VerticalId {
+  return typeof value === 'string' && (VERTICAL_IDS as readonly string[]).includes(value)
+}
+
+/**
+ * Pack for a vertical id, or the default pack for unknown/missing ids
+ */
+export function getVerticalPack(id?: string | null): VerticalPack {
+  return isVerticalId(id) ? VERTICAL_PACKS[id] : VERTICAL_PACKS[DEFAULT_VERTICAL_ID]
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Normalizes a business name for comparison. Handles common variations in
+ * how businesses are listed, plus the vertical's credentials and synonyms.
+ */
+export function normalizeBusinessName(name: string, rules: BusinessNameRules): string {
+  let normalized = name
+    .toLowerCase()
+    .replace(/['']/g, "'") // Normalize quotes
+    .replace(/[–—]/g, '-') // Normalize dashes
+    .replace(/\s+/g, ' ') // Normalize whitespace
+
+  for (const [word, replacement] of Object.entries(rules.synonyms)) {
+    normalized = normalized.replace(new RegExp(`\\b${escapeRegExp(word)}\\b`, 'gi'), replacement)
+  }
+
+  for (const suffix of [...rules.credentials, 'llc', 'inc', 'pc']) {
+    normalized = normalized.replace(new RegExp(`\\b${escapeRegExp(suffix)}\\b`, 'gi'), '')
+  }
+
+  return normalized
+    .replace(/[.,]/g, '') // Remove punctuation
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Whether a keyword contains one of the vertical's volume-restricted terms
+ */
+export function hasVolumeRestrictedTerm(keyword: string, pack: VerticalPack): boolean {
+  const normalized = keyword.toLowerCase().trim()
+  return pack.volumeRestrictedTerms.some((term) => normalized.includes(term))
+}
@@ -0,0 +1,107 @@
+/**
+ * Chiropractic Vertical Pack
+ */
+
+import type { VerticalPack } from '../types'
+
+export const chiropracticPack: VerticalPack = {
+  id: 'chiropractic',
+  label: 'Chiropractic',
+  keywordTemplates: [
+    // Pattern 1: {keyword} {city}
+    'chiropractor {city}',
+    '{city} chiropractor',
+    'chiropractor in {city}',
+    'chiropractors in {city}',
+    'best chiropractor {city}',
+    'chiropractic {city}',
+    'chiropractic care {city}',
+    'chiropractic clinic {city}',
+    'chiropractor near me {city}',
+    'sports chiropractor {city}',
+    'family chiropractor {city}',
+    'prenatal chiropractor {city}',
+    'pediatric chiropractor {city}',
+    'back pain treatment {city}',
+    'neck pain treatment {city}',
+    'sciatica treatment {city}',
+    'spinal decompression {city}',
+    'auto accident chiropractor {city}',
+    'massage therapy {city}',
+    'physical therapy {city}',
+
+    // Pattern 2: {keyword} {city} {state}
+    'chiropractor {city} {state}',
+    'chiropractor in {city} {state}',
+    'chiropractic {city} {state}',
+    'best chiropractor in {city} {state}',
+
+    // Pattern 3: {keyword} {city} {state_full}
+    'chiropractor in {city} {state_full}',
+  ],
+  trackedKeywords: [
+    'chiropractor near me',
+    'chiropractic clinic',
+    'back pain chiropractor',
+    'sports chiropractor',
+    'spinal decompression',
+    'auto accident chiropractor',
+    'neck pain treatment',
+    'sciatica treatment',
+  ],
+  keywordSeeds: {
+    general: [
+      'chiropractor near me',
+      'chiropractic adjustment',
+      'back pain relief',
+      'neck pain treatment',
+      'sciatica treatment',
+      'spinal decompression',
+    ],
+    sports: [
+      'sports chiropractor',
+      'sports injury treatment',
+      'active release technique',
+      'shoulder pain treatment',
+    ],
+    'personal-injury': [
+      'auto accident chiropractor',
+      'whiplash treatment',
+      'car accident injury doctor',
+    ],
+    family: ['family chiropractor', 'prenatal chiropractor', 'pediatric chiropractor'],
+  },
+  volumeRestrictedTerms: [
+    'chiropractor',
+    'chiropractic',
+    'spinal decompression',
+    'back pain',
+    'neck pain',
+    'sciatica',
+    'physical therapy',
+  ],
+  gbp: {
+    primaryCategory: 'Chiropractor',
+    primaryCategoryNote:
+      '"Chiropractor" typically performs better than "Medical Clinic" for most practices',
+    specialistCategory: 'Sports Medicine Clinic',
+    secondaryCategories: ['Physical Therapy Clinic', 'Massage Therapist', 'Pain Control Clinic'],
+    exampleBusinessName: 'Align Chiropractic',
+    postTopics: 'promotions, posture and wellness tips, team highlights, or patient testimonials',
+    photoSubjects: 'your clinic, team, treatment rooms, equipment, and happy patients',
+    descriptionKeywords: ['chiropractor', '[city] chiropractic'],
+  },
+  businessName: {
+    credentials: ['dc'],
+    synonyms: { chiropractor: 'chiropractic', chiropractors: 'chiropractic' },
+  },
+  funnel: {
+    websiteConvRate: 0.12,
+    receptionRate: 0.7,
+    attendanceRate: 0.85,
+    referralRate: 0.2,
+    avgShortTermValue: 450,
+    avgLifetimeValue: 3000,
+    avgCpc: 6,
+  },
+}
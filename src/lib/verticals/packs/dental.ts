@@ -0,0 +1,198 @@
+/**
+ * Dental Vertical Pack
+ */
+
+import type { VerticalPack } from '../types'
+
+export const dentalPack: VerticalPack = {
+  id: 'dental',
+  label: 'Dental',
+  keywordTemplates: [
+    // Pattern 1: {keyword} {city} - 62 templates
+    'dentist {city}',
+    'orthodontist {city}',
+    'emergency dentist {city}',
+    'pediatric dentist {city}',
+    'dental implants {city}',
+    '{city} dentist',
+    '{city} dentists',
+    'dentist in {city}',
+    'dentists in {city}',
+    'dentists {city}',
+    'teeth whitening {city}',
+    'invisalign {city}',
+    'endodontist {city}',
+    '{city} orthodontist',
+    'best dentist {city}',
+    'veneers {city}',
+    'pediatric dentist in {city}',
+    'whitening teeth {city}',
+    '24 hour emergency dentist {city}',
+    'braces {city}',
+    'wisdom teeth removal {city}',
+    'dentist near me {city}',
+    '{city} orthodontists',
+    'all on 4 dental implants {city}',
+    'teeth in a day {city}',
+    'dental implants in {city}',
+    '{city} dental implants',
+    'dental office {city}',
+    '{city} emergency dentist',
+    'dental clinic {city}',
+    'dental {city}',
+    'emergency dental care {city}',
+    'emergency dental {city}',
+    'porcelain veneers {city}',
+    'childrens dentist {city}',
+    '{city} pediatric dentistry',
+    'root canal {city}',
+    '{city} invisalign',
+    'cosmetic dentist in {city}',
+    'dentist office {city}',
+    '{city} cosmetic dentist',
+    'dental veneers {city}',
+    'wisdom teeth extraction {city}',
+    'dental insurance {city}',
+    'cosmetic dentistry in {city}',
+    'natural dentist {city}',
+    'kids dentist {city}',
+    'invisalign in {city}',
+    'implant supported dentures {city}',
+    'best dental implants {city}',
+    'oral surgeons {city}',
+    'tooth extraction {city}',
+    'dental cleaning {city}',
+    'teeth cleaning {city}',
+    'dental bridges {city}',
+    'dental crown {city}',
+    'dental crowns {city}',
+    'dentist {city} near me',
+    '{city} porcelain veneers',
+    'emergency root canal {city}',
+    'dental clinics in {city}',
+
+    // Pattern 2: {keyword} {city} {state} - 19 templates
+    'dentist {city} {state}',
+    'dental implants {city} {state}',
+    'emergency dentist in {city} {state}',
+    'orthodontist in {city} {state}',
+    'dentist in {city} {state}',
+    'dental {city} {state}',
+    'oral surgeon {city} {state}',
+    'teeth whitening {city} {state}',
+    'invisalign {city} {state}',
+    'dentist office {city} {state}',
+    'endodontist {city} {state}',
+    'best dentist in {city} {state}',
+    'dental implants in {city} {state}',
+    'dental crowns {city} {state}',
+    'dental insurance {city} {state}',
+    'cosmetic dentist {city} {state}',
+    'emergency dentist {city} {state}',
+    'dentists {city} {state}',
+    'cosmetic dentistry {city} {state}',
+
+    // Pattern 3: {keyword} {city} {state_full} - 1 template
+    'dentist in {city} {state_full}',
+
+    // Pattern 4: Special cases - 1 template
+    'emergency dentist {city} medicaid',
+  ],
+  trackedKeywords: [
+    'dentist near me',
+    'dental clinic',
+    'family dentist',
+    'emergency dentist',
+    'teeth whitening',
+    'dental implants',
+    'orthodontist near me',
+    'pediatric dentist',
+  ],
+  keywordSeeds: {
+    general: [
+      'dentist near me',
+      'dental cleaning',
+      'family dentist',
+      'dental checkup',
+      'tooth extraction',
+      'root canal',
+      'dental filling',
+      'emergency dentist',
+    ],
+    cosmetic: [
+      'teeth whitening',
+      'dental veneers',
+      'cosmetic dentist',
+      'smile makeover',
+      'dental bonding',
+      'porcelain veneers',
+      'teeth bleaching',
+    ],
+    pediatric: [
+      'pediatric dentist',
+      'kids dentist',
+      'child dentist',
+      'children dental care',
+      "baby's first dentist",
+      'dental sealants kids',
+    ],
+    orthodontic: [
+      'orthodontist near me',
+      'braces',
+      'invisalign',
+      'teeth straightening',
+      'clear aligners',
+      'adult braces',
+    ],
+    'oral-surgery': [
+      'oral surgeon',
+      'wisdom tooth extraction',
+      'dental implants',
+      'jaw surgery',
+      'tooth removal surgery',
+    ],
+  },
+  volumeRestrictedTerms: [
+    'dentist',
+    'dental',
+    'dentistry',
+    'orthodontist',
+    'endodontist',
+    'periodontist',
+    'prosthodontist',
+    'oral surgeon',
+    'invisalign',
+    'dentures',
+    'veneers',
+    'teeth whitening',
+    'root canal',
+  ],
+  gbp: {
+    primaryCategory: 'Dentist',
+    primaryCategoryNote:
+      '"Dentist" typically performs better than "Dental Clinic" for most practices',
+    specialistCategory: 'Orthodontist',
+    secondaryCategories: [
+      'Cosmetic Dentist',
+      'Emergency Dental Service',
+      'Dental Implants Provider',
+    ],
+    exampleBusinessName: 'Bright Smiles Dental',
+    postTopics: 'promotions, dental tips, team highlights, or patient testimonials',
+    photoSubjects: 'your office, team, equipment, before/after cases, and happy patients',
+    descriptionKeywords: ['dentist', '[city] dental'],
+  },
+  businessName: {
+    credentials: ['dds', 'dmd'],
+    synonyms: { dentistry: 'dental' },
+  },
+  funnel: {
+    websiteConvRate: 0.15,
+    receptionRate: 0.66,
+    attendanceRate: 0.85,
+    referralRate: 0.25,
+    avgShortTermValue: 1000,
+    avgLifetimeValue: 10000,
+    avgCpc: 7,
+  },
+}
@@ -0,0 +1,94 @@
+/**
+ * Law Firm Vertical Pack
+ */
+
+import type { VerticalPack } from '../types'
+
+export const lawFirmPack: VerticalPack = {
+  id: 'law_firm',
+  label: 'Law Firm',
+  keywordTemplates: [
+    // Pattern 1: {keyword} {city}
+    'lawyer {city}',
+    '{city} lawyer',
+    'attorney {city}',
+    '{city} attorney',
+    'law firm {city}',
+    'lawyers in {city}',
+    'best lawyer {city}',
+    'personal injury lawyer {city}',
+    'car accident lawyer {city}',
+    'truck accident lawyer {city}',
+    'divorce lawyer {city}',
+    'family lawyer {city}',
+    'child custody lawyer {city}',
+    'criminal defense lawyer {city}',
+    'dui lawyer {city}',
+    'estate planning attorney {city}',
+    'workers comp lawyer {city}',
+    'immigration lawyer {city}',
+
+    // Pattern 2: {keyword} {city} {state}
+    'lawyer {city} {state}',
+    'personal injury lawyer {city} {state}',
+    'divorce lawyer {city} {state}',
+    'law firm {city} {state}',
+
+    // Pattern 3: {keyword} {city} {state_full}
+    'lawyer in {city} {state_full}',
+  ],
+  trackedKeywords: [
+    'lawyer near me',
+    'law firm near me',
+    'personal injury lawyer',
+    'car accident lawyer',
+    'divorce lawyer',
+    'criminal defense lawyer',
+    'estate planning attorney',
+    'free consultation lawyer',
+  ],
+  keywordSeeds: {
+    general: ['lawyer near me', 'law firm', 'attorney near me', 'free consultation lawyer'],
+    'personal-injury': [
+      'personal injury lawyer',
+      'car accident lawyer',
+      'truck accident lawyer',
+      'slip and fall lawyer',
+      'wrongful death attorney',
+    ],
+    family: ['divorce lawyer', 'family lawyer', 'child custody lawyer', 'child support lawyer'],
+    criminal: ['criminal defense lawyer', 'dui lawyer', 'drug charges lawyer'],
+    'estate-planning': [
+      'estate planning attorney',
+      'will lawyer',
+      'probate lawyer',
+      'trust attorney',
+    ],
+  },
+  // Legal keywords aren't subject to Google Ads healthcare volume restrictions
+  volumeRestrictedTerms: [],
+  gbp: {
+    primaryCategory: 'Law Firm',
+    primaryCategoryNote:
+      '"Law Firm" covers every practice area; firms focused on one area may do better with its category',
+    specialistCategory: 'Personal Injury Attorney',
+    secondaryCategories: ['Attorney', 'Legal Services', 'Trial Attorney'],
+    exampleBusinessName: 'Smith & Associates Law',
+    postTopics: 'case results, legal tips, team highlights, or client testimonials',
+    photoSubjects: 'your office, attorneys, team, conference rooms, and community events',
+    descriptionKeywords: ['lawyer', '[city] attorney'],
+  },
+  businessName: {
+    credentials: ['esq', 'pllc', 'llp'],
+    synonyms: { attorneys: 'law', attorney: 'law', lawyers: 'law', lawyer: 'law' },
+  },
+  funnel: {
+    websiteConvRate: 0.08,
+    receptionRate: 0.5,
+    attendanceRate: 0.9,
+    referralRate: 0.1,
+    avgShortTermValue: 3500,
+    avgLifetimeValue: 8000,
+    avgCpc: 25,
+  },
+}
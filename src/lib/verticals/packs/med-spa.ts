@@ -0,0 +1,87 @@
+/**
+ * Med Spa Vertical Pack
+ */
+
+import type { VerticalPack } from '../types'
+
+export const medSpaPack: VerticalPack = {
+  id: 'med_spa',
+  label: 'Med Spa',
+  keywordTemplates: [
+    // Pattern 1: {keyword} {city}
+    'med spa {city}',
+    '{city} med spa',
+    'medical spa {city}',
+    'med spa in {city}',
+    'best med spa {city}',
+    'botox {city}',
+    'botox in {city}',
+    'dermal fillers {city}',
+    'lip filler {city}',
+    'laser hair removal {city}',
+    'coolsculpting {city}',
+    'hydrafacial {city}',
+    'microneedling {city}',
+    'chemical peel {city}',
+    'laser skin resurfacing {city}',
+    'iv therapy {city}',
+    'medical weight loss {city}',
+
+    // Pattern 2: {keyword} {city} {state}
+    'med spa {city} {state}',
+    'botox {city} {state}',
+    'medical spa {city} {state}',
+    'laser hair removal {city} {state}',
+
+    // Pattern 3: {keyword} {city} {state_full}
+    'med spa in {city} {state_full}',
+  ],
+  trackedKeywords: [
+    'med spa near me',
+    'botox near me',
+    'dermal fillers',
+    'lip filler',
+    'laser hair removal',
+    'hydrafacial',
+    'microneedling',
+    'medical weight loss',
+  ],
+  keywordSeeds: {
+    general: ['med spa near me', 'medical spa', 'skin clinic', 'aesthetic clinic'],
+    injectables: ['botox', 'dermal fillers', 'lip filler', 'kybella', 'dysport'],
+    skin: ['hydrafacial', 'microneedling', 'chemical peel', 'laser skin resurfacing'],
+    body: ['coolsculpting', 'laser hair removal', 'body contouring', 'medical weight loss'],
+  },
+  volumeRestrictedTerms: [
+    'botox',
+    'dermal filler',
+    'lip filler',
+    'medical spa',
+    'med spa',
+    'medical weight loss',
+    'semaglutide',
+  ],
+  gbp: {
+    primaryCategory: 'Medical Spa',
+    primaryCategoryNote: '"Medical Spa" typically performs better than "Day Spa" for most clinics',
+    specialistCategory: 'Laser Hair Removal Service',
+    secondaryCategories: ['Skin Care Clinic', 'Facial Spa', 'Weight Loss Service'],
+    exampleBusinessName: 'Glow Aesthetics',
+    postTopics: 'promotions, skincare tips, treatment spotlights, or client testimonials',
+    photoSubjects: 'your clinic, team, treatment rooms, before/after results, and happy clients',
+    descriptionKeywords: ['med spa', '[city] botox'],
+  },
+  businessName: {
+    credentials: ['md', 'np', 'rn', 'pa-c'],
+    synonyms: { medspa: 'med spa', 'medical spa': 'med spa' },
+  },
+  funnel: {
+    websiteConvRate: 0.1,
+    receptionRate: 0.6,
+    attendanceRate: 0.8,
+    referralRate: 0.2,
+    avgShortTermValue: 600,
+    avgLifetimeValue: 4000,
+    avgCpc: 5,
+  },
+}
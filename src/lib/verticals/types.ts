@@ -0,0 +1,80 @@
+/**
+ * Vertical Pack Types
+ *
+ * A vertical pack holds the industry-specific knowledge the tools rely on:
+ * keyword templates, GBP category advice, business-name matching rules and
+ * calculator funnel defaults.
+ */
+
+export const VERTICAL_IDS = ['dental', 'chiropractic', 'med_spa', 'law_firm'] as const
+
+export type VerticalId = (typeof VERTICAL_IDS)[number]
+
+/**
+ * Conversion funnel and value defaults for the ROI calculators
+ */
+export interface VerticalFunnelDefaults {
+  websiteConvRate: number
+  receptionRate: number
+  attendanceRate: number
+  referralRate: number
+  avgShortTermValue: number
+  avgLifetimeValue: number
+  avgCpc: number
+}
+
+/**
+ * Google Business Profile recommendations for the vertical
+ */
+export interface VerticalGBPProfile {
+  /** Category recommended as the primary GBP category */
+  primaryCategory: string
+  /** Why the primary category is recommended, shown on the check */
+  primaryCategoryNote: string
+  /** Example specialist category that may be a better primary for specialists */
+  specialistCategory: string
+  /** Suggested secondary categories */
+  secondaryCategories: string[]
+  /** Example business name used in the "city in name" recommendation */
+  exampleBusinessName: string
+  /** What to post about, completing "Post weekly updates about ..." */
+  postTopics: string
+  /** What to photograph, completing "Add photos of ..." */
+  photoSubjects: string
+  /** Keywords the business description should mention */
+  descriptionKeywords: string[]
+}
+
+/**
+ * Rules for matching Maps listing titles to the tracked business name
+ */
+export interface BusinessNameRules {
+  /** Professional credentials stripped from names (e.g. "dds") */
+  credentials: string[]
+  /** Words rewritten before comparing, e.g. { dentistry: 'dental' } */
+  synonyms: Record<string, string>
+}
+
+export interface VerticalPack {
+  id: VerticalId
+  label: string
+  /**
+   * Location keyword templates. Placeholders:
+   * - {city} = city name lowercase (e.g., "philadelphia")
+   * - {state} = state abbreviation lowercase (e.g., "pa")
+   * - {state_full} = full state name lowercase (e.g., "pennsylvania")
+   */
+  keywordTemplates: string[]
+  /** Keywords tracked in audits when none are specified */
+  trackedKeywords: string[]
+  /** Seed keywords for keyword suggestions, grouped by practice area. The first group is the default. */
+  keywordSeeds: Record<string, string[]>
+  /**
+   * Terms whose local keywords Google Ads hides search volume for, so
+   * historical data is used instead. Empty when the vertical isn't affected.
+   */
+  volumeRestrictedTerms: string[]
+  gbp: VerticalGBPProfile
+  businessName: BusinessNameRules
+  funnel: VerticalFunnelDefaults
+}
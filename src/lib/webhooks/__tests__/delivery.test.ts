@@ -0,0 +1,148 @@
+/**
+ * Unit Tests for Webhook Events and Delivery
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi, type Mock } from 'vitest'
+
+vi.mock('dns/promises', () => {
+  const lookup = vi.fn()
+  return { default: { lookup }, lookup }
+})
+
+import { lookup } from 'dns/promises'
+import { isSubscribed, jobWebhookEvent, WEBHOOK_EVENT_TYPES } from '../events'
+import { buildJobPayload, sendWebhookRequest } from '../delivery'
+import { verifyWebhookSignature } from '../signing'
+
+const REQUEST = {
+  deliveryId: 'del_1',
+  eventType: 'keyword_tracking.completed',
+  url: 'https://example.com/hook',
+  secret: 'whsec_test',
+  payload: { id: 'evt_1' },
+}
+
+beforeEach(() => {
+  ;(lookup as unknown as Mock).mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('webhook events', () => {
+  it('lists started/completed/failed for every job', () => {
+    expect(WEBHOOK_EVENT_TYPES).toHaveLength(15)
+    expect(WEBHOOK_EVENT_TYPES).toContain('grid_scan.failed')
+  })
+
+  it('treats an empty subscription as every event', () => {
+    expect(isSubscribed([], 'audit.started')).toBe(true)
+    expect(isSubscribed(['audit.completed'], 'audit.started')).toBe(false)
+    expect(isSubscribed(['audit.completed'], 'audit.completed')).toBe(true)
+  })
+
+  it('builds the Inngest lifecycle event', () => {
+    const event = jobWebhookEvent('site_audit', 'failed', 'scan_1', { error: 'boom' })
+
+    expect(event.name).toBe('webhooks/job.lifecycle')
+    expect(event.data).toMatchObject({
+      job: 'site_audit',
+      status: 'failed',
+      resourceId: 'scan_1',
+      details: { error: 'boom' },
+    })
+  })
+})
+
+describe('buildJobPayload', () => {
+  it('nests job details under data with the event type at the top', () => {
+    const payload = buildJobPayload({
+      eventId: 'evt_1',
+      job: 'keyword_tracking',
+      status: 'completed',
+      resourceId: 'run_1',
+      occurredAt: '2026-10-01T12:00:00.000Z',
+      domain: { id: 'dom_1', name: 'Acme', domain: 'acme.com' },
+      path: '/d/dom_1/keyword-tracking/run_1',
+      details: { keywordsTracked: 42 },
+    })
+
+    expect(payload).toMatchObject({
+      id: 'evt_1',
+      type: 'keyword_tracking.completed',
+      domain: { domain: 'acme.com' },
+      data: { resourceId: 'run_1', status: 'completed', keywordsTracked: 42 },
+    })
+  })
+})
+
+describe('sendWebhookRequest', () => {
+  it('posts a signed body and reports success', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const attempt = await sendWebhookRequest(REQUEST)
+
+    expect(attempt).toEqual({
+      ok: true,
+      status: 200,
+      error: null,
+      durationMs: expect.any(Number),
+      retryable: false,
+    })
+
+    const [, init] = fetchMock.mock.calls[0]!
+    const headers = init.headers as Record<string, string>
+    expect(headers['X-Webhook-Id']).toBe('del_1')
+    expect(verifyWebhookSignature(init.body, headers['X-Webhook-Signature']!, 'whsec_test')).toBe(
+      true
+    )
+  })
+
+  it('retries server errors but not client errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 503 })))
+    expect(await sendWebhookRequest(REQUEST)).toMatchObject({ ok: false, retryable: true })
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 404 })))
+    expect(await sendWebhookRequest(REQUEST)).toMatchObject({ ok: false, retryable: false })
+  })
+
+  it('reports network errors as retryable', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('ECONNREFUSED')))
+
+    expect(await sendWebhookRequest(REQUEST)).toMatchObject({
+      ok: false,
+      status: null,
+      error: 'ECONNREFUSED',
+      retryable: true,
+    })
+  })
+
+  it('refuses hosts that resolve to private addresses without sending', async () => {
+    const fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+    ;(lookup as unknown as Mock).mockResolvedValue([{ address: '169.254.169.254', family: 4 }])
+
+    expect(await sendWebhookRequest(REQUEST)).toMatchObject({
+      ok: false,
+      status: null,
+      error: 'Resolves to a private address',
+      retryable: false,
+    })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('does not follow redirects', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response('', { status: 302, headers: { location: 'http://127.0.0.1/admin' } })
+      )
+    vi.stubGlobal('fetch', fetchMock)
+
+    expect(await sendWebhookRequest(REQUEST)).toMatchObject({ ok: false, status: 302 })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0]![1]).toMatchObject({ redirect: 'manual' })
+  })
+})
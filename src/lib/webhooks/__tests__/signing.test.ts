@@ -0,0 +1,50 @@
+/**
+ * Unit Tests for Webhook Signing
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SECRET_PREFIX,
+} from '../signing'
+
+const SECRET = 'whsec_test'
+const BODY = JSON.stringify({ id: 'evt_1', type: 'site_audit.completed' })
+const NOW = 1_790_000_000
+
+describe('webhook signing', () => {
+  it('produces a signature the receiver can verify', () => {
+    const header = signWebhookPayload(BODY, SECRET, NOW)
+
+    expect(header).toMatch(/^t=1790000000,v1=[0-9a-f]{64}$/)
+    expect(verifyWebhookSignature(BODY, header, SECRET, NOW)).toBe(true)
+  })
+
+  it('rejects a modified body or the wrong secret', () => {
+    const header = signWebhookPayload(BODY, SECRET, NOW)
+
+    expect(verifyWebhookSignature(`${BODY} `, header, SECRET, NOW)).toBe(false)
+    expect(verifyWebhookSignature(BODY, header, 'whsec_other', NOW)).toBe(false)
+  })
+
+  it('rejects a replayed timestamp outside the tolerance', () => {
+    const header = signWebhookPayload(BODY, SECRET, NOW)
+
+    expect(verifyWebhookSignature(BODY, header, SECRET, NOW + 299)).toBe(true)
+    expect(verifyWebhookSignature(BODY, header, SECRET, NOW + 301)).toBe(false)
+  })
+
+  it('rejects malformed headers', () => {
+    expect(verifyWebhookSignature(BODY, 'garbage', SECRET, NOW)).toBe(false)
+    expect(verifyWebhookSignature(BODY, `t=${NOW},v1=abc`, SECRET, NOW)).toBe(false)
+  })
+
+  it('generates distinct prefixed secrets', () => {
+    const secret = generateWebhookSecret()
+
+    expect(secret.startsWith(WEBHOOK_SECRET_PREFIX)).toBe(true)
+    expect(secret).not.toBe(generateWebhookSecret())
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * Webhook Delivery
+ *
+ * Builds job lifecycle payloads and performs a single signed POST. Retries are
+ * left to the caller (the Inngest delivery function), which uses `retryable`
+ * to decide whether another attempt can help.
+ */
+
+import { assertPublicUrl, PublicUrlError } from '@/lib/utils/public-url'
+import { signWebhookPayload } from './signing'
+import { WEBHOOK_JOBS, type WebhookJob, type WebhookJobStatus } from './events'
+
+const WEBHOOK_TIMEOUT_MS = 10_000
+
+export interface WebhookRequest {
+  deliveryId: string
+  eventType: string
+  url: string
+  secret: string
+  payload: unknown
+}
+
+export interface WebhookAttempt {
+  ok: boolean
+  status: number | null
+  error: string | null
+  durationMs: number
+  /** Network errors, timeouts, 408, 429 and 5xx are worth retrying */
+  retryable: boolean
+}
+
+export interface JobPayloadInput {
+  eventId: string
+  job: WebhookJob
+  status: WebhookJobStatus
+  resourceId: string
+  occurredAt: string
+  domain: { id: string; name: string; domain: string }
+  /** App path of the job's result page */
+  path: string | null
+  details: Record<string, unknown>
+}
+
+/**
+ * Absolute app URL for a path, when APP_URL is set
+ */
+function appUrl(path: string | null): string | null {
+  const base = process.env.APP_URL?.replace(/\/$/, '')
+  return base && path ? `${base}${path}` : null
+}
+
+/**
+ * JSON body posted for a job lifecycle event
+ */
+export function buildJobPayload(input: JobPayloadInput): Record<string, unknown> {
+  return {
+    id: input.eventId,
+    type: `${input.job}.${input.status}`,
+    createdAt: input.occurredAt,
+    domain: input.domain,
+    data: {
+      job: input.job,
+      jobLabel: WEBHOOK_JOBS[input.job],
+      status: input.status,
+      resourceId: input.resourceId,
+      url: appUrl(input.path),
+      ...input.details,
+    },
+  }
+}
+
+/**
+ * JSON body posted by the "Send test" action
+ */
+export function buildTestPayload(
+  eventId: string,
+  endpoint: { id: string; name: string }
+): Record<string, unknown> {
+  return {
+    id: eventId,
+    type: 'webhook.test',
+    createdAt: new Date().toISOString(),
+    data: {
+      endpointId: endpoint.id,
+      endpointName: endpoint.name,
+      message: 'Test delivery. Your endpoint is receiving signed webhooks.',
+    },
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * POST a payload to an endpoint with signature headers. The URL is checked
+ * for a public address on every send, redirects aren't followed and the
+ * response body is discarded, so a delivery can't be used to read internal
+ * services.
+ */
+export async function sendWebhookRequest(request: WebhookRequest): Promise<WebhookAttempt> {
+  const body = JSON.stringify(request.payload)
+  const startedAt = Date.now()
+
+  try {
+    await assertPublicUrl(request.url)
+
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'NK-SEO-Tool-Webhooks/1.0',
+        'X-Webhook-Id': request.deliveryId,
+        'X-Webhook-Event': request.eventType,
+        'X-Webhook-Signature': signWebhookPayload(body, request.secret),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    })
+
+    await response.body?.cancel()
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      error: response.ok ? null : `Endpoint responded with ${response.status}`,
+      durationMs: Date.now() - startedAt,
+      retryable: !response.ok && isRetryableStatus(response.status),
+    }
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError'
+
+    return {
+      ok: false,
+      status: null,
+      error: timedOut
+        ? `Timed out after ${WEBHOOK_TIMEOUT_MS / 1000}s`
+        : error instanceof Error
+          ? error.message
+          : 'Request failed',
+      durationMs: Date.now() - startedAt,
+      // DNS may change, but a URL pointing at a private address won't fix itself
+      retryable: !(error instanceof PublicUrlError),
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Webhook Events
+ *
+ * Background jobs report their lifecycle with `jobWebhookEvent`; the webhook
+ * dispatcher turns each report into one signed delivery per subscribed endpoint.
+ */
+
+export const WEBHOOK_JOBS = {
+  audit: 'SEO audit',
+  site_audit: 'Site audit',
+  grid_scan: 'Local grid scan',
+  keyword_tracking: 'Keyword tracking run',
+  ai_seo: 'AI SEO analysis',
+} as const
+
+export type WebhookJob = keyof typeof WEBHOOK_JOBS
+
+export const WEBHOOK_JOB_STATUSES = ['started', 'completed', 'failed'] as const
+
+export type WebhookJobStatus = (typeof WEBHOOK_JOB_STATUSES)[number]
+
+export type WebhookEventType = `${WebhookJob}.${WebhookJobStatus}`
+
+/** Sent by the "Send test" action; endpoints always receive it */
+export const WEBHOOK_TEST_EVENT = 'webhook.test'
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = (
+  Object.keys(WEBHOOK_JOBS) as WebhookJob[]
+).flatMap((job) => WEBHOOK_JOB_STATUSES.map((status) => `${job}.${status}` as const))
+
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as string[]).includes(value)
+}
+
+/**
+ * Whether an endpoint subscribed to `events` should receive `eventType`.
+ * An empty subscription list means every event.
+ */
+export function isSubscribed(events: string[], eventType: string): boolean {
+  return events.length === 0 || events.includes(eventType)
+}
+
+/**
+ * Inngest event reporting a job's lifecycle. Send it with `step.sendEvent`
+ * (or `inngest.send` outside a step) from the job's function.
+ */
+export function jobWebhookEvent(
+  job: WebhookJob,
+  status: WebhookJobStatus,
+  resourceId: string,
+  details: Record<string, unknown> = {}
+) {
+  return {
+    name: 'webhooks/job.lifecycle' as const,
+    data: { job, status, resourceId, occurredAt: new Date().toISOString(), details },
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Webhook Signing
+ *
+ * Every delivery carries `X-Webhook-Signature: t=<unix seconds>,v1=<hex>`, where
+ * v1 is HMAC-SHA256(secret, `${t}.${body}`). Receivers recompute it with their
+ * endpoint secret and reject stale timestamps to prevent replays.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+export const WEBHOOK_SECRET_PREFIX = 'whsec_'
+
+/** Signatures older than this are rejected by `verifyWebhookSignature` */
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60
+
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString('base64url')}`
+}
+
+function computeSignature(body: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Build the signature header value for a request body
+ */
+export function signWebhookPayload(
+  body: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(body, secret, timestamp)}`
+}
+
+/**
+ * Check a signature header against a request body, as a receiver would
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000),
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => part.trim().split('=', 2) as [string, string])
+  )
+  const timestamp = Number(parts.t)
+  if (!Number.isInteger(timestamp) || !parts.v1) return false
+  if (Math.abs(now - timestamp) > toleranceSeconds) return false
+
+  const expected = Buffer.from(computeSignature(body, secret, timestamp), 'hex')
+  const received = Buffer.from(parts.v1, 'hex')
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}